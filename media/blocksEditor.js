@@ -0,0 +1,399 @@
+(function () {
+  const vscode = acquireVsCodeApi();
+
+  const TILE_SIZE = 24;
+  const NODE_RADIUS = 9;
+  const WIRE_COLORS = { normal: '#cccccc', backup: '#ffb347', random: '#c792ea' };
+
+  let canvas = null;
+  let ctx = null;
+  let info = { rowcount: 0, colcount: 0 };
+  let tiles = [];
+  let colorMap = {};
+  let graph = { blocks: [], wires: [] };
+  let definitions = { triggers: {}, events: {} };
+  let selectedId = null;
+  let parameterErrors = [];
+  let drag = null;
+
+  document.addEventListener('DOMContentLoaded', () => {
+    canvas = document.getElementById('blocksCanvas');
+    ctx = canvas.getContext('2d');
+
+    setupEventListeners();
+    vscode.postMessage({ type: 'ready' });
+  });
+
+  function setupEventListeners() {
+    canvas.addEventListener('mousedown', onMouseDown);
+    canvas.addEventListener('mousemove', onMouseMove);
+    canvas.addEventListener('mouseup', onMouseUp);
+    canvas.addEventListener('mouseleave', () => {
+      drag = null;
+      render();
+    });
+
+    document.getElementById('undoBtn').addEventListener('click', () => {
+      vscode.postMessage({ type: 'undo' });
+    });
+    document.getElementById('redoBtn').addEventListener('click', () => {
+      vscode.postMessage({ type: 'redo' });
+    });
+
+    document.addEventListener('keydown', e => {
+      if (e.target.tagName === 'INPUT' || e.target.tagName === 'SELECT') {
+        return;
+      }
+      if ((e.ctrlKey || e.metaKey) && e.key === 'z') {
+        e.preventDefault();
+        vscode.postMessage({ type: e.shiftKey ? 'redo' : 'undo' });
+      } else if ((e.ctrlKey || e.metaKey) && e.key === 'y') {
+        e.preventDefault();
+        vscode.postMessage({ type: 'redo' });
+      } else if ((e.key === 'Delete' || e.key === 'Backspace') && selectedId !== null) {
+        e.preventDefault();
+        vscode.postMessage({ type: 'deleteBlock', id: selectedId });
+        selectedId = null;
+      }
+    });
+  }
+
+  function tileAt(e) {
+    const rect = canvas.getBoundingClientRect();
+    return {
+      row: Math.floor((e.clientY - rect.top) / TILE_SIZE),
+      col: Math.floor((e.clientX - rect.left) / TILE_SIZE),
+      x: e.clientX - rect.left,
+      y: e.clientY - rect.top,
+    };
+  }
+
+  function blockAt(row, col) {
+    // Later blocks are drawn on top, so pick them first
+    return graph.blocks.filter(b => b.row === row && b.col === col).pop();
+  }
+
+  function center(block) {
+    return {
+      x: block.col * TILE_SIZE + TILE_SIZE / 2,
+      y: block.row * TILE_SIZE + TILE_SIZE / 2,
+    };
+  }
+
+  function wireAt(x, y) {
+    const blocks = new Map(graph.blocks.map(b => [b.id, b]));
+    return graph.wires.find(wire => {
+      const from = blocks.get(wire.from);
+      const to = blocks.get(wire.to);
+      if (!from || !to) {
+        return false;
+      }
+      return distanceToSegment({ x, y }, center(from), center(to)) < 4;
+    });
+  }
+
+  function distanceToSegment(p, a, b) {
+    const dx = b.x - a.x;
+    const dy = b.y - a.y;
+    const length = dx * dx + dy * dy;
+    const t = length ? Math.max(0, Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / length)) : 0;
+    return Math.hypot(p.x - (a.x + t * dx), p.y - (a.y + t * dy));
+  }
+
+  function onMouseDown(e) {
+    const tile = tileAt(e);
+    const block = blockAt(tile.row, tile.col);
+
+    if (block) {
+      selectBlock(block.id);
+      drag = { mode: e.shiftKey ? 'wire' : 'move', block, tile };
+      return;
+    }
+
+    const wire = wireAt(tile.x, tile.y);
+    if (wire) {
+      vscode.postMessage({ type: 'disconnect', from: wire.from, to: wire.to });
+      return;
+    }
+
+    if (tile.row < info.rowcount && tile.col < info.colcount) {
+      vscode.postMessage({
+        type: 'addBlock',
+        name: document.getElementById('blockType').value,
+        row: tile.row,
+        col: tile.col,
+      });
+    }
+  }
+
+  function onMouseMove(e) {
+    if (drag) {
+      drag.tile = tileAt(e);
+      render();
+    }
+  }
+
+  function onMouseUp(e) {
+    if (!drag) {
+      return;
+    }
+    const tile = tileAt(e);
+    const { mode, block } = drag;
+    drag = null;
+
+    if (mode === 'move' && (tile.row !== block.row || tile.col !== block.col)) {
+      if (tile.row >= 0 && tile.col >= 0 && tile.row < info.rowcount && tile.col < info.colcount) {
+        vscode.postMessage({ type: 'moveBlock', id: block.id, row: tile.row, col: tile.col });
+      }
+    } else if (mode === 'wire') {
+      const target = blockAt(tile.row, tile.col);
+      if (target && target.id !== block.id) {
+        vscode.postMessage({
+          type: 'connect',
+          from: block.id,
+          to: target.id,
+          wireType: document.getElementById('wireType').value,
+        });
+      }
+    }
+    render();
+  }
+
+  function selectBlock(id) {
+    if (selectedId !== id) {
+      parameterErrors = [];
+    }
+    selectedId = id;
+    renderInspector();
+    render();
+  }
+
+  function render() {
+    canvas.width = info.colcount * TILE_SIZE;
+    canvas.height = info.rowcount * TILE_SIZE;
+
+    // Dimmed tiles so the blocks stand out
+    ctx.globalAlpha = 0.35;
+    for (let row = 0; row < tiles.length; row++) {
+      for (let col = 0; col < tiles[row].length; col++) {
+        ctx.fillStyle = colorMap[tiles[row][col]] || '#808080';
+        ctx.fillRect(col * TILE_SIZE, row * TILE_SIZE, TILE_SIZE, TILE_SIZE);
+      }
+    }
+    ctx.globalAlpha = 1;
+
+    const blocks = new Map(graph.blocks.map(b => [b.id, b]));
+    for (const wire of graph.wires) {
+      const from = blocks.get(wire.from);
+      const to = blocks.get(wire.to);
+      if (from && to) {
+        drawWire(center(from), center(to), wire.type);
+      }
+    }
+
+    if (drag && drag.mode === 'wire') {
+      drawWire(
+        center(drag.block),
+        { x: drag.tile.x, y: drag.tile.y },
+        document.getElementById('wireType').value
+      );
+    }
+
+    for (const block of graph.blocks) {
+      const position =
+        drag && drag.mode === 'move' && drag.block.id === block.id
+          ? {
+              x: drag.tile.col * TILE_SIZE + TILE_SIZE / 2,
+              y: drag.tile.row * TILE_SIZE + TILE_SIZE / 2,
+            }
+          : center(block);
+      drawBlock(block, position);
+    }
+  }
+
+  function drawWire(from, to, type) {
+    ctx.strokeStyle = WIRE_COLORS[type] || WIRE_COLORS.normal;
+    ctx.lineWidth = 2;
+    ctx.setLineDash(type === 'backup' ? [6, 4] : type === 'random' ? [2, 3] : []);
+    ctx.beginPath();
+    ctx.moveTo(from.x, from.y);
+    ctx.lineTo(to.x, to.y);
+    ctx.stroke();
+    ctx.setLineDash([]);
+
+    // Arrow head at the target's edge
+    const angle = Math.atan2(to.y - from.y, to.x - from.x);
+    const tipX = to.x - Math.cos(angle) * NODE_RADIUS;
+    const tipY = to.y - Math.sin(angle) * NODE_RADIUS;
+    ctx.fillStyle = ctx.strokeStyle;
+    ctx.beginPath();
+    ctx.moveTo(tipX, tipY);
+    ctx.lineTo(tipX - Math.cos(angle - 0.4) * 7, tipY - Math.sin(angle - 0.4) * 7);
+    ctx.lineTo(tipX - Math.cos(angle + 0.4) * 7, tipY - Math.sin(angle + 0.4) * 7);
+    ctx.closePath();
+    ctx.fill();
+  }
+
+  function drawBlock(block, position) {
+    ctx.fillStyle = block.type === 'trigger' ? '#4caf50' : '#2196f3';
+    ctx.strokeStyle = block.id === selectedId ? '#ffffff' : '#000000';
+    ctx.lineWidth = block.id === selectedId ? 3 : 1;
+    ctx.beginPath();
+    if (block.type === 'trigger') {
+      ctx.arc(position.x, position.y, NODE_RADIUS, 0, Math.PI * 2);
+    } else {
+      ctx.rect(
+        position.x - NODE_RADIUS,
+        position.y - NODE_RADIUS,
+        NODE_RADIUS * 2,
+        NODE_RADIUS * 2
+      );
+    }
+    ctx.fill();
+    ctx.stroke();
+
+    ctx.fillStyle = '#ffffff';
+    ctx.font = 'bold 10px sans-serif';
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.fillText(String(block.id), position.x, position.y);
+  }
+
+  function renderInspector() {
+    const inspector = document.getElementById('inspector');
+    const block = graph.blocks.find(b => b.id === selectedId);
+    if (!block) {
+      inspector.innerHTML =
+        '<h3>Inspector</h3><p class="empty">Select a block to edit its parameters</p>';
+      return;
+    }
+
+    const definition = definitions.triggers[block.name] || definitions.events[block.name];
+    const values = { row: block.row, col: block.col, ...block.parameters };
+    const wired = graph.wires.filter(w => w.from === block.id || w.to === block.id);
+
+    inspector.innerHTML = '';
+    const title = document.createElement('h3');
+    title.textContent = `${block.id}: ${block.name}`;
+    const description = document.createElement('p');
+    description.className = 'description';
+    description.textContent = definition ? definition.description : '';
+    inspector.append(title, description);
+
+    const form = document.createElement('form');
+    for (const param of definition ? definition.params : []) {
+      const label = document.createElement('label');
+      label.textContent = param;
+      const input = document.createElement('input');
+      input.name = param;
+      input.value = values[param] === undefined ? '' : String(values[param]);
+      const error = parameterErrors.find(e => e.param === param);
+      if (error) {
+        input.classList.add('invalid');
+        input.title = error.message;
+      }
+      label.appendChild(input);
+      form.appendChild(label);
+      if (error) {
+        const message = document.createElement('div');
+        message.className = 'error';
+        message.textContent = error.message;
+        form.appendChild(message);
+      }
+    }
+
+    const apply = document.createElement('button');
+    apply.type = 'submit';
+    apply.textContent = 'Apply';
+    const remove = document.createElement('button');
+    remove.type = 'button';
+    remove.textContent = 'Delete Block';
+    remove.addEventListener('click', () => {
+      vscode.postMessage({ type: 'deleteBlock', id: block.id });
+      selectedId = null;
+    });
+    form.append(apply, remove);
+    form.addEventListener('submit', e => {
+      e.preventDefault();
+      const formValues = {};
+      for (const input of form.querySelectorAll('input')) {
+        formValues[input.name] = input.value;
+      }
+      vscode.postMessage({ type: 'updateBlock', id: block.id, values: formValues });
+    });
+    inspector.appendChild(form);
+
+    if (wired.length > 0) {
+      const heading = document.createElement('h4');
+      heading.textContent = 'Wires';
+      const list = document.createElement('ul');
+      for (const wire of wired) {
+        const item = document.createElement('li');
+        item.textContent = `${wire.from} → ${wire.to} (${wire.type}) `;
+        const unwire = document.createElement('button');
+        unwire.textContent = '✕';
+        unwire.title = 'Remove wire';
+        unwire.addEventListener('click', () => {
+          vscode.postMessage({ type: 'disconnect', from: wire.from, to: wire.to });
+        });
+        item.appendChild(unwire);
+        list.appendChild(item);
+      }
+      inspector.append(heading, list);
+    }
+  }
+
+  function renderBlockTypes() {
+    const select = document.getElementById('blockType');
+    const current = select.value;
+    select.innerHTML = '';
+    for (const [label, group] of [
+      ['Triggers', definitions.triggers],
+      ['Events', definitions.events],
+    ]) {
+      const optgroup = document.createElement('optgroup');
+      optgroup.label = label;
+      for (const [name, definition] of Object.entries(group)) {
+        const option = document.createElement('option');
+        option.value = name;
+        option.textContent = name;
+        option.title = definition.description;
+        optgroup.appendChild(option);
+      }
+      select.appendChild(optgroup);
+    }
+    if (current) {
+      select.value = current;
+    }
+  }
+
+  window.addEventListener('message', event => {
+    const message = event.data;
+
+    switch (message.type) {
+      case 'update':
+        info = message.info;
+        tiles = message.tiles;
+        colorMap = message.colorMap;
+        graph = message.graph;
+        if (!document.getElementById('blockType').options.length) {
+          definitions = message.definitions;
+          renderBlockTypes();
+        }
+        // The selected block may have been deleted or undone
+        if (!graph.blocks.some(b => b.id === selectedId)) {
+          selectedId = null;
+        }
+        render();
+        renderInspector();
+        break;
+
+      case 'parameterErrors':
+        if (message.id === selectedId) {
+          parameterErrors = message.errors;
+          renderInspector();
+        }
+        break;
+    }
+  });
+})();
@@ -95,6 +95,11 @@
       updateInfo();
     });
 
+    // Unit selector
+    document.getElementById('profileSelect').addEventListener('change', (e) => {
+      vscode.postMessage({ type: 'changeProfile', profile: e.target.value });
+    });
+
     // Color scheme selector
     document.getElementById('colorSchemeSelect').addEventListener('change', (e) => {
       currentColorScheme = e.target.value;
@@ -129,7 +134,7 @@
 
     // Action buttons
     document.getElementById('exportBtn').addEventListener('click', () => {
-      exportHeatMap();
+      vscode.postMessage({ type: 'exportImage' });
     });
 
     document.getElementById('statsBtn').addEventListener('click', () => {
@@ -197,10 +202,6 @@
         render();
         break;
       
-      case 'exportToFile':
-        // Canvas will be exported by the extension
-        break;
-      
       case 'error':
         updateStatus(`Error: ${message.message}`, 'error');
         break;
@@ -461,44 +462,6 @@
     });
   }
 
-  // Export heat map
-  function exportHeatMap() {
-    if (!currentHeatMapData) {
-      updateStatus('No heat map to export', 'error');
-      return;
-    }
-
-    // Create a temporary canvas with both map and legend
-    const exportCanvas = document.createElement('canvas');
-    const exportCtx = exportCanvas.getContext('2d');
-    
-    exportCanvas.width = canvas.width + (showLegend ? legendCanvas.width + 20 : 0);
-    exportCanvas.height = Math.max(canvas.height, legendCanvas.height);
-
-    // White background
-    exportCtx.fillStyle = '#FFFFFF';
-    exportCtx.fillRect(0, 0, exportCanvas.width, exportCanvas.height);
-
-    // Draw heat map
-    exportCtx.drawImage(canvas, 0, 0);
-
-    // Draw legend if shown
-    if (showLegend) {
-      exportCtx.drawImage(legendCanvas, canvas.width + 20, 0);
-    }
-
-    // Convert to blob and download
-    exportCanvas.toBlob(blob => {
-      const url = URL.createObjectURL(blob);
-      const a = document.createElement('a');
-      a.href = url;
-      a.download = `heatmap-${currentMode}-${Date.now()}.png`;
-      a.click();
-      URL.revokeObjectURL(url);
-      updateStatus('Heat map exported successfully', 'success');
-    }, 'image/png');
-  }
-
   // Update status
   function updateStatus(message, type = 'info') {
     const status = document.getElementById('status');
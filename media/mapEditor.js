@@ -29,6 +29,25 @@
   // Grid state
   let showGrid = true;
   
+  // Hazard state
+  let showHazards = true;
+  let hazardTiles = [];
+  
+  // Entity layer state
+  let showEntities = true;
+  let selectedEntity = null;
+  let entityDragStart = null;
+  
+  // Resource state
+  let showResources = true;
+  let resourceTiles = [];
+  
+  // Height sculpting state
+  let showHeights = false;
+  let heightCells = [];
+  let heightStrokeStart = null;
+  let heightSeed = 1;
+  
   // Pattern state
   let selectedPattern = null;
   
@@ -414,10 +433,351 @@
       }
     }
     
+    if (showHazards) {
+      drawHazards();
+    }
+    
+    if (showHeights) {
+      drawHeightOverlay();
+    }
+    
+    if (showResources) {
+      drawResources();
+    }
+    
+    if (showEntities) {
+      drawEntities();
+    }
+    
     // Update minimap
     drawMinimap();
   }
   
+  // Tint tiles with a landslide or lava spread timing and label the interval
+  function drawHazards() {
+    const layers = [
+      { groups: hazards.landslides, fill: 'rgba(255, 150, 0, 0.3)', stroke: '#ff9600' },
+      { groups: hazards.lavaSpread, fill: 'rgba(255, 40, 0, 0.35)', stroke: '#ff2800' }
+    ];
+    
+    ctx.save();
+    ctx.lineWidth = 2;
+    ctx.font = `${Math.floor(TILE_SIZE / 3)}px monospace`;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    
+    for (const layer of layers) {
+      for (const group of layer.groups) {
+        for (const tile of group.tiles) {
+          const x = tile.col * TILE_SIZE;
+          const y = tile.row * TILE_SIZE;
+          ctx.fillStyle = layer.fill;
+          ctx.fillRect(x, y, TILE_SIZE, TILE_SIZE);
+          ctx.strokeStyle = layer.stroke;
+          ctx.strokeRect(x + 1, y + 1, TILE_SIZE - 2, TILE_SIZE - 2);
+          ctx.fillStyle = '#ffffff';
+          ctx.fillText(String(group.interval), x + TILE_SIZE / 2, y + TILE_SIZE / 2);
+        }
+      }
+    }
+    
+    ctx.restore();
+  }
+  
+  // Shade each tile from blue (lowest) to red (highest) by the height at its corner
+  function drawHeightOverlay() {
+    const values = heights.flat();
+    if (values.length === 0) {
+      return;
+    }
+    const min = Math.min(...values);
+    const range = Math.max(...values) - min || 1;
+    
+    ctx.save();
+    for (let r = 0; r < Math.min(rows, heights.length); r++) {
+      for (let c = 0; c < Math.min(cols, heights[r].length); c++) {
+        const hue = 240 - ((heights[r][c] - min) / range) * 240;
+        ctx.fillStyle = `hsla(${hue}, 90%, 50%, 0.45)`;
+        ctx.fillRect(c * TILE_SIZE, r * TILE_SIZE, TILE_SIZE, TILE_SIZE);
+      }
+    }
+    ctx.restore();
+  }
+  
+  // Tint tiles by how many loose crystals (green) and ore (brown) they hold
+  function drawResources() {
+    const layers = [
+      { grid: resources.crystals, color: '80, 255, 80', offset: -1 },
+      { grid: resources.ore, color: '200, 140, 60', offset: 1 }
+    ];
+    const max = Math.max(1, ...layers.flatMap(layer => (layer.grid || []).flat()));
+    
+    ctx.save();
+    ctx.font = `bold ${Math.floor(TILE_SIZE / 3)}px monospace`;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    
+    for (const layer of layers) {
+      if (!layer.grid) {
+        continue;
+      }
+      for (let r = 0; r < Math.min(rows, layer.grid.length); r++) {
+        for (let c = 0; c < Math.min(cols, layer.grid[r].length); c++) {
+          const count = layer.grid[r][c];
+          if (count <= 0) {
+            continue;
+          }
+          const x = c * TILE_SIZE;
+          const y = r * TILE_SIZE;
+          ctx.fillStyle = `rgba(${layer.color}, ${0.2 + (count / max) * 0.5})`;
+          ctx.fillRect(x, y, TILE_SIZE, TILE_SIZE);
+          ctx.fillStyle = `rgb(${layer.color})`;
+          ctx.fillText(
+            String(count),
+            x + TILE_SIZE / 2 + (layer.offset * TILE_SIZE) / 4,
+            y + TILE_SIZE / 2
+          );
+        }
+      }
+    }
+    
+    ctx.restore();
+  }
+  
+  // Draw buildings, vehicles, creatures and miners with an arrow for their facing
+  function drawEntities() {
+    const colors = {
+      buildings: '#f0c040',
+      vehicles: '#40c0f0',
+      creatures: '#f04040',
+      miners: '#60f060'
+    };
+    const radius = TILE_SIZE / 3;
+    
+    ctx.save();
+    ctx.font = `bold ${Math.floor(TILE_SIZE / 3)}px sans-serif`;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    
+    for (const entity of entities) {
+      const x = entity.x * TILE_SIZE;
+      const y = entity.y * TILE_SIZE;
+      const angle = (entity.yaw * Math.PI) / 180;
+      const selected =
+        selectedEntity &&
+        selectedEntity.section === entity.section &&
+        selectedEntity.index === entity.index;
+      
+      ctx.fillStyle = colors[entity.section];
+      ctx.strokeStyle = selected ? '#ffffff' : '#000000';
+      ctx.lineWidth = selected ? 2 : 1;
+      ctx.beginPath();
+      if (entity.section === 'buildings') {
+        ctx.rect(x - radius, y - radius, radius * 2, radius * 2);
+      } else {
+        ctx.arc(x, y, radius, 0, Math.PI * 2);
+      }
+      ctx.fill();
+      ctx.stroke();
+      
+      // Yaw 0 faces +X (east); the map's Y axis points down the rows
+      ctx.beginPath();
+      ctx.moveTo(x, y);
+      ctx.lineTo(x + Math.cos(angle) * radius * 1.6, y + Math.sin(angle) * radius * 1.6);
+      ctx.stroke();
+      
+      ctx.fillStyle = '#000000';
+      ctx.fillText(entity.section[0].toUpperCase(), x, y);
+    }
+    
+    ctx.restore();
+  }
+  
+  function getEntityAt(row, col) {
+    return entities
+      .filter(entity => Math.floor(entity.y) === row && Math.floor(entity.x) === col)
+      .pop();
+  }
+  
+  function selectEntity(entity) {
+    selectedEntity = entity || null;
+    const inspector = document.getElementById('entityInspector');
+    inspector.style.display = selectedEntity ? 'block' : 'none';
+    if (selectedEntity) {
+      document.getElementById('entityInspectorTitle').textContent =
+        `${selectedEntity.type} at ${Math.floor(selectedEntity.y)},${Math.floor(selectedEntity.x)}`;
+      document.getElementById('entityYaw').value = selectedEntity.yaw;
+      document.getElementById('entityProperties').value = Object.entries(selectedEntity.properties)
+        .map(([key, value]) => `${key}=${value}`)
+        .join('\n');
+      document.getElementById('entityFlags').value = selectedEntity.flags.join(',');
+    }
+    drawMap();
+  }
+  
+  function editEntity(action, details) {
+    vscode.postMessage({
+      type: 'editEntity',
+      action,
+      section: selectedEntity ? selectedEntity.section : document.getElementById('entitySection').value,
+      index: selectedEntity ? selectedEntity.index : undefined,
+      ...details
+    });
+  }
+  
+  function updateEntityTypes() {
+    const section = document.getElementById('entitySection').value;
+    const select = document.getElementById('entityType');
+    select.innerHTML = entityPalettes[section]
+      .map(type => `<option value="${type}">${type.replace(/^(Building|Vehicle|Creature)|_C$/g, '')}</option>`)
+      .join('');
+  }
+  
+  // Queue a tile for the hazard tool
+  function addHazardTile(row, col) {
+    if (row < 0 || row >= rows || col < 0 || col >= cols) {
+      return;
+    }
+    if (!hazardTiles.some(tile => tile.row === row && tile.col === col)) {
+      hazardTiles.push({ row, col });
+    }
+  }
+  
+  // Queue the brush footprint around a tile, mirrored, for the resource tool
+  function addResourceTiles(row, col) {
+    const halfSize = Math.floor(brushSize / 2);
+    for (const center of getMirroredPositions(row, col)) {
+      for (let dr = -halfSize; dr <= halfSize; dr++) {
+        for (let dc = -halfSize; dc <= halfSize; dc++) {
+          const r = center.row + dr;
+          const c = center.col + dc;
+          if (r < 0 || r >= rows || c < 0 || c >= cols) {
+            continue;
+          }
+          if (brushSize === 1 || (dr * dr + dc * dc <= halfSize * halfSize)) {
+            if (!resourceTiles.some(tile => tile.row === r && tile.col === c)) {
+              resourceTiles.push({ row: r, col: c });
+            }
+          }
+        }
+      }
+    }
+  }
+  
+  // Send the queued tiles with the chosen resource count
+  function applyResourceTiles() {
+    const resourceType = document.getElementById('resourceType').value;
+    const count = Number(document.getElementById('resourceCount').value);
+    
+    if (!Number.isInteger(count) || count < 0) {
+      showStatus('Resource count must be a whole number of 0 or more', 'error');
+      return;
+    }
+    
+    vscode.postMessage({
+      type: 'paintResources',
+      resourceType,
+      tiles: resourceTiles,
+      count
+    });
+    showStatus(
+      count === 0
+        ? `Erased ${resourceType} on ${resourceTiles.length} tiles`
+        : `Set ${resourceType} to ${count} on ${resourceTiles.length} tiles`
+    );
+  }
+  
+  // Queue the brush footprint around a cell for the height tool. Mirroring
+  // is done by the extension so mirrored cells match exactly.
+  function addHeightCells(row, col) {
+    const halfSize = Math.floor(brushSize / 2);
+    for (let dr = -halfSize; dr <= halfSize; dr++) {
+      for (let dc = -halfSize; dc <= halfSize; dc++) {
+        const r = row + dr;
+        const c = col + dc;
+        if (r < 0 || r >= heights.length || c < 0 || c >= heights[r].length) {
+          continue;
+        }
+        if (brushSize === 1 || (dr * dr + dc * dc <= halfSize * halfSize)) {
+          if (!heightCells.some(cell => cell.row === r && cell.col === c)) {
+            heightCells.push({ row: r, col: c });
+          }
+        }
+      }
+    }
+  }
+  
+  // Queue the brush footprint along the line a ramp is dragged over
+  function addRampCells(start, end) {
+    const steps = Math.max(Math.abs(end.row - start.row), Math.abs(end.col - start.col), 1);
+    for (let i = 0; i <= steps; i++) {
+      addHeightCells(
+        Math.round(start.row + ((end.row - start.row) * i) / steps),
+        Math.round(start.col + ((end.col - start.col) * i) / steps)
+      );
+    }
+  }
+  
+  // Send the queued cells with the chosen height brush
+  function applyHeightCells(end) {
+    const brush = document.getElementById('heightBrush').value;
+    const strength = parseFloat(document.getElementById('heightStrength').value);
+    const value = parseFloat(document.getElementById('heightValue').value);
+    
+    if ((brush === 'raise' || brush === 'lower' || brush === 'noise') && !(strength > 0)) {
+      showStatus('Brush strength must be above 0', 'error');
+      return;
+    }
+    if (brush === 'flatten' && !(value >= 0)) {
+      showStatus('Flatten height must be 0 or more', 'error');
+      return;
+    }
+    if (brush === 'ramp') {
+      heightCells = [];
+      addRampCells(heightStrokeStart, end);
+    }
+    
+    vscode.postMessage({
+      type: 'sculptHeight',
+      brush,
+      cells: heightCells,
+      options: {
+        strength,
+        value: brush === 'flatten' ? value : undefined,
+        ramp: brush === 'ramp' ? { start: heightStrokeStart, end } : undefined,
+        seed: heightSeed,
+        mirror: mirrorMode
+      },
+      description: `Sculpt height (${brush}) on ${heightCells.length} cells`
+    });
+    showStatus(`Sculpted ${heightCells.length} height cells`);
+  }
+  
+  // Send the queued tiles with the chosen hazard timing
+  function applyHazardTiles() {
+    const hazardType = document.getElementById('hazardType').value;
+    const interval = parseFloat(document.getElementById('hazardInterval').value);
+    const delay = parseFloat(document.getElementById('hazardDelay').value);
+    
+    if (hazardType !== 'erase' && !(interval > 0)) {
+      showStatus('Hazard interval must be above 0', 'error');
+      return;
+    }
+    
+    vscode.postMessage({
+      type: 'paintHazards',
+      layers: hazardType === 'erase' ? ['landslide', 'lava'] : [hazardType],
+      tiles: hazardTiles,
+      interval: hazardType === 'erase' ? undefined : interval,
+      delay: hazardType === 'lava' ? delay || 0 : undefined
+    });
+    showStatus(
+      hazardType === 'erase'
+        ? `Erased hazards on ${hazardTiles.length} tiles`
+        : `Set ${hazardType} timing on ${hazardTiles.length} tiles`
+    );
+  }
+  
   // Draw a single tile
   function drawTile(x, y, tileId) {
     const color = tileColors[tileId] || getDefaultTileColor(tileId);
@@ -740,6 +1100,49 @@
           }
         }
       }
+    } else if (currentTool === 'entity') {
+      overlayCtx.strokeStyle = entityDragStart ? '#ffffff' : '#40c0f0';
+      overlayCtx.lineWidth = 2;
+      overlayCtx.strokeRect(col * TILE_SIZE, row * TILE_SIZE, TILE_SIZE, TILE_SIZE);
+    } else if (currentTool === 'height') {
+      overlayCtx.strokeStyle = '#ffffff';
+      overlayCtx.lineWidth = 1;
+      const halfSize = Math.floor(brushSize / 2);
+      if (heightStrokeStart && document.getElementById('heightBrush').value === 'ramp') {
+        overlayCtx.beginPath();
+        overlayCtx.moveTo((heightStrokeStart.col + 0.5) * TILE_SIZE, (heightStrokeStart.row + 0.5) * TILE_SIZE);
+        overlayCtx.lineTo((col + 0.5) * TILE_SIZE, (row + 0.5) * TILE_SIZE);
+        overlayCtx.stroke();
+      }
+      for (const center of getMirroredPositions(row, col)) {
+        overlayCtx.strokeRect(
+          (center.col - halfSize) * TILE_SIZE,
+          (center.row - halfSize) * TILE_SIZE,
+          (halfSize * 2 + 1) * TILE_SIZE,
+          (halfSize * 2 + 1) * TILE_SIZE
+        );
+      }
+    } else if (currentTool === 'resource') {
+      overlayCtx.fillStyle = 'rgba(80, 255, 80, 0.35)';
+      for (const tile of resourceTiles) {
+        overlayCtx.fillRect(tile.col * TILE_SIZE, tile.row * TILE_SIZE, TILE_SIZE, TILE_SIZE);
+      }
+      const halfSize = Math.floor(brushSize / 2);
+      overlayCtx.strokeStyle = '#50ff50';
+      overlayCtx.lineWidth = 1;
+      for (const center of getMirroredPositions(row, col)) {
+        overlayCtx.strokeRect(
+          (center.col - halfSize) * TILE_SIZE,
+          (center.row - halfSize) * TILE_SIZE,
+          (halfSize * 2 + 1) * TILE_SIZE,
+          (halfSize * 2 + 1) * TILE_SIZE
+        );
+      }
+    } else if (currentTool === 'hazard') {
+      overlayCtx.fillStyle = 'rgba(255, 150, 0, 0.4)';
+      for (const tile of [...hazardTiles, { row, col }]) {
+        overlayCtx.fillRect(tile.col * TILE_SIZE, tile.row * TILE_SIZE, TILE_SIZE, TILE_SIZE);
+      }
     } else if (currentTool === 'picker') {
       overlayCtx.strokeStyle = '#4ec9b0';
       overlayCtx.lineWidth = 2;
@@ -872,6 +1275,36 @@
       isDrawing = true;
       tilePaintHistory = [];
       paintTiles(pos.row, pos.col);
+    } else if (currentTool === 'hazard') {
+      isDrawing = true;
+      hazardTiles = [];
+      addHazardTile(pos.row, pos.col);
+    } else if (currentTool === 'resource') {
+      isDrawing = true;
+      resourceTiles = [];
+      addResourceTiles(pos.row, pos.col);
+    } else if (currentTool === 'height') {
+      isDrawing = true;
+      heightCells = [];
+      heightStrokeStart = pos;
+      heightSeed = Math.floor(Math.random() * 2147483647);
+      addHeightCells(pos.row, pos.col);
+    } else if (currentTool === 'entity') {
+      const entity = getEntityAt(pos.row, pos.col);
+      if (entity) {
+        // Drag the entity to move it
+        selectEntity(entity);
+        isDrawing = true;
+        entityDragStart = pos;
+      } else {
+        selectEntity(null);
+        editEntity('place', {
+          entityType: document.getElementById('entityType').value,
+          row: pos.row,
+          col: pos.col
+        });
+        showStatus(`Placed ${document.getElementById('entityType').value}`);
+      }
     } else if (currentTool === 'fill') {
       fillRegion(pos.row, pos.col);
     } else if (currentTool === 'picker') {
@@ -951,6 +1384,12 @@
           paintTiles(pos.row, pos.col);
           lastPos = pos;
         }
+      } else if (currentTool === 'hazard') {
+        addHazardTile(pos.row, pos.col);
+      } else if (currentTool === 'resource') {
+        addResourceTiles(pos.row, pos.col);
+      } else if (currentTool === 'height') {
+        addHeightCells(pos.row, pos.col);
       } else if (currentTool === 'select' && selectionStart) {
         selection = {
           startRow: selectionStart.row,
@@ -985,6 +1424,22 @@
       });
       showStatus(`${autoTileEnabled ? 'Auto-tiled' : 'Painted'} ${tilePaintHistory.length} tiles`);
       tilePaintHistory = [];
+    } else if (currentTool === 'hazard' && hazardTiles.length > 0) {
+      applyHazardTiles();
+      hazardTiles = [];
+    } else if (currentTool === 'resource' && resourceTiles.length > 0) {
+      applyResourceTiles();
+      resourceTiles = [];
+    } else if (currentTool === 'height' && heightStrokeStart) {
+      applyHeightCells(pos);
+      heightCells = [];
+      heightStrokeStart = null;
+    } else if (currentTool === 'entity' && entityDragStart) {
+      if (pos.row !== entityDragStart.row || pos.col !== entityDragStart.col) {
+        editEntity('move', { row: pos.row, col: pos.col });
+        showStatus(`Moved ${selectedEntity.type} to ${pos.row},${pos.col}`);
+      }
+      entityDragStart = null;
     } else if (currentTool === 'line' && startPos) {
       drawLine(startPos.row, startPos.col, pos.row, pos.col);
     } else if (currentTool === 'rectangle' && startPos) {
@@ -1064,6 +1519,15 @@
       btn.classList.toggle('active', btn.dataset.tool === tool);
     });
     
+    document.getElementById('hazardOptions').style.display = tool === 'hazard' ? 'flex' : 'none';
+    document.getElementById('entityOptions').style.display = tool === 'entity' ? 'flex' : 'none';
+    document.getElementById('heightOptions').style.display = tool === 'height' ? 'flex' : 'none';
+    document.getElementById('resourceOptions').style.display = tool === 'resource' ? 'flex' : 'none';
+    if (tool !== 'entity' && selectedEntity) {
+      selectEntity(null);
+    }
+    saveToolState();
+    
     if (tool !== 'select') {
       selection = null;
       updateCopyPasteButtons();
@@ -1313,6 +1777,136 @@
     showStatus(showGrid ? 'Grid enabled' : 'Grid disabled');
   });
   
+  // Hazard overlay toggle
+  document.getElementById('hazardToggleBtn').addEventListener('click', () => {
+    showHazards = !showHazards;
+    const btn = document.getElementById('hazardToggleBtn');
+    btn.classList.toggle('active', showHazards);
+    drawMap();
+    showStatus(showHazards ? 'Hazard overlay enabled' : 'Hazard overlay disabled');
+  });
+  
+  // Entity layer toggle
+  document.getElementById('entityToggleBtn').addEventListener('click', () => {
+    showEntities = !showEntities;
+    const btn = document.getElementById('entityToggleBtn');
+    btn.classList.toggle('active', showEntities);
+    drawMap();
+    showStatus(showEntities ? 'Entity layer enabled' : 'Entity layer disabled');
+  });
+  
+  // The editor is rebuilt after every edit, so keep the tool and height
+  // brush settings in the webview state between strokes
+  function saveToolState() {
+    vscode.setState({
+      tool: currentTool,
+      showHeights,
+      heightBrush: document.getElementById('heightBrush').value,
+      heightStrength: document.getElementById('heightStrength').value,
+      heightValue: document.getElementById('heightValue').value,
+      resourceType: document.getElementById('resourceType').value,
+      resourceCount: document.getElementById('resourceCount').value
+    });
+  }
+  
+  function restoreToolState() {
+    const state = vscode.getState();
+    if (!state) {
+      return;
+    }
+    showHeights = !!state.showHeights;
+    document.getElementById('heightToggleBtn').classList.toggle('active', showHeights);
+    document.getElementById('heightBrush').value = state.heightBrush || 'raise';
+    document.getElementById('heightBrush').dispatchEvent(new Event('change'));
+    document.getElementById('heightStrength').value = state.heightStrength || '10';
+    document.getElementById('heightValue').value = state.heightValue || '0';
+    document.getElementById('resourceType').value = state.resourceType || 'crystals';
+    document.getElementById('resourceCount').value = state.resourceCount || '1';
+    selectTool(state.tool || 'paint');
+  }
+  
+  ['heightStrength', 'heightValue', 'resourceType', 'resourceCount'].forEach(id => {
+    document.getElementById(id).addEventListener('change', saveToolState);
+  });
+  
+  // Resource overlay toggle
+  document.getElementById('resourceToggleBtn').addEventListener('click', () => {
+    showResources = !showResources;
+    const btn = document.getElementById('resourceToggleBtn');
+    btn.classList.toggle('active', showResources);
+    drawMap();
+    showStatus(showResources ? 'Resource overlay enabled' : 'Resource overlay disabled');
+  });
+  
+  // Elevation overlay toggle
+  document.getElementById('heightToggleBtn').addEventListener('click', () => {
+    showHeights = !showHeights;
+    const btn = document.getElementById('heightToggleBtn');
+    btn.classList.toggle('active', showHeights);
+    saveToolState();
+    drawMap();
+    showStatus(showHeights ? 'Elevation overlay enabled' : 'Elevation overlay disabled');
+  });
+  
+  // Only the flatten brush takes a target height
+  document.getElementById('heightBrush').addEventListener('change', (e) => {
+    const display = e.target.value === 'flatten' ? 'inline' : 'none';
+    document.getElementById('heightValueLabel').style.display = display;
+    document.getElementById('heightValue').style.display = display;
+    document.getElementById('heightStrength').disabled =
+      e.target.value === 'smooth' || e.target.value === 'flatten' || e.target.value === 'ramp';
+    saveToolState();
+  });
+  
+  // Entity palette follows the chosen section
+  document.getElementById('entitySection').addEventListener('change', () => {
+    selectEntity(null);
+    updateEntityTypes();
+  });
+  updateEntityTypes();
+  
+  document.getElementById('rotateEntityBtn').addEventListener('click', () => {
+    if (selectedEntity) {
+      editEntity('rotate', { yaw: selectedEntity.yaw + 90 });
+    }
+  });
+  
+  document.getElementById('deleteEntityBtn').addEventListener('click', () => {
+    if (selectedEntity) {
+      editEntity('delete', {});
+      showStatus(`Deleted ${selectedEntity.type}`);
+      selectEntity(null);
+    }
+  });
+  
+  document.getElementById('applyEntityBtn').addEventListener('click', () => {
+    if (!selectedEntity) {
+      return;
+    }
+    const yaw = parseFloat(document.getElementById('entityYaw').value);
+    const properties = {};
+    for (const line of document.getElementById('entityProperties').value.split('\n')) {
+      const equalIndex = line.indexOf('=');
+      if (equalIndex > 0) {
+        properties[line.slice(0, equalIndex).trim()] = line.slice(equalIndex + 1).trim();
+      }
+    }
+    const flags = document.getElementById('entityFlags').value.split(',');
+    
+    editEntity('update', { properties, flags });
+    if (!isNaN(yaw) && yaw !== selectedEntity.yaw) {
+      editEntity('rotate', { yaw });
+    }
+  });
+  
+  // Lava spread is the only hazard with a delay
+  document.getElementById('hazardType').addEventListener('change', (e) => {
+    const display = e.target.value === 'lava' ? 'inline' : 'none';
+    document.getElementById('hazardDelayLabel').style.display = display;
+    document.getElementById('hazardDelay').style.display = display;
+    document.getElementById('hazardInterval').disabled = e.target.value === 'erase';
+  });
+  
   // Auto-tile toggle
   document.getElementById('autoTileBtn').addEventListener('click', () => {
     if (!supportsAutoTiling(currentTileId)) {
@@ -1745,6 +2339,10 @@
   
   // Keyboard shortcuts
   document.addEventListener('keydown', (e) => {
+    // Typing in the entity inspector should not switch tools
+    if (e.target.tagName === 'TEXTAREA' || e.target.id === 'entityFlags') {
+      return;
+    }
     if (e.ctrlKey || e.metaKey) {
       switch(e.key.toLowerCase()) {
         case 'z':
@@ -1780,7 +2378,25 @@
           selectTool('line');
           break;
         case 'r':
-          selectTool('rectangle');
+          if (currentTool === 'entity' && selectedEntity) {
+            document.getElementById('rotateEntityBtn').click();
+          } else {
+            selectTool('rectangle');
+          }
+          break;
+        case 'u':
+          selectTool('height');
+          break;
+        case 'x':
+          selectTool('resource');
+          break;
+        case 'n':
+          selectTool('entity');
+          break;
+        case 'delete':
+          if (currentTool === 'entity' && selectedEntity) {
+            document.getElementById('deleteEntityBtn').click();
+          }
           break;
         case 'k':
           selectTool('picker');
@@ -1908,6 +2524,7 @@
   }
   
   // Initialize
+  restoreToolState();
   initCanvas();
   updatePatternsList();
   updateLayersList();
@@ -2049,6 +2666,13 @@
               ${validationResult.statistics.resourceCount.ore} ⛏️
             </span>
           </div>
+          <div class="validation-stat">
+            <span class="validation-stat-label">Loose Resources:</span>
+            <span class="validation-stat-value">
+              ${validationResult.statistics.resourceCount.looseCrystals} 💎
+              ${validationResult.statistics.resourceCount.looseOre} ⛏️
+            </span>
+          </div>
         </div>
         
         <div class="validation-issues">
@@ -10,6 +10,12 @@
   let hoveredTile = null;
   let showGrid = true;
   let showTileIds = true;
+  let showHazards = true;
+  let hazards = { landslides: [], lavaSpread: [] };
+  let showResources = true;
+  let resources = {};
+  let showBlocks = true;
+  let blockGraph = { blocks: [], wires: [] };
   let selectedTiles = [];
   let isSelecting = false;
   let selectionStart = null;
@@ -63,6 +69,21 @@
       renderMap();
     });
     
+    document.getElementById('toggleHazards').addEventListener('change', (e) => {
+      showHazards = e.target.checked;
+      renderMap();
+    });
+    
+    document.getElementById('toggleResources').addEventListener('change', (e) => {
+      showResources = e.target.checked;
+      renderMap();
+    });
+    
+    document.getElementById('toggleBlocks').addEventListener('change', (e) => {
+      showBlocks = e.target.checked;
+      renderMap();
+    });
+    
     // Canvas interactions
     canvas.addEventListener('mousemove', handleMouseMove);
     canvas.addEventListener('mousedown', handleMouseDown);
@@ -369,6 +390,18 @@
       }
     }
     
+    if (showHazards) {
+      drawHazards(tileSize);
+    }
+    
+    if (showResources) {
+      drawResources(tileSize);
+    }
+    
+    if (showBlocks) {
+      drawBlocks(tileSize);
+    }
+    
     // Draw selection
     if (selectedTiles.length > 0) {
       ctx.fillStyle = 'rgba(100, 150, 255, 0.3)';
@@ -408,6 +441,117 @@
     }
   }
 
+  function drawHazards(tileSize) {
+    // Landslide tiles are tinted orange, lava erosion tiles red
+    const drawGroups = (groups, fill, stroke) => {
+      ctx.fillStyle = fill;
+      ctx.strokeStyle = stroke;
+      ctx.lineWidth = 2;
+      groups.forEach(group => {
+        group.tiles.forEach(tile => {
+          const x = tile.col * tileSize;
+          const y = tile.row * tileSize;
+          ctx.fillRect(x, y, tileSize, tileSize);
+          ctx.strokeRect(x + 1, y + 1, tileSize - 2, tileSize - 2);
+          if (zoomLevel >= 1.5 && tileSize >= 15) {
+            ctx.fillStyle = '#ffffff';
+            ctx.font = `${Math.floor(tileSize / 4)}px monospace`;
+            ctx.textAlign = 'center';
+            ctx.textBaseline = 'top';
+            ctx.fillText(`${group.interval}s`, x + tileSize / 2, y + 2);
+            ctx.fillStyle = fill;
+          }
+        });
+      });
+    };
+    
+    drawGroups(hazards.landslides, 'rgba(255, 150, 0, 0.25)', 'rgba(255, 150, 0, 0.9)');
+    drawGroups(hazards.lavaSpread, 'rgba(255, 40, 0, 0.3)', 'rgba(255, 40, 0, 0.9)');
+  }
+
+  function drawResources(tileSize) {
+    // Loose crystals are marked with a green dot, ore with a brown one, sized by count
+    const drawGrid = (grid, color, offset) => {
+      if (!grid) {
+        return;
+      }
+      ctx.fillStyle = color;
+      grid.forEach((row, r) => {
+        row.forEach((count, c) => {
+          if (count <= 0) {
+            return;
+          }
+          const radius = Math.max(1.5, Math.min(tileSize / 4, (tileSize / 12) * (1 + Math.log2(count))));
+          ctx.beginPath();
+          ctx.arc(
+            c * tileSize + tileSize / 2 + offset * tileSize / 4,
+            r * tileSize + tileSize / 2,
+            radius,
+            0,
+            Math.PI * 2
+          );
+          ctx.fill();
+        });
+      });
+    };
+    
+    drawGrid(resources.crystals, 'rgba(80, 255, 80, 0.9)', -1);
+    drawGrid(resources.ore, 'rgba(200, 140, 60, 0.9)', 1);
+  }
+
+  function drawBlocks(tileSize) {
+    const blocksById = new Map(blockGraph.blocks.map(block => [block.id, block]));
+    const center = block => ({
+      x: block.col * tileSize + tileSize / 2,
+      y: block.row * tileSize + tileSize / 2
+    });
+    
+    // Wires first so the markers sit on top; backup wires are dashed, random dotted
+    ctx.save();
+    ctx.lineWidth = 2;
+    ctx.strokeStyle = 'rgba(120, 200, 255, 0.9)';
+    blockGraph.wires.forEach(wire => {
+      const from = blocksById.get(wire.from);
+      const to = blocksById.get(wire.to);
+      if (!from || !to) {
+        return;
+      }
+      ctx.setLineDash(wire.type === 'backup' ? [6, 4] : wire.type === 'random' ? [2, 3] : []);
+      const start = center(from);
+      const end = center(to);
+      ctx.beginPath();
+      ctx.moveTo(start.x, start.y);
+      ctx.lineTo(end.x, end.y);
+      ctx.stroke();
+    });
+    ctx.restore();
+    
+    // Triggers are drawn as green circles, events as blue squares
+    const radius = Math.max(3, tileSize / 3);
+    blockGraph.blocks.forEach(block => {
+      const { x, y } = center(block);
+      ctx.fillStyle = block.type === 'trigger' ? '#4ec94e' : '#4e8ec9';
+      ctx.strokeStyle = '#ffffff';
+      ctx.lineWidth = 1;
+      ctx.beginPath();
+      if (block.type === 'trigger') {
+        ctx.arc(x, y, radius, 0, Math.PI * 2);
+      } else {
+        ctx.rect(x - radius, y - radius, radius * 2, radius * 2);
+      }
+      ctx.fill();
+      ctx.stroke();
+      
+      if (tileSize >= 15) {
+        ctx.fillStyle = '#ffffff';
+        ctx.font = `${Math.floor(tileSize / 3)}px monospace`;
+        ctx.textAlign = 'center';
+        ctx.textBaseline = 'middle';
+        ctx.fillText(String(block.id), x, y);
+      }
+    });
+  }
+
   function getContrastColor(bgColor) {
     // Calculate relative luminance
     const luminance = (0.299 * bgColor.r + 0.587 * bgColor.g + 0.114 * bgColor.b) / 255;
@@ -422,6 +566,9 @@
       case 'updateTiles':
         tileData = message.tiles;
         colorMap = message.colorMap;
+        hazards = message.hazards || { landslides: [], lavaSpread: [] };
+        resources = message.resources || {};
+        blockGraph = message.blocks || { blocks: [], wires: [] };
         console.log('Received tile data:', {
           rows: tileData.length,
           cols: tileData[0]?.length,
@@ -435,6 +582,21 @@
         renderMap();
         break;
         
+      case 'selectTiles': {
+        selectedTiles = message.tiles;
+        // Center the first tile in view
+        const first = selectedTiles[0];
+        if (first) {
+          const tileSize = scale * zoomLevel;
+          const container = canvas.parentElement;
+          container.scrollLeft = (first.col + 0.5) * tileSize - container.clientWidth / 2;
+          container.scrollTop = (first.row + 0.5) * tileSize - container.clientHeight / 2;
+        }
+        renderMap();
+        updateHoverInfo(hoveredTile);
+        break;
+      }
+        
       case 'noTiles':
         ctx.clearRect(0, 0, canvas.width, canvas.height);
         ctx.fillStyle = '#666666';
@@ -155,6 +155,9 @@
     document.getElementById('viewIso').addEventListener('click', () => setView('iso'));
     document.getElementById('viewSide').addEventListener('click', () => setView('side'));
     document.getElementById('resetView').addEventListener('click', () => setView('reset'));
+    document.getElementById('exportMesh').addEventListener('click', () => {
+      vscode.postMessage({ type: 'exportMesh' });
+    });
     
     // Display toggles
     document.getElementById('toggleWireframe').addEventListener('change', (e) => {
@@ -13,6 +13,8 @@ export class AccessibleMapPreviewProvider implements vscode.WebviewViewProvider
   private _currentDocument?: vscode.TextDocument;
   private accessibilityManager: AccessibilityManager;
   private focusedTile: { row: number; col: number } | null = null;
+  // Tiles picked from the editor, selected again whenever the view reloads
+  private revealedTiles: { row: number; col: number }[] = [];
 
   constructor(
     private readonly _extensionUri: vscode.Uri,
@@ -46,6 +48,7 @@ export class AccessibleMapPreviewProvider implements vscode.WebviewViewProvider
           break;
         case 'ready':
           this.updatePreview();
+          this.sendRevealedTiles();
           break;
         case 'keyboardNavigation':
           this.handleKeyboardNavigation(data.key);
@@ -63,10 +66,28 @@ export class AccessibleMapPreviewProvider implements vscode.WebviewViewProvider
   }
 
   public updateDocument(document: vscode.TextDocument) {
+    if (this._currentDocument?.uri.toString() !== document.uri.toString()) {
+      this.revealedTiles = [];
+    }
     this._currentDocument = document;
     this.updatePreview();
   }
 
+  /**
+   * Show a document on the map with some of its tiles selected
+   */
+  public revealTiles(document: vscode.TextDocument, tiles: { row: number; col: number }[]) {
+    this.updateDocument(document);
+    this.revealedTiles = tiles;
+    this.sendRevealedTiles();
+  }
+
+  private sendRevealedTiles() {
+    if (this._view && this.revealedTiles.length > 0) {
+      this._view.webview.postMessage({ type: 'selectTiles', tiles: this.revealedTiles });
+    }
+  }
+
   private _getHtmlForWebview(webview: vscode.Webview): string {
     const scriptUri = webview.asWebviewUri(
       vscode.Uri.joinPath(this._extensionUri, 'media', 'mapPreview.js')
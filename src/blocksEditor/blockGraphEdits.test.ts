@@ -0,0 +1,132 @@
+import {
+  addBlock,
+  connectBlocks,
+  disconnectBlocks,
+  moveBlock,
+  removeBlock,
+  updateBlockParameters,
+  validateBlockParameters,
+} from './blockGraphEdits';
+import { VisualBlocksParser } from '../parser/visualBlocksParser';
+import { BlocksSection } from '../types/datFileTypes';
+
+describe('blockGraphEdits', () => {
+  let graph: BlocksSection;
+
+  beforeEach(() => {
+    graph = new VisualBlocksParser(
+      [
+        '1/TriggerEnter:2,3,0.0,true,false,',
+        '2/EventEmergeCreature:4,5,A,10.0,CreatureRockMonster_C,1.0',
+        '3/EventDrill:6,7',
+        '1-2',
+        '2~3',
+      ].join('\n')
+    ).parse();
+  });
+
+  describe('addBlock', () => {
+    it('should add a block with the next ID and default parameters', () => {
+      const result = addBlock(graph, 'EventPlace', 8, 9);
+
+      expect(result.block).toEqual({
+        id: 4,
+        type: 'event',
+        name: 'EventPlace',
+        row: 8,
+        col: 9,
+        parameters: { cooldown: 0, tileID: 1 },
+      });
+      expect(result.graph.blocks).toHaveLength(4);
+      expect(graph.blocks).toHaveLength(3);
+    });
+
+    it('should reject unknown block types', () => {
+      expect(() => addBlock(graph, 'EventExplode', 0, 0)).toThrow(
+        "Unknown block type 'EventExplode'"
+      );
+    });
+  });
+
+  describe('moveBlock and removeBlock', () => {
+    it('should move a block to another tile', () => {
+      expect(moveBlock(graph, 3, 1, 1).blocks[2]).toMatchObject({ id: 3, row: 1, col: 1 });
+    });
+
+    it('should remove a block and its wires', () => {
+      const result = removeBlock(graph, 2);
+
+      expect(result.blocks.map(b => b.id)).toEqual([1, 3]);
+      expect(result.wires).toEqual([]);
+    });
+  });
+
+  describe('connectBlocks', () => {
+    it('should add a wire or change the type of an existing one', () => {
+      const added = connectBlocks(graph, 1, 3, 'random');
+      const changed = connectBlocks(graph, 1, 2, 'random');
+
+      expect(added.wires.map(w => [w.from, w.to, w.type])).toEqual([
+        [1, 2, 'normal'],
+        [2, 3, 'backup'],
+        [1, 3, 'random'],
+      ]);
+      expect(changed.wires.map(w => [w.from, w.to, w.type])).toEqual([
+        [1, 2, 'random'],
+        [2, 3, 'backup'],
+      ]);
+    });
+
+    it('should reject wires the game cannot run', () => {
+      expect(() => connectBlocks(graph, 1, 1, 'normal')).toThrow('cannot be wired to itself');
+      expect(() => connectBlocks(graph, 1, 3, 'backup')).toThrow('Only emerge blocks');
+      expect(() => connectBlocks(graph, 1, 9, 'normal')).toThrow('Block 9 does not exist');
+    });
+
+    it('should remove a wire', () => {
+      expect(disconnectBlocks(graph, 1, 2).wires).toEqual([graph.wires[1]]);
+    });
+  });
+
+  describe('block parameters', () => {
+    it('should report values that do not match the block definition', () => {
+      const errors = validateBlockParameters(
+        'EventEmergeCreature',
+        {
+          row: '4',
+          col: '50',
+          direction: 'X',
+          cooldown: 'soon',
+          type: 'CreatureRockMonster_C',
+          radius: '',
+        },
+        { rowcount: 10, colcount: 10 }
+      );
+
+      expect(errors).toEqual([
+        { param: 'direction', message: 'direction must be one of N, S, E, W, A' },
+        { param: 'cooldown', message: 'cooldown must be a number of 0 or more' },
+        { param: 'radius', message: 'radius is required' },
+        { param: 'row', message: 'Tile 4,50 is outside the map' },
+      ]);
+    });
+
+    it('should apply valid values with their parameter types', () => {
+      const values = {
+        row: '1',
+        col: '2',
+        cooldown: '5',
+        miners: 'false',
+        vehicles: 'true',
+        creature: '',
+      };
+
+      expect(validateBlockParameters('TriggerEnter', values)).toEqual([]);
+      expect(updateBlockParameters(graph, 1, values).blocks[0]).toMatchObject({
+        row: 1,
+        col: 2,
+        parameters: { cooldown: 5, miners: false, vehicles: true, creature: '' },
+      });
+    });
+  });
+});
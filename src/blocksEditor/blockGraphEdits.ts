@@ -0,0 +1,219 @@
+import { BlocksSection, BlockWire, InfoSection, VisualBlock } from '../types/datFileTypes';
+import {
+  EVENT_BLOCKS,
+  getBlockParameterKind,
+  parseBlockParameter,
+  TRIGGER_BLOCKS,
+} from '../parser/visualBlocksParser';
+
+type BlockDefinition = { params: readonly string[]; description: string };
+
+const EMERGE_DIRECTIONS = ['N', 'S', 'E', 'W', 'A'];
+
+// Whole-number parameters the parser keeps as text
+const COUNT_PARAMS = ['row', 'col', 'maxWave', 'minWave', 'maxSpawn', 'minSpawn'];
+
+export interface BlockParameterError {
+  param: string;
+  message: string;
+}
+
+/**
+ * Definition of a trigger or event block type, if the game has one
+ */
+export function getBlockDefinition(name: string): BlockDefinition | undefined {
+  return (
+    (TRIGGER_BLOCKS as Record<string, BlockDefinition>)[name] ??
+    (EVENT_BLOCKS as Record<string, BlockDefinition>)[name]
+  );
+}
+
+/**
+ * Add a block of the given type with default parameters, using the next free ID
+ */
+export function addBlock(
+  graph: BlocksSection,
+  name: string,
+  row: number,
+  col: number
+): { graph: BlocksSection; block: VisualBlock } {
+  const definition = getBlockDefinition(name);
+  if (!definition) {
+    throw new Error(`Unknown block type '${name}'`);
+  }
+
+  const parameters: VisualBlock['parameters'] = {};
+  for (const param of definition.params.slice(2)) {
+    parameters[param] = defaultParameter(param);
+  }
+
+  const block: VisualBlock = {
+    id: Math.max(0, ...graph.blocks.map(b => b.id)) + 1,
+    type: name in TRIGGER_BLOCKS ? 'trigger' : 'event',
+    name,
+    row,
+    col,
+    parameters,
+  };
+  return { graph: { ...graph, blocks: [...graph.blocks, block] }, block };
+}
+
+/**
+ * Place a block on another tile
+ */
+export function moveBlock(
+  graph: BlocksSection,
+  id: number,
+  row: number,
+  col: number
+): BlocksSection {
+  findBlock(graph, id);
+  return {
+    ...graph,
+    blocks: graph.blocks.map(block => (block.id === id ? { ...block, row, col } : block)),
+  };
+}
+
+/**
+ * Remove a block together with every wire attached to it
+ */
+export function removeBlock(graph: BlocksSection, id: number): BlocksSection {
+  findBlock(graph, id);
+  return {
+    blocks: graph.blocks.filter(block => block.id !== id),
+    wires: graph.wires.filter(wire => wire.from !== id && wire.to !== id),
+  };
+}
+
+/**
+ * Wire one block to another. Two blocks share at most one wire, so an
+ * existing wire between them takes the new type.
+ */
+export function connectBlocks(
+  graph: BlocksSection,
+  from: number,
+  to: number,
+  type: BlockWire['type']
+): BlocksSection {
+  const fromBlock = findBlock(graph, from);
+  findBlock(graph, to);
+  if (from === to) {
+    throw new Error(`Block ${from} cannot be wired to itself`);
+  }
+  if (type === 'backup' && !fromBlock.name.includes('Emerge')) {
+    throw new Error('Only emerge blocks can start a backup wire');
+  }
+
+  const existing = graph.wires.some(wire => wire.from === from && wire.to === to);
+  return {
+    ...graph,
+    wires: existing
+      ? graph.wires.map(wire => (wire.from === from && wire.to === to ? { from, to, type } : wire))
+      : [...graph.wires, { from, to, type }],
+  };
+}
+
+/**
+ * Remove the wire from one block to another
+ */
+export function disconnectBlocks(graph: BlocksSection, from: number, to: number): BlocksSection {
+  return { ...graph, wires: graph.wires.filter(wire => wire.from !== from || wire.to !== to) };
+}
+
+/**
+ * Check parameter values typed into the inspector against the block's
+ * definition. Values are the text that would go into the blocks section.
+ */
+export function validateBlockParameters(
+  name: string,
+  values: Record<string, string>,
+  info?: Pick<InfoSection, 'rowcount' | 'colcount'>
+): BlockParameterError[] {
+  const definition = getBlockDefinition(name);
+  if (!definition) {
+    return [{ param: 'type', message: `Unknown block type '${name}'` }];
+  }
+
+  const errors: BlockParameterError[] = [];
+  for (const param of definition.params) {
+    const text = values[param]?.trim();
+    if (text === undefined || (text === '' && param !== 'creature')) {
+      errors.push({ param, message: `${param} is required` });
+      continue;
+    }
+    if (/[,\n{}]/.test(text)) {
+      errors.push({ param, message: `${param} cannot contain commas, braces or line breaks` });
+      continue;
+    }
+
+    const kind = COUNT_PARAMS.includes(param) ? 'integer' : getBlockParameterKind(param);
+    if (kind === 'boolean' && !['true', 'false'].includes(text.toLowerCase())) {
+      errors.push({ param, message: `${param} must be true or false` });
+    } else if (kind === 'number' && !(Number(text) >= 0)) {
+      errors.push({ param, message: `${param} must be a number of 0 or more` });
+    } else if (kind === 'integer' && !/^\d+$/.test(text)) {
+      errors.push({ param, message: `${param} must be a whole number of 0 or more` });
+    } else if (param === 'direction' && !EMERGE_DIRECTIONS.includes(text)) {
+      errors.push({ param, message: `direction must be one of ${EMERGE_DIRECTIONS.join(', ')}` });
+    }
+  }
+
+  if (info) {
+    const row = Number(values.row);
+    const col = Number(values.col);
+    if (row >= info.rowcount || col >= info.colcount) {
+      errors.push({ param: 'row', message: `Tile ${row},${col} is outside the map` });
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Replace a block's position and parameters with inspector values that
+ * passed validateBlockParameters
+ */
+export function updateBlockParameters(
+  graph: BlocksSection,
+  id: number,
+  values: Record<string, string>
+): BlocksSection {
+  const block = findBlock(graph, id);
+  const parameters: VisualBlock['parameters'] = {};
+  for (const param of getBlockDefinition(block.name)?.params.slice(2) ?? []) {
+    parameters[param] = parseBlockParameter(param, values[param].trim());
+  }
+
+  const updated = {
+    ...block,
+    row: parseInt(values.row),
+    col: parseInt(values.col),
+    parameters,
+  };
+  return { ...graph, blocks: graph.blocks.map(b => (b.id === id ? updated : b)) };
+}
+
+function findBlock(graph: BlocksSection, id: number): VisualBlock {
+  const block = graph.blocks.find(b => b.id === id);
+  if (!block) {
+    throw new Error(`Block ${id} does not exist`);
+  }
+  return block;
+}
+
+function defaultParameter(param: string): string | number | boolean {
+  switch (param) {
+    case 'direction':
+      return 'A';
+    case 'type':
+      return 'CreatureRockMonster_C';
+    case 'tileID':
+    case 'maxWave':
+    case 'minWave':
+    case 'maxSpawn':
+    case 'minSpawn':
+      return parseBlockParameter(param, '1');
+    default:
+      return parseBlockParameter(param, getBlockParameterKind(param) === 'string' ? '' : '0');
+  }
+}
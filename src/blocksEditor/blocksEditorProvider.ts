@@ -0,0 +1,275 @@
+import * as vscode from 'vscode';
+import { DatFileParser } from '../parser/datFileParser';
+import { DatFileWriter } from '../parser/datFileWriter';
+import { EVENT_BLOCKS, TRIGGER_BLOCKS } from '../parser/visualBlocksParser';
+import { getTileColor } from '../mapPreview/colorMap';
+import { EditHistory, MapEdit } from '../undoRedo/editHistory';
+import { BlocksSection, BlockWire, DatFile } from '../types/datFileTypes';
+import {
+  addBlock,
+  connectBlocks,
+  disconnectBlocks,
+  moveBlock,
+  removeBlock,
+  updateBlockParameters,
+  validateBlockParameters,
+} from './blockGraphEdits';
+
+/**
+ * Node-graph editor for the blocks section. Blocks sit on the tile they
+ * act on, wires are dragged between them and every change is written back
+ * to the document, so the text editor and this view stay in sync.
+ */
+export class BlocksEditorProvider implements vscode.CustomTextEditorProvider {
+  public static readonly viewType = 'manicMiners.blocksEditor';
+  private editHistory = new EditHistory(100);
+
+  public static register(context: vscode.ExtensionContext): vscode.Disposable {
+    const provider = new BlocksEditorProvider(context);
+    return vscode.window.registerCustomEditorProvider(BlocksEditorProvider.viewType, provider, {
+      webviewOptions: {
+        retainContextWhenHidden: true,
+      },
+      supportsMultipleEditorsPerDocument: false,
+    });
+  }
+
+  constructor(private readonly context: vscode.ExtensionContext) {}
+
+  async resolveCustomTextEditor(
+    document: vscode.TextDocument,
+    webviewPanel: vscode.WebviewPanel,
+    _token: vscode.CancellationToken
+  ): Promise<void> {
+    webviewPanel.webview.options = {
+      enableScripts: true,
+      localResourceRoots: [vscode.Uri.joinPath(this.context.extensionUri, 'media')],
+    };
+    webviewPanel.webview.html = this.getHtmlContent(webviewPanel.webview);
+
+    // Update when document changes
+    const changeDocumentSubscription = vscode.workspace.onDidChangeTextDocument(e => {
+      if (e.document.uri.toString() === document.uri.toString()) {
+        this.sendGraph(webviewPanel.webview, document);
+      }
+    });
+
+    webviewPanel.onDidDispose(() => {
+      changeDocumentSubscription.dispose();
+    });
+
+    webviewPanel.webview.onDidReceiveMessage(async message => {
+      switch (message.type) {
+        case 'ready':
+          this.sendGraph(webviewPanel.webview, document);
+          break;
+        case 'addBlock':
+          await this.editGraph(document, `Add ${message.name} block`, graph => {
+            return addBlock(graph, message.name, message.row, message.col).graph;
+          });
+          break;
+        case 'moveBlock':
+          await this.editGraph(document, `Move block ${message.id}`, graph =>
+            moveBlock(graph, message.id, message.row, message.col)
+          );
+          break;
+        case 'deleteBlock':
+          await this.editGraph(document, `Delete block ${message.id}`, graph =>
+            removeBlock(graph, message.id)
+          );
+          break;
+        case 'connect':
+          await this.editGraph(document, `Wire ${message.from} to ${message.to}`, graph =>
+            connectBlocks(graph, message.from, message.to, message.wireType as BlockWire['type'])
+          );
+          break;
+        case 'disconnect':
+          await this.editGraph(document, `Remove wire ${message.from} to ${message.to}`, graph =>
+            disconnectBlocks(graph, message.from, message.to)
+          );
+          break;
+        case 'updateBlock':
+          await this.handleUpdateBlock(webviewPanel.webview, document, message.id, message.values);
+          break;
+        case 'undo':
+          await this.handleUndo(document);
+          break;
+        case 'redo':
+          await this.handleRedo(document);
+          break;
+      }
+    });
+  }
+
+  private async handleUpdateBlock(
+    webview: vscode.Webview,
+    document: vscode.TextDocument,
+    id: number,
+    values: Record<string, string>
+  ): Promise<void> {
+    const datFile = new DatFileParser(document.getText()).parsePartial();
+    const block = datFile.blocks?.blocks.find(b => b.id === id);
+    if (!block) {
+      vscode.window.showErrorMessage(`Block ${id} does not exist`);
+      return;
+    }
+
+    // Invalid values stay in the inspector with their messages and are not written
+    const errors = validateBlockParameters(block.name, values, datFile.info);
+    webview.postMessage({ type: 'parameterErrors', id, errors });
+    if (errors.length === 0) {
+      await this.editGraph(document, `Edit block ${id}`, graph =>
+        updateBlockParameters(graph, id, values)
+      );
+    }
+  }
+
+  /**
+   * Apply a change to the block graph and write it back to the document
+   */
+  private async editGraph(
+    document: vscode.TextDocument,
+    description: string,
+    change: (graph: BlocksSection) => BlocksSection
+  ): Promise<void> {
+    try {
+      const oldText = document.getText();
+      const parser = new DatFileParser(oldText);
+      const datFile: Partial<DatFile> = parser.parsePartial();
+      datFile.blocks = change(datFile.blocks || { blocks: [], wires: [] });
+
+      const newText = new DatFileWriter({ source: parser }).write(datFile);
+      if (newText === oldText) {
+        return;
+      }
+
+      // The whole document is replaced, so undo and redo swap the full text
+      const lineCount = Math.max(document.lineCount, newText.split('\n').length);
+      const range = new vscode.Range(0, 0, lineCount, 0);
+      const edit = new vscode.WorkspaceEdit();
+      edit.replace(document.uri, range, newText);
+
+      const mapEdit: MapEdit = {
+        id: Date.now().toString(),
+        timestamp: new Date(),
+        description,
+        documentUri: document.uri,
+        changes: [{ range, oldText, newText }],
+      };
+
+      const success = await vscode.workspace.applyEdit(edit);
+      if (success) {
+        this.editHistory.addEdit(mapEdit);
+      } else {
+        vscode.window.showErrorMessage('Failed to apply changes to the document');
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      vscode.window.showErrorMessage(`Error editing blocks: ${errorMessage}`);
+    }
+  }
+
+  private async handleUndo(document: vscode.TextDocument): Promise<void> {
+    const edit = this.editHistory.undo();
+    if (!edit) {
+      return;
+    }
+
+    const workspaceEdit = new vscode.WorkspaceEdit();
+    for (const change of edit.changes) {
+      workspaceEdit.replace(document.uri, change.range, change.oldText);
+    }
+
+    if (!(await vscode.workspace.applyEdit(workspaceEdit))) {
+      vscode.window.showErrorMessage('Failed to undo changes');
+      // Re-add the edit to history since undo failed
+      this.editHistory.addEdit(edit);
+    }
+  }
+
+  private async handleRedo(document: vscode.TextDocument): Promise<void> {
+    const edit = this.editHistory.redo();
+    if (!edit) {
+      return;
+    }
+
+    const workspaceEdit = new vscode.WorkspaceEdit();
+    for (const change of edit.changes) {
+      workspaceEdit.replace(document.uri, change.range, change.newText);
+    }
+
+    if (!(await vscode.workspace.applyEdit(workspaceEdit))) {
+      vscode.window.showErrorMessage('Failed to redo changes');
+    }
+  }
+
+  private sendGraph(webview: vscode.Webview, document: vscode.TextDocument): void {
+    const datFile = new DatFileParser(document.getText()).parsePartial();
+    const tiles = datFile.tiles || [];
+
+    const colorMap: { [key: number]: string } = {};
+    for (const tileId of new Set(tiles.flat())) {
+      const color = getTileColor(tileId);
+      colorMap[tileId] = `rgb(${color.r}, ${color.g}, ${color.b})`;
+    }
+
+    webview.postMessage({
+      type: 'update',
+      info: {
+        rowcount: datFile.info?.rowcount ?? tiles.length,
+        colcount: datFile.info?.colcount ?? tiles[0]?.length ?? 0,
+      },
+      tiles,
+      colorMap,
+      graph: datFile.blocks || { blocks: [], wires: [] },
+      definitions: { triggers: TRIGGER_BLOCKS, events: EVENT_BLOCKS },
+    });
+  }
+
+  private getHtmlContent(webview: vscode.Webview): string {
+    const scriptUri = webview.asWebviewUri(
+      vscode.Uri.joinPath(this.context.extensionUri, 'media', 'blocksEditor.js')
+    );
+    const styleUri = webview.asWebviewUri(
+      vscode.Uri.joinPath(this.context.extensionUri, 'media', 'blocksEditor.css')
+    );
+
+    return `<!DOCTYPE html>
+    <html lang="en">
+    <head>
+      <meta charset="UTF-8">
+      <meta name="viewport" content="width=device-width, initial-scale=1.0">
+      <title>Visual Blocks Editor</title>
+      <link href="${styleUri}" rel="stylesheet">
+    </head>
+    <body>
+      <div class="blocks-editor">
+        <div class="toolbar">
+          <label>Add:</label>
+          <select id="blockType"></select>
+          <label>Wire:</label>
+          <select id="wireType">
+            <option value="normal">Normal (-)</option>
+            <option value="backup">Backup (~)</option>
+            <option value="random">Random (?)</option>
+          </select>
+          <button id="undoBtn" title="Undo (Ctrl+Z)">↶ Undo</button>
+          <button id="redoBtn" title="Redo (Ctrl+Y)">↷ Redo</button>
+          <span class="hint">Click an empty tile to add a block, drag a block to move it,
+            Shift+drag from a block to wire it, click a wire to remove it</span>
+        </div>
+        <div class="workspace">
+          <div class="canvas-container">
+            <canvas id="blocksCanvas"></canvas>
+          </div>
+          <div class="inspector" id="inspector">
+            <h3>Inspector</h3>
+            <p class="empty">Select a block to edit its parameters</p>
+          </div>
+        </div>
+      </div>
+      <script src="${scriptUri}"></script>
+    </body>
+    </html>`;
+  }
+}
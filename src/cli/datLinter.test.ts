@@ -0,0 +1,95 @@
+import { lintDatText, parseRuleOption } from './datLinter';
+
+describe('datLinter', () => {
+  const level = `info{
+rowcount:3
+colcount:3
+}
+tiles{
+1,1,1,
+1,1,1,
+1,1,1,
+}
+height{
+0,0,0,
+0,0,0,
+0,0,0,
+0,0,0,
+}
+buildings{
+BuildingToolStore_C
+Translation: X=150.000 Y=150.000 Z=0.000 Rotation: P=0.000000 Y=0.000000 R=0.000000 Scale X=1.000 Y=1.000 Z=1.000
+}
+`;
+
+  describe('lintDatText', () => {
+    it('should report grid issues on the document line of the row', async () => {
+      const result = await lintDatText(level, 'level.dat', { rules: {} });
+
+      expect(result.issues).toContainEqual({
+        rule: 'structure',
+        severity: 'error',
+        message: 'height has 4 rows, expected 3',
+        line: 11,
+        column: 1,
+      });
+      expect(result.errorCount).toBe(
+        result.issues.filter(issue => issue.severity === 'error').length
+      );
+    });
+
+    it('should leave out rules that are turned off', async () => {
+      const result = await lintDatText(level, 'level.dat', {
+        rules: { structure: 'off', accessibility: 'off' },
+      });
+
+      expect(result.issues.map(issue => issue.rule)).not.toContain('structure');
+      expect(result.issues.map(issue => issue.rule)).not.toContain('accessibility');
+    });
+
+    it('should replace the severity of a rule', async () => {
+      const result = await lintDatText(level, 'level.dat', { rules: { structure: 'warning' } });
+
+      expect(
+        result.issues.filter(issue => issue.rule === 'structure').map(issue => issue.severity)
+      ).not.toContain('error');
+    });
+
+    it('should report parse errors under the parse rule', async () => {
+      const result = await lintDatText('info{\nrowcount:1\n', 'broken.dat', { rules: {} });
+
+      expect(result.issues).toEqual([
+        expect.objectContaining({ rule: 'parse', severity: 'error', line: 1 }),
+      ]);
+      expect(result.errorCount).toBe(1);
+    });
+
+    it('should report a validator that throws instead of stopping', async () => {
+      // The accessibility validator cannot place a Tool Store outside its grid
+      const farToolStore = level.replace('X=150.000 Y=150.000', 'X=450.000 Y=450.000');
+
+      const result = await lintDatText(farToolStore, 'level.dat', { rules: {} });
+
+      expect(result.issues).toContainEqual(
+        expect.objectContaining({
+          rule: 'accessibility',
+          message: expect.stringContaining('Validation failed'),
+        })
+      );
+      expect(result.issues.some(issue => issue.rule === 'structure')).toBe(true);
+    });
+  });
+
+  describe('parseRuleOption', () => {
+    it('should split a rule and its setting', () => {
+      expect(parseRuleOption('map = off')).toEqual(['map', 'off']);
+    });
+
+    it('should reject unknown rules and settings', () => {
+      expect(() => parseRuleOption('tiles=off')).toThrow("Unknown rule 'tiles'");
+      expect(() => parseRuleOption('map=info')).toThrow(
+        "Rule 'map' must be set to error, warning, off or default"
+      );
+    });
+  });
+});
@@ -0,0 +1,215 @@
+import { DatFileParser } from '../parser/datFileParser';
+import { DatFile, DatParseError, ValidationError } from '../types/datFileTypes';
+import { DatFileValidator } from '../validation/datFileValidator';
+import { EnhancedScriptValidator } from '../validation/enhancedScriptValidator';
+import { MapAccessibilityValidator } from '../validation/mapAccessibilityValidator';
+import { MapValidator } from '../validation/mapValidator';
+import { VisualBlocksValidator } from '../validation/visualBlocksValidator';
+
+export type LintSeverity = 'error' | 'warning';
+
+// 'default' keeps the severity each validator reports
+export type LintRuleSetting = LintSeverity | 'off' | 'default';
+
+export type LintRuleId = 'parse' | 'structure' | 'map' | 'accessibility' | 'script' | 'blocks';
+
+export interface LintRule {
+  id: LintRuleId;
+  description: string;
+}
+
+export const LINT_RULES: LintRule[] = [
+  { id: 'parse', description: 'The file can be read as a .dat level' },
+  {
+    id: 'structure',
+    description: 'Sections, grids, entities, objectives and hazards (DatFileValidator)',
+  },
+  { id: 'map', description: 'Tiles, paths, resources and buildings (MapValidator)' },
+  {
+    id: 'accessibility',
+    description:
+      'Objectives and resources reachable from the Tool Store (MapAccessibilityValidator)',
+  },
+  { id: 'script', description: 'Script section (EnhancedScriptValidator)' },
+  { id: 'blocks', description: 'Visual blocks section (VisualBlocksValidator)' },
+];
+
+export interface LintConfig {
+  rules: Partial<Record<LintRuleId, LintRuleSetting>>;
+}
+
+export interface LintIssue {
+  rule: LintRuleId;
+  severity: LintSeverity;
+  message: string;
+  // 1-based position in the file
+  line: number;
+  column: number;
+}
+
+export interface LintFileResult {
+  filePath: string;
+  issues: LintIssue[];
+  errorCount: number;
+  warningCount: number;
+}
+
+// Sections whose validator lines count rows from the line after the header
+const GRID_SECTIONS = ['tiles', 'height'];
+
+// Validators that already report document lines
+const DOCUMENT_LINE_SECTIONS = ['script', 'blocks'];
+
+/**
+ * Run the validators over the text of one .dat file. Each validator is a
+ * rule that can be turned off or have its severity replaced in the config.
+ */
+export async function lintDatText(
+  text: string,
+  filePath: string,
+  config: LintConfig
+): Promise<LintFileResult> {
+  const issues: LintIssue[] = [];
+  const report = (
+    rule: LintRuleId,
+    severity: LintSeverity,
+    message: string,
+    line: number,
+    column: number
+  ) => {
+    const setting = config.rules[rule] ?? 'default';
+    if (setting !== 'off') {
+      issues.push({
+        rule,
+        severity: setting === 'default' ? severity : setting,
+        message,
+        line: line + 1,
+        column: column + 1,
+      });
+    }
+  };
+
+  const parser = new DatFileParser(text);
+  let datFile: DatFile;
+  try {
+    datFile = parser.parse();
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    report('parse', 'error', errorMessage, error instanceof DatParseError ? error.line : 0, 0);
+    return summarize(filePath, issues);
+  }
+
+  const reportErrors = (rule: LintRuleId, errors: ValidationError[]) => {
+    for (const error of errors) {
+      report(
+        rule,
+        error.severity,
+        error.message,
+        toDocumentLine(parser, error.line, error.section),
+        error.column
+      );
+    }
+  };
+
+  // A validator that throws on a malformed file should not stop the others
+  const run = async (rule: LintRuleId, check: () => void | Promise<void>) => {
+    if (config.rules[rule] === 'off') {
+      return;
+    }
+    try {
+      await check();
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      report(rule, 'error', `Validation failed: ${errorMessage}`, 0, 0);
+    }
+  };
+
+  await run('structure', () => {
+    // Blocks and script have rules of their own
+    const structure = { ...datFile, blocks: undefined, script: undefined };
+    reportErrors('structure', new DatFileValidator().validate(structure));
+  });
+  await run('blocks', () => {
+    if (datFile.blocks) {
+      reportErrors('blocks', new VisualBlocksValidator().validate(datFile.blocks, datFile.info));
+    }
+  });
+  await run('script', () => {
+    if (datFile.script) {
+      reportErrors('script', new EnhancedScriptValidator().validate(datFile.script));
+    }
+  });
+  await run('accessibility', () => {
+    const result = new MapAccessibilityValidator().validate(datFile);
+    reportErrors('accessibility', [...result.errors, ...result.warnings]);
+  });
+  await run('map', async () => {
+    const result = await new MapValidator({ getText: () => text }).validate();
+    for (const issue of [...result.errors, ...result.warnings]) {
+      report(
+        'map',
+        issue.type,
+        issue.message,
+        toDocumentLine(parser, issue.line, issue.section ?? 'tiles'),
+        issue.column ?? 0
+      );
+    }
+  });
+
+  issues.sort((a, b) => a.line - b.line || a.column - b.column);
+  return summarize(filePath, issues);
+}
+
+/**
+ * Parse a 'rule=setting' option
+ */
+export function parseRuleOption(option: string): [LintRuleId, LintRuleSetting] {
+  const [rule, setting] = option.split('=').map(part => part.trim());
+  if (!LINT_RULES.some(known => known.id === rule)) {
+    throw new Error(
+      `Unknown rule '${rule}'. Rules are: ${LINT_RULES.map(known => known.id).join(', ')}`
+    );
+  }
+  if (!['error', 'warning', 'off', 'default'].includes(setting)) {
+    throw new Error(`Rule '${rule}' must be set to error, warning, off or default`);
+  }
+  return [rule as LintRuleId, setting as LintRuleSetting];
+}
+
+/**
+ * Convert a validator line to a 0-based document line. Grid validators
+ * count rows within the section; other sections report their header.
+ */
+function toDocumentLine(parser: DatFileParser, line = 0, section?: string): number {
+  if (!section || DOCUMENT_LINE_SECTIONS.includes(section)) {
+    return line;
+  }
+
+  const [name, subsection] = section.split('.');
+  const info = parser.getSection(name);
+  if (!info) {
+    return 0;
+  }
+  if (GRID_SECTIONS.includes(name)) {
+    return info.startLine + 1 + line;
+  }
+  if (subsection) {
+    // resources.crystals rows start after the 'crystals:' line
+    const lines = parser.getText().split(/\r?\n/);
+    for (let i = info.startLine + 1; i < info.endLine; i++) {
+      if (lines[i].trim() === `${subsection}:`) {
+        return i + 1 + line;
+      }
+    }
+  }
+  return info.startLine;
+}
+
+function summarize(filePath: string, issues: LintIssue[]): LintFileResult {
+  return {
+    filePath,
+    issues,
+    errorCount: issues.filter(issue => issue.severity === 'error').length,
+    warningCount: issues.filter(issue => issue.severity === 'warning').length,
+  };
+}
@@ -0,0 +1,59 @@
+import { LintFileResult } from './datLinter';
+import { formatJson, formatSarif, formatText } from './lintFormatters';
+
+describe('lintFormatters', () => {
+  const results: LintFileResult[] = [
+    {
+      filePath: 'levels\\first.dat',
+      issues: [
+        {
+          rule: 'map',
+          severity: 'error',
+          message: 'Invalid tile ID 0 at [1, 1]',
+          line: 7,
+          column: 3,
+        },
+        { rule: 'script', severity: 'warning', message: 'Unused variable', line: 20, column: 1 },
+      ],
+      errorCount: 1,
+      warningCount: 1,
+    },
+    { filePath: 'levels\\second.dat', issues: [], errorCount: 0, warningCount: 0 },
+  ];
+
+  it('should write one text line per issue and a total', () => {
+    expect(formatText(results).split('\n')).toEqual([
+      'levels\\first.dat:7:3: error Invalid tile ID 0 at [1, 1] [map]',
+      'levels\\first.dat:20:1: warning Unused variable [script]',
+      '2 files checked: 1 error, 1 warning',
+    ]);
+  });
+
+  it('should write the results as JSON', () => {
+    expect(JSON.parse(formatJson(results))).toEqual(results);
+  });
+
+  it('should write a SARIF log with rules and locations', () => {
+    const log = JSON.parse(formatSarif(results));
+    const run = log.runs[0];
+
+    expect(log.version).toBe('2.1.0');
+    expect(run.tool.driver.name).toBe('manic-lint');
+    expect(run.tool.driver.rules.map((rule: { id: string }) => rule.id)).toContain('map');
+    expect(run.results).toHaveLength(2);
+    expect(run.results[0]).toEqual({
+      ruleId: 'map',
+      ruleIndex: run.tool.driver.rules.findIndex((rule: { id: string }) => rule.id === 'map'),
+      level: 'error',
+      message: { text: 'Invalid tile ID 0 at [1, 1]' },
+      locations: [
+        {
+          physicalLocation: {
+            artifactLocation: { uri: 'levels/first.dat' },
+            region: { startLine: 7, startColumn: 3 },
+          },
+        },
+      ],
+    });
+  });
+});
@@ -0,0 +1,92 @@
+import { LINT_RULES, LintFileResult } from './datLinter';
+
+export type LintOutputFormat = 'text' | 'json' | 'sarif';
+
+export const LINT_OUTPUT_FORMATS: LintOutputFormat[] = ['text', 'json', 'sarif'];
+
+const SARIF_SCHEMA = 'https://json.schemastore.org/sarif-2.1.0.json';
+
+export function formatLintResults(results: LintFileResult[], format: LintOutputFormat): string {
+  switch (format) {
+    case 'json':
+      return formatJson(results);
+    case 'sarif':
+      return formatSarif(results);
+    default:
+      return formatText(results);
+  }
+}
+
+/**
+ * One line per issue in the 'file:line:column' form editors and terminals
+ * turn into links, followed by a total
+ */
+export function formatText(results: LintFileResult[]): string {
+  const lines: string[] = [];
+  for (const result of results) {
+    for (const issue of result.issues) {
+      lines.push(
+        `${result.filePath}:${issue.line}:${issue.column}: ${issue.severity} ${issue.message} [${issue.rule}]`
+      );
+    }
+  }
+
+  const errors = results.reduce((total, result) => total + result.errorCount, 0);
+  const warnings = results.reduce((total, result) => total + result.warningCount, 0);
+  lines.push(
+    `${results.length} ${results.length === 1 ? 'file' : 'files'} checked: ` +
+      `${errors} ${errors === 1 ? 'error' : 'errors'}, ` +
+      `${warnings} ${warnings === 1 ? 'warning' : 'warnings'}`
+  );
+  return lines.join('\n');
+}
+
+export function formatJson(results: LintFileResult[]): string {
+  return JSON.stringify(results, null, 2);
+}
+
+/**
+ * SARIF 2.1.0 log, the format code scanning services read
+ */
+export function formatSarif(results: LintFileResult[]): string {
+  const log = {
+    $schema: SARIF_SCHEMA,
+    version: '2.1.0',
+    runs: [
+      {
+        tool: {
+          driver: {
+            name: 'manic-lint',
+            informationUri: 'https://github.com/Wal33D/vscode-manic-miners',
+            rules: LINT_RULES.map(rule => ({
+              id: rule.id,
+              shortDescription: { text: rule.description },
+            })),
+          },
+        },
+        results: results.flatMap(result =>
+          result.issues.map(issue => ({
+            ruleId: issue.rule,
+            ruleIndex: LINT_RULES.findIndex(rule => rule.id === issue.rule),
+            level: issue.severity,
+            message: { text: issue.message },
+            locations: [
+              {
+                physicalLocation: {
+                  artifactLocation: { uri: toUri(result.filePath) },
+                  region: { startLine: issue.line, startColumn: issue.column },
+                },
+              },
+            ],
+          }))
+        ),
+      },
+    ],
+  };
+  return JSON.stringify(log, null, 2);
+}
+
+// SARIF locations are URIs, so relative paths use forward slashes
+function toUri(filePath: string): string {
+  return filePath.split('\\').join('/');
+}
@@ -0,0 +1,67 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { expandPatterns, main } from './manicLint';
+
+describe('manicLint', () => {
+  let dir: string;
+  let output: string[];
+  const write = (text: string) => output.push(text);
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'manic-lint-'));
+    fs.mkdirSync(path.join(dir, 'levels', 'extra'), { recursive: true });
+    fs.writeFileSync(path.join(dir, 'levels', 'broken.dat'), 'info{\nrowcount:1\n');
+    fs.writeFileSync(path.join(dir, 'levels', 'extra', 'other.dat'), 'info{\n}\n');
+    fs.writeFileSync(path.join(dir, 'levels', 'notes.txt'), '');
+    output = [];
+    jest.spyOn(process.stderr, 'write').mockImplementation(() => true);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  describe('expandPatterns', () => {
+    it('should find .dat files in directories and globs', () => {
+      const nested = path.join('levels', 'extra', 'other.dat');
+      const broken = path.join('levels', 'broken.dat');
+
+      expect(expandPatterns(['levels'], dir)).toEqual([broken, nested]);
+      expect(expandPatterns(['levels/*.dat'], dir)).toEqual([broken]);
+      expect(expandPatterns(['**/other.dat'], dir)).toEqual([nested]);
+    });
+
+    it('should fail when a pattern matches nothing', () => {
+      expect(() => expandPatterns(['missing/*.dat'], dir)).toThrow(
+        "No .dat files match 'missing/*.dat'"
+      );
+    });
+  });
+
+  describe('main', () => {
+    it('should exit with 1 when a file has errors', async () => {
+      const code = await main(['levels/broken.dat'], dir, write);
+
+      expect(code).toBe(1);
+      expect(output[0]).toContain('levels/broken.dat:1:1: error');
+    });
+
+    it('should exit with 0 when rules are turned off in the config', async () => {
+      fs.writeFileSync(path.join(dir, '.manic-lint.json'), '{ "rules": { "parse": "off" } }');
+
+      const code = await main(['levels/broken.dat', '--format', 'json'], dir, write);
+
+      expect(code).toBe(0);
+      expect(JSON.parse(output[0])[0].issues).toEqual([]);
+    });
+
+    it('should exit with 2 on bad options', async () => {
+      expect(await main(['--format', 'xml', 'levels'], dir, write)).toBe(2);
+      expect(await main(['--rule', 'tiles=off', 'levels'], dir, write)).toBe(2);
+      expect(await main([], dir, write)).toBe(2);
+      expect(output).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,257 @@
+#!/usr/bin/env node
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  LINT_RULES,
+  LintConfig,
+  LintFileResult,
+  LintRuleId,
+  LintRuleSetting,
+  lintDatText,
+  parseRuleOption,
+} from './datLinter';
+import { LINT_OUTPUT_FORMATS, LintOutputFormat, formatLintResults } from './lintFormatters';
+
+// Exit codes
+const EXIT_CLEAN = 0;
+const EXIT_ERRORS = 1;
+const EXIT_USAGE = 2;
+
+const DEFAULT_CONFIG_FILE = '.manic-lint.json';
+
+interface CliOptions {
+  format: LintOutputFormat;
+  configFile?: string;
+  rules: [LintRuleId, LintRuleSetting][];
+  patterns: string[];
+  help: boolean;
+}
+
+class UsageError extends Error {}
+
+const USAGE = `Usage: manic-lint [options] <file|directory|glob>...
+
+Validate Manic Miners .dat level files.
+
+Options:
+  --format <text|json|sarif>  Output format (default: text)
+  --rule <rule>=<setting>     Set a rule to error, warning, off or default; may be repeated
+  --config <file>             Read rule settings from a JSON file (default: ${DEFAULT_CONFIG_FILE} if present)
+  --help                      Show this help
+
+Rules:
+${LINT_RULES.map(rule => `  ${rule.id.padEnd(14)}${rule.description}`).join('\n')}
+
+Exits with 1 when any error is reported and 2 when the files or options cannot be used.`;
+
+/**
+ * Run the linter with command-line arguments, writing the report to
+ * stdout. Returns the process exit code.
+ */
+export async function main(
+  argv: string[],
+  cwd = process.cwd(),
+  write: (text: string) => void = text => process.stdout.write(text + '\n')
+): Promise<number> {
+  try {
+    const options = parseArgs(argv);
+    if (options.help) {
+      write(USAGE);
+      return EXIT_CLEAN;
+    }
+    if (options.patterns.length === 0) {
+      throw new UsageError('No files given');
+    }
+
+    const config = loadConfig(options.configFile, cwd);
+    for (const [rule, setting] of options.rules) {
+      config.rules[rule] = setting;
+    }
+
+    const files = expandPatterns(options.patterns, cwd);
+    const results: LintFileResult[] = [];
+    for (const file of files) {
+      const text = fs.readFileSync(path.resolve(cwd, file), 'utf8');
+      results.push(await lintDatText(text, file, config));
+    }
+
+    write(formatLintResults(results, options.format));
+    return results.some(result => result.errorCount > 0) ? EXIT_ERRORS : EXIT_CLEAN;
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    process.stderr.write(`manic-lint: ${errorMessage}\n`);
+    if (error instanceof UsageError) {
+      process.stderr.write('Run manic-lint --help for usage\n');
+    }
+    return EXIT_USAGE;
+  }
+}
+
+function parseArgs(argv: string[]): CliOptions {
+  const options: CliOptions = { format: 'text', rules: [], patterns: [], help: false };
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    const [flag, inlineValue] = arg.startsWith('--') ? splitOnce(arg, '=') : [arg, undefined];
+    const value = () => {
+      const next = inlineValue ?? argv[++i];
+      if (next === undefined) {
+        throw new UsageError(`${flag} needs a value`);
+      }
+      return next;
+    };
+
+    switch (flag) {
+      case '--help':
+      case '-h':
+        options.help = true;
+        break;
+      case '--format': {
+        const format = value();
+        if (!LINT_OUTPUT_FORMATS.includes(format as LintOutputFormat)) {
+          throw new UsageError(`Unknown format '${format}'. Use text, json or sarif`);
+        }
+        options.format = format as LintOutputFormat;
+        break;
+      }
+      case '--rule':
+        options.rules.push(toUsageError(() => parseRuleOption(value())));
+        break;
+      case '--config':
+        options.configFile = value();
+        break;
+      default:
+        if (arg.startsWith('-')) {
+          throw new UsageError(`Unknown option '${arg}'`);
+        }
+        options.patterns.push(arg);
+    }
+  }
+  return options;
+}
+
+/**
+ * Read rule settings from a config file shaped like { "rules": { "map": "off" } }.
+ * Without --config, a .manic-lint.json in the working directory is used if there is one.
+ */
+function loadConfig(configFile: string | undefined, cwd: string): LintConfig {
+  const file = path.resolve(cwd, configFile ?? DEFAULT_CONFIG_FILE);
+  if (!configFile && !fs.existsSync(file)) {
+    return { rules: {} };
+  }
+
+  let parsed: { rules?: Record<string, string> };
+  try {
+    parsed = JSON.parse(fs.readFileSync(file, 'utf8'));
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    throw new UsageError(`Could not read config ${file}: ${errorMessage}`);
+  }
+
+  const config: LintConfig = { rules: {} };
+  for (const [rule, setting] of Object.entries(parsed.rules ?? {})) {
+    const [id, value] = toUsageError(() => parseRuleOption(`${rule}=${setting}`));
+    config.rules[id] = value;
+  }
+  return config;
+}
+
+/**
+ * Turn file, directory and glob arguments into a sorted list of .dat
+ * files. Directories are searched recursively; globs support *, ** and ?.
+ */
+export function expandPatterns(patterns: string[], cwd: string): string[] {
+  const files = new Set<string>();
+  for (const pattern of patterns) {
+    const matches = /[*?]/.test(pattern)
+      ? matchGlob(pattern, cwd)
+      : expandPath(pattern, path.resolve(cwd, pattern));
+    if (matches.length === 0) {
+      throw new UsageError(`No .dat files match '${pattern}'`);
+    }
+    matches.forEach(file => files.add(file));
+  }
+  return Array.from(files).sort();
+}
+
+function expandPath(display: string, absolute: string): string[] {
+  if (!fs.existsSync(absolute)) {
+    return [];
+  }
+  if (!fs.statSync(absolute).isDirectory()) {
+    return [display];
+  }
+  return listDatFiles(absolute).map(file => path.join(display, path.relative(absolute, file)));
+}
+
+function matchGlob(pattern: string, cwd: string): string[] {
+  const normalized = pattern.split('\\').join('/');
+  const segments = normalized.split('/');
+  const firstWildcard = segments.findIndex(segment => /[*?]/.test(segment));
+  const base = segments.slice(0, firstWildcard).join('/');
+  const root = path.resolve(cwd, base || '.');
+  if (!fs.existsSync(root) || !fs.statSync(root).isDirectory()) {
+    return [];
+  }
+
+  const regex = globToRegExp(segments.slice(firstWildcard).join('/'));
+  return listFiles(root)
+    .filter(file => regex.test(path.relative(root, file).split(path.sep).join('/')))
+    .map(file => (base ? path.join(base, path.relative(root, file)) : path.relative(cwd, file)));
+}
+
+function globToRegExp(glob: string): RegExp {
+  let source = '';
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === '*' && glob[i + 1] === '*') {
+      // '**/' matches any number of directories, including none
+      source += glob[i + 2] === '/' ? '(?:.*/)?' : '.*';
+      i += glob[i + 2] === '/' ? 2 : 1;
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+function listDatFiles(dir: string): string[] {
+  return listFiles(dir).filter(file => file.toLowerCase().endsWith('.dat'));
+}
+
+function listFiles(dir: string): string[] {
+  const files: string[] = [];
+  for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+    const full = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      if (entry.name !== 'node_modules' && !entry.name.startsWith('.')) {
+        files.push(...listFiles(full));
+      }
+    } else if (entry.isFile()) {
+      files.push(full);
+    }
+  }
+  return files;
+}
+
+function splitOnce(text: string, separator: string): [string, string | undefined] {
+  const index = text.indexOf(separator);
+  return index === -1 ? [text, undefined] : [text.slice(0, index), text.slice(index + 1)];
+}
+
+function toUsageError<T>(fn: () => T): T {
+  try {
+    return fn();
+  } catch (error) {
+    throw new UsageError(error instanceof Error ? error.message : String(error));
+  }
+}
+
+if (require.main === module) {
+  main(process.argv.slice(2)).then(code => {
+    process.exitCode = code;
+  });
+}
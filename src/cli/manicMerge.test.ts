@@ -0,0 +1,52 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { main } from './manicMerge';
+
+describe('manicMerge', () => {
+  const base = 'info{\nrowcount:1\ncolcount:3\n}\ntiles{\n1,1,1,\n}\n';
+  let dir: string;
+  let output: string[];
+  const write = (text: string) => output.push(text);
+
+  const writeVersions = (ours: string, theirs: string) => {
+    fs.writeFileSync(path.join(dir, 'base'), base);
+    fs.writeFileSync(path.join(dir, 'ours'), ours);
+    fs.writeFileSync(path.join(dir, 'theirs'), theirs);
+  };
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'manic-merge-'));
+    output = [];
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should write the merged level over ours', () => {
+    writeVersions(base.replace('1,1,1,', '26,1,1,'), base.replace('1,1,1,', '1,1,38,'));
+
+    const code = main(['base', 'ours', 'theirs', 'level.dat'], dir, write);
+
+    expect(code).toBe(0);
+    expect(fs.readFileSync(path.join(dir, 'ours'), 'utf8')).toContain('26,1,38,');
+    expect(output).toEqual([]);
+  });
+
+  it('should exit with 1 and list conflicts', () => {
+    writeVersions(base.replace('1,1,1,', '26,1,1,'), base.replace('1,1,1,', '38,1,1,'));
+
+    const code = main(['base', 'ours', 'theirs', 'level.dat'], dir, write);
+
+    expect(code).toBe(1);
+    expect(fs.readFileSync(path.join(dir, 'ours'), 'utf8')).toContain('26,1,1,');
+    expect(output[0]).toBe(
+      'level.dat: conflict in tiles (row 0, col 0): tiles at 0,0 was changed on both sides'
+    );
+  });
+
+  it('should exit with 2 on bad arguments', () => {
+    expect(main(['base', 'ours'], dir, write)).toBe(2);
+  });
+});
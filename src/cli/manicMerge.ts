@@ -0,0 +1,74 @@
+#!/usr/bin/env node
+import * as fs from 'fs';
+import * as path from 'path';
+import { mergeDatText } from '../versionControl/datMerge';
+
+// Exit codes
+const EXIT_MERGED = 0;
+const EXIT_CONFLICTS = 1;
+const EXIT_USAGE = 2;
+
+const USAGE = `Usage: manic-merge <base> <ours> <theirs> [path]
+
+Three-way merge of Manic Miners .dat level files, for use as a git merge driver.
+The merged level is written over <ours>. Where both sides changed the same
+thing differently, ours is kept and the conflict is listed on stderr.
+
+Set it up in .gitattributes and git config:
+  *.dat merge=manicminers
+  git config merge.manicminers.name "Manic Miners level merge"
+  git config merge.manicminers.driver "manic-merge %O %A %B %P"
+
+Exits with 1 when conflicts remain or a file cannot be read as a level,
+leaving <ours> unchanged in that case, and 2 for bad arguments.`;
+
+/**
+ * Merge three versions of a level the way git calls a merge driver.
+ * Returns the process exit code.
+ */
+export function main(
+  argv: string[],
+  cwd = process.cwd(),
+  write: (text: string) => void = text => process.stderr.write(text + '\n')
+): number {
+  if (argv.includes('--help') || argv.includes('-h')) {
+    write(USAGE);
+    return EXIT_MERGED;
+  }
+  if (argv.length < 3 || argv.length > 4) {
+    write('manic-merge: expected <base> <ours> <theirs> [path]\nRun manic-merge --help for usage');
+    return EXIT_USAGE;
+  }
+
+  const [basePath, oursPath, theirsPath] = argv.map(file => path.resolve(cwd, file));
+  const displayPath = argv[3] ?? argv[1];
+  try {
+    const result = mergeDatText(
+      fs.readFileSync(basePath, 'utf8'),
+      fs.readFileSync(oursPath, 'utf8'),
+      fs.readFileSync(theirsPath, 'utf8')
+    );
+    fs.writeFileSync(oursPath, result.text);
+
+    for (const conflict of result.conflicts) {
+      const location =
+        conflict.row !== undefined ? ` (row ${conflict.row}, col ${conflict.col})` : '';
+      write(`${displayPath}: conflict in ${conflict.section}${location}: ${conflict.description}`);
+    }
+    if (result.conflicts.length > 0) {
+      write(
+        `${displayPath}: ${result.conflicts.length} conflict(s) kept ours; resolve them with "Manic Miners: Resolve Merge Conflicts"`
+      );
+      return EXIT_CONFLICTS;
+    }
+    return EXIT_MERGED;
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    write(`manic-merge: ${displayPath}: ${errorMessage}`);
+    return EXIT_CONFLICTS;
+  }
+}
+
+if (require.main === module) {
+  process.exitCode = main(process.argv.slice(2));
+}
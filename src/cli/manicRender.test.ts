@@ -0,0 +1,62 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { main } from './manicRender';
+
+describe('manicRender', () => {
+  const level = ['info{', 'rowcount:2', 'colcount:3', '}', 'tiles{', '1,1,1,', '1,38,1,', '}'].join(
+    '\n'
+  );
+
+  let dir: string;
+  let output: string[];
+  const write = (text: string) => output.push(text);
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'manic-render-'));
+    fs.mkdirSync(path.join(dir, 'levels', 'extra'), { recursive: true });
+    fs.writeFileSync(path.join(dir, 'levels', 'cave.dat'), level);
+    fs.writeFileSync(path.join(dir, 'levels', 'extra', 'tunnel.dat'), level);
+    fs.writeFileSync(path.join(dir, 'levels', 'empty.dat'), 'info{\n}\n');
+    output = [];
+    jest.spyOn(process.stderr, 'write').mockImplementation(() => true);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should write a PNG next to each level', async () => {
+    const code = await main(['levels/cave.dat', '--tile-size', '4'], dir, write);
+
+    expect(code).toBe(0);
+    expect(output).toEqual([path.join('levels', 'cave.png')]);
+    const png = fs.readFileSync(path.join(dir, 'levels', 'cave.png'));
+    expect(png.subarray(1, 4).toString('ascii')).toBe('PNG');
+    expect(png.readUInt32BE(16)).toBe(12);
+    expect(png.readUInt32BE(20)).toBe(8);
+  });
+
+  it('should mirror relative paths under --out', async () => {
+    const code = await main(['levels/**/*.dat', '--format=svg', '--out', 'images'], dir, write);
+
+    expect(code).toBe(1);
+    expect(output).toEqual([
+      path.join('images', 'levels', 'cave.svg'),
+      path.join('images', 'levels', 'extra', 'tunnel.svg'),
+    ]);
+    expect(fs.readFileSync(path.join(dir, output[1]), 'utf8')).toMatch(/^<svg /);
+    expect(process.stderr.write).toHaveBeenCalledWith(
+      `manic-render: ${path.join('levels', 'empty.dat')}: Level has no tiles to render\n`
+    );
+  });
+
+  it('should exit with 2 on bad options', async () => {
+    expect(await main(['--format', 'gif', 'levels'], dir, write)).toBe(2);
+    expect(await main(['--tile-size', '0', 'levels'], dir, write)).toBe(2);
+    expect(await main(['missing/*.dat'], dir, write)).toBe(2);
+    expect(await main([], dir, write)).toBe(2);
+    expect(output).toEqual([]);
+  });
+});
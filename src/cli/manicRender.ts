@@ -0,0 +1,177 @@
+#!/usr/bin/env node
+import * as fs from 'fs';
+import * as path from 'path';
+import { renderMapPng, renderMapSvg, MapRenderOptions } from '../mapRenderer/mapRenderer';
+import { DatCstParser } from '../parser/datCstParser';
+import { expandPatterns } from './manicLint';
+
+// Exit codes
+const EXIT_RENDERED = 0;
+const EXIT_FAILED = 1;
+const EXIT_USAGE = 2;
+
+type ImageFormat = 'png' | 'svg';
+
+interface CliOptions {
+  format: ImageFormat;
+  outDir?: string;
+  render: MapRenderOptions;
+  patterns: string[];
+  help: boolean;
+}
+
+class UsageError extends Error {}
+
+const USAGE = `Usage: manic-render [options] <file|directory|glob>...
+
+Render Manic Miners .dat level files as images.
+
+Options:
+  --format <png|svg>   Image format (default: png)
+  --out <dir>          Write images under this directory, keeping the inputs' relative
+                       paths (default: next to each level)
+  --tile-size <px>     Pixels per tile (default: 8)
+  --max-size <px>      Shrink tiles so the longer side fits in this many pixels
+  --grid               Draw tile grid lines
+  --entities           Draw buildings, vehicles, creatures and miners
+  --resources          Draw crystal and ore counts
+  --help               Show this help
+
+Exits with 1 when any level cannot be rendered and 2 when the files or options cannot be used.`;
+
+/**
+ * Render levels with command-line arguments, writing the path of each
+ * image to stdout. Returns the process exit code.
+ */
+export async function main(
+  argv: string[],
+  cwd = process.cwd(),
+  write: (text: string) => void = text => process.stdout.write(text + '\n')
+): Promise<number> {
+  try {
+    const options = parseArgs(argv);
+    if (options.help) {
+      write(USAGE);
+      return EXIT_RENDERED;
+    }
+    if (options.patterns.length === 0) {
+      throw new UsageError('No files given');
+    }
+
+    let failed = false;
+    for (const file of expandPatterns(options.patterns, cwd)) {
+      try {
+        const output = outputPath(file, options);
+        const datFile = new DatCstParser(
+          fs.readFileSync(path.resolve(cwd, file), 'utf8')
+        ).toDatFile();
+        const image =
+          options.format === 'svg'
+            ? renderMapSvg(datFile, options.render)
+            : renderMapPng(datFile, options.render);
+
+        fs.mkdirSync(path.dirname(path.resolve(cwd, output)), { recursive: true });
+        fs.writeFileSync(path.resolve(cwd, output), image);
+        write(output);
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        process.stderr.write(`manic-render: ${file}: ${errorMessage}\n`);
+        failed = true;
+      }
+    }
+    return failed ? EXIT_FAILED : EXIT_RENDERED;
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    process.stderr.write(`manic-render: ${errorMessage}\n`);
+    if (error instanceof UsageError) {
+      process.stderr.write('Run manic-render --help for usage\n');
+    }
+    return EXIT_USAGE;
+  }
+}
+
+function parseArgs(argv: string[]): CliOptions {
+  const options: CliOptions = { format: 'png', render: {}, patterns: [], help: false };
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    const [flag, inlineValue] = arg.startsWith('--') ? splitOnce(arg, '=') : [arg, undefined];
+    const value = () => {
+      const next = inlineValue ?? argv[++i];
+      if (next === undefined) {
+        throw new UsageError(`${flag} needs a value`);
+      }
+      return next;
+    };
+
+    switch (flag) {
+      case '--help':
+      case '-h':
+        options.help = true;
+        break;
+      case '--format': {
+        const format = value();
+        if (format !== 'png' && format !== 'svg') {
+          throw new UsageError(`Unknown format '${format}'. Use png or svg`);
+        }
+        options.format = format;
+        break;
+      }
+      case '--out':
+        options.outDir = value();
+        break;
+      case '--tile-size':
+        options.render.tileSize = parsePixels(flag, value());
+        break;
+      case '--max-size':
+        options.render.maxSize = parsePixels(flag, value());
+        break;
+      case '--grid':
+        options.render.grid = true;
+        break;
+      case '--entities':
+        options.render.entities = true;
+        break;
+      case '--resources':
+        options.render.resources = true;
+        break;
+      default:
+        if (arg.startsWith('-')) {
+          throw new UsageError(`Unknown option '${arg}'`);
+        }
+        options.patterns.push(arg);
+    }
+  }
+  return options;
+}
+
+function parsePixels(flag: string, text: string): number {
+  const pixels = Number(text);
+  if (!Number.isInteger(pixels) || pixels < 1) {
+    throw new UsageError(`${flag} must be a whole number of pixels, got '${text}'`);
+  }
+  return pixels;
+}
+
+/**
+ * The image goes next to the level, or under --out at the level's relative
+ * path. Levels given by absolute path go straight into --out.
+ */
+function outputPath(file: string, options: CliOptions): string {
+  const parsed = path.parse(file);
+  const image = path.join(parsed.dir, `${parsed.name}.${options.format}`);
+  if (!options.outDir) {
+    return image;
+  }
+  return path.join(options.outDir, path.isAbsolute(file) ? path.basename(image) : image);
+}
+
+function splitOnce(text: string, separator: string): [string, string | undefined] {
+  const index = text.indexOf(separator);
+  return index === -1 ? [text, undefined] : [text.slice(0, index), text.slice(index + 1)];
+}
+
+if (require.main === module) {
+  main(process.argv.slice(2)).then(code => {
+    process.exitCode = code;
+  });
+}
@@ -0,0 +1,78 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { main } from './manicSimulate';
+
+describe('manicSimulate', () => {
+  const level = [
+    'info{',
+    'rowcount:2',
+    'colcount:2',
+    '}',
+    'tiles{',
+    '1,1,',
+    '1,1,',
+    '}',
+    'script{',
+    'when(crystals>=10)[Done]',
+    'Done::',
+    'msg:Enough;',
+    'win:;',
+    '}',
+  ].join('\n');
+
+  let dir: string;
+  let output: string[];
+  const write = (text: string) => output.push(text);
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'manic-simulate-'));
+    fs.writeFileSync(path.join(dir, 'cave.dat'), level);
+    fs.writeFileSync(path.join(dir, 'play.txt'), 'at 1:00 collect 10 crystals\n');
+    fs.writeFileSync(path.join(dir, 'bad.txt'), 'at 1:00 dance\n');
+    output = [];
+    jest.spyOn(process.stderr, 'write').mockImplementation(() => true);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should print the timeline and outcome', async () => {
+    const code = await main(['cave.dat', '--scenario', 'play.txt', '--expect', 'win'], dir, write);
+
+    expect(code).toBe(0);
+    expect(output).toHaveLength(1);
+    expect(output[0]).toMatch(/\[1:00\] message +Enough {2}\(line 12\)/);
+    expect(output[0]).toContain('Outcome: Won at 1:00');
+  });
+
+  it('should fail when a level misses --expect', async () => {
+    const code = await main(
+      ['cave.dat', '--duration=30', '--expect=win', '--format=json'],
+      dir,
+      write
+    );
+
+    expect(code).toBe(1);
+    const [report] = JSON.parse(output[0]);
+    expect(report).toEqual(expect.objectContaining({ file: 'cave.dat', endTime: 30 }));
+    expect(report).not.toHaveProperty('outcome');
+    expect(process.stderr.write).toHaveBeenCalledWith(
+      'manic-simulate: cave.dat: expected win, got none\n'
+    );
+  });
+
+  it('should exit with 2 on bad options', async () => {
+    expect(await main(['cave.dat', '--scenario', 'bad.txt'], dir, write)).toBe(2);
+    expect(process.stderr.write).toHaveBeenCalledWith(
+      "manic-simulate: bad.txt: Line 1: Unknown action 'dance'\n"
+    );
+    expect(await main(['cave.dat', '--scenario', 'missing.txt'], dir, write)).toBe(2);
+    expect(await main(['cave.dat', '--expect', 'draw'], dir, write)).toBe(2);
+    expect(await main(['cave.dat', '--seed', '-1'], dir, write)).toBe(2);
+    expect(await main([], dir, write)).toBe(2);
+    expect(output).toEqual([]);
+  });
+});
@@ -0,0 +1,196 @@
+#!/usr/bin/env node
+import * as fs from 'fs';
+import * as path from 'path';
+import { DatCstParser } from '../parser/datCstParser';
+import { parseScenario, ScenarioStep } from '../scriptSimulator/scenario';
+import { ScriptInterpreter, SimulationOptions } from '../scriptSimulator/scriptInterpreter';
+import { formatSimulation } from '../scriptSimulator/timelineFormatter';
+import { expandPatterns } from './manicLint';
+
+// Exit codes
+const EXIT_SIMULATED = 0;
+const EXIT_FAILED = 1;
+const EXIT_USAGE = 2;
+
+type OutputFormat = 'text' | 'json';
+type ExpectedOutcome = 'win' | 'lose' | 'none';
+
+interface CliOptions {
+  format: OutputFormat;
+  scenario?: string;
+  expect?: ExpectedOutcome;
+  simulation: SimulationOptions;
+  patterns: string[];
+  help: boolean;
+}
+
+class UsageError extends Error {}
+
+const USAGE = `Usage: manic-simulate [options] <file|directory|glob>...
+
+Dry-run the script{} of Manic Miners .dat levels and print a timeline of fired
+triggers, event chains, messages, variable changes and the outcome.
+
+Options:
+  --scenario <file>         Player actions, one per line, e.g.
+                              at t=60 collect 20 crystals
+                              enter tile 5,5
+  --duration <seconds>      Game time to simulate (default: 600, or the last scenario step)
+  --seed <n>                Seed for random timers and random(min)(max) (default: 1)
+  --expect <win|lose|none>  Fail unless every level ends this way
+  --format <text|json>      Output format (default: text)
+  --help                    Show this help
+
+Exits with 1 when a level cannot be simulated or misses --expect, and 2 when the
+files or options cannot be used.`;
+
+/**
+ * Simulate levels with command-line arguments, writing each report to
+ * stdout. Returns the process exit code.
+ */
+export async function main(
+  argv: string[],
+  cwd = process.cwd(),
+  write: (text: string) => void = text => process.stdout.write(text + '\n')
+): Promise<number> {
+  try {
+    const options = parseArgs(argv);
+    if (options.help) {
+      write(USAGE);
+      return EXIT_SIMULATED;
+    }
+    if (options.patterns.length === 0) {
+      throw new UsageError('No files given');
+    }
+
+    let scenario: ScenarioStep[] = [];
+    if (options.scenario) {
+      const scenarioPath = path.resolve(cwd, options.scenario);
+      if (!fs.existsSync(scenarioPath)) {
+        throw new UsageError(`Scenario file '${options.scenario}' not found`);
+      }
+      try {
+        scenario = parseScenario(fs.readFileSync(scenarioPath, 'utf8'));
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        throw new UsageError(`${options.scenario}: ${errorMessage}`);
+      }
+    }
+
+    let failed = false;
+    const reports: object[] = [];
+    const files = expandPatterns(options.patterns, cwd);
+    for (const file of files) {
+      try {
+        const datFile = new DatCstParser(
+          fs.readFileSync(path.resolve(cwd, file), 'utf8')
+        ).toDatFile();
+        const result = new ScriptInterpreter(datFile, options.simulation).run(scenario);
+
+        const outcome = result.outcome?.result ?? 'none';
+        if (options.expect && outcome !== options.expect) {
+          process.stderr.write(
+            `manic-simulate: ${file}: expected ${options.expect}, got ${outcome}\n`
+          );
+          failed = true;
+        }
+
+        if (options.format === 'json') {
+          reports.push({ file, ...result });
+        } else {
+          write(
+            files.length > 1 ? `${file}\n${formatSimulation(result)}` : formatSimulation(result)
+          );
+        }
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        process.stderr.write(`manic-simulate: ${file}: ${errorMessage}\n`);
+        failed = true;
+      }
+    }
+
+    if (options.format === 'json') {
+      write(JSON.stringify(reports, null, 2));
+    }
+    return failed ? EXIT_FAILED : EXIT_SIMULATED;
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    process.stderr.write(`manic-simulate: ${errorMessage}\n`);
+    if (error instanceof UsageError) {
+      process.stderr.write('Run manic-simulate --help for usage\n');
+    }
+    return EXIT_USAGE;
+  }
+}
+
+function parseArgs(argv: string[]): CliOptions {
+  const options: CliOptions = { format: 'text', simulation: {}, patterns: [], help: false };
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    const [flag, inlineValue] = arg.startsWith('--') ? splitOnce(arg, '=') : [arg, undefined];
+    const value = () => {
+      const next = inlineValue ?? argv[++i];
+      if (next === undefined) {
+        throw new UsageError(`${flag} needs a value`);
+      }
+      return next;
+    };
+
+    switch (flag) {
+      case '--help':
+      case '-h':
+        options.help = true;
+        break;
+      case '--scenario':
+        options.scenario = value();
+        break;
+      case '--duration':
+        options.simulation.duration = parseWholeNumber(flag, value());
+        break;
+      case '--seed':
+        options.simulation.seed = parseWholeNumber(flag, value());
+        break;
+      case '--expect': {
+        const expected = value();
+        if (expected !== 'win' && expected !== 'lose' && expected !== 'none') {
+          throw new UsageError(`Unknown outcome '${expected}'. Use win, lose or none`);
+        }
+        options.expect = expected;
+        break;
+      }
+      case '--format': {
+        const format = value();
+        if (format !== 'text' && format !== 'json') {
+          throw new UsageError(`Unknown format '${format}'. Use text or json`);
+        }
+        options.format = format;
+        break;
+      }
+      default:
+        if (arg.startsWith('-')) {
+          throw new UsageError(`Unknown option '${arg}'`);
+        }
+        options.patterns.push(arg);
+    }
+  }
+  return options;
+}
+
+function parseWholeNumber(flag: string, text: string): number {
+  const number = Number(text);
+  if (!Number.isInteger(number) || number < 0) {
+    throw new UsageError(`${flag} must be a whole number, got '${text}'`);
+  }
+  return number;
+}
+
+function splitOnce(text: string, separator: string): [string, string | undefined] {
+  const index = text.indexOf(separator);
+  return index === -1 ? [text, undefined] : [text.slice(0, index), text.slice(index + 1)];
+}
+
+if (require.main === module) {
+  main(process.argv.slice(2)).then(code => {
+    process.exitCode = code;
+  });
+}
@@ -0,0 +1,51 @@
+import * as vscode from 'vscode';
+import {
+  LanguageClient,
+  LanguageClientOptions,
+  ServerOptions,
+  TransportKind,
+} from 'vscode-languageclient/node';
+import { VALIDATION_INFO_NOTIFICATION, ValidationInfoParams } from '../server/protocol';
+
+/**
+ * Start the .dat language server and connect the editor to it. The server
+ * provides completion, hover, definition, references and diagnostics.
+ */
+export async function startLanguageClient(
+  context: vscode.ExtensionContext
+): Promise<LanguageClient> {
+  const serverModule = context.asAbsolutePath('out/server/server.js');
+  const serverOptions: ServerOptions = {
+    run: { module: serverModule, transport: TransportKind.ipc },
+    debug: {
+      module: serverModule,
+      transport: TransportKind.ipc,
+      options: { execArgv: ['--nolazy', '--inspect=6009'] },
+    },
+  };
+
+  const clientOptions: LanguageClientOptions = {
+    documentSelector: [{ scheme: 'file', language: 'manicminers' }],
+    // Tile hovers embed images as HTML
+    markdown: { isTrusted: true, supportHtml: true },
+  };
+
+  const client = new LanguageClient(
+    'manicMinersLanguageServer',
+    'Manic Miners Language Server',
+    serverOptions,
+    clientOptions
+  );
+
+  await client.start();
+
+  context.subscriptions.push(
+    client.onNotification(VALIDATION_INFO_NOTIFICATION, (params: ValidationInfoParams) => {
+      if (vscode.window.activeTextEditor?.document.uri.toString() === params.uri) {
+        vscode.window.setStatusBarMessage(params.message, 5000);
+      }
+    })
+  );
+
+  return client;
+}
@@ -0,0 +1,88 @@
+import * as vscode from 'vscode';
+import {
+  CompletionItem,
+  Diagnostic,
+  Hover,
+  InsertTextFormat,
+  Location,
+  MarkupContent,
+  Range,
+} from 'vscode-languageserver';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+
+/**
+ * Converters between the language server's protocol types and the vscode
+ * API, for the providers that run the server's features in the extension
+ * host when the language server is turned off
+ */
+
+export function toServerDocument(document: vscode.TextDocument): TextDocument {
+  return TextDocument.create(
+    document.uri.toString(),
+    document.languageId,
+    document.version ?? 0,
+    document.getText()
+  );
+}
+
+export function asRange(range: Range): vscode.Range {
+  return new vscode.Range(
+    new vscode.Position(range.start.line, range.start.character),
+    new vscode.Position(range.end.line, range.end.character)
+  );
+}
+
+export function asMarkdown(content: MarkupContent | string): vscode.MarkdownString {
+  const markdown = new vscode.MarkdownString(typeof content === 'string' ? content : content.value);
+  // Tile hovers embed images as HTML
+  markdown.supportHtml = true;
+  markdown.isTrusted = true;
+  return markdown;
+}
+
+export function asCompletionItem(item: CompletionItem): vscode.CompletionItem {
+  // Protocol kinds count from 1, vscode's from 0
+  const completionItem = new vscode.CompletionItem(
+    item.label,
+    item.kind !== undefined ? ((item.kind - 1) as vscode.CompletionItemKind) : undefined
+  );
+  if (item.insertText !== undefined) {
+    completionItem.insertText =
+      item.insertTextFormat === InsertTextFormat.Snippet
+        ? new vscode.SnippetString(item.insertText)
+        : item.insertText;
+  }
+  if (item.detail !== undefined) {
+    completionItem.detail = item.detail;
+  }
+  if (item.documentation !== undefined) {
+    completionItem.documentation = asMarkdown(item.documentation);
+  }
+  if (item.sortText !== undefined) {
+    completionItem.sortText = item.sortText;
+  }
+  return completionItem;
+}
+
+export function asHover(hover: Hover): vscode.Hover {
+  return new vscode.Hover(asMarkdown(hover.contents as MarkupContent));
+}
+
+// Server features only return locations in the document asked about
+export function asLocation(location: Location, uri: vscode.Uri): vscode.Location {
+  return new vscode.Location(uri, asRange(location.range));
+}
+
+export function asDiagnostic(diagnostic: Diagnostic): vscode.Diagnostic {
+  const result = new vscode.Diagnostic(
+    asRange(diagnostic.range),
+    diagnostic.message,
+    // Protocol severities count from 1, vscode's from 0
+    diagnostic.severity !== undefined
+      ? ((diagnostic.severity - 1) as vscode.DiagnosticSeverity)
+      : undefined
+  );
+  result.source = diagnostic.source;
+  result.code = diagnostic.code;
+  return result;
+}
@@ -0,0 +1,129 @@
+import * as vscode from 'vscode';
+import { DatCstParser } from './parser/datCstParser';
+import { getBranchEvent } from './parser/scriptParser';
+import { getScriptSymbols } from './parser/scriptSymbols';
+import { SourceRange } from './types/datCstTypes';
+import { TriggerNode } from './types/scriptAstTypes';
+
+export interface MapTile {
+  row: number;
+  col: number;
+}
+
+/**
+ * Lens over an event chain or a trigger
+ */
+export type DatCodeLens =
+  | { kind: 'references'; range: SourceRange; name: string; references: SourceRange[] }
+  | { kind: 'preview'; range: SourceRange; tiles: MapTile[] };
+
+/**
+ * Reference counts above event chains, and 'Preview on map' above triggers
+ * bound to tiles and the chains those triggers call
+ */
+export function getDatCodeLenses(text: string): DatCodeLens[] {
+  const parser = new DatCstParser(text);
+  const script = parser.toDatFile().script;
+  if (!script) {
+    return [];
+  }
+
+  const lenses: DatCodeLens[] = [];
+  const symbols = getScriptSymbols(parser);
+  const calledTiles = new Map<string, MapTile[]>();
+
+  for (const item of script.items) {
+    if (item.kind !== 'trigger') {
+      continue;
+    }
+    const tile = getTriggerTile(item);
+    if (!tile) {
+      continue;
+    }
+    lenses.push({ kind: 'preview', range: item.range, tiles: [tile] });
+    for (const event of [getBranchEvent(item.trueBranch), getBranchEvent(item.falseBranch)]) {
+      if (event) {
+        calledTiles.set(event.name, [...(calledTiles.get(event.name) || []), tile]);
+      }
+    }
+  }
+
+  for (const item of script.items) {
+    if (item.kind !== 'eventChain') {
+      continue;
+    }
+    const name = item.name.name;
+    const references =
+      symbols
+        .get(name)
+        ?.occurrences.filter(
+          occurrence =>
+            occurrence.start.line !== item.name.range.start.line ||
+            occurrence.start.column !== item.name.range.start.column
+        ) || [];
+    lenses.push({ kind: 'references', range: item.range, name, references });
+    const tiles = calledTiles.get(name);
+    if (tiles) {
+      lenses.push({ kind: 'preview', range: item.range, tiles });
+    }
+  }
+
+  return lenses.sort((a, b) => a.range.start.line - b.range.start.line);
+}
+
+export class DatCodeLensProvider implements vscode.CodeLensProvider {
+  provideCodeLenses(
+    document: vscode.TextDocument,
+    _token: vscode.CancellationToken
+  ): vscode.ProviderResult<vscode.CodeLens[]> {
+    return getDatCodeLenses(document.getText()).map(lens => {
+      const range = toRange(lens.range);
+      if (lens.kind === 'preview') {
+        const [first] = lens.tiles;
+        return new vscode.CodeLens(range, {
+          title: 'Preview on map',
+          command: 'manicMiners.previewTilesOnMap',
+          tooltip:
+            lens.tiles.length === 1
+              ? `Show tile ${first.row},${first.col} on the map preview`
+              : `Show ${lens.tiles.length} tiles on the map preview`,
+          arguments: [document.uri, lens.tiles],
+        });
+      }
+
+      const count = lens.references.length;
+      return new vscode.CodeLens(range, {
+        title: `${count} reference${count === 1 ? '' : 's'}`,
+        command: count > 0 ? 'editor.action.showReferences' : '',
+        tooltip: `Places that call ${lens.name}`,
+        arguments: [
+          document.uri,
+          range.start,
+          lens.references.map(reference => new vscode.Location(document.uri, toRange(reference))),
+        ],
+      });
+    });
+  }
+}
+
+/**
+ * The tile a trigger watches: events such as 'enter:5,5' and 'drill:3,7'
+ * start with its row and column
+ */
+function getTriggerTile(trigger: TriggerNode): MapTile | undefined {
+  if (trigger.event.kind !== 'triggerEvent') {
+    return undefined;
+  }
+  const [row, col] = trigger.event.arguments;
+  if (row?.kind !== 'number' || col?.kind !== 'number') {
+    return undefined;
+  }
+  return { row: row.value, col: col.value };
+}
+
+function toRange(range: SourceRange): vscode.Range {
+  return new vscode.Range(
+    new vscode.Position(range.start.line, range.start.column),
+    new vscode.Position(range.end.line, range.end.column)
+  );
+}
@@ -1,6 +1,7 @@
 import { describe, expect, it, beforeEach } from '@jest/globals';
 import * as vscode from 'vscode';
 import { DatCompletionItemProvider } from './completionItemProvider';
+import { getDrillTimeForTile } from './server/completion';
 
 // Access the mocked classes
 const TextDocument = (vscode as any).TextDocument;
@@ -204,8 +205,7 @@ describe('DatCompletionItemProvider - Enhanced Features', () => {
 
   describe('getDrillTimeForTile', () => {
     it('should calculate correct drill times', () => {
-      // Use private method accessor (for testing only)
-      const getDrillTime = (provider as any).getDrillTimeForTile.bind(provider);
+      const getDrillTime = getDrillTimeForTile;
 
       // Dirt walls
       expect(getDrillTime(26)).toBe('3s');
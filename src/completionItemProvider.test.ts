@@ -79,6 +79,20 @@ describe('DatCompletionItemProvider', () => {
       expect(labels).toContain('oxygen');
     });
 
+    it('should suggest declared timers and event chains in the script block', () => {
+      const document = new TextDocument(
+        'script{\ntimer Wave=30\nint Count=0\nwhen(init)[\n\nStart::\nstarttimer:\n}',
+        'manicminers'
+      );
+
+      const events = provider.provideCompletionItems(document, new vscode.Position(3, 11));
+      expect(events.map(item => item.label)).toContain('Start');
+
+      const timers = provider.provideCompletionItems(document, new vscode.Position(6, 11));
+      expect(timers.map(item => item.label)).toContain('Wave');
+      expect(timers.map(item => item.label)).not.toContain('Count');
+    });
+
     it('should handle info block with existing content', () => {
       const document = new TextDocument('info {\n  rowcount: 25\n  \n}', 'manicminers');
       const position = new vscode.Position(2, 2); // On empty line after existing content
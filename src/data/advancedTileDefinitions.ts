@@ -1072,23 +1072,36 @@ export function getHardnessName(hardness: Hardness): string {
   }
 }
 
+/**
+ * Approximate seconds a standard drill needs to clear a tile, by hardness.
+ * Hardness levels missing here cannot be drilled.
+ */
+export const DRILL_SECONDS: Partial<Record<Hardness, number>> = {
+  [Hardness.RUBBLE]: 2,
+  [Hardness.DIRT]: 5,
+  [Hardness.LOOSE]: 10,
+  [Hardness.SEAM]: 15,
+  [Hardness.HARD]: 20,
+};
+
 /**
  * Get drill time estimate based on hardness
  */
 export function getDrillTimeEstimate(hardness: Hardness): string {
+  const seconds = DRILL_SECONDS[hardness];
   switch (hardness) {
     case Hardness.NONE:
       return 'Not drillable';
     case Hardness.RUBBLE:
-      return 'Very fast (~2s)';
+      return `Very fast (~${seconds}s)`;
     case Hardness.DIRT:
-      return 'Fast (~5s)';
+      return `Fast (~${seconds}s)`;
     case Hardness.LOOSE:
-      return 'Moderate (~10s)';
+      return `Moderate (~${seconds}s)`;
     case Hardness.SEAM:
-      return 'Slow (~15s)';
+      return `Slow (~${seconds}s)`;
     case Hardness.HARD:
-      return 'Very slow (~20s)';
+      return `Very slow (~${seconds}s)`;
     case Hardness.SOLID:
       return 'Cannot be drilled';
     default:
@@ -1,8 +1,17 @@
 import * as vscode from 'vscode';
+import { LanguageClient } from 'vscode-languageclient/node';
+import { startLanguageClient } from './client/languageClient';
 import { DatCompletionItemProvider } from './completionItemProvider';
 import { DatHoverProvider } from './hoverProvider';
 import { DatDefinitionProvider } from './definitionProvider';
 import { DatReferenceProvider } from './referenceProvider';
+import { DatRenameProvider } from './renameProvider';
+import { DatFormattingProvider } from './formattingProvider';
+import { DatSemanticTokensProvider } from './semanticTokensProvider';
+import { DatInlayHintsProvider } from './inlayHintsProvider';
+import { DatCodeLensProvider, MapTile } from './codeLensProvider';
+import { DatSignatureHelpProvider } from './signatureHelpProvider';
+import { DatDocumentSymbolProvider, DatWorkspaceSymbolProvider } from './symbolProvider';
 import { MapPreviewProvider } from './mapPreview/mapPreviewProvider';
 import {
   QuickActionsProvider,
@@ -29,13 +38,17 @@ import { AccessibleMapPreviewProvider } from './accessibility/accessibleMapPrevi
 import { registerAccessibilityCommands } from './accessibility/accessibilityCommands';
 import { HeatMapProvider } from './heatmap/heatMapProvider';
 import { Terrain3DProvider } from './terrain3d/terrain3DProvider';
+import { registerTerrainMeshCommands } from './terrain3d/terrainMeshCommands';
 import { registerLevelGeneratorCommands } from './levelGenerators/levelGeneratorProvider';
+import { registerMapRendererCommands } from './mapRenderer/mapRendererCommands';
+import { registerScriptSimulatorCommands } from './scriptSimulator/scriptSimulatorCommands';
 import { WelcomePageProvider } from './welcomePage';
 // Import package metadata for welcome/version tracking
 import { registerScriptPatternCommands } from './commands/scriptPatternCommands';
 import { registerMapEditorCommands } from './mapEditor/mapEditorCommands';
 import { MapEditorProvider } from './mapEditor/mapEditorProvider';
 import { EnhancedMapEditorProvider } from './mapEditor/enhancedMapEditor.js';
+import { BlocksEditorProvider } from './blocksEditor/blocksEditorProvider';
 import { MapsExplorerProvider } from './views/mapsExplorerProvider';
 import { TilePaletteProvider } from './views/tilePaletteProvider';
 import { ScriptSnippetsProvider } from './views/scriptSnippetsProvider';
@@ -51,6 +64,8 @@ import { WorkspaceKeyboardShortcuts } from './workspace/keyboardShortcuts.js';
 import { registerContextMenuCommands } from './contextMenus/contextMenuCommands';
 import { registerDocumentationCommands } from './documentation/docCommands.js';
 
+let client: LanguageClient | undefined;
+
 export async function activate(context: vscode.ExtensionContext) {
   // Store context globally for accessibility manager
   (global as unknown as Record<string, vscode.ExtensionContext>).extensionContext = context;
@@ -181,34 +196,120 @@ script{
     mapPreviewProvider.updateDocument(vscode.window.activeTextEditor.document);
   }
 
-  const completionItemProvider = vscode.languages.registerCompletionItemProvider(
-    { scheme: 'file', language: 'manicminers' },
-    new DatCompletionItemProvider(),
-    ...[' ']
+  // Select tiles on the map preview, from the 'Preview on map' code lens
+  context.subscriptions.push(
+    vscode.commands.registerCommand(
+      'manicMiners.previewTilesOnMap',
+      async (uri?: vscode.Uri, tiles?: MapTile[]) => {
+        if (!uri || !tiles) {
+          return;
+        }
+        try {
+          const document = await vscode.workspace.openTextDocument(uri);
+          await vscode.commands.executeCommand('manicMiners.mapPreview.focus');
+          mapPreviewProvider.revealTiles(document, tiles);
+        } catch (error) {
+          const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+          vscode.window.showErrorMessage(`Failed to preview tiles: ${errorMessage}`);
+        }
+      }
+    )
   );
 
-  context.subscriptions.push(completionItemProvider);
+  // Completion, hover, definition, references and diagnostics come from the
+  // language server, or from the same code in the extension host when the
+  // server is turned off or fails to start
+  if (vscode.workspace.getConfiguration('manicMiners.languageServer').get('enabled') !== false) {
+    try {
+      client = await startLanguageClient(context);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      vscode.window.showErrorMessage(`Failed to start the language server: ${errorMessage}`);
+    }
+  }
+
+  if (!client) {
+    const completionItemProvider = vscode.languages.registerCompletionItemProvider(
+      { scheme: 'file', language: 'manicminers' },
+      new DatCompletionItemProvider(),
+      ...[' ']
+    );
 
-  const hoverProvider = vscode.languages.registerHoverProvider(
+    context.subscriptions.push(completionItemProvider);
+
+    const hoverProvider = vscode.languages.registerHoverProvider(
+      { scheme: 'file', language: 'manicminers' },
+      new DatHoverProvider(context.extensionPath)
+    );
+
+    context.subscriptions.push(hoverProvider);
+
+    const definitionProvider = vscode.languages.registerDefinitionProvider(
+      { scheme: 'file', language: 'manicminers' },
+      new DatDefinitionProvider()
+    );
+
+    context.subscriptions.push(definitionProvider);
+
+    const referenceProvider = vscode.languages.registerReferenceProvider(
+      { scheme: 'file', language: 'manicminers' },
+      new DatReferenceProvider()
+    );
+
+    context.subscriptions.push(referenceProvider);
+
+    MapDiagnosticProvider.register(context);
+  }
+
+  const renameProvider = vscode.languages.registerRenameProvider(
     { scheme: 'file', language: 'manicminers' },
-    new DatHoverProvider(context.extensionPath)
+    new DatRenameProvider()
   );
 
-  context.subscriptions.push(hoverProvider);
+  context.subscriptions.push(renameProvider);
 
-  const definitionProvider = vscode.languages.registerDefinitionProvider(
+  const documentSymbolProvider = vscode.languages.registerDocumentSymbolProvider(
     { scheme: 'file', language: 'manicminers' },
-    new DatDefinitionProvider()
+    new DatDocumentSymbolProvider()
   );
 
-  context.subscriptions.push(definitionProvider);
+  context.subscriptions.push(documentSymbolProvider);
 
-  const referenceProvider = vscode.languages.registerReferenceProvider(
-    { scheme: 'file', language: 'manicminers' },
-    new DatReferenceProvider()
+  // Symbol search across every level in the workspace
+  new DatWorkspaceSymbolProvider().register(context);
+
+  const formattingProvider = new DatFormattingProvider();
+  context.subscriptions.push(
+    vscode.languages.registerDocumentFormattingEditProvider(
+      { scheme: 'file', language: 'manicminers' },
+      formattingProvider
+    ),
+    vscode.languages.registerDocumentRangeFormattingEditProvider(
+      { scheme: 'file', language: 'manicminers' },
+      formattingProvider
+    )
   );
 
-  context.subscriptions.push(referenceProvider);
+  // Script names and tile IDs colored by what they are
+  new DatSemanticTokensProvider().register(context);
+
+  context.subscriptions.push(
+    vscode.languages.registerInlayHintsProvider(
+      { scheme: 'file', language: 'manicminers' },
+      new DatInlayHintsProvider()
+    ),
+    vscode.languages.registerCodeLensProvider(
+      { scheme: 'file', language: 'manicminers' },
+      new DatCodeLensProvider()
+    ),
+    // Parameter hints for script commands and block lines, again after each comma
+    vscode.languages.registerSignatureHelpProvider(
+      { scheme: 'file', language: 'manicminers' },
+      new DatSignatureHelpProvider(),
+      ':',
+      ','
+    )
+  );
 
   // Create tile sets manager
   const tileSetsManager = new CustomTileSetsManager(context);
@@ -237,7 +338,6 @@ script{
   registerMapTemplateCommands(context);
 
   // Register Map Validation
-  MapDiagnosticProvider.register(context);
   registerValidationCommands(context);
 
   // Register Auto-Fix Provider
@@ -275,6 +375,9 @@ script{
   // Register Enhanced Map Editor Provider
   context.subscriptions.push(EnhancedMapEditorProvider.register(context));
 
+  // Register Visual Blocks Editor Provider
+  context.subscriptions.push(BlocksEditorProvider.register(context));
+
   // Register Objective Builder Provider
   const objectiveBuilderProvider = new ObjectiveBuilderProvider(context.extensionUri);
   context.subscriptions.push(
@@ -291,11 +394,7 @@ script{
   const versionControl = new MapVersionControl(context);
 
   // Register Map Diff Provider
-  const mapDiffProvider = new MapDiffProvider(
-    context.extensionUri,
-    hash => versionControl.getVersion(hash),
-    (from, to) => versionControl.getDiff(from, to)
-  );
+  const mapDiffProvider = new MapDiffProvider(context.extensionUri);
 
   context.subscriptions.push(
     vscode.window.registerWebviewViewProvider('manicMiners.mapDiff', mapDiffProvider)
@@ -310,6 +409,9 @@ script{
   // Register Level Generator Commands
   registerLevelGeneratorCommands(context);
 
+  // Register Map Image Export Commands
+  registerMapRendererCommands(context);
+
   // Register Heat Map Provider
   const heatMapProvider = new HeatMapProvider(context.extensionUri);
   context.subscriptions.push(
@@ -363,12 +465,33 @@ script{
     })
   );
 
+  // Custom editors such as the map editor have no text editor, so match their tab instead
+  const isActiveCustomEditorDocument = (document: vscode.TextDocument) => {
+    const input = vscode.window.tabGroups.activeTabGroup.activeTab?.input;
+    return (
+      input instanceof vscode.TabInputCustom && input.uri.toString() === document.uri.toString()
+    );
+  };
+
+  // Follow the map editors so the 3D terrain shows the map being edited
+  context.subscriptions.push(
+    vscode.window.tabGroups.onDidChangeTabs(() => {
+      const document = vscode.workspace.textDocuments.find(
+        doc => doc.languageId === 'manicminers' && isActiveCustomEditorDocument(doc)
+      );
+      if (document) {
+        terrain3DProvider.updateDocument(document);
+      }
+    })
+  );
+
   // Update 3D terrain when document changes
   context.subscriptions.push(
     vscode.workspace.onDidChangeTextDocument(e => {
       if (
         e.document.languageId === 'manicminers' &&
-        e.document === vscode.window.activeTextEditor?.document
+        (e.document === vscode.window.activeTextEditor?.document ||
+          isActiveCustomEditorDocument(e.document))
       ) {
         terrain3DProvider.updateDocument(e.document);
       }
@@ -386,6 +509,12 @@ script{
   });
   context.subscriptions.push(show3DTerrainCommand);
 
+  // Register Terrain Mesh Export Commands
+  registerTerrainMeshCommands(context);
+
+  // Register Script Simulation Commands
+  registerScriptSimulatorCommands(context);
+
   // Register Dashboard Provider
   context.subscriptions.push(DashboardProvider.register(context));
 
@@ -718,4 +847,6 @@ script{
   );
 }
 
-export function deactivate() {}
+export function deactivate(): Thenable<void> | undefined {
+  return client?.stop();
+}
@@ -0,0 +1,71 @@
+import * as vscode from 'vscode';
+import {
+  DatFormatOptions,
+  DEFAULT_FORMAT_OPTIONS,
+  formatDatText,
+  getDatFormatEdits,
+} from './parser/datFormatter';
+
+/**
+ * Format whole documents, including on save when 'editor.formatOnSave' is
+ * on, or just the sections a selection touches
+ */
+export class DatFormattingProvider
+  implements vscode.DocumentFormattingEditProvider, vscode.DocumentRangeFormattingEditProvider
+{
+  provideDocumentFormattingEdits(
+    document: vscode.TextDocument,
+    _options: vscode.FormattingOptions,
+    _token: vscode.CancellationToken
+  ): vscode.ProviderResult<vscode.TextEdit[]> {
+    const text = document.getText();
+    const formatted = formatDatText(text, getFormatOptions());
+    if (formatted === text) {
+      return [];
+    }
+
+    const lines = text.split(/\r?\n/);
+    const lastLine = lines.length - 1;
+    return [
+      vscode.TextEdit.replace(
+        new vscode.Range(
+          new vscode.Position(0, 0),
+          new vscode.Position(lastLine, lines[lastLine].length)
+        ),
+        formatted
+      ),
+    ];
+  }
+
+  provideDocumentRangeFormattingEdits(
+    document: vscode.TextDocument,
+    range: vscode.Range,
+    _options: vscode.FormattingOptions,
+    _token: vscode.CancellationToken
+  ): vscode.ProviderResult<vscode.TextEdit[]> {
+    const text = document.getText();
+    const lines = text.split(/\r?\n/);
+    const eol = text.includes('\r\n') ? '\r\n' : '\n';
+
+    return getDatFormatEdits(text, range.start.line, range.end.line, getFormatOptions()).map(edit =>
+      vscode.TextEdit.replace(
+        new vscode.Range(
+          new vscode.Position(edit.startLine, 0),
+          new vscode.Position(edit.endLine, lines[edit.endLine].length)
+        ),
+        edit.lines.join(eol)
+      )
+    );
+  }
+}
+
+function getFormatOptions(): DatFormatOptions {
+  const config = vscode.workspace.getConfiguration('manicMiners.format');
+  const infoKeyOrder = config.get<string[]>('infoKeyOrder');
+  return {
+    infoKeyOrder:
+      Array.isArray(infoKeyOrder) && infoKeyOrder.length > 0
+        ? infoKeyOrder
+        : DEFAULT_FORMAT_OPTIONS.infoKeyOrder,
+  };
+}
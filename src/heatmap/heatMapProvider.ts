@@ -1,6 +1,9 @@
 import * as vscode from 'vscode';
 import { PathfindingAnalyzer, HeatMapData } from './pathfindingAnalyzer';
+import { MOVEMENT_PROFILES } from './movementProfiles';
 import { HeatMapRenderer } from './heatMapRenderer';
+import { renderMapPng } from '../mapRenderer/mapRenderer';
+import { DatCstParser } from '../parser/datCstParser';
 
 export class HeatMapProvider implements vscode.WebviewViewProvider {
   public static readonly viewType = 'manicMiners.heatMap';
@@ -10,6 +13,7 @@ export class HeatMapProvider implements vscode.WebviewViewProvider {
   private analyzer: PathfindingAnalyzer;
   private currentHeatMap?: HeatMapData;
   private currentMode: 'traffic' | 'accessibility' | 'chokepoint' = 'traffic';
+  private currentColorScheme = 'traffic';
 
   constructor(private readonly _extensionUri: vscode.Uri) {
     this.analyzer = new PathfindingAnalyzer();
@@ -39,7 +43,12 @@ export class HeatMapProvider implements vscode.WebviewViewProvider {
           this.currentMode = data.mode;
           this.updateHeatMap();
           break;
+        case 'changeProfile':
+          this.analyzer.setProfile(data.profile);
+          this.updateHeatMap();
+          break;
         case 'changeColorScheme':
+          this.currentColorScheme = data.colorScheme;
           this._view?.webview.postMessage({
             type: 'updateColorScheme',
             colorScheme: data.colorScheme,
@@ -115,7 +124,7 @@ export class HeatMapProvider implements vscode.WebviewViewProvider {
   }
 
   private async exportHeatMap() {
-    if (!this.currentHeatMap) {
+    if (!this.currentHeatMap || !this._currentDocument) {
       vscode.window.showErrorMessage('No heat map to export');
       return;
     }
@@ -128,10 +137,18 @@ export class HeatMapProvider implements vscode.WebviewViewProvider {
     });
 
     if (uri) {
-      this._view?.webview.postMessage({
-        type: 'exportToFile',
-        path: uri.fsPath,
-      });
+      try {
+        // Draw the heat map over the level's tiles, as the panel shows it
+        const datFile = new DatCstParser(this._currentDocument.getText()).toDatFile();
+        const png = renderMapPng(datFile, {
+          heatMap: { data: this.currentHeatMap, colorScheme: this.currentColorScheme },
+        });
+        await vscode.workspace.fs.writeFile(uri, png);
+        vscode.window.showInformationMessage('Heat map exported successfully');
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        vscode.window.showErrorMessage(`Failed to export heat map: ${errorMessage}`);
+      }
     }
   }
 
@@ -146,7 +163,7 @@ export class HeatMapProvider implements vscode.WebviewViewProvider {
     // Create output channel
     const channel = vscode.window.createOutputChannel('Heat Map Statistics');
     channel.clear();
-    channel.append(stats);
+    channel.append(`Unit: ${this.analyzer.getProfile().name}\n\n${stats}`);
     channel.show();
   }
 
@@ -195,6 +212,18 @@ export class HeatMapProvider implements vscode.WebviewViewProvider {
     const styleUri = webview.asWebviewUri(
       vscode.Uri.joinPath(this._extensionUri, 'media', 'heatMap.css')
     );
+    const currentProfile = this.analyzer.getProfile().id;
+    const profileGroups = ['Miners', 'Vehicles', 'Creatures']
+      .map(group => {
+        const options = MOVEMENT_PROFILES.filter(profile => profile.group === group)
+          .map(
+            profile =>
+              `<option value="${profile.id}"${profile.id === currentProfile ? ' selected' : ''}>${profile.name}</option>`
+          )
+          .join('');
+        return `<optgroup label="${group}">${options}</optgroup>`;
+      })
+      .join('');
 
     return `<!DOCTYPE html>
       <html lang="en">
@@ -215,6 +244,11 @@ export class HeatMapProvider implements vscode.WebviewViewProvider {
                 <option value="chokepoint">Chokepoints</option>
               </select>
             </div>
+
+            <div class="mode-selector">
+              <label>Unit:</label>
+              <select id="profileSelect">${profileGroups}</select>
+            </div>
             
             <div class="color-scheme-selector">
               <label>Colors:</label>
@@ -0,0 +1,94 @@
+import { describe, expect, it } from '@jest/globals';
+import { DRILL_SECONDS, getDrillTimeEstimate, Hardness } from '../data/advancedTileDefinitions';
+import { CreatureType, VehicleType } from '../types/datFileTypes';
+import {
+  describeDrilledTiles,
+  getMovementProfile,
+  getTileMovementCost,
+  getTileTerrain,
+  MOVEMENT_PROFILES,
+} from './movementProfiles';
+
+describe('movementProfiles', () => {
+  describe('MOVEMENT_PROFILES', () => {
+    it('should have a profile for every vehicle and creature', () => {
+      const ids = MOVEMENT_PROFILES.map(profile => profile.id);
+
+      for (const type of [...Object.values(VehicleType), ...Object.values(CreatureType)]) {
+        expect(ids).toContain(type);
+      }
+      expect(new Set(ids).size).toBe(ids.length);
+    });
+
+    it('should fall back to a miner on foot', () => {
+      expect(getMovementProfile(VehicleType.HoverScout).name).toBe('Hover Scout');
+      expect(getMovementProfile('unknown').id).toBe('miner');
+      expect(getMovementProfile(undefined).id).toBe('miner');
+    });
+  });
+
+  describe('getTileTerrain', () => {
+    it('should classify tiles from their definitions', () => {
+      expect(getTileTerrain(1).kind).toBe('floor');
+      expect(getTileTerrain(14).kind).toBe('floor');
+      expect(getTileTerrain(2).kind).toBe('rubble');
+      expect(getTileTerrain(11).kind).toBe('water');
+      expect(getTileTerrain(6).kind).toBe('lava');
+      expect(getTileTerrain(34)).toEqual({ kind: 'drillable', hardness: Hardness.HARD });
+      expect(getTileTerrain(38).kind).toBe('solid');
+      expect(getTileTerrain(40).kind).toBe('solid');
+    });
+  });
+
+  describe('getTileMovementCost', () => {
+    it('should only let miners on foot walk', () => {
+      const miner = getMovementProfile('miner');
+
+      expect(getTileMovementCost(miner, 1)).toBe(1);
+      expect(getTileMovementCost(miner, 2)).toBeGreaterThan(1);
+      expect(getTileMovementCost(miner, 11)).toBeUndefined();
+      expect(getTileMovementCost(miner, 26)).toBeUndefined();
+    });
+
+    it('should weight drilling by hardness and drill speed', () => {
+      const miner = getMovementProfile('drillingMiner');
+      const crusher = getMovementProfile(VehicleType.ChromeCrusher);
+      const digger = getMovementProfile(VehicleType.SmallDigger);
+
+      expect(getTileMovementCost(miner, 26)).toBeLessThan(getTileMovementCost(miner, 34)!);
+      expect(getTileMovementCost(crusher, 34)).toBeLessThan(getTileMovementCost(miner, 34)!);
+      expect(getTileMovementCost(digger, 26)).toBeDefined();
+      expect(getTileMovementCost(digger, 34)).toBeUndefined();
+      expect(getTileMovementCost(miner, 38)).toBeUndefined();
+    });
+
+    it('should take drill times from the same table as tile hovers', () => {
+      const miner = getMovementProfile('drillingMiner');
+
+      expect(getTileMovementCost(miner, 34)).toBe(1 + DRILL_SECONDS[Hardness.HARD]!);
+      expect(getDrillTimeEstimate(Hardness.HARD)).toBe(
+        `Very slow (~${DRILL_SECONDS[Hardness.HARD]}s)`
+      );
+    });
+
+    it('should keep boats on water and let hover units cross fluids', () => {
+      const carrier = getMovementProfile(VehicleType.CargoCarrier);
+      const hover = getMovementProfile(VehicleType.HoverScout);
+      const lavaMonster = getMovementProfile(CreatureType.LavaMonster);
+
+      expect(getTileMovementCost(carrier, 11)).toBe(1);
+      expect(getTileMovementCost(carrier, 1)).toBeUndefined();
+      expect(getTileMovementCost(hover, 6)).toBe(1);
+      expect(getTileMovementCost(lavaMonster, 6)).toBe(1);
+      expect(getTileMovementCost(lavaMonster, 11)).toBeUndefined();
+    });
+  });
+
+  describe('describeDrilledTiles', () => {
+    it('should count drilled tiles by hardness', () => {
+      expect(describeDrilledTiles([101, 34, 1, 34])).toBe('2 tiles of hard rock');
+      expect(describeDrilledTiles([34, 26, 1])).toBe('1 tile of dirt and 1 tile of hard rock');
+      expect(describeDrilledTiles([1, 2])).toBe('');
+    });
+  });
+});
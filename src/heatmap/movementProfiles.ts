@@ -0,0 +1,187 @@
+import {
+  DRILL_SECONDS,
+  getAdvancedTileInfo,
+  getHardnessName,
+  Hardness,
+} from '../data/advancedTileDefinitions';
+import { CreatureType, VehicleType } from '../types/datFileTypes';
+
+/**
+ * How a kind of unit gets around the map
+ */
+export interface MovementProfile {
+  id: string;
+  name: string;
+  group: 'Miners' | 'Vehicles' | 'Creatures';
+  // Floor tiles, including rubble
+  land: boolean;
+  water: boolean;
+  lava: boolean;
+  // Hardest rock the unit can drill through; Hardness.NONE for none
+  drillHardness: Hardness;
+  // Drill time is divided by this
+  drillSpeed: number;
+}
+
+export type TerrainKind = 'floor' | 'rubble' | 'water' | 'lava' | 'drillable' | 'solid';
+
+export interface TileTerrain {
+  kind: TerrainKind;
+  hardness: Hardness;
+}
+
+// Costs are roughly seconds: crossing a tile takes one, drilling adds the drill time
+const MOVE_COST = 1;
+const RUBBLE_COST = 3;
+
+// Tiles without an advanced definition that units can still walk on: power paths
+const WALKABLE_WITHOUT_DEFINITION = [
+  [14, 25],
+  [101, 101],
+  [114, 115],
+];
+
+const walker = (id: string, name: string, group: MovementProfile['group']): MovementProfile => ({
+  id,
+  name,
+  group,
+  land: true,
+  water: false,
+  lava: false,
+  drillHardness: Hardness.NONE,
+  drillSpeed: 1,
+});
+
+export const MOVEMENT_PROFILES: MovementProfile[] = [
+  walker('miner', 'Miner on foot', 'Miners'),
+  { ...walker('drillingMiner', 'Miner with drill', 'Miners'), drillHardness: Hardness.HARD },
+
+  walker(VehicleType.SmallTransportTruck, 'Small Transport Truck', 'Vehicles'),
+  {
+    ...walker(VehicleType.LMLC, 'Large Mobile Laser Cutter', 'Vehicles'),
+    drillHardness: Hardness.HARD,
+    drillSpeed: 2,
+  },
+  {
+    ...walker(VehicleType.SMLC, 'Small Mobile Laser Cutter', 'Vehicles'),
+    drillHardness: Hardness.SEAM,
+    drillSpeed: 1.5,
+  },
+  walker(VehicleType.LoaderDozer, 'Loader Dozer', 'Vehicles'),
+  {
+    ...walker(VehicleType.GraniteGrinder, 'Granite Grinder', 'Vehicles'),
+    drillHardness: Hardness.HARD,
+    drillSpeed: 2,
+  },
+  { ...walker(VehicleType.TunnelScout, 'Tunnel Scout', 'Vehicles'), water: true, lava: true },
+  {
+    ...walker(VehicleType.TunnelTransport, 'Tunnel Transport', 'Vehicles'),
+    water: true,
+    lava: true,
+  },
+  {
+    ...walker(VehicleType.ChromeCrusher, 'Chrome Crusher', 'Vehicles'),
+    drillHardness: Hardness.HARD,
+    drillSpeed: 3,
+  },
+  { ...walker(VehicleType.CargoCarrier, 'Cargo Carrier', 'Vehicles'), land: false, water: true },
+  {
+    ...walker(VehicleType.SmallDigger, 'Small Digger', 'Vehicles'),
+    drillHardness: Hardness.LOOSE,
+    drillSpeed: 1.5,
+  },
+  { ...walker(VehicleType.RapidRider, 'Rapid Rider', 'Vehicles'), land: false, water: true },
+  { ...walker(VehicleType.HoverScout, 'Hover Scout', 'Vehicles'), water: true, lava: true },
+
+  walker(CreatureType.RockMonster, 'Rock Monster', 'Creatures'),
+  { ...walker(CreatureType.LavaMonster, 'Lava Monster', 'Creatures'), lava: true },
+  walker(CreatureType.IceMonster, 'Ice Monster', 'Creatures'),
+  walker(CreatureType.SlimySlug, 'Slimy Slug', 'Creatures'),
+  walker(CreatureType.SmallSpider, 'Small Spider', 'Creatures'),
+  { ...walker(CreatureType.Bat, 'Bat', 'Creatures'), water: true, lava: true },
+];
+
+export const DEFAULT_MOVEMENT_PROFILE = MOVEMENT_PROFILES[0];
+
+/**
+ * Look up a profile by id, falling back to a miner on foot
+ */
+export function getMovementProfile(id: string | undefined): MovementProfile {
+  return MOVEMENT_PROFILES.find(profile => profile.id === id) ?? DEFAULT_MOVEMENT_PROFILE;
+}
+
+/**
+ * What a tile is to a moving unit, from its advanced tile definition
+ */
+export function getTileTerrain(tileId: number): TileTerrain {
+  const definition = getAdvancedTileInfo(tileId);
+  if (!definition) {
+    const walkable = WALKABLE_WITHOUT_DEFINITION.some(
+      ([min, max]) => tileId >= min && tileId <= max
+    );
+    return walkable
+      ? { kind: 'floor', hardness: Hardness.NONE }
+      : { kind: 'solid', hardness: Hardness.SOLID };
+  }
+
+  if (definition.isFluid) {
+    return { kind: definition.trigger === 'flood' ? 'water' : 'lava', hardness: Hardness.NONE };
+  }
+  if (definition.canWalk) {
+    return {
+      kind: definition.category === 'rubble' ? 'rubble' : 'floor',
+      hardness: definition.hardness,
+    };
+  }
+  if (definition.canDrill && definition.hardness < Hardness.SOLID) {
+    return { kind: 'drillable', hardness: definition.hardness };
+  }
+  return { kind: 'solid', hardness: Hardness.SOLID };
+}
+
+/**
+ * Cost for a unit to enter a tile, or undefined when it cannot
+ */
+export function getTileMovementCost(profile: MovementProfile, tileId: number): number | undefined {
+  const terrain = getTileTerrain(tileId);
+  switch (terrain.kind) {
+    case 'floor':
+      return profile.land ? MOVE_COST : undefined;
+    case 'rubble':
+      return profile.land ? RUBBLE_COST : undefined;
+    case 'water':
+      return profile.water ? MOVE_COST : undefined;
+    case 'lava':
+      return profile.lava ? MOVE_COST : undefined;
+    case 'drillable':
+      return profile.land && terrain.hardness <= profile.drillHardness
+        ? MOVE_COST + (DRILL_SECONDS[terrain.hardness] ?? 0) / profile.drillSpeed
+        : undefined;
+    case 'solid':
+      return undefined;
+  }
+}
+
+/**
+ * Describe the rock drilled along a path, e.g. "2 tiles of dirt and 1 tile
+ * of hard rock"; empty when nothing is drilled
+ */
+export function describeDrilledTiles(tileIds: number[]): string {
+  const counts = new Map<Hardness, number>();
+  for (const tileId of tileIds) {
+    const terrain = getTileTerrain(tileId);
+    if (terrain.kind === 'drillable') {
+      counts.set(terrain.hardness, (counts.get(terrain.hardness) ?? 0) + 1);
+    }
+  }
+
+  const parts = Array.from(counts.entries())
+    .sort(([a], [b]) => a - b)
+    .map(
+      ([hardness, count]) =>
+        `${count} tile${count === 1 ? '' : 's'} of ${getHardnessName(hardness).toLowerCase()}`
+    );
+  return parts.length > 1
+    ? `${parts.slice(0, -1).join(', ')} and ${parts[parts.length - 1]}`
+    : (parts[0] ?? '');
+}
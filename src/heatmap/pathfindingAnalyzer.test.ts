@@ -1,6 +1,7 @@
 import { describe, expect, it, beforeEach } from '@jest/globals';
 import * as vscode from 'vscode';
 import { PathfindingAnalyzer } from './pathfindingAnalyzer';
+import { VehicleType } from '../types/datFileTypes';
 
 describe('PathfindingAnalyzer', () => {
   let analyzer: PathfindingAnalyzer;
@@ -257,6 +258,66 @@ tiles{
     });
   });
 
+  describe('movement profiles', () => {
+    it('should drill through rock only for units with drills', () => {
+      analyzer.loadTiles([
+        [1, 34, 1],
+        [40, 40, 40],
+      ]);
+
+      expect(analyzer.findPath({ row: 0, col: 0 }, { row: 0, col: 2 })).toBeNull();
+
+      analyzer.setProfile('drillingMiner');
+      const drilled = analyzer.findPath({ row: 0, col: 0 }, { row: 0, col: 2 });
+      expect(drilled).not.toBeNull();
+      expect(drilled!.path).toHaveLength(3);
+
+      // A faster drill makes the same route cheaper
+      analyzer.setProfile(VehicleType.ChromeCrusher);
+      expect(analyzer.findPath({ row: 0, col: 0 }, { row: 0, col: 2 })!.cost).toBeLessThan(
+        drilled!.cost
+      );
+    });
+
+    it('should send hover units across water that blocks walkers', () => {
+      analyzer.loadTiles([
+        [1, 11, 11, 1],
+        [40, 11, 40, 40],
+      ]);
+
+      const walking = analyzer.generateAccessibilityHeatMap([{ row: 0, col: 0 }]);
+      expect(walking.grid[0][3]).toBe(-1);
+
+      analyzer.setProfile(VehicleType.HoverScout);
+      const hovering = analyzer.generateAccessibilityHeatMap([{ row: 0, col: 0 }]);
+      expect(hovering.grid[0][3]).toBe(3);
+      expect(hovering.grid[1][1]).toBe(2);
+    });
+
+    it('should keep boats on water', () => {
+      analyzer.loadTiles([[1, 11, 11, 1]]);
+      analyzer.setProfile(VehicleType.CargoCarrier);
+
+      const heatMap = analyzer.generateAccessibilityHeatMap([{ row: 0, col: 1 }]);
+
+      expect(heatMap.grid[0]).toEqual([-1, 0, 1, -1]);
+      expect(analyzer.getProfile().name).toBe('Cargo Carrier');
+    });
+  });
+
+  describe('calculateRoutes', () => {
+    it('should count the tiles crossed along the cheapest route', () => {
+      analyzer.loadTiles([[1, 1, 26, 1, 38]]);
+      analyzer.setProfile('drillingMiner');
+
+      const routes = analyzer.calculateRoutes([{ row: 0, col: 0 }]);
+
+      // Drilling the dirt wall adds its drill time to the cost but not to the steps
+      expect(routes.costs[0]).toEqual([0, 1, 7, 8, Infinity]);
+      expect(routes.steps[0]).toEqual([0, 1, 2, 3, Infinity]);
+    });
+  });
+
   describe('tile identification', () => {
     it('should correctly identify passable tiles', () => {
       mockDocument = {
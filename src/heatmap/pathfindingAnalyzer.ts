@@ -1,5 +1,11 @@
-import * as vscode from 'vscode';
+import type { TextDocument } from 'vscode';
 import { DatFileParser } from '../parser/datFileParser';
+import {
+  DEFAULT_MOVEMENT_PROFILE,
+  getMovementProfile,
+  getTileMovementCost,
+  MovementProfile,
+} from './movementProfiles';
 
 export interface PathNode {
   row: number;
@@ -14,6 +20,13 @@ export interface PathfindingResult {
   visited: Set<string>;
 }
 
+export interface TravelRoutes {
+  // Cost of the cheapest route from the nearest starting point; Infinity when unreachable
+  costs: number[][];
+  // Tiles crossed along that route
+  steps: number[][];
+}
+
 export interface HeatMapData {
   grid: number[][];
   maxValue: number;
@@ -27,10 +40,12 @@ export class PathfindingAnalyzer {
   private rowCount: number = 0;
   private colCount: number = 0;
 
+  constructor(private profile: MovementProfile = DEFAULT_MOVEMENT_PROFILE) {}
+
   /**
    * Initialize analyzer with map data
    */
-  public initialize(document: vscode.TextDocument): boolean {
+  public initialize(document: Pick<TextDocument, 'getText'>): boolean {
     try {
       const parser = new DatFileParser(document.getText());
       const tilesSection = parser.getSection('tiles');
@@ -39,9 +54,7 @@ export class PathfindingAnalyzer {
         return false;
       }
 
-      this.tiles = this.parseTiles(tilesSection.content);
-      this.rowCount = this.tiles.length;
-      this.colCount = this.tiles[0]?.length || 0;
+      this.loadTiles(this.parseTiles(tilesSection.content));
 
       return true;
     } catch (error) {
@@ -50,6 +63,26 @@ export class PathfindingAnalyzer {
     }
   }
 
+  /**
+   * Use an already parsed tile grid
+   */
+  public loadTiles(tiles: number[][]): void {
+    this.tiles = tiles;
+    this.rowCount = tiles.length;
+    this.colCount = tiles[0]?.length || 0;
+  }
+
+  /**
+   * Select the unit whose movement paths and heat maps follow
+   */
+  public setProfile(profileId: string): void {
+    this.profile = getMovementProfile(profileId);
+  }
+
+  public getProfile(): MovementProfile {
+    return this.profile;
+  }
+
   /**
    * Generate heat map for traffic analysis
    */
@@ -84,24 +117,8 @@ export class PathfindingAnalyzer {
    * Generate heat map for accessibility analysis
    */
   public generateAccessibilityHeatMap(startPoints: { row: number; col: number }[]): HeatMapData {
-    const heatGrid: number[][] = Array(this.rowCount)
-      .fill(0)
-      .map(() => Array(this.colCount).fill(Infinity));
-
-    // For each starting point, calculate distance to all reachable tiles
-    startPoints.forEach(start => {
-      const distances = this.calculateDistances(start);
-
-      // Update heat grid with minimum distances
-      for (let row = 0; row < this.rowCount; row++) {
-        for (let col = 0; col < this.colCount; col++) {
-          const distance = distances[row][col];
-          if (distance < heatGrid[row][col]) {
-            heatGrid[row][col] = distance;
-          }
-        }
-      }
-    });
+    // Distance from the nearest starting point to all reachable tiles
+    const heatGrid = this.calculateDistances(startPoints);
 
     // Convert infinity values to -1 for unreachable areas
     for (let row = 0; row < this.rowCount; row++) {
@@ -143,7 +160,17 @@ export class PathfindingAnalyzer {
     start: { row: number; col: number },
     end: { row: number; col: number }
   ): PathfindingResult | null {
-    if (!this.isPassable(start.row, start.col) || !this.isPassable(end.row, end.col)) {
+    return this.findPathFrom([start], end);
+  }
+
+  /**
+   * Find the cheapest path to a point from whichever starting point is closest
+   */
+  public findPathFrom(
+    starts: { row: number; col: number }[],
+    end: { row: number; col: number }
+  ): PathfindingResult | null {
+    if (!this.isPassable(end.row, end.col)) {
       return null;
     }
 
@@ -151,13 +178,11 @@ export class PathfindingAnalyzer {
     const closedSet = new Set<string>();
     const visited = new Set<string>();
 
-    const startNode: PathNode = {
-      row: start.row,
-      col: start.col,
-      cost: 0,
-    };
-
-    openSet.set(`${start.row},${start.col}`, startNode);
+    for (const start of starts) {
+      if (this.isPassable(start.row, start.col)) {
+        openSet.set(`${start.row},${start.col}`, { row: start.row, col: start.col, cost: 0 });
+      }
+    }
 
     while (openSet.size > 0) {
       // Find node with lowest f-score
@@ -218,35 +243,52 @@ export class PathfindingAnalyzer {
   }
 
   /**
-   * Calculate distances from a starting point to all reachable tiles
+   * Calculate the cheapest route from the nearest starting point to all
+   * reachable tiles, with the number of tiles each route crosses
    */
-  private calculateDistances(start: { row: number; col: number }): number[][] {
-    const distances: number[][] = Array(this.rowCount)
+  public calculateRoutes(starts: { row: number; col: number }[]): TravelRoutes {
+    const costs: number[][] = Array(this.rowCount)
+      .fill(0)
+      .map(() => Array(this.colCount).fill(Infinity));
+    const steps: number[][] = Array(this.rowCount)
       .fill(0)
       .map(() => Array(this.colCount).fill(Infinity));
-
-    if (!this.isPassable(start.row, start.col)) {
-      return distances;
-    }
 
     const queue: { row: number; col: number; distance: number }[] = [];
-    queue.push({ ...start, distance: 0 });
-    distances[start.row][start.col] = 0;
+    for (const start of starts) {
+      if (this.isPassable(start.row, start.col)) {
+        queue.push({ ...start, distance: 0 });
+        costs[start.row][start.col] = 0;
+        steps[start.row][start.col] = 0;
+      }
+    }
 
     while (queue.length > 0) {
       const current = queue.shift()!;
+      // Skip entries superseded by a cheaper route
+      if (current.distance > costs[current.row][current.col]) {
+        continue;
+      }
       const neighbors = this.getNeighbors(current.row, current.col);
 
       for (const neighbor of neighbors) {
-        const newDistance = current.distance + 1;
-        if (newDistance < distances[neighbor.row][neighbor.col]) {
-          distances[neighbor.row][neighbor.col] = newDistance;
+        const newDistance = current.distance + this.getMovementCost(current, neighbor);
+        if (newDistance < costs[neighbor.row][neighbor.col]) {
+          costs[neighbor.row][neighbor.col] = newDistance;
+          steps[neighbor.row][neighbor.col] = steps[current.row][current.col] + 1;
           queue.push({ ...neighbor, distance: newDistance });
         }
       }
     }
 
-    return distances;
+    return { costs, steps };
+  }
+
+  /**
+   * Calculate movement cost from the nearest starting point to all reachable tiles
+   */
+  private calculateDistances(starts: { row: number; col: number }[]): number[][] {
+    return this.calculateRoutes(starts).costs;
   }
 
   /**
@@ -539,19 +581,12 @@ export class PathfindingAnalyzer {
   /**
    * Get movement cost between two adjacent tiles
    */
-  private getMovementCost(_from: PathNode, to: { row: number; col: number }): number {
-    // Base cost
-    let cost = 1;
-
-    // Add cost for different tile types
-    const tileId = this.tiles[to.row][to.col];
-
-    // Rubble tiles have higher cost
-    if (tileId >= 2 && tileId <= 5) {
-      cost += tileId - 1; // Higher rubble level = higher cost
-    }
-
-    return cost;
+  private getMovementCost(
+    _from: { row: number; col: number },
+    to: { row: number; col: number }
+  ): number {
+    // Rubble slows units down and drilling costs the drill time
+    return getTileMovementCost(this.profile, this.tiles[to.row][to.col]) ?? Infinity;
   }
 
   /**
@@ -629,29 +664,8 @@ export class PathfindingAnalyzer {
       return false;
     }
 
-    const tileId = this.tiles[row][col];
-
-    // Ground tiles (1) and rubble (2-5) are passable
-    if (tileId >= 1 && tileId <= 5) {
-      return true;
-    }
-
-    // Power paths (14-25) connect buildings and are walkable
-    if (tileId >= 14 && tileId <= 25) {
-      return true;
-    }
-
-    // Building foundations/special ground tiles
-    if (tileId === 101) {
-      return true;
-    }
-
-    // Building power paths
-    if (tileId === 114 || tileId === 115) {
-      return true;
-    }
-
-    return false;
+    // Depends on the unit: floors for walkers, water for boats, rock for drillers
+    return getTileMovementCost(this.profile, this.tiles[row][col]) !== undefined;
   }
 
   /**
@@ -261,7 +261,7 @@ describe('DatHoverProvider - Enhanced Features', () => {
 
       const content = (hover as any)?.contents;
       expect(content.value).toContain('**landslidefrequency section**');
-      expect(content.value).toContain('Optional section defining landslide probability');
+      expect(content.value).toContain('grouping wall tiles by landslide interval');
     });
   });
 
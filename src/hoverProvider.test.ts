@@ -153,6 +153,41 @@ describe('DatHoverProvider', () => {
       expect(content.value).toContain('Impenetrable solid rock wall - cannot be drilled');
     });
 
+    it('should provide hover for declared script variables and event chains', () => {
+      const document = new TextDocument(
+        'script{\nint Count=3\nwhen(Count>2)[Done]\n\nDone::\nmsg:Hi;\n}',
+        'manicminers'
+      );
+
+      const variable = provider.provideHover(
+        document,
+        new vscode.Position(2, 6),
+        cancellationToken
+      );
+      expect((variable as any)?.contents.value).toContain('**Count** (int variable)');
+      expect((variable as any)?.contents.value).toContain('`int Count=3`');
+
+      const chain = provider.provideHover(document, new vscode.Position(2, 15), cancellationToken);
+      expect((chain as any)?.contents.value).toContain('**Done event**');
+      expect((chain as any)?.contents.value).toContain('`when(Count>2)[Done]`');
+    });
+
+    it('should provide hover for visual blocks and their wires', () => {
+      const document = new TextDocument(
+        'blocks{\n1/TriggerTimer:2,3,Waves,5.0,30.0,20.0\n2/EventDrill:4,5\n1-2\n}',
+        'manicminers'
+      );
+
+      const block = provider.provideHover(document, new vscode.Position(1, 4), cancellationToken);
+      expect((block as any)?.contents.value).toContain('**TriggerTimer** (trigger block 1)');
+      expect((block as any)?.contents.value).toContain('*Location:* row 2, col 3');
+      expect((block as any)?.contents.value).toContain('*Wired to:* 2 (EventDrill)');
+
+      const wire = provider.provideHover(document, new vscode.Position(3, 0), cancellationToken);
+      expect((wire as any)?.contents.value).toContain('**Wire 1 → 2** (normal)');
+      expect((wire as any)?.contents.value).toContain('*From:* 1 (TriggerTimer)');
+    });
+
     it('should provide hover for section names', () => {
       const document = new TextDocument('tiles {\n  1,2,3\n}', 'manicminers');
       const position = new vscode.Position(0, 2); // Position on 'tiles'
@@ -0,0 +1,164 @@
+import * as vscode from 'vscode';
+import { getTileInfo } from './data/tileDefinitions';
+import { TILE_WORLD_SIZE } from './mapEditor/entityLayer';
+import { DatCstParser } from './parser/datCstParser';
+import { getScriptSymbols } from './parser/scriptSymbols';
+import { walkScript } from './parser/scriptParser';
+import { GridRowNode, SourcePosition } from './types/datCstTypes';
+import { ScriptVariableType } from './types/scriptAstTypes';
+
+export type DatInlayHintKind = 'rowIndex' | 'tileName' | 'entityTile' | 'variableType';
+
+/**
+ * A label shown inline at a position
+ */
+export interface DatInlayHint {
+  position: SourcePosition;
+  label: string;
+  kind: DatInlayHintKind;
+  tooltip?: string;
+}
+
+export interface DatInlayHintOptions {
+  // Name every tile of the tiles grid, not just number the rows
+  tileNames: boolean;
+}
+
+const GRID_SECTIONS = ['tiles', 'height', 'resources'];
+
+const ENTITY_SECTIONS = ['buildings', 'vehicles', 'creatures', 'miners'];
+
+/**
+ * Hints for the lines from startLine to endLine: grid row numbers and tile
+ * names, the tile each entity stands on, and the type of each variable use
+ */
+export function getDatInlayHints(
+  text: string,
+  startLine: number,
+  endLine: number,
+  options: DatInlayHintOptions = { tileNames: true }
+): DatInlayHint[] {
+  const parser = new DatCstParser(text);
+  const hints: DatInlayHint[] = [];
+  const visible = (position: SourcePosition) =>
+    position.line >= startLine && position.line <= endLine;
+  const hint = (
+    position: SourcePosition,
+    label: string,
+    kind: DatInlayHintKind,
+    tooltip?: string
+  ) => {
+    if (visible(position)) {
+      hints.push({ position, label, kind, tooltip });
+    }
+  };
+
+  for (const section of parser.getDocument().sections) {
+    const name = section.name.value;
+    const { start, end } = section.range;
+    if (end.line < startLine || start.line > endLine) {
+      continue;
+    }
+
+    if (GRID_SECTIONS.includes(name)) {
+      // Resource grids each start again from row 0
+      const grids: GridRowNode[][] =
+        name === 'resources'
+          ? section.items.flatMap(item => (item.kind === 'resourceGrid' ? [item.rows] : []))
+          : [section.items.filter((item): item is GridRowNode => item.kind === 'gridRow')];
+      for (const rows of grids) {
+        rows.forEach((row, index) => {
+          if (row.cells.length === 0) {
+            return;
+          }
+          hint(row.cells[0].range.start, `${index}`, 'rowIndex', `Row ${index}`);
+          if (name !== 'tiles' || !options.tileNames) {
+            return;
+          }
+          for (const cell of row.cells) {
+            const tile = getTileInfo(cell.value);
+            if (tile) {
+              hint(cell.range.end, tile.name, 'tileName', `Row ${index}, column ${cell.col}`);
+            }
+          }
+        });
+      }
+    } else if (ENTITY_SECTIONS.includes(name)) {
+      for (const item of section.items) {
+        if (item.kind !== 'entity' || !item.entity || !item.coordinates) {
+          continue;
+        }
+        const { x, y } = item.entity.coordinates.translation;
+        const row = Math.floor(y / TILE_WORLD_SIZE);
+        const col = Math.floor(x / TILE_WORLD_SIZE);
+        hint(
+          item.coordinates.range.end,
+          `tile ${row},${col}`,
+          'entityTile',
+          `Row ${row}, column ${col}`
+        );
+      }
+    }
+  }
+
+  // Script declarations say the type; timers declared by blocks are timers
+  const script = parser.toDatFile().script;
+  const variableTypes = new Map<string, ScriptVariableType>();
+  if (script) {
+    walkScript(script, node => {
+      if (node.kind === 'variable') {
+        variableTypes.set(node.name.name, node.varType.value);
+      }
+    });
+  }
+  for (const symbol of getScriptSymbols(parser).values()) {
+    if (symbol.kind === 'eventChain') {
+      continue;
+    }
+    const type =
+      variableTypes.get(symbol.name) ??
+      (symbol.kind === 'timer' || symbol.kind === 'arrow' ? symbol.kind : undefined);
+    if (!type) {
+      continue;
+    }
+    for (const occurrence of symbol.occurrences) {
+      const declared = symbol.declarations.some(
+        declaration =>
+          declaration.start.line === occurrence.start.line &&
+          declaration.start.column === occurrence.start.column
+      );
+      if (!declared) {
+        hint(occurrence.end, `: ${type}`, 'variableType');
+      }
+    }
+  }
+
+  return hints.sort(
+    (a, b) => a.position.line - b.position.line || a.position.column - b.position.column
+  );
+}
+
+export class DatInlayHintsProvider implements vscode.InlayHintsProvider {
+  provideInlayHints(
+    document: vscode.TextDocument,
+    range: vscode.Range,
+    _token: vscode.CancellationToken
+  ): vscode.ProviderResult<vscode.InlayHint[]> {
+    const config = vscode.workspace.getConfiguration('manicMiners.inlayHints');
+    const options = { tileNames: config.get<boolean>('tileNames') !== false };
+
+    return getDatInlayHints(document.getText(), range.start.line, range.end.line, options).map(
+      hint => {
+        const inlayHint = new vscode.InlayHint(
+          new vscode.Position(hint.position.line, hint.position.column),
+          hint.label,
+          hint.kind === 'variableType' ? vscode.InlayHintKind.Type : undefined
+        );
+        inlayHint.tooltip = hint.tooltip;
+        inlayHint.paddingLeft = hint.kind === 'tileName' || hint.kind === 'entityTile';
+        inlayHint.paddingRight = hint.kind === 'rowIndex';
+        return inlayHint;
+      }
+    );
+  }
+}
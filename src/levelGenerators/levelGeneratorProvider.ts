@@ -1,5 +1,8 @@
 import * as vscode from 'vscode';
 import { DatFile, InfoSection, BuildingType } from '../types/datFileTypes';
+import { ScriptNode } from '../types/scriptAstTypes';
+import { DatFileWriter } from '../parser/datFileWriter';
+import { ScriptParser } from '../parser/scriptParser';
 
 export interface LevelGeneratorConfig {
   name: string;
@@ -221,49 +224,29 @@ export class LevelGeneratorProvider {
           },
         },
       ],
-      script: {
-        variables: new Map([
-          ['hasBuiltToolStore', 'false'],
-          ['tutorialPhase', '0'],
-        ]),
-        events: [
-          {
-            name: 'start',
-            condition: '',
-            commands: [
-              {
-                command: 'msg',
-                parameters: [
-                  'Welcome to the tutorial! First, reinforce the ground near your Tool Store.',
-                ],
-              },
-              { command: 'wait', parameters: ['3'] },
-              { command: 'camera', parameters: ['3', '3'] },
-              { command: 'objective', parameters: ['0'] },
-            ],
-          },
-          {
-            name: 'FirstCrystal',
-            condition: 'crystals >= 1',
-            commands: [
-              { command: 'msg', parameters: ['Great! You collected your first crystal!'] },
-              { command: 'tutorialPhase', parameters: ['1'] },
-            ],
-          },
-          {
-            name: 'ObjectivesComplete',
-            condition: 'crystals >= 10 && ore >= 5',
-            commands: [
-              {
-                command: 'msg',
-                parameters: ['Excellent work! Now find the hidden recharge seam.'],
-              },
-              { command: 'camera', parameters: ['17', '4'] },
-              { command: 'objective', parameters: ['2'] },
-            ],
-          },
-        ],
-      },
+      script: LevelGeneratorProvider.script([
+        'bool hasBuiltToolStore=false',
+        'int tutorialPhase=0',
+        'string WelcomeMsg="Welcome to the tutorial! First, reinforce the ground near your Tool Store."',
+        'string FirstCrystalMsg="Great! You collected your first crystal!"',
+        'string ObjectivesMsg="Excellent work! Now find the hidden recharge seam."',
+        'if(init)[start]',
+        'when(crystals>=1)[FirstCrystal]',
+        'when(crystals>=10 and ore>=5)[ObjectivesComplete]',
+        '',
+        'start::',
+        'msg:WelcomeMsg;',
+        'wait:3;',
+        'pan:3,3;',
+        '',
+        'FirstCrystal::',
+        'msg:FirstCrystalMsg;',
+        'tutorialPhase:1;',
+        '',
+        'ObjectivesComplete::',
+        'msg:ObjectivesMsg;',
+        'pan:17,4;',
+      ]),
     };
 
     return {
@@ -509,62 +492,43 @@ export class LevelGeneratorProvider {
           },
         },
       ],
-      script: {
-        variables: new Map([
-          ['currentWave', '0'],
-          ['wavesCompleted', '0'],
-          ['waveTimer', '120,100,140,NextWave'],
-        ]),
-        events: [
-          {
-            name: 'start',
-            condition: '',
-            commands: [
-              {
-                command: 'msg',
-                parameters: ['Prepare your defenses! First wave incoming in 2 minutes!'],
-              },
-              { command: 'starttimer', parameters: ['waveTimer'] },
-            ],
-          },
-          {
-            name: 'NextWave',
-            condition: '',
-            commands: [
-              { command: 'msg', parameters: [`Wave ${waves} incoming!`] },
-              { command: 'shake', parameters: ['3'] },
-              { command: 'playsound', parameters: ['alarm'] },
-              ...Array(spiderCount)
-                .fill(null)
-                .map(() => ({
-                  command: 'spawn',
-                  parameters: [
-                    'Creature_SmallSpider_C',
-                    String(Math.floor(Math.random() * size)),
-                    String(Math.floor(Math.random() * size)),
-                  ],
-                })),
-            ],
-          },
-          {
-            name: 'WaveComplete',
-            condition: 'monsters == 0 && currentWave > 0',
-            commands: [
-              { command: 'msg', parameters: ['Wave completed! Prepare for the next one.'] },
-              { command: 'wavesCompleted', parameters: ['wavesCompleted + 1'] },
-              { command: 'starttimer', parameters: ['waveTimer'] },
-            ],
-          },
-          {
-            name: 'Victory',
-            condition: `wavesCompleted >= ${waves}`,
-            commands: [
-              { command: 'msg', parameters: ['All waves defeated! Victory is yours!'] },
-              { command: 'win', parameters: ['Mission accomplished!'] },
-            ],
-          },
-        ],
-      },
+      script: LevelGeneratorProvider.script([
+        'int currentWave=0',
+        'int wavesCompleted=0',
+        'timer waveTimer=120,100,140,NextWave',
+        'string PrepareMsg="Prepare your defenses! First wave incoming in 2 minutes!"',
+        `string WaveMsg="Wave incoming! Survive ${waves} waves."`,
+        'string WaveCompleteMsg="Wave completed! Prepare for the next one."',
+        'string VictoryMsg="All waves defeated! Victory is yours!"',
+        'if(init)[start]',
+        'when(monsters==0 and currentWave>0)[WaveComplete]',
+        `when(wavesCompleted>=${waves})[Victory]`,
+        '',
+        'start::',
+        'msg:PrepareMsg;',
+        'starttimer:waveTimer;',
+        '',
+        'NextWave::',
+        'currentWave+=1;',
+        'msg:WaveMsg;',
+        'shake:3;',
+        'playsound:alarm;',
+        ...Array.from(
+          { length: spiderCount },
+          () =>
+            `emerge:${Math.floor(Math.random() * size)},${Math.floor(Math.random() * size)},A,CreatureSmallSpider_C,1;`
+        ),
+        '',
+        'WaveComplete::',
+        'msg:WaveCompleteMsg;',
+        'currentWave:0;',
+        'wavesCompleted+=1;',
+        'starttimer:waveTimer;',
+        '',
+        'Victory::',
+        'msg:VictoryMsg;',
+        'win:VictoryMsg;',
+      ]),
     };
 
     return {
@@ -673,55 +637,42 @@ export class LevelGeneratorProvider {
           },
         },
       ],
-      script: {
-        variables: new Map([
-          ['warningGiven', 'false'],
-          ['criticalWarning', 'false'],
-        ]),
-        events: [
-          {
-            name: 'start',
-            condition: '',
-            commands: [
-              {
-                command: 'msg',
-                parameters: [`WARNING: Oxygen supply limited to ${oxygenTime} seconds!`],
-              },
-              { command: 'wait', parameters: ['3'] },
-              { command: 'msg', parameters: ['Find resources quickly or perish!'] },
-            ],
-          },
-          {
-            name: 'OxygenWarning',
-            condition: 'oxygen < 120 && warningGiven == false',
-            commands: [
-              { command: 'msg', parameters: ['CAUTION: Oxygen levels critical!'] },
-              { command: 'shake', parameters: ['2'] },
-              { command: 'playsound', parameters: ['warning'] },
-              { command: 'warningGiven', parameters: ['true'] },
-            ],
-          },
-          {
-            name: 'OxygenCritical',
-            condition: 'oxygen < 30 && criticalWarning == false',
-            commands: [
-              { command: 'msg', parameters: ['EMERGENCY: 30 seconds of oxygen remaining!'] },
-              { command: 'shake', parameters: ['5'] },
-              { command: 'playsound', parameters: ['alarm'] },
-              { command: 'criticalWarning', parameters: ['true'] },
-            ],
-          },
-          {
-            name: 'ResourceBonus',
-            condition: 'crystals >= 15 && ore >= 15',
-            commands: [
-              { command: 'msg', parameters: ['Good progress! Keep collecting!'] },
-              { command: 'oxygen', parameters: ['oxygen + 60'] },
-              { command: 'msg', parameters: ['Bonus oxygen awarded!'] },
-            ],
-          },
-        ],
-      },
+      script: LevelGeneratorProvider.script([
+        'bool warningGiven=false',
+        'bool criticalWarning=false',
+        `string OxygenMsg="WARNING: Oxygen supply limited to ${oxygenTime} seconds!"`,
+        'string HurryMsg="Find resources quickly or perish!"',
+        'string CautionMsg="CAUTION: Oxygen levels critical!"',
+        'string EmergencyMsg="EMERGENCY: 30 seconds of oxygen remaining!"',
+        'string ProgressMsg="Good progress! Keep collecting!"',
+        'string BonusMsg="Bonus oxygen awarded!"',
+        'if(init)[start]',
+        'when(air<120 and warningGiven==false)[OxygenWarning]',
+        'when(air<30 and criticalWarning==false)[OxygenCritical]',
+        'if(crystals>=15 and ore>=15)[ResourceBonus]',
+        '',
+        'start::',
+        'msg:OxygenMsg;',
+        'wait:3;',
+        'msg:HurryMsg;',
+        '',
+        'OxygenWarning::',
+        'msg:CautionMsg;',
+        'shake:2;',
+        'playsound:warning;',
+        'warningGiven:true;',
+        '',
+        'OxygenCritical::',
+        'msg:EmergencyMsg;',
+        'shake:5;',
+        'playsound:alarm;',
+        'criticalWarning:true;',
+        '',
+        'ResourceBonus::',
+        'msg:ProgressMsg;',
+        'air+=60;',
+        'msg:BonusMsg;',
+      ]),
     };
 
     return {
@@ -840,68 +791,44 @@ export class LevelGeneratorProvider {
           },
         },
       ],
-      script: {
-        variables: new Map([
-          ['chamber1', 'false'],
-          ['chamber2', 'false'],
-          ['chamber3', 'false'],
-          ['chamber4', 'false'],
-          ['chambersVisited', '0'],
-          ['hintsGiven', '0'],
-        ]),
-        events: [
-          {
-            name: 'start',
-            condition: '',
-            commands: [
-              {
-                command: 'msg',
-                parameters: ['Four chambers, one secret. Choose your path wisely.'],
-              },
-              { command: 'camera', parameters: ['12', '12'] },
-              { command: 'wait', parameters: ['2'] },
-              { command: 'camera', parameters: ['7', '7'] },
-            ],
-          },
-          {
-            name: 'Chamber1Enter',
-            condition: 'chamber1 == false',
-            commands: [
-              {
-                command: 'msg',
-                parameters: ['Chamber 1: The power source. This might be useful later.'],
-              },
-              { command: 'chamber1', parameters: ['true'] },
-              { command: 'chambersVisited', parameters: ['chambersVisited + 1'] },
-            ],
-          },
-          {
-            name: 'HintTrigger',
-            condition: 'chambersVisited >= 2 && hintsGiven == 0',
-            commands: [
-              {
-                command: 'msg',
-                parameters: ['Hint: The center holds the secret, but solid rock blocks the way.'],
-              },
-              { command: 'hintsGiven', parameters: ['1'] },
-            ],
-          },
-          {
-            name: 'AllChambersVisited',
-            condition: 'chambersVisited >= 4',
-            commands: [
-              {
-                command: 'msg',
-                parameters: ['All chambers visited! The center can now be accessed.'],
-              },
-              { command: 'drill', parameters: ['11', '12'] },
-              { command: 'drill', parameters: ['13', '12'] },
-              { command: 'drill', parameters: ['12', '11'] },
-              { command: 'drill', parameters: ['12', '13'] },
-            ],
-          },
-        ],
-      },
+      script: LevelGeneratorProvider.script([
+        'bool chamber1=false',
+        'bool chamber2=false',
+        'bool chamber3=false',
+        'bool chamber4=false',
+        'int chambersVisited=0',
+        'int hintsGiven=0',
+        'string IntroMsg="Four chambers, one secret. Choose your path wisely."',
+        'string Chamber1Msg="Chamber 1: The power source. This might be useful later."',
+        'string HintMsg="Hint: The center holds the secret, but solid rock blocks the way."',
+        'string CenterMsg="All chambers visited! The center can now be accessed."',
+        'if(init)[start]',
+        'when(enter:7,7:miners)((chamber1==false))[Chamber1Enter]',
+        'when(chambersVisited>=2 and hintsGiven==0)[HintTrigger]',
+        'if(chambersVisited>=4)[AllChambersVisited]',
+        '',
+        'start::',
+        'msg:IntroMsg;',
+        'pan:12,12;',
+        'wait:2;',
+        'pan:7,7;',
+        '',
+        'Chamber1Enter::',
+        'msg:Chamber1Msg;',
+        'chamber1:true;',
+        'chambersVisited+=1;',
+        '',
+        'HintTrigger::',
+        'msg:HintMsg;',
+        'hintsGiven:1;',
+        '',
+        'AllChambersVisited::',
+        'msg:CenterMsg;',
+        'drill:11,12;',
+        'drill:13,12;',
+        'drill:12,11;',
+        'drill:12,13;',
+      ]),
     };
 
     return {
@@ -910,138 +837,33 @@ export class LevelGeneratorProvider {
     };
   }
 
-  private static formatDatFile(datFile: Partial<DatFile>, config: LevelGeneratorConfig): string {
-    let output = '';
-
-    // Comments section
-    output += 'comments {\n';
-    output += `  Generated ${config.category} level\n`;
-    output += `  Name: ${config.name}\n`;
-    output += `  Difficulty: ${config.difficulty}\n`;
-    output += `  Size: ${config.size}\n`;
-    output += `  Biome: ${config.biome}\n`;
-    output += `  Created: ${new Date().toISOString()}\n`;
-    output += '}\n\n';
-
-    // Info section
-    if (datFile.info) {
-      output += 'info {\n';
-      const info = datFile.info as any;
-      for (const [key, value] of Object.entries(info)) {
-        if (value !== undefined && value !== null) {
-          output += `  ${key}: ${value}\n`;
-        }
-      }
-      output += '}\n\n';
-    }
-
-    // Tiles section
-    if (datFile.tiles) {
-      output += 'tiles {\n';
-      for (const row of datFile.tiles) {
-        output += '  ' + row.join(',') + ',\n';
-      }
-      output = output.slice(0, -2) + '\n'; // Remove last comma
-      output += '}\n\n';
-    }
-
-    // Height section
-    if (datFile.height) {
-      output += 'height {\n';
-      for (const row of datFile.height) {
-        output += '  ' + row.join(',') + ',\n';
-      }
-      output = output.slice(0, -2) + '\n'; // Remove last comma
-      output += '}\n\n';
-    }
-
-    // Resources section
-    if (datFile.resources) {
-      output += 'resources {\n';
-      if (datFile.resources.crystals) {
-        output += '  crystals:\n';
-        for (const row of datFile.resources.crystals) {
-          output += '  ' + row.join(',') + ',\n';
-        }
-        output = output.slice(0, -2) + '\n'; // Remove last comma
-      }
-      if (datFile.resources.ore) {
-        output += '  ore:\n';
-        for (const row of datFile.resources.ore) {
-          output += '  ' + row.join(',') + ',\n';
-        }
-        output = output.slice(0, -2) + '\n'; // Remove last comma
-      }
-      output += '}\n\n';
-    }
-
-    // Objectives section
-    if (datFile.objectives && datFile.objectives.length > 0) {
-      output += 'objectives {\n';
-      for (const obj of datFile.objectives) {
-        switch (obj.type) {
-          case 'resources':
-            output += `  resources: ${obj.crystals}, ${obj.ore}, ${obj.studs} / Collect resources\n`;
-            break;
-          case 'building':
-            output += `  building: ${obj.building}\n`;
-            break;
-          case 'discovertile':
-            output += `  discovertile: ${obj.x}, ${obj.y} / ${obj.description || 'Discover location'}\n`;
-            break;
-          case 'variable':
-            output += `  variable: ${obj.condition} / ${obj.description || 'Complete objective'}\n`;
-            break;
-        }
-      }
-      output += '}\n\n';
-    }
-
-    // Buildings section
-    if (datFile.buildings && datFile.buildings.length > 0) {
-      output += 'buildings {\n';
-      for (const building of datFile.buildings) {
-        output += `  ${building.type}`;
-        output += ` Translation: X=${building.coordinates.translation.x} Y=${building.coordinates.translation.y} Z=${building.coordinates.translation.z}`;
-        if (building.properties) {
-          for (const [key, value] of Object.entries(building.properties)) {
-            output += `, ${key}=${value}`;
-          }
-        }
-        output += '\n';
-      }
-      output += '}\n\n';
-    }
-
-    // Script section
-    if (datFile.script) {
-      output += 'script {\n';
-
-      // Variables
-      if (datFile.script.variables.size > 0) {
-        for (const [name, value] of datFile.script.variables) {
-          output += `  string ${name} = ${value}\n`;
-        }
-        output += '\n';
-      }
-
-      // Events
-      for (const event of datFile.script.events) {
-        if (event.condition) {
-          output += `  ((${event.condition})) ${event.name} ;\n`;
-        } else {
-          output += `  ${event.name} :: ;\n`;
-        }
-        for (const cmd of event.commands) {
-          output += `    ${cmd.command}: ${cmd.parameters.join(', ')};\n`;
-        }
-        output += '\n';
-      }
-
-      output += '}\n';
-    }
+  /**
+   * Build a script tree from generated source lines
+   */
+  private static script(lines: string[]): ScriptNode {
+    return new ScriptParser(lines.join('\n')).getScript();
+  }
 
-    return output;
+  private static formatDatFile(datFile: Partial<DatFile>, config: LevelGeneratorConfig): string {
+    // Generators keep the briefings next to the info keys; they belong in their own sections
+    const { briefing, briefingsuccess, briefingfailure, ...info } = (datFile.info ||
+      {}) as InfoSection & Pick<DatFile, 'briefing' | 'briefingsuccess' | 'briefingfailure'>;
+
+    return new DatFileWriter().write({
+      ...datFile,
+      comments: [
+        `Generated ${config.category} level`,
+        `Name: ${config.name}`,
+        `Difficulty: ${config.difficulty}`,
+        `Size: ${config.size}`,
+        `Biome: ${config.biome}`,
+        `Created: ${new Date().toISOString()}`,
+      ],
+      info: datFile.info ? info : undefined,
+      briefing: datFile.briefing ?? briefing,
+      briefingsuccess: datFile.briefingsuccess ?? briefingsuccess,
+      briefingfailure: datFile.briefingfailure ?? briefingfailure,
+    } as Partial<DatFile>);
   }
 }
 
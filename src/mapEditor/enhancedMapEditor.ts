@@ -1,5 +1,7 @@
 import * as vscode from 'vscode';
 import { PanelManager } from '../workspace/panelManager';
+import { DatFileParser } from '../parser/datFileParser';
+import { DatFileWriter } from '../parser/datFileWriter';
 
 /**
  * Enhanced Map Editor that integrates with the workspace system
@@ -436,28 +438,14 @@ export class EnhancedMapEditorProvider implements vscode.CustomTextEditorProvide
   }
 
   private parseMapData(text: string): any {
-    // Basic map data parsing
-    const tilesMatch = text.match(/tiles\s*{([^}]+)}/s);
-    const heightMatch = text.match(/height\s*{([^}]+)}/s);
+    const parser = new DatFileParser(text);
+    const tiles = parser.parseSection('tiles');
+    const height = parser.parseSection('height') || [];
 
-    if (!tilesMatch) {
+    if (!tiles) {
       throw new Error('No tiles section found');
     }
 
-    const tileRows = tilesMatch[1]
-      .trim()
-      .split('\n')
-      .filter(row => row.trim());
-    const tiles = tileRows.map(row => row.trim().split(/\s+/).map(Number));
-
-    const height = heightMatch
-      ? heightMatch[1]
-          .trim()
-          .split('\n')
-          .filter(row => row.trim())
-          .map(row => row.trim().split(/\s+/).map(Number))
-      : [];
-
     return {
       width: tiles[0]?.length || 0,
       height: tiles.length,
@@ -471,21 +459,33 @@ export class EnhancedMapEditorProvider implements vscode.CustomTextEditorProvide
     _webviewPanel: vscode.WebviewPanel,
     document: vscode.TextDocument
   ) {
-    const edit = new vscode.WorkspaceEdit();
-    const text = document.getText();
-    const mapData = message.data;
-
-    // Update tiles section
-    const tilesMatch = text.match(/tiles\s*{[^}]+}/s);
-    if (tilesMatch) {
-      const newTiles = mapData.tiles.map((row: number[]) => row.join(' ')).join('\n');
-      const newTilesSection = `tiles{\n${newTiles}\n}`;
-      const start = document.positionAt(text.indexOf(tilesMatch[0]));
-      const end = document.positionAt(text.indexOf(tilesMatch[0]) + tilesMatch[0].length);
-      edit.replace(document.uri, new vscode.Range(start, end), newTilesSection);
-    }
+    try {
+      const edit = new vscode.WorkspaceEdit();
+      const text = document.getText();
+      const mapData = message.data;
+
+      // Update tiles section, leaving the rest of the level untouched
+      const parser = new DatFileParser(text);
+      if (parser.getSection('tiles')) {
+        const datFile = parser.parsePartial();
+        datFile.tiles = mapData.tiles;
+        const start = document.positionAt(0);
+        const end = document.positionAt(text.length);
+        edit.replace(
+          document.uri,
+          new vscode.Range(start, end),
+          new DatFileWriter({ source: parser }).write(datFile)
+        );
+      }
 
-    await vscode.workspace.applyEdit(edit);
+      const success = await vscode.workspace.applyEdit(edit);
+      if (!success) {
+        vscode.window.showErrorMessage('Failed to apply changes to the document');
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      vscode.window.showErrorMessage(`Error saving map: ${errorMessage}`);
+    }
   }
 
   private getNonce() {
@@ -0,0 +1,113 @@
+import {
+  createEntity,
+  getFloorZ,
+  moveEntity,
+  rotateEntity,
+  setEntityProperties,
+  toEntityMarkers,
+} from './entityLayer';
+import { Entity } from '../types/datFileTypes';
+
+describe('entityLayer', () => {
+  // Corner heights of a 2x2 map
+  const height = [
+    [0, 30, 60],
+    [0, 30, 60],
+    [90, 90, 90],
+  ];
+
+  function entityAt(type: string, x: number, y: number, z: number): Entity {
+    return {
+      type,
+      coordinates: {
+        translation: { x, y, z },
+        rotation: { p: 0, y: 90, r: 0 },
+        scale: { x: 1, y: 1, z: 1 },
+      },
+    };
+  }
+
+  describe('getFloorZ', () => {
+    it('should interpolate the tile triangle under an entity', () => {
+      expect(getFloorZ(height, 0, 0, false)).toBe(0);
+      expect(getFloorZ(height, 150, 150, false)).toBe(15);
+      expect(getFloorZ(height, 450, 450, false)).toBe(75);
+    });
+
+    it('should level buildings between the highest and lowest corner', () => {
+      expect(getFloorZ(height, 450, 450, true)).toBe(60);
+    });
+  });
+
+  describe('createEntity', () => {
+    it('should centre new entities on the tile with the next free ID', () => {
+      const creatures = [{ ...entityAt('CreatureSmallSpider_C', 0, 0, 0), properties: { ID: 4 } }];
+
+      const creature = createEntity('creatures', 'CreatureBat_C', 0, 1, creatures, height);
+
+      expect(creature.coordinates.translation).toEqual({ x: 450, y: 150, z: 45 + 27.15 });
+      expect(creature.properties).toEqual({ ID: 5 });
+    });
+
+    it('should write miners by ID with a drill', () => {
+      const miner = createEntity('miners', 'Miner', 1, 1, [], height);
+
+      expect(miner.type).toBe('ID=0');
+      expect(miner.flags).toEqual(['Drill/']);
+    });
+  });
+
+  describe('moveEntity', () => {
+    it('should keep the entity height above the floor', () => {
+      const vehicle = entityAt('VehicleHoverScout_C', 150, 150, 20);
+
+      expect(moveEntity(vehicle, 'vehicles', 1, 1, height).coordinates.translation).toEqual({
+        x: 450,
+        y: 450,
+        z: 80,
+      });
+    });
+  });
+
+  describe('rotateEntity', () => {
+    it('should keep yaw between -180 and 180', () => {
+      const building = entityAt('BuildingToolStore_C', 150, 150, 0);
+
+      expect(rotateEntity(building, 270).coordinates.rotation.y).toBe(-90);
+      expect(rotateEntity(building, -180).coordinates.rotation.y).toBe(-180);
+    });
+  });
+
+  describe('setEntityProperties', () => {
+    it('should parse inspector values and drop empty entries', () => {
+      const vehicle = entityAt('VehicleLMLC_C', 150, 150, 0);
+
+      const updated = setEntityProperties(vehicle, { ID: '3', Essential: 'True', ' ': 'x' }, [
+        ' UpEngine/ ',
+        '',
+      ]);
+
+      expect(updated.properties).toEqual({ ID: 3, Essential: true });
+      expect(updated.flags).toEqual(['UpEngine/']);
+    });
+  });
+
+  describe('toEntityMarkers', () => {
+    it('should give positions in tiles', () => {
+      const markers = toEntityMarkers('buildings', [entityAt('BuildingDocks_C', 450, 150, 0)]);
+
+      expect(markers).toEqual([
+        {
+          section: 'buildings',
+          index: 0,
+          type: 'BuildingDocks_C',
+          x: 1.5,
+          y: 0.5,
+          yaw: 90,
+          properties: {},
+          flags: [],
+        },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,183 @@
+import { parsePropertyValue } from '../parser/datFileParser';
+import { Entity, EntityPropertyValue } from '../types/datFileTypes';
+
+export type EntitySection = 'buildings' | 'vehicles' | 'creatures' | 'miners';
+
+// World units per tile along X (columns) and Y (rows)
+export const TILE_WORLD_SIZE = 300;
+
+// Height of each entity's origin above the floor, as the game places them
+const ENTITY_Z_OFFSETS: Record<string, number> = {
+  CreatureRockMonster_C: 138.15,
+  CreatureIceMonster_C: 138.15,
+  CreatureLavaMonster_C: 138.15,
+  CreatureSlimySlug_C: 62.15,
+  CreatureSmallSpider_C: 32.15,
+  CreatureBat_C: 27.15,
+};
+const MINER_Z_OFFSET = 52.15;
+
+/**
+ * Entity as drawn by the editor webview, positioned in tiles
+ */
+export interface EntityMarker {
+  section: EntitySection;
+  index: number;
+  type: string;
+  x: number;
+  y: number;
+  yaw: number;
+  properties: Record<string, EntityPropertyValue>;
+  flags: string[];
+}
+
+export function toEntityMarkers(section: EntitySection, entities: Entity[]): EntityMarker[] {
+  return entities.map((entity, index) => ({
+    section,
+    index,
+    type: entity.type,
+    x: entity.coordinates.translation.x / TILE_WORLD_SIZE,
+    y: entity.coordinates.translation.y / TILE_WORLD_SIZE,
+    yaw: entity.coordinates.rotation.y,
+    properties: entity.properties || {},
+    flags: entity.flags || [],
+  }));
+}
+
+/**
+ * Floor height under a world position. The height grid gives the height
+ * of each tile corner. Buildings sit level halfway between the tile's
+ * highest and lowest corner; everything else follows the two triangles
+ * the game splits each tile into.
+ */
+export function getFloorZ(height: number[][], x: number, y: number, building: boolean): number {
+  if (height.length === 0) {
+    return 0;
+  }
+
+  const tx = x / TILE_WORLD_SIZE;
+  const ty = y / TILE_WORLD_SIZE;
+  const col = Math.floor(tx);
+  const row = Math.floor(ty);
+  const corner = (r: number, c: number) => {
+    const heightRow = height[Math.max(0, Math.min(r, height.length - 1))];
+    return heightRow[Math.max(0, Math.min(c, heightRow.length - 1))] ?? 0;
+  };
+  const nw = corner(row, col);
+  const ne = corner(row, col + 1);
+  const sw = corner(row + 1, col);
+  const se = corner(row + 1, col + 1);
+
+  if (building) {
+    return (Math.max(nw, ne, sw, se) + Math.min(nw, ne, sw, se)) / 2;
+  }
+
+  const fx = tx - col;
+  const fy = ty - row;
+  if (fy <= 1 - fx) {
+    return nw + (ne - nw) * fx + (sw - nw) * fy;
+  }
+  return se + (sw - se) * (fx - 1) + (ne - se) * (fy - 1);
+}
+
+/**
+ * New entity in the middle of a tile, standing on the floor. Miners are
+ * written as 'ID=n' and vehicles and creatures carry an ID property, so
+ * each gets the next free ID of its section.
+ */
+export function createEntity(
+  section: EntitySection,
+  type: string,
+  row: number,
+  col: number,
+  entities: Entity[],
+  height: number[][]
+): Entity {
+  const x = (col + 0.5) * TILE_WORLD_SIZE;
+  const y = (row + 0.5) * TILE_WORLD_SIZE;
+  const offset = section === 'miners' ? MINER_Z_OFFSET : (ENTITY_Z_OFFSETS[type] ?? 0);
+  const nextId = Math.max(-1, ...entities.map(getEntityId).filter(id => !isNaN(id))) + 1;
+
+  const entity: Entity = {
+    type: section === 'miners' ? `ID=${nextId}` : type,
+    coordinates: {
+      translation: { x, y, z: getFloorZ(height, x, y, section === 'buildings') + offset },
+      rotation: { p: 0, y: 0, r: 0 },
+      scale: { x: 1, y: 1, z: 1 },
+    },
+  };
+  if (section === 'miners') {
+    entity.flags = ['Drill/'];
+  } else if (section !== 'buildings') {
+    entity.properties = { ID: nextId };
+  }
+  return entity;
+}
+
+/**
+ * Move an entity to the middle of another tile, keeping its height above
+ * the floor
+ */
+export function moveEntity(
+  entity: Entity,
+  section: EntitySection,
+  row: number,
+  col: number,
+  height: number[][]
+): Entity {
+  const { translation } = entity.coordinates;
+  const building = section === 'buildings';
+  const aboveFloor = translation.z - getFloorZ(height, translation.x, translation.y, building);
+  const x = (col + 0.5) * TILE_WORLD_SIZE;
+  const y = (row + 0.5) * TILE_WORLD_SIZE;
+
+  return {
+    ...entity,
+    coordinates: {
+      ...entity.coordinates,
+      translation: { x, y, z: getFloorZ(height, x, y, building) + aboveFloor },
+    },
+  };
+}
+
+/**
+ * Turn an entity to face a yaw in degrees, kept within -180 to 180
+ */
+export function rotateEntity(entity: Entity, yaw: number): Entity {
+  const normalized = ((((yaw + 180) % 360) + 360) % 360) - 180;
+  return {
+    ...entity,
+    coordinates: {
+      ...entity.coordinates,
+      rotation: { ...entity.coordinates.rotation, y: normalized },
+    },
+  };
+}
+
+/**
+ * Replace an entity's properties and flags with inspector text. Properties
+ * are 'key=value' pairs; flags are bare values like miner loadouts.
+ */
+export function setEntityProperties(
+  entity: Entity,
+  properties: Record<string, string>,
+  flags: string[]
+): Entity {
+  const updated: Entity = { type: entity.type, coordinates: entity.coordinates };
+  const entries = Object.entries(properties).filter(([key]) => key.trim());
+  if (entries.length > 0) {
+    updated.properties = Object.fromEntries(
+      entries.map(([key, value]) => [key.trim(), parsePropertyValue(value.trim())])
+    );
+  }
+  const bareFlags = flags.map(flag => flag.trim()).filter(Boolean);
+  if (bareFlags.length > 0) {
+    updated.flags = bareFlags;
+  }
+  return updated;
+}
+
+function getEntityId(entity: Entity): number {
+  const minerId = entity.type.match(/^ID=(\d+)/);
+  return minerId ? parseInt(minerId[1]) : Number(entity.properties?.ID);
+}
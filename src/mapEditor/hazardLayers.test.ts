@@ -0,0 +1,66 @@
+import { setHazardTiming } from './hazardLayers';
+import { LandslideGroup, LavaSpreadGroup } from '../types/datFileTypes';
+
+describe('hazardLayers', () => {
+  const landslides: LandslideGroup[] = [
+    {
+      interval: 30,
+      tiles: [
+        { row: 1, col: 1 },
+        { row: 1, col: 2 },
+      ],
+    },
+    { interval: 15, tiles: [{ row: 2, col: 2 }] },
+  ];
+
+  describe('setHazardTiming', () => {
+    it('should add tiles to the group with the same timing', () => {
+      const result = setHazardTiming(landslides, [{ row: 3, col: 3 }], { interval: 15 });
+
+      expect(result).toEqual([
+        landslides[0],
+        {
+          interval: 15,
+          tiles: [
+            { row: 2, col: 2 },
+            { row: 3, col: 3 },
+          ],
+        },
+      ]);
+    });
+
+    it('should move a tile out of its old group and drop emptied groups', () => {
+      const result = setHazardTiming(landslides, [{ row: 2, col: 2 }], { interval: 7.5 });
+
+      expect(result).toEqual([landslides[0], { interval: 7.5, tiles: [{ row: 2, col: 2 }] }]);
+    });
+
+    it('should erase tiles when no timing is given', () => {
+      const result = setHazardTiming(landslides, [
+        { row: 1, col: 1 },
+        { row: 9, col: 9 },
+      ]);
+
+      expect(result).toEqual([
+        { interval: 30, tiles: [{ row: 1, col: 2 }] },
+        { interval: 15, tiles: [{ row: 2, col: 2 }] },
+      ]);
+    });
+
+    it('should group lava spread by interval and delay', () => {
+      const lava: LavaSpreadGroup[] = [{ interval: 30, delay: 0, tiles: [{ row: 0, col: 0 }] }];
+
+      const result = setHazardTiming(
+        lava,
+        [
+          { row: 0, col: 1 },
+          { row: 0, col: 1 },
+        ],
+        { interval: 30, delay: 10 }
+      );
+
+      expect(result).toEqual([lava[0], { interval: 30, delay: 10, tiles: [{ row: 0, col: 1 }] }]);
+      expect(lava[0].tiles).toHaveLength(1);
+    });
+  });
+});
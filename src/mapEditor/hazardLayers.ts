@@ -0,0 +1,57 @@
+import { HazardTile, LandslideGroup, LavaSpreadGroup } from '../types/datFileTypes';
+
+export type HazardLayer = 'landslide' | 'lava';
+
+/**
+ * Give tiles a new timing in a landslidefrequency or lavaspread section, or
+ * remove their timing when none is given. A tile keeps only one timing, so it
+ * is taken out of whatever group held it, and tiles joining an existing
+ * timing go onto that group's line because the game ignores repeated ones.
+ */
+export function setHazardTiming<T extends LandslideGroup | LavaSpreadGroup>(
+  groups: T[],
+  tiles: HazardTile[],
+  timing?: Omit<T, 'tiles'>
+): T[] {
+  const unique = uniqueTiles(tiles);
+  const painted = new Set(unique.map(tileKey));
+  const result = groups.map(group => ({
+    ...group,
+    tiles: group.tiles.filter(tile => !painted.has(tileKey(tile))),
+  }));
+
+  if (timing) {
+    const existing = result.find(group => sameTiming(group, timing));
+    if (existing) {
+      existing.tiles.push(...unique);
+    } else {
+      result.push({ ...timing, tiles: unique } as T);
+    }
+  }
+
+  return result.filter(group => group.tiles.length > 0);
+}
+
+function sameTiming(
+  group: LandslideGroup | LavaSpreadGroup,
+  timing: Omit<LandslideGroup | LavaSpreadGroup, 'tiles'>
+): boolean {
+  const delay = (value: object) => ('delay' in value ? value.delay : undefined);
+  return group.interval === timing.interval && delay(group) === delay(timing);
+}
+
+function uniqueTiles(tiles: HazardTile[]): HazardTile[] {
+  const seen = new Set<string>();
+  return tiles.filter(tile => {
+    const key = tileKey(tile);
+    if (seen.has(key)) {
+      return false;
+    }
+    seen.add(key);
+    return true;
+  });
+}
+
+function tileKey(tile: HazardTile): string {
+  return `${tile.row},${tile.col}`;
+}
@@ -0,0 +1,104 @@
+import { mirrorCell, sculptHeights } from './heightSculpting';
+
+describe('heightSculpting', () => {
+  const height = [
+    [0, 10, 20],
+    [10, 20, 30],
+    [20, 30, 40],
+  ];
+
+  describe('sculptHeights', () => {
+    it('should raise and lower cells without going below 0', () => {
+      expect(sculptHeights(height, [{ row: 1, col: 1 }], 'raise', { strength: 5 })).toEqual([
+        { row: 1, col: 1, oldHeight: 20, newHeight: 25 },
+      ]);
+      expect(
+        sculptHeights(
+          height,
+          [
+            { row: 0, col: 0 },
+            { row: 0, col: 1 },
+          ],
+          'lower',
+          { strength: 15 }
+        )
+      ).toEqual([{ row: 0, col: 1, oldHeight: 10, newHeight: 0 }]);
+    });
+
+    it('should smooth from the heights before the stroke', () => {
+      const changes = sculptHeights(
+        height,
+        [
+          { row: 0, col: 0 },
+          { row: 1, col: 1 },
+        ],
+        'smooth',
+        { strength: 1 }
+      );
+
+      expect(changes).toEqual([{ row: 0, col: 0, oldHeight: 0, newHeight: 10 }]);
+    });
+
+    it('should flatten to a value', () => {
+      const changes = sculptHeights(height, [{ row: 2, col: 2 }], 'flatten', {
+        strength: 1,
+        value: 12,
+      });
+
+      expect(changes).toEqual([{ row: 2, col: 2, oldHeight: 40, newHeight: 12 }]);
+    });
+
+    it('should repeat noise for the same seed', () => {
+      const cells = [
+        { row: 1, col: 0 },
+        { row: 1, col: 1 },
+        { row: 1, col: 2 },
+      ];
+      const first = sculptHeights(height, cells, 'noise', { strength: 10, seed: 42 });
+
+      expect(sculptHeights(height, cells, 'noise', { strength: 10, seed: 42 })).toEqual(first);
+      for (const change of first) {
+        expect(Math.abs(change.newHeight - change.oldHeight)).toBeLessThanOrEqual(10);
+      }
+    });
+
+    it('should ramp between the heights at each end', () => {
+      const flat = [
+        [0, 50, 50, 50, 100],
+        [0, 0, 0, 0, 0],
+      ];
+      const cells = [0, 1, 2, 3, 4].map(col => ({ row: 0, col }));
+
+      const changes = sculptHeights(flat, cells, 'ramp', {
+        strength: 1,
+        ramp: { start: { row: 0, col: 0 }, end: { row: 0, col: 4 } },
+      });
+
+      expect(changes.map(change => change.newHeight)).toEqual([25, 75]);
+    });
+
+    it('should give mirrored cells the same new height', () => {
+      const changes = sculptHeights(height, [{ row: 0, col: 0 }], 'flatten', {
+        strength: 1,
+        value: 5,
+        mirror: 'both',
+      });
+
+      expect(changes).toEqual([
+        { row: 0, col: 0, oldHeight: 0, newHeight: 5 },
+        { row: 0, col: 2, oldHeight: 20, newHeight: 5 },
+        { row: 2, col: 0, oldHeight: 20, newHeight: 5 },
+        { row: 2, col: 2, oldHeight: 40, newHeight: 5 },
+      ]);
+    });
+  });
+
+  describe('mirrorCell', () => {
+    it('should mirror across the middle of the grid', () => {
+      expect(mirrorCell({ row: 0, col: 1 }, 'vertical', height)).toEqual([
+        { row: 0, col: 1 },
+        { row: 2, col: 1 },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,154 @@
+export type HeightBrush = 'raise' | 'lower' | 'smooth' | 'flatten' | 'noise' | 'ramp';
+
+export type MirrorMode = 'off' | 'horizontal' | 'vertical' | 'both';
+
+export interface HeightCell {
+  row: number;
+  col: number;
+}
+
+export interface HeightChange extends HeightCell {
+  oldHeight: number;
+  newHeight: number;
+}
+
+export interface HeightBrushOptions {
+  // Height added or removed by raise, lower and noise
+  strength: number;
+  // Target height for flatten
+  value?: number;
+  // Cells the ramp runs between, taking their current heights
+  ramp?: { start: HeightCell; end: HeightCell };
+  seed?: number;
+  mirror?: MirrorMode;
+}
+
+const MIN_HEIGHT = 0;
+
+/**
+ * Work out the new height of each brushed cell. Every brush reads the
+ * grid as it was before the stroke, so the order of cells does not
+ * matter. Mirrored cells copy the height of the cell they mirror, which
+ * keeps symmetric maps symmetric even for noise and ramps.
+ */
+export function sculptHeights(
+  height: number[][],
+  cells: HeightCell[],
+  brush: HeightBrush,
+  options: HeightBrushOptions
+): HeightChange[] {
+  const random = createRandom(options.seed ?? 1);
+  const result = new Map<string, HeightChange>();
+
+  for (const cell of cells) {
+    const oldHeight = height[cell.row]?.[cell.col];
+    if (oldHeight === undefined || result.has(cellKey(cell))) {
+      continue;
+    }
+
+    let newHeight: number;
+    switch (brush) {
+      case 'raise':
+        newHeight = oldHeight + options.strength;
+        break;
+      case 'lower':
+        newHeight = oldHeight - options.strength;
+        break;
+      case 'flatten':
+        newHeight = options.value ?? oldHeight;
+        break;
+      case 'noise':
+        newHeight = oldHeight + (random() * 2 - 1) * options.strength;
+        break;
+      case 'smooth':
+        newHeight = averageAround(height, cell);
+        break;
+      case 'ramp':
+        newHeight = options.ramp ? rampHeight(height, cell, options.ramp) : oldHeight;
+        break;
+    }
+    newHeight = Math.max(MIN_HEIGHT, Math.round(newHeight));
+
+    for (const target of mirrorCell(cell, options.mirror ?? 'off', height)) {
+      const targetHeight = height[target.row][target.col];
+      if (!result.has(cellKey(target))) {
+        result.set(cellKey(target), { ...target, oldHeight: targetHeight, newHeight });
+      }
+    }
+  }
+
+  return Array.from(result.values()).filter(change => change.newHeight !== change.oldHeight);
+}
+
+/**
+ * A cell and its mirror images across the middle of the grid
+ */
+export function mirrorCell(cell: HeightCell, mirror: MirrorMode, grid: number[][]): HeightCell[] {
+  const lastRow = grid.length - 1;
+  const lastCol = (grid[cell.row]?.length ?? 0) - 1;
+  const cells = [cell];
+  if (mirror === 'horizontal' || mirror === 'both') {
+    cells.push({ row: cell.row, col: lastCol - cell.col });
+  }
+  if (mirror === 'vertical' || mirror === 'both') {
+    cells.push({ row: lastRow - cell.row, col: cell.col });
+  }
+  if (mirror === 'both') {
+    cells.push({ row: lastRow - cell.row, col: lastCol - cell.col });
+  }
+  return cells.filter(c => grid[c.row]?.[c.col] !== undefined);
+}
+
+function averageAround(height: number[][], cell: HeightCell): number {
+  let total = 0;
+  let count = 0;
+  for (let dr = -1; dr <= 1; dr++) {
+    for (let dc = -1; dc <= 1; dc++) {
+      const value = height[cell.row + dr]?.[cell.col + dc];
+      if (value !== undefined) {
+        total += value;
+        count++;
+      }
+    }
+  }
+  return total / count;
+}
+
+function rampHeight(
+  height: number[][],
+  cell: HeightCell,
+  ramp: { start: HeightCell; end: HeightCell }
+): number {
+  const { start, end } = ramp;
+  const startHeight = height[start.row]?.[start.col] ?? 0;
+  const endHeight = height[end.row]?.[end.col] ?? 0;
+  const dr = end.row - start.row;
+  const dc = end.col - start.col;
+  const length = dr * dr + dc * dc;
+  if (length === 0) {
+    return startHeight;
+  }
+
+  // Position of the cell along the ramp, from 0 at the start to 1 at the end
+  const t = Math.max(
+    0,
+    Math.min(1, ((cell.row - start.row) * dr + (cell.col - start.col) * dc) / length)
+  );
+  return startHeight + (endHeight - startHeight) * t;
+}
+
+// Small seeded generator so a noise stroke can be repeated exactly
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function cellKey(cell: HeightCell): string {
+  return `${cell.row},${cell.col}`;
+}
@@ -17,6 +17,24 @@ export function registerMapEditorCommands(context: vscode.ExtensionContext): voi
     );
   });
 
+  // Open visual blocks editor command
+  const openBlocksEditor = vscode.commands.registerCommand(
+    'manicMiners.openBlocksEditor',
+    async () => {
+      const editor = vscode.window.activeTextEditor;
+      if (!editor || !editor.document.fileName.endsWith('.dat')) {
+        vscode.window.showErrorMessage('Please open a .dat file to use the visual blocks editor');
+        return;
+      }
+
+      await vscode.commands.executeCommand(
+        'vscode.openWith',
+        editor.document.uri,
+        'manicMiners.blocksEditor'
+      );
+    }
+  );
+
   // Switch to text editor command
   const switchToTextEditor = vscode.commands.registerCommand(
     'manicMiners.switchToTextEditor',
@@ -31,5 +49,5 @@ export function registerMapEditorCommands(context: vscode.ExtensionContext): voi
     }
   );
 
-  context.subscriptions.push(openMapEditor, switchToTextEditor);
+  context.subscriptions.push(openMapEditor, openBlocksEditor, switchToTextEditor);
 }
@@ -155,6 +155,60 @@ height{
       );
     });
 
+    it('should place entities on the floor height', async () => {
+      const applyEditSpy = jest.spyOn(vscode.workspace, 'applyEdit').mockResolvedValue(true);
+
+      await messageHandler({
+        type: 'editEntity',
+        action: 'place',
+        section: 'creatures',
+        entityType: 'CreatureRockMonster_C',
+        row: 2,
+        col: 3,
+      });
+
+      const edit = applyEditSpy.mock.calls[applyEditSpy.mock.calls.length - 1][0] as any;
+      expect(edit.replace.mock.calls[0][2]).toContain(
+        'creatures{\nCreatureRockMonster_C\n' +
+          'Translation: X=1050.000 Y=750.000 Z=148.150 Rotation: P=0.000000 Y=0.000000 R=0.000000 Scale X=1.000 Y=1.000 Z=1.000\n' +
+          'ID=0\n}'
+      );
+    });
+
+    it('should sculpt heights line by line with mirroring', async () => {
+      const applyEditSpy = jest.spyOn(vscode.workspace, 'applyEdit').mockResolvedValue(true);
+
+      await messageHandler({
+        type: 'sculptHeight',
+        brush: 'raise',
+        cells: [{ row: 1, col: 2 }],
+        options: { strength: 5, mirror: 'horizontal' },
+        description: 'Raise',
+      });
+
+      const edit = applyEditSpy.mock.calls[applyEditSpy.mock.calls.length - 1][0] as any;
+      expect(edit.replace).toHaveBeenCalledTimes(1);
+      const [, range, text] = edit.replace.mock.calls[0];
+      expect(range.start.line).toBe(18);
+      expect(text).toBe('10,10,15,10,10,10,10,15,10,10');
+    });
+
+    it('should paint loose resources into a new grid', async () => {
+      const applyEditSpy = jest.spyOn(vscode.workspace, 'applyEdit').mockResolvedValue(true);
+
+      await messageHandler({
+        type: 'paintResources',
+        resourceType: 'crystals',
+        tiles: [{ row: 0, col: 1 }],
+        count: 4,
+      });
+
+      const edit = applyEditSpy.mock.calls[applyEditSpy.mock.calls.length - 1][0] as any;
+      expect(edit.replace.mock.calls[0][2]).toContain(
+        'resources{\ncrystals:\n0,4,0,0,0,0,0,0,0,0,\n0,0,0,0,0,0,0,0,0,0,'
+      );
+    });
+
     it('should handle getTemplates message', async () => {
       await messageHandler({
         type: 'getTemplates',
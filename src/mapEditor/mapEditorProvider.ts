@@ -1,5 +1,6 @@
 import * as vscode from 'vscode';
 import { DatFileParser } from '../parser/datFileParser';
+import { DatFileWriter } from '../parser/datFileWriter';
 import { EditHistory, MapEdit, EditChange } from '../undoRedo/editHistory';
 import { getTileColor } from '../mapPreview/colorMap';
 import { getTileName } from '../data/tileDefinitions';
@@ -8,6 +9,33 @@ import { MapEditorValidator } from './mapEditorValidator';
 import { MapTemplateManager, MapTemplate } from './mapTemplates';
 import { AdvancedSelectionTool, SelectionMode, SelectionRegion } from './advancedSelection';
 import { ANIMATABLE_TILES } from './tileAnimation';
+import { HazardLayer, setHazardTiming } from './hazardLayers';
+import {
+  HeightBrush,
+  HeightBrushOptions,
+  HeightCell,
+  HeightChange,
+  sculptHeights,
+} from './heightSculpting';
+import { paintResources, RESOURCE_TYPES, ResourceType } from './resourceLayer';
+import {
+  createEntity,
+  EntityMarker,
+  EntitySection,
+  moveEntity,
+  rotateEntity,
+  setEntityProperties,
+  toEntityMarkers,
+} from './entityLayer';
+import {
+  BuildingType,
+  CreatureType,
+  DatFile,
+  HazardTile,
+  LandslideGroup,
+  LavaSpreadGroup,
+  VehicleType,
+} from '../types/datFileTypes';
 
 export interface PaintTool {
   type:
@@ -21,7 +49,11 @@ export interface PaintTool {
     | 'magic_wand'
     | 'lasso'
     | 'ellipse'
-    | 'polygon';
+    | 'polygon'
+    | 'hazard'
+    | 'entity'
+    | 'height'
+    | 'resource';
   size: number;
   tileId: number;
   mirrorMode?: 'horizontal' | 'vertical' | 'both' | 'off';
@@ -59,6 +91,8 @@ export interface MapLayer {
 const MAX_MAP_DIMENSION = 500;
 const MAX_TILE_ID = 115;
 const MIN_TILE_ID = 1;
+const ENTITY_SECTIONS: EntitySection[] = ['buildings', 'vehicles', 'creatures', 'miners'];
+const HEIGHT_BRUSHES: HeightBrush[] = ['raise', 'lower', 'smooth', 'flatten', 'noise', 'ramp'];
 
 export class MapEditorProvider implements vscode.CustomTextEditorProvider {
   private static readonly viewType = 'manicMiners.mapEditor';
@@ -107,6 +141,35 @@ export class MapEditorProvider implements vscode.CustomTextEditorProvider {
         case 'paint':
           await this.handlePaint(document, message.tiles, message.description);
           break;
+        case 'paintHazards':
+          await this.handlePaintHazards(
+            document,
+            message.layers,
+            message.tiles,
+            message.interval,
+            message.delay
+          );
+          break;
+        case 'paintResources':
+          await this.handlePaintResources(
+            document,
+            message.resourceType,
+            message.tiles,
+            message.count
+          );
+          break;
+        case 'sculptHeight':
+          await this.handleSculptHeight(
+            document,
+            message.cells,
+            message.brush,
+            message.options,
+            message.description
+          );
+          break;
+        case 'editEntity':
+          await this.handleEditEntity(document, message);
+          break;
         case 'undo':
           await this.handleUndo(document);
           break;
@@ -206,6 +269,7 @@ export class MapEditorProvider implements vscode.CustomTextEditorProvider {
           break;
         case 'saveAsTemplate':
           await this.handleSaveAsTemplate(
+            document,
             webviewPanel.webview,
             message.name,
             message.description,
@@ -374,6 +438,327 @@ export class MapEditorProvider implements vscode.CustomTextEditorProvider {
     }
   }
 
+  /**
+   * Set or erase the landslide and lava spread timings of tiles. An undefined
+   * interval erases their timing.
+   */
+  private async handlePaintHazards(
+    document: vscode.TextDocument,
+    layers: HazardLayer[],
+    tiles: HazardTile[],
+    interval?: number,
+    delay?: number
+  ): Promise<void> {
+    try {
+      if (!Array.isArray(tiles) || tiles.length === 0 || !Array.isArray(layers)) {
+        vscode.window.showErrorMessage('Invalid hazard data received');
+        return;
+      }
+      if (interval !== undefined && !(interval > 0)) {
+        vscode.window.showErrorMessage(`Invalid hazard interval: ${interval}. Must be above 0`);
+        return;
+      }
+      if (layers.includes('lava') && interval !== undefined && !((delay ?? 0) >= 0)) {
+        vscode.window.showErrorMessage(`Invalid lava spread delay: ${delay}. Must be 0 or more`);
+        return;
+      }
+
+      const parser = new DatFileParser(document.getText());
+      const datFile: Partial<DatFile> = parser.parsePartial();
+      const inMap = tiles.filter(
+        tile =>
+          tile.row >= 0 &&
+          tile.col >= 0 &&
+          tile.row < (datFile.info?.rowcount ?? 0) &&
+          tile.col < (datFile.info?.colcount ?? 0)
+      );
+
+      if (layers.includes('landslide')) {
+        datFile.landslidefrequency = setHazardTiming<LandslideGroup>(
+          datFile.landslidefrequency || [],
+          inMap,
+          interval !== undefined ? { interval } : undefined
+        );
+      }
+      if (layers.includes('lava')) {
+        datFile.lavaspread = setHazardTiming<LavaSpreadGroup>(
+          datFile.lavaspread || [],
+          inMap,
+          interval !== undefined ? { interval, delay: delay ?? 0 } : undefined
+        );
+      }
+
+      await this.replaceDocument(
+        document,
+        parser,
+        datFile,
+        interval === undefined
+          ? `Erase ${layers.join(' and ')} timing on ${inMap.length} tiles`
+          : `Set ${layers.join(' and ')} timing on ${inMap.length} tiles`
+      );
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      vscode.window.showErrorMessage(`Error painting hazards: ${errorMessage}`);
+    }
+  }
+
+  private async handlePaintResources(
+    document: vscode.TextDocument,
+    resourceType: ResourceType,
+    tiles: HazardTile[],
+    count: number
+  ): Promise<void> {
+    try {
+      if (!Array.isArray(tiles) || tiles.length === 0 || !RESOURCE_TYPES.includes(resourceType)) {
+        vscode.window.showErrorMessage('Invalid resource data received');
+        return;
+      }
+      if (!Number.isInteger(count) || count < 0) {
+        vscode.window.showErrorMessage(
+          `Invalid ${resourceType} count: ${count}. Must be a whole number of 0 or more`
+        );
+        return;
+      }
+
+      const parser = new DatFileParser(document.getText());
+      const datFile: Partial<DatFile> = parser.parsePartial();
+      if (!datFile.info) {
+        vscode.window.showErrorMessage('No info section found in document');
+        return;
+      }
+
+      datFile.resources = paintResources(
+        datFile.resources,
+        resourceType,
+        tiles,
+        count,
+        datFile.info
+      );
+
+      await this.replaceDocument(
+        document,
+        parser,
+        datFile,
+        count === 0
+          ? `Erase ${resourceType} on ${tiles.length} tiles`
+          : `Set ${resourceType} to ${count} on ${tiles.length} tiles`
+      );
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      vscode.window.showErrorMessage(`Error painting resources: ${errorMessage}`);
+    }
+  }
+
+  private async handleSculptHeight(
+    document: vscode.TextDocument,
+    cells: HeightCell[],
+    brush: HeightBrush,
+    options: HeightBrushOptions,
+    description: string
+  ): Promise<void> {
+    try {
+      if (!Array.isArray(cells) || cells.length === 0 || !options) {
+        vscode.window.showErrorMessage('Invalid height data received');
+        return;
+      }
+      if (!HEIGHT_BRUSHES.includes(brush)) {
+        vscode.window.showErrorMessage(`Unknown height brush: ${brush}`);
+        return;
+      }
+      if (brush === 'flatten' && !(typeof options.value === 'number' && options.value >= 0)) {
+        vscode.window.showErrorMessage(
+          `Invalid flatten height: ${options.value}. Must be 0 or more`
+        );
+        return;
+      }
+
+      const parser = new DatFileParser(document.getText());
+      const heightSection = parser.getSection('height');
+      const height = parser.parsePartial().height;
+      if (!heightSection || !height) {
+        vscode.window.showErrorMessage('No height section found in document');
+        return;
+      }
+
+      const changes = sculptHeights(height, cells, brush, options);
+      if (changes.length === 0) {
+        return;
+      }
+
+      // Grid rows come from the non-empty lines of the section
+      const lines = document.getText().split(/\r?\n/);
+      const rowLines: number[] = [];
+      for (let line = heightSection.startLine + 1; line < heightSection.endLine; line++) {
+        if (lines[line].trim()) {
+          rowLines.push(line);
+        }
+      }
+
+      const changesByRow = new Map<number, HeightChange[]>();
+      for (const change of changes) {
+        changesByRow.set(change.row, [...(changesByRow.get(change.row) || []), change]);
+      }
+
+      const edit = new vscode.WorkspaceEdit();
+      const editChanges: EditChange[] = [];
+      for (const [row, rowChanges] of changesByRow) {
+        const lineIndex = rowLines[row];
+        const oldLine = lines[lineIndex];
+        const values = oldLine.split(',');
+        for (const change of rowChanges) {
+          values[change.col] = values[change.col].replace(/-?\d+/, String(change.newHeight));
+        }
+        const newLine = values.join(',');
+
+        // Cover the longer of the two lines so undo and redo both replace all of it
+        const range = new vscode.Range(
+          new vscode.Position(lineIndex, 0),
+          new vscode.Position(lineIndex, Math.max(oldLine.length, newLine.length))
+        );
+        edit.replace(document.uri, range, newLine);
+        editChanges.push({ range, oldText: oldLine, newText: newLine });
+      }
+
+      const mapEdit: MapEdit = {
+        id: Date.now().toString(),
+        timestamp: new Date(),
+        description,
+        documentUri: document.uri,
+        changes: editChanges,
+      };
+
+      const success = await vscode.workspace.applyEdit(edit);
+      if (success) {
+        this.editHistory.addEdit(mapEdit);
+      } else {
+        vscode.window.showErrorMessage('Failed to apply changes to the document');
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      vscode.window.showErrorMessage(`Error sculpting heights: ${errorMessage}`);
+    }
+  }
+
+  private async handleEditEntity(
+    document: vscode.TextDocument,
+    message: {
+      action: 'place' | 'move' | 'rotate' | 'delete' | 'update';
+      section: EntitySection;
+      index?: number;
+      entityType?: string;
+      row?: number;
+      col?: number;
+      yaw?: number;
+      properties?: Record<string, string>;
+      flags?: string[];
+    }
+  ): Promise<void> {
+    try {
+      const { action, section, index = -1 } = message;
+      if (!ENTITY_SECTIONS.includes(section)) {
+        vscode.window.showErrorMessage('Invalid entity data received');
+        return;
+      }
+
+      const parser = new DatFileParser(document.getText());
+      const datFile: Partial<DatFile> = parser.parsePartial();
+      const entities = [...(datFile[section] || [])];
+      const height = datFile.height || [];
+      const { row = -1, col = -1 } = message;
+      const inMap =
+        row >= 0 &&
+        col >= 0 &&
+        row < (datFile.info?.rowcount ?? 0) &&
+        col < (datFile.info?.colcount ?? 0);
+
+      if (action !== 'place' && !entities[index]) {
+        vscode.window.showErrorMessage(`No entity ${index} in ${section}`);
+        return;
+      }
+      if ((action === 'place' || action === 'move') && !inMap) {
+        vscode.window.showErrorMessage(`Tile ${row},${col} is outside the map`);
+        return;
+      }
+
+      let description: string;
+      switch (action) {
+        case 'place':
+          if (!message.entityType) {
+            vscode.window.showErrorMessage('No entity type selected');
+            return;
+          }
+          entities.push(createEntity(section, message.entityType, row, col, entities, height));
+          description = `Place ${message.entityType} at ${row},${col}`;
+          break;
+        case 'move':
+          entities[index] = moveEntity(entities[index], section, row, col, height);
+          description = `Move ${entities[index].type} to ${row},${col}`;
+          break;
+        case 'rotate':
+          entities[index] = rotateEntity(entities[index], message.yaw ?? 0);
+          description = `Rotate ${entities[index].type}`;
+          break;
+        case 'update':
+          entities[index] = setEntityProperties(
+            entities[index],
+            message.properties || {},
+            message.flags || []
+          );
+          description = `Edit ${entities[index].type} properties`;
+          break;
+        case 'delete':
+          description = `Delete ${entities[index].type}`;
+          entities.splice(index, 1);
+          break;
+        default:
+          return;
+      }
+
+      datFile[section] = entities;
+      await this.replaceDocument(document, parser, datFile, description);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      vscode.window.showErrorMessage(`Error editing entities: ${errorMessage}`);
+    }
+  }
+
+  /**
+   * Write an edited DatFile back over the document and record it for undo
+   */
+  private async replaceDocument(
+    document: vscode.TextDocument,
+    parser: DatFileParser,
+    datFile: Partial<DatFile>,
+    description: string
+  ): Promise<void> {
+    const oldText = parser.getText();
+    const newText = new DatFileWriter({ source: parser }).write(datFile);
+    if (newText === oldText) {
+      return;
+    }
+
+    // The whole document is replaced, so undo and redo swap the full text
+    const lineCount = Math.max(document.lineCount, newText.split('\n').length);
+    const range = new vscode.Range(0, 0, lineCount, 0);
+    const edit = new vscode.WorkspaceEdit();
+    edit.replace(document.uri, range, newText);
+
+    const mapEdit: MapEdit = {
+      id: Date.now().toString(),
+      timestamp: new Date(),
+      description,
+      documentUri: document.uri,
+      changes: [{ range, oldText, newText }],
+    };
+
+    const success = await vscode.workspace.applyEdit(edit);
+    if (success) {
+      this.editHistory.addEdit(mapEdit);
+    } else {
+      vscode.window.showErrorMessage('Failed to apply changes to the document');
+    }
+  }
+
   private async handleUndo(document: vscode.TextDocument): Promise<void> {
     try {
       const edit = this.editHistory.undo();
@@ -916,7 +1301,18 @@ export class MapEditorProvider implements vscode.CustomTextEditorProvider {
         return;
       }
 
-      webview.html = this.getHtmlContent(webview, datFile.tiles, datFile.info);
+      webview.html = this.getHtmlContent(
+        webview,
+        datFile.tiles,
+        datFile.info,
+        {
+          landslides: datFile.landslidefrequency || [],
+          lavaSpread: datFile.lavaspread || [],
+        },
+        ENTITY_SECTIONS.flatMap(section => toEntityMarkers(section, datFile[section] || [])),
+        datFile.height || [],
+        datFile.resources || {}
+      );
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       webview.html = this.getErrorHtml(errorMessage);
@@ -926,7 +1322,11 @@ export class MapEditorProvider implements vscode.CustomTextEditorProvider {
   private getHtmlContent(
     webview: vscode.Webview,
     tiles: number[][],
-    info: { rowcount: number; colcount: number }
+    info: { rowcount: number; colcount: number },
+    hazards: { landslides: LandslideGroup[]; lavaSpread: LavaSpreadGroup[] },
+    entities: EntityMarker[],
+    heights: number[][],
+    resources: NonNullable<DatFile['resources']>
   ): string {
     const scriptUri = webview.asWebviewUri(
       vscode.Uri.joinPath(this.context.extensionUri, 'media', 'mapEditor.js')
@@ -983,6 +1383,62 @@ export class MapEditorProvider implements vscode.CustomTextEditorProvider {
             <button class="tool-btn" data-tool="picker" title="Picker (K)">💉 Picker</button>
             <button class="tool-btn" data-tool="select" title="Select (S)">⬛ Select</button>
             <button class="tool-btn" data-tool="stamp" title="Stamp (T)">🎨 Stamp</button>
+            <button class="tool-btn" data-tool="hazard" title="Hazard Timing">⚠️ Hazard</button>
+            <button class="tool-btn" data-tool="entity" title="Place Entities (N)">🚜 Entity</button>
+            <button class="tool-btn" data-tool="height" title="Sculpt Height (U)">⛰️ Height</button>
+            <button class="tool-btn" data-tool="resource" title="Paint Resources (X)">💎 Resource</button>
+          </div>
+          
+          <div class="tool-group" id="hazardOptions" style="display: none;">
+            <label>Hazard:</label>
+            <select id="hazardType">
+              <option value="landslide">Landslide</option>
+              <option value="lava">Lava Spread</option>
+              <option value="erase">Erase</option>
+            </select>
+            <label>Interval:</label>
+            <input type="number" id="hazardInterval" min="0.1" step="0.1" value="30">
+            <label id="hazardDelayLabel" style="display: none;">Delay:</label>
+            <input type="number" id="hazardDelay" min="0" step="0.1" value="0" style="display: none;">
+          </div>
+          
+          <div class="tool-group" id="entityOptions" style="display: none;">
+            <label>Entity:</label>
+            <select id="entitySection">
+              <option value="buildings">Buildings</option>
+              <option value="vehicles">Vehicles</option>
+              <option value="creatures">Creatures</option>
+              <option value="miners">Miners</option>
+            </select>
+            <select id="entityType"></select>
+            <button id="rotateEntityBtn" title="Rotate Selected Entity (R)">⟳ Rotate</button>
+            <button id="deleteEntityBtn" title="Delete Selected Entity (Delete)">🗑️ Remove</button>
+          </div>
+          
+          <div class="tool-group" id="resourceOptions" style="display: none;">
+            <label>Resource:</label>
+            <select id="resourceType">
+              <option value="crystals">Crystals</option>
+              <option value="ore">Ore</option>
+            </select>
+            <label>Count:</label>
+            <input type="number" id="resourceCount" min="0" step="1" value="1" title="0 erases">
+          </div>
+          
+          <div class="tool-group" id="heightOptions" style="display: none;">
+            <label>Brush:</label>
+            <select id="heightBrush">
+              <option value="raise">Raise</option>
+              <option value="lower">Lower</option>
+              <option value="smooth">Smooth</option>
+              <option value="flatten">Flatten</option>
+              <option value="noise">Noise</option>
+              <option value="ramp">Ramp</option>
+            </select>
+            <label>Strength:</label>
+            <input type="number" id="heightStrength" min="1" step="1" value="10">
+            <label id="heightValueLabel" style="display: none;">Height:</label>
+            <input type="number" id="heightValue" min="0" step="1" value="0" style="display: none;">
           </div>
           
           <div class="tool-group">
@@ -1035,6 +1491,10 @@ export class MapEditorProvider implements vscode.CustomTextEditorProvider {
           
           <div class="tool-group">
             <button id="gridToggleBtn" class="active" title="Toggle Grid (G)">⊞ Grid</button>
+            <button id="hazardToggleBtn" class="active" title="Toggle Hazard Overlay">⚠️ Hazards</button>
+            <button id="entityToggleBtn" class="active" title="Toggle Entity Layer">🚜 Entities</button>
+            <button id="heightToggleBtn" title="Toggle Elevation Overlay">⛰️ Elevation</button>
+            <button id="resourceToggleBtn" class="active" title="Toggle Resource Overlay">💎 Resources</button>
           </div>
           
           <div class="tool-group">
@@ -1091,6 +1551,18 @@ export class MapEditorProvider implements vscode.CustomTextEditorProvider {
             <input type="number" id="customTileId" min="1" max="115" placeholder="Custom ID">
             <button id="addCustomTile">Add Custom</button>
             
+            <div id="entityInspector" style="display: none;">
+              <h3>Entity</h3>
+              <div id="entityInspectorTitle"></div>
+              <label>Yaw:</label>
+              <input type="number" id="entityYaw" step="15">
+              <label>Properties (key=value, one per line):</label>
+              <textarea id="entityProperties" rows="4"></textarea>
+              <label>Flags (e.g. Drill/JobDriver/):</label>
+              <input type="text" id="entityFlags">
+              <button id="applyEntityBtn">Apply</button>
+            </div>
+            
             <h3>Minimap</h3>
             <div id="minimapContainer">
               <canvas id="minimap"></canvas>
@@ -1138,6 +1610,16 @@ export class MapEditorProvider implements vscode.CustomTextEditorProvider {
         let mapLayers = ${JSON.stringify(layers)};
         let currentLayerId = 'base';
         const animatableTiles = ${JSON.stringify(ANIMATABLE_TILES)};
+        const hazards = ${JSON.stringify(hazards)};
+        const entities = ${JSON.stringify(entities)};
+        const heights = ${JSON.stringify(heights)};
+        const resources = ${JSON.stringify(resources)};
+        const entityPalettes = ${JSON.stringify({
+          buildings: Object.values(BuildingType),
+          vehicles: Object.values(VehicleType),
+          creatures: Object.values(CreatureType),
+          miners: ['Miner'],
+        })};
       </script>
       
       <!-- Template Gallery -->
@@ -1255,6 +1737,7 @@ export class MapEditorProvider implements vscode.CustomTextEditorProvider {
           difficulty: t.difficulty,
           size: t.size,
           tiles: t.tiles,
+          resources: t.resources,
           objectives: t.objectives,
           info: t.info,
         })),
@@ -1280,6 +1763,9 @@ export class MapEditorProvider implements vscode.CustomTextEditorProvider {
 
       // Update tiles
       datFile.tiles = template.tiles;
+      if (template.resources) {
+        datFile.resources = template.resources;
+      }
 
       // Note: Template objectives are simple strings, not parsed Objective types
       // They would need to be parsed properly to convert to Objective[] type
@@ -1289,8 +1775,8 @@ export class MapEditorProvider implements vscode.CustomTextEditorProvider {
         Object.assign(datFile.info, template.info);
       }
 
-      // Convert back to .dat format
-      const newContent = this.serializeDatFile(datFile);
+      // Convert back to .dat format, keeping untouched sections as they were
+      const newContent = new DatFileWriter({ source: parser }).write(datFile);
 
       // Apply the edit
       const edit = new vscode.WorkspaceEdit();
@@ -1312,6 +1798,7 @@ export class MapEditorProvider implements vscode.CustomTextEditorProvider {
   }
 
   private async handleSaveAsTemplate(
+    document: vscode.TextDocument,
     webview: vscode.Webview,
     name: string,
     description: string,
@@ -1323,7 +1810,8 @@ export class MapEditorProvider implements vscode.CustomTextEditorProvider {
         name,
         description,
         tiles,
-        objectives
+        objectives,
+        new DatFileParser(document.getText()).parsePartial().resources
       );
 
       // Save to workspace state
@@ -1518,71 +2006,6 @@ export class MapEditorProvider implements vscode.CustomTextEditorProvider {
     }
   }
 
-  private serializeDatFile(datFile: any): string {
-    let content = '';
-
-    // Info section
-    content += '[info]\n';
-    content += `rowcount:${datFile.info.rowcount}\n`;
-    content += `colcount:${datFile.info.colcount}\n`;
-    if (datFile.info.camerapos) {
-      content += `camerapos:${datFile.info.camerapos}\n`;
-    }
-    if (datFile.info.biome) {
-      content += `biome:${datFile.info.biome}\n`;
-    }
-    if (datFile.info.creator) {
-      content += `creator:${datFile.info.creator}\n`;
-    }
-    content += '\n';
-
-    // Tiles section
-    content += '[tiles]\n';
-    for (const row of datFile.tiles) {
-      content += row.join(',') + '\n';
-    }
-    content += '\n';
-
-    // Height section (if exists)
-    if (datFile.height && datFile.height.length > 0) {
-      content += '[height]\n';
-      for (const row of datFile.height) {
-        content += row.join(',') + '\n';
-      }
-      content += '\n';
-    }
-
-    // Objectives section (handle both parsed Objective[] and string[])
-    if (datFile.objectives && datFile.objectives.length > 0) {
-      content += '[objectives]\n';
-      // Check if objectives are already strings or need to be serialized
-      const objectiveStrings = datFile.objectives.map((obj: any) => {
-        if (typeof obj === 'string') {
-          return obj;
-        }
-        // Handle parsed objective objects - simplified serialization
-        return JSON.stringify(obj);
-      });
-      content += objectiveStrings.join('\n') + '\n';
-      content += '\n';
-    }
-
-    // Buildings section (if exists)
-    if (datFile.buildings && datFile.buildings.length > 0) {
-      content += '[buildings]\n';
-      content += datFile.buildings.join('\n') + '\n';
-      content += '\n';
-    }
-
-    // Script section (if exists)
-    if (datFile.script) {
-      content += '[script]\n';
-      content += datFile.script + '\n';
-    }
-
-    return content;
-  }
-
   private getErrorHtml(message: string): string {
     return `<!DOCTYPE html>
     <html lang="en">
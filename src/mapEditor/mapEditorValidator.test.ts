@@ -363,6 +363,47 @@ height{
       expect(result.statistics.hazardCount.lava).toBe(1);
       expect(result.statistics.spawnPointCount).toBe(1);
     });
+
+    it('should count loose resources and check them against objectives', async () => {
+      const content = `info{
+rowcount:3
+colcount:3
+initialcrystals:2
+}
+tiles{
+1,1,38
+1,101,1
+1,1,26
+}
+height{
+0,0,0
+0,0,0
+0,0,0
+}
+resources{
+crystals:
+1,0,2
+0,0,0
+0,0,5
+}
+objectives{
+resources: 12,0,0
+}`;
+
+      const validator = new MapEditorValidator(createMockDocument(content));
+      const result = await validator.validateForEditor();
+      const messages = result.issues.map(issue => issue.message);
+
+      expect(result.statistics.resourceCount.looseCrystals).toBe(8);
+      expect(result.statistics.resourceCount.looseOre).toBe(0);
+      expect(messages).toContain(
+        '2 loose crystals at 0,2 are on a tile that cannot be drilled and cannot be collected.'
+      );
+      expect(messages).toContain('5 loose crystals at 2,2 appear once the wall is drilled.');
+      expect(messages).toContain(
+        'Resource objective needs 12 crystals but the map only has 10 loose and starting crystals.'
+      );
+    });
   });
 
   describe('Suggestions generation', () => {
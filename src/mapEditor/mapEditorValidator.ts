@@ -1,6 +1,7 @@
 import * as vscode from 'vscode';
 import { DatFileParser } from '../parser/datFileParser';
 import { MapValidator } from '../validation/mapValidator';
+import { countResources, findHiddenResources, findMisplacedResources } from './resourceLayer';
 
 export interface MapValidationIssue {
   type: 'error' | 'warning' | 'info';
@@ -37,6 +38,9 @@ export interface MapStatistics {
     crystals: number;
     ore: number;
     rechargeSeams: number;
+    // Loose crystals and ore from the resources section
+    looseCrystals: number;
+    looseOre: number;
   };
   hazardCount: {
     lava: number;
@@ -130,6 +134,7 @@ export class MapEditorValidator extends MapValidator {
     issues.push(...this.validateHazards());
     issues.push(...this.validatePerformance());
     issues.push(...this.validateBalance());
+    issues.push(...this.validateLooseResources());
 
     // Generate statistics
     const statistics = this.generateStatistics();
@@ -343,6 +348,55 @@ export class MapEditorValidator extends MapValidator {
     return issues;
   }
 
+  private validateLooseResources(): MapValidationIssue[] {
+    const issues: MapValidationIssue[] = [];
+    const resources = this.editorParser.parseSection('resources');
+
+    for (const resource of findMisplacedResources(this.editorTiles, resources)) {
+      issues.push({
+        type: 'warning',
+        message: `${resource.count} loose ${resource.type} at ${resource.row},${resource.col} are on a tile that cannot be drilled and cannot be collected.`,
+        position: { row: resource.row, col: resource.col },
+        severity: vscode.DiagnosticSeverity.Warning,
+        category: ValidationCategory.RESOURCES,
+      });
+    }
+
+    for (const resource of findHiddenResources(this.editorTiles, resources)) {
+      issues.push({
+        type: 'info',
+        message: `${resource.count} loose ${resource.type} at ${resource.row},${resource.col} appear once the wall is drilled.`,
+        position: { row: resource.row, col: resource.col },
+        severity: vscode.DiagnosticSeverity.Information,
+        category: ValidationCategory.RESOURCES,
+      });
+    }
+
+    // Seams still have to be drilled, so compare against loose and starting resources
+    const info = this.editorParser.parseSection('info');
+    const available = {
+      crystals: countResources(resources?.crystals) + (info?.initialcrystals || 0),
+      ore: countResources(resources?.ore) + (info?.initialore || 0),
+    };
+    for (const objective of this.editorParser.parseSection('objectives') || []) {
+      if (objective.type !== 'resources') {
+        continue;
+      }
+      for (const type of ['crystals', 'ore'] as const) {
+        if (objective[type] > available[type]) {
+          issues.push({
+            type: 'warning',
+            message: `Resource objective needs ${objective[type]} ${type} but the map only has ${available[type]} loose and starting ${type}.`,
+            severity: vscode.DiagnosticSeverity.Warning,
+            category: ValidationCategory.OBJECTIVES,
+          });
+        }
+      }
+    }
+
+    return issues;
+  }
+
   private generateStatistics(): MapStatistics {
     const totalTiles = this.editorRowCount * this.editorColCount;
     const walkableTiles = [1, 4, 8, 13, 51, 54, 58, 63];
@@ -353,6 +407,7 @@ export class MapEditorValidator extends MapValidator {
 
     const connectedAreas = this.findAllConnectedAreas();
     const largestArea = Math.max(...connectedAreas.map(area => area.length), 0);
+    const resources = this.editorParser.parseSection('resources');
 
     return {
       totalTiles,
@@ -362,6 +417,8 @@ export class MapEditorValidator extends MapValidator {
         crystals: this.countEditorTiles([42, 43, 44, 45]),
         ore: this.countEditorTiles([46, 47, 48, 49]),
         rechargeSeams: this.countEditorTiles([50]),
+        looseCrystals: countResources(resources?.crystals),
+        looseOre: countResources(resources?.ore),
       },
       hazardCount: {
         lava: this.countEditorTiles([6, 7, 8, 9, 10]),
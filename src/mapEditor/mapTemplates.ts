@@ -7,6 +7,11 @@ export interface MapTemplate {
   size: { rows: number; cols: number };
   preview?: string; // Base64 encoded preview image
   tiles: number[][];
+  // Loose crystals and ore per tile, as in the resources section
+  resources?: {
+    crystals?: number[][];
+    ore?: number[][];
+  };
   objectives?: string[];
   info?: {
     rowcount: number;
@@ -518,7 +523,8 @@ export class MapTemplateManager {
     name: string,
     description: string,
     tiles: number[][],
-    objectives?: string[]
+    objectives?: string[],
+    resources?: MapTemplate['resources']
   ): MapTemplate {
     const rows = tiles.length;
     const cols = tiles[0]?.length || 0;
@@ -531,6 +537,7 @@ export class MapTemplateManager {
       difficulty: 'intermediate',
       size: { rows, cols },
       tiles,
+      resources,
       objectives,
       info: {
         rowcount: rows,
@@ -0,0 +1,101 @@
+import {
+  countResources,
+  findHiddenResources,
+  findMisplacedResources,
+  paintResources,
+} from './resourceLayer';
+
+describe('resourceLayer', () => {
+  const info = { rowcount: 2, colcount: 3 };
+
+  describe('paintResources', () => {
+    it('should create a missing grid and set counts on painted tiles', () => {
+      const resources = paintResources(
+        undefined,
+        'crystals',
+        [
+          { row: 0, col: 1 },
+          { row: 5, col: 5 },
+        ],
+        3,
+        info
+      );
+
+      expect(resources).toEqual({
+        crystals: [
+          [0, 3, 0],
+          [0, 0, 0],
+        ],
+      });
+    });
+
+    it('should keep the other resource and erase with a count of 0', () => {
+      const resources = paintResources(
+        {
+          crystals: [
+            [1, 0, 0],
+            [0, 0, 0],
+          ],
+          ore: [
+            [0, 0, 2],
+            [0, 0, 0],
+          ],
+        },
+        'ore',
+        [{ row: 0, col: 2 }],
+        0,
+        info
+      );
+
+      expect(resources?.crystals?.[0]).toEqual([1, 0, 0]);
+      expect(countResources(resources?.ore)).toBe(0);
+    });
+
+    it('should leave maps without a grid alone when erasing', () => {
+      expect(paintResources(undefined, 'ore', [{ row: 0, col: 0 }], 0, info)).toBeUndefined();
+    });
+  });
+
+  describe('findMisplacedResources', () => {
+    it('should report resources on tiles that cannot be drilled', () => {
+      const tiles = [
+        [1, 38, 26],
+        [1, 11, 1],
+      ];
+
+      expect(
+        findMisplacedResources(tiles, {
+          crystals: [
+            [2, 4, 3],
+            [0, 0, 0],
+          ],
+          ore: [
+            [0, 0, 0],
+            [0, 1, 0],
+          ],
+        })
+      ).toEqual([
+        { type: 'crystals', row: 0, col: 1, count: 4, tileId: 38 },
+        { type: 'ore', row: 1, col: 1, count: 1, tileId: 11 },
+      ]);
+    });
+  });
+
+  describe('findHiddenResources', () => {
+    it('should report resources inside drillable walls', () => {
+      const tiles = [
+        [1, 38, 26],
+        [1, 1, 1],
+      ];
+
+      expect(
+        findHiddenResources(tiles, {
+          crystals: [
+            [2, 4, 3],
+            [0, 0, 0],
+          ],
+        })
+      ).toEqual([{ type: 'crystals', row: 0, col: 2, count: 3, tileId: 26 }]);
+    });
+  });
+});
@@ -0,0 +1,98 @@
+import { getAdvancedTileInfo } from '../data/advancedTileDefinitions';
+import { DatFile, HazardTile } from '../types/datFileTypes';
+
+export type ResourceType = 'crystals' | 'ore';
+
+export const RESOURCE_TYPES: ResourceType[] = ['crystals', 'ore'];
+
+type Resources = NonNullable<DatFile['resources']>;
+
+export interface MisplacedResource extends HazardTile {
+  type: ResourceType;
+  count: number;
+  tileId: number;
+}
+
+/**
+ * Set the loose crystal or ore count of tiles. A grid the map does not have
+ * yet is created full of zeros; erasing from a missing grid changes nothing.
+ */
+export function paintResources(
+  resources: Resources | undefined,
+  type: ResourceType,
+  tiles: HazardTile[],
+  count: number,
+  info: { rowcount: number; colcount: number }
+): Resources | undefined {
+  if (!resources?.[type] && count === 0) {
+    return resources;
+  }
+
+  const grid = Array.from({ length: info.rowcount }, (_, row) =>
+    Array.from({ length: info.colcount }, (_, col) => resources?.[type]?.[row]?.[col] ?? 0)
+  );
+  for (const tile of tiles) {
+    if (grid[tile.row]?.[tile.col] !== undefined) {
+      grid[tile.row][tile.col] = count;
+    }
+  }
+  return { ...resources, [type]: grid };
+}
+
+/**
+ * Total loose crystals or ore in a resources grid
+ */
+export function countResources(grid: number[][] | undefined): number {
+  return (grid || []).reduce(
+    (total, row) => total + row.reduce((sum, value) => sum + Math.max(0, value), 0),
+    0
+  );
+}
+
+/**
+ * Loose resources on tiles that can never be drilled (solid rock, water,
+ * lava), where they cannot be picked up
+ */
+export function findMisplacedResources(
+  tiles: number[][],
+  resources: Resources | undefined
+): MisplacedResource[] {
+  return findResourcesOffFloor(tiles, resources, false);
+}
+
+/**
+ * Loose resources inside drillable walls. They are released when the wall is
+ * drilled.
+ */
+export function findHiddenResources(
+  tiles: number[][],
+  resources: Resources | undefined
+): MisplacedResource[] {
+  return findResourcesOffFloor(tiles, resources, true);
+}
+
+function findResourcesOffFloor(
+  tiles: number[][],
+  resources: Resources | undefined,
+  drillable: boolean
+): MisplacedResource[] {
+  const found: MisplacedResource[] = [];
+  for (const type of RESOURCE_TYPES) {
+    const grid = resources?.[type] || [];
+    for (let row = 0; row < grid.length; row++) {
+      for (let col = 0; col < grid[row].length; col++) {
+        const tileId = tiles[row]?.[col];
+        const tileInfo = getAdvancedTileInfo(tileId);
+        if (
+          grid[row][col] > 0 &&
+          tileInfo &&
+          !tileInfo.isFloor &&
+          tileInfo.canDrill === drillable
+        ) {
+          found.push({ type, row, col, count: grid[row][col], tileId });
+        }
+      }
+    }
+  }
+  return found;
+}
@@ -4,7 +4,7 @@
  * Colors should match the game's radar/map view for consistency
  */
 
-interface Color {
+export interface Color {
   r: number;
   g: number;
   b: number;
@@ -57,6 +57,86 @@ tiles{
       );
     });
 
+    it('should send landslide and lava spread groups with the tiles', () => {
+      const mockDocument = {
+        getText: () => `info{
+rowcount:2
+colcount:2
+}
+tiles{
+26,6,
+1,1,
+}
+landslidefrequency{
+30.0:0,0/
+}
+lavaspread{
+15.0/5.0:1,0/1,1/
+}`,
+        languageId: 'manicminers',
+      } as vscode.TextDocument;
+
+      const mockView = {
+        webview: {
+          postMessage: jest.fn(),
+        },
+      };
+
+      (provider as any)._view = mockView;
+
+      provider.updateDocument(mockDocument);
+
+      expect(mockView.webview.postMessage.mock.calls[0][0].hazards).toEqual({
+        landslides: [{ interval: 30, tiles: [{ row: 0, col: 0 }] }],
+        lavaSpread: [
+          {
+            interval: 15,
+            delay: 5,
+            tiles: [
+              { row: 1, col: 0 },
+              { row: 1, col: 1 },
+            ],
+          },
+        ],
+      });
+    });
+
+    it('should send the block graph with the tiles', () => {
+      const mockDocument = {
+        getText: () => `info{
+rowcount:2
+colcount:2
+}
+tiles{
+1,1,
+1,1,
+}
+blocks{
+1/TriggerEnter:0,0,5.0,true,false,
+2/EventDrill:1,1
+1-2
+}`,
+        languageId: 'manicminers',
+      } as vscode.TextDocument;
+
+      const mockView = {
+        webview: {
+          postMessage: jest.fn(),
+        },
+      };
+
+      (provider as any)._view = mockView;
+
+      provider.updateDocument(mockDocument);
+
+      const { blocks } = mockView.webview.postMessage.mock.calls[0][0];
+      expect(blocks.blocks).toMatchObject([
+        { id: 1, type: 'trigger', name: 'TriggerEnter', row: 0, col: 0 },
+        { id: 2, type: 'event', name: 'EventDrill', row: 1, col: 1 },
+      ]);
+      expect(blocks.wires).toMatchObject([{ from: 1, to: 2, type: 'normal' }]);
+    });
+
     it('should handle documents without tiles section', () => {
       const mockDocument = {
         getText: () => `info{
@@ -100,6 +100,12 @@ export class MapPreviewProvider implements vscode.WebviewViewProvider {
         rowcount,
         colcount,
         colorMap: getColorMap(),
+        hazards: {
+          landslides: parser.parseSection('landslidefrequency') || [],
+          lavaSpread: parser.parseSection('lavaspread') || [],
+        },
+        resources: parser.parseSection('resources') || {},
+        blocks: parser.parseSection('blocks') || { blocks: [], wires: [] },
       });
     } catch (error) {
       console.error('Error updating map preview:', error);
@@ -188,6 +194,9 @@ export class MapPreviewProvider implements vscode.WebviewViewProvider {
             <div class="toggle-controls">
               <label><input type="checkbox" id="toggleGrid" checked> Grid</label>
               <label><input type="checkbox" id="toggleIds" checked> IDs</label>
+              <label><input type="checkbox" id="toggleHazards" checked> Hazards</label>
+              <label><input type="checkbox" id="toggleResources" checked> Resources</label>
+              <label><input type="checkbox" id="toggleBlocks" checked> Blocks</label>
             </div>
           </div>
           <div class="map-container">
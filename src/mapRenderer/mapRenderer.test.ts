@@ -0,0 +1,154 @@
+import * as zlib from 'zlib';
+import type { HeatMapData } from '../heatmap/pathfindingAnalyzer';
+import { DatFile } from '../types/datFileTypes';
+import { buildMapScene, renderMapPng, renderMapSvg } from './mapRenderer';
+
+/**
+ * Read the RGBA pixels back out of a PNG written by the renderer
+ */
+function decodePng(png: Buffer): {
+  width: number;
+  height: number;
+  pixel: (x: number, y: number) => number[];
+} {
+  const width = png.readUInt32BE(16);
+  const height = png.readUInt32BE(20);
+  const chunks: Buffer[] = [];
+  for (let offset = 8; offset < png.length; ) {
+    const length = png.readUInt32BE(offset);
+    if (png.toString('ascii', offset + 4, offset + 8) === 'IDAT') {
+      chunks.push(png.subarray(offset + 8, offset + 8 + length));
+    }
+    offset += length + 12;
+  }
+  const scanlines = zlib.inflateSync(Buffer.concat(chunks));
+  return {
+    width,
+    height,
+    pixel: (x, y) => {
+      const start = y * (width * 4 + 1) + 1 + x * 4;
+      return Array.from(scanlines.subarray(start, start + 4));
+    },
+  };
+}
+
+describe('mapRenderer', () => {
+  const datFile: DatFile = {
+    info: { rowcount: 2, colcount: 3, levelname: 'Rock & Roll' },
+    tiles: [
+      [1, 42, 38],
+      [1, 1, 1],
+    ],
+    height: [
+      [0, 0, 0],
+      [0, 0, 0],
+    ],
+    resources: {
+      crystals: [
+        [0, 3, 0],
+        [0, 0, 0],
+      ],
+    },
+    buildings: [
+      {
+        type: 'BuildingToolStore_C',
+        coordinates: {
+          translation: { x: 450, y: 450, z: 0 },
+          rotation: { p: 0, y: 0, r: 0 },
+          scale: { x: 1, y: 1, z: 1 },
+        },
+      },
+    ],
+  };
+
+  describe('buildMapScene', () => {
+    it('should only add the layers asked for', () => {
+      expect(buildMapScene(datFile).layers.map(layer => layer.id)).toEqual(['background', 'tiles']);
+      expect(
+        buildMapScene(datFile, { grid: true, entities: true, resources: true }).layers.map(
+          layer => layer.id
+        )
+      ).toEqual(['background', 'tiles', 'resources', 'grid', 'entities']);
+    });
+
+    it('should shrink tiles to fit the maximum size', () => {
+      const scene = buildMapScene(datFile, { tileSize: 16, maxSize: 30 });
+
+      expect(scene.tileSize).toBe(10);
+      expect(scene.width).toBe(30);
+      expect(scene.height).toBe(20);
+    });
+
+    it('should place entities by world position', () => {
+      const scene = buildMapScene(datFile, { tileSize: 10, entities: true });
+      const [building] = scene.layers.find(layer => layer.id === 'entities')!.shapes;
+
+      expect(building).toMatchObject({
+        kind: 'circle',
+        cx: 15,
+        cy: 15,
+        title: 'BuildingToolStore_C',
+      });
+    });
+
+    it('should draw a heat map cell over each tile', () => {
+      const heatMap: HeatMapData = {
+        grid: [
+          [0, 5, 10],
+          [1, 2, 3],
+        ],
+        maxValue: 10,
+        minValue: 0,
+        hotspots: [],
+        coldspots: [],
+      };
+
+      const scene = buildMapScene(datFile, { heatMap: { data: heatMap, opacity: 0.5 } });
+      const layer = scene.layers.find(l => l.id === 'heatMap')!;
+
+      expect(layer.shapes).toHaveLength(6);
+      expect(layer.shapes[0]).toMatchObject({ kind: 'rect', color: { a: 0.5 } });
+    });
+
+    it('should fail for levels without tiles', () => {
+      expect(() => buildMapScene({ ...datFile, tiles: [] })).toThrow(
+        'Level has no tiles to render'
+      );
+    });
+  });
+
+  describe('renderMapSvg', () => {
+    it('should group shapes by layer and escape titles', () => {
+      const svg = renderMapSvg(datFile, { tileSize: 10, entities: true });
+
+      expect(svg).toMatch(/^<svg xmlns="http:\/\/www.w3.org\/2000\/svg" width="30" height="20"/);
+      expect(svg).toContain('<title>Rock &amp; Roll</title>');
+      expect(svg).toContain('<g id="tiles" shape-rendering="crispEdges">');
+      expect(svg).toContain('<rect x="10" y="0" width="10" height="10" fill="rgb(206,233,104)"/>');
+      expect(svg).toContain('<title>BuildingToolStore_C</title></circle>');
+    });
+  });
+
+  describe('renderMapPng', () => {
+    it('should paint tiles in the map preview colors', () => {
+      const image = decodePng(renderMapPng(datFile, { tileSize: 4 }));
+
+      expect(image.width).toBe(12);
+      expect(image.height).toBe(8);
+      expect(image.pixel(0, 0)).toEqual([124, 92, 70, 255]);
+      expect(image.pixel(5, 1)).toEqual([206, 233, 104, 255]);
+      // Solid rock is see-through, leaving the background
+      expect(image.pixel(9, 1)).toEqual([30, 30, 30, 255]);
+    });
+
+    it('should draw resources and entities on top of the tiles', () => {
+      const image = decodePng(
+        renderMapPng(datFile, { tileSize: 12, resources: true, entities: true })
+      );
+
+      // Crystal dot left of the seam's center, building marker at 1.5 tiles in
+      expect(image.pixel(15, 6)).not.toEqual([206, 233, 104, 255]);
+      expect(image.pixel(18, 18)).toEqual([240, 192, 64, 255]);
+    });
+  });
+});
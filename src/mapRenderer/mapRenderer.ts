@@ -0,0 +1,380 @@
+import { HeatMapRenderer } from '../heatmap/heatMapRenderer';
+import type { HeatMapData } from '../heatmap/pathfindingAnalyzer';
+import { EntitySection, TILE_WORLD_SIZE } from '../mapEditor/entityLayer';
+import { Color, getTileColor } from '../mapPreview/colorMap';
+import { DatFile } from '../types/datFileTypes';
+import { encodePng } from './pngEncoder';
+
+/**
+ * Heat map values drawn over the tiles
+ */
+export interface HeatMapLayer {
+  data: HeatMapData;
+  // One of the heat map panel's schemes: traffic, accessibility, chokepoint, temperature
+  colorScheme?: string;
+  opacity?: number;
+}
+
+export interface MapRenderOptions {
+  // Pixels per tile
+  tileSize?: number;
+  // Shrink tiles so the longer side of the image fits in this many pixels
+  maxSize?: number;
+  grid?: boolean;
+  entities?: boolean;
+  resources?: boolean;
+  heatMap?: HeatMapLayer;
+  // Hex color behind the tiles, which solid rock leaves showing
+  background?: string;
+}
+
+export type MapShape =
+  | { kind: 'rect'; x: number; y: number; width: number; height: number; color: Color }
+  | { kind: 'circle'; cx: number; cy: number; r: number; color: Color; title?: string };
+
+export interface MapLayer {
+  id: 'background' | 'tiles' | 'heatMap' | 'resources' | 'grid' | 'entities';
+  shapes: MapShape[];
+}
+
+/**
+ * Everything drawn for a level, in pixels, bottom layer first. PNG and SVG
+ * output both draw from this.
+ */
+export interface MapScene {
+  title?: string;
+  width: number;
+  height: number;
+  tileSize: number;
+  layers: MapLayer[];
+}
+
+const DEFAULT_TILE_SIZE = 8;
+const DEFAULT_HEAT_MAP_OPACITY = 0.6;
+
+// Colors match the map preview and map editor webviews
+const DEFAULT_BACKGROUND = '#1e1e1e';
+const GRID_COLOR: Color = { r: 255, g: 255, b: 255, a: 0.1 };
+const CRYSTAL_COLOR: Color = { r: 80, g: 255, b: 80, a: 0.9 };
+const ORE_COLOR: Color = { r: 200, g: 140, b: 60, a: 0.9 };
+const ENTITY_COLORS: Record<EntitySection, Color> = {
+  buildings: { r: 240, g: 192, b: 64 },
+  vehicles: { r: 64, g: 192, b: 240 },
+  creatures: { r: 240, g: 64, b: 64 },
+  miners: { r: 96, g: 240, b: 96 },
+};
+const ENTITY_OUTLINE: Color = { r: 0, g: 0, b: 0, a: 0.8 };
+
+/**
+ * Lay out the tiles of a level and the overlays the options ask for
+ */
+export function buildMapScene(datFile: Partial<DatFile>, options: MapRenderOptions = {}): MapScene {
+  // Levels parsed without a tiles section have none
+  const tiles = datFile.tiles || [];
+  const rows = tiles.length;
+  const cols = Math.max(0, ...tiles.map(row => row.length));
+  if (rows === 0 || cols === 0) {
+    throw new Error('Level has no tiles to render');
+  }
+
+  let tileSize = options.tileSize ?? DEFAULT_TILE_SIZE;
+  if (options.maxSize !== undefined) {
+    tileSize = Math.min(tileSize, Math.max(1, Math.floor(options.maxSize / Math.max(rows, cols))));
+  }
+  const width = cols * tileSize;
+  const height = rows * tileSize;
+
+  const layers: MapLayer[] = [
+    {
+      id: 'background',
+      shapes: [
+        { kind: 'rect', x: 0, y: 0, width, height, color: parseHexColor(options.background) },
+      ],
+    },
+    {
+      id: 'tiles',
+      shapes: tiles.flatMap((row, r) =>
+        row.map(
+          (tileId, c): MapShape => ({
+            kind: 'rect',
+            x: c * tileSize,
+            y: r * tileSize,
+            width: tileSize,
+            height: tileSize,
+            color: getTileColor(tileId),
+          })
+        )
+      ),
+    },
+  ];
+
+  if (options.heatMap) {
+    const { data, colorScheme = 'traffic', opacity = DEFAULT_HEAT_MAP_OPACITY } = options.heatMap;
+    const { grid } = HeatMapRenderer.generateHeatMapRenderData(data, colorScheme);
+    layers.push({
+      id: 'heatMap',
+      shapes: grid.slice(0, rows).flatMap((row, r) =>
+        row.slice(0, cols).map(
+          (cell, c): MapShape => ({
+            kind: 'rect',
+            x: c * tileSize,
+            y: r * tileSize,
+            width: tileSize,
+            height: tileSize,
+            color: { ...parseHexColor(cell.color), a: opacity },
+          })
+        )
+      ),
+    });
+  }
+
+  if (options.resources) {
+    // Crystals left of the tile center, ore right of it, sized by count
+    const dots = (grid: number[][] | undefined, color: Color, offset: number): MapShape[] =>
+      (grid || []).flatMap((row, r) =>
+        row.flatMap((count, c): MapShape[] =>
+          count > 0
+            ? [
+                {
+                  kind: 'circle',
+                  cx: c * tileSize + tileSize / 2 + (offset * tileSize) / 4,
+                  cy: r * tileSize + tileSize / 2,
+                  r: Math.max(
+                    1.5,
+                    Math.min(tileSize / 4, (tileSize / 12) * (1 + Math.log2(count)))
+                  ),
+                  color,
+                },
+              ]
+            : []
+        )
+      );
+    layers.push({
+      id: 'resources',
+      shapes: [
+        ...dots(datFile.resources?.crystals, CRYSTAL_COLOR, -1),
+        ...dots(datFile.resources?.ore, ORE_COLOR, 1),
+      ],
+    });
+  }
+
+  if (options.grid) {
+    const shapes: MapShape[] = [];
+    for (let c = 1; c < cols; c++) {
+      shapes.push({ kind: 'rect', x: c * tileSize, y: 0, width: 1, height, color: GRID_COLOR });
+    }
+    for (let r = 1; r < rows; r++) {
+      shapes.push({ kind: 'rect', x: 0, y: r * tileSize, width, height: 1, color: GRID_COLOR });
+    }
+    layers.push({ id: 'grid', shapes });
+  }
+
+  if (options.entities) {
+    const sections: EntitySection[] = ['buildings', 'vehicles', 'creatures', 'miners'];
+    const radius = Math.max(1.5, tileSize * 0.35);
+    layers.push({
+      id: 'entities',
+      shapes: sections.flatMap(section =>
+        (datFile[section] || []).map(
+          (entity): MapShape => ({
+            kind: 'circle',
+            cx: (entity.coordinates.translation.x / TILE_WORLD_SIZE) * tileSize,
+            cy: (entity.coordinates.translation.y / TILE_WORLD_SIZE) * tileSize,
+            r: radius,
+            color: ENTITY_COLORS[section],
+            title: entity.type,
+          })
+        )
+      ),
+    });
+  }
+
+  return { title: datFile.info?.levelname, width, height, tileSize, layers };
+}
+
+/**
+ * Render a level as an SVG document, one group per layer
+ */
+export function renderMapSvg(datFile: Partial<DatFile>, options: MapRenderOptions = {}): string {
+  const scene = buildMapScene(datFile, options);
+  const lines = [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${scene.width}" height="${scene.height}" viewBox="0 0 ${scene.width} ${scene.height}">`,
+  ];
+  if (scene.title) {
+    lines.push(`<title>${escapeXml(scene.title)}</title>`);
+  }
+
+  for (const layer of scene.layers) {
+    // Tiles and grid lines stay sharp; dots and markers stay round
+    const rendering =
+      layer.id === 'resources' || layer.id === 'entities' ? '' : ' shape-rendering="crispEdges"';
+    lines.push(`<g id="${layer.id}"${rendering}>`);
+    for (const shape of layer.shapes) {
+      if (shape.kind === 'rect') {
+        lines.push(
+          `<rect x="${shape.x}" y="${shape.y}" width="${shape.width}" height="${shape.height}"${svgFill(shape.color)}/>`
+        );
+      } else {
+        const stroke =
+          layer.id === 'entities'
+            ? ` stroke="${svgColor(ENTITY_OUTLINE)}" stroke-opacity="${ENTITY_OUTLINE.a}"`
+            : '';
+        const circle = `<circle cx="${round(shape.cx)}" cy="${round(shape.cy)}" r="${round(shape.r)}"${svgFill(shape.color)}${stroke}`;
+        lines.push(
+          shape.title
+            ? `${circle}><title>${escapeXml(shape.title)}</title></circle>`
+            : `${circle}/>`
+        );
+      }
+    }
+    lines.push('</g>');
+  }
+
+  lines.push('</svg>');
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Render a level as a PNG image
+ */
+export function renderMapPng(datFile: Partial<DatFile>, options: MapRenderOptions = {}): Buffer {
+  const scene = buildMapScene(datFile, options);
+  const pixels = new Uint8Array(scene.width * scene.height * 4);
+
+  for (const layer of scene.layers) {
+    for (const shape of layer.shapes) {
+      if (shape.kind === 'rect') {
+        fillRect(
+          pixels,
+          scene.width,
+          scene.height,
+          shape.x,
+          shape.y,
+          shape.width,
+          shape.height,
+          shape.color
+        );
+      } else {
+        if (layer.id === 'entities') {
+          fillCircle(
+            pixels,
+            scene.width,
+            scene.height,
+            shape.cx,
+            shape.cy,
+            shape.r,
+            ENTITY_OUTLINE
+          );
+        }
+        fillCircle(
+          pixels,
+          scene.width,
+          scene.height,
+          shape.cx,
+          shape.cy,
+          layer.id === 'entities' ? shape.r - 1 : shape.r,
+          shape.color
+        );
+      }
+    }
+  }
+
+  return encodePng(scene.width, scene.height, pixels);
+}
+
+function fillRect(
+  pixels: Uint8Array,
+  imageWidth: number,
+  imageHeight: number,
+  x: number,
+  y: number,
+  width: number,
+  height: number,
+  color: Color
+): void {
+  const left = Math.max(0, Math.round(x));
+  const right = Math.min(imageWidth, Math.round(x + width));
+  const top = Math.max(0, Math.round(y));
+  const bottom = Math.min(imageHeight, Math.round(y + height));
+  for (let py = top; py < bottom; py++) {
+    for (let px = left; px < right; px++) {
+      blendPixel(pixels, (py * imageWidth + px) * 4, color);
+    }
+  }
+}
+
+function fillCircle(
+  pixels: Uint8Array,
+  imageWidth: number,
+  imageHeight: number,
+  cx: number,
+  cy: number,
+  r: number,
+  color: Color
+): void {
+  // Fill the pixels whose centers fall inside the circle
+  const left = Math.max(0, Math.floor(cx - r));
+  const right = Math.min(imageWidth - 1, Math.ceil(cx + r));
+  const top = Math.max(0, Math.floor(cy - r));
+  const bottom = Math.min(imageHeight - 1, Math.ceil(cy + r));
+  for (let py = top; py <= bottom; py++) {
+    for (let px = left; px <= right; px++) {
+      const dx = px + 0.5 - cx;
+      const dy = py + 0.5 - cy;
+      if (dx * dx + dy * dy <= r * r) {
+        blendPixel(pixels, (py * imageWidth + px) * 4, color);
+      }
+    }
+  }
+}
+
+/**
+ * Draw a color over a pixel, letting what is below show through by its alpha
+ */
+function blendPixel(pixels: Uint8Array, index: number, color: Color): void {
+  const alpha = color.a ?? 1;
+  if (alpha <= 0) {
+    return;
+  }
+  const below = pixels[index + 3] / 255;
+  const out = alpha + below * (1 - alpha);
+  const mix = (top: number, bottom: number) =>
+    Math.round((top * alpha + bottom * below * (1 - alpha)) / out);
+  pixels[index] = mix(color.r, pixels[index]);
+  pixels[index + 1] = mix(color.g, pixels[index + 1]);
+  pixels[index + 2] = mix(color.b, pixels[index + 2]);
+  pixels[index + 3] = Math.round(out * 255);
+}
+
+function parseHexColor(hex = DEFAULT_BACKGROUND): Color {
+  const match = hex.match(/^#?([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})$/i);
+  if (!match) {
+    throw new Error(`Invalid color '${hex}'. Use a hex color such as #1e1e1e`);
+  }
+  return {
+    r: parseInt(match[1], 16),
+    g: parseInt(match[2], 16),
+    b: parseInt(match[3], 16),
+  };
+}
+
+function svgFill(color: Color): string {
+  const alpha = color.a ?? 1;
+  return ` fill="${svgColor(color)}"${alpha < 1 ? ` fill-opacity="${alpha}"` : ''}`;
+}
+
+function svgColor(color: Color): string {
+  return `rgb(${color.r},${color.g},${color.b})`;
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
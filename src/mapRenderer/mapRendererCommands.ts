@@ -0,0 +1,71 @@
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { DatCstParser } from '../parser/datCstParser';
+import { MapRenderOptions, renderMapPng, renderMapSvg } from './mapRenderer';
+
+export function registerMapRendererCommands(context: vscode.ExtensionContext): void {
+  // Export the open level as a PNG or SVG image
+  context.subscriptions.push(
+    vscode.commands.registerCommand('manicMiners.exportMapImage', async () => {
+      const editor = vscode.window.activeTextEditor;
+      if (!editor || editor.document.languageId !== 'manicminers') {
+        vscode.window.showErrorMessage('Please open a Manic Miners DAT file');
+        return;
+      }
+
+      await exportMapImage(editor.document);
+    })
+  );
+}
+
+async function exportMapImage(document: vscode.TextDocument): Promise<void> {
+  const format = await vscode.window.showQuickPick(
+    [
+      { label: 'PNG', description: 'Bitmap image', extension: 'png' },
+      { label: 'SVG', description: 'Vector image, one group per layer', extension: 'svg' },
+    ],
+    { placeHolder: 'Select image format' }
+  );
+  if (!format) {
+    return;
+  }
+
+  const overlays = await vscode.window.showQuickPick(
+    [
+      { label: 'Grid', option: 'grid' as const, picked: false },
+      { label: 'Entities', option: 'entities' as const, picked: true },
+      { label: 'Resources', option: 'resources' as const, picked: true },
+    ],
+    { placeHolder: 'Select overlays to draw over the tiles', canPickMany: true }
+  );
+  if (!overlays) {
+    return;
+  }
+
+  const parsed = path.parse(document.uri.fsPath);
+  const uri = await vscode.window.showSaveDialog({
+    defaultUri: vscode.Uri.file(path.join(parsed.dir, `${parsed.name}.${format.extension}`)),
+    filters: { [format.label]: [format.extension] },
+  });
+  if (!uri) {
+    return;
+  }
+
+  try {
+    const options: MapRenderOptions = {};
+    for (const overlay of overlays) {
+      options[overlay.option] = true;
+    }
+    const datFile = new DatCstParser(document.getText()).toDatFile();
+    const image =
+      format.extension === 'svg'
+        ? Buffer.from(renderMapSvg(datFile, options), 'utf8')
+        : renderMapPng(datFile, options);
+
+    await vscode.workspace.fs.writeFile(uri, image);
+    vscode.window.showInformationMessage(`Map image saved to ${path.basename(uri.fsPath)}`);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    vscode.window.showErrorMessage(`Failed to export map image: ${errorMessage}`);
+  }
+}
@@ -140,6 +140,54 @@ tiles{
       );
     });
 
+    it('should rewrite only the tiles it covers and keep other sections as written', () => {
+      const text = [
+        'comments{',
+        '  Keep   this spacing',
+        '}',
+        'info{',
+        'rowcount:3',
+        'colcount:4',
+        '}',
+        'tiles{',
+        '1,1,1,1,',
+        '1,1,1,1,',
+        '1,1,1,1,',
+        '}',
+        'briefing{',
+        'Dig  in!',
+        '}',
+        '',
+      ].join('\n');
+      mockDocument.getText = () => text;
+      mockDocument.lineAt = (line: number) => ({ text: text.split('\n')[line] });
+      const replace = jest.fn();
+      mockEditor.edit = jest.fn(callback => {
+        callback({ replace });
+        return Promise.resolve(true);
+      });
+      const template = {
+        name: 'Pillars',
+        description: 'Test',
+        width: 2,
+        height: 3,
+        category: 'pattern' as const,
+        tiles: [
+          [40, 40],
+          [40, 40],
+          [40, 40],
+        ],
+      };
+
+      // Second row, third column; the template is clipped at the grid's edges
+      MapTemplatesProvider.insertTemplate(mockEditor, template, new vscode.Position(9, 4));
+
+      expect(replace).toHaveBeenCalledTimes(1);
+      expect(replace.mock.calls[0][1]).toBe(
+        text.replace('1,1,1,1,\n1,1,1,1,\n1,1,1,1,', '1,1,1,1,\n1,1,40,40,\n1,1,40,40,')
+      );
+    });
+
     it('should show error when tiles section not found', () => {
       mockDocument.getText = () => 'info{\nrowcount:10\n}';
       const template = MapTemplatesProvider.getTemplates()[0];
@@ -1,4 +1,7 @@
 import * as vscode from 'vscode';
+import { DatFileParser } from '../parser/datFileParser';
+import { DatFileWriter } from '../parser/datFileWriter';
+import { DatFile } from '../types/datFileTypes';
 import { CustomTemplatesManager } from './customTemplates';
 
 export interface MapTemplate {
@@ -264,38 +267,21 @@ export class MapTemplatesProvider {
     template: MapTemplate,
     position: vscode.Position
   ): void {
-    const lines = editor.document.getText().split('\n');
-    const tilesStartLine = lines.findIndex(line => line.trim() === 'tiles{');
-    const tilesEndLine = lines.findIndex(
-      (line, index) => index > tilesStartLine && line.trim() === '}'
-    );
-
-    if (tilesStartLine === -1 || tilesEndLine === -1) {
+    const text = editor.document.getText();
+    const parser = new DatFileParser(text);
+    const tilesSection = parser.getSection('tiles');
+    if (!tilesSection) {
       vscode.window.showErrorMessage('Could not find tiles section');
       return;
     }
 
     // Calculate the position within the tiles grid
-    const tilesRow = position.line - tilesStartLine - 1;
-    if (tilesRow < 0 || position.line >= tilesEndLine) {
+    const tilesRow = position.line - tilesSection.startLine - 1;
+    if (tilesRow < 0 || position.line >= tilesSection.endLine) {
       vscode.window.showErrorMessage('Please position cursor within the tiles section');
       return;
     }
 
-    // Parse existing tiles
-    const tileLines: string[][] = [];
-    for (let i = tilesStartLine + 1; i < tilesEndLine; i++) {
-      const line = lines[i].trim();
-      if (line) {
-        tileLines.push(
-          line
-            .split(',')
-            .map(t => t.trim())
-            .filter(t => t)
-        );
-      }
-    }
-
     // Calculate column position
     let currentCol = 0;
     const lineText = editor.document.lineAt(position.line).text;
@@ -308,32 +294,37 @@ export class MapTemplatesProvider {
       currentCol++;
     }
 
-    // Apply the template
-    editor.edit(editBuilder => {
-      for (let row = 0; row < template.height; row++) {
-        const targetRow = tilesRow + row;
-        if (targetRow >= tileLines.length) {
-          break;
-        }
+    let datFile: Partial<DatFile>;
+    try {
+      datFile = parser.parsePartial();
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      vscode.window.showErrorMessage(`Failed to insert template: ${errorMessage}`);
+      return;
+    }
 
-        const newTiles = [...tileLines[targetRow]];
-        for (let col = 0; col < template.width; col++) {
-          const targetCol = currentCol + col;
-          if (targetCol < newTiles.length) {
-            newTiles[targetCol] = String(template.tiles[row][col]);
-          }
+    // Apply the template to a copy of the grid
+    const tiles = (datFile.tiles || []).map(row => [...row]);
+    for (let row = 0; row < template.height; row++) {
+      const targetRow = tiles[tilesRow + row];
+      if (!targetRow) {
+        break;
+      }
+      for (let col = 0; col < template.width; col++) {
+        if (currentCol + col < targetRow.length) {
+          targetRow[currentCol + col] = template.tiles[row][col];
         }
-
-        const newLine = newTiles.join(',') + ',';
-        const lineNumber = tilesStartLine + 1 + targetRow;
-        editBuilder.replace(
-          new vscode.Range(
-            new vscode.Position(lineNumber, 0),
-            new vscode.Position(lineNumber, lines[lineNumber].length)
-          ),
-          newLine
-        );
       }
+    }
+
+    // Only the tiles section is rewritten; the rest of the level is kept as written
+    const newText = new DatFileWriter({ source: parser }).write({ ...datFile, tiles });
+    const lineCount = text.split('\n').length;
+    editor.edit(editBuilder => {
+      editBuilder.replace(
+        new vscode.Range(new vscode.Position(0, 0), new vscode.Position(lineCount, 0)),
+        newText
+      );
     });
 
     vscode.window.showInformationMessage(
@@ -0,0 +1,890 @@
+import {
+  BlockNode,
+  CstNode,
+  CstToken,
+  DatDocumentNode,
+  EntityFieldNode,
+  EntityNode,
+  GridCellNode,
+  GridRowNode,
+  HazardGroupNode,
+  HazardTileNode,
+  InfoEntryNode,
+  ObjectiveNode,
+  ResourceGridNode,
+  SectionItemNode,
+  SectionNode,
+  SourcePosition,
+  SourceRange,
+  WireNode,
+} from '../types/datCstTypes';
+import {
+  DatFile,
+  BlocksSection,
+  DatParseError,
+  Entity,
+  InfoSection,
+  LandslideGroup,
+  LavaSpreadGroup,
+} from '../types/datFileTypes';
+import { ScriptNode } from '../types/scriptAstTypes';
+import {
+  parseCoordinates,
+  parseLandslideGroup,
+  parseLavaSpreadGroup,
+  parseObjective,
+  parsePropertyValue,
+  setInfoValue,
+} from './datFileParser';
+import { getScriptChildNodes, ScriptParser } from './scriptParser';
+import { EVENT_BLOCKS, TRIGGER_BLOCKS, VisualBlocksParser } from './visualBlocksParser';
+
+const REQUIRED_SECTIONS = ['info', 'tiles', 'height'];
+const ENTITY_SECTIONS = ['buildings', 'vehicles', 'creatures', 'miners'];
+const OBJECTIVE_TYPES = [
+  'resources',
+  'building',
+  'discovertile',
+  'variable',
+  'findminer',
+  'findbuilding',
+];
+const WIRE_TYPES = { '-': 'normal', '~': 'backup', '?': 'random' } as const;
+
+/**
+ * Tolerant parser that builds a concrete syntax tree with source ranges.
+ * Problems are collected as DatParseErrors instead of being thrown, and the
+ * rest of the file is still parsed.
+ */
+export class DatCstParser {
+  private lines: string[];
+  private errors: DatParseError[] = [];
+  private bodyLines = new Map<SectionNode, number[]>();
+  private scripts = new Map<SectionNode, ScriptNode>();
+  private blockGraphs = new Map<SectionNode, BlocksSection>();
+  private document: DatDocumentNode;
+
+  constructor(content: string) {
+    this.lines = content.split(/\r?\n/);
+    this.document = this.parseDocument();
+  }
+
+  /**
+   * Get the root of the tree
+   */
+  public getDocument(): DatDocumentNode {
+    return this.document;
+  }
+
+  /**
+   * Get every error found while parsing, in source order
+   */
+  public getErrors(): DatParseError[] {
+    return this.errors;
+  }
+
+  /**
+   * Get a section node by name. When a section is repeated the last one wins,
+   * as it does in the typed view.
+   */
+  public getSection(name: string): SectionNode | undefined {
+    const matches = this.document.sections.filter(section => section.name.value === name);
+    return matches[matches.length - 1];
+  }
+
+  /**
+   * Get the chain of nodes containing a position, from the document down to
+   * the innermost node
+   */
+  public getNodePath(line: number, column: number): CstNode[] {
+    const position = { line, column };
+    const path: CstNode[] = [];
+    let children: CstNode[] = [this.document];
+
+    for (;;) {
+      const node = children.find(child => containsPosition(child.range, position));
+      if (!node) {
+        return path;
+      }
+      path.push(node);
+      children = getChildNodes(node);
+    }
+  }
+
+  /**
+   * Get the innermost node containing a position
+   */
+  public getNodeAt(line: number, column: number): CstNode | undefined {
+    const path = this.getNodePath(line, column);
+    return path[path.length - 1];
+  }
+
+  /**
+   * Build the typed DatFile view of the tree
+   */
+  public toDatFile(): Partial<DatFile> {
+    const result: Partial<DatFile> = {};
+
+    for (const section of this.document.sections) {
+      const body = this.bodyLines.get(section) || [];
+      const items = section.items;
+
+      switch (section.name.value) {
+        case 'comments':
+          result.comments = body.map(i => this.lines[i]).filter(line => line.trim().length > 0);
+          break;
+        case 'info':
+          result.info = this.toInfo(items);
+          break;
+        case 'tiles':
+          result.tiles = this.toGrid(items);
+          break;
+        case 'height':
+          result.height = this.toGrid(items);
+          break;
+        case 'resources':
+          result.resources = this.toResources(items);
+          break;
+        case 'objectives':
+          result.objectives = items.flatMap(item =>
+            item.kind === 'objective' && item.objective ? [item.objective] : []
+          );
+          break;
+        case 'buildings':
+          result.buildings = this.toEntities(items);
+          break;
+        case 'vehicles':
+          result.vehicles = this.toEntities(items);
+          break;
+        case 'creatures':
+          result.creatures = this.toEntities(items);
+          break;
+        case 'miners':
+          result.miners = this.toEntities(items);
+          break;
+        case 'blocks':
+          result.blocks = this.blockGraphs.get(section);
+          break;
+        case 'script':
+          result.script = this.scripts.get(section);
+          break;
+        case 'briefing':
+          result.briefing = this.textFromLines(body);
+          break;
+        case 'briefingsuccess':
+          result.briefingsuccess = this.textFromLines(body);
+          break;
+        case 'briefingfailure':
+          result.briefingfailure = this.textFromLines(body);
+          break;
+        case 'landslidefrequency':
+          result.landslidefrequency = this.toHazardGroups<LandslideGroup>(items);
+          break;
+        case 'lavaspread':
+          result.lavaspread = this.toHazardGroups<LavaSpreadGroup>(items);
+          break;
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Split the file into sections, recovering from missing closing braces
+   */
+  private parseDocument(): DatDocumentNode {
+    const sections: SectionNode[] = [];
+    let current: SectionNode | null = null;
+    let body: number[] = [];
+
+    const closeSection = (endLine: number, closed: boolean) => {
+      if (!current) {
+        return;
+      }
+      current.closed = closed;
+      current.range.end = closed
+        ? { line: endLine, column: this.lines[endLine].indexOf('}') + 1 }
+        : this.lineEnd(endLine);
+      this.bodyLines.set(current, body);
+      current.items = this.parseSectionItems(current, body);
+      if (!closed) {
+        this.addError(
+          `Section '${current.name.value}' is missing a closing '}'`,
+          current.name.range.start,
+          current.name.value
+        );
+      }
+      sections.push(current);
+      current = null;
+    };
+
+    for (let i = 0; i < this.lines.length; i++) {
+      const raw = this.lines[i];
+      const trimmed = raw.trim();
+      const header = trimmed.match(/^(\w+)\s*\{$/);
+
+      if (header) {
+        // A new header inside a section means the previous one was never closed
+        closeSection(this.lastContentLine(i - 1), false);
+        const column = raw.indexOf(header[1]);
+        current = {
+          kind: 'section',
+          name: this.token(header[1], i, column),
+          closed: false,
+          items: [],
+          range: { start: { line: i, column }, end: this.lineEnd(i) },
+        };
+        body = [];
+      } else if (current && trimmed === '}') {
+        closeSection(i, true);
+      } else if (current) {
+        body.push(i);
+      } else if (trimmed) {
+        this.addError('Content outside of any section', { line: i, column: this.indent(i) });
+      }
+    }
+    closeSection(this.lastContentLine(this.lines.length - 1), false);
+
+    const seen = new Set<string>();
+    for (const section of sections) {
+      const name = section.name.value;
+      if (seen.has(name)) {
+        this.addError(`Duplicate section '${name}'`, section.name.range.start, name);
+      }
+      seen.add(name);
+    }
+
+    for (const name of REQUIRED_SECTIONS) {
+      if (!seen.has(name)) {
+        this.addError(`Missing required ${name} section`, { line: 0, column: 0 });
+      }
+    }
+
+    this.errors.sort((a, b) => a.line - b.line || a.column - b.column);
+
+    const lastLine = this.lines.length - 1;
+    return {
+      kind: 'document',
+      sections,
+      range: {
+        start: { line: 0, column: 0 },
+        end: { line: lastLine, column: this.lines[lastLine].length },
+      },
+    };
+  }
+
+  /**
+   * Parse the body lines of a section according to its name
+   */
+  private parseSectionItems(section: SectionNode, body: number[]): SectionItemNode[] {
+    const name = section.name.value;
+
+    switch (name) {
+      case 'info':
+        return this.parseInfo(section, body);
+      case 'tiles':
+      case 'height':
+        return this.parseGrid(body, name);
+      case 'resources':
+        return this.parseResources(body);
+      case 'objectives':
+        return this.parseObjectives(body);
+      case 'script':
+        return this.parseScript(section, body);
+      case 'blocks':
+        return this.parseBlocks(section, body);
+      case 'landslidefrequency':
+      case 'lavaspread':
+        return this.parseHazards(body, name);
+      default:
+        if (ENTITY_SECTIONS.includes(name)) {
+          return this.parseEntities(body, name);
+        }
+        // comments, briefings and unknown sections
+        return this.nonEmpty(body).map(i => ({
+          kind: 'text' as const,
+          text: this.lines[i].trim(),
+          range: this.lineRange(i),
+        }));
+    }
+  }
+
+  /**
+   * Parse info 'key:value' lines
+   */
+  private parseInfo(section: SectionNode, body: number[]): InfoEntryNode[] {
+    const entries: InfoEntryNode[] = [];
+
+    for (const i of this.nonEmpty(body)) {
+      const raw = this.lines[i];
+      const colon = raw.indexOf(':');
+      if (colon === -1) {
+        this.addError("Expected 'key:value' in info section", this.lineRange(i).start, 'info');
+        continue;
+      }
+      entries.push({
+        kind: 'infoEntry',
+        key: this.trimmedToken(i, this.indent(i), colon),
+        value: this.trimmedToken(i, colon + 1, raw.length),
+        range: this.lineRange(i),
+      });
+    }
+
+    for (const key of ['rowcount', 'colcount']) {
+      if (!entries.some(entry => entry.key.value.toLowerCase() === key)) {
+        this.addError(`Missing required ${key} in info section`, section.name.range.start, 'info');
+      }
+    }
+
+    return entries;
+  }
+
+  /**
+   * Parse comma-separated number rows
+   */
+  private parseGrid(body: number[], sectionName: string): GridRowNode[] {
+    const rows: GridRowNode[] = [];
+
+    for (const i of this.nonEmpty(body)) {
+      const row = this.parseGridRow(i, rows.length, sectionName);
+      if (row.cells.length > 0) {
+        rows.push(row);
+      }
+    }
+
+    return rows;
+  }
+
+  /**
+   * Parse one grid row, reporting cells that are not numbers
+   */
+  private parseGridRow(line: number, row: number, sectionName: string): GridRowNode {
+    const cells: GridCellNode[] = [];
+
+    for (const part of this.splitLine(line, ',')) {
+      const value = parseInt(part.value);
+      if (isNaN(value)) {
+        this.addError(`Expected a number but found '${part.value}'`, part.range.start, sectionName);
+        continue;
+      }
+      cells.push({ kind: 'gridCell', row, col: cells.length, value, range: part.range });
+    }
+
+    return { kind: 'gridRow', cells, range: this.lineRange(line) };
+  }
+
+  /**
+   * Parse the 'crystals:' and 'ore:' grids of the resources section
+   */
+  private parseResources(body: number[]): ResourceGridNode[] {
+    const grids: ResourceGridNode[] = [];
+    let current: ResourceGridNode | undefined;
+
+    for (const i of this.nonEmpty(body)) {
+      const trimmed = this.lines[i].trim();
+
+      if (trimmed === 'crystals:' || trimmed === 'ore:') {
+        current = {
+          kind: 'resourceGrid',
+          name: this.token(trimmed.slice(0, -1) as 'crystals' | 'ore', i, this.indent(i)),
+          rows: [],
+          range: this.lineRange(i),
+        };
+        grids.push(current);
+      } else if (current) {
+        const row = this.parseGridRow(i, current.rows.length, 'resources');
+        if (row.cells.length > 0) {
+          current.rows.push(row);
+          current.range.end = row.range.end;
+        }
+      } else {
+        this.addError(
+          "Expected 'crystals:' or 'ore:' before resource rows",
+          this.lineRange(i).start,
+          'resources'
+        );
+      }
+    }
+
+    return grids;
+  }
+
+  /**
+   * Parse objective lines
+   */
+  private parseObjectives(body: number[]): ObjectiveNode[] {
+    const objectives: ObjectiveNode[] = [];
+
+    for (const i of this.nonEmpty(body)) {
+      const raw = this.lines[i];
+      const colon = raw.indexOf(':');
+      if (colon === -1) {
+        this.addError("Expected 'type:value' objective", this.lineRange(i).start, 'objectives');
+        continue;
+      }
+
+      const node: ObjectiveNode = {
+        kind: 'objective',
+        objectiveType: this.trimmedToken(i, this.indent(i), colon),
+        body: this.trimmedToken(i, colon + 1, raw.length),
+        objective: parseObjective(raw.trim()),
+        range: this.lineRange(i),
+      };
+
+      const type = node.objectiveType.value;
+      if (!OBJECTIVE_TYPES.includes(type)) {
+        this.addError(
+          `Unknown objective type '${type}'`,
+          node.objectiveType.range.start,
+          'objectives'
+        );
+      } else if (!node.objective) {
+        this.addError(`Malformed ${type} objective`, node.range.start, 'objectives');
+      }
+      objectives.push(node);
+    }
+
+    return objectives;
+  }
+
+  /**
+   * Parse entity records. Creatures are written over several lines, so a line
+   * that does not start a new entity continues the one before it.
+   */
+  private parseEntities(body: number[], sectionName: string): EntityNode[] {
+    const records: number[][] = [];
+
+    for (const i of this.nonEmpty(body)) {
+      const trimmed = this.lines[i].trim();
+      if (trimmed.startsWith('#') || trimmed.startsWith('//')) {
+        continue;
+      }
+      const startsEntity = /^\w+_C\b/.test(trimmed) || /^ID=[^,]*,\s*Translation:/.test(trimmed);
+      if (startsEntity || records.length === 0) {
+        records.push([i]);
+      } else {
+        records[records.length - 1].push(i);
+      }
+    }
+
+    return records.flatMap(record => this.parseEntity(record, sectionName) || []);
+  }
+
+  /**
+   * Parse one entity record spread over one or more lines
+   */
+  private parseEntity(record: number[], sectionName: string): EntityNode | undefined {
+    // Coordinates never contain commas, so every field is a plain comma-separated part
+    const parts = record.flatMap(i => this.splitLine(i, ','));
+    const [entityType, coordinates, ...rest] = parts;
+    if (!entityType) {
+      return undefined;
+    }
+
+    const node: EntityNode = {
+      kind: 'entity',
+      entityType,
+      coordinates,
+      fields: [],
+      range: {
+        start: this.lineRange(record[0]).start,
+        end: this.lineRange(record[record.length - 1]).end,
+      },
+    };
+
+    // Miners carry their ID in the type position, e.g. 'ID=0/Pilot'
+    if (entityType.value.startsWith('ID=')) {
+      node.id = this.subToken(entityType, 3, entityType.value.split('/')[0].length);
+    }
+
+    for (const part of rest) {
+      const equals = part.value.indexOf('=');
+      if (equals === -1) {
+        node.fields.push({ kind: 'entityField', value: part, range: part.range });
+        continue;
+      }
+      const field: EntityFieldNode = {
+        kind: 'entityField',
+        key: this.subToken(part, 0, equals),
+        value: this.subToken(part, equals + 1, part.value.length),
+        range: part.range,
+      };
+      if (field.key?.value === 'ID' && !node.id) {
+        node.id = this.subToken(field.value, 0, field.value.value.split('/')[0].length);
+      }
+      node.fields.push(field);
+    }
+
+    if (!coordinates || !parts.some(part => part.value.includes('Translation:'))) {
+      this.addError(
+        `Entity '${entityType.value}' has no Translation`,
+        entityType.range.start,
+        sectionName
+      );
+      return node;
+    }
+
+    const entity: Entity = {
+      type: entityType.value,
+      coordinates: parseCoordinates(coordinates.value),
+    };
+    for (const field of node.fields) {
+      if (field.key) {
+        entity.properties = entity.properties || {};
+        entity.properties[field.key.value] = parsePropertyValue(field.value.value);
+      } else {
+        entity.flags = entity.flags || [];
+        entity.flags.push(field.value.value);
+      }
+    }
+    node.entity = entity;
+
+    return node;
+  }
+
+  /**
+   * Parse the script section into its syntax tree
+   */
+  private parseScript(section: SectionNode, body: number[]): SectionItemNode[] {
+    const firstLine = body.length > 0 ? body[0] : section.range.start.line + 1;
+    const content = body.map(i => this.lines[i]).join('\n');
+    const parser = new ScriptParser(content, firstLine);
+
+    this.errors.push(...parser.getErrors());
+    this.scripts.set(section, parser.getScript());
+    return parser.getScript().items;
+  }
+
+  /**
+   * Parse visual block definitions and wires
+   */
+  private parseBlocks(section: SectionNode, body: number[]): SectionItemNode[] {
+    const items: SectionItemNode[] = [];
+    const content = body.map(i => this.lines[i]).join('\n');
+    this.blockGraphs.set(
+      section,
+      new VisualBlocksParser(content, section.range.start.line).parse()
+    );
+
+    for (const i of this.nonEmpty(body)) {
+      const raw = this.lines[i];
+      const trimmed = raw.trim();
+      const indent = this.indent(i);
+
+      if (trimmed.startsWith('#') || trimmed.startsWith(';')) {
+        items.push({ kind: 'comment', text: trimmed, range: this.lineRange(i) });
+        continue;
+      }
+
+      const block = trimmed.match(/^(\d+)\/(\w+):(.*)$/);
+      if (block) {
+        const paramsStart = indent + block[1].length + block[2].length + 2;
+        const node: BlockNode = {
+          kind: 'block',
+          id: this.token(parseInt(block[1]), i, indent, block[1].length),
+          blockType: this.token(block[2], i, indent + block[1].length + 1),
+          parameters: block[3]
+            ? this.splitRange(i, paramsStart, paramsStart + block[3].length, ',')
+            : [],
+          range: this.lineRange(i),
+        };
+        if (!(node.blockType.value in TRIGGER_BLOCKS) && !(node.blockType.value in EVENT_BLOCKS)) {
+          this.addError(
+            `Unknown block type '${node.blockType.value}'`,
+            node.blockType.range.start,
+            'blocks'
+          );
+        }
+        items.push(node);
+        continue;
+      }
+
+      const wire = trimmed.match(/^(\d+)([-~?])(\d+)$/);
+      if (wire) {
+        const node: WireNode = {
+          kind: 'wire',
+          from: this.token(parseInt(wire[1]), i, indent, wire[1].length),
+          to: this.token(parseInt(wire[3]), i, indent + wire[1].length + 1, wire[3].length),
+          wireType: WIRE_TYPES[wire[2] as keyof typeof WIRE_TYPES],
+          range: this.lineRange(i),
+        };
+        items.push(node);
+        continue;
+      }
+
+      this.addError(`Unknown blocks syntax '${trimmed}'`, { line: i, column: indent }, 'blocks');
+    }
+
+    return items;
+  }
+
+  /**
+   * Parse landslidefrequency 'INTERVAL:row,col/' and lavaspread
+   * 'INTERVAL/DELAY:row,col/' lines
+   */
+  private parseHazards(body: number[], sectionName: string): SectionItemNode[] {
+    const items: SectionItemNode[] = [];
+    const lava = sectionName === 'lavaspread';
+    const format = lava ? 'INTERVAL/DELAY:row,col/' : 'INTERVAL:row,col/';
+
+    for (const i of this.nonEmpty(body)) {
+      const raw = this.lines[i];
+      const trimmed = raw.trim();
+      const indent = this.indent(i);
+
+      if (trimmed.startsWith('#')) {
+        items.push({ kind: 'comment', text: trimmed, range: this.lineRange(i) });
+        continue;
+      }
+
+      const colon = raw.indexOf(':');
+      const group = lava ? parseLavaSpreadGroup(trimmed) : parseLandslideGroup(trimmed);
+      if (colon === -1 || !group) {
+        this.addError(
+          `Expected '${format}' but found '${trimmed}'`,
+          { line: i, column: indent },
+          sectionName
+        );
+        continue;
+      }
+
+      const slash = raw.slice(0, colon).indexOf('/');
+      const node: HazardGroupNode = {
+        kind: 'hazardGroup',
+        interval: this.trimmedToken(i, indent, slash === -1 ? colon : slash),
+        tiles: [],
+        group,
+        range: this.lineRange(i),
+      };
+      if (slash !== -1) {
+        node.delay = this.trimmedToken(i, slash + 1, colon);
+      }
+
+      for (const pair of this.splitRange(i, colon + 1, raw.length, '/')) {
+        const tile = this.parseHazardTile(pair);
+        if (tile) {
+          node.tiles.push(tile);
+        } else {
+          this.addError(
+            `Expected 'row,col' but found '${pair.value}'`,
+            pair.range.start,
+            sectionName
+          );
+        }
+      }
+      items.push(node);
+    }
+
+    return items;
+  }
+
+  /**
+   * Parse one 'row,col' pair of a hazard line
+   */
+  private parseHazardTile(pair: CstToken): HazardTileNode | undefined {
+    const match = pair.value.match(/^(\d+)(\s*,\s*)(\d+)$/);
+    if (!match) {
+      return undefined;
+    }
+    const { line, column } = pair.range.start;
+    return {
+      kind: 'hazardTile',
+      row: this.token(parseInt(match[1]), line, column, match[1].length),
+      col: this.token(
+        parseInt(match[3]),
+        line,
+        column + match[1].length + match[2].length,
+        match[3].length
+      ),
+      range: pair.range,
+    };
+  }
+
+  /**
+   * Typed info section from its entries
+   */
+  private toInfo(items: SectionItemNode[]): InfoSection {
+    const info: Partial<InfoSection> = {};
+    for (const item of items) {
+      if (item.kind === 'infoEntry') {
+        setInfoValue(info, item.key.value, item.value.value);
+      }
+    }
+    return info as InfoSection;
+  }
+
+  /**
+   * Typed grid from its row nodes
+   */
+  private toGrid(rows: SectionItemNode[]): number[][] {
+    return rows.flatMap(row => (row.kind === 'gridRow' ? [row.cells.map(cell => cell.value)] : []));
+  }
+
+  /**
+   * Typed resources from the crystals and ore grids
+   */
+  private toResources(items: SectionItemNode[]): NonNullable<DatFile['resources']> {
+    const resources: NonNullable<DatFile['resources']> = {};
+    for (const item of items) {
+      if (item.kind === 'resourceGrid' && item.rows.length > 0) {
+        resources[item.name.value] = this.toGrid(item.rows);
+      }
+    }
+    return resources;
+  }
+
+  /**
+   * Typed entities, skipping records without coordinates
+   */
+  private toEntities(items: SectionItemNode[]): Entity[] {
+    return items.flatMap(item => (item.kind === 'entity' && item.entity ? [item.entity] : []));
+  }
+
+  /**
+   * Typed hazard groups from their line nodes
+   */
+  private toHazardGroups<T extends LandslideGroup>(items: SectionItemNode[]): T[] {
+    return items.flatMap(item =>
+      item.kind === 'hazardGroup' && item.group ? [item.group as T] : []
+    );
+  }
+
+  /**
+   * Free text of a section body
+   */
+  private textFromLines(body: number[]): string {
+    return body
+      .map(i => this.lines[i])
+      .join('\n')
+      .trim();
+  }
+
+  /**
+   * Split part of a line on a delimiter, trimming each piece and dropping empty ones
+   */
+  private splitRange(line: number, start: number, end: number, delimiter: string): CstToken[] {
+    const tokens: CstToken[] = [];
+    let pieceStart = start;
+
+    for (let i = start; i <= end; i++) {
+      if (i === end || this.lines[line][i] === delimiter) {
+        const token = this.trimmedToken(line, pieceStart, i);
+        if (token.value) {
+          tokens.push(token);
+        }
+        pieceStart = i + 1;
+      }
+    }
+
+    return tokens;
+  }
+
+  private splitLine(line: number, delimiter: string): CstToken[] {
+    return this.splitRange(line, 0, this.lines[line].length, delimiter);
+  }
+
+  private token<T>(value: T, line: number, column: number, length?: number): CstToken<T> {
+    const width = length ?? String(value).length;
+    return {
+      value,
+      range: { start: { line, column }, end: { line, column: column + width } },
+    };
+  }
+
+  /**
+   * Token for line[start, end) with surrounding whitespace removed
+   */
+  private trimmedToken(line: number, start: number, end: number): CstToken {
+    const text = this.lines[line].slice(start, end);
+    const leading = text.length - text.trimStart().length;
+    return this.token(text.trim(), line, start + leading);
+  }
+
+  /**
+   * Token for part of another single-line token's value
+   */
+  private subToken(token: CstToken, start: number, end: number): CstToken {
+    const { line, column } = token.range.start;
+    return this.token(token.value.slice(start, end), line, column + start);
+  }
+
+  private nonEmpty(body: number[]): number[] {
+    return body.filter(i => this.lines[i].trim().length > 0);
+  }
+
+  private indent(line: number): number {
+    const raw = this.lines[line];
+    return raw.length - raw.trimStart().length;
+  }
+
+  private lineRange(line: number): SourceRange {
+    return {
+      start: { line, column: this.indent(line) },
+      end: { line, column: this.lines[line].trimEnd().length },
+    };
+  }
+
+  private lineEnd(line: number): SourcePosition {
+    return { line, column: this.lines[line].trimEnd().length };
+  }
+
+  /**
+   * Last non-blank line at or before the given one
+   */
+  private lastContentLine(line: number): number {
+    while (line > 0 && !this.lines[line].trim()) {
+      line--;
+    }
+    return Math.max(line, 0);
+  }
+
+  private addError(message: string, position: SourcePosition, section?: string): void {
+    this.errors.push(new DatParseError(message, position.line, position.column, section));
+  }
+}
+
+/**
+ * Whether a range contains a position; the end is inclusive so a cursor
+ * just after a token still resolves to it
+ */
+export function containsPosition(range: SourceRange, position: SourcePosition): boolean {
+  const afterStart =
+    position.line > range.start.line ||
+    (position.line === range.start.line && position.column >= range.start.column);
+  const beforeEnd =
+    position.line < range.end.line ||
+    (position.line === range.end.line && position.column <= range.end.column);
+  return afterStart && beforeEnd;
+}
+
+/**
+ * Direct child nodes of a CST node
+ */
+export function getChildNodes(node: CstNode): CstNode[] {
+  switch (node.kind) {
+    case 'document':
+      return node.sections;
+    case 'section':
+      return node.items;
+    case 'gridRow':
+      return node.cells;
+    case 'resourceGrid':
+      return node.rows;
+    case 'entity':
+      return node.fields;
+    case 'hazardGroup':
+      return node.tiles;
+    case 'text':
+    case 'comment':
+    case 'infoEntry':
+    case 'gridCell':
+    case 'entityField':
+    case 'objective':
+    case 'block':
+    case 'wire':
+    case 'hazardTile':
+      return [];
+    default:
+      return getScriptChildNodes(node);
+  }
+}
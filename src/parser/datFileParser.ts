@@ -5,20 +5,27 @@ import {
   Entity,
   EntityPropertyValue,
   Objective,
-  ScriptSection,
-  ScriptEvent,
-  ScriptVariableValue,
   DatParseError,
+  DatSectionName,
   SectionInfo,
   BiomeType,
   BuildingType,
+  BlocksSection,
+  HazardTile,
+  LandslideGroup,
+  LavaSpreadGroup,
 } from '../types/datFileTypes';
+import { ScriptNode } from '../types/scriptAstTypes';
+import { ScriptParser } from './scriptParser';
+import { VisualBlocksParser } from './visualBlocksParser';
 
 export class DatFileParser {
+  private content: string;
   private lines: string[];
   private sections: Map<string, SectionInfo>;
 
   constructor(content: string) {
+    this.content = content;
     this.lines = content.split(/\r?\n/);
     this.sections = new Map();
     this.parseSections();
@@ -79,64 +86,7 @@ export class DatFileParser {
    * Parse the complete DAT file
    */
   public parse(): DatFile {
-    const result: Partial<DatFile> = {};
-
-    // Parse each section
-    for (const [name, section] of this.sections) {
-      switch (name) {
-        case 'comments':
-          result.comments = this.parseComments(section);
-          break;
-        case 'info':
-          result.info = this.parseInfo(section);
-          break;
-        case 'tiles':
-          result.tiles = this.parseGrid(section);
-          break;
-        case 'height':
-          result.height = this.parseGrid(section);
-          break;
-        case 'resources':
-          result.resources = this.parseResources(section);
-          break;
-        case 'objectives':
-          result.objectives = this.parseObjectives(section);
-          break;
-        case 'buildings':
-          result.buildings = this.parseEntities(section);
-          break;
-        case 'vehicles':
-          result.vehicles = this.parseEntities(section);
-          break;
-        case 'creatures':
-          result.creatures = this.parseEntities(section);
-          break;
-        case 'miners':
-          result.miners = this.parseEntities(section);
-          break;
-        case 'blocks':
-          result.blocks = this.parseGrid(section);
-          break;
-        case 'script':
-          result.script = this.parseScript(section);
-          break;
-        case 'briefing':
-          result.briefing = section.content.trim();
-          break;
-        case 'briefingsuccess':
-          result.briefingsuccess = section.content.trim();
-          break;
-        case 'briefingfailure':
-          result.briefingfailure = section.content.trim();
-          break;
-        case 'landslidefrequency':
-          result.landslidefrequency = this.parseGrid(section);
-          break;
-        case 'lavaspread':
-          result.lavaspread = this.parseGrid(section);
-          break;
-      }
-    }
+    const result = this.parsePartial();
 
     // Validate required sections
     if (!result.info) {
@@ -152,6 +102,99 @@ export class DatFileParser {
     return result as DatFile;
   }
 
+  /**
+   * Parse every section that is present without requiring info, tiles and height
+   */
+  public parsePartial(): Partial<DatFile> {
+    const result: Partial<DatFile> = {};
+
+    for (const [name, section] of this.sections) {
+      this.assignSection(result, name, section);
+    }
+
+    return result;
+  }
+
+  /**
+   * Parse a single section by name, as it appears in the source text
+   */
+  public parseSection<K extends DatSectionName>(name: K): DatFile[K] | undefined {
+    const section = this.sections.get(name);
+    if (!section) {
+      return undefined;
+    }
+
+    const result: Partial<DatFile> = {};
+    this.assignSection(result, name, section);
+    return result[name];
+  }
+
+  /**
+   * Get the source text this parser was created from
+   */
+  public getText(): string {
+    return this.content;
+  }
+
+  /**
+   * Parse a section and store it on the matching DatFile field
+   */
+  private assignSection(result: Partial<DatFile>, name: string, section: SectionInfo): void {
+    switch (name) {
+      case 'comments':
+        result.comments = this.parseComments(section);
+        break;
+      case 'info':
+        result.info = this.parseInfo(section);
+        break;
+      case 'tiles':
+        result.tiles = this.parseGrid(section);
+        break;
+      case 'height':
+        result.height = this.parseGrid(section);
+        break;
+      case 'resources':
+        result.resources = this.parseResources(section);
+        break;
+      case 'objectives':
+        result.objectives = this.parseObjectives(section);
+        break;
+      case 'buildings':
+        result.buildings = this.parseEntities(section);
+        break;
+      case 'vehicles':
+        result.vehicles = this.parseEntities(section);
+        break;
+      case 'creatures':
+        result.creatures = this.parseEntities(section);
+        break;
+      case 'miners':
+        result.miners = this.parseEntities(section);
+        break;
+      case 'blocks':
+        result.blocks = this.parseBlocks(section);
+        break;
+      case 'script':
+        result.script = this.parseScript(section);
+        break;
+      case 'briefing':
+        result.briefing = section.content.trim();
+        break;
+      case 'briefingsuccess':
+        result.briefingsuccess = section.content.trim();
+        break;
+      case 'briefingfailure':
+        result.briefingfailure = section.content.trim();
+        break;
+      case 'landslidefrequency':
+        result.landslidefrequency = this.parseHazards(section, parseLandslideGroup);
+        break;
+      case 'lavaspread':
+        result.lavaspread = this.parseHazards(section, parseLavaSpreadGroup);
+        break;
+    }
+  }
+
   /**
    * Parse comments section
    */
@@ -180,59 +223,7 @@ export class DatFileParser {
       const key = trimmed.substring(0, colonIndex).trim();
       const value = trimmed.substring(colonIndex + 1).trim();
 
-      switch (key.toLowerCase()) {
-        case 'rowcount':
-          info.rowcount = parseInt(value);
-          break;
-        case 'colcount':
-          info.colcount = parseInt(value);
-          break;
-        case 'camerapos':
-          info.camerapos = this.parseCoordinates(value);
-          break;
-        case 'camerazoom':
-          info.camerazoom = parseFloat(value);
-          break;
-        case 'biome':
-          info.biome = value as BiomeType;
-          break;
-        case 'creator':
-          info.creator = value;
-          break;
-        case 'levelname':
-          info.levelname = value;
-          break;
-        case 'version':
-          info.version = value;
-          break;
-        case 'opencaves':
-          info.opencaves = value;
-          break;
-        case 'oxygen':
-          info.oxygen = parseFloat(value);
-          break;
-        case 'initialcrystals':
-          info.initialcrystals = parseInt(value);
-          break;
-        case 'initialore':
-          info.initialore = parseInt(value);
-          break;
-        case 'spiderrate':
-          info.spiderrate = parseInt(value);
-          break;
-        case 'spidermin':
-          info.spidermin = parseInt(value);
-          break;
-        case 'spidermax':
-          info.spidermax = parseInt(value);
-          break;
-        case 'erosioninitialwaittime':
-          info.erosioninitialwaittime = parseFloat(value);
-          break;
-        case 'erosionscale':
-          info.erosionscale = parseFloat(value);
-          break;
-      }
+      setInfoValue(info, key, value);
     }
 
     if (!info.rowcount || !info.colcount) {
@@ -279,6 +270,16 @@ export class DatFileParser {
     return grid;
   }
 
+  /**
+   * Parse the interval groups of a landslidefrequency or lavaspread section
+   */
+  private parseHazards<T>(section: SectionInfo, parseLine: (line: string) => T | undefined): T[] {
+    return section.content.split('\n').flatMap(line => {
+      const group = parseLine(line.trim());
+      return group ? [group] : [];
+    });
+  }
+
   /**
    * Parse resources section
    */
@@ -342,54 +343,9 @@ export class DatFileParser {
         continue;
       }
 
-      // Resources objective
-      if (trimmed.startsWith('resources:')) {
-        const values = trimmed.substring('resources:'.length).trim().split(',');
-        if (values.length >= 3) {
-          objectives.push({
-            type: 'resources',
-            crystals: parseInt(values[0]),
-            ore: parseInt(values[1]),
-            studs: parseInt(values[2]),
-          });
-        }
-      }
-      // Building objective
-      else if (trimmed.startsWith('building:')) {
-        objectives.push({
-          type: 'building',
-          building: trimmed.substring('building:'.length).trim() as BuildingType,
-        });
-      }
-      // Discover tile objective
-      else if (trimmed.startsWith('discovertile:')) {
-        const match = trimmed.match(/discovertile:\s*(\d+),(\d+)\/(.+)/);
-        if (match) {
-          objectives.push({
-            type: 'discovertile',
-            x: parseInt(match[1]),
-            y: parseInt(match[2]),
-            description: match[3],
-          });
-        }
-      }
-      // Variable objective
-      else if (trimmed.startsWith('variable:')) {
-        const match = trimmed.match(/variable:(.+?)\/(.+)/);
-        if (match) {
-          objectives.push({
-            type: 'variable',
-            condition: match[1],
-            description: match[2],
-          });
-        }
-      }
-      // Find miner objective
-      else if (trimmed.startsWith('findminer:')) {
-        objectives.push({
-          type: 'findminer',
-          minerID: parseInt(trimmed.substring('findminer:'.length).trim()),
-        });
+      const objective = parseObjective(trimmed);
+      if (objective) {
+        objectives.push(objective);
       }
     }
 
@@ -401,37 +357,35 @@ export class DatFileParser {
    */
   private parseEntities(section: SectionInfo): Entity[] {
     const entities: Entity[] = [];
-    const lines = section.content.split('\n');
-
-    for (const line of lines) {
-      const trimmed = line.trim();
-      if (!trimmed) {
-        continue;
-      }
 
+    for (const record of this.collectEntityRecords(section)) {
       // Split by comma but preserve commas within coordinate strings
-      const parts = this.smartSplit(trimmed, ',');
+      const parts = this.smartSplit(record, ',');
       if (parts.length < 2) {
         continue;
       }
 
       const type = parts[0];
       const coordString = parts[1];
-      const coordinates = this.parseCoordinates(coordString);
+      const coordinates = parseCoordinates(coordString);
 
       const entity: Entity = { type, coordinates };
 
-      // Parse additional properties
-      if (parts.length > 2) {
-        entity.properties = {};
-        for (let i = 2; i < parts.length; i++) {
-          const prop = parts[i].trim();
-          const equalIndex = prop.indexOf('=');
-          if (equalIndex > -1) {
-            const key = prop.substring(0, equalIndex);
-            const value = prop.substring(equalIndex + 1);
-            entity.properties[key] = this.parsePropertyValue(value);
-          }
+      // Parse additional properties and bare flags
+      for (let i = 2; i < parts.length; i++) {
+        const prop = parts[i].trim();
+        if (!prop) {
+          continue;
+        }
+        const equalIndex = prop.indexOf('=');
+        if (equalIndex > -1) {
+          const key = prop.substring(0, equalIndex);
+          const value = prop.substring(equalIndex + 1);
+          entity.properties = entity.properties || {};
+          entity.properties[key] = parsePropertyValue(value);
+        } else {
+          entity.flags = entity.flags || [];
+          entity.flags.push(prop);
         }
       }
 
@@ -442,104 +396,44 @@ export class DatFileParser {
   }
 
   /**
-   * Parse script section
+   * Group entity lines into single comma-separated records. The game writes
+   * creatures over three lines (type, Translation, properties), so lines that
+   * do not start a new entity are joined onto the record before them.
    */
-  private parseScript(section: SectionInfo): ScriptSection {
-    const script: ScriptSection = {
-      variables: new Map(),
-      events: [],
-    };
+  private collectEntityRecords(section: SectionInfo): string[] {
+    const records: string[] = [];
 
-    const lines = section.content.split('\n');
-    let currentEvent: ScriptEvent | null = null;
-
-    for (const line of lines) {
+    for (const line of section.content.split('\n')) {
       const trimmed = line.trim();
-      if (!trimmed) {
+      if (!trimmed || trimmed.startsWith('#') || trimmed.startsWith('//')) {
         continue;
       }
 
-      // Variable declaration
-      if (trimmed.match(/^(int|string|float|bool)\s+\w+/)) {
-        const match = trimmed.match(/^(int|string|float|bool)\s+(\w+)\s*=\s*(.+)$/);
-        if (match) {
-          const [, type, name, value] = match;
-          script.variables.set(name, this.parseScriptValue(value, type));
-        }
-      }
-      // Event declaration
-      else if (trimmed.endsWith('::;')) {
-        if (currentEvent) {
-          script.events.push(currentEvent);
-        }
-        const name = trimmed.slice(0, -3);
-        currentEvent = { name, commands: [] };
-      }
-      // Conditional event trigger
-      else if (trimmed.match(/^\(.+\)\w+;$/)) {
-        const match = trimmed.match(/^\((.+)\)(\w+);$/);
-        if (match && currentEvent) {
-          currentEvent.condition = match[1];
-        }
-      }
-      // Command
-      else if (trimmed.includes(':') && trimmed.endsWith(';')) {
-        const colonIndex = trimmed.indexOf(':');
-        const command = trimmed.substring(0, colonIndex);
-        const params = trimmed.substring(colonIndex + 1, trimmed.length - 1);
-
-        if (currentEvent) {
-          currentEvent.commands.push({
-            command,
-            parameters: this.parseScriptParameters(params),
-          });
-        }
+      const startsEntity = /^\w+_C\b/.test(trimmed) || /^ID=[^,]*,\s*Translation:/.test(trimmed);
+      if (startsEntity || records.length === 0) {
+        records.push(trimmed);
+      } else {
+        records[records.length - 1] += ',' + trimmed;
       }
     }
 
-    // Add last event
-    if (currentEvent) {
-      script.events.push(currentEvent);
-    }
-
-    return script;
+    return records.filter(record => record.includes('Translation:'));
   }
 
   /**
-   * Parse coordinates string
+   * Parse script section
    */
-  private parseCoordinates(str: string): Coordinates {
-    const coords: Coordinates = {
-      translation: { x: 0, y: 0, z: 0 },
-      rotation: { p: 0, y: 0, r: 0 },
-      scale: { x: 1, y: 1, z: 1 },
-    };
-
-    // Parse Translation
-    const transMatch = str.match(/Translation:\s*X=([\d.-]+)\s*Y=([\d.-]+)\s*Z=([\d.-]+)/);
-    if (transMatch) {
-      coords.translation.x = parseFloat(transMatch[1]);
-      coords.translation.y = parseFloat(transMatch[2]);
-      coords.translation.z = parseFloat(transMatch[3]);
-    }
-
-    // Parse Rotation
-    const rotMatch = str.match(/Rotation:\s*P=([\d.-]+)\s*Y=([\d.-]+)\s*R=([\d.-]+)/);
-    if (rotMatch) {
-      coords.rotation.p = parseFloat(rotMatch[1]);
-      coords.rotation.y = parseFloat(rotMatch[2]);
-      coords.rotation.r = parseFloat(rotMatch[3]);
-    }
-
-    // Parse Scale
-    const scaleMatch = str.match(/Scale\s*X=([\d.-]+)\s*Y=([\d.-]+)\s*Z=([\d.-]+)/);
-    if (scaleMatch) {
-      coords.scale.x = parseFloat(scaleMatch[1]);
-      coords.scale.y = parseFloat(scaleMatch[2]);
-      coords.scale.z = parseFloat(scaleMatch[3]);
-    }
+  private parseScript(section: SectionInfo): ScriptNode {
+    const body = this.lines.slice(section.startLine + 1, section.endLine);
+    return new ScriptParser(body.join('\n'), section.startLine + 1).getScript();
+  }
 
-    return coords;
+  /**
+   * Parse blocks section into its block graph
+   */
+  private parseBlocks(section: SectionInfo): BlocksSection {
+    const body = this.lines.slice(section.startLine + 1, section.endLine);
+    return new VisualBlocksParser(body.join('\n'), section.startLine).parse();
   }
 
   /**
@@ -585,67 +479,6 @@ export class DatFileParser {
     return results;
   }
 
-  /**
-   * Parse property value
-   */
-  private parsePropertyValue(value: string): EntityPropertyValue {
-    if (value === 'true' || value === 'True') {
-      return true;
-    }
-    if (value === 'false' || value === 'False') {
-      return false;
-    }
-    if (!isNaN(Number(value))) {
-      return Number(value);
-    }
-    return value;
-  }
-
-  /**
-   * Parse script value based on type
-   */
-  private parseScriptValue(value: string, type: string): ScriptVariableValue {
-    value = value.trim();
-
-    switch (type) {
-      case 'int':
-        return parseInt(value);
-      case 'float':
-        return parseFloat(value);
-      case 'bool':
-        return value === 'true';
-      case 'string':
-        // Remove quotes if present
-        if (
-          (value.startsWith('"') && value.endsWith('"')) ||
-          (value.startsWith("'") && value.endsWith("'"))
-        ) {
-          return value.slice(1, -1);
-        }
-        return value;
-      default:
-        return value;
-    }
-  }
-
-  /**
-   * Parse script command parameters
-   */
-  private parseScriptParameters(params: string): string[] {
-    if (!params) {
-      return [];
-    }
-
-    // Handle different parameter formats
-    if (params.includes(':')) {
-      // Complex format like emerge parameters
-      return params.split(':').map(p => p.trim());
-    } else {
-      // Simple comma-separated
-      return params.split(',').map(p => p.trim());
-    }
-  }
-
   /**
    * Get all sections
    */
@@ -688,3 +521,224 @@ export class DatFileParser {
     }
   }
 }
+
+/**
+ * Store an info key on the section, converting it to the type the field expects
+ */
+export function setInfoValue(info: Partial<InfoSection>, key: string, value: string): void {
+  switch (key.toLowerCase()) {
+    case 'rowcount':
+      info.rowcount = parseInt(value);
+      break;
+    case 'colcount':
+      info.colcount = parseInt(value);
+      break;
+    case 'camerapos':
+      info.camerapos = parseCoordinates(value);
+      break;
+    case 'camerazoom':
+      info.camerazoom = parseFloat(value);
+      break;
+    case 'biome':
+      info.biome = value as BiomeType;
+      break;
+    case 'creator':
+      info.creator = value;
+      break;
+    case 'levelname':
+      info.levelname = value;
+      break;
+    case 'version':
+      info.version = value;
+      break;
+    case 'opencaves':
+      info.opencaves = value;
+      break;
+    case 'oxygen':
+      info.oxygen = parseFloat(value);
+      break;
+    case 'initialcrystals':
+      info.initialcrystals = parseInt(value);
+      break;
+    case 'initialore':
+      info.initialore = parseInt(value);
+      break;
+    case 'spiderrate':
+      info.spiderrate = parseInt(value);
+      break;
+    case 'spidermin':
+      info.spidermin = parseInt(value);
+      break;
+    case 'spidermax':
+      info.spidermax = parseInt(value);
+      break;
+    case 'erosioninitialwaittime':
+      info.erosioninitialwaittime = parseFloat(value);
+      break;
+    case 'erosionscale':
+      info.erosionscale = parseFloat(value);
+      break;
+    default:
+      info.extras = { ...info.extras, [key]: value };
+      break;
+  }
+}
+
+/**
+ * Parse a single objectives line, returning undefined when it is not recognised
+ */
+export function parseObjective(line: string): Objective | undefined {
+  // Resources objective
+  if (line.startsWith('resources:')) {
+    const values = line.substring('resources:'.length).trim().split(',');
+    if (values.length >= 3) {
+      return {
+        type: 'resources',
+        crystals: parseInt(values[0]),
+        ore: parseInt(values[1]),
+        studs: parseInt(values[2]),
+      };
+    }
+  }
+  // Building objective
+  else if (line.startsWith('building:')) {
+    return {
+      type: 'building',
+      building: line.substring('building:'.length).trim() as BuildingType,
+    };
+  }
+  // Discover tile objective
+  else if (line.startsWith('discovertile:')) {
+    const match = line.match(/discovertile:\s*(\d+),(\d+)\/(.+)/);
+    if (match) {
+      return {
+        type: 'discovertile',
+        x: parseInt(match[1]),
+        y: parseInt(match[2]),
+        description: match[3],
+      };
+    }
+  }
+  // Variable objective
+  else if (line.startsWith('variable:')) {
+    const match = line.match(/variable:(.+?)\/(.+)/);
+    if (match) {
+      return {
+        type: 'variable',
+        condition: match[1],
+        description: match[2],
+      };
+    }
+  }
+  // Find miner objective
+  else if (line.startsWith('findminer:')) {
+    return {
+      type: 'findminer',
+      minerID: parseInt(line.substring('findminer:'.length).trim()),
+    };
+  }
+  // Find building objective
+  else if (line.startsWith('findbuilding:')) {
+    const match = line.match(/findbuilding:\s*(\d+),(\d+)/);
+    if (match) {
+      return {
+        type: 'findbuilding',
+        x: parseInt(match[1]),
+        y: parseInt(match[2]),
+      };
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Parse a landslidefrequency 'INTERVAL:row,col/row,col/' line, returning
+ * undefined when it is not one
+ */
+export function parseLandslideGroup(line: string): LandslideGroup | undefined {
+  const match = line.match(/^(\d+(?:\.\d+)?)\s*:(.*)$/);
+  if (!match) {
+    return undefined;
+  }
+  return { interval: parseFloat(match[1]), tiles: parseHazardTiles(match[2]) };
+}
+
+/**
+ * Parse a lavaspread 'INTERVAL/DELAY:row,col/row,col/' line, returning
+ * undefined when it is not one
+ */
+export function parseLavaSpreadGroup(line: string): LavaSpreadGroup | undefined {
+  const match = line.match(/^(\d+(?:\.\d+)?)\s*\/\s*(\d+(?:\.\d+)?)\s*:(.*)$/);
+  if (!match) {
+    return undefined;
+  }
+  return {
+    interval: parseFloat(match[1]),
+    delay: parseFloat(match[2]),
+    tiles: parseHazardTiles(match[3]),
+  };
+}
+
+/**
+ * Parse '/'-terminated 'row,col' pairs, skipping any that are not two numbers
+ */
+function parseHazardTiles(text: string): HazardTile[] {
+  return text.split('/').flatMap(pair => {
+    const match = pair.trim().match(/^(\d+)\s*,\s*(\d+)$/);
+    return match ? [{ row: parseInt(match[1]), col: parseInt(match[2]) }] : [];
+  });
+}
+
+/**
+ * Parse coordinates string
+ */
+export function parseCoordinates(str: string): Coordinates {
+  const coords: Coordinates = {
+    translation: { x: 0, y: 0, z: 0 },
+    rotation: { p: 0, y: 0, r: 0 },
+    scale: { x: 1, y: 1, z: 1 },
+  };
+
+  // Parse Translation
+  const transMatch = str.match(/Translation:\s*X=([\d.-]+)\s*Y=([\d.-]+)\s*Z=([\d.-]+)/);
+  if (transMatch) {
+    coords.translation.x = parseFloat(transMatch[1]);
+    coords.translation.y = parseFloat(transMatch[2]);
+    coords.translation.z = parseFloat(transMatch[3]);
+  }
+
+  // Parse Rotation
+  const rotMatch = str.match(/Rotation:\s*P=([\d.-]+)\s*Y=([\d.-]+)\s*R=([\d.-]+)/);
+  if (rotMatch) {
+    coords.rotation.p = parseFloat(rotMatch[1]);
+    coords.rotation.y = parseFloat(rotMatch[2]);
+    coords.rotation.r = parseFloat(rotMatch[3]);
+  }
+
+  // Parse Scale
+  const scaleMatch = str.match(/Scale\s*X=([\d.-]+)\s*Y=([\d.-]+)\s*Z=([\d.-]+)/);
+  if (scaleMatch) {
+    coords.scale.x = parseFloat(scaleMatch[1]);
+    coords.scale.y = parseFloat(scaleMatch[2]);
+    coords.scale.z = parseFloat(scaleMatch[3]);
+  }
+
+  return coords;
+}
+
+/**
+ * Parse entity property value
+ */
+export function parsePropertyValue(value: string): EntityPropertyValue {
+  if (value === 'true' || value === 'True') {
+    return true;
+  }
+  if (value === 'false' || value === 'False') {
+    return false;
+  }
+  if (!isNaN(Number(value))) {
+    return Number(value);
+  }
+  return value;
+}
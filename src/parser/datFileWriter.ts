@@ -0,0 +1,339 @@
+import {
+  BlocksSection,
+  DatFile,
+  DatSectionName,
+  InfoSection,
+  Coordinates,
+  Entity,
+  HazardTile,
+  LandslideGroup,
+  LavaSpreadGroup,
+  Objective,
+} from '../types/datFileTypes';
+import { ScriptNode } from '../types/scriptAstTypes';
+import { DatFileParser } from './datFileParser';
+import { printScript } from './scriptPrinter';
+import { printBlockWire, printVisualBlock } from './visualBlocksParser';
+
+// Section order used by the game's own level editor
+export const SECTION_ORDER: DatSectionName[] = [
+  'comments',
+  'info',
+  'tiles',
+  'height',
+  'resources',
+  'objectives',
+  'buildings',
+  'landslidefrequency',
+  'lavaspread',
+  'creatures',
+  'miners',
+  'vehicles',
+  'briefing',
+  'briefingsuccess',
+  'briefingfailure',
+  'blocks',
+  'script',
+];
+
+// Info keys in the order they are written
+export const INFO_KEYS: (keyof InfoSection)[] = [
+  'rowcount',
+  'colcount',
+  'camerapos',
+  'camerazoom',
+  'biome',
+  'creator',
+  'levelname',
+  'version',
+  'opencaves',
+  'oxygen',
+  'initialcrystals',
+  'initialore',
+  'spiderrate',
+  'spidermin',
+  'spidermax',
+  'erosioninitialwaittime',
+  'erosionscale',
+];
+
+// Sections the game writes with one entity spread over several lines
+const MULTILINE_ENTITY_SECTIONS: DatSectionName[] = ['creatures'];
+
+export interface DatFileWriterOptions {
+  /**
+   * Parser the DatFile was read with. Sections whose value is unchanged are
+   * copied from its source text verbatim, so untouched content (comments,
+   * spacing, unknown sections) survives byte for byte.
+   */
+  source?: DatFileParser;
+  lineEnding?: '\n' | '\r\n';
+}
+
+export class DatFileWriter {
+  private eol: string;
+
+  constructor(private options: DatFileWriterOptions = {}) {
+    const sourceText = options.source?.getText();
+    this.eol = options.lineEnding || (sourceText?.includes('\r\n') ? '\r\n' : '\n');
+  }
+
+  /**
+   * Serialize a DatFile to .dat text
+   */
+  public write(datFile: Partial<DatFile>): string {
+    if (this.options.source) {
+      return this.writeWithSource(datFile, this.options.source);
+    }
+
+    const sections = SECTION_ORDER.filter(name => datFile[name] !== undefined).map(name =>
+      this.writeSection(name, datFile[name])
+    );
+    return sections.join(this.eol) + this.eol;
+  }
+
+  /**
+   * Serialize a single section, including its header and closing brace
+   */
+  public writeSection<K extends DatSectionName>(name: K, value: DatFile[K]): string {
+    const body = this.writeSectionBody(name, value);
+    return [`${name}{`, ...body, '}'].join(this.eol);
+  }
+
+  /**
+   * Rewrite the source text, replacing only the sections whose value changed
+   */
+  private writeWithSource(datFile: Partial<DatFile>, source: DatFileParser): string {
+    const text = source.getText();
+    const lineStarts = this.getLineStarts(text);
+    const lineEnd = (line: number) =>
+      line + 1 < lineStarts.length
+        ? lineStarts[line + 1] - (text[lineStarts[line + 1] - 2] === '\r' ? 2 : 1)
+        : text.length;
+
+    const sections = Array.from(source.getSections().values()).sort(
+      (a, b) => a.startLine - b.startLine
+    );
+
+    let output = '';
+    let cursor = 0;
+    const written = new Set<string>();
+
+    for (const section of sections) {
+      const start = lineStarts[section.startLine];
+      const end = lineEnd(section.endLine);
+      output += text.slice(cursor, start);
+      cursor = end;
+
+      const name = section.name as DatSectionName;
+      if (!SECTION_ORDER.includes(name)) {
+        // Unknown sections are always preserved as-is
+        output += text.slice(start, end);
+        continue;
+      }
+      written.add(name);
+
+      const value = datFile[name];
+      if (value === undefined) {
+        // Section was removed; drop its line terminator too
+        cursor = section.endLine + 1 < lineStarts.length ? lineStarts[section.endLine + 1] : end;
+        continue;
+      }
+
+      const current = this.writeSection(name, value);
+      const original = this.writeSection(name, source.parseSection(name));
+      output += current === original ? text.slice(start, end) : current;
+    }
+    output += text.slice(cursor);
+
+    const added = SECTION_ORDER.filter(name => !written.has(name) && datFile[name] !== undefined);
+    if (added.length > 0) {
+      if (output.length > 0 && !output.endsWith('\n')) {
+        output += this.eol;
+      }
+      output += added.map(name => this.writeSection(name, datFile[name])).join(this.eol) + this.eol;
+    }
+
+    return output;
+  }
+
+  /**
+   * Serialize the lines between a section's braces
+   */
+  private writeSectionBody(name: DatSectionName, value: unknown): string[] {
+    if (value === undefined) {
+      return [];
+    }
+
+    switch (name) {
+      case 'comments':
+        return value as string[];
+      case 'info':
+        return this.writeInfo(value as InfoSection);
+      case 'tiles':
+      case 'height':
+        return this.writeGrid(value as number[][]);
+      case 'blocks':
+        return [
+          ...(value as BlocksSection).blocks.map(printVisualBlock),
+          ...(value as BlocksSection).wires.map(printBlockWire),
+        ];
+      case 'landslidefrequency':
+        return (value as LandslideGroup[]).map(
+          group => `${this.writeSeconds(group.interval)}:${this.writeHazardTiles(group.tiles)}`
+        );
+      case 'lavaspread':
+        return (value as LavaSpreadGroup[]).map(
+          group =>
+            `${this.writeSeconds(group.interval)}/${this.writeSeconds(group.delay)}:` +
+            this.writeHazardTiles(group.tiles)
+        );
+      case 'resources':
+        return this.writeResources(value as NonNullable<DatFile['resources']>);
+      case 'objectives':
+        return (value as Objective[]).map(objective => this.writeObjective(objective));
+      case 'buildings':
+      case 'vehicles':
+      case 'creatures':
+      case 'miners':
+        return this.writeEntities(value as Entity[], MULTILINE_ENTITY_SECTIONS.includes(name));
+      case 'script':
+        return printScript(value as ScriptNode);
+      case 'briefing':
+      case 'briefingsuccess':
+      case 'briefingfailure':
+        return (value as string).length > 0 ? (value as string).split(/\r?\n/) : [];
+    }
+  }
+
+  /**
+   * Serialize info section
+   */
+  private writeInfo(info: InfoSection): string[] {
+    const lines: string[] = [];
+
+    for (const key of INFO_KEYS) {
+      const value = info[key];
+      if (value === undefined) {
+        continue;
+      }
+      if (key === 'camerapos') {
+        lines.push(`camerapos:${formatCoordinates(value as Coordinates)}`);
+      } else {
+        lines.push(`${key}:${value}`);
+      }
+    }
+
+    for (const [key, value] of Object.entries(info.extras || {})) {
+      lines.push(`${key}:${value}`);
+    }
+
+    return lines;
+  }
+
+  /**
+   * Serialize a grid with the trailing comma the game writes on every row
+   */
+  private writeGrid(grid: number[][]): string[] {
+    return grid.map(row => row.join(',') + ',');
+  }
+
+  /**
+   * Serialize hazard tiles as the game does, each followed by '/'
+   */
+  private writeHazardTiles(tiles: HazardTile[]): string {
+    return tiles.map(tile => `${tile.row},${tile.col}/`).join('');
+  }
+
+  /**
+   * Seconds with the one decimal place the game's editor writes
+   */
+  private writeSeconds(seconds: number): string {
+    return Number.isInteger(seconds) ? seconds.toFixed(1) : String(seconds);
+  }
+
+  /**
+   * Serialize resources section
+   */
+  private writeResources(resources: NonNullable<DatFile['resources']>): string[] {
+    const lines: string[] = [];
+    if (resources.crystals) {
+      lines.push('crystals:', ...this.writeGrid(resources.crystals));
+    }
+    if (resources.ore) {
+      lines.push('ore:', ...this.writeGrid(resources.ore));
+    }
+    return lines;
+  }
+
+  /**
+   * Serialize a single objective
+   */
+  private writeObjective(objective: Objective): string {
+    switch (objective.type) {
+      case 'resources':
+        return `resources: ${objective.crystals},${objective.ore},${objective.studs}`;
+      case 'building':
+        return `building:${objective.building}`;
+      case 'discovertile':
+        return `discovertile:${objective.x},${objective.y}/${objective.description}`;
+      case 'variable':
+        return `variable:${objective.condition}/${objective.description}`;
+      case 'findminer':
+        return `findminer:${objective.minerID}`;
+      case 'findbuilding':
+        return `findbuilding:${objective.x},${objective.y}`;
+    }
+  }
+
+  /**
+   * Serialize entities, one per line or spread over type/Translation/properties lines
+   */
+  private writeEntities(entities: Entity[], multiline: boolean): string[] {
+    const lines: string[] = [];
+
+    for (const entity of entities) {
+      const extras = [
+        ...(entity.flags || []),
+        ...Object.entries(entity.properties || {}).map(([key, value]) => `${key}=${value}`),
+      ];
+      const coordinates = formatCoordinates(entity.coordinates);
+
+      if (multiline) {
+        lines.push(entity.type, coordinates);
+        if (extras.length > 0) {
+          lines.push(extras.join(','));
+        }
+      } else {
+        lines.push([entity.type, coordinates, ...extras].join(','));
+      }
+    }
+
+    return lines;
+  }
+
+  /**
+   * Get the offset at which each line of the text starts
+   */
+  private getLineStarts(text: string): number[] {
+    const starts = [0];
+    for (let i = 0; i < text.length; i++) {
+      if (text[i] === '\n') {
+        starts.push(i + 1);
+      }
+    }
+    return starts;
+  }
+}
+
+/**
+ * Serialize coordinates with the precision the game writes
+ */
+export function formatCoordinates(coords: Coordinates): string {
+  const { translation: t, rotation: r, scale: s } = coords;
+  return (
+    `Translation: X=${t.x.toFixed(3)} Y=${t.y.toFixed(3)} Z=${t.z.toFixed(3)} ` +
+    `Rotation: P=${r.p.toFixed(6)} Y=${r.y.toFixed(6)} R=${r.r.toFixed(6)} ` +
+    `Scale X=${s.x.toFixed(3)} Y=${s.y.toFixed(3)} Z=${s.z.toFixed(3)}`
+  );
+}
@@ -0,0 +1,287 @@
+/**
+ * Formatting of .dat text: braces and indentation, grid rows, canonical
+ * entity coordinates, ordered info keys and normalized script. A section that
+ * cannot be reformatted without losing text, because it is unclosed or has
+ * errors, is only stripped of trailing whitespace.
+ */
+
+import { DatCstParser } from './datCstParser';
+import { parseCoordinates } from './datFileParser';
+import { formatCoordinates, INFO_KEYS } from './datFileWriter';
+import { printScriptItem } from './scriptPrinter';
+import { GridRowNode, SectionItemNode, SectionNode } from '../types/datCstTypes';
+import { ScriptItemNode } from '../types/scriptAstTypes';
+
+export interface DatFormatOptions {
+  // Info keys in the order they are written; keys not listed follow in source order
+  infoKeyOrder: string[];
+}
+
+export const DEFAULT_FORMAT_OPTIONS: DatFormatOptions = {
+  infoKeyOrder: [...INFO_KEYS],
+};
+
+/**
+ * Replacement for a run of whole lines
+ */
+export interface DatFormatEdit {
+  // First and last line replaced, inclusive
+  startLine: number;
+  endLine: number;
+  lines: string[];
+}
+
+const ENTITY_SECTIONS = ['buildings', 'vehicles', 'creatures', 'miners'];
+
+// Sections whose lines are kept as written apart from indentation
+const TRIMMED_SECTIONS = ['objectives', 'blocks', 'landslidefrequency', 'lavaspread'];
+
+const NUMBER = '(-?\\d*\\.?\\d+)';
+const COORDINATES_PATTERN = new RegExp(
+  `^Translation:\\s*X=${NUMBER}\\s*Y=${NUMBER}\\s*Z=${NUMBER}\\s*` +
+    `Rotation:\\s*P=${NUMBER}\\s*Y=${NUMBER}\\s*R=${NUMBER}\\s*` +
+    `Scale\\s*X=${NUMBER}\\s*Y=${NUMBER}\\s*Z=${NUMBER}$`
+);
+
+/**
+ * Format a whole document. Blank lines between sections are dropped and the
+ * line ending and final newline of the text are kept.
+ */
+export function formatDatText(
+  text: string,
+  options: DatFormatOptions = DEFAULT_FORMAT_OPTIONS
+): string {
+  const lines = text.split(/\r?\n/);
+  const eol = text.includes('\r\n') ? '\r\n' : '\n';
+  const finalNewline = text.endsWith('\n');
+  const parser = new DatCstParser(text);
+  const output: string[] = [];
+
+  // Content outside sections is an error the formatter leaves to validation
+  const keepStray = (from: number, to: number) => {
+    for (let i = from; i < to; i++) {
+      if (lines[i].trim()) {
+        output.push(lines[i].trimEnd());
+      }
+    }
+  };
+
+  let next = 0;
+  for (const section of parser.getDocument().sections) {
+    keepStray(next, section.range.start.line);
+    output.push(...formatSection(parser, lines, section, options));
+    next = section.range.end.line + 1;
+  }
+  keepStray(next, finalNewline ? lines.length - 1 : lines.length);
+
+  return output.join(eol) + (finalNewline ? eol : '');
+}
+
+/**
+ * Edits that format every section overlapping a range of lines. Each edit
+ * replaces one section, braces included.
+ */
+export function getDatFormatEdits(
+  text: string,
+  startLine: number,
+  endLine: number,
+  options: DatFormatOptions = DEFAULT_FORMAT_OPTIONS
+): DatFormatEdit[] {
+  const lines = text.split(/\r?\n/);
+  const parser = new DatCstParser(text);
+
+  return parser.getDocument().sections.flatMap(section => {
+    const { start, end } = section.range;
+    if (end.line < startLine || start.line > endLine) {
+      return [];
+    }
+    const formatted = formatSection(parser, lines, section, options);
+    const original = lines.slice(start.line, end.line + 1);
+    if (formatted.join('\n') === original.join('\n')) {
+      return [];
+    }
+    return [{ startLine: start.line, endLine: end.line, lines: formatted }];
+  });
+}
+
+/**
+ * Format one section from its header to its closing brace
+ */
+function formatSection(
+  parser: DatCstParser,
+  lines: string[],
+  section: SectionNode,
+  options: DatFormatOptions
+): string[] {
+  const { start, end } = section.range;
+  const name = section.name.value;
+
+  if (!section.closed) {
+    return lines.slice(start.line, end.line + 1).map(line => line.trimEnd());
+  }
+
+  const body = lines.slice(start.line + 1, end.line);
+  const bodyStart = start.line + 1;
+  const formattable =
+    !parser
+      .getErrors()
+      .some(error => error.line >= bodyStart && error.line < end.line && error.section === name) &&
+    body.every(
+      (line, index) =>
+        !line.trim() || section.items.some(item => coversLine(item, bodyStart + index))
+    );
+  const formatted = formattable ? formatBody(lines, section, options) : undefined;
+
+  return [`${name}{`, ...(formatted ?? body.map(line => line.trimEnd())), '}'];
+}
+
+/**
+ * Format the lines between a section's braces, or undefined to keep them as
+ * written
+ */
+function formatBody(
+  lines: string[],
+  section: SectionNode,
+  options: DatFormatOptions
+): string[] | undefined {
+  const name = section.name.value;
+  const items = section.items;
+
+  switch (name) {
+    case 'info':
+      return formatInfo(items, options);
+    case 'tiles':
+    case 'height':
+      return formatGrid(
+        lines,
+        items.filter(item => item.kind === 'gridRow')
+      );
+    case 'resources': {
+      const output: string[] = [];
+      for (const item of items) {
+        if (item.kind !== 'resourceGrid') {
+          continue;
+        }
+        const rows = formatGrid(lines, item.rows);
+        if (!rows) {
+          return undefined;
+        }
+        output.push(`${item.name.value}:`, ...rows);
+      }
+      return output;
+    }
+    case 'script':
+      return formatScript(items as ScriptItemNode[]);
+    default:
+      if (ENTITY_SECTIONS.includes(name)) {
+        return formatEntities(lines, items);
+      }
+      if (TRIMMED_SECTIONS.includes(name)) {
+        return items.flatMap(item => itemLines(lines, item).map(line => line.trim()));
+      }
+      // Comments, briefings and unknown sections are free text
+      return undefined;
+  }
+}
+
+/**
+ * Write info keys in the configured order, the last value of a repeated key
+ * winning as it does when the game reads the file
+ */
+function formatInfo(items: SectionItemNode[], options: DatFormatOptions): string[] {
+  const entries = new Map<string, string>();
+  for (const item of items) {
+    if (item.kind === 'infoEntry') {
+      const key = item.key.value;
+      const existing = [...entries.keys()].find(name => name.toLowerCase() === key.toLowerCase());
+      if (existing !== undefined) {
+        entries.delete(existing);
+      }
+      entries.set(key, item.value.value);
+    }
+  }
+
+  const order = options.infoKeyOrder.map(key => key.toLowerCase());
+  const rank = (key: string) => {
+    const index = order.indexOf(key.toLowerCase());
+    return index === -1 ? order.length : index;
+  };
+  const firstSeen = items.flatMap(item =>
+    item.kind === 'infoEntry' ? [item.key.value.toLowerCase()] : []
+  );
+  const keys = [...entries.keys()].sort(
+    (a, b) =>
+      rank(a) - rank(b) || firstSeen.indexOf(a.toLowerCase()) - firstSeen.indexOf(b.toLowerCase())
+  );
+
+  return keys.map(key => `${key}:${entries.get(key)}`);
+}
+
+/**
+ * Write grid rows without spaces and with the game's trailing comma. Cells
+ * that are not plain integers leave the grid as written.
+ */
+function formatGrid(lines: string[], rows: SectionItemNode[]): string[] | undefined {
+  const cells = (rows as GridRowNode[]).map(row =>
+    row.cells.map(cell =>
+      lines[cell.range.start.line].slice(cell.range.start.column, cell.range.end.column)
+    )
+  );
+  if (cells.some(row => row.some(cell => !/^-?\d+$/.test(cell)))) {
+    return undefined;
+  }
+
+  return cells.map(row => row.map(cell => String(parseInt(cell))).join(',') + ',');
+}
+
+/**
+ * Write entities with canonical coordinates, keeping the one or several
+ * lines each was written over
+ */
+function formatEntities(lines: string[], items: SectionItemNode[]): string[] {
+  return items.flatMap(item => {
+    const record = itemLines(lines, item);
+    const coordinates = item.kind === 'entity' ? item.coordinates : undefined;
+    if (coordinates && coordinates.range.start.line === coordinates.range.end.line) {
+      const match = coordinates.value.match(COORDINATES_PATTERN);
+      if (match) {
+        const index = coordinates.range.start.line - item.range.start.line;
+        const line = record[index];
+        record[index] =
+          line.slice(0, coordinates.range.start.column) +
+          formatCoordinates(parseCoordinates(coordinates.value)) +
+          line.slice(coordinates.range.end.column);
+      }
+    }
+    return record.filter(line => line.trim()).map(line => line.trim());
+  });
+}
+
+/**
+ * Print script items with the printer's spacing. A blank line ends every
+ * event chain; elsewhere one blank line is kept where the source had any.
+ */
+function formatScript(items: ScriptItemNode[]): string[] {
+  const output: string[] = [];
+
+  items.forEach((item, index) => {
+    const previous = items[index - 1];
+    if (
+      previous &&
+      (previous.kind === 'eventChain' || item.range.start.line > previous.range.end.line + 1)
+    ) {
+      output.push('');
+    }
+    output.push(...printScriptItem(item));
+  });
+
+  return output;
+}
+
+function itemLines(lines: string[], item: SectionItemNode): string[] {
+  return lines.slice(item.range.start.line, item.range.end.line + 1);
+}
+
+function coversLine(item: SectionItemNode, line: number): boolean {
+  return item.range.start.line <= line && line <= item.range.end.line;
+}
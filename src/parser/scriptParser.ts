@@ -0,0 +1,969 @@
+import { CommentNode, SourcePosition, SourceRange } from '../types/datCstTypes';
+import { DatParseError } from '../types/datFileTypes';
+import {
+  AssignmentOperator,
+  BinaryOperator,
+  BranchNode,
+  CallExpressionNode,
+  ConditionalNode,
+  EventChainNode,
+  ExpressionNode,
+  IdentifierNode,
+  ScriptAstNode,
+  ScriptItemNode,
+  ScriptNode,
+  ScriptStatementNode,
+  ScriptToken,
+  ScriptVariableNode,
+  ScriptVariableType,
+  TriggerEventNode,
+  TriggerNode,
+  VariableValueNode,
+} from '../types/scriptAstTypes';
+
+export const SCRIPT_VARIABLE_TYPES: ScriptVariableType[] = [
+  'int',
+  'float',
+  'bool',
+  'string',
+  'arrow',
+  'timer',
+  'miner',
+  'vehicle',
+  'creature',
+  'building',
+  'intarray',
+];
+
+// Longest operators first so '>=' is not read as '>' followed by '='
+const OPERATORS = [
+  '::',
+  '==',
+  '!=',
+  '>=',
+  '<=',
+  '+=',
+  '-=',
+  '*=',
+  '/=',
+  '//',
+  '>',
+  '<',
+  '=',
+  '+',
+  '-',
+  '*',
+  '/',
+];
+const PUNCTUATION = '()[],;:.';
+const COMPARISON_OPERATORS = ['==', '!=', '>', '<', '>=', '<='];
+const ASSIGNMENT_OPERATORS = ['=', '+=', '-=', '*=', '/='];
+
+/**
+ * Split one line of script into tokens. Whitespace is dropped; a '#' starts a
+ * comment token that runs to the end of the line.
+ */
+export function tokenizeScriptLine(text: string, line: number): ScriptToken[] {
+  const tokens: ScriptToken[] = [];
+  let i = 0;
+
+  const push = (type: ScriptToken['type'], end: number) => {
+    tokens.push({
+      type,
+      value: text.slice(i, end),
+      range: { start: { line, column: i }, end: { line, column: end } },
+    });
+    i = end;
+  };
+
+  while (i < text.length) {
+    const char = text[i];
+
+    if (/\s/.test(char)) {
+      i++;
+    } else if (char === '#') {
+      push('comment', text.length);
+    } else if (char === '"') {
+      const close = text.indexOf('"', i + 1);
+      push('string', close === -1 ? text.length : close + 1);
+    } else if (/[A-Za-z_]/.test(char)) {
+      push('identifier', i + text.slice(i).match(/^\w+/)![0].length);
+    } else if (/\d/.test(char)) {
+      push('number', i + text.slice(i).match(/^\d+(\.\d+)?/)![0].length);
+    } else {
+      const operator = OPERATORS.find(op => text.startsWith(op, i));
+      if (operator) {
+        push('operator', i + operator.length);
+      } else {
+        push(PUNCTUATION.includes(char) ? 'punctuation' : 'unknown', i + 1);
+      }
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * Tolerant parser for the body of a script{} section. Lines are parsed one at
+ * a time; a syntax error is recorded as a DatParseError and the rest of that
+ * line is skipped.
+ */
+export class ScriptParser {
+  private lines: string[];
+  private errors: DatParseError[] = [];
+  private declared = new Set<string>();
+  private script: ScriptNode;
+
+  // Tokens of the line being parsed
+  private tokens: ScriptToken[] = [];
+  private pos = 0;
+  private end = 0;
+  private lineNumber = 0;
+
+  /**
+   * @param content Text between the section's braces
+   * @param firstLine Document line the content starts on, used for ranges
+   */
+  constructor(
+    content: string,
+    private firstLine = 0
+  ) {
+    this.lines = content.split(/\r?\n/);
+    this.script = this.parseScript();
+  }
+
+  /**
+   * Get the root of the script tree
+   */
+  public getScript(): ScriptNode {
+    return this.script;
+  }
+
+  /**
+   * Get the syntax errors found while parsing, in source order
+   */
+  public getErrors(): DatParseError[] {
+    return this.errors;
+  }
+
+  /**
+   * Parse every line. Declarations are collected first so that 'Name:value;'
+   * can be told apart from a 'command:parameters;' statement.
+   */
+  private parseScript(): ScriptNode {
+    for (const text of this.lines) {
+      const declaration = text.match(/^\s*(\w+)\s+(\w+)/);
+      if (declaration && this.isVariableType(declaration[1])) {
+        this.declared.add(declaration[2]);
+      }
+    }
+
+    const items: ScriptItemNode[] = [];
+    let chain: EventChainNode | undefined;
+
+    this.lines.forEach((text, index) => {
+      this.lineNumber = this.firstLine + index;
+      this.tokens = tokenizeScriptLine(text, this.lineNumber);
+      this.pos = 0;
+
+      const last = this.tokens[this.tokens.length - 1];
+      const comment: CommentNode | undefined =
+        last?.type === 'comment'
+          ? { kind: 'comment', text: last.value, range: last.range }
+          : undefined;
+      this.end = this.tokens.length - (comment ? 1 : 0);
+
+      if (this.tokens.length === 0) {
+        // Only a blank line ends an event chain
+        chain = undefined;
+        return;
+      }
+
+      try {
+        const first = this.tokens[0];
+        const second = this.tokens[1];
+
+        if (this.end === 0) {
+          // Comment line
+        } else if (
+          first.type === 'identifier' &&
+          this.isVariableType(first.value) &&
+          second?.type === 'identifier'
+        ) {
+          chain = undefined;
+          items.push(this.parseVariable());
+        } else if (
+          first.type === 'identifier' &&
+          (first.value === 'if' || first.value === 'when') &&
+          second?.value === '('
+        ) {
+          chain = undefined;
+          items.push(this.parseTrigger());
+        } else if (first.type === 'identifier' && second?.value === '::') {
+          chain = {
+            kind: 'eventChain',
+            name: this.identifier(first),
+            statements: [],
+            range: this.rangeFrom(first.range.start, second.range.end),
+          };
+          items.push(chain);
+          this.pos = 2;
+          this.accept(';');
+          this.parseStatementList(chain);
+        } else if (chain) {
+          this.parseStatementList(chain);
+        } else {
+          this.fail('Statement outside of an event chain', first.range.start);
+        }
+      } catch (error) {
+        if (!(error instanceof DatParseError)) {
+          throw error;
+        }
+        this.errors.push(error);
+      }
+
+      if (comment) {
+        if (chain) {
+          chain.statements.push(comment);
+          chain.range.end = comment.range.end;
+        } else {
+          items.push(comment);
+        }
+      }
+    });
+
+    const lastLine = this.lines.length - 1;
+    return {
+      kind: 'script',
+      items,
+      range: {
+        start: { line: this.firstLine, column: 0 },
+        end: { line: this.firstLine + lastLine, column: this.lines[lastLine].length },
+      },
+    };
+  }
+
+  /**
+   * Parse the ';'-separated statements that make up the rest of a chain line
+   */
+  private parseStatementList(chain: EventChainNode): void {
+    while (this.pos < this.end) {
+      const statement = this.parseStatement();
+      chain.statements.push(statement);
+      chain.range.end = statement.range.end;
+
+      if (!this.accept(';')) {
+        if (this.pos < this.end) {
+          this.fail(`Unexpected '${this.peek()!.value}'`, this.peek()!.range.start);
+        }
+        this.errors.push(
+          new DatParseError(
+            "Missing ';' at end of statement",
+            this.lineNumber,
+            this.lineEnd(),
+            'script'
+          )
+        );
+      }
+    }
+  }
+
+  /**
+   * Parse 'type Name' with an optional '=value'
+   */
+  private parseVariable(): ScriptVariableNode {
+    const typeToken = this.next()!;
+    const node: ScriptVariableNode = {
+      kind: 'variable',
+      varType: { value: typeToken.value as ScriptVariableType, range: typeToken.range },
+      name: this.identifier(this.next()!),
+      range: this.rangeFrom(typeToken.range.start),
+    };
+
+    if (this.accept('=')) {
+      if (this.pos < this.end) {
+        node.value = this.parseVariableValue(node.varType.value);
+      }
+    } else if (this.pos < this.end && this.peek()!.value !== ';') {
+      this.fail(`Expected '=' but found '${this.peek()!.value}'`, this.peek()!.range.start);
+    }
+
+    this.accept(';');
+    this.expectEnd();
+    node.range = this.rangeFrom(typeToken.range.start);
+    return node;
+  }
+
+  private parseVariableValue(type: ScriptVariableType): VariableValueNode {
+    const start = this.peek()!.range.start;
+
+    switch (type) {
+      case 'string': {
+        const token = this.peek()!;
+        const rest = this.tokens.slice(this.pos, this.end);
+        const terminated = rest.length === 1 || (rest.length === 2 && rest[1].value === ';');
+        if (token.type === 'string' && terminated) {
+          return this.parsePrimary();
+        }
+        // Legacy unquoted text runs to the end of the line or the comment
+        const last = this.tokens[this.end - 1];
+        const text = this.textBetween(start, last.range.end).replace(/;$/, '');
+        this.pos = this.end;
+        return {
+          kind: 'string',
+          value: text,
+          quoted: false,
+          range: this.rangeFrom(start, { line: start.line, column: start.column + text.length }),
+        };
+      }
+
+      case 'timer': {
+        const parts = this.parseList(',');
+        const lastPart = parts[parts.length - 1];
+        const event =
+          parts.length > 1 && lastPart.kind === 'identifier'
+            ? (parts.pop() as IdentifierNode)
+            : undefined;
+        const [delay, min, max, ...extra] = parts;
+        if (extra.length > 0) {
+          this.fail('A timer takes at most delay,min,max,Event', extra[0].range.start);
+        }
+        return { kind: 'timerValue', delay, min, max, event, range: this.rangeFrom(start) };
+      }
+
+      case 'building': {
+        const row = this.parseExpression();
+        this.expect(',', "Expected 'row,col'");
+        const col = this.parseExpression();
+        return { kind: 'tileValue', row, col, range: this.rangeFrom(start) };
+      }
+
+      default:
+        return this.parseExpression();
+    }
+  }
+
+  /**
+   * Parse 'if(trigger)((condition))[True][False]'
+   */
+  private parseTrigger(): TriggerNode {
+    const occurrenceToken = this.next()!;
+    this.next();
+
+    let event: TriggerEventNode | ExpressionNode;
+    const nameToken = this.peek();
+    if (nameToken?.type === 'identifier' && this.peek(1)?.value === ':') {
+      this.pos += 2;
+      const args = this.parseList(',', ':');
+      event = {
+        kind: 'triggerEvent',
+        name: this.identifier(nameToken),
+        arguments: args,
+        range: this.rangeFrom(nameToken.range.start),
+      };
+    } else {
+      event = this.parseExpression();
+    }
+    this.expect(')', "Missing ')' after trigger");
+
+    const node: TriggerNode = {
+      kind: 'trigger',
+      occurrence: {
+        value: occurrenceToken.value as 'if' | 'when',
+        range: occurrenceToken.range,
+      },
+      event,
+      range: occurrenceToken.range,
+    };
+
+    if (this.peek()?.value === '(' && this.peek(1)?.value === '(') {
+      this.pos += 2;
+      node.condition = this.parseExpression();
+      this.expect(')', "Missing '))' after condition");
+      this.expect(')', "Missing '))' after condition");
+    }
+
+    this.parseBranches(node);
+    if (!node.trueBranch) {
+      this.fail('Trigger has no event to call', this.position());
+    }
+
+    this.accept(';');
+    if (this.pos < this.end) {
+      const rest = this.textBetween(this.peek()!.range.start, this.tokens[this.end - 1].range.end);
+      this.fail(`Unexpected '${rest}' after trigger`, this.peek()!.range.start);
+    }
+
+    node.range = this.rangeFrom(occurrenceToken.range.start);
+    return node;
+  }
+
+  /**
+   * Parse a statement inside an event chain or a branch
+   */
+  private parseStatement(): ScriptStatementNode {
+    const token = this.peek()!;
+
+    if (token.value === '(') {
+      return this.parseConditional();
+    }
+
+    if (token.type !== 'identifier') {
+      this.fail(`Unrecognised script statement '${token.value}'`, token.range.start);
+    }
+
+    const next = this.peek(1);
+    if (!next || next.value === ';' || next.value === ']') {
+      this.pos++;
+      return { kind: 'eventCall', name: this.identifier(token), range: token.range };
+    }
+
+    if (next.value === '[' || ASSIGNMENT_OPERATORS.includes(next.value)) {
+      return this.parseAssignment();
+    }
+
+    if (next.value === ':') {
+      if (this.declared.has(token.value)) {
+        return this.parseAssignment();
+      }
+      this.pos += 2;
+      return {
+        kind: 'command',
+        command: this.identifier(token),
+        arguments: this.parseArguments(),
+        range: this.rangeFrom(token.range.start),
+      };
+    }
+
+    this.fail(`Unexpected '${next.value}'`, next.range.start);
+  }
+
+  /**
+   * Parse 'Var:value', 'Var+=value' or 'Array[index]:value'
+   */
+  private parseAssignment(): ScriptStatementNode {
+    const start = this.peek()!.range.start;
+    const target = this.parsePostfix();
+    if (target.kind !== 'identifier' && target.kind !== 'call') {
+      this.fail('Invalid assignment target', start);
+    }
+
+    const operator = this.next();
+    if (!operator || (operator.value !== ':' && !ASSIGNMENT_OPERATORS.includes(operator.value))) {
+      this.fail("Expected ':' after assignment target", operator?.range.start ?? this.position());
+    }
+
+    const value = this.parseArgument();
+    if (!value) {
+      this.fail('Assignment has no value', this.position());
+    }
+
+    return {
+      kind: 'assignment',
+      target,
+      operator: operator.value as AssignmentOperator,
+      value,
+      range: this.rangeFrom(start),
+    };
+  }
+
+  /**
+   * Parse '((condition))' or the legacy '(condition)' followed by its branches
+   */
+  private parseConditional(): ConditionalNode {
+    const start = this.next()!.range.start;
+    const legacy = this.peek()?.value !== '(' || this.isLegacyCondition();
+
+    if (!legacy) {
+      this.next();
+    }
+    const condition = this.parseExpression();
+    if (legacy) {
+      this.expect(')', "Missing ')' after condition");
+    } else {
+      this.expect(')', "Missing '))' after condition");
+      this.expect(')', "Missing '))' after condition");
+    }
+
+    const node: ConditionalNode = {
+      kind: 'conditional',
+      condition,
+      legacy,
+      range: this.rangeFrom(start),
+    };
+
+    if (this.peek()?.value === '[' && !legacy) {
+      this.parseBranches(node);
+    } else if (this.pos < this.end && this.peek()!.value !== ';') {
+      const statement = this.parseStatement();
+      node.trueBranch = {
+        kind: 'branch',
+        statements: [statement],
+        bracketed: false,
+        range: statement.range,
+      };
+    }
+
+    if (!node.trueBranch) {
+      this.fail('Trigger has no event to call', this.position());
+    }
+
+    node.range = this.rangeFrom(start);
+    return node;
+  }
+
+  /**
+   * A '(' followed by another '(' is the start of '((condition))' unless the
+   * inner parenthesis closes before the outer one does, as in '(a)and(b))'
+   */
+  private isLegacyCondition(): boolean {
+    let depth = 1;
+    for (let i = this.pos + 1; i < this.end; i++) {
+      const value = this.tokens[i].value;
+      if (value === '(') {
+        depth++;
+      } else if (value === ')') {
+        depth--;
+        if (depth === 0) {
+          return this.tokens[i + 1]?.value !== ')';
+        }
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Parse up to two '[...]' branches onto a trigger or conditional
+   */
+  private parseBranches(node: TriggerNode | ConditionalNode): void {
+    for (const slot of ['trueBranch', 'falseBranch'] as const) {
+      const open = this.peek();
+      if (open?.value !== '[') {
+        return;
+      }
+      this.next();
+
+      const branch: BranchNode = {
+        kind: 'branch',
+        statements: [],
+        bracketed: true,
+        range: open.range,
+      };
+      while (this.pos < this.end && this.peek()!.value !== ']') {
+        branch.statements.push(this.parseStatement());
+        if (!this.accept(';')) {
+          break;
+        }
+      }
+      this.expect(']', "Missing ']' after event name");
+      branch.range = this.rangeFrom(open.range.start);
+      node[slot] = branch;
+    }
+  }
+
+  /**
+   * Parse comma-separated command arguments up to ';' or ']'. An argument
+   * that is not a complete expression is kept as unquoted text, which is how
+   * legacy messages are written.
+   */
+  private parseArguments(): ExpressionNode[] {
+    const args: ExpressionNode[] = [];
+
+    for (;;) {
+      const arg = this.parseArgument();
+      if (arg) {
+        args.push(arg);
+      }
+      if (!this.accept(',')) {
+        return args;
+      }
+    }
+  }
+
+  private parseArgument(): ExpressionNode | undefined {
+    const start = this.pos;
+    let depth = 0;
+    let stop = start;
+
+    for (; stop < this.end; stop++) {
+      const value = this.tokens[stop].value;
+      if (value === '(' || value === '[') {
+        depth++;
+      } else if (value === ')' || value === ']') {
+        if (depth === 0) {
+          break;
+        }
+        depth--;
+      } else if (depth === 0 && (value === ',' || value === ';')) {
+        break;
+      }
+    }
+
+    if (stop === start) {
+      return undefined;
+    }
+
+    const end = this.end;
+    this.end = stop;
+    try {
+      const expression = this.parseExpression();
+      if (this.pos === stop) {
+        return expression;
+      }
+    } catch (error) {
+      if (!(error instanceof DatParseError)) {
+        throw error;
+      }
+    } finally {
+      this.end = end;
+    }
+
+    const first = this.tokens[start].range.start;
+    const last = this.tokens[stop - 1].range.end;
+    this.pos = stop;
+    return {
+      kind: 'string',
+      value: this.textBetween(first, last),
+      quoted: false,
+      range: this.rangeFrom(first, last),
+    };
+  }
+
+  /**
+   * Parse expressions separated by any of the given delimiters
+   */
+  private parseList(...delimiters: string[]): ExpressionNode[] {
+    const items = [this.parseExpression()];
+    while (delimiters.includes(this.peek()?.value ?? '')) {
+      this.next();
+      items.push(this.parseExpression());
+    }
+    return items;
+  }
+
+  // Expressions, lowest precedence first
+
+  private parseExpression(): ExpressionNode {
+    return this.parseBinary(0);
+  }
+
+  private parseBinary(level: number): ExpressionNode {
+    const levels: string[][] = [
+      ['or'],
+      ['and'],
+      COMPARISON_OPERATORS,
+      ['+', '-'],
+      ['*', '/', '//'],
+    ];
+    if (level === levels.length) {
+      return this.parseUnary();
+    }
+
+    const operand = () => (level === 1 ? this.parseNot() : this.parseBinary(level + 1));
+    let left = operand();
+
+    while (this.pos < this.end && levels[level].includes(this.peek()!.value)) {
+      const operator = this.next()!.value as BinaryOperator;
+      const right = operand();
+      left = {
+        kind: 'binary',
+        operator,
+        left,
+        right,
+        range: this.rangeFrom(left.range.start, right.range.end),
+      };
+    }
+
+    return left;
+  }
+
+  private parseNot(): ExpressionNode {
+    const token = this.peek();
+    if (token?.value === 'not') {
+      this.next();
+      const argument = this.parseNot();
+      return {
+        kind: 'unary',
+        operator: 'not',
+        argument,
+        range: this.rangeFrom(token.range.start, argument.range.end),
+      };
+    }
+    return this.parseBinary(2);
+  }
+
+  private parseUnary(): ExpressionNode {
+    const token = this.peek();
+    if (token?.value === '-') {
+      this.next();
+      const argument = this.parseUnary();
+      if (argument.kind === 'number' && argument.range.start.column === token.range.end.column) {
+        // Fold '-5' into a negative literal
+        return {
+          kind: 'number',
+          value: -argument.value,
+          raw: '-' + argument.raw,
+          range: this.rangeFrom(token.range.start, argument.range.end),
+        };
+      }
+      return {
+        kind: 'unary',
+        operator: '-',
+        argument,
+        range: this.rangeFrom(token.range.start, argument.range.end),
+      };
+    }
+    return this.parsePostfix();
+  }
+
+  /**
+   * Member access and macro calls: 'a.b', 'get(r)(c)', 'name[r,c]'
+   */
+  private parsePostfix(): ExpressionNode {
+    let expression = this.parsePrimary();
+
+    for (;;) {
+      const token = this.peek();
+      if (token?.value === '.' && this.isObject(expression)) {
+        this.next();
+        const property = this.identifier(this.expectToken('identifier', 'Expected a name after .'));
+        expression = {
+          kind: 'member',
+          object: expression,
+          property,
+          range: this.rangeFrom(expression.range.start, property.range.end),
+        };
+      } else if (
+        token?.value === '(' &&
+        (expression.kind === 'identifier' ||
+          (expression.kind === 'call' && expression.bracket === '('))
+      ) {
+        this.next();
+        const argument = this.parseExpression();
+        const close = this.expect(')', "Missing ')' after argument");
+        const call: CallExpressionNode =
+          expression.kind === 'call'
+            ? expression
+            : { kind: 'call', callee: expression, arguments: [], bracket: '(', range: token.range };
+        call.arguments.push(argument);
+        call.range = this.rangeFrom(call.callee.range.start, close.range.end);
+        expression = call;
+      } else if (token?.value === '[' && expression.kind === 'identifier') {
+        this.next();
+        const args = this.parseList(',');
+        const close = this.expect(']', "Missing ']' after index");
+        expression = {
+          kind: 'call',
+          callee: expression,
+          arguments: args,
+          bracket: '[',
+          range: this.rangeFrom(expression.range.start, close.range.end),
+        };
+      } else {
+        return expression;
+      }
+    }
+  }
+
+  private parsePrimary(): ExpressionNode {
+    const token = this.peek();
+    if (!token || this.pos >= this.end) {
+      this.fail('Expected a value', this.position());
+    }
+
+    switch (token.type) {
+      case 'number':
+        this.next();
+        return {
+          kind: 'number',
+          value: parseFloat(token.value),
+          raw: token.value,
+          range: token.range,
+        };
+
+      case 'string':
+        if (token.value.length < 2 || !token.value.endsWith('"')) {
+          this.fail('Unterminated string', token.range.start);
+        }
+        this.next();
+        return {
+          kind: 'string',
+          value: token.value.slice(1, -1),
+          quoted: true,
+          range: token.range,
+        };
+
+      case 'identifier': {
+        const lower = token.value.toLowerCase();
+        if (lower === 'and' || lower === 'or' || lower === 'not') {
+          this.fail(`Unexpected '${token.value}'`, token.range.start);
+        }
+        this.next();
+        if (lower === 'true' || lower === 'false') {
+          return { kind: 'boolean', value: lower === 'true', range: token.range };
+        }
+        return this.identifier(token);
+      }
+    }
+
+    if (token.value === '(') {
+      this.next();
+      const expression = this.parseExpression();
+      this.expect(')', "Missing ')'");
+      return expression;
+    }
+
+    this.fail(`Unexpected '${token.value}'`, token.range.start);
+  }
+
+  private isObject(expression: ExpressionNode): boolean {
+    return expression.kind === 'identifier' || expression.kind === 'member';
+  }
+
+  private isVariableType(value: string): boolean {
+    return SCRIPT_VARIABLE_TYPES.includes(value as ScriptVariableType);
+  }
+
+  // Token helpers
+
+  private peek(offset = 0): ScriptToken | undefined {
+    const index = this.pos + offset;
+    return index < this.end ? this.tokens[index] : undefined;
+  }
+
+  private next(): ScriptToken | undefined {
+    const token = this.peek();
+    if (token) {
+      this.pos++;
+    }
+    return token;
+  }
+
+  private accept(value: string): boolean {
+    if (this.peek()?.value === value) {
+      this.pos++;
+      return true;
+    }
+    return false;
+  }
+
+  private expect(value: string, message: string): ScriptToken {
+    const token = this.peek();
+    if (!token || token.value !== value) {
+      this.fail(message, token?.range.start ?? this.position());
+    }
+    this.pos++;
+    return token;
+  }
+
+  private expectToken(type: ScriptToken['type'], message: string): ScriptToken {
+    const token = this.peek();
+    if (!token || token.type !== type) {
+      this.fail(message, token?.range.start ?? this.position());
+    }
+    this.pos++;
+    return token;
+  }
+
+  private expectEnd(): void {
+    const token = this.peek();
+    if (token) {
+      this.fail(`Unexpected '${token.value}'`, token.range.start);
+    }
+  }
+
+  private identifier(token: ScriptToken): IdentifierNode {
+    if (token.type !== 'identifier') {
+      this.fail(`Expected a name but found '${token.value}'`, token.range.start);
+    }
+    return { kind: 'identifier', name: token.value, range: token.range };
+  }
+
+  /**
+   * Position just after the last consumed token, or the end of the line
+   */
+  private position(): SourcePosition {
+    const previous = this.tokens[this.pos - 1];
+    return previous ? previous.range.end : { line: this.lineNumber, column: this.lineEnd() };
+  }
+
+  private rangeFrom(start: SourcePosition, end: SourcePosition = this.position()): SourceRange {
+    return { start, end };
+  }
+
+  private textBetween(start: SourcePosition, end: SourcePosition): string {
+    return this.lines[start.line - this.firstLine].slice(start.column, end.column);
+  }
+
+  private lineEnd(): number {
+    const last = this.tokens[this.end - 1];
+    return last ? last.range.end.column : 0;
+  }
+
+  private fail(message: string, position: SourcePosition): never {
+    throw new DatParseError(message, position.line, position.column, 'script');
+  }
+}
+
+/**
+ * Direct children of a script node, in source order
+ */
+export function getScriptChildNodes(node: ScriptAstNode): ScriptAstNode[] {
+  const present = (...nodes: (ScriptAstNode | undefined)[]) =>
+    nodes.filter((child): child is ScriptAstNode => child !== undefined);
+
+  switch (node.kind) {
+    case 'script':
+      return node.items;
+    case 'variable':
+      return present(node.name, node.value);
+    case 'trigger':
+      return present(node.event, node.condition, node.trueBranch, node.falseBranch);
+    case 'triggerEvent':
+      return [node.name, ...node.arguments];
+    case 'eventChain':
+      return [node.name, ...node.statements];
+    case 'command':
+      return [node.command, ...node.arguments];
+    case 'assignment':
+      return [node.target, node.value];
+    case 'eventCall':
+      return [node.name];
+    case 'conditional':
+      return present(node.condition, node.trueBranch, node.falseBranch);
+    case 'branch':
+      return node.statements;
+    case 'timerValue':
+      return present(node.delay, node.min, node.max, node.event);
+    case 'tileValue':
+      return [node.row, node.col];
+    case 'member':
+      return [node.object, node.property];
+    case 'call':
+      return [node.callee, ...node.arguments];
+    case 'unary':
+      return [node.argument];
+    case 'binary':
+      return [node.left, node.right];
+    default:
+      return [];
+  }
+}
+
+/**
+ * Visit a script node and all of its descendants, parents first
+ */
+export function walkScript(node: ScriptAstNode, visit: (node: ScriptAstNode) => void): void {
+  visit(node);
+  for (const child of getScriptChildNodes(node)) {
+    walkScript(child, visit);
+  }
+}
+
+/**
+ * The event chain a branch calls, when it is the usual single '[EventName]'
+ */
+export function getBranchEvent(branch: BranchNode | undefined): IdentifierNode | undefined {
+  const statement = branch?.statements.length === 1 ? branch.statements[0] : undefined;
+  return statement?.kind === 'eventCall' ? statement.name : undefined;
+}
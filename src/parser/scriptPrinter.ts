@@ -0,0 +1,180 @@
+import {
+  BranchNode,
+  ExpressionNode,
+  ScriptItemNode,
+  ScriptNode,
+  ScriptStatementNode,
+  VariableValueNode,
+} from '../types/scriptAstTypes';
+
+// Binding strength of binary operators; higher binds tighter
+const PRECEDENCE: Record<string, number> = {
+  or: 1,
+  and: 2,
+  '==': 4,
+  '!=': 4,
+  '>': 4,
+  '<': 4,
+  '>=': 4,
+  '<=': 4,
+  '+': 5,
+  '-': 5,
+  '*': 6,
+  '/': 6,
+  '//': 6,
+};
+// 'not' sits between 'and' and the comparisons
+const NOT_PRECEDENCE = 3;
+const UNARY_PRECEDENCE = 7;
+
+/**
+ * Print a script tree as the lines between the section's braces. Every event
+ * chain except the last is followed by a blank line, since only a blank line
+ * ends a chain.
+ */
+export function printScript(script: ScriptNode): string[] {
+  const lines: string[] = [];
+
+  script.items.forEach((item, index) => {
+    lines.push(...printScriptItem(item));
+    if (item.kind === 'eventChain' && index < script.items.length - 1) {
+      lines.push('');
+    }
+  });
+
+  return lines;
+}
+
+/**
+ * Print a top level item; event chains span several lines
+ */
+export function printScriptItem(item: ScriptItemNode): string[] {
+  switch (item.kind) {
+    case 'comment':
+      return [item.text];
+    case 'variable':
+      return [
+        `${item.varType.value} ${item.name.name}` +
+          (item.value ? `=${printVariableValue(item.value)}` : ''),
+      ];
+    case 'trigger': {
+      const event =
+        item.event.kind === 'triggerEvent'
+          ? [item.event.name.name, item.event.arguments.map(printExpression).join(',')]
+              .filter(part => part)
+              .join(':')
+          : printExpression(item.event);
+      return [
+        `${item.occurrence.value}(${event})` +
+          (item.condition ? `((${printExpression(item.condition)}))` : '') +
+          printBranch(item.trueBranch) +
+          printBranch(item.falseBranch),
+      ];
+    }
+    case 'eventChain':
+      return [
+        `${item.name.name}::` + (item.statements.length === 0 ? ';' : ''),
+        ...item.statements.map(statement =>
+          statement.kind === 'comment' ? statement.text : `${printStatement(statement)};`
+        ),
+      ];
+  }
+}
+
+/**
+ * Print a statement without its terminating ';'
+ */
+export function printStatement(statement: ScriptStatementNode): string {
+  switch (statement.kind) {
+    case 'comment':
+      return statement.text;
+    case 'command':
+      return `${statement.command.name}:${statement.arguments.map(printExpression).join(',')}`;
+    case 'assignment':
+      return (
+        printExpression(statement.target) + statement.operator + printExpression(statement.value)
+      );
+    case 'eventCall':
+      return statement.name.name;
+    case 'conditional': {
+      const condition = printExpression(statement.condition);
+      if (statement.legacy) {
+        return `(${condition})${printBranch(statement.trueBranch)}`;
+      }
+      return (
+        `((${condition}))` + printBranch(statement.trueBranch) + printBranch(statement.falseBranch)
+      );
+    }
+  }
+}
+
+/**
+ * Print an expression, adding parentheses only where precedence needs them
+ */
+export function printExpression(expression: ExpressionNode): string {
+  switch (expression.kind) {
+    case 'identifier':
+      return expression.name;
+    case 'number':
+      return expression.raw;
+    case 'string':
+      return expression.quoted ? `"${expression.value}"` : expression.value;
+    case 'boolean':
+      return String(expression.value);
+    case 'member':
+      return `${printExpression(expression.object)}.${expression.property.name}`;
+    case 'call':
+      return expression.bracket === '('
+        ? expression.callee.name +
+            expression.arguments.map(arg => `(${printExpression(arg)})`).join('')
+        : `${expression.callee.name}[${expression.arguments.map(printExpression).join(',')}]`;
+    case 'unary':
+      return expression.operator === 'not'
+        ? `not ${printOperand(expression.argument, NOT_PRECEDENCE, false)}`
+        : `-${printOperand(expression.argument, UNARY_PRECEDENCE, false)}`;
+    case 'binary': {
+      const precedence = PRECEDENCE[expression.operator];
+      const left = printOperand(expression.left, precedence, false);
+      const right = printOperand(expression.right, precedence, true);
+      const spaced = expression.operator === 'and' || expression.operator === 'or';
+      return spaced
+        ? `${left} ${expression.operator} ${right}`
+        : `${left}${expression.operator}${right}`;
+    }
+  }
+}
+
+function printOperand(operand: ExpressionNode, parent: number, right: boolean): string {
+  const text = printExpression(operand);
+  const own =
+    operand.kind === 'binary'
+      ? PRECEDENCE[operand.operator]
+      : operand.kind === 'unary'
+        ? operand.operator === 'not'
+          ? NOT_PRECEDENCE
+          : UNARY_PRECEDENCE
+        : Infinity;
+  return own < parent || (right && own === parent) ? `(${text})` : text;
+}
+
+function printVariableValue(value: VariableValueNode): string {
+  switch (value.kind) {
+    case 'timerValue':
+      return [value.delay, value.min, value.max, value.event]
+        .filter((part): part is ExpressionNode => part !== undefined)
+        .map(printExpression)
+        .join(',');
+    case 'tileValue':
+      return `${printExpression(value.row)},${printExpression(value.col)}`;
+    default:
+      return printExpression(value);
+  }
+}
+
+function printBranch(branch: BranchNode | undefined): string {
+  if (!branch) {
+    return '';
+  }
+  const statements = branch.statements.map(printStatement);
+  return branch.bracketed ? `[${statements.join('; ')}]` : statements.join('; ');
+}
@@ -0,0 +1,153 @@
+/**
+ * Names declared by a level's script and visual blocks, and every place they
+ * are used. Shared by references and rename so both see the same symbols.
+ */
+
+import { containsPosition, DatCstParser } from './datCstParser';
+import { tokenizeScriptLine, walkScript } from './scriptParser';
+import { EVENT_BLOCKS, TRIGGER_BLOCKS } from './visualBlocksParser';
+import { SourcePosition, SourceRange } from '../types/datCstTypes';
+import { ScriptAstNode } from '../types/scriptAstTypes';
+
+export type ScriptSymbolKind = 'variable' | 'eventChain' | 'timer' | 'arrow';
+
+// TriggerEventChain blocks declare an event chain script can call, and
+// TriggerTimer blocks a timer
+const BLOCK_DECLARATIONS: Record<string, ScriptSymbolKind | undefined> = {
+  TriggerEventChain: 'eventChain',
+  TriggerTimer: 'timer',
+};
+
+export interface ScriptSymbol {
+  name: string;
+  kind: ScriptSymbolKind;
+  // Where the name is declared, in script or by a visual block
+  declarations: SourceRange[];
+  // Every use of the name, declarations included, in document order
+  occurrences: SourceRange[];
+}
+
+/**
+ * All declared symbols of a document by name
+ */
+export function getScriptSymbols(parser: DatCstParser): Map<string, ScriptSymbol> {
+  const symbols = new Map<string, ScriptSymbol>();
+  const declare = (name: string, kind: ScriptSymbolKind, range: SourceRange) => {
+    const symbol = symbols.get(name);
+    if (symbol) {
+      symbol.declarations.push(range);
+    } else {
+      symbols.set(name, { name, kind, declarations: [range], occurrences: [] });
+    }
+  };
+
+  const script = parser.toDatFile().script;
+  for (const item of script?.items || []) {
+    if (item.kind === 'variable') {
+      const type = item.varType.value;
+      declare(
+        item.name.name,
+        type === 'timer' || type === 'arrow' ? type : 'variable',
+        item.name.range
+      );
+    } else if (item.kind === 'eventChain') {
+      declare(item.name.name, 'eventChain', item.name.range);
+    }
+  }
+
+  // Names visual blocks declare, and the chains EventCallEvent blocks call
+  const blockNames: { name: string; range: SourceRange; declares?: ScriptSymbolKind }[] = [];
+  for (const item of parser.getSection('blocks')?.items || []) {
+    if (item.kind !== 'block') {
+      continue;
+    }
+    const type = item.blockType.value;
+    const declares = BLOCK_DECLARATIONS[type];
+    const parameter = declares ? 'name' : type === 'EventCallEvent' ? 'function' : undefined;
+    const params: readonly string[] =
+      type in TRIGGER_BLOCKS
+        ? TRIGGER_BLOCKS[type as keyof typeof TRIGGER_BLOCKS].params
+        : type in EVENT_BLOCKS
+          ? EVENT_BLOCKS[type as keyof typeof EVENT_BLOCKS].params
+          : [];
+    const token = parameter ? item.parameters[params.indexOf(parameter)] : undefined;
+    if (token?.value) {
+      blockNames.push({ name: token.value, range: token.range, declares });
+    }
+  }
+  for (const { name, range, declares } of blockNames) {
+    if (declares && !symbols.has(name)) {
+      declare(name, declares, range);
+    }
+  }
+
+  const use = (name: string, range: SourceRange) => symbols.get(name)?.occurrences.push(range);
+
+  if (script) {
+    // Command names, trigger events and member properties such as '.hp'
+    // belong to the game even when they match a declared name
+    const gameNames = new Set<ScriptAstNode>();
+    walkScript(script, node => {
+      if (node.kind === 'command') {
+        gameNames.add(node.command);
+      } else if (node.kind === 'triggerEvent') {
+        gameNames.add(node.name);
+      } else if (node.kind === 'member') {
+        gameNames.add(node.property);
+      } else if (node.kind === 'identifier' && !gameNames.has(node)) {
+        use(node.name, node.range);
+      }
+    });
+  }
+
+  for (const { name, range } of blockNames) {
+    use(name, range);
+  }
+
+  // 'variable:condition/description' objectives test script variables
+  for (const item of parser.getSection('objectives')?.items || []) {
+    if (item.kind !== 'objective' || item.objectiveType.value !== 'variable') {
+      continue;
+    }
+    const { start } = item.body.range;
+    const condition = item.body.value.split('/')[0];
+    for (const token of tokenizeScriptLine(condition, start.line)) {
+      if (token.type === 'identifier') {
+        use(token.value, {
+          start: { line: start.line, column: start.column + token.range.start.column },
+          end: { line: start.line, column: start.column + token.range.end.column },
+        });
+      }
+    }
+  }
+
+  for (const symbol of symbols.values()) {
+    symbol.occurrences.sort(compareRanges);
+  }
+  return symbols;
+}
+
+/**
+ * The declared symbol whose name is at a position, counting the position
+ * just after the name
+ */
+export function findScriptSymbolAt(
+  parser: DatCstParser,
+  position: SourcePosition
+): { symbol: ScriptSymbol; range: SourceRange } | undefined {
+  for (const symbol of getScriptSymbols(parser).values()) {
+    const range = symbol.occurrences.find(
+      occurrence =>
+        containsPosition(occurrence, position) ||
+        (occurrence.end.line === position.line && occurrence.end.column === position.column)
+    );
+    if (range) {
+      return { symbol, range };
+    }
+  }
+  return undefined;
+}
+
+function compareRanges(a: SourceRange, b: SourceRange): number {
+  return a.start.line - b.start.line || a.start.column - b.start.column;
+}
@@ -3,27 +3,9 @@
  * Based on game documentation
  */
 
-export interface VisualBlock {
-  id: number;
-  type: 'trigger' | 'event';
-  name: string;
-  row: number;
-  col: number;
-  parameters: Record<string, string | number | boolean>;
-  line?: number;
-}
-
-export interface BlockWire {
-  from: number;
-  to: number;
-  type: 'normal' | 'backup' | 'random';
-  line?: number;
-}
+import { BlocksSection, BlockWire, VisualBlock } from '../types/datFileTypes';
 
-export interface BlocksSection {
-  blocks: VisualBlock[];
-  wires: BlockWire[];
-}
+export type { BlocksSection, BlockWire, VisualBlock };
 
 // Block type definitions
 export const TRIGGER_BLOCKS = {
@@ -94,6 +76,82 @@ export const EVENT_BLOCKS = {
   },
 } as const;
 
+const WIRE_SYMBOLS: Record<BlockWire['type'], string> = {
+  normal: '-',
+  backup: '~',
+  random: '?',
+};
+
+/**
+ * Kind of value a block parameter holds, going by its name
+ */
+export function getBlockParameterKind(
+  paramName: string
+): 'boolean' | 'number' | 'integer' | 'string' {
+  if (paramName === 'miners' || paramName === 'vehicles' || paramName === 'anywhere') {
+    return 'boolean';
+  }
+  if (
+    paramName === 'cooldown' ||
+    paramName === 'delay' ||
+    paramName === 'max' ||
+    paramName === 'min' ||
+    paramName.includes('Time') ||
+    paramName === 'radius'
+  ) {
+    return 'number';
+  }
+  if (paramName === 'tileID') {
+    return 'integer';
+  }
+  // Names, creature types, directions, etc.
+  return 'string';
+}
+
+/**
+ * Convert a block parameter from its text in the blocks section
+ */
+export function parseBlockParameter(paramName: string, text: string): string | number | boolean {
+  switch (getBlockParameterKind(paramName)) {
+    case 'boolean':
+      return text.toLowerCase() === 'true';
+    case 'number':
+      return parseFloat(text);
+    case 'integer':
+      return parseInt(text);
+    default:
+      return text;
+  }
+}
+
+/**
+ * Print a block as its 'ID/BlockType:row,col,...' line
+ */
+export function printVisualBlock(block: VisualBlock): string {
+  const blockDefs = { ...TRIGGER_BLOCKS, ...EVENT_BLOCKS } as Record<
+    string,
+    { params: readonly string[] }
+  >;
+  const names = blockDefs[block.name]?.params.slice(2) ?? Object.keys(block.parameters);
+  const values = names
+    .filter(name => name in block.parameters)
+    .map(name => {
+      const value = block.parameters[name];
+      // Seconds are written with one decimal place like the game does
+      return typeof value === 'number' && name !== 'tileID' && Number.isInteger(value)
+        ? value.toFixed(1)
+        : String(value);
+    });
+  return `${block.id}/${block.name}:${[block.row, block.col, ...values].join(',')}`;
+}
+
+/**
+ * Print a wire as its 'from-to', 'from~to' or 'from?to' line
+ */
+export function printBlockWire(wire: BlockWire): string {
+  return `${wire.from}${WIRE_SYMBOLS[wire.type]}${wire.to}`;
+}
+
 export class VisualBlocksParser {
   private blocks: VisualBlock[] = [];
   private wires: BlockWire[] = [];
@@ -196,26 +254,7 @@ export class VisualBlocksParser {
     for (let i = 2; i < expectedParams.length && i < params.length; i++) {
       const paramName = expectedParams[i];
       const paramValue = params[i];
-
-      // Parse based on expected type
-      if (paramName === 'miners' || paramName === 'vehicles' || paramName === 'anywhere') {
-        // Boolean parameters
-        blockParams[paramName] = paramValue.toLowerCase() === 'true';
-      } else if (
-        paramName === 'cooldown' ||
-        paramName === 'delay' ||
-        paramName.includes('Time') ||
-        paramName === 'radius'
-      ) {
-        // Numeric parameters
-        blockParams[paramName] = parseFloat(paramValue);
-      } else if (paramName === 'tileID') {
-        // Tile ID parameter
-        blockParams[paramName] = parseInt(paramValue);
-      } else {
-        // String parameters (names, types, etc.)
-        blockParams[paramName] = paramValue;
-      }
+      blockParams[paramName] = parseBlockParameter(paramName, paramValue);
     }
 
     this.blocks.push({
@@ -0,0 +1,94 @@
+import * as vscode from 'vscode';
+import { DatCstParser } from './parser/datCstParser';
+import { findScriptSymbolAt, getScriptSymbols, ScriptSymbolKind } from './parser/scriptSymbols';
+import { SourceRange } from './types/datCstTypes';
+import { checkScriptIdentifier, isReservedWord } from './validation/scriptCommands';
+
+const SYMBOL_KIND_NAMES: Record<ScriptSymbolKind, string> = {
+  variable: 'variable',
+  eventChain: 'event chain',
+  timer: 'timer',
+  arrow: 'arrow',
+};
+
+/**
+ * Rename script variables, event chains, timers and arrows everywhere they
+ * are used: script, visual block names and 'variable:' objectives.
+ * Briefings and other free text are left alone.
+ */
+export class DatRenameProvider implements vscode.RenameProvider {
+  prepareRename(
+    document: vscode.TextDocument,
+    position: vscode.Position,
+    _token: vscode.CancellationToken
+  ): vscode.ProviderResult<{ range: vscode.Range; placeholder: string }> {
+    const parser = parseForRename(document);
+    const found = findScriptSymbolAt(parser, { line: position.line, column: position.character });
+    if (!found) {
+      // Game keywords, events and macros are not the level's to rename
+      const wordRange = document.getWordRangeAtPosition(position);
+      const word = wordRange ? document.getText(wordRange) : '';
+      if (word && isReservedWord(word)) {
+        throw new Error(`'${word}' is a reserved word and cannot be renamed`);
+      }
+      throw new Error('Only script variables, event chains, timers and arrows can be renamed');
+    }
+
+    return { range: toRange(found.range), placeholder: found.symbol.name };
+  }
+
+  provideRenameEdits(
+    document: vscode.TextDocument,
+    position: vscode.Position,
+    newName: string,
+    _token: vscode.CancellationToken
+  ): vscode.ProviderResult<vscode.WorkspaceEdit> {
+    const parser = parseForRename(document);
+    const found = findScriptSymbolAt(parser, { line: position.line, column: position.character });
+    if (!found) {
+      throw new Error('Only script variables, event chains, timers and arrows can be renamed');
+    }
+
+    const { symbol } = found;
+    if (newName === symbol.name) {
+      return new vscode.WorkspaceEdit();
+    }
+
+    const problem = checkScriptIdentifier(newName);
+    if (problem) {
+      throw new Error(problem);
+    }
+    const existing = getScriptSymbols(parser).get(newName);
+    if (existing) {
+      throw new Error(`A ${SYMBOL_KIND_NAMES[existing.kind]} named '${newName}' already exists`);
+    }
+
+    const edit = new vscode.WorkspaceEdit();
+    for (const occurrence of symbol.occurrences) {
+      edit.replace(document.uri, toRange(occurrence), newName);
+    }
+    return edit;
+  }
+}
+
+/**
+ * Parse the document, refusing when the script has syntax errors: lines that
+ * fail to parse are missing from the tree, so their uses would not be renamed
+ */
+function parseForRename(document: vscode.TextDocument): DatCstParser {
+  const parser = new DatCstParser(document.getText());
+  const scriptError = parser.getErrors().find(error => error.section === 'script');
+  if (scriptError) {
+    throw new Error(
+      `Fix the script syntax error on line ${scriptError.line + 1} before renaming: ${scriptError.message}`
+    );
+  }
+  return parser;
+}
+
+function toRange(range: SourceRange): vscode.Range {
+  return new vscode.Range(
+    new vscode.Position(range.start.line, range.start.column),
+    new vscode.Position(range.end.line, range.end.column)
+  );
+}
@@ -0,0 +1,37 @@
+import { parseScenario, ScenarioParseError } from './scenario';
+
+describe('parseScenario', () => {
+  it('should parse timed player actions', () => {
+    const steps = parseScenario(
+      [
+        '# Opening moves',
+        'at t=0 build BuildingToolStore_C at 4,5',
+        'at 60s collect 20 crystals',
+        'enter tile 5,5 miners',
+        'at 1:30 drill 3, 4',
+        'set GameState=2',
+        'at 600 end',
+      ].join('\n')
+    );
+
+    expect(steps.map(step => [step.time, step.line, step.action])).toEqual([
+      [0, 2, { kind: 'build', building: 'BuildingToolStore_C', tile: { row: 4, col: 5 } }],
+      [60, 3, { kind: 'collect', resource: 'crystals', amount: 20 }],
+      [60, 4, { kind: 'trigger', trigger: 'enter', tile: { row: 5, col: 5 }, unit: 'miners' }],
+      [90, 5, { kind: 'trigger', trigger: 'drill', tile: { row: 3, col: 4 }, unit: undefined }],
+      [90, 6, { kind: 'set', name: 'GameState', value: 2 }],
+      [600, 7, { kind: 'end' }],
+    ]);
+    expect(steps[1].text).toBe('at 60s collect 20 crystals');
+  });
+
+  it('should report the line of a bad step', () => {
+    expect(() => parseScenario('at 10 end\nat 5 end')).toThrow(
+      new ScenarioParseError('Time 5 is before the previous step', 2)
+    );
+    expect(() => parseScenario('collect lots crystals')).toThrow(/^Line 1: Expected 'collect/);
+    expect(() => parseScenario('\nat soon end')).toThrow("Line 2: Invalid time 'soon'");
+    expect(() => parseScenario('init')).toThrow("Line 1: Unknown action 'init'");
+    expect(() => parseScenario('enter 5,5 miners now')).toThrow("Line 1: Unexpected 'now'");
+  });
+});
@@ -0,0 +1,178 @@
+import { TRIGGER_TYPES } from '../validation/scriptCommands';
+
+/**
+ * Player actions for a script dry run, one per line:
+ *
+ *   # Comments start with '#'
+ *   at t=0 build BuildingToolStore_C
+ *   at t=60 collect 20 crystals
+ *   enter tile 5,5 miners
+ *   at 1:30 drill 3,4
+ *   at 600 end
+ *
+ * Times are seconds, 't=' and 's' are optional and 'm:ss' is accepted. A line
+ * without 'at' happens at the same time as the line before it.
+ */
+
+export type ScenarioResource = 'crystals' | 'ore' | 'studs' | 'air';
+
+export interface TilePosition {
+  row: number;
+  col: number;
+}
+
+export type ScenarioAction =
+  | { kind: 'collect'; resource: ScenarioResource; amount: number }
+  | { kind: 'build'; building: string; tile?: TilePosition }
+  | { kind: 'spawn'; unit: string; tile?: TilePosition }
+  | { kind: 'set'; name: string; value: number | boolean | string }
+  // Any other trigger the script can wait for, such as 'enter' or 'drill'
+  | { kind: 'trigger'; trigger: string; tile?: TilePosition; unit?: string }
+  | { kind: 'end' };
+
+export interface ScenarioStep {
+  time: number;
+  action: ScenarioAction;
+  // One-based line in the scenario file
+  line: number;
+  text: string;
+}
+
+export class ScenarioParseError extends Error {
+  constructor(
+    message: string,
+    public line: number
+  ) {
+    super(`Line ${line}: ${message}`);
+    this.name = 'ScenarioParseError';
+  }
+}
+
+const RESOURCES: ScenarioResource[] = ['crystals', 'ore', 'studs', 'air'];
+
+// Triggers that are not player actions, or that have an action of their own
+const NON_ACTION_TRIGGERS = ['init', 'time', 'built', 'new', 'collect'];
+
+/**
+ * Parse a scenario file into steps ordered by time
+ */
+export function parseScenario(text: string): ScenarioStep[] {
+  const steps: ScenarioStep[] = [];
+  let time = 0;
+
+  text.split(/\r?\n/).forEach((raw, index) => {
+    const line = index + 1;
+    const content = raw.replace(/#.*$/, '').trim();
+    if (!content) {
+      return;
+    }
+
+    let words = content.split(/\s+/);
+    if (words[0].toLowerCase() === 'at') {
+      if (words.length < 2) {
+        throw new ScenarioParseError("Expected a time after 'at'", line);
+      }
+      const stepTime = parseTime(words[1], line);
+      if (stepTime < time) {
+        throw new ScenarioParseError(`Time ${words[1]} is before the previous step`, line);
+      }
+      time = stepTime;
+      words = words.slice(2);
+    }
+    if (words.length === 0) {
+      throw new ScenarioParseError('Expected an action', line);
+    }
+
+    steps.push({ time, action: parseAction(words, line), line, text: content });
+  });
+
+  return steps;
+}
+
+function parseTime(text: string, line: number): number {
+  const value = text.replace(/^t=/i, '').replace(/s$/i, '');
+  const clock = value.match(/^(\d+):(\d{2})$/);
+  const seconds = clock ? Number(clock[1]) * 60 + Number(clock[2]) : Number(value);
+  if (!Number.isFinite(seconds) || seconds < 0 || value === '') {
+    throw new ScenarioParseError(`Invalid time '${text}'`, line);
+  }
+  return seconds;
+}
+
+function parseAction(words: string[], line: number): ScenarioAction {
+  const verb = words[0].toLowerCase();
+  const args = words.slice(1);
+
+  switch (verb) {
+    case 'end':
+      return { kind: 'end' };
+
+    case 'collect': {
+      // 'collect 20 crystals'
+      const amount = Number(args[0]);
+      const resource = args[1]?.toLowerCase() as ScenarioResource;
+      if (!Number.isFinite(amount) || !RESOURCES.includes(resource)) {
+        throw new ScenarioParseError(`Expected 'collect <amount> <${RESOURCES.join('|')}>'`, line);
+      }
+      return { kind: 'collect', resource, amount };
+    }
+
+    case 'build':
+    case 'spawn': {
+      // 'build BuildingToolStore_C at 4,5'
+      if (args.length === 0) {
+        throw new ScenarioParseError(`Expected '${verb} <type> [at row,col]'`, line);
+      }
+      const tile = parseTile(args.slice(1), line);
+      return verb === 'build'
+        ? { kind: 'build', building: args[0], tile }
+        : { kind: 'spawn', unit: args[0], tile };
+    }
+
+    case 'set': {
+      // 'set GameState 2' or 'set GameState=2'
+      const [name, text] = args.length === 1 ? args[0].split('=') : args;
+      if (!name || text === undefined) {
+        throw new ScenarioParseError("Expected 'set <name> <value>'", line);
+      }
+      return { kind: 'set', name, value: parseValue(text) };
+    }
+  }
+
+  if (!(verb in TRIGGER_TYPES) || NON_ACTION_TRIGGERS.includes(verb)) {
+    throw new ScenarioParseError(`Unknown action '${words[0]}'`, line);
+  }
+
+  // 'enter tile 5,5 miners'
+  const rest = args[0]?.toLowerCase() === 'tile' ? args.slice(1) : args;
+  const tileWordCount = /^\d+,\d+$/.test(rest[0] ?? '') ? 1 : /^\d+,?$/.test(rest[0] ?? '') ? 2 : 0;
+  const tile = parseTile(rest.slice(0, tileWordCount), line);
+  const [unit, ...extra] = rest.slice(tileWordCount);
+  if (extra.length > 0) {
+    throw new ScenarioParseError(`Unexpected '${extra.join(' ')}'`, line);
+  }
+  return { kind: 'trigger', trigger: verb, tile, unit };
+}
+
+/**
+ * Parse '5,5', '5, 5', '5 5' or 'at 5,5'
+ */
+function parseTile(words: string[], line: number): TilePosition | undefined {
+  const text = (words[0]?.toLowerCase() === 'at' ? words.slice(1) : words).join(',');
+  if (!text) {
+    return undefined;
+  }
+  const match = text.match(/^(\d+),+(\d+)$/);
+  if (!match) {
+    throw new ScenarioParseError(`Expected a tile as 'row,col', got '${words.join(' ')}'`, line);
+  }
+  return { row: Number(match[1]), col: Number(match[2]) };
+}
+
+function parseValue(text: string): number | boolean | string {
+  if (text === 'true' || text === 'false') {
+    return text === 'true';
+  }
+  const number = Number(text);
+  return text !== '' && Number.isFinite(number) ? number : text.replace(/^"(.*)"$/, '$1');
+}
@@ -0,0 +1,144 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { DatCstParser } from '../parser/datCstParser';
+import { parseScenario } from './scenario';
+import { ScriptInterpreter, SimulationOptions } from './scriptInterpreter';
+import { formatSimulation } from './timelineFormatter';
+
+describe('ScriptInterpreter', () => {
+  const tiles = ['1,1,1,1', '1,1,1,1', '1,1,26,1', '1,1,1,1'].map(row => row + ',').join('\n');
+
+  function simulate(script: string[], scenario = '', options: SimulationOptions = {}) {
+    const text = [
+      'info{',
+      'rowcount:4',
+      'colcount:4',
+      '}',
+      'tiles{',
+      tiles,
+      '}',
+      'script{',
+      ...script,
+      '}',
+    ].join('\n');
+    const datFile = new DatCstParser(text).toDatFile();
+    return new ScriptInterpreter(datFile, options).run(parseScenario(scenario));
+  }
+
+  function messages(result: ReturnType<typeof simulate>) {
+    return result.timeline
+      .filter(entry => entry.kind === 'message')
+      .map(entry => `${entry.time} ${entry.message}`);
+  }
+
+  it('should play the golden script to a win', () => {
+    const text = fs.readFileSync(
+      path.join(__dirname, '..', 'test', 'golden', 'test-maps', 'with-script.dat'),
+      'utf8'
+    );
+    const result = new ScriptInterpreter(new DatCstParser(text).toDatFile()).run(
+      parseScenario(
+        [
+          'at t=0 build BuildingToolStore_C',
+          'at t=30 collect 10 crystals',
+          'at 2:00 collect 10 crystals',
+        ].join('\n')
+      )
+    );
+
+    expect(result.outcome).toEqual(expect.objectContaining({ result: 'win', time: 120 }));
+    expect(result.variables).toEqual(expect.objectContaining({ GameState: 3, IntroShown: true }));
+    expect(result.resources.crystals).toBe(20);
+    expect(
+      result.timeline.filter(entry => entry.kind === 'event').map(entry => entry.message)
+    ).toEqual(['ShowIntro', 'Milestone1', 'Victory']);
+    expect(formatSimulation(result)).toContain('Outcome: Won at 2:00');
+  });
+
+  it('should fire when triggers on every rising edge and if triggers once', () => {
+    const result = simulate(
+      [
+        'int Count=0',
+        'when(crystals>=5)[Again]',
+        'if(crystals>=5)[Once]',
+        'Again::',
+        'Count:Count+1;',
+        'msg:Again;',
+        'Once::',
+        'msg:Once;',
+      ],
+      ['at 10 collect 5 crystals', 'at 20 collect -5 crystals', 'at 30 collect 5 crystals'].join(
+        '\n'
+      ),
+      { duration: 40 }
+    );
+
+    expect(messages(result)).toEqual(['10 Again', '10 Once', '30 Again']);
+    expect(result.variables.Count).toBe(2);
+    expect(result.outcome).toBeUndefined();
+    expect(formatSimulation(result)).toContain('Outcome: none by 0:40');
+  });
+
+  it('should run timers and resume after wait', () => {
+    const result = simulate(
+      [
+        'timer Tick=10,Ring',
+        'when(init)[Start]',
+        'Start::',
+        'starttimer:Tick;',
+        'wait:5;',
+        'msg:Waited;',
+        'Ring::',
+        'stoptimer:Tick;',
+        'msg:Rang;',
+      ],
+      '',
+      { duration: 60 }
+    );
+
+    expect(messages(result)).toEqual(['5 Waited', '10 Rang']);
+  });
+
+  it('should match tile and unit triggers from scenario actions', () => {
+    const result = simulate(
+      [
+        'when(drill:2,2)[Drilled]',
+        'when(enter:1,1:miners)[Arrived]',
+        'Drilled::',
+        'msg:Drilled;',
+        'Arrived::',
+        'showarrow:1,1,Guide;',
+        'lose:;',
+        'arrow Guide',
+      ],
+      ['at 5 drill 2,3', 'at 6 drill 2,2', 'at 8 enter tile 1,1 miners'].join('\n')
+    );
+
+    expect(messages(result)).toEqual(['6 Drilled']);
+    expect(result.outcome).toEqual(expect.objectContaining({ result: 'lose', time: 8 }));
+    expect(result.arrows.Guide).toEqual(expect.objectContaining({ row: 1, col: 1 }));
+    expect(result.endTime).toBe(8);
+  });
+
+  it('should treat undefined names in conditions as false', () => {
+    const result = simulate(
+      ['when(crystalz)[Done]', 'when(crystalz>5)[Done]', 'Done::', 'win:;'],
+      '',
+      { duration: 30 }
+    );
+
+    expect(result.outcome).toBeUndefined();
+    expect(
+      result.timeline.filter(entry => entry.kind === 'error').map(entry => entry.message)
+    ).toEqual(['Undefined variable or macro: crystalz']);
+  });
+
+  it('should record unknown commands and undefined event chains as errors', () => {
+    const result = simulate(['when(init)[Start]', 'Start::', 'teleportall:1;', 'Missing;']);
+
+    expect(
+      result.timeline.filter(entry => entry.kind === 'error').map(entry => entry.message)
+    ).toEqual(["Unknown script command 'teleportall'", 'Undefined event chain: Missing']);
+    expect(result.diagnostics.length).toBeGreaterThan(0);
+  });
+});
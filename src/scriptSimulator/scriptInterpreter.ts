@@ -0,0 +1,1047 @@
+import { TILE_WORLD_SIZE } from '../mapEditor/entityLayer';
+import { printScriptItem, printStatement } from '../parser/scriptPrinter';
+import {
+  BuildingType,
+  CreatureType,
+  DatFile,
+  Entity,
+  ValidationError,
+  VehicleType,
+} from '../types/datFileTypes';
+import {
+  AssignmentNode,
+  BinaryOperator,
+  CallExpressionNode,
+  EventChainNode,
+  ExpressionNode,
+  MemberExpressionNode,
+  ScriptCommandNode,
+  ScriptNode,
+  ScriptStatementNode,
+  ScriptVariableNode,
+  ScriptVariableType,
+  TriggerNode,
+} from '../types/scriptAstTypes';
+import { EnhancedScriptValidator, WRITABLE_MACROS } from '../validation/enhancedScriptValidator';
+import { SCRIPT_COMMANDS } from '../validation/scriptCommands';
+import { ScenarioResource, ScenarioStep, TilePosition } from './scenario';
+
+export type ScriptValue = number | boolean | string | number[];
+
+export type TimelineEntryKind =
+  | 'action'
+  | 'trigger'
+  | 'event'
+  | 'message'
+  | 'objective'
+  | 'variable'
+  | 'resource'
+  | 'tile'
+  | 'arrow'
+  | 'timer'
+  | 'spawn'
+  | 'command'
+  | 'outcome'
+  | 'error';
+
+export interface TimelineEntry {
+  // Game time in seconds
+  time: number;
+  kind: TimelineEntryKind;
+  message: string;
+  // Zero-based document line of the script statement, when there is one
+  line?: number;
+}
+
+export interface SimulationOutcome {
+  result: 'win' | 'lose';
+  time: number;
+  message?: string;
+}
+
+export interface ArrowState {
+  row: number;
+  col: number;
+  highlighted: boolean;
+}
+
+export interface SimulationResult {
+  timeline: TimelineEntry[];
+  outcome?: SimulationOutcome;
+  endTime: number;
+  variables: Record<string, ScriptValue>;
+  resources: Record<ScenarioResource, number>;
+  // Arrows shown when the simulation ended
+  arrows: Record<string, ArrowState>;
+  objective?: string;
+  // Problems EnhancedScriptValidator finds in the script
+  diagnostics: ValidationError[];
+}
+
+export interface SimulationOptions {
+  // Seconds to simulate when the scenario does not end sooner (default 600)
+  duration?: number;
+  // Seed for 'random(min)(max)' and timers with a random interval
+  seed?: number;
+}
+
+interface TimerState {
+  delay: number;
+  min?: number;
+  max?: number;
+  event?: string;
+  running: boolean;
+  expired: boolean;
+  nextFire?: number;
+}
+
+interface TriggerState {
+  node: TriggerNode;
+  // 'if' triggers fire once
+  done: boolean;
+  // Value triggers fire when their expression becomes true
+  lastValue: boolean;
+}
+
+// Statements still to run; a chain frame ends at 'return'
+interface Frame {
+  statements: ScriptStatementNode[];
+  index: number;
+  chain?: string;
+}
+
+// Statements paused by 'wait', resumed at a later time
+interface Continuation {
+  time: number;
+  frames: Frame[];
+}
+
+const DEFAULT_DURATION = 600;
+// Guards against event chains and triggers that keep calling each other
+const MAX_STATEMENTS_PER_TICK = 10000;
+const MAX_SETTLE_PASSES = 100;
+
+const GROUND_TILE = 1;
+// Rubble heights 1-4 are tiles 2-5
+const RUBBLE_TILE_BASE = 1;
+
+/**
+ * Runs a level's script against a simulated game: variables, resources, a
+ * mutable tile grid, arrows and timers. Time advances one second per tick;
+ * scenario steps, timers and 'wait' resume on whole seconds.
+ *
+ * Value triggers such as 'when(crystals>=10)' fire each time their
+ * expression changes from false to true, 'if' triggers only the first time.
+ */
+export class ScriptInterpreter {
+  private timeline: TimelineEntry[] = [];
+  private time = 0;
+  private init = false;
+  private finished = false;
+  private statementsThisTick = 0;
+  private random: () => number = () => 0;
+
+  private variables = new Map<string, ScriptValue>();
+  private variableTypes = new Map<string, ScriptVariableType>();
+  private chains = new Map<string, EventChainNode>();
+  private triggers: TriggerState[] = [];
+  private timers = new Map<string, TimerState>();
+  private continuations: Continuation[] = [];
+  // Undefined names already reported, so triggers checked every tick report once
+  private undefinedNames = new Set<string>();
+
+  private tiles: number[][] = [];
+  private resources: Record<ScenarioResource, number> = { crystals: 0, ore: 0, studs: 0, air: 0 };
+  private erosionScale = 1;
+  private miners = 0;
+  private buildings = new Map<string, number>();
+  private vehicles = new Map<string, number>();
+  private creatures = new Map<string, number>();
+  private buildingTiles = new Set<string>();
+  private arrows = new Map<string, ArrowState & { visible: boolean }>();
+  private objective?: string;
+  private outcome?: SimulationOutcome;
+
+  constructor(
+    private readonly datFile: Partial<DatFile>,
+    private readonly options: SimulationOptions = {}
+  ) {}
+
+  /**
+   * Simulate the level with the given player actions
+   */
+  public run(scenario: ScenarioStep[] = []): SimulationResult {
+    const script = this.datFile.script;
+    const diagnostics = script ? new EnhancedScriptValidator().validate(script) : [];
+    this.reset(script);
+
+    const lastStep = scenario[scenario.length - 1]?.time ?? 0;
+    const duration = this.options.duration ?? Math.max(DEFAULT_DURATION, Math.ceil(lastStep));
+
+    // 'init' is true only while the level starts
+    this.init = true;
+    this.settle();
+    this.init = false;
+    this.settle();
+
+    let nextStep = 0;
+    for (let tick = 0; tick <= duration && !this.finished; tick++) {
+      this.time = tick;
+      this.statementsThisTick = 0;
+
+      this.runTimers();
+      this.resumeContinuations();
+      while (nextStep < scenario.length && scenario[nextStep].time <= tick && !this.finished) {
+        this.applyStep(scenario[nextStep++]);
+      }
+      this.fireEvent('time', [tick]);
+      this.settle();
+    }
+
+    return {
+      timeline: this.timeline,
+      outcome: this.outcome,
+      endTime: this.time,
+      variables: Object.fromEntries(this.variables),
+      resources: { ...this.resources },
+      arrows: Object.fromEntries(
+        Array.from(this.arrows)
+          .filter(([, arrow]) => arrow.visible)
+          .map(([name, { row, col, highlighted }]) => [name, { row, col, highlighted }])
+      ),
+      objective: this.objective,
+      diagnostics,
+    };
+  }
+
+  private reset(script: ScriptNode | undefined): void {
+    const seed = this.options.seed ?? 1;
+    this.random = createRandom(seed);
+    this.timeline = [];
+    this.time = 0;
+    this.finished = false;
+    this.variables.clear();
+    this.variableTypes.clear();
+    this.chains.clear();
+    this.triggers = [];
+    this.timers.clear();
+    this.continuations = [];
+    this.undefinedNames.clear();
+    this.arrows.clear();
+    this.objective = undefined;
+    this.outcome = undefined;
+
+    const info = this.datFile.info;
+    this.tiles = (this.datFile.tiles || []).map(row => [...row]);
+    this.resources = {
+      crystals: info?.initialcrystals ?? 0,
+      ore: info?.initialore ?? 0,
+      studs: 0,
+      air: info?.oxygen ?? 0,
+    };
+    this.erosionScale = 1;
+    this.miners = this.datFile.miners?.length ?? 0;
+    this.buildings = countByType(this.datFile.buildings);
+    this.vehicles = countByType(this.datFile.vehicles);
+    this.creatures = countByType(this.datFile.creatures);
+    this.buildingTiles = new Set(
+      (this.datFile.buildings || []).map(building => {
+        const { x, y } = building.coordinates.translation;
+        return `${Math.floor(y / TILE_WORLD_SIZE)},${Math.floor(x / TILE_WORLD_SIZE)}`;
+      })
+    );
+
+    for (const item of script?.items || []) {
+      switch (item.kind) {
+        case 'variable':
+          this.declare(item);
+          break;
+        case 'eventChain':
+          this.chains.set(item.name.name, item);
+          break;
+        case 'trigger':
+          this.triggers.push({ node: item, done: false, lastValue: false });
+          break;
+      }
+    }
+  }
+
+  private declare(variable: ScriptVariableNode): void {
+    const name = variable.name.name;
+    const type = variable.varType.value;
+    const value = variable.value;
+    this.variableTypes.set(name, type);
+
+    if (type === 'timer') {
+      const timer = value?.kind === 'timerValue' ? value : undefined;
+      const number = (expression: ExpressionNode | undefined) =>
+        expression ? toNumber(this.evaluate(expression)) : undefined;
+      this.timers.set(name, {
+        delay: number(timer?.delay) ?? 0,
+        min: number(timer?.min),
+        max: number(timer?.max),
+        event: timer?.event?.name,
+        running: false,
+        expired: false,
+      });
+      return;
+    }
+
+    if (value?.kind === 'tileValue') {
+      this.variables.set(
+        name,
+        `${toNumber(this.evaluate(value.row))},${toNumber(this.evaluate(value.col))}`
+      );
+    } else if (value?.kind === 'timerValue') {
+      this.variables.set(name, defaultValue(type));
+    } else if (value) {
+      // Unknown names such as arrow colours evaluate to themselves
+      this.variables.set(name, coerce(type, this.argument(value)));
+    } else {
+      this.variables.set(name, defaultValue(type));
+    }
+  }
+
+  // Scenario
+
+  private applyStep(step: ScenarioStep): void {
+    this.record('action', step.text);
+    const action = step.action;
+
+    switch (action.kind) {
+      case 'end':
+        this.finished = true;
+        return;
+
+      case 'collect':
+        this.addResource(action.resource, action.amount);
+        this.fireEvent('collect', [action.resource]);
+        break;
+
+      case 'build': {
+        const type = canonicalType(action.building, Object.values(BuildingType));
+        increment(this.buildings, type, 1);
+        if (action.tile) {
+          this.buildingTiles.add(`${action.tile.row},${action.tile.col}`);
+        }
+        this.fireEvent('built', [type]);
+        break;
+      }
+
+      case 'spawn':
+        this.fireEvent('new', [this.spawn(action.unit, 1, action.tile)]);
+        break;
+
+      case 'set':
+        this.setValue(action.name, action.value);
+        break;
+
+      case 'trigger':
+        if (action.trigger === 'drill' && action.tile) {
+          this.setTile(action.tile, GROUND_TILE);
+        }
+        this.fireEvent(
+          action.trigger,
+          action.tile ? [action.tile.row, action.tile.col, action.unit] : []
+        );
+        break;
+    }
+
+    this.settle();
+  }
+
+  // Triggers
+
+  /**
+   * Fire value triggers whose expressions became true, until the script
+   * stops changing
+   */
+  private settle(): void {
+    for (let pass = 0; pass < MAX_SETTLE_PASSES && !this.finished; pass++) {
+      let fired = false;
+      for (const trigger of this.triggers) {
+        if (trigger.done || trigger.node.event.kind === 'triggerEvent') {
+          continue;
+        }
+        const value = truthy(this.evaluate(trigger.node.event));
+        const rising = value && !trigger.lastValue;
+        trigger.lastValue = value;
+        if (rising) {
+          this.fireTrigger(trigger);
+          fired = true;
+        }
+        if (this.finished) {
+          return;
+        }
+      }
+      if (!fired) {
+        return;
+      }
+    }
+  }
+
+  /**
+   * Fire triggers such as 'enter:5,5' or 'built:BuildingToolStore_C'. A
+   * trigger argument the event does not give, such as the unit type, matches
+   * anything.
+   */
+  private fireEvent(name: string, args: (number | string | undefined)[]): void {
+    for (const trigger of this.triggers) {
+      const event = trigger.node.event;
+      if (
+        this.finished ||
+        trigger.done ||
+        event.kind !== 'triggerEvent' ||
+        event.name.name.toLowerCase() !== name
+      ) {
+        continue;
+      }
+      const matches = event.arguments.every((argument, index) => {
+        const actual = args[index];
+        return actual === undefined || sameValue(this.argument(argument), actual);
+      });
+      if (matches) {
+        this.fireTrigger(trigger);
+      }
+    }
+  }
+
+  private fireTrigger(trigger: TriggerState): void {
+    const node = trigger.node;
+    if (node.occurrence.value === 'if') {
+      trigger.done = true;
+    }
+    this.record('trigger', printScriptItem(node)[0].trim(), node.range.start.line);
+
+    const branch =
+      !node.condition || truthy(this.evaluate(node.condition)) ? node.trueBranch : node.falseBranch;
+    if (branch) {
+      this.execute([{ statements: branch.statements, index: 0 }]);
+    }
+  }
+
+  // Timers and waits
+
+  private runTimers(): void {
+    for (const [name, timer] of this.timers) {
+      if (!timer.running || timer.nextFire === undefined || timer.nextFire > this.time) {
+        continue;
+      }
+      timer.expired = true;
+      if (timer.min !== undefined && timer.max !== undefined) {
+        timer.nextFire = this.time + Math.max(1, this.randomBetween(timer.min, timer.max));
+      } else {
+        timer.running = false;
+        timer.nextFire = undefined;
+      }
+      this.record('timer', `Timer ${name} fired`);
+      if (timer.event) {
+        const frame = this.callChain(timer.event);
+        if (frame) {
+          this.execute([frame]);
+        }
+      }
+      if (this.finished) {
+        return;
+      }
+    }
+  }
+
+  private resumeContinuations(): void {
+    const due = this.continuations.filter(continuation => continuation.time <= this.time);
+    this.continuations = this.continuations.filter(continuation => continuation.time > this.time);
+    for (const continuation of due) {
+      this.execute(continuation.frames);
+    }
+  }
+
+  // Statements
+
+  private execute(frames: Frame[]): void {
+    while (frames.length > 0 && !this.finished) {
+      const frame = frames[frames.length - 1];
+      if (frame.index >= frame.statements.length) {
+        frames.pop();
+        continue;
+      }
+      const statement = frame.statements[frame.index++];
+
+      if (++this.statementsThisTick > MAX_STATEMENTS_PER_TICK) {
+        this.record(
+          'error',
+          `Script did not settle after ${MAX_STATEMENTS_PER_TICK} statements; check for triggers and event chains that keep calling each other`,
+          statement.range.start.line
+        );
+        this.finished = true;
+        return;
+      }
+
+      switch (statement.kind) {
+        case 'command': {
+          const wait = this.runCommand(statement);
+          if (wait !== undefined) {
+            this.continuations.push({ time: this.time + Math.max(0, wait), frames });
+            return;
+          }
+          break;
+        }
+
+        case 'assignment':
+          this.assign(statement);
+          break;
+
+        case 'eventCall': {
+          if (statement.name.name === 'return') {
+            // Leave the innermost event chain
+            while (frames.length > 0 && !frames.pop()!.chain) {
+              // Keep popping branches inside the chain
+            }
+            break;
+          }
+          const chainFrame = this.callChain(statement.name.name, statement.range.start.line);
+          if (chainFrame) {
+            frames.push(chainFrame);
+          }
+          break;
+        }
+
+        case 'conditional': {
+          const branch = truthy(this.evaluate(statement.condition))
+            ? statement.trueBranch
+            : statement.falseBranch;
+          if (branch) {
+            frames.push({ statements: branch.statements, index: 0 });
+          }
+          break;
+        }
+      }
+    }
+  }
+
+  private callChain(name: string, line?: number): Frame | undefined {
+    const chain = this.chains.get(name);
+    if (!chain) {
+      this.record('error', `Undefined event chain: ${name}`, line);
+      return undefined;
+    }
+    this.record('event', name, chain.range.start.line);
+    return { statements: chain.statements, index: 0, chain: name };
+  }
+
+  /**
+   * Run a command; returns the seconds to wait before the next statement for
+   * 'wait' and 'truewait'
+   */
+  private runCommand(command: ScriptCommandNode): number | undefined {
+    const name = command.command.name.toLowerCase();
+    const line = command.range.start.line;
+    if (!SCRIPT_COMMANDS[name]) {
+      this.record('error', `Unknown script command '${command.command.name}'`, line);
+      return undefined;
+    }
+
+    const args = command.arguments;
+    const text = (index: number) => (args[index] ? String(this.argument(args[index])) : '');
+    const number = (index: number) => (args[index] ? toNumber(this.evaluate(args[index])) : 0);
+    const tile = (): TilePosition => ({ row: number(0), col: number(1) });
+
+    switch (name) {
+      case 'msg':
+      case 'qmsg':
+        this.record('message', text(0), line);
+        break;
+      case 'msgchief':
+        this.record('message', `Chief at [${number(0)}, ${number(1)}]: ${text(2)}`, line);
+        break;
+      case 'objective':
+        this.objective = text(0);
+        this.record('objective', this.objective, line);
+        break;
+
+      case 'crystals':
+      case 'ore':
+      case 'studs':
+      case 'air':
+        this.addResource(name as ScenarioResource, number(0), line);
+        break;
+      case 'drain':
+        this.addResource('crystals', -number(0), line);
+        break;
+
+      case 'place':
+        this.setTile(tile(), number(2), line);
+        break;
+      case 'drill':
+        this.setTile(tile(), GROUND_TILE, line);
+        this.fireEvent('drill', [number(0), number(1)]);
+        break;
+      case 'placerubble':
+        this.setTile(tile(), RUBBLE_TILE_BASE + Math.min(4, Math.max(1, number(2))), line);
+        break;
+
+      case 'emerge':
+        this.fireEvent('new', [this.spawn(text(3), 1, tile(), line)]);
+        break;
+      case 'miners':
+        this.spawn('miners', number(2), tile(), line);
+        break;
+
+      case 'showarrow':
+      case 'highlightarrow':
+      case 'highlight': {
+        const arrow = variableName(args[2]);
+        const highlighted = name !== 'showarrow';
+        this.arrows.set(arrow, { ...tile(), highlighted, visible: true });
+        this.record(
+          'arrow',
+          `Arrow ${arrow} ${highlighted ? 'highlights' : 'shown at'} [${number(0)}, ${number(1)}]`,
+          line
+        );
+        break;
+      }
+      case 'hidearrow':
+      case 'removearrow': {
+        const arrow = variableName(args[0]);
+        const state = this.arrows.get(arrow);
+        if (state) {
+          state.visible = false;
+        }
+        if (name === 'removearrow') {
+          this.arrows.delete(arrow);
+        }
+        this.record('arrow', `Arrow ${arrow} ${name === 'hidearrow' ? 'hidden' : 'removed'}`, line);
+        break;
+      }
+
+      case 'starttimer':
+      case 'stoptimer': {
+        const timerName = variableName(args[0]);
+        const timer = this.timers.get(timerName);
+        if (!timer) {
+          this.record('error', `Undefined timer: ${timerName}`, line);
+          break;
+        }
+        timer.running = name === 'starttimer';
+        timer.expired = false;
+        timer.nextFire = timer.running ? this.time + timer.delay : undefined;
+        this.record('timer', `Timer ${timerName} ${timer.running ? 'started' : 'stopped'}`, line);
+        break;
+      }
+
+      case 'wait':
+      case 'truewait':
+        return number(0);
+
+      case 'win':
+      case 'lose':
+        this.outcome = {
+          result: name as SimulationOutcome['result'],
+          time: this.time,
+          ...(args[0] ? { message: text(0) } : {}),
+        };
+        this.record('outcome', name === 'win' ? 'Level won' : 'Level lost', line);
+        this.finished = true;
+        break;
+
+      default:
+        this.record('command', `${printStatement(command)} (not simulated)`, line);
+    }
+    return undefined;
+  }
+
+  private assign(assignment: AssignmentNode): void {
+    const target = assignment.target;
+    const value = this.evaluate(assignment.value);
+
+    if (target.kind === 'call') {
+      const array = this.variables.get(target.callee.name);
+      if (!Array.isArray(array)) {
+        this.record('error', `${target.callee.name} is not an array`, assignment.range.start.line);
+        return;
+      }
+      const index = toNumber(this.evaluate(target.arguments[0]));
+      array[index] = toNumber(combine(assignment.operator, array[index] ?? 0, value));
+      this.record(
+        'variable',
+        `${target.callee.name}[${index}] = ${array[index]}`,
+        assignment.range.start.line
+      );
+      return;
+    }
+
+    this.setValue(
+      target.name,
+      combine(assignment.operator, this.read(target.name) ?? 0, value),
+      assignment.range.start.line
+    );
+  }
+
+  /**
+   * Set a variable or writable macro, as a script assignment or a scenario 'set'
+   */
+  private setValue(name: string, value: ScriptValue, line?: number): void {
+    const type = this.variableTypes.get(name);
+    if (type && type !== 'timer') {
+      const coerced = coerce(type, value);
+      this.variables.set(name, coerced);
+      this.record('variable', `${name} = ${formatValue(coerced)}`, line);
+      return;
+    }
+
+    const macro = name.toLowerCase();
+    if (macro === 'erosionscale') {
+      this.erosionScale = toNumber(value);
+      this.record('variable', `erosionscale = ${this.erosionScale}`, line);
+    } else if (WRITABLE_MACROS.includes(macro)) {
+      const resource = macro as ScenarioResource;
+      this.addResource(resource, toNumber(value) - this.resources[resource], line);
+    } else {
+      this.record('error', `Assignment to undeclared variable '${name}'`, line);
+    }
+  }
+
+  // Game state
+
+  private addResource(resource: ScenarioResource, amount: number, line?: number): void {
+    const before = this.resources[resource];
+    this.resources[resource] = before + amount;
+    this.record('resource', `${resource} ${before} -> ${this.resources[resource]}`, line);
+  }
+
+  private setTile(tile: TilePosition, tileId: number, line?: number): void {
+    const row = this.tiles[tile.row];
+    if (!row || tile.col < 0 || tile.col >= row.length) {
+      this.record('error', `Tile [${tile.row}, ${tile.col}] is outside the map`, line);
+      return;
+    }
+    const before = row[tile.col];
+    row[tile.col] = tileId;
+    this.record('tile', `Tile [${tile.row}, ${tile.col}] ${before} -> ${tileId}`, line);
+    this.fireEvent('change', [tile.row, tile.col]);
+  }
+
+  /**
+   * Add miners, vehicles or creatures; returns the unit's canonical type
+   */
+  private spawn(unit: string, count: number, tile?: TilePosition, line?: number): string {
+    const where = tile ? ` at [${tile.row}, ${tile.col}]` : '';
+    if (normalizeName(unit) === 'miner') {
+      this.miners += count;
+      this.record('spawn', `${count} miner(s)${where}`, line);
+      return 'miners';
+    }
+
+    const vehicle = canonicalType(unit, Object.values(VehicleType));
+    const isVehicle = (Object.values(VehicleType) as string[]).includes(vehicle);
+    const type = isVehicle ? vehicle : canonicalType(unit, Object.values(CreatureType));
+    increment(isVehicle ? this.vehicles : this.creatures, type, count);
+    this.record('spawn', `${type}${where}`, line);
+    return type;
+  }
+
+  // Expressions
+
+  private evaluate(expression: ExpressionNode): ScriptValue {
+    switch (expression.kind) {
+      case 'number':
+      case 'string':
+      case 'boolean':
+        return expression.value;
+      case 'identifier': {
+        const value = this.read(expression.name);
+        if (value !== undefined) {
+          return value;
+        }
+        // A misspelled macro must not pass for a true condition
+        if (!this.undefinedNames.has(expression.name)) {
+          this.undefinedNames.add(expression.name);
+          this.record(
+            'error',
+            `Undefined variable or macro: ${expression.name}`,
+            expression.range.start.line
+          );
+        }
+        return 0;
+      }
+      case 'member':
+        return this.readMember(expression);
+      case 'call':
+        return this.call(expression);
+      case 'unary': {
+        const value = this.evaluate(expression.argument);
+        return expression.operator === 'not' ? !truthy(value) : -toNumber(value);
+      }
+      case 'binary':
+        if (expression.operator === 'and') {
+          return truthy(this.evaluate(expression.left)) && truthy(this.evaluate(expression.right));
+        }
+        if (expression.operator === 'or') {
+          return truthy(this.evaluate(expression.left)) || truthy(this.evaluate(expression.right));
+        }
+        return binary(
+          expression.operator,
+          this.evaluate(expression.left),
+          this.evaluate(expression.right)
+        );
+    }
+  }
+
+  /**
+   * Value of a trigger or command argument. Names that are not variables,
+   * such as 'miners' in 'enter:5,5:miners' or a creature type, stand for
+   * themselves.
+   */
+  private argument(expression: ExpressionNode): ScriptValue {
+    if (expression.kind === 'identifier' && !this.variables.has(expression.name)) {
+      return expression.name;
+    }
+    return this.evaluate(expression);
+  }
+
+  /**
+   * Value of a variable or macro; undefined for names the script does not know
+   */
+  private read(name: string): ScriptValue | undefined {
+    const variable = this.variables.get(name);
+    if (variable !== undefined) {
+      return variable;
+    }
+
+    switch (name.toLowerCase()) {
+      case 'init':
+        return this.init;
+      case 'time':
+      case 'clock':
+        return this.time;
+      case 'crystals':
+      case 'ore':
+      case 'studs':
+      case 'air':
+        return this.resources[name.toLowerCase() as ScenarioResource];
+      case 'miners':
+        return this.miners;
+      case 'vehicles':
+        return total(this.vehicles);
+      case 'monsters':
+      case 'hostiles':
+        return total(this.creatures);
+      case 'erosionscale':
+        return this.erosionScale;
+      case 'discovered':
+        return 0;
+      default:
+        return undefined;
+    }
+  }
+
+  private readMember(member: MemberExpressionNode): ScriptValue {
+    const object = member.object.kind === 'identifier' ? member.object.name : '';
+    const property = member.property.name;
+
+    const timer = this.timers.get(object);
+    if (timer) {
+      if (property === 'expired') {
+        return timer.expired;
+      }
+      return timer.running && timer.nextFire !== undefined ? timer.nextFire - this.time : 0;
+    }
+
+    switch (object.toLowerCase()) {
+      case 'buildings':
+        return this.buildings.get(normalizeName(property)) ?? 0;
+      case 'vehicles':
+        return this.vehicles.get(normalizeName(property)) ?? 0;
+      case 'creatures':
+        return this.creatures.get(normalizeName(property)) ?? 0;
+      default:
+        // Unit properties such as '.hp' are not simulated
+        return 0;
+    }
+  }
+
+  private call(call: CallExpressionNode): ScriptValue {
+    const args = call.arguments.map(argument => toNumber(this.evaluate(argument)));
+    switch (call.callee.name.toLowerCase()) {
+      case 'get':
+        return this.tiles[args[0]]?.[args[1]] ?? 0;
+      case 'random':
+        return this.randomBetween(args[0] ?? 0, args[1] ?? 0);
+      case 'foundbuilding':
+        return this.buildingTiles.has(`${args[0]},${args[1]}`);
+      default: {
+        const array = this.variables.get(call.callee.name);
+        return Array.isArray(array) ? (array[args[0]] ?? 0) : 0;
+      }
+    }
+  }
+
+  private randomBetween(min: number, max: number): number {
+    return Math.floor(min + this.random() * (Math.max(min, max) - min + 1));
+  }
+
+  private record(kind: TimelineEntryKind, message: string, line?: number): void {
+    this.timeline.push({ time: this.time, kind, message, ...(line !== undefined ? { line } : {}) });
+  }
+}
+
+// Values
+
+function truthy(value: ScriptValue): boolean {
+  if (Array.isArray(value)) {
+    return value.length > 0;
+  }
+  return typeof value === 'string' ? value !== '' : Boolean(value);
+}
+
+function toNumber(value: ScriptValue): number {
+  if (Array.isArray(value)) {
+    return 0;
+  }
+  const number = Number(value);
+  return Number.isFinite(number) ? number : 0;
+}
+
+function defaultValue(type: ScriptVariableType): ScriptValue {
+  switch (type) {
+    case 'int':
+    case 'float':
+      return 0;
+    case 'bool':
+      return false;
+    case 'intarray':
+      return [];
+    default:
+      return '';
+  }
+}
+
+function coerce(type: ScriptVariableType, value: ScriptValue): ScriptValue {
+  switch (type) {
+    case 'int':
+      return Math.trunc(toNumber(value));
+    case 'float':
+      return toNumber(value);
+    case 'bool':
+      return truthy(value);
+    case 'intarray':
+      return Array.isArray(value) ? value : [];
+    default:
+      return Array.isArray(value) ? value.join(',') : String(value);
+  }
+}
+
+function combine(
+  operator: AssignmentNode['operator'],
+  current: ScriptValue,
+  value: ScriptValue
+): ScriptValue {
+  switch (operator) {
+    case '+=':
+      return binary('+', current, value);
+    case '-=':
+      return binary('-', current, value);
+    case '*=':
+      return binary('*', current, value);
+    case '/=':
+      return binary('/', current, value);
+    default:
+      return value;
+  }
+}
+
+function binary(operator: BinaryOperator, left: ScriptValue, right: ScriptValue): ScriptValue {
+  const numeric = typeof left !== 'string' && typeof right !== 'string';
+  const a = toNumber(left);
+  const b = toNumber(right);
+
+  switch (operator) {
+    case '==':
+      return numeric ? a === b : sameValue(left, right);
+    case '!=':
+      return numeric ? a !== b : !sameValue(left, right);
+    case '>':
+      return a > b;
+    case '<':
+      return a < b;
+    case '>=':
+      return a >= b;
+    case '<=':
+      return a <= b;
+    case '+':
+      return typeof left === 'string' || typeof right === 'string'
+        ? `${formatValue(left)}${formatValue(right)}`
+        : a + b;
+    case '-':
+      return a - b;
+    case '*':
+      return a * b;
+    case '/':
+      return b === 0 ? 0 : a / b;
+    case '//':
+      return b === 0 ? 0 : Math.floor(a / b);
+    default:
+      return false;
+  }
+}
+
+function sameValue(left: ScriptValue, right: ScriptValue | number | string): boolean {
+  if (typeof left === 'number' && typeof right === 'number') {
+    return left === right;
+  }
+  return normalizeName(formatValue(left)) === normalizeName(formatValue(right));
+}
+
+export function formatValue(value: ScriptValue): string {
+  return Array.isArray(value) ? `[${value.join(', ')}]` : String(value);
+}
+
+// Names
+
+/**
+ * Compare type names loosely, so 'BuildingToolStore_C', 'toolstore' and
+ * 'ToolStores' are the same
+ */
+function normalizeName(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/^(building|vehicle|creature)(?=.)/, '')
+    .replace(/_c$/, '')
+    .replace(/s$/, '');
+}
+
+function canonicalType(name: string, types: string[]): string {
+  return types.find(type => normalizeName(type) === normalizeName(name)) ?? name;
+}
+
+function variableName(expression: ExpressionNode | undefined): string {
+  return expression?.kind === 'identifier' ? expression.name : '';
+}
+
+function countByType(entities: Entity[] | undefined): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const entity of entities || []) {
+    increment(counts, entity.type, 1);
+  }
+  return counts;
+}
+
+function increment(counts: Map<string, number>, type: string, amount: number): void {
+  const key = normalizeName(type);
+  counts.set(key, (counts.get(key) ?? 0) + amount);
+}
+
+function total(counts: Map<string, number>): number {
+  return Array.from(counts.values()).reduce((sum, count) => sum + count, 0);
+}
+
+// Small seeded generator so runs with the same seed give the same timeline
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
@@ -0,0 +1,66 @@
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { DatCstParser } from '../parser/datCstParser';
+import { parseScenario } from './scenario';
+import { ScriptInterpreter } from './scriptInterpreter';
+import { formatSimulation } from './timelineFormatter';
+
+export function registerScriptSimulatorCommands(context: vscode.ExtensionContext): void {
+  const output = vscode.window.createOutputChannel('Manic Miners Script Simulation');
+  context.subscriptions.push(output);
+
+  // Dry-run the level's script, optionally against a scenario file of player actions
+  context.subscriptions.push(
+    vscode.commands.registerCommand('manicMiners.simulateScript', async () => {
+      const document = vscode.window.activeTextEditor?.document;
+      if (!document || document.languageId !== 'manicminers') {
+        vscode.window.showErrorMessage('Please open a Manic Miners DAT file');
+        return;
+      }
+
+      const choice = await vscode.window.showQuickPick(
+        [
+          { label: 'Run without player actions', scenario: false },
+          {
+            label: 'Choose scenario file...',
+            description: "Lines such as 'at t=60 collect 20 crystals'",
+            scenario: true,
+          },
+        ],
+        { placeHolder: 'Select player actions for the simulation' }
+      );
+      if (!choice) {
+        return;
+      }
+
+      let scenarioText = '';
+      if (choice.scenario) {
+        const uris = await vscode.window.showOpenDialog({
+          canSelectMany: false,
+          defaultUri: vscode.Uri.file(path.dirname(document.uri.fsPath)),
+          filters: { Scenarios: ['scenario', 'txt'] },
+        });
+        if (!uris || uris.length === 0) {
+          return;
+        }
+        scenarioText = Buffer.from(await vscode.workspace.fs.readFile(uris[0])).toString('utf8');
+      }
+
+      try {
+        const datFile = new DatCstParser(document.getText()).toDatFile();
+        if (!datFile.script) {
+          vscode.window.showWarningMessage('This level has no script to simulate');
+          return;
+        }
+
+        const result = new ScriptInterpreter(datFile).run(parseScenario(scenarioText));
+        output.clear();
+        output.append(formatSimulation(result));
+        output.show(true);
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        vscode.window.showErrorMessage(`Failed to simulate script: ${errorMessage}`);
+      }
+    })
+  );
+}
@@ -0,0 +1,69 @@
+import { formatValue, SimulationResult } from './scriptInterpreter';
+
+/**
+ * Plain text report of a simulation: script problems, the timeline and the
+ * state the level ended in
+ */
+export function formatSimulation(result: SimulationResult): string {
+  const lines: string[] = [];
+
+  if (result.diagnostics.length > 0) {
+    lines.push('Script problems:');
+    for (const diagnostic of result.diagnostics) {
+      lines.push(`  line ${diagnostic.line + 1}: ${diagnostic.severity}: ${diagnostic.message}`);
+    }
+    lines.push('');
+  }
+
+  lines.push('Timeline:');
+  const kindWidth = Math.max(0, ...result.timeline.map(entry => entry.kind.length));
+  for (const entry of result.timeline) {
+    const source = entry.line !== undefined ? `  (line ${entry.line + 1})` : '';
+    lines.push(
+      `  [${formatTime(entry.time)}] ${entry.kind.padEnd(kindWidth)}  ${entry.message}${source}`
+    );
+  }
+  if (result.timeline.length === 0) {
+    lines.push('  Nothing happened');
+  }
+  lines.push('');
+
+  if (result.outcome) {
+    const verb = result.outcome.result === 'win' ? 'Won' : 'Lost';
+    const message = result.outcome.message ? `: ${result.outcome.message}` : '';
+    lines.push(`Outcome: ${verb} at ${formatTime(result.outcome.time)}${message}`);
+  } else {
+    lines.push(`Outcome: none by ${formatTime(result.endTime)}`);
+  }
+
+  const { crystals, ore, studs, air } = result.resources;
+  lines.push(`Resources: ${crystals} crystals, ${ore} ore, ${studs} studs, ${air} air`);
+  if (result.objective !== undefined) {
+    lines.push(`Objective: ${result.objective}`);
+  }
+
+  const arrows = Object.entries(result.arrows);
+  if (arrows.length > 0) {
+    lines.push(
+      `Arrows: ${arrows.map(([name, arrow]) => `${name} at [${arrow.row}, ${arrow.col}]`).join(', ')}`
+    );
+  }
+
+  const variables = Object.entries(result.variables);
+  if (variables.length > 0) {
+    lines.push('Variables:');
+    for (const [name, value] of variables) {
+      lines.push(`  ${name} = ${formatValue(value)}`);
+    }
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Game time as m:ss
+ */
+export function formatTime(seconds: number): string {
+  const whole = Math.floor(seconds);
+  return `${Math.floor(whole / 60)}:${String(whole % 60).padStart(2, '0')}`;
+}
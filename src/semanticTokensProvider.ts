@@ -0,0 +1,332 @@
+import * as vscode from 'vscode';
+import { getTileInfo, TileDefinition } from './data/tileDefinitions';
+import { DatCstParser } from './parser/datCstParser';
+import { getScriptSymbols, ScriptSymbol } from './parser/scriptSymbols';
+import { getScriptChildNodes } from './parser/scriptParser';
+import { SourceRange } from './types/datCstTypes';
+import { IdentifierNode, ScriptAstNode, ScriptVariableType } from './types/scriptAstTypes';
+import { isReservedWord } from './validation/scriptCommands';
+
+export const SEMANTIC_TOKEN_TYPES = [
+  'variable',
+  'function',
+  'event',
+  'keyword',
+  'property',
+  'undefinedIdentifier',
+  'tileFloor',
+  'tileWall',
+  'tileResource',
+  'tileHazard',
+] as const;
+
+export type DatSemanticTokenType = (typeof SEMANTIC_TOKEN_TYPES)[number];
+
+// Declared variables carry their script type as a modifier
+export const SEMANTIC_TOKEN_MODIFIERS = [
+  'declaration',
+  'readonly',
+  'defaultLibrary',
+  'int',
+  'float',
+  'bool',
+  'string',
+  'arrow',
+  'timer',
+  'miner',
+  'vehicle',
+  'creature',
+  'building',
+  'intarray',
+] as const;
+
+export type DatSemanticTokenModifier = (typeof SEMANTIC_TOKEN_MODIFIERS)[number];
+
+export const SEMANTIC_TOKENS_LEGEND = new vscode.SemanticTokensLegend(
+  [...SEMANTIC_TOKEN_TYPES],
+  [...SEMANTIC_TOKEN_MODIFIERS]
+);
+
+/**
+ * A highlighted range on one line
+ */
+export interface DatSemanticToken {
+  line: number;
+  column: number;
+  length: number;
+  type: DatSemanticTokenType;
+  modifiers: DatSemanticTokenModifier[];
+}
+
+/**
+ * Replacement of part of an encoded token array
+ */
+export interface SemanticTokensDelta {
+  start: number;
+  deleteCount: number;
+  data: number[];
+}
+
+const TILE_TOKEN_TYPES: Partial<Record<TileDefinition['category'], DatSemanticTokenType>> = {
+  ground: 'tileFloor',
+  rubble: 'tileFloor',
+  wall: 'tileWall',
+  resource: 'tileResource',
+  hazard: 'tileHazard',
+};
+
+/**
+ * Tokens for script names and tile IDs, sorted by position. Script
+ * sections with syntax errors are skipped since their tree is incomplete.
+ */
+export function getDatSemanticTokens(text: string): DatSemanticToken[] {
+  const parser = new DatCstParser(text);
+  const tokens: DatSemanticToken[] = [];
+  const push = (
+    range: SourceRange,
+    type: DatSemanticTokenType,
+    modifiers: DatSemanticTokenModifier[] = []
+  ) => {
+    if (range.start.line === range.end.line && range.end.column > range.start.column) {
+      tokens.push({
+        line: range.start.line,
+        column: range.start.column,
+        length: range.end.column - range.start.column,
+        type,
+        modifiers,
+      });
+    }
+  };
+
+  for (const row of parser.getSection('tiles')?.items || []) {
+    if (row.kind !== 'gridRow') {
+      continue;
+    }
+    for (const cell of row.cells) {
+      const category = getTileInfo(cell.value)?.category;
+      const type = category && TILE_TOKEN_TYPES[category];
+      if (type) {
+        push(cell.range, type);
+      }
+    }
+  }
+
+  const scriptParsed = !parser.getErrors().some(error => error.section === 'script');
+  const script = parser.toDatFile().script;
+  if (script && scriptParsed) {
+    highlightScript(script, getScriptSymbols(parser), push);
+  }
+
+  return tokens.sort((a, b) => a.line - b.line || a.column - b.column);
+}
+
+/**
+ * Encode tokens as the relative five-number groups the editor expects
+ */
+export function encodeSemanticTokens(tokens: DatSemanticToken[]): number[] {
+  const data: number[] = [];
+  let line = 0;
+  let column = 0;
+
+  for (const token of tokens) {
+    const deltaLine = token.line - line;
+    data.push(
+      deltaLine,
+      deltaLine === 0 ? token.column - column : token.column,
+      token.length,
+      SEMANTIC_TOKEN_TYPES.indexOf(token.type),
+      token.modifiers.reduce(
+        (bits, modifier) => bits | (1 << SEMANTIC_TOKEN_MODIFIERS.indexOf(modifier)),
+        0
+      )
+    );
+    line = token.line;
+    column = token.column;
+  }
+
+  return data;
+}
+
+/**
+ * The single edit turning one encoded token array into another: everything
+ * between their common start and common end. Editing a large map changes
+ * a few tokens, so this is far smaller than sending them all again.
+ */
+export function diffSemanticTokens(previous: number[], next: number[]): SemanticTokensDelta {
+  let start = 0;
+  while (start < previous.length && start < next.length && previous[start] === next[start]) {
+    start++;
+  }
+
+  let end = 0;
+  while (
+    end < previous.length - start &&
+    end < next.length - start &&
+    previous[previous.length - 1 - end] === next[next.length - 1 - end]
+  ) {
+    end++;
+  }
+
+  return {
+    start,
+    deleteCount: previous.length - start - end,
+    data: next.slice(start, next.length - end),
+  };
+}
+
+/**
+ * Semantic highlighting for .dat files. The last tokens of each document are
+ * kept so later requests can be answered with just what changed.
+ */
+export class DatSemanticTokensProvider implements vscode.DocumentSemanticTokensProvider {
+  private results = new Map<string, { resultId: string; data: number[] }>();
+  private nextResultId = 1;
+
+  public register(context: vscode.ExtensionContext): void {
+    context.subscriptions.push(
+      vscode.languages.registerDocumentSemanticTokensProvider(
+        { scheme: 'file', language: 'manicminers' },
+        this,
+        SEMANTIC_TOKENS_LEGEND
+      ),
+      vscode.workspace.onDidCloseTextDocument(document =>
+        this.results.delete(document.uri.toString())
+      )
+    );
+  }
+
+  provideDocumentSemanticTokens(
+    document: vscode.TextDocument,
+    _token: vscode.CancellationToken
+  ): vscode.ProviderResult<vscode.SemanticTokens> {
+    const { resultId, data } = this.tokenize(document);
+    return new vscode.SemanticTokens(new Uint32Array(data), resultId);
+  }
+
+  provideDocumentSemanticTokensEdits(
+    document: vscode.TextDocument,
+    previousResultId: string,
+    _token: vscode.CancellationToken
+  ): vscode.ProviderResult<vscode.SemanticTokens | vscode.SemanticTokensEdits> {
+    const previous = this.results.get(document.uri.toString());
+    const { resultId, data } = this.tokenize(document);
+    if (previous?.resultId !== previousResultId) {
+      return new vscode.SemanticTokens(new Uint32Array(data), resultId);
+    }
+
+    const delta = diffSemanticTokens(previous.data, data);
+    return new vscode.SemanticTokensEdits(
+      delta.deleteCount === 0 && delta.data.length === 0
+        ? []
+        : [
+            new vscode.SemanticTokensEdit(
+              delta.start,
+              delta.deleteCount,
+              new Uint32Array(delta.data)
+            ),
+          ],
+      resultId
+    );
+  }
+
+  private tokenize(document: vscode.TextDocument): { resultId: string; data: number[] } {
+    const result = {
+      resultId: String(this.nextResultId++),
+      data: encodeSemanticTokens(getDatSemanticTokens(document.getText())),
+    };
+    this.results.set(document.uri.toString(), result);
+    return result;
+  }
+}
+
+/**
+ * Highlight declarations and uses of script names, telling variables by
+ * type, event chains, game commands and names that are never declared
+ */
+function highlightScript(
+  script: ScriptAstNode,
+  symbols: Map<string, ScriptSymbol>,
+  push: (
+    range: SourceRange,
+    type: DatSemanticTokenType,
+    modifiers?: DatSemanticTokenModifier[]
+  ) => void
+): void {
+  // Script declarations say the type; timers declared by blocks are timers
+  const variableTypes = new Map<string, ScriptVariableType>();
+  const collect = (node: ScriptAstNode) => {
+    if (node.kind === 'variable') {
+      variableTypes.set(node.name.name, node.varType.value);
+    }
+    getScriptChildNodes(node).forEach(collect);
+  };
+  collect(script);
+
+  // Command arguments may be game constants or legacy message text, so only
+  // declared and game names are highlighted there
+  const reference = (identifier: IdentifierNode, inArgument: boolean) => {
+    const symbol = symbols.get(identifier.name);
+    if (symbol?.kind === 'eventChain') {
+      push(identifier.range, 'function');
+    } else if (symbol) {
+      const type =
+        variableTypes.get(identifier.name) ??
+        (symbol.kind === 'timer' || symbol.kind === 'arrow' ? symbol.kind : undefined);
+      push(identifier.range, 'variable', type ? [type] : []);
+    } else if (isReservedWord(identifier.name)) {
+      push(identifier.range, 'variable', ['readonly', 'defaultLibrary']);
+    } else if (!inArgument && !identifier.name.endsWith('_C')) {
+      push(identifier.range, 'undefinedIdentifier');
+    }
+  };
+
+  const visit = (node: ScriptAstNode, inArgument: boolean): void => {
+    switch (node.kind) {
+      case 'variable':
+        push(node.name.range, 'variable', ['declaration', node.varType.value]);
+        if (node.value) {
+          visit(node.value, inArgument);
+        }
+        return;
+      case 'eventChain':
+        push(node.name.range, 'function', ['declaration']);
+        node.statements.forEach(statement => visit(statement, false));
+        return;
+      case 'trigger':
+        push(node.occurrence.range, 'keyword');
+        getScriptChildNodes(node).forEach(child => visit(child, false));
+        return;
+      case 'triggerEvent':
+        push(node.name.range, 'event');
+        node.arguments.forEach(argument => visit(argument, true));
+        return;
+      case 'command':
+        if (symbols.has(node.command.name) || !isReservedWord(node.command.name)) {
+          reference(node.command, false);
+        } else {
+          push(node.command.range, 'function', ['defaultLibrary']);
+        }
+        node.arguments.forEach(argument => visit(argument, true));
+        return;
+      case 'member':
+        visit(node.object, inArgument);
+        push(node.property.range, 'property');
+        return;
+      case 'call':
+        if (symbols.has(node.callee.name) || !isReservedWord(node.callee.name)) {
+          reference(node.callee, inArgument);
+        } else {
+          push(node.callee.range, 'function', ['defaultLibrary']);
+        }
+        node.arguments.forEach(argument => visit(argument, inArgument));
+        return;
+      case 'identifier':
+        reference(node, inArgument);
+        return;
+      default:
+        getScriptChildNodes(node).forEach(child => visit(child, inArgument));
+    }
+  };
+
+  visit(script, false);
+}
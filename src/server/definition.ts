@@ -0,0 +1,269 @@
+import { Location, Position, Range } from 'vscode-languageserver';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { containsPosition, DatCstParser } from '../parser/datCstParser';
+import { SectionNode, SourceRange } from '../types/datCstTypes';
+import { VisualBlock } from '../types/datFileTypes';
+import { getLineText, getWordAtPosition } from './documents';
+
+/**
+ * Where the section, entity, event chain, variable or block at a position
+ * is declared
+ */
+export function getDefinition(document: TextDocument, position: Position): Location | undefined {
+  const lineText = getLineText(document, position.line);
+  const word = getWordAtPosition(document, position);
+
+  // Parse the document
+  const parser = new DatCstParser(document.getText());
+  const currentSection = parser.getNodePath(position.line, position.character)[1] as
+    | SectionNode
+    | undefined;
+
+  // Handle section references
+  if (isSectionReference(word)) {
+    const targetSection = parser.getSection(word);
+    if (targetSection) {
+      return toLocation(document, targetSection.name);
+    }
+  }
+
+  // Handle entity IDs in script section
+  if (currentSection?.name.value === 'script') {
+    // Check for entity ID references in enable/disable commands
+    const entityMatch = lineText.match(/(?:enable|disable|wake)\s*:\s*(\w+)/);
+    if (entityMatch && position.character >= lineText.indexOf(entityMatch[1])) {
+      const entityId = entityMatch[1];
+      return findEntityDefinition(document, entityId, parser);
+    }
+
+    // Check for event references in when() conditions
+    const whenMatch = lineText.match(/when\s*\([^)]*\)\s*\[(\w+)\]/);
+    if (whenMatch && position.character >= lineText.indexOf(whenMatch[1])) {
+      const eventName = whenMatch[1];
+      return findEventDefinition(document, eventName, parser);
+    }
+
+    // Check for timer event references
+    const timerMatch = lineText.match(/timer\s+(\w+)\s*=.*?,\s*(\w+)\s*$/);
+    if (timerMatch && timerMatch[2] && position.character >= lineText.indexOf(timerMatch[2])) {
+      const eventName = timerMatch[2];
+      return findEventDefinition(document, eventName, parser);
+    }
+
+    // Check for event chain calls (call:EventName)
+    const callMatch = lineText.match(/call\s*:\s*(\w+)/);
+    if (callMatch && position.character >= lineText.indexOf(callMatch[1])) {
+      const eventName = callMatch[1];
+      // First check visual blocks, then script events
+      const blocksLocation = findEventInBlocks(document, eventName, parser);
+      if (blocksLocation) {
+        return blocksLocation;
+      }
+      return findEventDefinition(document, eventName, parser);
+    }
+
+    // Check for variable references
+    const varRefMatch = lineText.match(/(\w+)\s*:/);
+    if (varRefMatch && !lineText.includes('::') && position.character <= lineText.indexOf(':')) {
+      const varName = varRefMatch[1];
+      return findVariableDefinition(document, varName, parser);
+    }
+
+    // Check for event references
+    if (lineText.includes('::') || lineText.includes('))')) {
+      const eventName = extractEventName(lineText);
+      if (eventName) {
+        // First check visual blocks, then script events
+        const blocksLocation = findEventInBlocks(document, eventName, parser);
+        if (blocksLocation) {
+          return blocksLocation;
+        }
+        return findEventDefinition(document, eventName, parser);
+      }
+    }
+  }
+
+  // Handle visual blocks section
+  if (currentSection?.name.value === 'blocks') {
+    const cursor = { line: position.line, column: position.character };
+    const node = parser.getNodeAt(position.line, position.character);
+
+    // Wires (e.g., 1-2, 1~2, 1?2) lead to the block on the cursor's side
+    if (node?.kind === 'wire') {
+      const targetId = containsPosition(node.to.range, cursor) ? node.to.value : node.from.value;
+      return findBlockDefinition(document, targetId, parser);
+    }
+
+    // EventCallEvent blocks name the script event chain they call
+    const block = parser.toDatFile().blocks?.blocks.find(b => b.line === position.line);
+    const eventName = block?.name === 'EventCallEvent' ? block.parameters.function : undefined;
+    if (typeof eventName === 'string' && position.character >= lineText.lastIndexOf(eventName)) {
+      return findEventDefinition(document, eventName, parser);
+    }
+  }
+
+  // Handle cave connections in info section
+  if (currentSection?.name.value === 'info' && lineText.includes('opencaves')) {
+    const caveMatch = lineText.match(/(\d+),(\d+)/g);
+    if (caveMatch) {
+      // Find the tiles section to jump to the cave location
+      const tilesSection = parser.getSection('tiles');
+      if (tilesSection) {
+        return Location.create(
+          document.uri,
+          Range.create(tilesSection.range.start.line + 1, 0, tilesSection.range.start.line + 1, 0)
+        );
+      }
+    }
+  }
+
+  // Handle objective references
+  if (currentSection?.name.value === 'objectives') {
+    if (lineText.includes('variable:')) {
+      const varMatch = lineText.match(/variable\s*:\s*(\w+)/);
+      if (varMatch) {
+        const varName = varMatch[1];
+        return findVariableDefinition(document, varName, parser);
+      }
+    }
+  }
+
+  return undefined;
+}
+
+function isSectionReference(word: string): boolean {
+  const sections = [
+    'comments',
+    'info',
+    'tiles',
+    'height',
+    'resources',
+    'objectives',
+    'buildings',
+    'vehicles',
+    'creatures',
+    'miners',
+    'blocks',
+    'script',
+    'briefing',
+    'briefingsuccess',
+    'briefingfailure',
+    'landslidefrequency',
+    'lavaspread',
+  ];
+  return sections.includes(word.toLowerCase());
+}
+
+function findEntityDefinition(
+  document: TextDocument,
+  entityId: string,
+  parser: DatCstParser
+): Location | undefined {
+  // Search in buildings, vehicles, creatures, and miners sections
+  const entitySections = ['buildings', 'vehicles', 'creatures', 'miners'];
+
+  for (const sectionName of entitySections) {
+    for (const item of parser.getSection(sectionName)?.items || []) {
+      if (item.kind === 'entity' && item.id?.value === entityId) {
+        return toLocation(document, item.id);
+      }
+    }
+  }
+
+  return undefined;
+}
+
+function findEventDefinition(
+  document: TextDocument,
+  eventName: string,
+  parser: DatCstParser
+): Location | undefined {
+  for (const item of parser.getSection('script')?.items || []) {
+    if (item.kind === 'eventChain' && item.name.name === eventName) {
+      return toLocation(document, item.name);
+    }
+  }
+
+  return undefined;
+}
+
+function findVariableDefinition(
+  document: TextDocument,
+  varName: string,
+  parser: DatCstParser
+): Location | undefined {
+  for (const item of parser.getSection('script')?.items || []) {
+    if (item.kind === 'variable' && item.name.name === varName) {
+      return toLocation(document, item.name);
+    }
+  }
+
+  return undefined;
+}
+
+function extractEventName(lineText: string): string | undefined {
+  // Extract event name from event call (e.g., EventName::)
+  const eventCallMatch = lineText.match(/(\w+)\s*::(?!:)/);
+  if (eventCallMatch) {
+    return eventCallMatch[1];
+  }
+
+  // Extract event name from event definition
+  const eventDefMatch = lineText.match(/^\s*(\w+)\s*::/);
+  if (eventDefMatch) {
+    return eventDefMatch[1];
+  }
+
+  // Extract from old-style event calls (e.g., ))EventName;)
+  const oldStyleMatch = lineText.match(/\)\)\s*(\w+)\s*;/);
+  if (oldStyleMatch) {
+    return oldStyleMatch[1];
+  }
+
+  return undefined;
+}
+
+function findEventInBlocks(
+  document: TextDocument,
+  eventName: string,
+  parser: DatCstParser
+): Location | undefined {
+  const block = parser
+    .toDatFile()
+    .blocks?.blocks.find(b => b.name === 'TriggerEventChain' && b.parameters.name === eventName);
+  return block && toBlockLocation(document, block, parser);
+}
+
+function findBlockDefinition(
+  document: TextDocument,
+  blockId: number,
+  parser: DatCstParser
+): Location | undefined {
+  const block = parser.toDatFile().blocks?.blocks.find(b => b.id === blockId);
+  return block && toBlockLocation(document, block, parser);
+}
+
+/**
+ * Location of a block's ID on the line it was parsed from
+ */
+function toBlockLocation(
+  document: TextDocument,
+  block: VisualBlock,
+  parser: DatCstParser
+): Location | undefined {
+  for (const item of parser.getSection('blocks')?.items || []) {
+    if (item.kind === 'block' && item.range.start.line === block.line) {
+      return toLocation(document, item.id);
+    }
+  }
+
+  return undefined;
+}
+
+function toLocation(document: TextDocument, node: { range: SourceRange }): Location {
+  const { start, end } = node.range;
+  return Location.create(
+    document.uri,
+    Range.create(start.line, start.column, end.line, end.column)
+  );
+}
@@ -0,0 +1,88 @@
+import { Diagnostic, DiagnosticSeverity, Range } from 'vscode-languageserver';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { MapValidator, ValidationError, ValidationWarning } from '../validation/mapValidator';
+
+/**
+ * Map validation of one document: problems to show in the editor and the
+ * summary lines that go to the status bar
+ */
+export interface DocumentValidation {
+  diagnostics: Diagnostic[];
+  info: string[];
+}
+
+/**
+ * Run the map validator over a document
+ */
+export async function getDiagnostics(document: TextDocument): Promise<DocumentValidation> {
+  const results = await new MapValidator(document).validate();
+
+  const diagnostics: Diagnostic[] = [];
+  for (const issue of [...results.errors, ...results.warnings]) {
+    const diagnostic = createDiagnostic(document, issue);
+    if (diagnostic) {
+      diagnostics.push(diagnostic);
+    }
+  }
+
+  return { diagnostics, info: results.info.map(i => i.message) };
+}
+
+function createDiagnostic(
+  document: TextDocument,
+  issue: ValidationError | ValidationWarning
+): Diagnostic | undefined {
+  let range: Range;
+
+  if (issue.line !== undefined && issue.column !== undefined) {
+    // Find the actual line in the tiles section
+    const lines = document.getText().split('\n');
+    const tilesStartIndex = lines.findIndex(line => line.trim() === 'tiles{');
+
+    if (tilesStartIndex === -1) {
+      return undefined;
+    }
+
+    const actualLine = tilesStartIndex + 1 + issue.line;
+    if (actualLine >= lines.length) {
+      return undefined;
+    }
+
+    const tiles = lines[actualLine].split(',');
+
+    // Calculate character position for the column
+    let charPos = 0;
+    for (let i = 0; i < issue.column && i < tiles.length; i++) {
+      charPos += tiles[i].length + 1; // +1 for comma
+    }
+
+    range = Range.create(
+      actualLine,
+      charPos,
+      actualLine,
+      charPos + (tiles[issue.column]?.length || 1)
+    );
+  } else {
+    // Default to first line if no specific location
+    range = Range.create(0, 0, 0, 0);
+  }
+
+  const diagnostic: Diagnostic = {
+    range,
+    message: issue.message,
+    // The validator reports vscode.DiagnosticSeverity, which counts from 0
+    severity: (issue.severity + 1) as DiagnosticSeverity,
+    source: 'Manic Miners Validator',
+  };
+
+  // Add code actions hints
+  if (issue.message.includes('Invalid tile ID')) {
+    diagnostic.code = 'invalid-tile-id';
+  } else if (issue.message.includes('unreachable')) {
+    diagnostic.code = 'unreachable-resource';
+  } else if (issue.message.includes('reinforced walls')) {
+    diagnostic.code = 'blocked-resource';
+  }
+
+  return diagnostic;
+}
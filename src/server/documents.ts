@@ -0,0 +1,39 @@
+import { Position, Range } from 'vscode-languageserver';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+
+// Same as the wordPattern in language-configuration.json
+const WORD_PATTERN = /\w+/g;
+
+/**
+ * Text of one line, without its line break
+ */
+export function getLineText(document: TextDocument, line: number): string {
+  return document.getText(Range.create(line, 0, line + 1, 0)).replace(/\r?\n$/, '');
+}
+
+/**
+ * Range of the word the position is in or just after, like
+ * TextDocument.getWordRangeAtPosition in the editor
+ */
+export function getWordRangeAtPosition(
+  document: TextDocument,
+  position: Position
+): Range | undefined {
+  const lineText = getLineText(document, position.line);
+  for (const match of lineText.matchAll(WORD_PATTERN)) {
+    const start = match.index ?? 0;
+    const end = start + match[0].length;
+    if (position.character >= start && position.character <= end) {
+      return Range.create(position.line, start, position.line, end);
+    }
+  }
+  return undefined;
+}
+
+/**
+ * The word at a position, or '' between words
+ */
+export function getWordAtPosition(document: TextDocument, position: Position): string {
+  const range = getWordRangeAtPosition(document, position);
+  return range ? document.getText(range) : '';
+}
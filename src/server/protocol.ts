@@ -0,0 +1,10 @@
+/**
+ * Sent with the validator's summary lines, which VS Code shows in the
+ * status bar. Other clients may ignore it.
+ */
+export const VALIDATION_INFO_NOTIFICATION = 'manicMiners/validationInfo';
+
+export interface ValidationInfoParams {
+  uri: string;
+  message: string;
+}
@@ -0,0 +1,330 @@
+import { Location, Position, Range } from 'vscode-languageserver';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { DatCstParser } from '../parser/datCstParser';
+import { DatFileParser } from '../parser/datFileParser';
+import { findScriptSymbolAt } from '../parser/scriptSymbols';
+import { SourceRange } from '../types/datCstTypes';
+import { SectionInfo } from '../types/datFileTypes';
+import { getLineText, getWordAtPosition } from './documents';
+
+/**
+ * Every use of the name at a position, with its declaration when
+ * includeDeclaration is set
+ */
+export function getReferences(
+  document: TextDocument,
+  position: Position,
+  includeDeclaration: boolean
+): Location[] {
+  const word = getWordAtPosition(document, position);
+
+  if (!word) {
+    return [];
+  }
+
+  // Declared script names resolve through the syntax tree, the same way
+  // rename does. A script with syntax errors falls back to matching text.
+  const cstParser = new DatCstParser(document.getText());
+  const scriptParsed = !cstParser.getErrors().some(error => error.section === 'script');
+  const symbol = scriptParsed
+    ? findScriptSymbolAt(cstParser, { line: position.line, column: position.character })?.symbol
+    : undefined;
+  if (symbol) {
+    return symbol.occurrences
+      .filter(
+        occurrence =>
+          includeDeclaration ||
+          !symbol.declarations.some(declaration => sameRange(declaration, occurrence))
+      )
+      .map(occurrence =>
+        Location.create(
+          document.uri,
+          Range.create(
+            occurrence.start.line,
+            occurrence.start.column,
+            occurrence.end.line,
+            occurrence.end.column
+          )
+        )
+      );
+  }
+
+  const references: Location[] = [];
+  const parser = new DatFileParser(document.getText());
+  const currentSection = parser.getSectionAtPosition(position.line);
+  const lineText = getLineText(document, position.line);
+
+  // Include definition if requested
+  if (includeDeclaration) {
+    const definition = findDefinition(document, word, lineText, currentSection, parser);
+    if (definition) {
+      references.push(definition);
+    }
+  }
+
+  // Find references based on context
+  if (isEntityId(lineText)) {
+    references.push(...findEntityReferences(document, word, parser));
+  } else if (isEventName(lineText)) {
+    references.push(...findEventReferences(document, word, parser));
+  } else if (isVariableName(lineText)) {
+    references.push(...findVariableReferences(document, word, parser));
+  } else if (isSectionName(word)) {
+    references.push(...findSectionReferences(document, word));
+  }
+
+  return references;
+}
+
+function isEntityId(lineText: string): boolean {
+  return lineText.includes('ID=') || lineText.match(/(?:enable|disable|wake)\s*:\s*\w+/) !== null;
+}
+
+function isEventName(lineText: string): boolean {
+  return (
+    lineText.includes('::') ||
+    lineText.includes('))') ||
+    lineText.match(/when\s*\([^)]*\)\s*\[\w+\]/) !== null
+  );
+}
+
+function isVariableName(lineText: string): boolean {
+  return (
+    lineText.match(/(?:int|string|float|bool|timer|arrow)\s+\w+\s*=/) !== null ||
+    lineText.includes('variable:') ||
+    lineText.match(/^\s*\w+\s*=/) !== null
+  );
+}
+
+function isSectionName(word: string): boolean {
+  const sections = [
+    'comments',
+    'info',
+    'tiles',
+    'height',
+    'resources',
+    'objectives',
+    'buildings',
+    'vehicles',
+    'creatures',
+    'miners',
+    'blocks',
+    'script',
+    'briefing',
+    'briefingsuccess',
+    'briefingfailure',
+    'landslidefrequency',
+    'lavaspread',
+  ];
+  return sections.includes(word.toLowerCase());
+}
+
+function findDefinition(
+  document: TextDocument,
+  _word: string,
+  lineText: string,
+  currentSection: SectionInfo | undefined,
+  _parser: DatFileParser
+): Location | undefined {
+  // Find entity definition
+  if (lineText.includes('ID=') && currentSection) {
+    return Location.create(
+      document.uri,
+      Range.create(currentSection.startLine + 1, 0, currentSection.startLine + 1, 0)
+    );
+  }
+
+  // Find event definition
+  if (lineText.includes('::') && !lineText.includes('((') && currentSection) {
+    return Location.create(
+      document.uri,
+      Range.create(currentSection.startLine + 1, 0, currentSection.startLine + 1, 0)
+    );
+  }
+
+  // Find variable definition
+  if (lineText.match(/(?:int|string|float|bool)\s+\w+\s*=/) && currentSection) {
+    return Location.create(
+      document.uri,
+      Range.create(currentSection.startLine + 1, 0, currentSection.startLine + 1, 0)
+    );
+  }
+
+  return undefined;
+}
+
+function findEntityReferences(
+  document: TextDocument,
+  entityId: string,
+  parser: DatFileParser
+): Location[] {
+  const references: Location[] = [];
+
+  // Search in script section for enable/disable/wake commands
+  const scriptSection = parser.getSection('script');
+  if (scriptSection) {
+    const lines = scriptSection.content.split('\n');
+    for (let i = 0; i < lines.length; i++) {
+      const regex = new RegExp(`(?:enable|disable|wake)\\s*:\\s*${entityId}\\b`);
+      if (regex.test(lines[i])) {
+        const line = scriptSection.startLine + i + 1;
+        const col = lines[i].indexOf(entityId);
+        references.push(
+          Location.create(document.uri, Range.create(line, col, line, col + entityId.length))
+        );
+      }
+    }
+  }
+
+  return references;
+}
+
+function findEventReferences(
+  document: TextDocument,
+  eventName: string,
+  parser: DatFileParser
+): Location[] {
+  const references: Location[] = [];
+  const scriptSection = parser.getSection('script');
+
+  if (!scriptSection) {
+    return references;
+  }
+
+  const lines = scriptSection.content.split('\n');
+  for (let i = 0; i < lines.length; i++) {
+    // Find event calls (EventName::)
+    const callRegex = new RegExp(`${eventName}\\s*::`);
+    if (callRegex.test(lines[i]) && !lines[i].match(new RegExp(`^\\s*${eventName}\\s*::`))) {
+      const line = scriptSection.startLine + i + 1;
+      const col = lines[i].indexOf(eventName);
+      references.push(
+        Location.create(document.uri, Range.create(line, col, line, col + eventName.length))
+      );
+    }
+
+    // Find event references in when() conditions
+    const whenRegex = new RegExp(`when\\s*\\([^)]*\\)\\s*\\[${eventName}\\]`);
+    if (whenRegex.test(lines[i])) {
+      const line = scriptSection.startLine + i + 1;
+      const col = lines[i].lastIndexOf(eventName);
+      references.push(
+        Location.create(document.uri, Range.create(line, col, line, col + eventName.length))
+      );
+    }
+
+    // Find in timer declarations
+    const timerRegex = new RegExp(`timer\\s+\\w+\\s*=.*,\\s*${eventName}\\s*$`);
+    if (timerRegex.test(lines[i])) {
+      const line = scriptSection.startLine + i + 1;
+      const col = lines[i].lastIndexOf(eventName);
+      references.push(
+        Location.create(document.uri, Range.create(line, col, line, col + eventName.length))
+      );
+    }
+
+    // Find old-style event calls
+    const oldCallRegex = new RegExp(`\\)\\)\\s*${eventName}\\s*;`);
+    if (oldCallRegex.test(lines[i])) {
+      const line = scriptSection.startLine + i + 1;
+      const col = lines[i].indexOf(eventName);
+      references.push(
+        Location.create(document.uri, Range.create(line, col, line, col + eventName.length))
+      );
+    }
+
+    // Find call: command references
+    const callCommandRegex = new RegExp(`call\\s*:\\s*${eventName}\\b`);
+    if (callCommandRegex.test(lines[i])) {
+      const line = scriptSection.startLine + i + 1;
+      const col = lines[i].lastIndexOf(eventName);
+      references.push(
+        Location.create(document.uri, Range.create(line, col, line, col + eventName.length))
+      );
+    }
+  }
+
+  // Also check in visual blocks section
+  for (const block of parser.parseSection('blocks')?.blocks || []) {
+    // Check EventCallEvent blocks
+    if (
+      block.name === 'EventCallEvent' &&
+      block.parameters.function === eventName &&
+      block.line !== undefined
+    ) {
+      references.push(Location.create(document.uri, Range.create(block.line, 0, block.line, 100)));
+    }
+  }
+
+  return references;
+}
+
+function findVariableReferences(
+  document: TextDocument,
+  varName: string,
+  parser: DatFileParser
+): Location[] {
+  const references: Location[] = [];
+
+  // Search in script section
+  const scriptSection = parser.getSection('script');
+  if (scriptSection) {
+    const lines = scriptSection.content.split('\n');
+    for (let i = 0; i < lines.length; i++) {
+      // Find variable usage (simple word boundary check)
+      const regex = new RegExp(`\\b${varName}\\b`);
+      if (regex.test(lines[i])) {
+        const line = scriptSection.startLine + i + 1;
+        let col = lines[i].indexOf(varName);
+        while (col !== -1) {
+          references.push(
+            Location.create(document.uri, Range.create(line, col, line, col + varName.length))
+          );
+          col = lines[i].indexOf(varName, col + 1);
+        }
+      }
+    }
+  }
+
+  // Search in objectives section for variable references
+  const objectivesSection = parser.getSection('objectives');
+  if (objectivesSection) {
+    const lines = objectivesSection.content.split('\n');
+    for (let i = 0; i < lines.length; i++) {
+      if (lines[i].includes(`variable:${varName}`)) {
+        const line = objectivesSection.startLine + i + 1;
+        const col = lines[i].indexOf(varName);
+        references.push(
+          Location.create(document.uri, Range.create(line, col, line, col + varName.length))
+        );
+      }
+    }
+  }
+
+  return references;
+}
+
+function findSectionReferences(document: TextDocument, sectionName: string): Location[] {
+  const references: Location[] = [];
+  const lines = document.getText().split('\n');
+
+  for (let i = 0; i < lines.length; i++) {
+    // Find section references in comments or documentation
+    const regex = new RegExp(`\\b${sectionName}\\b`, 'gi');
+    let match;
+    while ((match = regex.exec(lines[i])) !== null) {
+      references.push(
+        Location.create(
+          document.uri,
+          Range.create(i, match.index, i, match.index + sectionName.length)
+        )
+      );
+    }
+  }
+
+  return references;
+}
+
+function sameRange(a: SourceRange, b: SourceRange): boolean {
+  return a.start.line === b.start.line && a.start.column === b.start.column;
+}
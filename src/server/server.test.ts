@@ -0,0 +1,172 @@
+import { PassThrough } from 'stream';
+import {
+  CompletionItem,
+  CompletionItemKind,
+  CompletionRequest,
+  createConnection,
+  createMessageConnection,
+  DefinitionRequest,
+  DidCloseTextDocumentNotification,
+  DidOpenTextDocumentNotification,
+  Hover,
+  HoverRequest,
+  InitializeRequest,
+  InitializedNotification,
+  Location,
+  MarkupContent,
+  MessageConnection,
+  PublishDiagnosticsNotification,
+  PublishDiagnosticsParams,
+  ReferencesRequest,
+  StreamMessageReader,
+  StreamMessageWriter,
+} from 'vscode-languageserver/node';
+import { startServer } from './server';
+
+describe('language server', () => {
+  const uri = 'file:///maps/level.dat';
+  const text = [
+    'info{',
+    'rowcount:2',
+    'colcount:3',
+    '}',
+    'tiles{',
+    '1,42,999,',
+    '38,38,38,',
+    '}',
+    'script{',
+    'int Count=0',
+    'Start::',
+    'Count+=1;',
+    'when(init)[Start]',
+    '}',
+  ].join('\n');
+
+  let client: MessageConnection;
+  let diagnostics: PublishDiagnosticsParams[];
+  let onDiagnostics: (() => void) | undefined;
+
+  const nextDiagnostics = () =>
+    new Promise<PublishDiagnosticsParams>(resolve => {
+      onDiagnostics = () => resolve(diagnostics[diagnostics.length - 1]);
+    });
+
+  beforeAll(async () => {
+    // The server and the test talk over a pair of in-memory pipes
+    const toServer = new PassThrough();
+    const fromServer = new PassThrough();
+    startServer(createConnection(toServer, fromServer), '/extension');
+
+    client = createMessageConnection(
+      new StreamMessageReader(fromServer),
+      new StreamMessageWriter(toServer)
+    );
+    client.onNotification(PublishDiagnosticsNotification.type, params => {
+      diagnostics.push(params);
+      onDiagnostics?.();
+    });
+    client.listen();
+
+    await client.sendRequest(InitializeRequest.type, {
+      processId: null,
+      rootUri: null,
+      capabilities: {},
+    });
+    await client.sendNotification(InitializedNotification.type, {});
+  });
+
+  beforeEach(async () => {
+    diagnostics = [];
+    const published = nextDiagnostics();
+    await client.sendNotification(DidOpenTextDocumentNotification.type, {
+      textDocument: { uri, languageId: 'manicminers', version: 1, text },
+    });
+    await published;
+  });
+
+  afterEach(async () => {
+    const cleared = nextDiagnostics();
+    await client.sendNotification(DidCloseTextDocumentNotification.type, {
+      textDocument: { uri },
+    });
+    await cleared;
+  });
+
+  afterAll(() => {
+    client.dispose();
+  });
+
+  it('should publish map validation problems for opened documents', () => {
+    const [published] = diagnostics;
+
+    expect(published.uri).toBe(uri);
+    const invalidTile = published.diagnostics.find(d => d.code === 'invalid-tile-id');
+    expect(invalidTile).toMatchObject({
+      range: { start: { line: 5, character: 5 }, end: { line: 5, character: 8 } },
+      severity: 1,
+      source: 'Manic Miners Validator',
+    });
+  });
+
+  it('should clear diagnostics when a document closes', async () => {
+    const cleared = nextDiagnostics();
+    await client.sendNotification(DidCloseTextDocumentNotification.type, {
+      textDocument: { uri },
+    });
+
+    expect((await cleared).diagnostics).toEqual([]);
+
+    // Reopen for afterEach
+    const published = nextDiagnostics();
+    await client.sendNotification(DidOpenTextDocumentNotification.type, {
+      textDocument: { uri, languageId: 'manicminers', version: 2, text },
+    });
+    await published;
+  });
+
+  it('should complete info fields as snippets', async () => {
+    const items = (await client.sendRequest(CompletionRequest.type, {
+      textDocument: { uri },
+      position: { line: 1, character: 0 },
+    })) as CompletionItem[];
+
+    const biome = items.find(item => item.label === 'biome');
+    expect(biome).toMatchObject({
+      kind: CompletionItemKind.Field,
+      insertText: 'biome:$0',
+      insertTextFormat: 2,
+    });
+  });
+
+  it('should answer hovers with markdown and link tile images under the extension path', async () => {
+    const hover = (await client.sendRequest(HoverRequest.type, {
+      textDocument: { uri },
+      position: { line: 5, character: 3 },
+    })) as Hover;
+
+    const contents = hover.contents as MarkupContent;
+    expect(contents.kind).toBe('markdown');
+    expect(contents.value).toContain('Tile 42');
+    expect(contents.value).toContain('file:///extension/images/resources/crystal_energy.png');
+  });
+
+  it('should find definitions and references of script names', async () => {
+    const definition = (await client.sendRequest(DefinitionRequest.type, {
+      textDocument: { uri },
+      position: { line: 12, character: 12 },
+    })) as Location;
+    expect(definition).toEqual({
+      uri,
+      range: { start: { line: 10, character: 0 }, end: { line: 10, character: 5 } },
+    });
+
+    const references = (await client.sendRequest(ReferencesRequest.type, {
+      textDocument: { uri },
+      position: { line: 9, character: 5 },
+      context: { includeDeclaration: false },
+    })) as Location[];
+    expect(references.map(reference => reference.range.start)).toEqual([
+      { line: 11, character: 0 },
+    ]);
+  });
+});
@@ -0,0 +1,108 @@
+#!/usr/bin/env node
+/**
+ * Language server for Manic Miners .dat files. The extension starts it over
+ * IPC; other editors run `manic-language-server --stdio`.
+ */
+import * as path from 'path';
+import {
+  Connection,
+  createConnection,
+  ProposedFeatures,
+  TextDocuments,
+  TextDocumentSyncKind,
+} from 'vscode-languageserver/node';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { getCompletionItems } from './completion';
+import { getDefinition } from './definition';
+import { getDiagnostics } from './diagnostics';
+import { getHover } from './hover';
+import { VALIDATION_INFO_NOTIFICATION, ValidationInfoParams } from './protocol';
+import { getReferences } from './references';
+
+// Wait for typing to pause before validating
+const VALIDATION_DELAY = 500;
+
+/**
+ * Answer .dat language requests on a connection. Tile images in hovers are
+ * looked up under extensionPath, the extension root by default.
+ */
+export function startServer(
+  connection: Connection,
+  extensionPath = path.join(__dirname, '..', '..')
+): void {
+  const documents = new TextDocuments(TextDocument);
+  const validationTimers = new Map<string, NodeJS.Timeout>();
+
+  const validate = async (document: TextDocument): Promise<void> => {
+    try {
+      const { diagnostics, info } = await getDiagnostics(document);
+      // Skip results for a document closed while validating
+      if (!documents.get(document.uri)) {
+        return;
+      }
+      connection.sendDiagnostics({ uri: document.uri, version: document.version, diagnostics });
+      if (info.length > 0) {
+        const params: ValidationInfoParams = { uri: document.uri, message: info.join(' | ') };
+        connection.sendNotification(VALIDATION_INFO_NOTIFICATION, params);
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      connection.console.error(`Failed to validate ${document.uri}: ${errorMessage}`);
+    }
+  };
+
+  connection.onInitialize(() => ({
+    capabilities: {
+      textDocumentSync: TextDocumentSyncKind.Incremental,
+      completionProvider: { triggerCharacters: [' '] },
+      hoverProvider: true,
+      definitionProvider: true,
+      referencesProvider: true,
+    },
+  }));
+
+  documents.onDidChangeContent(({ document }) => {
+    clearTimeout(validationTimers.get(document.uri));
+    validationTimers.set(
+      document.uri,
+      setTimeout(() => {
+        validationTimers.delete(document.uri);
+        validate(document);
+      }, VALIDATION_DELAY)
+    );
+  });
+
+  documents.onDidClose(({ document }) => {
+    clearTimeout(validationTimers.get(document.uri));
+    validationTimers.delete(document.uri);
+    connection.sendDiagnostics({ uri: document.uri, diagnostics: [] });
+  });
+
+  connection.onCompletion(({ textDocument, position }) => {
+    const document = documents.get(textDocument.uri);
+    return document ? getCompletionItems(document, position) : [];
+  });
+
+  connection.onHover(({ textDocument, position }) => {
+    const document = documents.get(textDocument.uri);
+    return document ? getHover(document, position, extensionPath) : undefined;
+  });
+
+  connection.onDefinition(({ textDocument, position }) => {
+    const document = documents.get(textDocument.uri);
+    return document ? getDefinition(document, position) : undefined;
+  });
+
+  connection.onReferences(({ textDocument, position, context }) => {
+    const document = documents.get(textDocument.uri);
+    return document ? getReferences(document, position, context.includeDeclaration) : [];
+  });
+
+  documents.listen(connection);
+  connection.listen();
+}
+
+if (require.main === module) {
+  // The transport (--stdio, --node-ipc or --socket) comes from the command line
+  startServer(createConnection(ProposedFeatures.all));
+}
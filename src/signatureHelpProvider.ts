@@ -0,0 +1,319 @@
+import * as vscode from 'vscode';
+import { TILE_DEFINITIONS } from './data/tileDefinitions';
+import { DatCstParser } from './parser/datCstParser';
+import { walkScript } from './parser/scriptParser';
+import { getScriptSymbols } from './parser/scriptSymbols';
+import { EVENT_BLOCKS, getBlockParameterKind, TRIGGER_BLOCKS } from './parser/visualBlocksParser';
+import { ScriptVariableType } from './types/scriptAstTypes';
+import { CREATURE_TYPES, SCRIPT_COMMANDS } from './validation/scriptCommands';
+
+/**
+ * One parameter of a signature, as a [start, end) span of its label
+ */
+export interface DatSignatureParameter {
+  label: [number, number];
+  documentation: string;
+}
+
+/**
+ * Parameter hints for the command or block being typed
+ */
+export interface DatSignatureHelp {
+  label: string;
+  documentation: string;
+  parameters: DatSignatureParameter[];
+  activeParameter: number;
+}
+
+const DIRECTIONS = '`N`, `S`, `E`, `W`, or `A` to pick automatically';
+
+// From docs/game-reference/scripting/visual-blocks.md
+const BLOCK_PARAMETER_DOCS: Record<string, string> = {
+  name: 'Name the text script calls this block by',
+  cooldown: '`number` - minimum seconds between triggers',
+  delay: '`number` - seconds to wait',
+  max: '`number` - longest random interval in seconds',
+  min: '`number` - shortest random interval in seconds',
+  miners: '`true` or `false` - fire for Rock Raiders',
+  vehicles: '`true` or `false` - fire for vehicles',
+  radius: '`number` - how far to search for a wall',
+  anywhere: '`true` to flee to a random edge, `false` for this tile',
+  maxTime: '`number` - longest time between waves in seconds',
+  minTime: '`number` - shortest time between waves in seconds',
+  maxWave: '`int` - most creatures in a wave',
+  minWave: '`int` - fewest creatures in a wave',
+  maxSpawn: '`int` - most creatures spawned',
+  minSpawn: '`int` - fewest creatures spawned',
+};
+
+// Names the script and blocks declare, offered where a parameter takes one
+interface DeclaredNames {
+  variables: Map<string, ScriptVariableType>;
+  timers: string[];
+  eventChains: string[];
+}
+
+/**
+ * Signature of the script command or block line the cursor is in the
+ * arguments of, with the parameter being typed active
+ */
+export function getDatSignatureHelp(
+  text: string,
+  line: number,
+  column: number
+): DatSignatureHelp | undefined {
+  const parser = new DatCstParser(text);
+  const section = parser
+    .getDocument()
+    .sections.find(
+      candidate => line > candidate.range.start.line && line <= candidate.range.end.line
+    );
+  const prefix = (text.split(/\r?\n/)[line] ?? '').slice(0, column);
+
+  if (section?.name.value === 'script') {
+    // The statement being typed starts after the last ';'
+    const statement = prefix.slice(prefix.lastIndexOf(';') + 1).trim();
+    const match = statement.match(/^~?(\w+):(.*)$/);
+    const command = match && SCRIPT_COMMANDS[match[1].toLowerCase()];
+    if (!match || !command) {
+      return undefined;
+    }
+    const names = command.params.format
+      ? command.params.format.split(',')
+      : command.params.max
+        ? [command.params.description]
+        : [];
+    const declared = getDeclaredNames(parser);
+    return buildSignature(
+      `${command.name}:`,
+      names,
+      names.map(name => describeCommandParameter(name, declared)),
+      command.description,
+      countArguments(match[2])
+    );
+  }
+
+  if (section?.name.value === 'blocks') {
+    const match = prefix.trim().match(/^\d+\/(\w+):(.*)$/);
+    const blockDefs = { ...TRIGGER_BLOCKS, ...EVENT_BLOCKS } as Record<
+      string,
+      { params: readonly string[]; description: string }
+    >;
+    const block = match && blockDefs[match[1]];
+    if (!match || !block) {
+      return undefined;
+    }
+    const declared = getDeclaredNames(parser);
+    return buildSignature(
+      `${match[1]}:`,
+      [...block.params],
+      block.params.map(name => describeBlockParameter(name, declared)),
+      block.description,
+      countArguments(match[2])
+    );
+  }
+
+  return undefined;
+}
+
+export class DatSignatureHelpProvider implements vscode.SignatureHelpProvider {
+  provideSignatureHelp(
+    document: vscode.TextDocument,
+    position: vscode.Position,
+    _token: vscode.CancellationToken,
+    _context: vscode.SignatureHelpContext
+  ): vscode.ProviderResult<vscode.SignatureHelp> {
+    const help = getDatSignatureHelp(document.getText(), position.line, position.character);
+    if (!help) {
+      return undefined;
+    }
+
+    const signature = new vscode.SignatureInformation(
+      help.label,
+      new vscode.MarkdownString(help.documentation)
+    );
+    signature.parameters = help.parameters.map(
+      parameter =>
+        new vscode.ParameterInformation(
+          parameter.label,
+          new vscode.MarkdownString(parameter.documentation)
+        )
+    );
+
+    const signatureHelp = new vscode.SignatureHelp();
+    signatureHelp.signatures = [signature];
+    signatureHelp.activeSignature = 0;
+    signatureHelp.activeParameter = help.activeParameter;
+    return signatureHelp;
+  }
+}
+
+function buildSignature(
+  head: string,
+  names: string[],
+  documentation: string[],
+  description: string,
+  argumentIndex: number
+): DatSignatureHelp {
+  let label = head;
+  const parameters = names.map((name, index) => {
+    if (index > 0) {
+      label += ',';
+    }
+    const start = label.length;
+    label += name;
+    return {
+      label: [start, label.length] as [number, number],
+      documentation: documentation[index],
+    };
+  });
+
+  return {
+    label,
+    documentation: description,
+    parameters,
+    // Extra arguments stay on the last parameter
+    activeParameter: Math.min(argumentIndex, Math.max(parameters.length - 1, 0)),
+  };
+}
+
+/**
+ * Index of the argument being typed: the commas before the cursor, not
+ * counting those inside quoted text
+ */
+function countArguments(text: string): number {
+  let count = 0;
+  let quoted = false;
+  for (const char of text) {
+    if (char === '"') {
+      quoted = !quoted;
+    } else if (char === ',' && !quoted) {
+      count++;
+    }
+  }
+  return count;
+}
+
+function getDeclaredNames(parser: DatCstParser): DeclaredNames {
+  const variables = new Map<string, ScriptVariableType>();
+  const script = parser.toDatFile().script;
+  if (script) {
+    walkScript(script, node => {
+      if (node.kind === 'variable') {
+        variables.set(node.name.name, node.varType.value);
+      }
+    });
+  }
+
+  const timers: string[] = [];
+  const eventChains: string[] = [];
+  for (const symbol of getScriptSymbols(parser).values()) {
+    if (symbol.kind === 'timer') {
+      timers.push(symbol.name);
+    } else if (symbol.kind === 'eventChain') {
+      eventChains.push(symbol.name);
+    }
+  }
+
+  return { variables, timers, eventChains };
+}
+
+/**
+ * Describe a script command parameter from its name in the command format,
+ * or from the parameter description of single-argument commands
+ */
+function describeCommandParameter(name: string, declared: DeclaredNames): string {
+  const key = name.toLowerCase();
+  const variablesOf = (...types: ScriptVariableType[]) =>
+    [...declared.variables]
+      .filter(([, type]) => types.includes(type))
+      .map(([variable]) => variable);
+
+  if (/^(row|r\d)$/.test(key)) {
+    return '`int` - tile row, counted from 0 at the top';
+  }
+  if (/^(col|c\d)$/.test(key)) {
+    return '`int` - tile column, counted from 0 at the left';
+  }
+  if (key === 'direction') {
+    return `Wall to emerge from: ${DIRECTIONS}`;
+  }
+  if (key === 'tileid') {
+    return describeTileIds();
+  }
+  if (key === 'height') {
+    return '`int` - rubble height, from `1` to `4`';
+  }
+  if (key === 'creaturetype' || key === 'creature type') {
+    return describeValues('Creature type', CREATURE_TYPES);
+  }
+  if (key.includes('arrow')) {
+    return describeValues('`arrow` variable', variablesOf('arrow'));
+  }
+  if (key.includes('timer')) {
+    return describeValues('`timer` variable', declared.timers);
+  }
+  if (key === 'creaturevar' || key.startsWith('creature variable')) {
+    return describeValues('`creature` variable', variablesOf('creature'));
+  }
+  for (const type of ['miner', 'vehicle', 'building'] as const) {
+    if (key.startsWith(`${type} variable`)) {
+      return describeValues(`\`${type}\` variable`, variablesOf(type));
+    }
+  }
+  if (key === 'objectvariable' || key === 'object variable') {
+    return describeValues(
+      '`miner`, `vehicle`, `creature` or `building` variable',
+      variablesOf('miner', 'vehicle', 'creature', 'building')
+    );
+  }
+  if (key.includes('string variable') || key.includes('text variable')) {
+    return describeValues('`string` variable', variablesOf('string'));
+  }
+  if (key === 'audiofile' || key.startsWith('sound file')) {
+    return 'Sound file name, without `.ogg`';
+  }
+  if (key.includes('message')) {
+    return `\`string\` - ${name}`;
+  }
+  if (/amount|count|radius|time|seconds|speed|intensity|duration|^min$|^max$/.test(key)) {
+    return `\`number\` - ${name}`;
+  }
+  return name;
+}
+
+/**
+ * Describe a block parameter from its name and the kind of value it holds
+ */
+function describeBlockParameter(name: string, declared: DeclaredNames): string {
+  if (name === 'row' || name === 'col') {
+    return describeCommandParameter(name, declared);
+  }
+  if (name === 'direction') {
+    return `Wall to emerge from: ${DIRECTIONS}`;
+  }
+  if (name === 'type' || name === 'creature') {
+    return describeValues('Creature type', CREATURE_TYPES);
+  }
+  if (name === 'tileID') {
+    return describeTileIds();
+  }
+  if (name === 'function') {
+    return describeValues('Event chain to call', declared.eventChains);
+  }
+  if (name in BLOCK_PARAMETER_DOCS) {
+    return BLOCK_PARAMETER_DOCS[name];
+  }
+  return getBlockParameterKind(name) === 'boolean' ? '`true` or `false`' : `\`${name}\``;
+}
+
+function describeValues(what: string, values: readonly string[]): string {
+  return values.length > 0 ? `${what}: ${values.map(value => `\`${value}\``).join(', ')}` : what;
+}
+
+function describeTileIds(): string {
+  const tiles = [...TILE_DEFINITIONS.values()]
+    .sort((a, b) => a.id - b.id)
+    .map(tile => `\`${tile.id}\` ${tile.name}`);
+  return `\`int\` - tile ID: ${tiles.join(', ')}`;
+}
@@ -0,0 +1,148 @@
+import { BuildingType, DatFile, Entity, Objective } from '../types/datFileTypes';
+import { EconomyEstimator, formatDuration } from './economyEstimator';
+
+describe('EconomyEstimator', () => {
+  const at = (type: string, row: number, col: number): Entity => ({
+    type,
+    coordinates: {
+      translation: { x: col * 300 + 150, y: row * 300 + 150, z: 0 },
+      rotation: { p: 0, y: 0, r: 0 },
+      scale: { x: 1, y: 1, z: 1 },
+    },
+  });
+
+  // Tool Store at the west end, dirt then a crystal seam (5) to the east and
+  // an ore seam (3) behind the crystals
+  function createLevel(objectives: Objective[], overrides: Partial<DatFile> = {}): DatFile {
+    return {
+      info: { rowcount: 2, colcount: 5, initialore: 5 },
+      tiles: [
+        [1, 1, 1, 26, 42],
+        [38, 38, 38, 38, 46],
+      ],
+      height: [],
+      buildings: [at(BuildingType.ToolStore, 0, 0)],
+      miners: [at('Pilot', 0, 1)],
+      objectives,
+      ...overrides,
+    };
+  }
+
+  it('should estimate hauling each crystal from the nearest seam', () => {
+    const estimate = new EconomyEstimator(
+      createLevel([{ type: 'resources', crystals: 3, ore: 0, studs: 0 }])
+    ).estimate();
+
+    // Drilling in takes 24s and 4 steps back; two more loads walk 8s each
+    expect(estimate.objectives[0]).toEqual(
+      expect.objectContaining({ description: 'Collect 3 crystals', seconds: 44 })
+    );
+    expect(estimate.totalSeconds).toBe(44);
+    expect(estimate.available).toEqual({ crystals: 5, ore: 8, studs: 0 });
+    expect(estimate.issues).toEqual([]);
+  });
+
+  it('should share trips between miners', () => {
+    const estimate = new EconomyEstimator(
+      createLevel([{ type: 'resources', crystals: 3, ore: 0, studs: 0 }], {
+        miners: [at('Pilot', 0, 1), at('Pilot', 0, 2)],
+      })
+    ).estimate();
+
+    expect(estimate.miners).toBe(2);
+    expect(estimate.objectives[0].seconds).toBe(28);
+  });
+
+  it('should add missing prerequisites and build time to building objectives', () => {
+    const estimate = new EconomyEstimator(
+      createLevel([
+        { type: 'building', building: BuildingType.TeleportPad },
+        { type: 'building', building: BuildingType.PowerStation },
+      ])
+    ).estimate();
+
+    // 3 ore beyond the starting 5 for the Teleport Pad, then 30s to build it
+    expect(estimate.objectives[0]).toEqual(
+      expect.objectContaining({
+        description: 'Build Teleport Pad',
+        required: { crystals: 0, ore: 3, studs: 0 },
+        seconds: 95,
+      })
+    );
+    expect(estimate.objectives[1].seconds).toBeUndefined();
+    expect(estimate.totalSeconds).toBeUndefined();
+    expect(estimate.issues).toEqual([
+      { kind: 'resources', message: 'Build Power Station: 20 ore needed, 8 available' },
+    ]);
+  });
+
+  it('should not count resources the miners cannot drill to', () => {
+    const estimate = new EconomyEstimator(
+      createLevel([{ type: 'resources', crystals: 3, ore: 0, studs: 0 }], {
+        tiles: [
+          [1, 1, 1, 38, 42],
+          [38, 38, 38, 38, 46],
+        ],
+      })
+    ).estimate();
+
+    expect(estimate.unreachable).toEqual({ crystals: 5, ore: 3, studs: 0 });
+    expect(estimate.issues).toEqual([
+      { kind: 'resources', message: 'Collect 3 crystals: 3 crystals needed, 0 available' },
+    ]);
+  });
+
+  it('should only warn about resources that vehicles could still reach', () => {
+    const estimate = new EconomyEstimator(
+      createLevel([{ type: 'resources', crystals: 3, ore: 0, studs: 0 }], {
+        tiles: [
+          [1, 1, 11, 1, 42],
+          [38, 38, 11, 38, 46],
+        ],
+      })
+    ).estimate();
+
+    expect(estimate.unreachable).toEqual({ crystals: 5, ore: 3, studs: 0 });
+    expect(estimate.issues).toEqual([
+      {
+        kind: 'estimate',
+        message:
+          "Collect 3 crystals: 3 crystals needed, 0 available; more lies out of the miners' reach, where vehicles may get to it",
+      },
+    ]);
+  });
+
+  it('should report objectives without a Tool Store to haul to', () => {
+    const estimate = new EconomyEstimator(
+      createLevel([{ type: 'resources', crystals: 3, ore: 0, studs: 0 }], { buildings: [] })
+    ).estimate();
+
+    expect(estimate.issues).toEqual([
+      { kind: 'toolStore', message: 'Collect 3 crystals: No Tool Store to haul resources to' },
+    ]);
+  });
+
+  it('should flag levels whose air runs out first', () => {
+    const level = createLevel([{ type: 'resources', crystals: 3, ore: 0, studs: 0 }]);
+    level.info.oxygen = 30;
+
+    const estimate = new EconomyEstimator(level).estimate();
+
+    expect(estimate.oxygen).toEqual({ air: 30, seconds: 30, sufficient: false });
+    expect(estimate.issues).toEqual([
+      {
+        kind: 'estimate',
+        message: 'Air runs out after about 0:30, but the objectives need about 0:44',
+      },
+    ]);
+
+    // A Support Station keeps the air topped up
+    level.buildings!.push(at(BuildingType.SupportStation, 0, 1));
+    expect(new EconomyEstimator(level).estimate().oxygen).toBeUndefined();
+  });
+
+  it('should format durations as minutes and seconds', () => {
+    expect(formatDuration(95)).toBe('1:35');
+    expect(formatDuration(0)).toBe('0:00');
+  });
+});
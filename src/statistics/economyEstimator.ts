@@ -0,0 +1,539 @@
+/**
+ * Economy and completion-time estimator
+ * Models miners drilling seams and hauling their yield to the Tool Store to
+ * estimate how soon resource and building objectives can be met
+ */
+
+import { getTileResourceYield } from '../data/advancedTileDefinitions';
+import {
+  getMovementProfile,
+  MOVEMENT_PROFILES,
+  MovementProfile,
+} from '../heatmap/movementProfiles';
+import { PathfindingAnalyzer } from '../heatmap/pathfindingAnalyzer';
+import { TILE_WORLD_SIZE } from '../mapEditor/entityLayer';
+import {
+  BuildingObjective,
+  BuildingType,
+  DatFile,
+  Entity,
+  ResourceObjective,
+} from '../types/datFileTypes';
+
+export interface ResourceAmounts {
+  crystals: number;
+  ore: number;
+  studs: number;
+}
+
+export interface ResourceSource {
+  row: number;
+  col: number;
+  yield: ResourceAmounts;
+  // Seconds to walk and drill from the Tool Store to the tile, drilling it included
+  reachCost: number;
+  // Tiles walked back to the Tool Store with each load
+  haulSteps: number;
+  // Whether some vehicle can get to the tile, across water or lava if need be
+  vehicleReachable: boolean;
+}
+
+export interface ObjectiveEstimate {
+  objective: ResourceObjective | BuildingObjective;
+  description: string;
+  // Still to collect after the starting stock, building costs included
+  required: ResourceAmounts;
+  // Estimated minimum seconds; undefined when the objective cannot be met
+  seconds?: number;
+  problem?: string;
+}
+
+export interface OxygenEstimate {
+  air: number;
+  // Seconds until the miners use up the air
+  seconds: number;
+  // False when the air runs out before the objectives can be met
+  sufficient: boolean;
+}
+
+export interface EconomyIssue {
+  // 'resources' when the map cannot pay for the objectives, 'estimate' when the
+  // finding rests on estimated costs or timings or on resources only vehicles
+  // can reach, 'toolStore' when there is nowhere to haul to
+  kind: 'resources' | 'estimate' | 'toolStore';
+  message: string;
+}
+
+export interface EconomyEstimate {
+  // Miners working in parallel; at least one, teleported in when the map has none
+  miners: number;
+  toolStore?: { row: number; col: number };
+  // Starting stock plus everything the miners can reach
+  available: ResourceAmounts;
+  // Yields the miners cannot drill their way to
+  unreachable: ResourceAmounts;
+  objectives: ObjectiveEstimate[];
+  // All resource and building objectives together
+  totalSeconds?: number;
+  oxygen?: OxygenEstimate;
+  // Reasons the level cannot be won
+  issues: EconomyIssue[];
+}
+
+interface BuildingCost {
+  name: string;
+  crystals: number;
+  ore: number;
+  // Building that has to stand before this one can be placed
+  requires?: BuildingType;
+}
+
+// Approximate costs and build order, following Rock Raiders
+export const BUILDING_COSTS: Record<BuildingType, BuildingCost> = {
+  [BuildingType.ToolStore]: { name: 'Tool Store', crystals: 0, ore: 5 },
+  [BuildingType.TeleportPad]: {
+    name: 'Teleport Pad',
+    crystals: 0,
+    ore: 8,
+    requires: BuildingType.ToolStore,
+  },
+  [BuildingType.PowerStation]: {
+    name: 'Power Station',
+    crystals: 2,
+    ore: 12,
+    requires: BuildingType.TeleportPad,
+  },
+  [BuildingType.Docks]: {
+    name: 'Docks',
+    crystals: 1,
+    ore: 8,
+    requires: BuildingType.PowerStation,
+  },
+  [BuildingType.SupportStation]: {
+    name: 'Support Station',
+    crystals: 3,
+    ore: 15,
+    requires: BuildingType.PowerStation,
+  },
+  [BuildingType.UpgradeStation]: {
+    name: 'Upgrade Station',
+    crystals: 3,
+    ore: 20,
+    requires: BuildingType.PowerStation,
+  },
+  [BuildingType.GeologicalCenter]: {
+    name: 'Geological Center',
+    crystals: 3,
+    ore: 15,
+    requires: BuildingType.PowerStation,
+  },
+  [BuildingType.OreRefinery]: {
+    name: 'Ore Refinery',
+    crystals: 3,
+    ore: 20,
+    requires: BuildingType.PowerStation,
+  },
+  [BuildingType.Canteen]: {
+    name: 'Canteen',
+    crystals: 1,
+    ore: 10,
+    requires: BuildingType.PowerStation,
+  },
+  [BuildingType.MiningLaser]: {
+    name: 'Mining Laser',
+    crystals: 1,
+    ore: 15,
+    requires: BuildingType.PowerStation,
+  },
+  [BuildingType.SuperTeleport]: {
+    name: 'Super Teleport',
+    crystals: 4,
+    ore: 20,
+    requires: BuildingType.SupportStation,
+  },
+  [BuildingType.ElectricFence]: {
+    name: 'Electric Fence',
+    crystals: 0,
+    ore: 1,
+    requires: BuildingType.PowerStation,
+  },
+};
+
+// Seconds to construct a building once its resources are in
+const BUILD_SECONDS = 30;
+// Air each miner breathes per second
+const AIR_PER_MINER_SECOND = 1;
+// Ore refined into one stud when the map does not yield enough studs
+const ORE_PER_STUD = 5;
+
+const RESOURCE_NAMES: Array<keyof ResourceAmounts> = ['crystals', 'ore', 'studs'];
+
+// Everything any vehicle can do at once, for what the player could reach at best
+const VEHICLES = MOVEMENT_PROFILES.filter(profile => profile.group === 'Vehicles');
+const ANY_VEHICLE: MovementProfile = {
+  id: 'anyVehicle',
+  name: 'Any vehicle',
+  group: 'Vehicles',
+  land: VEHICLES.some(profile => profile.land),
+  water: VEHICLES.some(profile => profile.water),
+  lava: VEHICLES.some(profile => profile.lava),
+  drillHardness: Math.max(...VEHICLES.map(profile => profile.drillHardness)),
+  drillSpeed: Math.max(...VEHICLES.map(profile => profile.drillSpeed)),
+};
+
+/**
+ * Estimates how long the objectives take with the miners and resources on the
+ * map. Each miner carries one crystal or ore at a time, drills its way to the
+ * nearest seams first and works in parallel with the others; drilled paths
+ * are not shared, so estimates err on the long side for clustered seams.
+ */
+export class EconomyEstimator {
+  private datFile: DatFile;
+  private rowCount: number;
+  private colCount: number;
+
+  constructor(datFile: DatFile) {
+    this.datFile = datFile;
+    this.rowCount = datFile.tiles?.length || 0;
+    this.colCount = datFile.tiles?.[0]?.length || 0;
+  }
+
+  /**
+   * Estimate each resource and building objective and the air supply
+   */
+  public estimate(): EconomyEstimate {
+    const issues: EconomyIssue[] = [];
+    const miners = Math.max(1, this.datFile.miners?.length || 0);
+
+    const toolStores = this.findBuildings(BuildingType.ToolStore);
+    const sources = toolStores.length > 0 ? this.findSources(toolStores) : [];
+
+    const stock: ResourceAmounts = {
+      crystals: this.datFile.info?.initialcrystals || 0,
+      ore: this.datFile.info?.initialore || 0,
+      studs: 0,
+    };
+    const available = { ...stock };
+    const unreachable: ResourceAmounts = { crystals: 0, ore: 0, studs: 0 };
+    for (const source of sources) {
+      const target = Number.isFinite(source.reachCost) ? available : unreachable;
+      for (const resource of RESOURCE_NAMES) {
+        target[resource] += source.yield[resource];
+      }
+    }
+    const reachable = sources.filter(source => Number.isFinite(source.reachCost));
+    // Miners cannot cross water or lava but vehicles can, so a shortfall that
+    // vehicles could make up is an estimate rather than a dead end
+    const anyUnit = { ...available };
+    for (const source of sources) {
+      if (!Number.isFinite(source.reachCost) && source.vehicleReachable) {
+        for (const resource of RESOURCE_NAMES) {
+          anyUnit[resource] += source.yield[resource];
+        }
+      }
+    }
+    const shortKind = (needs: ResourceAmounts): EconomyIssue['kind'] =>
+      this.findShortfalls(needs, stock, anyUnit).length > 0 ? 'resources' : 'estimate';
+    const beyondMiners = "; more lies out of the miners' reach, where vehicles may get to it";
+
+    const objectives: ObjectiveEstimate[] = [];
+    const problemKinds = new Map<ObjectiveEstimate, EconomyIssue['kind']>();
+    const combinedNeeds: ResourceAmounts = { crystals: 0, ore: 0, studs: 0 };
+    const combinedBuilds = new Set<BuildingType>();
+    let feasible = toolStores.length > 0;
+
+    for (const objective of this.datFile.objectives || []) {
+      let needs: ResourceAmounts;
+      let builds: BuildingType[] = [];
+      let description: string;
+
+      if (objective.type === 'resources') {
+        needs = { crystals: objective.crystals, ore: objective.ore, studs: objective.studs };
+        description = `Collect ${RESOURCE_NAMES.filter(resource => needs[resource] > 0)
+          .map(resource => `${needs[resource]} ${resource}`)
+          .join(', ')}`;
+        for (const resource of RESOURCE_NAMES) {
+          combinedNeeds[resource] = Math.max(combinedNeeds[resource], needs[resource]);
+        }
+      } else if (objective.type === 'building') {
+        const cost = BUILDING_COSTS[objective.building];
+        description = `Build ${cost?.name ?? objective.building}`;
+        if (!cost) {
+          objectives.push({
+            objective,
+            description,
+            required: { crystals: 0, ore: 0, studs: 0 },
+            problem: `No build cost known for ${objective.building}`,
+          });
+          feasible = false;
+          continue;
+        }
+        builds = this.getBuildOrder(objective.building);
+        builds.forEach(building => combinedBuilds.add(building));
+        needs = this.getBuildCost(builds);
+      } else {
+        continue;
+      }
+
+      const estimate = this.estimateCollection(needs, stock, reachable, miners, available);
+      const objectiveEstimate: ObjectiveEstimate = {
+        objective,
+        description,
+        required: estimate.required,
+        seconds:
+          estimate.seconds !== undefined && toolStores.length > 0
+            ? estimate.seconds + builds.length * BUILD_SECONDS
+            : undefined,
+        problem: toolStores.length > 0 ? estimate.problem : 'No Tool Store to haul resources to',
+      };
+      objectives.push(objectiveEstimate);
+      problemKinds.set(objectiveEstimate, toolStores.length > 0 ? shortKind(needs) : 'toolStore');
+      if (estimate.seconds === undefined) {
+        feasible = false;
+      }
+    }
+
+    for (const estimate of objectives) {
+      if (estimate.problem) {
+        // Buildings without a known cost are not estimated at all
+        const kind =
+          problemKinds.get(estimate) ?? (toolStores.length === 0 ? 'toolStore' : 'estimate');
+        issues.push({
+          kind,
+          message:
+            `${estimate.description}: ${estimate.problem}` +
+            (kind === 'estimate' && problemKinds.has(estimate) ? beyondMiners : ''),
+        });
+      }
+    }
+
+    // Building costs come out of the same stock the resource objectives count
+    const buildCost = this.getBuildCost(Array.from(combinedBuilds));
+    for (const resource of RESOURCE_NAMES) {
+      combinedNeeds[resource] += buildCost[resource];
+    }
+    const combined = this.estimateCollection(combinedNeeds, stock, reachable, miners, available);
+    const totalSeconds =
+      feasible && objectives.length > 0 && combined.seconds !== undefined
+        ? combined.seconds + combinedBuilds.size * BUILD_SECONDS
+        : undefined;
+    if (feasible && objectives.length > 1 && combined.problem) {
+      const kind = shortKind(combinedNeeds);
+      issues.push({
+        kind,
+        message:
+          kind === 'resources'
+            ? `Objectives together need more than the map holds: ${combined.problem}`
+            : `Objectives together need more than miners can reach: ${combined.problem}${beyondMiners}`,
+      });
+    }
+
+    // Without a total, the slowest objective that can be met is still a lower bound
+    const neededSeconds =
+      totalSeconds ??
+      Math.max(
+        0,
+        ...objectives
+          .map(estimate => estimate.seconds)
+          .filter((seconds): seconds is number => seconds !== undefined)
+      );
+    const oxygen = this.estimateOxygen(miners, neededSeconds);
+    if (oxygen && !oxygen.sufficient) {
+      issues.push({
+        kind: 'estimate',
+        message: `Air runs out after about ${formatDuration(oxygen.seconds)}, but the objectives need about ${formatDuration(neededSeconds)}`,
+      });
+    }
+
+    return {
+      miners,
+      toolStore: toolStores[0],
+      available,
+      unreachable,
+      objectives,
+      totalSeconds,
+      oxygen,
+      issues,
+    };
+  }
+
+  /**
+   * Every tile that yields resources, with its route from the nearest Tool Store
+   */
+  private findSources(toolStores: { row: number; col: number }[]): ResourceSource[] {
+    const pathfinder = new PathfindingAnalyzer(getMovementProfile('drillingMiner'));
+    pathfinder.loadTiles(this.datFile.tiles);
+    const routes = pathfinder.calculateRoutes(toolStores);
+    const vehicles = new PathfindingAnalyzer(ANY_VEHICLE);
+    vehicles.loadTiles(this.datFile.tiles);
+    const vehicleCosts = vehicles.calculateRoutes(toolStores).costs;
+
+    const sources: ResourceSource[] = [];
+    for (let row = 0; row < this.rowCount; row++) {
+      for (let col = 0; col < this.colCount; col++) {
+        const tileYield = getTileResourceYield(this.datFile.tiles[row][col]);
+        const amounts: ResourceAmounts = {
+          crystals: tileYield.crystals + (this.datFile.resources?.crystals?.[row]?.[col] || 0),
+          ore: tileYield.ore + (this.datFile.resources?.ore?.[row]?.[col] || 0),
+          studs: tileYield.studs,
+        };
+        if (amounts.crystals + amounts.ore + amounts.studs === 0) {
+          continue;
+        }
+        sources.push({
+          row,
+          col,
+          yield: amounts,
+          reachCost: routes.costs[row][col],
+          haulSteps: routes.steps[row][col],
+          vehicleReachable: Number.isFinite(vehicleCosts[row][col]),
+        });
+      }
+    }
+
+    // Nearest first
+    return sources.sort((a, b) => a.reachCost - b.reachCost);
+  }
+
+  /**
+   * What the needs lack against an amount on hand, e.g. "5 crystals needed,
+   * 3 available"; empty when there is enough
+   */
+  private findShortfalls(
+    needs: ResourceAmounts,
+    stock: ResourceAmounts,
+    available: ResourceAmounts
+  ): string[] {
+    const required = Math.max(0, needs.studs - stock.studs);
+    const refinedStuds = Math.max(0, required - available.studs);
+    const oreNeeded = Math.max(0, needs.ore - stock.ore) + refinedStuds * ORE_PER_STUD;
+
+    const shortfalls: string[] = [];
+    if (needs.crystals > available.crystals) {
+      shortfalls.push(`${needs.crystals} crystals needed, ${available.crystals} available`);
+    }
+    if (oreNeeded > available.ore - stock.ore) {
+      const refined = refinedStuds > 0 ? ` (${refinedStuds} studs refined from ore)` : '';
+      shortfalls.push(`${oreNeeded + stock.ore} ore needed${refined}, ${available.ore} available`);
+    }
+    return shortfalls;
+  }
+
+  /**
+   * Time for the miners to haul what the starting stock does not cover. Each
+   * load is a trip of its own, shared out so the busiest miner finishes first.
+   */
+  private estimateCollection(
+    needs: ResourceAmounts,
+    stock: ResourceAmounts,
+    sources: ResourceSource[],
+    miners: number,
+    available: ResourceAmounts
+  ): { required: ResourceAmounts; seconds?: number; problem?: string } {
+    const required: ResourceAmounts = { crystals: 0, ore: 0, studs: 0 };
+    for (const resource of RESOURCE_NAMES) {
+      required[resource] = Math.max(0, needs[resource] - stock[resource]);
+    }
+
+    // Studs the map does not yield are refined from ore
+    const refinedStuds = Math.max(0, required.studs - available.studs);
+    const oreNeeded = required.ore + refinedStuds * ORE_PER_STUD;
+
+    const shortfalls = this.findShortfalls(needs, stock, available);
+    if (shortfalls.length > 0) {
+      return { required, problem: shortfalls.join('; ') };
+    }
+
+    const remaining: ResourceAmounts = {
+      crystals: required.crystals,
+      ore: oreNeeded,
+      studs: required.studs - refinedStuds,
+    };
+    const trips: number[] = [];
+    for (const source of sources) {
+      let loads = 0;
+      for (const resource of RESOURCE_NAMES) {
+        const taken = Math.min(remaining[resource], source.yield[resource]);
+        remaining[resource] -= taken;
+        loads += taken;
+      }
+      if (loads === 0) {
+        continue;
+      }
+      // The first trip drills the way in, later ones walk the open tunnel
+      trips.push(source.reachCost + source.haulSteps);
+      for (let load = 1; load < loads; load++) {
+        trips.push(source.haulSteps * 2);
+      }
+    }
+
+    // Longest trips first, each to the miner who is free soonest
+    const workloads = new Array<number>(miners).fill(0);
+    for (const trip of trips.sort((a, b) => b - a)) {
+      const miner = workloads.indexOf(Math.min(...workloads));
+      workloads[miner] += trip;
+    }
+    return { required, seconds: Math.ceil(Math.max(0, ...workloads)) };
+  }
+
+  /**
+   * The building and whatever it requires that is not on the map yet,
+   * in the order they have to be built
+   */
+  private getBuildOrder(building: BuildingType): BuildingType[] {
+    const order: BuildingType[] = [];
+    let next: BuildingType | undefined = building;
+    while (next && !order.includes(next) && this.findBuildings(next).length === 0) {
+      order.unshift(next);
+      next = BUILDING_COSTS[next]?.requires;
+    }
+    return order;
+  }
+
+  private getBuildCost(buildings: BuildingType[]): ResourceAmounts {
+    const cost: ResourceAmounts = { crystals: 0, ore: 0, studs: 0 };
+    for (const building of buildings) {
+      cost.crystals += BUILDING_COSTS[building]?.crystals || 0;
+      cost.ore += BUILDING_COSTS[building]?.ore || 0;
+    }
+    return cost;
+  }
+
+  /**
+   * How long the air lasts; levels with a Support Station make their own
+   */
+  private estimateOxygen(miners: number, neededSeconds: number): OxygenEstimate | undefined {
+    const air = this.datFile.info?.oxygen;
+    if (!air || this.findBuildings(BuildingType.SupportStation).length > 0) {
+      return undefined;
+    }
+
+    const seconds = Math.floor(air / (miners * AIR_PER_MINER_SECOND));
+    return { air, seconds, sufficient: neededSeconds <= seconds };
+  }
+
+  private findBuildings(type: BuildingType): { row: number; col: number }[] {
+    return (this.datFile.buildings || [])
+      .filter(building => building.type === type)
+      .map(building => this.getTile(building))
+      .filter(
+        tile =>
+          tile.row >= 0 && tile.row < this.rowCount && tile.col >= 0 && tile.col < this.colCount
+      );
+  }
+
+  private getTile(entity: Entity): { row: number; col: number } {
+    return {
+      row: Math.floor(entity.coordinates.translation.y / TILE_WORLD_SIZE),
+      col: Math.floor(entity.coordinates.translation.x / TILE_WORLD_SIZE),
+    };
+  }
+}
+
+/**
+ * Seconds as m:ss
+ */
+export function formatDuration(seconds: number): string {
+  const whole = Math.ceil(seconds);
+  return `${Math.floor(whole / 60)}:${String(whole % 60).padStart(2, '0')}`;
+}
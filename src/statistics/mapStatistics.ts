@@ -5,6 +5,7 @@
 
 import { DatFile } from '../types/datFileTypes';
 import { getAdvancedTileInfo, Hardness } from '../data/advancedTileDefinitions';
+import { EconomyEstimate, EconomyEstimator, formatDuration } from './economyEstimator';
 
 export interface TileDistribution {
   tileId: number;
@@ -28,6 +29,13 @@ export interface ResourceCluster {
   totalYield: number;
 }
 
+export interface ResourceTotals {
+  // Loose resources on the map plus the starting stock from info
+  available: { crystals: number; ore: number };
+  // Largest amount any resource objective asks for
+  required: { crystals: number; ore: number };
+}
+
 export interface AccessibilityScore {
   overallScore: number; // 0-100
   reachableArea: number; // percentage
@@ -63,8 +71,10 @@ export interface MapStatistics {
   dimensions: { width: number; height: number };
   tileDistribution: TileDistribution[];
   resourceDistribution: Map<string, ResourceDistribution>;
+  resourceTotals: ResourceTotals;
   accessibility: AccessibilityScore;
   difficulty: DifficultyEstimate;
+  economy: EconomyEstimate;
   balance: MapBalance;
   heatmaps: {
     resource: number[][];
@@ -95,8 +105,10 @@ export class MapStatisticsAnalyzer {
       dimensions: { width: this.width, height: this.height },
       tileDistribution: this.calculateTileDistribution(),
       resourceDistribution: this.analyzeResourceDistribution(),
+      resourceTotals: this.calculateResourceTotals(),
       accessibility: this.calculateAccessibility(),
       difficulty: this.estimateDifficulty(),
+      economy: new EconomyEstimator(this.datFile).estimate(),
       balance: this.analyzeBalance(),
       heatmaps: this.generateHeatmaps(),
     };
@@ -169,6 +181,31 @@ export class MapStatisticsAnalyzer {
     return distributions;
   }
 
+  /**
+   * Total the resources a player can collect against what the objectives need
+   */
+  private calculateResourceTotals(): ResourceTotals {
+    const distributions = this.analyzeResourceDistribution();
+    const required = { crystals: 0, ore: 0 };
+
+    for (const objective of this.datFile.objectives || []) {
+      if (objective.type === 'resources') {
+        required.crystals = Math.max(required.crystals, objective.crystals);
+        required.ore = Math.max(required.ore, objective.ore);
+      }
+    }
+
+    return {
+      available: {
+        crystals:
+          (distributions.get('crystals')?.totalYield || 0) +
+          (this.datFile.info?.initialcrystals || 0),
+        ore: (distributions.get('ore')?.totalYield || 0) + (this.datFile.info?.initialore || 0),
+      },
+      required,
+    };
+  }
+
   /**
    * Find resource clusters using flood fill
    */
@@ -668,6 +705,16 @@ export class MapStatisticsAnalyzer {
       suggestions.push('Simplify main paths between key areas');
     }
 
+    const totals = this.calculateResourceTotals();
+    for (const type of ['crystals', 'ore'] as const) {
+      if (totals.required[type] > totals.available[type]) {
+        issues.push(
+          `Objectives need ${totals.required[type]} ${type} but the map only has ${totals.available[type]}`
+        );
+        suggestions.push(`Paint more loose ${type} or lower the objective`);
+      }
+    }
+
     const isBalanced = issues.length === 0;
 
     return {
@@ -939,6 +986,12 @@ export class MapStatisticsAnalyzer {
     for (const [type, dist] of stats.resourceDistribution) {
       lines.push(`  ${type}: ${dist.totalYield} total (${dist.clusters.length} clusters)`);
     }
+    lines.push(
+      `  Available: ${stats.resourceTotals.available.crystals} crystals, ${stats.resourceTotals.available.ore} ore`
+    );
+    lines.push(
+      `  Objectives: ${stats.resourceTotals.required.crystals} crystals, ${stats.resourceTotals.required.ore} ore`
+    );
     lines.push('');
 
     // Accessibility
@@ -957,6 +1010,35 @@ export class MapStatisticsAnalyzer {
     });
     lines.push('');
 
+    // Economy
+    const { economy } = stats;
+    lines.push(`Economy (${economy.miners} miner${economy.miners === 1 ? '' : 's'}):`);
+    lines.push(
+      `  Reachable: ${economy.available.crystals} crystals, ${economy.available.ore} ore` +
+        (economy.unreachable.crystals + economy.unreachable.ore > 0
+          ? ` (${economy.unreachable.crystals} crystals, ${economy.unreachable.ore} ore out of reach)`
+          : '')
+    );
+    economy.objectives.forEach(estimate => {
+      lines.push(
+        `  ${estimate.description}: ${
+          estimate.seconds !== undefined
+            ? `about ${formatDuration(estimate.seconds)}`
+            : 'cannot be met'
+        }`
+      );
+    });
+    if (economy.totalSeconds !== undefined) {
+      lines.push(`  All objectives: about ${formatDuration(economy.totalSeconds)}`);
+    }
+    if (economy.oxygen) {
+      lines.push(`  Air lasts: about ${formatDuration(economy.oxygen.seconds)}`);
+    }
+    economy.issues.forEach(issue => {
+      lines.push(`  - ${issue.message}`);
+    });
+    lines.push('');
+
     // Balance
     lines.push(`Balance: ${stats.balance.isBalanced ? 'GOOD' : 'NEEDS WORK'}`);
     if (stats.balance.issues.length > 0) {
@@ -0,0 +1,318 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { TILE_WORLD_SIZE } from './mapEditor/entityLayer';
+import { DatCstParser } from './parser/datCstParser';
+import { printScriptItem } from './parser/scriptPrinter';
+import { SectionNode, SourceRange } from './types/datCstTypes';
+import { Entity } from './types/datFileTypes';
+import { entityName } from './versionControl/datDiff';
+
+export type DatSymbolKind =
+  | 'section'
+  | 'infoKey'
+  | 'building'
+  | 'vehicle'
+  | 'creature'
+  | 'miner'
+  | 'objective'
+  | 'variable'
+  | 'eventChain'
+  | 'trigger'
+  | 'block';
+
+/**
+ * A section of a level or a named thing inside one
+ */
+export interface DatSymbol {
+  name: string;
+  detail: string;
+  kind: DatSymbolKind;
+  // Whole extent of the symbol, and the part to select when it is picked
+  range: SourceRange;
+  selectionRange: SourceRange;
+  children: DatSymbol[];
+}
+
+const SYMBOL_KINDS: Record<DatSymbolKind, vscode.SymbolKind> = {
+  section: vscode.SymbolKind.Namespace,
+  infoKey: vscode.SymbolKind.Property,
+  building: vscode.SymbolKind.Struct,
+  vehicle: vscode.SymbolKind.Object,
+  creature: vscode.SymbolKind.Object,
+  miner: vscode.SymbolKind.Object,
+  objective: vscode.SymbolKind.Key,
+  variable: vscode.SymbolKind.Variable,
+  eventChain: vscode.SymbolKind.Function,
+  trigger: vscode.SymbolKind.Event,
+  block: vscode.SymbolKind.Method,
+};
+
+const ENTITY_KINDS: Record<string, DatSymbolKind> = {
+  buildings: 'building',
+  vehicles: 'vehicle',
+  creatures: 'creature',
+  miners: 'miner',
+};
+
+// Longest detail shown for info values and block parameters
+const MAX_DETAIL_LENGTH = 60;
+
+// Most results returned for one workspace symbol query
+const MAX_WORKSPACE_RESULTS = 500;
+
+/**
+ * One symbol per section, with info keys, entities, objectives, script
+ * variables, event chains, triggers and visual blocks beneath them
+ */
+export function getDatSymbols(text: string): DatSymbol[] {
+  const parser = new DatCstParser(text);
+  const script = parser.toDatFile().script;
+
+  return parser.getDocument().sections.map(section => {
+    const symbol: DatSymbol = {
+      name: section.name.value,
+      detail: describeSection(section),
+      kind: 'section',
+      range: section.range,
+      selectionRange: section.name.range,
+      children: [],
+    };
+    const child = (
+      name: string,
+      detail: string,
+      kind: DatSymbolKind,
+      range: SourceRange,
+      selectionRange: SourceRange
+    ) => symbol.children.push({ name, detail, kind, range, selectionRange, children: [] });
+
+    if (section.name.value === 'script') {
+      for (const item of script?.items || []) {
+        if (item.kind === 'variable') {
+          child(item.name.name, item.varType.value, 'variable', item.range, item.name.range);
+        } else if (item.kind === 'eventChain') {
+          const count = item.statements.length;
+          child(
+            item.name.name,
+            `${count} statement${count === 1 ? '' : 's'}`,
+            'eventChain',
+            item.range,
+            item.name.range
+          );
+        } else if (item.kind === 'trigger') {
+          // Named by what sets it off; the branch is its body
+          const name = printScriptItem({
+            ...item,
+            trueBranch: undefined,
+            falseBranch: undefined,
+          })[0];
+          child(name, '', 'trigger', item.range, item.occurrence.range);
+        }
+      }
+      return symbol;
+    }
+
+    for (const item of section.items) {
+      switch (item.kind) {
+        case 'infoEntry':
+          child(item.key.value, truncate(item.value.value), 'infoKey', item.range, item.key.range);
+          break;
+        case 'entity':
+          child(
+            item.entity ? entityName(item.entity) : item.entityType.value,
+            item.entity ? describeEntityTile(item.entity) : '',
+            ENTITY_KINDS[section.name.value] ?? 'building',
+            item.range,
+            item.entityType.range
+          );
+          break;
+        case 'objective':
+          child(
+            `${item.objectiveType.value}: ${item.body.value}`,
+            '',
+            'objective',
+            item.range,
+            item.objectiveType.range
+          );
+          break;
+        case 'block':
+          child(
+            `${item.id.value}/${item.blockType.value}`,
+            truncate(item.parameters.map(parameter => parameter.value).join(',')),
+            'block',
+            item.range,
+            item.blockType.range
+          );
+          break;
+      }
+    }
+    return symbol;
+  });
+}
+
+/**
+ * Whether a name matches a symbol search, taking the query's characters in
+ * order without regard to case, as the quick open boxes do
+ */
+export function matchesSymbolQuery(name: string, query: string): boolean {
+  const lowerName = name.toLowerCase();
+  let index = 0;
+  for (const char of query.toLowerCase()) {
+    index = lowerName.indexOf(char, index) + 1;
+    if (index === 0) {
+      return false;
+    }
+  }
+  return true;
+}
+
+export class DatDocumentSymbolProvider implements vscode.DocumentSymbolProvider {
+  provideDocumentSymbols(
+    document: vscode.TextDocument,
+    _token: vscode.CancellationToken
+  ): vscode.ProviderResult<vscode.DocumentSymbol[]> {
+    return getDatSymbols(document.getText()).map(toDocumentSymbol);
+  }
+}
+
+interface IndexedSymbol {
+  name: string;
+  kind: DatSymbolKind;
+  container: string;
+  range: SourceRange;
+}
+
+/**
+ * Symbols of every .dat file in the workspace. Files are read once, then
+ * kept current by a file watcher; open documents are re-read on the next
+ * search after they change.
+ */
+export class DatWorkspaceSymbolProvider implements vscode.WorkspaceSymbolProvider {
+  private index = new Map<string, { uri: vscode.Uri; symbols: IndexedSymbol[] }>();
+  private changedDocuments = new Map<string, vscode.TextDocument>();
+  private indexing?: Promise<void>;
+
+  public register(context: vscode.ExtensionContext): void {
+    const watcher = vscode.workspace.createFileSystemWatcher('**/*.dat');
+    context.subscriptions.push(
+      watcher,
+      watcher.onDidCreate(uri => this.indexFile(uri)),
+      watcher.onDidChange(uri => this.indexFile(uri)),
+      watcher.onDidDelete(uri => this.index.delete(uri.toString())),
+      vscode.workspace.onDidChangeTextDocument(event => {
+        if (event.document.languageId === 'manicminers' && event.document.uri.scheme === 'file') {
+          this.changedDocuments.set(event.document.uri.toString(), event.document);
+        }
+      }),
+      vscode.languages.registerWorkspaceSymbolProvider(this)
+    );
+  }
+
+  async provideWorkspaceSymbols(
+    query: string,
+    token: vscode.CancellationToken
+  ): Promise<vscode.SymbolInformation[]> {
+    this.indexing ??= this.indexWorkspace();
+    await this.indexing;
+
+    for (const [key, document] of this.changedDocuments) {
+      this.setSymbols(document.uri, document.getText());
+      this.changedDocuments.delete(key);
+    }
+
+    const results: vscode.SymbolInformation[] = [];
+    for (const { uri, symbols } of this.index.values()) {
+      for (const symbol of symbols) {
+        if (token.isCancellationRequested || results.length >= MAX_WORKSPACE_RESULTS) {
+          return results;
+        }
+        if (matchesSymbolQuery(symbol.name, query)) {
+          results.push(
+            new vscode.SymbolInformation(
+              symbol.name,
+              SYMBOL_KINDS[symbol.kind],
+              symbol.container,
+              new vscode.Location(uri, toRange(symbol.range))
+            )
+          );
+        }
+      }
+    }
+    return results;
+  }
+
+  private async indexWorkspace(): Promise<void> {
+    const files = await vscode.workspace.findFiles('**/*.dat', '**/node_modules/**');
+    for (const uri of files) {
+      await this.indexFile(uri);
+    }
+  }
+
+  private async indexFile(uri: vscode.Uri): Promise<void> {
+    try {
+      const content = await vscode.workspace.fs.readFile(uri);
+      this.setSymbols(uri, Buffer.from(content).toString('utf8'));
+    } catch {
+      // A file that cannot be read has no symbols
+      this.index.delete(uri.toString());
+    }
+  }
+
+  private setSymbols(uri: vscode.Uri, text: string) {
+    // Sections are in every level, so only what they contain is searchable
+    const fileName = path.basename(uri.fsPath);
+    const symbols = getDatSymbols(text).flatMap(section =>
+      section.children.map(symbol => ({
+        name: symbol.name,
+        kind: symbol.kind,
+        container: `${section.name} · ${fileName}`,
+        range: symbol.selectionRange,
+      }))
+    );
+    this.index.set(uri.toString(), { uri, symbols });
+  }
+}
+
+function toDocumentSymbol(symbol: DatSymbol): vscode.DocumentSymbol {
+  const documentSymbol = new vscode.DocumentSymbol(
+    symbol.name,
+    symbol.detail,
+    SYMBOL_KINDS[symbol.kind],
+    toRange(symbol.range),
+    toRange(symbol.selectionRange)
+  );
+  documentSymbol.children = symbol.children.map(toDocumentSymbol);
+  return documentSymbol;
+}
+
+function describeSection(section: SectionNode): string {
+  const count = section.items.filter(item => item.kind !== 'comment').length;
+  switch (section.name.value) {
+    case 'tiles':
+    case 'height':
+      return `${count} rows`;
+    case 'buildings':
+    case 'vehicles':
+    case 'creatures':
+    case 'miners':
+    case 'objectives':
+      return String(count);
+    default:
+      return '';
+  }
+}
+
+function describeEntityTile(entity: Entity): string {
+  const { x, y } = entity.coordinates.translation;
+  return `tile ${Math.floor(y / TILE_WORLD_SIZE)},${Math.floor(x / TILE_WORLD_SIZE)}`;
+}
+
+function truncate(text: string): string {
+  return text.length > MAX_DETAIL_LENGTH ? `${text.slice(0, MAX_DETAIL_LENGTH - 1)}…` : text;
+}
+
+function toRange(range: SourceRange): vscode.Range {
+  return new vscode.Range(
+    new vscode.Position(range.start.line, range.start.column),
+    new vscode.Position(range.end.line, range.end.column)
+  );
+}
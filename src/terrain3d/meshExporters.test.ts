@@ -0,0 +1,68 @@
+import { toGltf, toObj } from './meshExporters';
+import { TerrainMesh } from './terrainMesh';
+
+describe('meshExporters', () => {
+  // Two tiles: one ground quad and one wall quad
+  const mesh: TerrainMesh = {
+    name: 'Test Level',
+    positions: [0, 0, 0, 0, 0, 1, 1, 0, 1, 1, 0, 0, 1, 1, 0, 1, 1, 1, 2, 1, 1, 2, 1, 0],
+    normals: Array.from({ length: 8 }, () => [0, 1, 0]).flat(),
+    groups: [
+      { material: { name: 'ground', color: { r: 255, g: 0, b: 0 } }, indices: [0, 1, 2, 0, 2, 3] },
+      {
+        material: { name: 'wall', color: { r: 0, g: 0, b: 255 } },
+        indices: [4, 5, 6, 4, 6, 7],
+      },
+    ],
+  };
+
+  describe('toGltf', () => {
+    it('should write one primitive and material per group', () => {
+      const gltf = JSON.parse(toGltf(mesh));
+
+      expect(gltf.asset.version).toBe('2.0');
+      expect(gltf.meshes[0].primitives).toHaveLength(2);
+      expect(gltf.materials.map((material: { name: string }) => material.name)).toEqual([
+        'ground',
+        'wall',
+      ]);
+      expect(gltf.materials[0].pbrMetallicRoughness.baseColorFactor).toEqual([1, 0, 0, 1]);
+      expect(gltf.accessors[0]).toMatchObject({ count: 8, min: [0, 0, 0], max: [2, 1, 1] });
+      expect(gltf.accessors[gltf.meshes[0].primitives[1].indices].count).toBe(6);
+    });
+
+    it('should embed the vertex and index data', () => {
+      const gltf = JSON.parse(toGltf(mesh));
+      const [, base64] = gltf.buffers[0].uri.split(',');
+      const buffer = Buffer.from(base64, 'base64');
+
+      expect(buffer.length).toBe(gltf.buffers[0].byteLength);
+      // 8 positions and 8 normals as float triples, then 12 indices
+      expect(buffer.length).toBe(8 * 12 * 2 + 12 * 4);
+      const view = gltf.bufferViews[gltf.accessors[3].bufferView];
+      const indices = Array.from({ length: 6 }, (_, i) =>
+        buffer.readUInt32LE(view.byteOffset + i * 4)
+      );
+      expect(indices).toEqual([4, 5, 6, 4, 6, 7]);
+    });
+  });
+
+  describe('toObj', () => {
+    it('should write vertices, normals and faces grouped by material', () => {
+      const { obj, mtl } = toObj(mesh, 'level.mtl');
+      const lines = obj.trim().split('\n');
+
+      expect(lines).toContain('mtllib level.mtl');
+      expect(lines).toContain('o Test_Level');
+      expect(lines.filter(line => line.startsWith('v '))).toHaveLength(8);
+      expect(lines.filter(line => line.startsWith('vn '))).toHaveLength(8);
+      expect(lines.filter(line => line.startsWith('f '))).toHaveLength(4);
+      expect(lines.slice(lines.indexOf('usemtl wall') + 1)).toEqual([
+        'f 5//5 6//6 7//7',
+        'f 5//5 7//7 8//8',
+      ]);
+      expect(mtl).toContain('newmtl ground\nKd 1 0 0');
+      expect(mtl).toContain('newmtl wall\nKd 0 0 1');
+    });
+  });
+});
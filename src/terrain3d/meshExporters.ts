@@ -0,0 +1,172 @@
+import { Color } from '../mapPreview/colorMap';
+import { TerrainMesh } from './terrainMesh';
+
+// glTF constants
+const FLOAT = 5126;
+const UNSIGNED_INT = 5125;
+const ARRAY_BUFFER = 34962;
+const ELEMENT_ARRAY_BUFFER = 34963;
+const TRIANGLES = 4;
+
+const GENERATOR = 'Manic Miners DAT extension';
+
+/**
+ * Write a mesh as a glTF 2.0 document with its buffer embedded, one
+ * primitive per material
+ */
+export function toGltf(mesh: TerrainMesh): string {
+  const vertexCount = mesh.positions.length / 3;
+  const chunks: Buffer[] = [];
+  const bufferViews: object[] = [];
+  const addView = (data: Buffer, target: number) => {
+    bufferViews.push({
+      buffer: 0,
+      byteOffset: chunks.reduce((length, chunk) => length + chunk.length, 0),
+      byteLength: data.length,
+      target,
+    });
+    chunks.push(data);
+    return bufferViews.length - 1;
+  };
+
+  const accessors: object[] = [
+    {
+      bufferView: addView(floatBuffer(mesh.positions), ARRAY_BUFFER),
+      componentType: FLOAT,
+      count: vertexCount,
+      type: 'VEC3',
+      ...bounds(mesh.positions),
+    },
+    {
+      bufferView: addView(floatBuffer(mesh.normals), ARRAY_BUFFER),
+      componentType: FLOAT,
+      count: vertexCount,
+      type: 'VEC3',
+    },
+  ];
+
+  const primitives = mesh.groups.map((group, material) => {
+    const indices = Buffer.from(Uint32Array.from(group.indices).buffer);
+    accessors.push({
+      bufferView: addView(indices, ELEMENT_ARRAY_BUFFER),
+      componentType: UNSIGNED_INT,
+      count: group.indices.length,
+      type: 'SCALAR',
+    });
+    return {
+      attributes: { POSITION: 0, NORMAL: 1 },
+      indices: accessors.length - 1,
+      material,
+      mode: TRIANGLES,
+    };
+  });
+
+  const buffer = Buffer.concat(chunks);
+  const gltf = {
+    asset: { version: '2.0', generator: GENERATOR },
+    scene: 0,
+    scenes: [{ name: mesh.name, nodes: [0] }],
+    nodes: [{ name: mesh.name, mesh: 0 }],
+    meshes: [{ name: mesh.name, primitives }],
+    materials: mesh.groups.map(({ material }) => ({
+      name: material.name,
+      pbrMetallicRoughness: {
+        // glTF colors are linear
+        baseColorFactor: [
+          toLinear(material.color.r),
+          toLinear(material.color.g),
+          toLinear(material.color.b),
+          1,
+        ].map(round),
+        metallicFactor: 0,
+        roughnessFactor: 1,
+      },
+    })),
+    accessors,
+    bufferViews,
+    buffers: [
+      {
+        byteLength: buffer.length,
+        uri: `data:application/octet-stream;base64,${buffer.toString('base64')}`,
+      },
+    ],
+  };
+  return JSON.stringify(gltf, null, 2) + '\n';
+}
+
+/**
+ * Write a mesh as Wavefront OBJ with its materials in a companion MTL file,
+ * which the OBJ refers to by mtlFileName
+ */
+export function toObj(mesh: TerrainMesh, mtlFileName: string): { obj: string; mtl: string } {
+  const obj = [`# ${GENERATOR}`, `mtllib ${mtlFileName}`, `o ${objName(mesh.name)}`];
+  for (let i = 0; i < mesh.positions.length; i += 3) {
+    obj.push(`v ${formatTriple(mesh.positions, i)}`);
+  }
+  for (let i = 0; i < mesh.normals.length; i += 3) {
+    obj.push(`vn ${formatTriple(mesh.normals, i)}`);
+  }
+  for (const group of mesh.groups) {
+    obj.push(`g ${group.material.name}`, `usemtl ${group.material.name}`);
+    for (let i = 0; i < group.indices.length; i += 3) {
+      // OBJ counts vertices from 1; each vertex has its own normal
+      const corners = group.indices.slice(i, i + 3).map(index => `${index + 1}//${index + 1}`);
+      obj.push(`f ${corners.join(' ')}`);
+    }
+  }
+
+  const mtl = [`# ${GENERATOR}`];
+  for (const { material } of mesh.groups) {
+    mtl.push(
+      '',
+      `newmtl ${material.name}`,
+      `Kd ${colorComponents(material.color)}`,
+      'Ka 0 0 0',
+      'Ks 0 0 0',
+      'd 1',
+      'illum 1'
+    );
+  }
+
+  return { obj: obj.join('\n') + '\n', mtl: mtl.join('\n') + '\n' };
+}
+
+function floatBuffer(values: number[]): Buffer {
+  return Buffer.from(Float32Array.from(values).buffer);
+}
+
+function bounds(positions: number[]): { min: number[]; max: number[] } {
+  const min = [Infinity, Infinity, Infinity];
+  const max = [-Infinity, -Infinity, -Infinity];
+  for (let i = 0; i < positions.length; i++) {
+    min[i % 3] = Math.min(min[i % 3], positions[i]);
+    max[i % 3] = Math.max(max[i % 3], positions[i]);
+  }
+  // Bounds must match the stored 32-bit floats
+  return { min: min.map(Math.fround), max: max.map(Math.fround) };
+}
+
+function toLinear(component: number): number {
+  const c = component / 255;
+  return c <= 0.04045 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+}
+
+function formatTriple(values: number[], start: number): string {
+  return values
+    .slice(start, start + 3)
+    .map(round)
+    .join(' ');
+}
+
+function colorComponents(color: Color): string {
+  return [color.r, color.g, color.b].map(c => round(c / 255)).join(' ');
+}
+
+// Object names cannot contain spaces
+function objName(name: string): string {
+  return name.trim().replace(/\s+/g, '_') || 'Level';
+}
+
+function round(value: number): number {
+  return Math.round(value * 10000) / 10000;
+}
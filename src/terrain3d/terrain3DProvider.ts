@@ -33,6 +33,12 @@ export class Terrain3DProvider implements vscode.WebviewViewProvider {
         case 'tileClick':
           this._handleTileClick(data.x, data.z, data.tileId);
           break;
+        case 'exportMesh':
+          vscode.commands.executeCommand(
+            'manicMiners.exportTerrainMesh',
+            this._currentDocument?.uri
+          );
+          break;
       }
     });
 
@@ -120,6 +126,7 @@ export class Terrain3DProvider implements vscode.WebviewViewProvider {
               <button id="viewIso" title="Isometric View">Iso</button>
               <button id="viewSide" title="Side View">Side</button>
               <button id="resetView" title="Reset View">Reset</button>
+              <button id="exportMesh" title="Export as glTF or OBJ">Export</button>
             </div>
             <div class="display-controls">
               <label><input type="checkbox" id="toggleWireframe"> Wireframe</label>
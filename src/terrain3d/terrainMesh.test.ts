@@ -0,0 +1,143 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { DatCstParser } from '../parser/datCstParser';
+import { DatFile } from '../types/datFileTypes';
+import { buildTerrainMesh, getTileCategory, TerrainMesh } from './terrainMesh';
+
+const TEST_MAPS = path.join(__dirname, '..', 'test', 'golden', 'test-maps');
+
+function loadTestMap(name: string): Partial<DatFile> {
+  return new DatCstParser(fs.readFileSync(path.join(TEST_MAPS, name), 'utf8')).toDatFile();
+}
+
+function triangleCounts(mesh: TerrainMesh): Record<string, number> {
+  return Object.fromEntries(
+    mesh.groups.map(group => [group.material.name, group.indices.length / 3])
+  );
+}
+
+describe('buildTerrainMesh', () => {
+  it('should build two triangles per tile for a level without walls', () => {
+    const mesh = buildTerrainMesh(loadTestMap('minimal.dat'));
+
+    expect(mesh.name).toBe('Minimal Test');
+    expect(mesh.positions.length / 3).toBe(600);
+    expect(mesh.normals).toHaveLength(mesh.positions.length);
+    expect(triangleCounts(mesh)).toEqual({ ground: 72, unknown: 128 });
+  });
+
+  it('should raise walls above a floor that follows the corner heights', () => {
+    const mesh = buildTerrainMesh(loadTestMap('with-script.dat'));
+
+    // Border walls: 36 tops, 40 outer faces and 32 faces into the cave.
+    // The floor slopes down to the lava row without steps.
+    expect(triangleCounts(mesh)).toEqual({
+      wall: 216,
+      ground: 50,
+      unknown: 44,
+      resource: 48,
+      hazard: 18,
+    });
+    expect(mesh.positions.length / 3).toBe(952);
+  });
+
+  it('should scale heights and walls', () => {
+    const datFile: Partial<DatFile> = {
+      tiles: [[26, 1]],
+      height: [[10, 20]],
+    };
+
+    const mesh = buildTerrainMesh(datFile, { heightScale: 0.5, wallHeight: 2 });
+    const heights = new Set(mesh.positions.filter((_, i) => i % 3 === 1));
+
+    // The wall slopes from a floor of 5 to 10 and rises 2 above it; the
+    // ground takes the clamped corners of 10
+    expect(Array.from(heights).sort((a, b) => a - b)).toEqual([5, 7, 10, 12]);
+  });
+
+  it('should add buildings as boxes standing on their tile', () => {
+    const datFile: Partial<DatFile> = {
+      tiles: [[1, 1]],
+      height: [[0, 0]],
+      buildings: [
+        {
+          type: 'BuildingToolStore_C',
+          coordinates: {
+            translation: { x: 450, y: 150, z: 0 },
+            rotation: { p: 0, y: 0, r: 0 },
+            scale: { x: 1, y: 1, z: 1 },
+          },
+        },
+      ],
+    };
+
+    const mesh = buildTerrainMesh(datFile);
+
+    expect(triangleCounts(mesh)).toEqual({ ground: 4, building: 12 });
+    const [building] = mesh.groups.filter(group => group.material.name === 'building');
+    const xs = building.indices.map(index => mesh.positions[index * 3]);
+    expect(Math.min(...xs)).toBeCloseTo(1.1);
+    expect(Math.max(...xs)).toBeCloseTo(1.9);
+  });
+
+  it('should stand buildings level on sloping floor like the map editor', () => {
+    const datFile: Partial<DatFile> = {
+      tiles: [[1]],
+      height: [
+        [0, 10],
+        [20, 30],
+      ],
+      buildings: [
+        {
+          type: 'BuildingToolStore_C',
+          coordinates: {
+            translation: { x: 150, y: 150, z: 0 },
+            rotation: { p: 0, y: 0, r: 0 },
+            scale: { x: 1, y: 1, z: 1 },
+          },
+        },
+      ],
+    };
+
+    const mesh = buildTerrainMesh(datFile);
+    const [ground, building] = mesh.groups;
+    const heightOf = (index: number) => mesh.positions[index * 3 + 1];
+
+    expect(ground.indices.map(heightOf).sort((a, b) => a - b)).toEqual([0, 1, 1, 2, 2, 3]);
+    // Halfway between the highest and lowest corner
+    expect(Math.min(...building.indices.map(heightOf))).toBeCloseTo(1.5);
+  });
+
+  it('should face every triangle along its normal', () => {
+    const mesh = buildTerrainMesh(loadTestMap('complex-validation.dat'));
+    const vertex = (index: number) => mesh.positions.slice(index * 3, index * 3 + 3);
+
+    for (const group of mesh.groups) {
+      for (let i = 0; i < group.indices.length; i += 3) {
+        const [a, b, c] = group.indices.slice(i, i + 3).map(vertex);
+        const u = [b[0] - a[0], b[1] - a[1], b[2] - a[2]];
+        const v = [c[0] - a[0], c[1] - a[1], c[2] - a[2]];
+        const normal = mesh.normals.slice(group.indices[i] * 3, group.indices[i] * 3 + 3);
+        const facing =
+          (u[1] * v[2] - u[2] * v[1]) * normal[0] +
+          (u[2] * v[0] - u[0] * v[2]) * normal[1] +
+          (u[0] * v[1] - u[1] * v[0]) * normal[2];
+        expect(facing).toBeGreaterThan(0);
+      }
+    }
+  });
+
+  it('should fail for levels without tiles', () => {
+    expect(() => buildTerrainMesh({})).toThrow('Level has no tiles to export');
+  });
+});
+
+describe('getTileCategory', () => {
+  it('should use the tile definitions and mark unknown tiles', () => {
+    expect(getTileCategory(1)).toBe('ground');
+    expect(getTileCategory(38)).toBe('wall');
+    expect(getTileCategory(42)).toBe('resource');
+    expect(getTileCategory(6)).toBe('hazard');
+    expect(getTileCategory(999)).toBe('unknown');
+  });
+});
@@ -0,0 +1,309 @@
+import { getEnhancedTileInfo } from '../data/enhancedTileDefinitions';
+import { getExtendedTileInfo } from '../data/extendedTileDefinitions';
+import { getTileInfo, TileDefinition } from '../data/tileDefinitions';
+import { getFloorZ, TILE_WORLD_SIZE } from '../mapEditor/entityLayer';
+import { Color, getTileColor } from '../mapPreview/colorMap';
+import { DatFile } from '../types/datFileTypes';
+
+export type TerrainMaterialName = TileDefinition['category'] | 'unknown' | 'building';
+
+export interface TerrainMaterial {
+  name: TerrainMaterialName;
+  color: Color;
+}
+
+export interface TerrainMeshGroup {
+  material: TerrainMaterial;
+  // Vertex indices, three per triangle, counter-clockwise seen from outside
+  indices: number[];
+}
+
+/**
+ * Level geometry with one group of triangles per material. Y is up, x runs
+ * along the columns and z along the rows, one unit per tile.
+ */
+export interface TerrainMesh {
+  name: string;
+  positions: number[];
+  normals: number[];
+  groups: TerrainMeshGroup[];
+}
+
+export interface TerrainMeshOptions {
+  // Units per height value; the default matches the 3D terrain view
+  heightScale?: number;
+  // How far walls rise above their floor, in tiles
+  wallHeight?: number;
+  buildings?: boolean;
+}
+
+type Vector = [number, number, number];
+
+const DEFAULT_HEIGHT_SCALE = 0.1;
+const DEFAULT_WALL_HEIGHT = 1;
+
+// Buildings are placeholder boxes this wide and tall, in tiles
+const BUILDING_SIZE = 0.8;
+const BUILDING_HEIGHT = 0.6;
+
+// Each category takes the map preview color of a typical tile
+const MATERIAL_COLORS: Record<TerrainMaterialName, Color> = {
+  ground: getTileColor(1),
+  rubble: getTileColor(2),
+  hazard: getTileColor(6),
+  special: getTileColor(14),
+  wall: getTileColor(26),
+  resource: getTileColor(42),
+  unknown: getTileColor(-1),
+  building: { r: 240, g: 192, b: 64 },
+};
+
+const SIDES: { dr: number; dc: number; normal: Vector }[] = [
+  { dr: -1, dc: 0, normal: [0, 0, -1] },
+  { dr: 1, dc: 0, normal: [0, 0, 1] },
+  { dr: 0, dc: -1, normal: [-1, 0, 0] },
+  { dr: 0, dc: 1, normal: [1, 0, 0] },
+];
+
+/**
+ * Turn a level's tiles and heights into a mesh. The height grid gives the
+ * floor at each tile corner, and every tile top is the two triangles the
+ * game splits the tile into. Walls and resource seams stand a wall height
+ * above their floor, with vertical faces where they meet a lower tile or the
+ * map edge.
+ */
+export function buildTerrainMesh(
+  datFile: Partial<DatFile>,
+  options: TerrainMeshOptions = {}
+): TerrainMesh {
+  const tiles = datFile.tiles || [];
+  if (tiles.length === 0) {
+    throw new Error('Level has no tiles to export');
+  }
+
+  const heightScale = options.heightScale ?? DEFAULT_HEIGHT_SCALE;
+  const wallHeight = options.wallHeight ?? DEFAULT_WALL_HEIGHT;
+  const height = datFile.height || [];
+  // Corners past the height grid take the nearest one, as getFloorZ does
+  const floorAt = (r: number, c: number) => {
+    const heightRow = height[Math.max(0, Math.min(r, height.length - 1))] || [];
+    return (heightRow[Math.max(0, Math.min(c, heightRow.length - 1))] ?? 0) * heightScale;
+  };
+  const isWallAt = (r: number, c: number) => isWallCategory(getTileCategory(tiles[r][c]));
+
+  const mesh = new MeshBuilder(datFile.info?.levelname || 'Level');
+
+  tiles.forEach((row, r) =>
+    row.forEach((tileId, c) => {
+      const material = getTileCategory(tileId);
+      const wall = isWallAt(r, c);
+      const rise = wall ? wallHeight : 0;
+      const nw: Vector = [c, floorAt(r, c) + rise, r];
+      const ne: Vector = [c + 1, floorAt(r, c + 1) + rise, r];
+      const sw: Vector = [c, floorAt(r + 1, c) + rise, r + 1];
+      const se: Vector = [c + 1, floorAt(r + 1, c + 1) + rise, r + 1];
+      mesh.addTriangle(material, [nw, ne, sw]);
+      mesh.addTriangle(material, [se, sw, ne]);
+
+      if (!wall || wallHeight <= 0) {
+        return;
+      }
+      for (const { dr, dc, normal } of SIDES) {
+        const nr = r + dr;
+        const nc = c + dc;
+        const inside = nr >= 0 && nr < tiles.length && nc >= 0 && nc < tiles[nr].length;
+        // Neighbouring walls share the corners, so only lower tiles and the
+        // map edge leave a gap
+        if (inside && isWallAt(nr, nc)) {
+          continue;
+        }
+
+        // The shared edge between the tile and its neighbour
+        const x0 = dc === 1 ? c + 1 : c;
+        const x1 = dc === -1 ? c : c + 1;
+        const z0 = dr === 1 ? r + 1 : r;
+        const z1 = dr === -1 ? r : r + 1;
+        const floor0 = floorAt(z0, x0);
+        const floor1 = floorAt(z1, x1);
+        mesh.addQuad(
+          material,
+          [
+            [x0, floor0, z0],
+            [x1, floor1, z1],
+            [x1, floor1 + wallHeight, z1],
+            [x0, floor0 + wallHeight, z0],
+          ],
+          normal
+        );
+      }
+    })
+  );
+
+  if (options.buildings !== false) {
+    for (const building of datFile.buildings || []) {
+      const { x, y } = building.coordinates.translation;
+      const col = x / TILE_WORLD_SIZE;
+      const row = y / TILE_WORLD_SIZE;
+      const r = Math.min(tiles.length - 1, Math.max(0, Math.floor(row)));
+      const c = Math.min(tiles[r].length - 1, Math.max(0, Math.floor(col)));
+      const rise = tiles[r][c] !== undefined && isWallAt(r, c) ? wallHeight : 0;
+      const base = getFloorZ(height, x, y, true) * heightScale + rise;
+      mesh.addBox(
+        'building',
+        [col - BUILDING_SIZE / 2, base, row - BUILDING_SIZE / 2],
+        [col + BUILDING_SIZE / 2, base + BUILDING_HEIGHT, row + BUILDING_SIZE / 2]
+      );
+    }
+  }
+
+  return mesh.toMesh();
+}
+
+/**
+ * The material a tile is drawn with, from its tile definition
+ */
+export function getTileCategory(tileId: number): TerrainMaterialName {
+  const info = getEnhancedTileInfo(tileId) || getTileInfo(tileId) || getExtendedTileInfo(tileId);
+  return info?.category ?? 'unknown';
+}
+
+function isWallCategory(category: TerrainMaterialName): boolean {
+  return category === 'wall' || category === 'resource';
+}
+
+class MeshBuilder {
+  private positions: number[] = [];
+  private normals: number[] = [];
+  private groups = new Map<TerrainMaterialName, TerrainMeshGroup>();
+
+  constructor(private readonly name: string) {}
+
+  /**
+   * Add a flat four-sided face, turning the corners to face along the normal
+   */
+  addQuad(material: TerrainMaterialName, corners: Vector[], normal: Vector): void {
+    const first = this.addCorners(corners, normal);
+    this.indicesOf(material).push(first, first + 1, first + 2, first, first + 2, first + 3);
+  }
+
+  /**
+   * Add a triangle of a surface seen from above, facing up along its slope
+   */
+  addTriangle(material: TerrainMaterialName, corners: Vector[]): void {
+    const [a, b, c] = corners;
+    const normal = cross(subtract(b, a), subtract(c, a));
+    const length = Math.hypot(...normal) * Math.sign(normal[1]);
+    const up = normal.map(value => value / length) as Vector;
+
+    const first = this.addCorners(corners, up);
+    this.indicesOf(material).push(first, first + 1, first + 2);
+  }
+
+  addBox(material: TerrainMaterialName, min: Vector, max: Vector): void {
+    const [x0, y0, z0] = min;
+    const [x1, y1, z1] = max;
+    this.addQuad(
+      material,
+      [
+        [x0, y1, z0],
+        [x0, y1, z1],
+        [x1, y1, z1],
+        [x1, y1, z0],
+      ],
+      [0, 1, 0]
+    );
+    this.addQuad(
+      material,
+      [
+        [x0, y0, z0],
+        [x1, y0, z0],
+        [x1, y0, z1],
+        [x0, y0, z1],
+      ],
+      [0, -1, 0]
+    );
+    this.addQuad(
+      material,
+      [
+        [x0, y0, z0],
+        [x0, y1, z0],
+        [x1, y1, z0],
+        [x1, y0, z0],
+      ],
+      [0, 0, -1]
+    );
+    this.addQuad(
+      material,
+      [
+        [x0, y0, z1],
+        [x1, y0, z1],
+        [x1, y1, z1],
+        [x0, y1, z1],
+      ],
+      [0, 0, 1]
+    );
+    this.addQuad(
+      material,
+      [
+        [x0, y0, z0],
+        [x0, y0, z1],
+        [x0, y1, z1],
+        [x0, y1, z0],
+      ],
+      [-1, 0, 0]
+    );
+    this.addQuad(
+      material,
+      [
+        [x1, y0, z0],
+        [x1, y1, z0],
+        [x1, y1, z1],
+        [x1, y0, z1],
+      ],
+      [1, 0, 0]
+    );
+  }
+
+  private addCorners(corners: Vector[], normal: Vector): number {
+    const [a, b, c] = corners;
+    const facing = dot(cross(subtract(b, a), subtract(c, a)), normal);
+    const ordered = facing < 0 ? [...corners].reverse() : corners;
+
+    const first = this.positions.length / 3;
+    for (const corner of ordered) {
+      this.positions.push(...corner);
+      this.normals.push(...normal);
+    }
+    return first;
+  }
+
+  private indicesOf(material: TerrainMaterialName): number[] {
+    let group = this.groups.get(material);
+    if (!group) {
+      group = { material: { name: material, color: MATERIAL_COLORS[material] }, indices: [] };
+      this.groups.set(material, group);
+    }
+    return group.indices;
+  }
+
+  toMesh(): TerrainMesh {
+    return {
+      name: this.name,
+      positions: this.positions,
+      normals: this.normals,
+      groups: Array.from(this.groups.values()),
+    };
+  }
+}
+
+function subtract(a: Vector, b: Vector): Vector {
+  return [a[0] - b[0], a[1] - b[1], a[2] - b[2]];
+}
+
+function cross(a: Vector, b: Vector): Vector {
+  return [a[1] * b[2] - a[2] * b[1], a[2] * b[0] - a[0] * b[2], a[0] * b[1] - a[1] * b[0]];
+}
+
+function dot(a: Vector, b: Vector): number {
+  return a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+}
@@ -0,0 +1,71 @@
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { DatCstParser } from '../parser/datCstParser';
+import { toGltf, toObj } from './meshExporters';
+import { buildTerrainMesh } from './terrainMesh';
+
+export function registerTerrainMeshCommands(context: vscode.ExtensionContext): void {
+  // Export level geometry for 3D tools such as Blender. The 3D terrain view
+  // passes the level it shows; from the palette the active editor is used.
+  context.subscriptions.push(
+    vscode.commands.registerCommand('manicMiners.exportTerrainMesh', async (uri?: vscode.Uri) => {
+      let document: vscode.TextDocument | undefined;
+      if (uri instanceof vscode.Uri) {
+        document = await vscode.workspace.openTextDocument(uri);
+      } else if (vscode.window.activeTextEditor?.document.languageId === 'manicminers') {
+        document = vscode.window.activeTextEditor.document;
+      }
+      if (!document) {
+        vscode.window.showErrorMessage('Please open a Manic Miners DAT file');
+        return;
+      }
+
+      await exportTerrainMesh(document);
+    })
+  );
+}
+
+async function exportTerrainMesh(document: vscode.TextDocument): Promise<void> {
+  const format = await vscode.window.showQuickPick(
+    [
+      { label: 'glTF 2.0', description: 'Single .gltf file', extension: 'gltf' },
+      { label: 'OBJ', description: '.obj with an .mtl material file', extension: 'obj' },
+    ],
+    { placeHolder: 'Select mesh format' }
+  );
+  if (!format) {
+    return;
+  }
+
+  const parsed = path.parse(document.uri.fsPath);
+  const uri = await vscode.window.showSaveDialog({
+    defaultUri: vscode.Uri.file(path.join(parsed.dir, `${parsed.name}.${format.extension}`)),
+    filters: { [format.label]: [format.extension] },
+  });
+  if (!uri) {
+    return;
+  }
+
+  try {
+    const mesh = buildTerrainMesh(new DatCstParser(document.getText()).toDatFile());
+    if (format.extension === 'gltf') {
+      await vscode.workspace.fs.writeFile(uri, Buffer.from(toGltf(mesh), 'utf8'));
+    } else {
+      const mtlName = `${path.parse(uri.fsPath).name}.mtl`;
+      const { obj, mtl } = toObj(mesh, mtlName);
+      await vscode.workspace.fs.writeFile(uri, Buffer.from(obj, 'utf8'));
+      await vscode.workspace.fs.writeFile(
+        vscode.Uri.file(path.join(path.dirname(uri.fsPath), mtlName)),
+        Buffer.from(mtl, 'utf8')
+      );
+    }
+
+    const triangles = mesh.groups.reduce((count, group) => count + group.indices.length / 3, 0);
+    vscode.window.showInformationMessage(
+      `Terrain mesh saved to ${path.basename(uri.fsPath)} (${mesh.positions.length / 3} vertices, ${triangles} triangles)`
+    );
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    vscode.window.showErrorMessage(`Failed to export terrain mesh: ${errorMessage}`);
+  }
+}
@@ -1,14 +1,33 @@
 // Mock implementation of VS Code API for testing
 
 export enum CompletionItemKind {
-  Field = 4,
-  Snippet = 14,
-  Keyword = 13,
+  Text = 0,
   Method = 1,
-  Property = 9,
+  Function = 2,
+  Constructor = 3,
+  Field = 4,
   Variable = 5,
+  Class = 6,
+  Interface = 7,
+  Module = 8,
+  Property = 9,
+  Unit = 10,
+  Value = 11,
   Enum = 12,
+  Keyword = 13,
+  Snippet = 14,
+  Color = 15,
+  File = 16,
+  Reference = 17,
+  Folder = 18,
   EnumMember = 19,
+  Constant = 20,
+  Struct = 21,
+  Event = 22,
+  Operator = 23,
+  TypeParameter = 24,
+  User = 25,
+  Issue = 26,
 }
 
 export class CompletionItem {
@@ -98,6 +117,130 @@ export class Location {
   }
 }
 
+export enum SymbolKind {
+  File = 0,
+  Module = 1,
+  Namespace = 2,
+  Package = 3,
+  Class = 4,
+  Method = 5,
+  Property = 6,
+  Field = 7,
+  Constructor = 8,
+  Enum = 9,
+  Interface = 10,
+  Function = 11,
+  Variable = 12,
+  Constant = 13,
+  String = 14,
+  Number = 15,
+  Boolean = 16,
+  Array = 17,
+  Object = 18,
+  Key = 19,
+  Null = 20,
+  EnumMember = 21,
+  Struct = 22,
+  Event = 23,
+  Operator = 24,
+  TypeParameter = 25,
+}
+
+export class DocumentSymbol {
+  children: DocumentSymbol[] = [];
+  constructor(
+    public name: string,
+    public detail: string,
+    public kind: SymbolKind,
+    public range: Range,
+    public selectionRange: Range
+  ) {}
+}
+
+export class SymbolInformation {
+  constructor(
+    public name: string,
+    public kind: SymbolKind,
+    public containerName: string,
+    public location: Location
+  ) {}
+}
+
+export class ParameterInformation {
+  constructor(
+    public label: string | [number, number],
+    public documentation?: string | MarkdownString
+  ) {}
+}
+
+export class SignatureInformation {
+  parameters: ParameterInformation[] = [];
+
+  constructor(
+    public label: string,
+    public documentation?: string | MarkdownString
+  ) {}
+}
+
+export class SignatureHelp {
+  signatures: SignatureInformation[] = [];
+  activeSignature = 0;
+  activeParameter = 0;
+}
+
+export enum InlayHintKind {
+  Type = 1,
+  Parameter = 2,
+}
+
+export class InlayHint {
+  tooltip?: string;
+  paddingLeft?: boolean;
+  paddingRight?: boolean;
+
+  constructor(
+    public position: Position,
+    public label: string,
+    public kind?: InlayHintKind
+  ) {}
+}
+
+export class CodeLens {
+  constructor(
+    public range: Range,
+    public command?: any
+  ) {}
+}
+
+export class SemanticTokensLegend {
+  constructor(
+    public tokenTypes: string[],
+    public tokenModifiers: string[] = []
+  ) {}
+}
+
+export class SemanticTokens {
+  constructor(
+    public data: Uint32Array,
+    public resultId?: string
+  ) {}
+}
+
+export class SemanticTokensEdit {
+  constructor(
+    public start: number,
+    public deleteCount: number,
+    public data?: Uint32Array
+  ) {}
+}
+
+export class SemanticTokensEdits {
+  constructor(
+    public edits: SemanticTokensEdit[],
+    public resultId?: string
+  ) {}
+}
+
 export class CancellationToken {
   isCancellationRequested = false;
   onCancellationRequested = () => {};
@@ -184,8 +327,16 @@ export const commands = {
 export const languages = {
   registerCompletionItemProvider: jest.fn(),
   registerHoverProvider: jest.fn(),
+  registerSignatureHelpProvider: jest.fn(),
   registerDefinitionProvider: jest.fn(),
   registerReferenceProvider: jest.fn(),
+  registerRenameProvider: jest.fn(),
+  registerDocumentSymbolProvider: jest.fn(),
+  registerWorkspaceSymbolProvider: jest.fn(() => ({ dispose: jest.fn() })),
+  registerDocumentFormattingEditProvider: jest.fn(),
+  registerDocumentRangeFormattingEditProvider: jest.fn(),
+  registerDocumentSemanticTokensProvider: jest.fn(() => ({ dispose: jest.fn() })),
+  registerInlayHintsProvider: jest.fn(),
   registerCodeActionsProvider: jest.fn(),
   registerCodeLensProvider: jest.fn(),
   createDiagnosticCollection: jest.fn(() => ({
@@ -210,6 +361,13 @@ export const workspace = {
     update: jest.fn(),
   })),
   workspaceFolders: undefined,
+  findFiles: jest.fn(() => Promise.resolve([])),
+  createFileSystemWatcher: jest.fn(() => ({
+    onDidCreate: jest.fn(() => ({ dispose: jest.fn() })),
+    onDidChange: jest.fn(() => ({ dispose: jest.fn() })),
+    onDidDelete: jest.fn(() => ({ dispose: jest.fn() })),
+    dispose: jest.fn(),
+  })),
   fs: {
     writeFile: jest.fn(() => Promise.resolve()),
     readFile: jest.fn(() => Promise.resolve(Buffer.from(''))),
@@ -236,6 +394,17 @@ export class CodeAction {
   ) {}
 }
 
+export class TextEdit {
+  constructor(
+    public range: Range,
+    public newText: string
+  ) {}
+
+  static replace(range: Range, newText: string): TextEdit {
+    return new TextEdit(range, newText);
+  }
+}
+
 export class WorkspaceEdit {
   replace = jest.fn();
   insert = jest.fn();
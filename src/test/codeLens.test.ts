@@ -0,0 +1,65 @@
+import { describe, expect, it } from '@jest/globals';
+import * as vscode from 'vscode';
+import { DatCodeLensProvider, getDatCodeLenses } from '../codeLensProvider';
+
+// Access the mocked classes
+const TextDocument = (vscode as any).TextDocument;
+const CancellationToken = (vscode as any).CancellationToken;
+
+describe('Code Lenses', () => {
+  const level = [
+    'script{',
+    'when(enter:5,7)[Ambush]',
+    'if(crystals>5)[Ambush]',
+    '',
+    'Ambush::',
+    'msg:Watch;',
+    'Unused;',
+    '',
+    'Unused::',
+    'wait:1;',
+    '}',
+  ].join('\n');
+
+  describe('getDatCodeLenses', () => {
+    it('should count references and bind chains to trigger tiles', () => {
+      expect(
+        getDatCodeLenses(level).map(lens =>
+          lens.kind === 'references'
+            ? [lens.range.start.line, lens.name, lens.references.map(r => r.start.line)]
+            : [lens.range.start.line, 'preview', lens.tiles]
+        )
+      ).toEqual([
+        [1, 'preview', [{ row: 5, col: 7 }]],
+        [4, 'Ambush', [1, 2]],
+        [4, 'preview', [{ row: 5, col: 7 }]],
+        [8, 'Unused', [6]],
+      ]);
+    });
+
+    it('should return nothing without a script', () => {
+      expect(getDatCodeLenses('tiles{\n1,\n}')).toEqual([]);
+    });
+  });
+
+  describe('DatCodeLensProvider', () => {
+    it('should link lenses to the reference view and map preview', () => {
+      const document = new TextDocument(level, 'manicminers');
+      const lenses = new DatCodeLensProvider().provideCodeLenses(
+        document,
+        new CancellationToken()
+      ) as vscode.CodeLens[];
+
+      expect(lenses.map(lens => lens.command?.title)).toEqual([
+        'Preview on map',
+        '2 references',
+        'Preview on map',
+        '1 reference',
+      ]);
+      expect(lenses[0].command?.command).toBe('manicMiners.previewTilesOnMap');
+      expect(lenses[0].command?.arguments).toEqual([document.uri, [{ row: 5, col: 7 }]]);
+      expect(lenses[1].command?.command).toBe('editor.action.showReferences');
+      expect(lenses[1].command?.arguments?.[2]).toHaveLength(2);
+    });
+  });
+});
@@ -0,0 +1,300 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { DatCstParser } from '../parser/datCstParser';
+import { DatFileParser } from '../parser/datFileParser';
+import {
+  EntityNode,
+  GridRowNode,
+  HazardGroupNode,
+  InfoEntryNode,
+  ObjectiveNode,
+} from '../types/datCstTypes';
+import { EventChainNode, TriggerNode } from '../types/scriptAstTypes';
+
+const goldenDir = path.join(__dirname, 'golden', 'test-maps');
+const referenceDir = path.join(
+  __dirname,
+  '..',
+  '..',
+  'map-reference-implementations',
+  'groundhog-main',
+  'src',
+  'core',
+  'test_utils',
+  'goldens'
+);
+const datFiles = [goldenDir, referenceDir].flatMap(dir =>
+  fs
+    .readdirSync(dir)
+    .filter(name => name.endsWith('.dat'))
+    .map(name => [name, path.join(dir, name)])
+);
+
+describe('DatCstParser', () => {
+  const sampleFile = `info{
+rowcount:3
+colcount:3
+levelname:CST Test
+}
+tiles{
+38,38,38,
+38,1,38,
+38,38,38,
+}
+height{
+0,0,0,0,
+0,0,0,0,
+0,0,0,0,
+0,0,0,0,
+}
+objectives{
+resources: 10,0,0
+discovertile:1,1/Find the cave
+}
+miners{
+ID=0/Pilot,Translation: X=450.000 Y=450.000 Z=0.000 Rotation: P=0.000000 Y=0.000000 R=0.000000 Scale X=1.000 Y=1.000 Z=1.000,Drill/,Essential=true
+}
+blocks{
+1/TriggerEnter:1,1,0.0,true,true,
+2/EventDrill:1,2
+1-2
+}
+script{
+int Count=0
+when(enter:1,1)[Start]
+
+Start::
+Count:Count+1;
+msg:Hello;
+((Count>2))[Done][Again];
+}
+`;
+
+  describe('typed view', () => {
+    it.each(datFiles)('should match DatFileParser for %s', (_name, file) => {
+      const content = fs.readFileSync(file, 'utf-8');
+      const expected = new DatFileParser(content).parsePartial();
+      const actual = new DatCstParser(content).toDatFile();
+
+      expect(actual).toEqual(expected);
+    });
+
+    it('should match DatFileParser for the sample file', () => {
+      const expected = new DatFileParser(sampleFile).parsePartial();
+
+      expect(new DatCstParser(sampleFile).toDatFile()).toEqual(expected);
+      expect(expected.blocks).toEqual({
+        blocks: [
+          {
+            id: 1,
+            type: 'trigger',
+            name: 'TriggerEnter',
+            row: 1,
+            col: 1,
+            parameters: { cooldown: 0, miners: true, vehicles: true, creature: '' },
+            line: 24,
+          },
+          { id: 2, type: 'event', name: 'EventDrill', row: 1, col: 2, parameters: {}, line: 25 },
+        ],
+        wires: [{ from: 1, to: 2, type: 'normal', line: 26 }],
+      });
+    });
+
+    it('should share the script tree with the section items', () => {
+      const parser = new DatCstParser(sampleFile);
+      const script = parser.toDatFile().script!;
+
+      expect(script.items).toBe(parser.getSection('script')!.items);
+      expect(script.items.map(item => item.kind)).toEqual(['variable', 'trigger', 'eventChain']);
+    });
+  });
+
+  describe('ranges', () => {
+    const parser = new DatCstParser(sampleFile);
+
+    it('should record section and info ranges', () => {
+      const info = parser.getSection('info')!;
+      expect(info.range).toEqual({ start: { line: 0, column: 0 }, end: { line: 4, column: 1 } });
+
+      const levelname = info.items[2] as InfoEntryNode;
+      expect(levelname.key.value).toBe('levelname');
+      expect(levelname.value.range).toEqual({
+        start: { line: 3, column: 10 },
+        end: { line: 3, column: 18 },
+      });
+    });
+
+    it('should resolve a grid cell from a position', () => {
+      const cell = parser.getNodeAt(7, 3);
+      expect(cell).toMatchObject({ kind: 'gridCell', row: 1, col: 1, value: 1 });
+
+      const row = parser.getSection('tiles')!.items[1] as GridRowNode;
+      expect(row.cells[2].range.start).toEqual({ line: 7, column: 5 });
+    });
+
+    it('should record entity ids and fields', () => {
+      const miner = parser.getSection('miners')!.items[0] as EntityNode;
+
+      expect(miner.id?.value).toBe('0');
+      expect(miner.id?.range.start).toEqual({ line: 21, column: 3 });
+      expect(miner.fields.map(field => field.key?.value ?? field.value.value)).toEqual([
+        'Drill/',
+        'Essential',
+      ]);
+      expect(miner.entity?.properties).toEqual({ Essential: true });
+    });
+
+    it('should parse objectives with their types', () => {
+      const objectives = parser.getSection('objectives')!.items as ObjectiveNode[];
+
+      expect(objectives.map(o => o.objectiveType.value)).toEqual(['resources', 'discovertile']);
+      expect(objectives[1].objective).toEqual({
+        type: 'discovertile',
+        x: 1,
+        y: 1,
+        description: 'Find the cave',
+      });
+    });
+
+    it('should parse blocks and wires', () => {
+      const items = parser.getSection('blocks')!.items;
+
+      expect(items.map(item => item.kind)).toEqual(['block', 'block', 'wire']);
+      expect(items[2]).toMatchObject({
+        from: { value: 1 },
+        to: { value: 2, range: { start: { line: 26, column: 2 } } },
+        wireType: 'normal',
+      });
+    });
+
+    it('should parse triggers and event chains', () => {
+      const items = parser.getSection('script')!.items;
+      const trigger = items[1] as TriggerNode;
+      const chain = items[2] as EventChainNode;
+
+      expect(trigger.occurrence.value).toBe('when');
+      expect(trigger.event).toMatchObject({
+        kind: 'triggerEvent',
+        name: { name: 'enter' },
+        arguments: [{ value: 1 }, { value: 1 }],
+      });
+      expect(trigger.trueBranch?.statements[0]).toMatchObject({
+        kind: 'eventCall',
+        name: { name: 'Start', range: { start: { line: 30, column: 16 } } },
+      });
+      expect(chain.name.name).toBe('Start');
+      expect(chain.statements.map(s => s.kind)).toEqual(['assignment', 'command', 'conditional']);
+      expect(chain.statements[2]).toMatchObject({
+        condition: { kind: 'binary', operator: '>', left: { name: 'Count' } },
+        trueBranch: { statements: [{ name: { name: 'Done' } }] },
+        falseBranch: { statements: [{ name: { name: 'Again' } }] },
+      });
+    });
+
+    it('should return the node path for a position', () => {
+      const kinds = parser.getNodePath(34, 5).map(node => node.kind);
+      expect(kinds).toEqual(['document', 'section', 'eventChain', 'command', 'identifier']);
+    });
+  });
+
+  describe('error recovery', () => {
+    it('should report several errors without throwing', () => {
+      const parser = new DatCstParser(`info{
+levelname Broken
+}
+tiles{
+1,x,1,
+}
+objectives{
+treasure:5
+}
+`);
+      const messages = parser.getErrors().map(error => [error.line, error.message]);
+
+      expect(messages).toEqual([
+        [0, 'Missing required rowcount in info section'],
+        [0, 'Missing required colcount in info section'],
+        [0, 'Missing required height section'],
+        [1, "Expected 'key:value' in info section"],
+        [4, "Expected a number but found 'x'"],
+        [7, "Unknown objective type 'treasure'"],
+      ]);
+      expect(parser.toDatFile().tiles).toEqual([[1, 1]]);
+    });
+
+    it('should recover from a missing closing brace', () => {
+      const parser = new DatCstParser(`info{
+rowcount:1
+colcount:1
+tiles{
+1,
+}
+height{
+0,0,
+0,0,
+}
+`);
+
+      expect(parser.getErrors().map(error => error.message)).toEqual([
+        "Section 'info' is missing a closing '}'",
+      ]);
+      expect(parser.getSection('info')!.closed).toBe(false);
+      expect(parser.getSection('info')!.range.end).toEqual({ line: 2, column: 10 });
+      expect(parser.toDatFile().tiles).toEqual([[1]]);
+    });
+
+    it('should parse hazard groups and report malformed lines and tiles', () => {
+      const parser = new DatCstParser(`landslidefrequency{
+# slides
+30.0:1,2/x,3/
+60
+}
+lavaspread{
+15.0/5.0:0,0/
+}`);
+      const group = parser.getSection('landslidefrequency')!.items[1] as HazardGroupNode;
+
+      expect(
+        parser
+          .getErrors()
+          .filter(error => error.section)
+          .map(error => [error.line, error.message])
+      ).toEqual([
+        [2, "Expected 'row,col' but found 'x,3'"],
+        [3, "Expected 'INTERVAL:row,col/' but found '60'"],
+      ]);
+      expect(group).toMatchObject({
+        interval: { value: '30.0' },
+        tiles: [{ row: { value: 1 }, col: { value: 2, range: { start: { line: 2, column: 7 } } } }],
+      });
+      expect(parser.getSection('lavaspread')!.items[0]).toMatchObject({
+        interval: { value: '15.0' },
+        delay: { value: '5.0' },
+      });
+      expect(parser.toDatFile()).toMatchObject({
+        landslidefrequency: [{ interval: 30, tiles: [{ row: 1, col: 2 }] }],
+        lavaspread: [{ interval: 15, delay: 5, tiles: [{ row: 0, col: 0 }] }],
+      });
+    });
+
+    it('should report script statements it cannot place', () => {
+      const parser = new DatCstParser(`script{
+msg:Orphan;
+Start::
+msg:Hi
+when(init[Start]
+}`);
+
+      expect(
+        parser
+          .getErrors()
+          .filter(error => error.section === 'script')
+          .map(error => error.message)
+      ).toEqual([
+        'Statement outside of an event chain',
+        "Missing ';' at end of statement",
+        "Missing ')' after trigger",
+      ]);
+    });
+  });
+});
@@ -0,0 +1,287 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { DatCstParser } from '../parser/datCstParser';
+import { DatFileParser } from '../parser/datFileParser';
+import { DatFileWriter } from '../parser/datFileWriter';
+import { ScriptParser } from '../parser/scriptParser';
+import { DatFile } from '../types/datFileTypes';
+
+function findDatFiles(dir: string): string[] {
+  if (!fs.existsSync(dir)) {
+    return [];
+  }
+  return fs.readdirSync(dir, { withFileTypes: true }).flatMap(entry => {
+    const fullPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      return findDatFiles(fullPath);
+    }
+    return entry.name.endsWith('.dat') ? [fullPath] : [];
+  });
+}
+
+/**
+ * Drop source ranges so values parsed from different text compare equal
+ */
+function withoutRanges(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(withoutRanges);
+  }
+  if (value instanceof Map) {
+    return new Map(Array.from(value, ([key, item]) => [key, withoutRanges(item)]));
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value)
+        .filter(([key]) => key !== 'range')
+        .map(([key, item]) => [key, withoutRanges(item)])
+    );
+  }
+  return value;
+}
+
+const repoRoot = path.join(__dirname, '..', '..');
+const datFiles = [
+  ...findDatFiles(path.join(__dirname, 'golden', 'test-maps')),
+  ...findDatFiles(path.join(repoRoot, 'docs', 'technical-reference', 'code-examples')),
+  ...findDatFiles(
+    path.join(
+      repoRoot,
+      'map-reference-implementations',
+      'groundhog-main',
+      'src',
+      'core',
+      'test_utils',
+      'goldens'
+    )
+  ),
+].map(file => [path.relative(repoRoot, file), file]);
+
+describe('DatFileWriter', () => {
+  const sampleFile = `comments{
+Writer test level
+}
+info{
+rowcount:3
+colcount:3
+levelname:Writer Test
+biome:ice
+}
+tiles{
+38,38,38,
+38,1,38,
+38,38,38,
+}
+height{
+0,0,0,0,
+0,0,0,0,
+0,0,0,0,
+0,0,0,0,
+}
+objectives{
+resources: 10,0,0
+}
+mystery{
+kept as is
+}
+creatures{
+CreatureRockMonster_C
+Translation: X=450.000 Y=450.000 Z=0.000 Rotation: P=0.000000 Y=90.000000 R=0.000000 Scale X=1.000 Y=1.000 Z=1.000
+ID=0,Sleep=true
+}
+miners{
+ID=0/Pilot,Translation: X=450.000 Y=450.000 Z=0.000 Rotation: P=0.000000 Y=0.000000 R=0.000000 Scale X=1.000 Y=1.000 Z=1.000,Drill/JobDriver/,Essential=true
+}
+script{
+int Count=0
+Start::;
+msg:Hello;
+}
+`;
+
+  describe('round trip', () => {
+    it('should have levels to round-trip', () => {
+      expect(datFiles.length).toBeGreaterThan(0);
+    });
+
+    it.each(datFiles)('should reproduce %s byte for byte', (_name, file) => {
+      const content = fs.readFileSync(file, 'utf-8');
+      const parser = new DatFileParser(content);
+      const datFile = parser.parsePartial();
+
+      expect(new DatFileWriter({ source: parser }).write(datFile)).toBe(content);
+    });
+
+    it.each(datFiles)('should write stable canonical text for %s', (_name, file) => {
+      const datFile = new DatFileParser(fs.readFileSync(file, 'utf-8')).parsePartial();
+      const writer = new DatFileWriter();
+      const canonical = writer.write(datFile);
+
+      expect(writer.write(new DatFileParser(canonical).parsePartial())).toBe(canonical);
+    });
+
+    it.each(datFiles)('should keep every parsed value of %s without a source', (_name, file) => {
+      const content = fs.readFileSync(file, 'utf-8');
+      const datFile = new DatFileParser(content).parsePartial();
+      const reparsed = new DatFileParser(new DatFileWriter().write(datFile)).parsePartial();
+
+      // Script lines with syntax errors are dropped from the parsed tree, so
+      // they only survive when the source text is kept
+      if (new DatCstParser(content).getErrors().some(error => error.section === 'script')) {
+        delete datFile.script;
+        delete reparsed.script;
+      }
+
+      expect(withoutRanges(reparsed)).toEqual(withoutRanges(datFile));
+    });
+
+    it.each(datFiles)('should leave the text around an edited tile of %s alone', (_name, file) => {
+      const content = fs.readFileSync(file, 'utf-8');
+      const parser = new DatFileParser(content);
+      const datFile = parser.parsePartial();
+      if (!datFile.tiles || datFile.tiles.length === 0) {
+        return;
+      }
+      datFile.tiles[0][0] = datFile.tiles[0][0] === 1 ? 38 : 1;
+
+      const output = new DatFileWriter({ source: parser }).write(datFile);
+      const start = content.search(/^tiles\{/m);
+      const end = content.indexOf('}', start) + 1;
+
+      expect(output).not.toBe(content);
+      expect(output.startsWith(content.slice(0, start))).toBe(true);
+      expect(output.endsWith(content.slice(end))).toBe(true);
+    });
+
+    it('should reproduce the sample file byte for byte', () => {
+      const parser = new DatFileParser(sampleFile);
+      expect(new DatFileWriter({ source: parser }).write(parser.parse())).toBe(sampleFile);
+    });
+  });
+
+  describe('with source', () => {
+    it('should only rewrite modified sections', () => {
+      const parser = new DatFileParser(sampleFile);
+      const datFile = parser.parse();
+      datFile.tiles[1][1] = 42;
+
+      const output = new DatFileWriter({ source: parser }).write(datFile);
+
+      expect(output).toBe(sampleFile.replace('38,1,38,', '38,42,38,'));
+    });
+
+    it('should drop sections that were removed', () => {
+      const parser = new DatFileParser(sampleFile);
+      const datFile: Partial<DatFile> = parser.parsePartial();
+      delete datFile.objectives;
+
+      const output = new DatFileWriter({ source: parser }).write(datFile);
+
+      expect(output).not.toContain('objectives{');
+      expect(output).toContain('height{\n0,0,0,0,');
+      expect(output).toContain('}\nmystery{\nkept as is\n}');
+    });
+
+    it('should append new sections in game order', () => {
+      const parser = new DatFileParser(sampleFile);
+      const datFile = parser.parse();
+      datFile.briefing = 'Find the crystals.';
+      datFile.lavaspread = [{ interval: 30, delay: 7.5, tiles: [{ row: 1, col: 2 }] }];
+
+      const output = new DatFileWriter({ source: parser }).write(datFile);
+
+      expect(
+        output.endsWith('lavaspread{\n30.0/7.5:1,2/\n}\nbriefing{\nFind the crystals.\n}\n')
+      ).toBe(true);
+    });
+
+    it('should keep CRLF line endings', () => {
+      const crlf = sampleFile.replace(/\n/g, '\r\n');
+      const parser = new DatFileParser(crlf);
+      const datFile = parser.parse();
+      datFile.tiles[1][1] = 42;
+
+      const output = new DatFileWriter({ source: parser }).write(datFile);
+
+      expect(output).toBe(crlf.replace('38,1,38,', '38,42,38,'));
+    });
+  });
+
+  describe('writeSection', () => {
+    const writer = new DatFileWriter();
+
+    it('should write grids with trailing commas', () => {
+      expect(
+        writer.writeSection('tiles', [
+          [1, 2],
+          [3, 4],
+        ])
+      ).toBe('tiles{\n1,2,\n3,4,\n}');
+    });
+
+    it('should write every objective type', () => {
+      const output = writer.writeSection('objectives', [
+        { type: 'resources', crystals: 10, ore: 5, studs: 0 },
+        { type: 'discovertile', x: 3, y: 4, description: 'Find the cave' },
+        { type: 'variable', condition: 'Done==1', description: 'Finish up' },
+        { type: 'findminer', minerID: 2 },
+        { type: 'findbuilding', x: 7, y: 8 },
+      ]);
+
+      expect(output).toBe(
+        'objectives{\nresources: 10,5,0\ndiscovertile:3,4/Find the cave\n' +
+          'variable:Done==1/Finish up\nfindminer:2\nfindbuilding:7,8\n}'
+      );
+    });
+
+    it('should write creatures over three lines', () => {
+      const parser = new DatFileParser(sampleFile);
+      const creatures = parser.parseSection('creatures');
+
+      expect(writer.writeSection('creatures', creatures)).toBe(
+        sampleFile.slice(sampleFile.indexOf('creatures{'), sampleFile.indexOf('}\nminers{') + 1)
+      );
+    });
+
+    it('should write miner flags before properties', () => {
+      const parser = new DatFileParser(sampleFile);
+      const output = writer.writeSection('miners', parser.parseSection('miners'));
+
+      expect(output).toContain(',Drill/JobDriver/,Essential=true');
+    });
+
+    it('should write visual blocks before their wires', () => {
+      const blocks = [
+        '1/TriggerTimer:10,10,Waves,5.0,30.0,20.5',
+        '2/EventPlace:3,4,0.0,42',
+        '3/EventEmergeCreature:5,5,A,15.0,CreatureRockMonster_C,2.0',
+        '4/EventDrill:6,6',
+        '1-2',
+        '3~4',
+        '1?3',
+      ].join('\n');
+      const parser = new DatFileParser(`blocks{\n${blocks}\n}`);
+
+      expect(writer.writeSection('blocks', parser.parseSection('blocks'))).toBe(
+        `blocks{\n${blocks}\n}`
+      );
+    });
+
+    it('should print script declarations, triggers and event chains', () => {
+      const script = [
+        'bool Open=true',
+        'int Count=3',
+        'string Name="Cave"',
+        'timer Wave=30,20,40,Start',
+        'when(Count>2 and not Open)[Start][Wait]',
+        'Start::',
+        'msg:Name;',
+        '((Count<5))[Count+=1][Open:true];',
+        '',
+        'Wait::;',
+      ].join('\n');
+      const output = writer.writeSection('script', new ScriptParser(script).getScript());
+
+      expect(output).toBe(`script{\n${script}\n}`);
+    });
+  });
+});
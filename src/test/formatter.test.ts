@@ -0,0 +1,198 @@
+import { describe, expect, it } from '@jest/globals';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { DatFormattingProvider } from '../formattingProvider';
+import { DatCstParser } from '../parser/datCstParser';
+import { DEFAULT_FORMAT_OPTIONS, formatDatText, getDatFormatEdits } from '../parser/datFormatter';
+
+// Access the mocked classes
+const TextDocument = (vscode as any).TextDocument;
+const CancellationToken = (vscode as any).CancellationToken;
+
+function findDatFiles(dir: string): string[] {
+  if (!fs.existsSync(dir)) {
+    return [];
+  }
+  return fs.readdirSync(dir, { withFileTypes: true }).flatMap(entry => {
+    const fullPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      return findDatFiles(fullPath);
+    }
+    return entry.name.endsWith('.dat') ? [fullPath] : [];
+  });
+}
+
+const repoRoot = path.join(__dirname, '..', '..');
+const datFiles = [
+  ...findDatFiles(path.join(repoRoot, 'samples', 'levels')),
+  ...findDatFiles(path.join(__dirname, 'golden', 'test-maps')),
+  ...findDatFiles(path.join(repoRoot, 'docs', 'technical-reference', 'code-examples')),
+  ...findDatFiles(
+    path.join(
+      repoRoot,
+      'map-reference-implementations',
+      'groundhog-main',
+      'src',
+      'core',
+      'test_utils',
+      'goldens'
+    )
+  ),
+].map(file => [path.relative(repoRoot, file), file]);
+
+describe('DatFormatter', () => {
+  const level = [
+    'info {',
+    '  levelname:Formatter Test  ',
+    '  rowcount:2',
+    '  biome:rock',
+    '  colcount:3',
+    '  biome:ice',
+    '}',
+    '',
+    'tiles{',
+    '  38,1,38',
+    '  1,101,1,',
+    '}',
+    'buildings{',
+    '  BuildingToolStore_C,Translation: X=450 Y=750.5 Z=0 Rotation: P=0 Y=90 R=0 Scale X=1 Y=1 Z=1,ID=2',
+    '}',
+    'script{',
+    '  int Count=0',
+    '',
+    '',
+    '  when( crystals > 5 )[ Victory ]',
+    '  Victory::',
+    '  msg:Done ;',
+    '}',
+  ].join('\n');
+
+  describe('formatDatText', () => {
+    it('should normalize braces, indentation, grids, coordinates, info keys and script', () => {
+      expect(formatDatText(level).split('\n')).toEqual([
+        'info{',
+        'rowcount:2',
+        'colcount:3',
+        'biome:ice',
+        'levelname:Formatter Test',
+        '}',
+        'tiles{',
+        '38,1,38,',
+        '1,101,1,',
+        '}',
+        'buildings{',
+        'BuildingToolStore_C,Translation: X=450.000 Y=750.500 Z=0.000 Rotation: P=0.000000 Y=90.000000 R=0.000000 Scale X=1.000 Y=1.000 Z=1.000,ID=2',
+        '}',
+        'script{',
+        'int Count=0',
+        '',
+        'when(crystals>5)[Victory]',
+        'Victory::',
+        'msg:Done;',
+        '}',
+      ]);
+    });
+
+    it('should follow the configured info key order', () => {
+      const formatted = formatDatText(level, {
+        infoKeyOrder: ['levelname', 'biome'],
+      }).split('\n');
+
+      expect(formatted.slice(1, 5)).toEqual([
+        'levelname:Formatter Test',
+        'biome:ice',
+        'rowcount:2',
+        'colcount:3',
+      ]);
+    });
+
+    it('should keep sections with errors as written', () => {
+      const text = ['tiles{', '  1,x,3', '}', 'script{', '  when(', '}', 'info{', '  a:1'].join(
+        '\n'
+      );
+
+      expect(formatDatText(text).split('\n')).toEqual([
+        'tiles{',
+        '  1,x,3',
+        '}',
+        'script{',
+        '  when(',
+        '}',
+        'info{',
+        '  a:1',
+      ]);
+    });
+
+    it('should keep the line ending and final newline', () => {
+      expect(formatDatText('tiles{\r\n1,2\r\n}\r\n')).toBe('tiles{\r\n1,2,\r\n}\r\n');
+    });
+
+    it.each(datFiles)('should be idempotent on %s', (_name, file) => {
+      const formatted = formatDatText(fs.readFileSync(file, 'utf8'));
+
+      expect(formatDatText(formatted)).toBe(formatted);
+    });
+
+    it.each(datFiles)('should keep the map of %s', (_name, file) => {
+      const text = fs.readFileSync(file, 'utf8');
+      const before = new DatCstParser(text).toDatFile();
+      const after = new DatCstParser(formatDatText(text)).toDatFile();
+
+      expect(after.tiles).toEqual(before.tiles);
+      expect(after.height).toEqual(before.height);
+      expect(after.resources).toEqual(before.resources);
+      expect(after.buildings).toEqual(before.buildings);
+      expect(after.objectives).toEqual(before.objectives);
+    });
+  });
+
+  describe('getDatFormatEdits', () => {
+    it('should replace only the sections a range touches', () => {
+      const edits = getDatFormatEdits(level, 9, 10, DEFAULT_FORMAT_OPTIONS);
+
+      expect(edits).toEqual([
+        { startLine: 8, endLine: 11, lines: ['tiles{', '38,1,38,', '1,101,1,', '}'] },
+      ]);
+    });
+  });
+
+  describe('DatFormattingProvider', () => {
+    const provider = new DatFormattingProvider();
+    const formattingOptions = { tabSize: 2, insertSpaces: true };
+
+    it('should replace the whole document when it changes', () => {
+      const edits = provider.provideDocumentFormattingEdits(
+        new TextDocument(level, 'manicminers'),
+        formattingOptions,
+        new CancellationToken()
+      ) as vscode.TextEdit[];
+
+      expect(edits).toHaveLength(1);
+      expect(edits[0].range.end.line).toBe(22);
+      expect(edits[0].newText).toBe(formatDatText(level));
+    });
+
+    it('should return no edits for a formatted document', () => {
+      const edits = provider.provideDocumentFormattingEdits(
+        new TextDocument(formatDatText(level), 'manicminers'),
+        formattingOptions,
+        new CancellationToken()
+      );
+
+      expect(edits).toEqual([]);
+    });
+
+    it('should format the sections of a selection', () => {
+      const edits = provider.provideDocumentRangeFormattingEdits(
+        new TextDocument(level, 'manicminers'),
+        new vscode.Range(new vscode.Position(0, 0), new vscode.Position(0, 3)),
+        formattingOptions,
+        new CancellationToken()
+      ) as vscode.TextEdit[];
+
+      expect(edits.map(edit => [edit.range.start.line, edit.range.end.line])).toEqual([[0, 6]]);
+      expect(edits[0].newText.split('\n')[0]).toBe('info{');
+    });
+  });
+});
@@ -1,6 +1,8 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import { DatFileParser } from '../../parser/datFileParser';
+import { walkScript } from '../../parser/scriptParser';
+import { ScriptNode } from '../../types/scriptAstTypes';
 import { DatFileValidator } from '../../validation/datFileValidator';
 import { EnhancedScriptValidator } from '../../validation/enhancedScriptValidator';
 
@@ -213,16 +215,18 @@ export class GoldenTestFramework {
     // Script
     if (datFile.script) {
       output.push('[SCRIPT]');
-      output.push(`variables: ${datFile.script.variables.size}`);
-      output.push(`events: ${datFile.script.events.length}`);
+      const script: ScriptNode = datFile.script;
+      const items = script.items;
+      output.push(`variables: ${items.filter(item => item.kind === 'variable').length}`);
+      output.push(`events: ${items.filter(item => item.kind === 'eventChain').length}`);
 
       // Count command types
       const commandCounts = new Map<string, number>();
-      datFile.script.events.forEach((event: any) => {
-        event.commands.forEach((cmd: any) => {
-          const count = commandCounts.get(cmd.command) || 0;
-          commandCounts.set(cmd.command, count + 1);
-        });
+      walkScript(script, node => {
+        if (node.kind === 'command') {
+          const count = commandCounts.get(node.command.name) || 0;
+          commandCounts.set(node.command.name, count + 1);
+        }
       });
 
       output.push('commands:');
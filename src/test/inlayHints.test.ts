@@ -0,0 +1,84 @@
+import { describe, expect, it } from '@jest/globals';
+import * as vscode from 'vscode';
+import { DatInlayHintsProvider, getDatInlayHints } from '../inlayHintsProvider';
+
+// Access the mocked classes
+const TextDocument = (vscode as any).TextDocument;
+const CancellationToken = (vscode as any).CancellationToken;
+
+describe('Inlay Hints', () => {
+  const level = [
+    'tiles{',
+    '1,38,',
+    '1,1,',
+    '}',
+    'height{',
+    '0,0,',
+    '}',
+    'buildings{',
+    'BuildingToolStore_C',
+    'Translation: X=450.000 Y=750.500 Z=0.000 Rotation: P=0.000000 Y=90.000000 R=0.000000 Scale X=1.000 Y=1.000 Z=1.000',
+    '}',
+    'script{',
+    'int Count=0',
+    'timer Spawner=30,10,20,Wave',
+    'Wave::',
+    'Count+=1;',
+    'starttimer:Spawner;',
+    '}',
+  ].join('\n');
+
+  const describeHints = (text: string, startLine = 0, endLine = 100, tileNames = true) =>
+    getDatInlayHints(text, startLine, endLine, { tileNames }).map(hint => [
+      hint.position.line,
+      hint.position.column,
+      hint.label,
+    ]);
+
+  describe('getDatInlayHints', () => {
+    it('should number grid rows and name tiles', () => {
+      expect(describeHints(level, 0, 6)).toEqual([
+        [1, 0, '0'],
+        [1, 1, 'Ground'],
+        [1, 4, 'Solid Rock'],
+        [2, 0, '1'],
+        [2, 1, 'Ground'],
+        [2, 3, 'Ground'],
+        [5, 0, '0'],
+      ]);
+    });
+
+    it('should leave tile names out when turned off', () => {
+      expect(describeHints(level, 0, 6, false)).toEqual([
+        [1, 0, '0'],
+        [2, 0, '1'],
+        [5, 0, '0'],
+      ]);
+    });
+
+    it('should show the tile an entity stands on', () => {
+      expect(describeHints(level, 7, 10)).toEqual([[9, 114, 'tile 2,1']]);
+    });
+
+    it('should show the type of each variable use', () => {
+      expect(describeHints(level, 11, 17)).toEqual([
+        [15, 5, ': int'],
+        [16, 18, ': timer'],
+      ]);
+    });
+  });
+
+  describe('DatInlayHintsProvider', () => {
+    it('should only answer for the requested range', () => {
+      const hints = new DatInlayHintsProvider().provideInlayHints(
+        new TextDocument(level, 'manicminers'),
+        new vscode.Range(new vscode.Position(15, 0), new vscode.Position(15, 9)),
+        new CancellationToken()
+      ) as vscode.InlayHint[];
+
+      expect(hints).toHaveLength(1);
+      expect(hints[0].label).toBe(': int');
+      expect(hints[0].kind).toBe(vscode.InlayHintKind.Type);
+    });
+  });
+});
@@ -120,10 +120,48 @@ msg:WelcomeMsg;
       const result = parser.parse();
 
       expect(result.script).toBeDefined();
-      expect(result.script!.variables.get('WelcomeMsg')).toBe('Welcome to the test level!');
-      expect(result.script!.events).toHaveLength(2);
-      expect(result.script!.events[1].name).toBe('StartEvent');
-      expect(result.script!.events[1].commands[0].command).toBe('msg');
+      const [init, welcome, start] = result.script!.items;
+      expect(init).toMatchObject({ kind: 'eventChain', name: { name: 'init' }, statements: [] });
+      expect(welcome).toMatchObject({
+        kind: 'variable',
+        varType: { value: 'string' },
+        name: { name: 'WelcomeMsg' },
+        value: { kind: 'string', value: 'Welcome to the test level!', quoted: true },
+      });
+      expect(start).toMatchObject({ kind: 'eventChain', name: { name: 'StartEvent' } });
+      expect(start.kind === 'eventChain' && start.statements[0]).toMatchObject({
+        kind: 'command',
+        command: { name: 'msg' },
+        arguments: [{ kind: 'identifier', name: 'WelcomeMsg' }],
+      });
+    });
+  });
+
+  describe('hazard sections', () => {
+    it('should parse landslide and lava spread interval groups', () => {
+      const parser = new DatFileParser(`landslidefrequency{
+# comment
+30.0:1,2/3,4/
+7.5:5,6/
+}
+lavaspread{
+15.0/2.5:0,1/
+}`);
+      const result = parser.parsePartial();
+
+      expect(result.landslidefrequency).toEqual([
+        {
+          interval: 30,
+          tiles: [
+            { row: 1, col: 2 },
+            { row: 3, col: 4 },
+          ],
+        },
+        { interval: 7.5, tiles: [{ row: 5, col: 6 }] },
+      ]);
+      expect(result.lavaspread).toEqual([
+        { interval: 15, delay: 2.5, tiles: [{ row: 0, col: 1 }] },
+      ]);
     });
   });
 
@@ -202,6 +240,76 @@ buildings{
     expect(toolStoreError).toBeDefined();
   });
 
+  it('should check hazard tiles against the map', () => {
+    const parser = new DatFileParser(`info{
+rowcount:2
+colcount:2
+}
+tiles{
+30,1,
+26,6,
+}
+height{
+0,0,
+0,0,
+}
+landslidefrequency{
+30.0:0,0/0,1/
+30.0:1,0/
+15.0:0,0/5,5/
+}
+lavaspread{
+0.0/0.0:1,1/
+}`);
+    const errors = new DatFileValidator().validate(parser.parse());
+    const hazardMessages = errors
+      .filter(e => e.section === 'landslidefrequency' || e.section === 'lavaspread')
+      .map(e => [e.severity, e.message]);
+
+    expect(hazardMessages).toEqual([
+      ['error', 'Tile 1 at (0, 1) cannot landslide; only tiles 26, 30, 34 can'],
+      ['error', 'landslidefrequency tile (0, 0) has more than one timing'],
+      ['error', 'landslidefrequency tile (5, 5) is outside the map'],
+      ['error', 'lavaspread interval must be positive, found 0'],
+      [
+        'warning',
+        'landslidefrequency repeats timing 30; the game ignores every line after the first',
+      ],
+    ]);
+  });
+
+  it('should check the block graph', () => {
+    const parser = new DatFileParser(`info{
+rowcount:2
+colcount:2
+}
+tiles{
+1,1,
+1,1,
+}
+height{
+0,0,
+0,0,
+}
+blocks{
+1/TriggerTimer:0,0,Waves,5.0,10.0,20.0
+1/EventDrill:1,1
+3/EventPlace:4,4,0.0,42
+1-9
+}`);
+    const errors = new DatFileValidator().validate(parser.parse());
+
+    expect(
+      errors.filter(e => e.section === 'blocks').map(e => [e.severity, e.line, e.message])
+    ).toEqual([
+      ['error', 14, 'Duplicate block ID 1'],
+      ['error', 15, 'Block 3 at 4,4 is outside the map'],
+      ['error', 16, 'Wire references unknown block 9'],
+      ['warning', 15, 'Event block 3 (EventPlace) has no connections'],
+      ['warning', 13, 'Block 1: Timer min (20) is greater than max (10)'],
+    ]);
+  });
+
   it('should detect dimension mismatches', () => {
     const parser = new DatFileParser(`info{
 rowcount:3
@@ -0,0 +1,129 @@
+import { describe, expect, it, beforeEach } from '@jest/globals';
+import * as vscode from 'vscode';
+import { DatRenameProvider } from '../renameProvider';
+
+// Access the mocked classes
+const TextDocument = (vscode as any).TextDocument;
+const CancellationToken = (vscode as any).CancellationToken;
+
+describe('DatRenameProvider', () => {
+  const level = [
+    'objectives{',
+    '  variable:Count>=3/Collect three crystals',
+    '}',
+    'script{',
+    '  int Count=0',
+    '  timer Spawner=30,10,20,Wave',
+    '  when(crystals>Count)[Wave]',
+    '',
+    '  Wave::',
+    '  Count+=1;',
+    '  msg:Count;',
+    '  starttimer:Spawner;',
+    '',
+    '}',
+    'blocks{',
+    '1/TriggerEventChain:0,0,0,Wave',
+    '2/EventCallEvent:0,0,0,Wave',
+    '3/TriggerTimer:0,0,Ticker,5,10,1',
+    '}',
+    'briefing{',
+    'Count the Wave of monsters',
+    '}',
+  ].join('\n');
+
+  let provider: DatRenameProvider;
+  let cancellationToken: vscode.CancellationToken;
+  let document: any;
+
+  const renamedRanges = (line: number, character: number, newName: string) => {
+    const edit = provider.provideRenameEdits(
+      document,
+      new vscode.Position(line, character),
+      newName,
+      cancellationToken
+    ) as any;
+    return edit.replace.mock.calls.map(([, range]: [unknown, vscode.Range]) => [
+      range.start.line,
+      range.start.character,
+      range.end.character,
+    ]);
+  };
+
+  beforeEach(() => {
+    provider = new DatRenameProvider();
+    cancellationToken = new CancellationToken();
+    document = new TextDocument(level, 'manicminers');
+  });
+
+  it('should rename a variable in script and objectives', () => {
+    expect(renamedRanges(4, 7, 'Collected')).toEqual([
+      [1, 11, 16],
+      [4, 6, 11],
+      [6, 16, 21],
+      [9, 2, 7],
+      [10, 6, 11],
+    ]);
+  });
+
+  it('should rename an event chain in script and visual blocks', () => {
+    expect(renamedRanges(6, 24, 'NextWave')).toEqual([
+      [5, 25, 29],
+      [6, 23, 27],
+      [8, 2, 6],
+      [15, 26, 30],
+      [16, 23, 27],
+    ]);
+  });
+
+  it('should rename timers declared in script or by a block', () => {
+    expect(renamedRanges(11, 14, 'WaveTimer')).toEqual([
+      [5, 8, 15],
+      [11, 13, 20],
+    ]);
+    expect(renamedRanges(17, 22, 'Clock2')).toEqual([[17, 19, 25]]);
+  });
+
+  it('should give the name under the cursor as the placeholder', () => {
+    const result = provider.prepareRename(
+      document,
+      new vscode.Position(8, 4),
+      cancellationToken
+    ) as any;
+
+    expect(result.placeholder).toBe('Wave');
+    expect([result.range.start.character, result.range.end.character]).toEqual([2, 6]);
+  });
+
+  it('should refuse to rename reserved words and text', () => {
+    expect(() =>
+      provider.prepareRename(document, new vscode.Position(6, 9), cancellationToken)
+    ).toThrow("'crystals' is a reserved word and cannot be renamed");
+    expect(() =>
+      provider.prepareRename(document, new vscode.Position(20, 2), cancellationToken)
+    ).toThrow('Only script variables, event chains, timers and arrows can be renamed');
+  });
+
+  it('should reject reserved, invalid and taken new names', () => {
+    const rename = (newName: string) => () =>
+      provider.provideRenameEdits(document, new vscode.Position(4, 7), newName, cancellationToken);
+
+    expect(rename('time')).toThrow("'time' is a reserved word");
+    expect(rename('2fast')).toThrow("'2fast' is not a valid name");
+    expect(rename('TimerTriggerCount')).toThrow(
+      "Names starting with 'TimerTrigger' are reserved for visual blocks"
+    );
+    expect(rename('Spawner')).toThrow("A timer named 'Spawner' already exists");
+  });
+
+  it('should refuse to rename while the script has syntax errors', () => {
+    const broken = new TextDocument(level.replace('  msg:Count;', '  msg:Count;)'), 'manicminers');
+
+    expect(() =>
+      provider.provideRenameEdits(broken, new vscode.Position(4, 7), 'Total', cancellationToken)
+    ).toThrow('Fix the script syntax error on line 11 before renaming');
+    expect(() =>
+      provider.prepareRename(broken, new vscode.Position(4, 7), cancellationToken)
+    ).toThrow('Fix the script syntax error on line 11');
+  });
+});
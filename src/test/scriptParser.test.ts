@@ -0,0 +1,228 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { DatFileParser } from '../parser/datFileParser';
+import { ScriptParser, tokenizeScriptLine } from '../parser/scriptParser';
+import { printExpression, printScript } from '../parser/scriptPrinter';
+import { EventChainNode, ExpressionNode, TriggerNode } from '../types/scriptAstTypes';
+
+function parseCondition(condition: string): ExpressionNode {
+  const trigger = new ScriptParser(`if(${condition})[Done]`).getScript().items[0] as TriggerNode;
+  return trigger.event as ExpressionNode;
+}
+
+describe('ScriptParser', () => {
+  describe('tokenizeScriptLine', () => {
+    it('should split operators, strings and comments', () => {
+      const tokens = tokenizeScriptLine('when(crystals>=10)[Msg] # done "x"', 3);
+
+      expect(tokens.map(token => [token.type, token.value])).toEqual([
+        ['identifier', 'when'],
+        ['punctuation', '('],
+        ['identifier', 'crystals'],
+        ['operator', '>='],
+        ['number', '10'],
+        ['punctuation', ')'],
+        ['punctuation', '['],
+        ['identifier', 'Msg'],
+        ['punctuation', ']'],
+        ['comment', '# done "x"'],
+      ]);
+      expect(tokens[2].range).toEqual({
+        start: { line: 3, column: 5 },
+        end: { line: 3, column: 13 },
+      });
+    });
+  });
+
+  describe('declarations', () => {
+    it('should parse every variable type', () => {
+      const script = new ScriptParser(
+        [
+          'int Count=5',
+          'float Rate=-0.5',
+          'bool Done=false',
+          'string Hello="Hi there"',
+          'string Legacy=Old style text',
+          'arrow Guide=green',
+          'timer Wave=30,20,40,Spawn',
+          'miner Chief=0',
+          'building Base=4,5',
+          'intarray Scores',
+        ].join('\n')
+      ).getScript();
+
+      expect(script.items.map(item => item.kind === 'variable' && item.varType.value)).toEqual([
+        'int',
+        'float',
+        'bool',
+        'string',
+        'string',
+        'arrow',
+        'timer',
+        'miner',
+        'building',
+        'intarray',
+      ]);
+      expect(script.items[1]).toMatchObject({ value: { kind: 'number', value: -0.5 } });
+      expect(script.items[3]).toMatchObject({ value: { value: 'Hi there', quoted: true } });
+      expect(script.items[4]).toMatchObject({ value: { value: 'Old style text', quoted: false } });
+      expect(script.items[6]).toMatchObject({
+        value: {
+          kind: 'timerValue',
+          delay: { value: 30 },
+          min: { value: 20 },
+          max: { value: 40 },
+          event: { name: 'Spawn' },
+        },
+      });
+      expect(script.items[8]).toMatchObject({
+        value: { kind: 'tileValue', row: { value: 4 }, col: { value: 5 } },
+      });
+      expect(script.items[9]).not.toHaveProperty('value');
+    });
+  });
+
+  describe('triggers', () => {
+    it('should parse trigger events, conditions and both branches', () => {
+      const trigger = new ScriptParser(
+        'when(enter:5,6:miners)((crystals>10))[Win][Lose]'
+      ).getScript().items[0] as TriggerNode;
+
+      expect(trigger.occurrence.value).toBe('when');
+      expect(trigger.event).toMatchObject({
+        kind: 'triggerEvent',
+        name: { name: 'enter' },
+        arguments: [{ value: 5 }, { value: 6 }, { name: 'miners' }],
+      });
+      expect(trigger.condition).toMatchObject({ kind: 'binary', operator: '>' });
+      expect(trigger.trueBranch?.statements).toMatchObject([{ name: { name: 'Win' } }]);
+      expect(trigger.falseBranch?.statements).toMatchObject([{ name: { name: 'Lose' } }]);
+    });
+
+    it('should parse value triggers as expressions', () => {
+      const script = new ScriptParser(
+        'if(time>60)[Late]\nif(init and Started==false)[Start]\nwhen(Chief.hurt)[Help]'
+      ).getScript();
+
+      expect(script.items.map(item => item.kind === 'trigger' && item.event.kind)).toEqual([
+        'binary',
+        'binary',
+        'member',
+      ]);
+    });
+  });
+
+  describe('expressions', () => {
+    it('should respect operator precedence', () => {
+      const condition = parseCondition('a>1 and not b or c+2*d==e//2');
+
+      expect(condition).toMatchObject({
+        operator: 'or',
+        left: { operator: 'and', right: { kind: 'unary', operator: 'not' } },
+        right: {
+          operator: '==',
+          left: { operator: '+', right: { operator: '*' } },
+          right: { operator: '//' },
+        },
+      });
+      expect(printExpression(condition)).toBe('a>1 and not b or c+2*d==e//2');
+    });
+
+    it('should parse macros with arguments and members', () => {
+      expect(parseCondition('get(3)(4)==1')).toMatchObject({
+        left: { kind: 'call', callee: { name: 'get' }, bracket: '(' },
+      });
+      expect(parseCondition('buildings.BuildingToolStore_C>0')).toMatchObject({
+        left: { kind: 'member', object: { name: 'buildings' } },
+      });
+      expect(parseCondition('Scores[1]>2')).toMatchObject({
+        left: { kind: 'call', bracket: '[', arguments: [{ value: 1 }] },
+      });
+    });
+
+    it('should keep parentheses the precedence needs', () => {
+      expect(printExpression(parseCondition('(a+b)*c>(d)'))).toBe('(a+b)*c>d');
+      expect(printExpression(parseCondition('a-(b-c)>0'))).toBe('a-(b-c)>0');
+    });
+  });
+
+  describe('event chains', () => {
+    it('should parse statements until a blank line', () => {
+      const script = new ScriptParser(
+        [
+          'int Count=0',
+          'Start::',
+          '# a comment keeps the chain going',
+          'Count+=1;',
+          'msg:Hello;',
+          '((Count>2))[Done][Start];',
+          '((Count==1))return;',
+          'Done;',
+          '',
+          'Done::;',
+        ].join('\n')
+      ).getScript();
+      const start = script.items[1] as EventChainNode;
+
+      expect(script.items.map(item => item.kind)).toEqual(['variable', 'eventChain', 'eventChain']);
+      expect(start.statements.map(statement => statement.kind)).toEqual([
+        'comment',
+        'assignment',
+        'command',
+        'conditional',
+        'conditional',
+        'eventCall',
+      ]);
+      expect(start.statements[4]).toMatchObject({
+        trueBranch: { bracketed: false, statements: [{ kind: 'eventCall' }] },
+      });
+      expect(start.range).toEqual({ start: { line: 1, column: 0 }, end: { line: 7, column: 4 } });
+    });
+
+    it('should parse legacy conditions', () => {
+      const chain = new ScriptParser('Start::;\n(Count>2)Done;').getScript()
+        .items[0] as EventChainNode;
+
+      expect(chain.statements[0]).toMatchObject({
+        kind: 'conditional',
+        legacy: true,
+        trueBranch: { statements: [{ name: { name: 'Done' } }] },
+      });
+    });
+  });
+
+  describe('errors', () => {
+    it('should report errors with their lines and keep parsing', () => {
+      const parser = new ScriptParser(
+        'Start::\nmsg:Hi\nwhen(init)[Start\nwhen(init)\ntimer T=5\n',
+        10
+      );
+
+      expect(parser.getErrors().map(error => [error.line, error.message])).toEqual([
+        [11, "Missing ';' at end of statement"],
+        [12, "Missing ']' after event name"],
+        [13, 'Trigger has no event to call'],
+      ]);
+      expect(parser.getScript().items.map(item => item.kind)).toEqual(['eventChain', 'variable']);
+    });
+  });
+
+  describe('printScript', () => {
+    const mapsDir = path.join(__dirname, 'golden', 'test-maps');
+    const maps = fs
+      .readdirSync(mapsDir)
+      .filter(file => file.endsWith('.dat'))
+      .map(file => [file, path.join(mapsDir, file)]);
+
+    it.each(maps)('should print a script that parses back the same for %s', (_name, file) => {
+      const script = new DatFileParser(fs.readFileSync(file, 'utf-8')).parse().script;
+      if (!script) {
+        return;
+      }
+      const printed = printScript(script);
+      const reparsed = new ScriptParser(printed.join('\n')).getScript();
+
+      expect(printScript(reparsed)).toEqual(printed);
+    });
+  });
+});
@@ -0,0 +1,142 @@
+import { describe, expect, it } from '@jest/globals';
+import * as vscode from 'vscode';
+import {
+  DatSemanticTokensProvider,
+  diffSemanticTokens,
+  encodeSemanticTokens,
+  getDatSemanticTokens,
+} from '../semanticTokensProvider';
+
+// Access the mocked classes
+const TextDocument = (vscode as any).TextDocument;
+const CancellationToken = (vscode as any).CancellationToken;
+
+describe('Semantic Tokens', () => {
+  const level = [
+    'tiles{',
+    '1,38,6,42,',
+    '}',
+    'script{',
+    'int Count=0',
+    'timer Spawner=30,10,20,Wave',
+    'when(enter:5,5:miners)[Wave]',
+    'if(Missing>2)[Wave]',
+    '',
+    'Wave::',
+    'Count+=1;',
+    'emerge:8,8,A,CreatureSmallSpider_C,3;',
+    '((buildings.BuildingToolStore_C>0))[Nowhere];',
+    '',
+    '}',
+  ].join('\n');
+
+  const describeTokens = (text: string) => {
+    const lines = text.split('\n');
+    return getDatSemanticTokens(text).map(token => [
+      lines[token.line].slice(token.column, token.column + token.length),
+      token.type,
+      ...token.modifiers,
+    ]);
+  };
+
+  describe('getDatSemanticTokens', () => {
+    it('should color tile IDs by category', () => {
+      expect(describeTokens(level).slice(0, 4)).toEqual([
+        ['1', 'tileFloor'],
+        ['38', 'tileWall'],
+        ['6', 'tileHazard'],
+        ['42', 'tileResource'],
+      ]);
+    });
+
+    it('should tell script names apart', () => {
+      expect(describeTokens(level).slice(4)).toEqual([
+        ['Count', 'variable', 'declaration', 'int'],
+        ['Spawner', 'variable', 'declaration', 'timer'],
+        ['Wave', 'function'],
+        ['when', 'keyword'],
+        ['enter', 'event'],
+        ['miners', 'variable', 'readonly', 'defaultLibrary'],
+        ['Wave', 'function'],
+        ['if', 'keyword'],
+        ['Missing', 'undefinedIdentifier'],
+        ['Wave', 'function'],
+        ['Wave', 'function', 'declaration'],
+        ['Count', 'variable', 'int'],
+        ['emerge', 'function', 'defaultLibrary'],
+        ['A', 'variable', 'readonly', 'defaultLibrary'],
+        ['CreatureSmallSpider_C', 'variable', 'readonly', 'defaultLibrary'],
+        ['buildings', 'variable', 'readonly', 'defaultLibrary'],
+        ['BuildingToolStore_C', 'property'],
+        ['Nowhere', 'undefinedIdentifier'],
+      ]);
+    });
+
+    it('should skip a script with syntax errors', () => {
+      expect(describeTokens('script{\nint Count=0\nwhen(\n}')).toEqual([]);
+    });
+  });
+
+  describe('encodeSemanticTokens', () => {
+    it('should encode positions relative to the previous token', () => {
+      expect(
+        encodeSemanticTokens([
+          { line: 1, column: 4, length: 5, type: 'variable', modifiers: ['declaration', 'int'] },
+          { line: 1, column: 12, length: 2, type: 'function', modifiers: [] },
+          { line: 3, column: 2, length: 3, type: 'tileWall', modifiers: [] },
+        ])
+      ).toEqual([1, 4, 5, 0, 0b1001, 0, 8, 2, 1, 0, 2, 2, 3, 7, 0]);
+    });
+  });
+
+  describe('diffSemanticTokens', () => {
+    it('should replace only what lies between the common start and end', () => {
+      expect(diffSemanticTokens([1, 2, 3, 4, 5], [1, 2, 9, 9, 4, 5])).toEqual({
+        start: 2,
+        deleteCount: 1,
+        data: [9, 9],
+      });
+      expect(diffSemanticTokens([1, 2, 3], [1, 2, 3])).toEqual({
+        start: 3,
+        deleteCount: 0,
+        data: [],
+      });
+    });
+  });
+
+  describe('DatSemanticTokensProvider', () => {
+    it('should answer with an edit against the previous result', () => {
+      const provider = new DatSemanticTokensProvider();
+      const token = new CancellationToken();
+      const full = provider.provideDocumentSemanticTokens(
+        new TextDocument(level, 'manicminers'),
+        token
+      ) as vscode.SemanticTokens;
+
+      const changed = level.replace('1,38,6,42,', '1,38,1,42,');
+      const result = provider.provideDocumentSemanticTokensEdits(
+        new TextDocument(changed, 'manicminers'),
+        full.resultId!,
+        token
+      ) as vscode.SemanticTokensEdits;
+
+      expect(result.edits).toHaveLength(1);
+      expect(result.edits[0].start).toBe(13);
+      expect(result.edits[0].deleteCount).toBe(1);
+      expect(Array.from(result.edits[0].data!)).toEqual([6]);
+      expect(result.resultId).not.toBe(full.resultId);
+    });
+
+    it('should send every token when the previous result is unknown', () => {
+      const provider = new DatSemanticTokensProvider();
+
+      const result = provider.provideDocumentSemanticTokensEdits(
+        new TextDocument(level, 'manicminers'),
+        'stale',
+        new CancellationToken()
+      ) as vscode.SemanticTokens;
+
+      expect(Array.from(result.data)).toEqual(encodeSemanticTokens(getDatSemanticTokens(level)));
+    });
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, expect, it } from '@jest/globals';
+import * as vscode from 'vscode';
+import { DatSignatureHelpProvider, getDatSignatureHelp } from '../signatureHelpProvider';
+
+// Access the mocked classes
+const TextDocument = (vscode as any).TextDocument;
+const CancellationToken = (vscode as any).CancellationToken;
+
+describe('Signature Help', () => {
+  const level = [
+    'script{',
+    'arrow Path=green',
+    'timer Spawner=30,10,20,Ambush',
+    'Ambush::',
+    'emerge:8,8,A,',
+    'msg:"Hello, there";place:3,',
+    'showarrow:2,2,',
+    'when(drill:5,',
+    '}',
+    'blocks{',
+    '1/EventCallEvent:4,4,0.0,',
+    '2/TriggerEnter:1,1,0.0,true,',
+    '}',
+    'tiles{',
+    '1,1,',
+    '}',
+  ].join('\n');
+  const lines = level.split('\n');
+
+  // Signature help at the end of a line
+  const helpAt = (line: number) => getDatSignatureHelp(level, line, lines[line].length);
+
+  const activeLabel = (line: number) => {
+    const help = helpAt(line)!;
+    const [start, end] = help.parameters[help.activeParameter].label;
+    return help.label.slice(start, end);
+  };
+
+  describe('getDatSignatureHelp', () => {
+    it('should describe the command being typed', () => {
+      const help = helpAt(4)!;
+
+      expect(help.label).toBe('emerge:row,col,direction,CreatureType,radius');
+      expect(help.documentation).toBe('Spawn creature from wall');
+      expect(help.activeParameter).toBe(3);
+      expect(help.parameters[3].documentation).toContain('`CreatureRockMonster_C`');
+      expect(help.parameters[2].documentation).toContain('`A` to pick automatically');
+    });
+
+    it('should follow the commas of the last statement on the line', () => {
+      expect(activeLabel(5)).toBe('col');
+      expect(getDatSignatureHelp(level, 5, 'msg:"Hello, th'.length)!.activeParameter).toBe(0);
+    });
+
+    it('should offer tile IDs and declared variables', () => {
+      expect(helpAt(5)!.parameters[2].documentation).toContain('`38` Solid Rock');
+      expect(activeLabel(6)).toBe('ArrowVariable');
+      expect(helpAt(6)!.parameters[2].documentation).toBe('`arrow` variable: `Path`');
+    });
+
+    it('should describe block parameters', () => {
+      expect(helpAt(10)!.label).toBe('EventCallEvent:row,col,cooldown,function');
+      expect(activeLabel(10)).toBe('function');
+      expect(helpAt(10)!.parameters[3].documentation).toBe('Event chain to call: `Ambush`');
+      expect(activeLabel(11)).toBe('vehicles');
+    });
+
+    it('should stay quiet outside commands and blocks', () => {
+      expect(helpAt(3)).toBeUndefined();
+      expect(helpAt(7)).toBeUndefined();
+      expect(helpAt(14)).toBeUndefined();
+    });
+  });
+
+  describe('DatSignatureHelpProvider', () => {
+    it('should return the signature with the active parameter', () => {
+      const help = new DatSignatureHelpProvider().provideSignatureHelp(
+        new TextDocument(level, 'manicminers'),
+        new vscode.Position(4, lines[4].length),
+        new CancellationToken(),
+        {} as vscode.SignatureHelpContext
+      ) as vscode.SignatureHelp;
+
+      expect(help.signatures[0].label).toBe('emerge:row,col,direction,CreatureType,radius');
+      expect(help.signatures[0].parameters[3].label).toEqual([25, 37]);
+      expect(help.activeParameter).toBe(3);
+    });
+  });
+});
@@ -0,0 +1,151 @@
+import { describe, expect, it, beforeEach, jest } from '@jest/globals';
+import * as vscode from 'vscode';
+import {
+  DatDocumentSymbolProvider,
+  DatWorkspaceSymbolProvider,
+  getDatSymbols,
+  matchesSymbolQuery,
+} from '../symbolProvider';
+
+// Access the mocked classes
+const TextDocument = (vscode as any).TextDocument;
+const CancellationToken = (vscode as any).CancellationToken;
+
+describe('Symbol Providers', () => {
+  const coordinates = (x: number, y: number) =>
+    `Translation: X=${x}.000 Y=${y}.000 Z=0.000 Rotation: P=0.000000 Y=0.000000 R=0.000000 Scale X=1.000 Y=1.000 Z=1.000`;
+
+  const level = [
+    'info{',
+    'rowcount:3',
+    'levelname:Crystal Cave',
+    '}',
+    'objectives{',
+    'resources: 10,0,0',
+    '}',
+    'buildings{',
+    'BuildingToolStore_C',
+    coordinates(450, 750),
+    'ID=2',
+    '}',
+    'miners{',
+    `ID=0,${coordinates(150, 150)}`,
+    '}',
+    'script{',
+    'int Count=0',
+    'when(crystals>5)[Victory]',
+    '',
+    'Victory::',
+    'msg:Done;',
+    'win:;',
+    '',
+    '}',
+    'blocks{',
+    '1/TriggerEventChain:0,0,0,Victory',
+    '}',
+  ].join('\n');
+
+  describe('getDatSymbols', () => {
+    it('should list every section with the named things inside it', () => {
+      const symbols = getDatSymbols(level);
+
+      expect(symbols.map(symbol => [symbol.name, symbol.detail])).toEqual([
+        ['info', ''],
+        ['objectives', '1'],
+        ['buildings', '1'],
+        ['miners', '1'],
+        ['script', ''],
+        ['blocks', ''],
+      ]);
+      expect(
+        symbols.flatMap(symbol =>
+          symbol.children.map(child => [child.kind, child.name, child.detail])
+        )
+      ).toEqual([
+        ['infoKey', 'rowcount', '3'],
+        ['infoKey', 'levelname', 'Crystal Cave'],
+        ['objective', 'resources: 10,0,0', ''],
+        ['building', 'BuildingToolStore_C (ID 2)', 'tile 2,1'],
+        ['miner', 'Miner 0', 'tile 0,0'],
+        ['variable', 'Count', 'int'],
+        ['trigger', 'when(crystals>5)', ''],
+        ['eventChain', 'Victory', '2 statements'],
+        ['block', '1/TriggerEventChain', '0,0,0,Victory'],
+      ]);
+    });
+
+    it('should select the name of a symbol within its range', () => {
+      const chain = getDatSymbols(level)[4].children[2];
+
+      expect(chain.selectionRange).toEqual({
+        start: { line: 19, column: 0 },
+        end: { line: 19, column: 7 },
+      });
+      expect(chain.range.start.line).toBe(19);
+      expect(chain.range.end.line).toBeGreaterThanOrEqual(21);
+    });
+  });
+
+  describe('matchesSymbolQuery', () => {
+    it('should match the query characters in order, ignoring case', () => {
+      expect(matchesSymbolQuery('Victory', 'vct')).toBe(true);
+      expect(matchesSymbolQuery('BuildingToolStore_C (ID 2)', 'toolstore')).toBe(true);
+      expect(matchesSymbolQuery('Victory', 'tv')).toBe(false);
+      expect(matchesSymbolQuery('Count', '')).toBe(true);
+    });
+  });
+
+  describe('DatDocumentSymbolProvider', () => {
+    it('should nest symbols under their sections', () => {
+      const provider = new DatDocumentSymbolProvider();
+      const symbols = provider.provideDocumentSymbols(
+        new TextDocument(level, 'manicminers'),
+        new CancellationToken()
+      ) as vscode.DocumentSymbol[];
+
+      expect(symbols[4].name).toBe('script');
+      expect(symbols[4].kind).toBe(vscode.SymbolKind.Namespace);
+      expect(symbols[4].children.map(child => [child.name, child.kind])).toEqual([
+        ['Count', vscode.SymbolKind.Variable],
+        ['when(crystals>5)', vscode.SymbolKind.Event],
+        ['Victory', vscode.SymbolKind.Function],
+      ]);
+    });
+  });
+
+  describe('DatWorkspaceSymbolProvider', () => {
+    beforeEach(() => {
+      (vscode.workspace.findFiles as jest.Mock<any>).mockResolvedValue([
+        vscode.Uri.file('/maps/one.dat'),
+        vscode.Uri.file('/maps/two.dat'),
+      ]);
+      (vscode.workspace.fs.readFile as jest.Mock<any>).mockImplementation((uri: vscode.Uri) =>
+        Promise.resolve(
+          Buffer.from(uri.fsPath.endsWith('one.dat') ? level : 'script{\nTimeUp::\nlose:;\n\n}')
+        )
+      );
+    });
+
+    it('should find symbols in every level of the workspace', async () => {
+      const provider = new DatWorkspaceSymbolProvider();
+
+      const results = await provider.provideWorkspaceSymbols('up', new CancellationToken());
+
+      expect(results.map(result => [result.name, result.containerName])).toEqual([
+        ['TimeUp', 'script · two.dat'],
+      ]);
+      expect(results[0].location.range.start.line).toBe(1);
+    });
+
+    it('should read the workspace only once', async () => {
+      const provider = new DatWorkspaceSymbolProvider();
+      (vscode.workspace.findFiles as jest.Mock<any>).mockClear();
+
+      await provider.provideWorkspaceSymbols('Victory', new CancellationToken());
+      const results = await provider.provideWorkspaceSymbols('TimeUp', new CancellationToken());
+
+      expect(vscode.workspace.findFiles).toHaveBeenCalledTimes(1);
+      expect(results.map(result => result.name)).toEqual(['TimeUp']);
+    });
+  });
+});
@@ -0,0 +1,166 @@
+/**
+ * Concrete syntax tree for Manic Miner .dat files. Every node records the
+ * source range it was parsed from; lines and columns are zero-based and the
+ * end position is exclusive.
+ */
+
+import { Entity, LandslideGroup, LavaSpreadGroup, Objective } from './datFileTypes';
+import { ScriptAstNode, ScriptItemNode } from './scriptAstTypes';
+
+export interface SourcePosition {
+  line: number;
+  column: number;
+}
+
+export interface SourceRange {
+  start: SourcePosition;
+  end: SourcePosition;
+}
+
+// A piece of source text with its range
+export interface CstToken<T = string> {
+  value: T;
+  range: SourceRange;
+}
+
+// Free text line (comments section, briefings, unknown sections)
+export interface TextLineNode {
+  kind: 'text';
+  text: string;
+  range: SourceRange;
+}
+
+// '#' comment inside script and blocks
+export interface CommentNode {
+  kind: 'comment';
+  text: string;
+  range: SourceRange;
+}
+
+// info{} 'key:value' line
+export interface InfoEntryNode {
+  kind: 'infoEntry';
+  key: CstToken;
+  value: CstToken;
+  range: SourceRange;
+}
+
+export interface GridCellNode {
+  kind: 'gridCell';
+  row: number;
+  col: number;
+  value: number;
+  range: SourceRange;
+}
+
+export interface GridRowNode {
+  kind: 'gridRow';
+  cells: GridCellNode[];
+  range: SourceRange;
+}
+
+// 'crystals:' or 'ore:' grid inside resources{}
+export interface ResourceGridNode {
+  kind: 'resourceGrid';
+  name: CstToken<'crystals' | 'ore'>;
+  rows: GridRowNode[];
+  range: SourceRange;
+}
+
+// One comma-separated field of an entity; flags have no key
+export interface EntityFieldNode {
+  kind: 'entityField';
+  key?: CstToken;
+  value: CstToken;
+  range: SourceRange;
+}
+
+export interface EntityNode {
+  kind: 'entity';
+  entityType: CstToken;
+  id?: CstToken;
+  coordinates?: CstToken;
+  fields: EntityFieldNode[];
+  entity?: Entity;
+  range: SourceRange;
+}
+
+export interface ObjectiveNode {
+  kind: 'objective';
+  objectiveType: CstToken;
+  body: CstToken;
+  objective?: Objective;
+  range: SourceRange;
+}
+
+// blocks{} 'id/BlockType:parameters' line
+export interface BlockNode {
+  kind: 'block';
+  id: CstToken<number>;
+  blockType: CstToken;
+  parameters: CstToken[];
+  range: SourceRange;
+}
+
+// blocks{} 'from-to', 'from~to' or 'from?to' line
+export interface WireNode {
+  kind: 'wire';
+  from: CstToken<number>;
+  to: CstToken<number>;
+  wireType: 'normal' | 'backup' | 'random';
+  range: SourceRange;
+}
+
+// 'row,col' pair of a hazard line
+export interface HazardTileNode {
+  kind: 'hazardTile';
+  row: CstToken<number>;
+  col: CstToken<number>;
+  range: SourceRange;
+}
+
+// landslidefrequency{} 'INTERVAL:tiles' or lavaspread{} 'INTERVAL/DELAY:tiles' line
+export interface HazardGroupNode {
+  kind: 'hazardGroup';
+  interval: CstToken;
+  delay?: CstToken;
+  tiles: HazardTileNode[];
+  group?: LandslideGroup | LavaSpreadGroup;
+  range: SourceRange;
+}
+
+export type SectionItemNode =
+  | TextLineNode
+  | CommentNode
+  | InfoEntryNode
+  | GridRowNode
+  | ResourceGridNode
+  | EntityNode
+  | ObjectiveNode
+  | ScriptItemNode
+  | BlockNode
+  | WireNode
+  | HazardGroupNode;
+
+export interface SectionNode {
+  kind: 'section';
+  name: CstToken;
+  closed: boolean;
+  items: SectionItemNode[];
+  range: SourceRange;
+}
+
+export interface DatDocumentNode {
+  kind: 'document';
+  sections: SectionNode[];
+  range: SourceRange;
+}
+
+export type CstNode =
+  | DatDocumentNode
+  | SectionNode
+  | SectionItemNode
+  | GridCellNode
+  | EntityFieldNode
+  | HazardTileNode
+  | ScriptAstNode;
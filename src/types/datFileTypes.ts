@@ -2,6 +2,8 @@
  * Type definitions for Manic Miner .dat file format
  */
 
+import { ScriptNode } from './scriptAstTypes';
+
 // Tile type constants
 export enum TileType {
   Ground = 1,
@@ -113,6 +115,7 @@ export interface Entity {
   type: string;
   coordinates: Coordinates;
   properties?: Record<string, EntityPropertyValue>;
+  flags?: string[]; // Bare values without '=', e.g. miner loadouts like Drill/JobDriver/
 }
 
 // Info section
@@ -134,6 +137,7 @@ export interface InfoSection {
   spidermax?: number;
   erosioninitialwaittime?: number;
   erosionscale?: number;
+  extras?: Record<string, string>; // Keys the parser does not model, kept verbatim
 }
 
 // Objective types
@@ -181,24 +185,47 @@ export type Objective =
   | FindMinerObjective
   | FindBuildingObjective;
 
-// Script types
-export type ScriptVariableValue = string | number | boolean;
+// blocks{} 'ID/BlockType:row,col,...' line
+export interface VisualBlock {
+  id: number;
+  type: 'trigger' | 'event';
+  name: string;
+  row: number;
+  col: number;
+  parameters: Record<string, string | number | boolean>;
+  line?: number;
+}
 
-// Script commands
-export interface ScriptCommand {
-  command: string;
-  parameters: string[];
+// blocks{} 'from-to', 'from~to' or 'from?to' line
+export interface BlockWire {
+  from: number;
+  to: number;
+  type: 'normal' | 'backup' | 'random';
+  line?: number;
 }
 
-export interface ScriptEvent {
-  name: string;
-  condition?: string;
-  commands: ScriptCommand[];
+export interface BlocksSection {
+  blocks: VisualBlock[];
+  wires: BlockWire[];
 }
 
-export interface ScriptSection {
-  variables: Map<string, ScriptVariableValue>;
-  events: ScriptEvent[];
+// Tile position listed in a hazard section
+export interface HazardTile {
+  row: number;
+  col: number;
+}
+
+// landslidefrequency{} 'INTERVAL:row,col/row,col/' line
+export interface LandslideGroup {
+  interval: number;
+  tiles: HazardTile[];
+}
+
+// lavaspread{} 'INTERVAL/DELAY:row,col/row,col/' line
+export interface LavaSpreadGroup {
+  interval: number;
+  delay: number;
+  tiles: HazardTile[];
 }
 
 // Complete DAT file structure
@@ -216,15 +243,18 @@ export interface DatFile {
   vehicles?: Entity[];
   creatures?: Entity[];
   miners?: Entity[];
-  blocks?: number[][];
-  script?: ScriptSection;
+  blocks?: BlocksSection;
+  script?: ScriptNode;
   briefing?: string;
   briefingsuccess?: string;
   briefingfailure?: string;
-  landslidefrequency?: number[][];
-  lavaspread?: number[][];
+  landslidefrequency?: LandslideGroup[];
+  lavaspread?: LavaSpreadGroup[];
 }
 
+// Names of the sections that map onto DatFile fields
+export type DatSectionName = keyof DatFile;
+
 // Parser error types
 export class DatParseError extends Error {
   constructor(
@@ -0,0 +1,243 @@
+/**
+ * Syntax tree for the script{} section. Nodes carry source ranges in the same
+ * zero-based, end-exclusive form as the rest of the .dat syntax tree.
+ */
+
+import { CommentNode, CstToken, SourceRange } from './datCstTypes';
+
+export type ScriptVariableType =
+  | 'int'
+  | 'float'
+  | 'bool'
+  | 'string'
+  | 'arrow'
+  | 'timer'
+  | 'miner'
+  | 'vehicle'
+  | 'creature'
+  | 'building'
+  | 'intarray';
+
+export type ScriptTokenType =
+  | 'identifier'
+  | 'number'
+  | 'string'
+  | 'operator'
+  | 'punctuation'
+  | 'comment'
+  | 'unknown';
+
+export interface ScriptToken {
+  type: ScriptTokenType;
+  value: string;
+  range: SourceRange;
+}
+
+// Expressions
+
+export interface IdentifierNode {
+  kind: 'identifier';
+  name: string;
+  range: SourceRange;
+}
+
+export interface NumberLiteralNode {
+  kind: 'number';
+  value: number;
+  raw: string;
+  range: SourceRange;
+}
+
+// Quoted string, or legacy unquoted text that runs to the end of the value
+export interface StringLiteralNode {
+  kind: 'string';
+  value: string;
+  quoted: boolean;
+  range: SourceRange;
+}
+
+export interface BooleanLiteralNode {
+  kind: 'boolean';
+  value: boolean;
+  range: SourceRange;
+}
+
+// 'buildings.BuildingToolStore_C', 'MyTimer.expired', 'Chief.hp'
+export interface MemberExpressionNode {
+  kind: 'member';
+  object: ExpressionNode;
+  property: IdentifierNode;
+  range: SourceRange;
+}
+
+// 'get(row)(col)' and 'random(min)(max)' take one argument per pair of
+// parentheses; 'foundbuilding[row,col]' and 'Array[index]' use brackets
+export interface CallExpressionNode {
+  kind: 'call';
+  callee: IdentifierNode;
+  arguments: ExpressionNode[];
+  bracket: '(' | '[';
+  range: SourceRange;
+}
+
+export interface UnaryExpressionNode {
+  kind: 'unary';
+  operator: 'not' | '-';
+  argument: ExpressionNode;
+  range: SourceRange;
+}
+
+export type ComparisonOperator = '==' | '!=' | '>' | '<' | '>=' | '<=';
+export type ArithmeticOperator = '+' | '-' | '*' | '/' | '//';
+export type BinaryOperator = 'and' | 'or' | ComparisonOperator | ArithmeticOperator;
+
+export interface BinaryExpressionNode {
+  kind: 'binary';
+  operator: BinaryOperator;
+  left: ExpressionNode;
+  right: ExpressionNode;
+  range: SourceRange;
+}
+
+export type ExpressionNode =
+  | IdentifierNode
+  | NumberLiteralNode
+  | StringLiteralNode
+  | BooleanLiteralNode
+  | MemberExpressionNode
+  | CallExpressionNode
+  | UnaryExpressionNode
+  | BinaryExpressionNode;
+
+// Declarations
+
+// 'delay,min,max,Event' value of a timer; every part is optional
+export interface TimerValueNode {
+  kind: 'timerValue';
+  delay?: ExpressionNode;
+  min?: ExpressionNode;
+  max?: ExpressionNode;
+  event?: IdentifierNode;
+  range: SourceRange;
+}
+
+// 'row,col' value of a building variable
+export interface TileValueNode {
+  kind: 'tileValue';
+  row: ExpressionNode;
+  col: ExpressionNode;
+  range: SourceRange;
+}
+
+export type VariableValueNode = ExpressionNode | TimerValueNode | TileValueNode;
+
+// 'int Name=value'; the value is optional for every type
+export interface ScriptVariableNode {
+  kind: 'variable';
+  varType: CstToken<ScriptVariableType>;
+  name: IdentifierNode;
+  value?: VariableValueNode;
+  range: SourceRange;
+}
+
+// Statements
+
+// 'command:arg,arg;'
+export interface ScriptCommandNode {
+  kind: 'command';
+  command: IdentifierNode;
+  arguments: ExpressionNode[];
+  range: SourceRange;
+}
+
+export type AssignmentOperator = ':' | '=' | '+=' | '-=' | '*=' | '/=';
+
+// 'Var:value;', 'Var+=value;', 'Array[index]:value;'
+export interface AssignmentNode {
+  kind: 'assignment';
+  target: IdentifierNode | CallExpressionNode;
+  operator: AssignmentOperator;
+  value: ExpressionNode;
+  range: SourceRange;
+}
+
+// 'EventName;'
+export interface EventCallNode {
+  kind: 'eventCall';
+  name: IdentifierNode;
+  range: SourceRange;
+}
+
+// '[Event]' or '[statement; statement]' after a trigger or condition. An
+// unbracketed branch is the single statement following '((condition))'.
+export interface BranchNode {
+  kind: 'branch';
+  statements: ScriptStatementNode[];
+  bracketed: boolean;
+  range: SourceRange;
+}
+
+// '((condition))[True][False];', '((condition))statement;' or the legacy
+// '(condition)statement;' form
+export interface ConditionalNode {
+  kind: 'conditional';
+  condition: ExpressionNode;
+  trueBranch?: BranchNode;
+  falseBranch?: BranchNode;
+  legacy: boolean;
+  range: SourceRange;
+}
+
+export type ScriptStatementNode =
+  | ScriptCommandNode
+  | AssignmentNode
+  | EventCallNode
+  | ConditionalNode
+  | CommentNode;
+
+// Top level items
+
+// 'enter:row,col:miners', 'built:BuildingToolStore_C'; arguments are listed in
+// source order whether they were separated by ',' or ':'
+export interface TriggerEventNode {
+  kind: 'triggerEvent';
+  name: IdentifierNode;
+  arguments: ExpressionNode[];
+  range: SourceRange;
+}
+
+// 'when(trigger)((condition))[True][False]'. Value triggers such as
+// 'time>60' or 'init' are plain expressions.
+export interface TriggerNode {
+  kind: 'trigger';
+  occurrence: CstToken<'if' | 'when'>;
+  event: TriggerEventNode | ExpressionNode;
+  condition?: ExpressionNode;
+  trueBranch?: BranchNode;
+  falseBranch?: BranchNode;
+  range: SourceRange;
+}
+
+// 'EventName::' followed by its statements, ended by a blank line
+export interface EventChainNode {
+  kind: 'eventChain';
+  name: IdentifierNode;
+  statements: ScriptStatementNode[];
+  range: SourceRange;
+}
+
+export type ScriptItemNode = ScriptVariableNode | TriggerNode | EventChainNode | CommentNode;
+
+export interface ScriptNode {
+  kind: 'script';
+  items: ScriptItemNode[];
+  range: SourceRange;
+}
+
+export type ScriptAstNode =
+  | ScriptNode
+  | ScriptItemNode
+  | ScriptStatementNode
+  | BranchNode
+  | TriggerEventNode
+  | VariableValueNode;
@@ -382,6 +382,57 @@ describe('DatFileValidator - Enhanced Features', () => {
       expect(oreWarning).toBeDefined();
     });
 
+    it('should warn about loose resources on tiles that cannot be drilled', () => {
+      const datFile = {
+        ...baseDatFile,
+        tiles: [[1, 38, 26, 1, 1, 1, 1, 1, 1, 1], ...Array(9).fill(Array(10).fill(1))],
+        resources: {
+          crystals: [[3, 2, 4, 0, 0, 0, 0, 0, 0, 0], ...Array(9).fill(Array(10).fill(0))],
+        },
+      };
+
+      const warnings = validator.validate(datFile).filter(e => e.section === 'resources.crystals');
+
+      expect(warnings).toHaveLength(1);
+      expect(warnings[0]).toMatchObject({ line: 0, column: 1, severity: 'warning' });
+      expect(warnings[0].message).toContain('2 crystals at 0,1');
+    });
+
+    it('should accept loose resource counts above one', () => {
+      const datFile = {
+        ...baseDatFile,
+        resources: {
+          crystals: [[3, 0, 0, 0, 0, 0, 0, 0, 0, 0], ...Array(9).fill(Array(10).fill(0))],
+          ore: [[0, 12, 0, 0, 0, 0, 0, 0, 0, 0], ...Array(9).fill(Array(10).fill(0))],
+        },
+      };
+
+      const resourceErrors = validator
+        .validate(datFile)
+        .filter(e => e.section?.startsWith('resources'));
+
+      expect(resourceErrors).toHaveLength(0);
+    });
+
+    it('should reject negative and fractional loose resource counts', () => {
+      const datFile = {
+        ...baseDatFile,
+        resources: {
+          crystals: [[-1, 1.5, 0, 0, 0, 0, 0, 0, 0, 0], ...Array(9).fill(Array(10).fill(0))],
+        },
+      };
+
+      const messages = validator
+        .validate(datFile)
+        .filter(e => e.severity === 'error' && e.section === 'resources.crystals')
+        .map(e => e.message);
+
+      expect(messages).toEqual([
+        'resources.crystals value -1 is below minimum 0',
+        'resources.crystals must contain whole numbers, found 1.5',
+      ]);
+    });
+
     it('should validate building objectives', () => {
       const datFile = {
         ...baseDatFile,
@@ -1,6 +1,15 @@
-import { DatFile, ValidationError, InfoSection, Entity, BuildingType } from '../types/datFileTypes';
+import {
+  DatFile,
+  ValidationError,
+  InfoSection,
+  Entity,
+  BuildingType,
+  LandslideGroup,
+  LavaSpreadGroup,
+} from '../types/datFileTypes';
 import { getTileInfo } from '../data/tileDefinitions';
 import { EnhancedScriptValidator } from './enhancedScriptValidator';
+import { VisualBlocksValidator } from './visualBlocksValidator';
 import {
   getEnhancedTileInfo,
   isReinforcedTile,
@@ -9,6 +18,9 @@ import {
 import { getExtendedTileInfo } from '../data/extendedTileDefinitions';
 import { getAdvancedTileInfo, Hardness } from '../data/advancedTileDefinitions';
 
+// Only regular dirt, loose rock and hard rock walls can landslide
+const LANDSLIDE_TILES = [26, 30, 34];
+
 export class DatFileValidator {
   private errors: ValidationError[] = [];
   private warnings: ValidationError[] = [];
@@ -27,7 +39,7 @@ export class DatFileValidator {
 
     // Validate optional sections
     if (datFile.resources) {
-      this.validateResources(datFile.resources, datFile.info);
+      this.validateResources(datFile.resources, datFile.info, datFile.tiles);
     }
     if (datFile.objectives) {
       this.validateObjectives(datFile);
@@ -42,20 +54,20 @@ export class DatFileValidator {
       this.validateEntities(datFile.creatures, 'creatures', datFile.info);
     }
     if (datFile.blocks) {
-      this.validateGrid(datFile.blocks, datFile.info, 'blocks', true);
+      const blocksValidator = new VisualBlocksValidator();
+      for (const error of blocksValidator.validate(datFile.blocks, datFile.info)) {
+        if (error.severity === 'error') {
+          this.errors.push(error);
+        } else {
+          this.warnings.push(error);
+        }
+      }
     }
     if (datFile.landslidefrequency) {
-      this.validateGrid(
-        datFile.landslidefrequency,
-        datFile.info,
-        'landslidefrequency',
-        false,
-        0,
-        100
-      );
+      this.validateHazards(datFile.landslidefrequency, datFile, 'landslidefrequency');
     }
     if (datFile.lavaspread) {
-      this.validateGrid(datFile.lavaspread, datFile.info, 'lavaspread');
+      this.validateHazards(datFile.lavaspread, datFile, 'lavaspread');
     }
     if (datFile.script) {
       // Use enhanced script validator
@@ -482,13 +494,41 @@ export class DatFileValidator {
    */
   private validateResources(
     resources: { crystals?: number[][]; ore?: number[][] },
-    info: InfoSection
+    info: InfoSection,
+    tiles: number[][]
   ): void {
-    if (resources.crystals) {
-      this.validateGrid(resources.crystals, info, 'resources.crystals', true);
-    }
-    if (resources.ore) {
-      this.validateGrid(resources.ore, info, 'resources.ore', true);
+    for (const type of ['crystals', 'ore'] as const) {
+      const grid = resources[type];
+      if (!grid) {
+        continue;
+      }
+      this.validateGrid(grid, info, `resources.${type}`, false, 0);
+
+      // Loose resources inside a wall are released when it is drilled, so
+      // only tiles that can never be drilled leave them out of reach
+      for (let row = 0; row < grid.length; row++) {
+        for (let col = 0; col < grid[row].length; col++) {
+          const count = grid[row][col];
+          if (!Number.isInteger(count)) {
+            this.addError(
+              `resources.${type} must contain whole numbers, found ${count}`,
+              row,
+              col,
+              `resources.${type}`
+            );
+            continue;
+          }
+          const tileInfo = getAdvancedTileInfo(tiles[row]?.[col]);
+          if (count > 0 && tileInfo && !tileInfo.isFloor && !tileInfo.canDrill) {
+            this.addWarning(
+              `${count} ${type} at ${row},${col} are on a tile that cannot be drilled (${tileInfo.name}) and cannot be collected`,
+              row,
+              col,
+              `resources.${type}`
+            );
+          }
+        }
+      }
     }
   }
 
@@ -798,6 +838,71 @@ export class DatFileValidator {
     }
   }
 
+  /**
+   * Validate landslidefrequency or lavaspread interval groups. The engine
+   * ignores repeated lines with the same timing, and each tile may only have
+   * one timing.
+   */
+  private validateHazards(
+    groups: (LandslideGroup | LavaSpreadGroup)[],
+    datFile: DatFile,
+    section: 'landslidefrequency' | 'lavaspread'
+  ): void {
+    const { rowcount, colcount } = datFile.info;
+    const timings = new Set<string>();
+    const tiles = new Set<string>();
+
+    groups.forEach((group, index) => {
+      const timing = 'delay' in group ? `${group.interval}/${group.delay}` : `${group.interval}`;
+
+      if (group.interval <= 0) {
+        this.addError(
+          `${section} interval must be positive, found ${group.interval}`,
+          index,
+          0,
+          section
+        );
+      }
+      if (timings.has(timing)) {
+        this.addWarning(
+          `${section} repeats timing ${timing}; the game ignores every line after the first`,
+          index,
+          0,
+          section
+        );
+      }
+      timings.add(timing);
+
+      for (const { row, col } of group.tiles) {
+        if (row >= rowcount || col >= colcount) {
+          this.addError(`${section} tile (${row}, ${col}) is outside the map`, index, 0, section);
+          continue;
+        }
+
+        const key = `${row},${col}`;
+        if (tiles.has(key)) {
+          this.addError(
+            `${section} tile (${row}, ${col}) has more than one timing`,
+            index,
+            0,
+            section
+          );
+        }
+        tiles.add(key);
+
+        const tileId = datFile.tiles[row]?.[col];
+        if (section === 'landslidefrequency' && !LANDSLIDE_TILES.includes(tileId)) {
+          this.addError(
+            `Tile ${tileId} at (${row}, ${col}) cannot landslide; only tiles ${LANDSLIDE_TILES.join(', ')} can`,
+            index,
+            0,
+            section
+          );
+        }
+      }
+    });
+  }
+
   /**
    * Count resources in a grid
    */
@@ -862,9 +967,11 @@ export class DatFileValidator {
     // Collect variables from script section if it exists
     const scriptVariables = new Set<string>();
     if (datFile.script) {
-      datFile.script.variables.forEach((_value, name) => {
-        scriptVariables.add(name);
-      });
+      for (const item of datFile.script.items) {
+        if (item.kind === 'variable') {
+          scriptVariables.add(item.name.name);
+        }
+      }
     }
 
     // Parse the condition for variable references
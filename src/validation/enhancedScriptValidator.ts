@@ -1,7 +1,24 @@
-import { ScriptSection, ValidationError } from '../types/datFileTypes';
+import { printExpression, printScriptItem, printStatement } from '../parser/scriptPrinter';
+import { getBranchEvent } from '../parser/scriptParser';
+import { SourcePosition } from '../types/datCstTypes';
+import { ValidationError } from '../types/datFileTypes';
+import {
+  AssignmentNode,
+  BranchNode,
+  ExpressionNode,
+  IdentifierNode,
+  MemberExpressionNode,
+  ScriptCommandNode,
+  ScriptNode,
+  ScriptStatementNode,
+  ScriptVariableType,
+  TriggerNode,
+  VariableValueNode,
+} from '../types/scriptAstTypes';
 import {
   SCRIPT_COMMANDS,
   SCRIPT_MACROS,
+  TRIGGER_TYPES,
   CREATURE_TYPES,
   BUILDING_TYPES,
   VEHICLE_TYPES,
@@ -15,34 +32,39 @@ import {
   DeadlockDetector,
 } from './advancedScriptPatterns';
 
+// Macros a script may assign to as well as read
+export const WRITABLE_MACROS = ['air', 'crystals', 'ore', 'studs', 'erosionscale'];
+// Variable types whose values are game objects with properties such as '.hp'
+const OBJECT_VARIABLE_TYPES: ScriptVariableType[] = ['miner', 'vehicle', 'creature', 'building'];
+
 export class EnhancedScriptValidator {
   private errors: ValidationError[] = [];
   private warnings: ValidationError[] = [];
 
   // Track script state
-  private definedVariables = new Map<string, string>(); // name -> type
+  private definedVariables = new Map<string, ScriptVariableType>();
   private definedTimers = new Set<string>();
   private definedArrows = new Set<string>();
-  private eventNames = new Set<string>();
+  private definedEvents = new Set<string>();
 
   constructor() {}
 
   /**
    * Validate a script section with enhanced rules
    */
-  public validate(script: ScriptSection): ValidationError[] {
+  public validate(script: ScriptNode): ValidationError[] {
     this.errors = [];
     this.warnings = [];
     this.definedVariables.clear();
     this.definedTimers.clear();
     this.definedArrows.clear();
-    this.eventNames.clear();
+    this.definedEvents.clear();
 
-    // First pass: collect all variable declarations
-    this.collectVariables(script);
+    // First pass: collect all declarations and event chains
+    this.collectDeclarations(script);
 
-    // Second pass: validate events and commands
-    this.validateEvents(script);
+    // Second pass: validate triggers, events and commands
+    this.validateItems(script);
 
     // Third pass: detect advanced patterns
     this.detectAdvancedPatterns(script);
@@ -51,244 +73,341 @@ export class EnhancedScriptValidator {
   }
 
   /**
-   * Collect all variable declarations
+   * Collect variable declarations and event chain names
    */
-  private collectVariables(script: ScriptSection): void {
-    script.variables.forEach((value: unknown, name: string) => {
-      // Parse typed declarations (e.g., "int Counter=0")
-      const typeMatch = name.match(/^(int|float|bool|string|arrow|timer)\s+(\w+)$/);
-
-      if (typeMatch) {
-        const [, type, varName] = typeMatch;
-        this.definedVariables.set(varName, type);
-
-        if (type === 'timer') {
-          this.definedTimers.add(varName);
-          this.validateTimerSyntax(varName, value);
-        } else if (type === 'arrow') {
-          this.definedArrows.add(varName);
-        }
-      } else {
-        // Legacy format or simple assignment
-        this.definedVariables.set(name, 'unknown');
+  private collectDeclarations(script: ScriptNode): void {
+    for (const item of script.items) {
+      if (item.kind === 'variable') {
+        const name = item.name.name;
+        this.definedVariables.set(name, item.varType.value);
 
-        // Try to infer type
-        if (name.toLowerCase().includes('timer')) {
+        if (item.varType.value === 'timer') {
           this.definedTimers.add(name);
-          this.validateTimerSyntax(name, value);
+        } else if (item.varType.value === 'arrow') {
+          this.definedArrows.add(name);
+        }
+      } else if (item.kind === 'eventChain') {
+        const name = item.name.name;
+        if (this.definedEvents.has(name)) {
+          this.addWarning(
+            `Duplicate event name: ${name}`,
+            item.name.range.start.line,
+            item.name.range.start.column,
+            'script'
+          );
         }
+        this.definedEvents.add(name);
       }
-    });
+    }
+  }
+
+  /**
+   * Validate every top level item
+   */
+  private validateItems(script: ScriptNode): void {
+    for (const item of script.items) {
+      switch (item.kind) {
+        case 'variable':
+          if (item.varType.value === 'timer' && item.value) {
+            this.validateTimer(item.name.name, item.value);
+          }
+          break;
+        case 'trigger':
+          this.validateTrigger(item);
+          break;
+        case 'eventChain':
+          for (const statement of item.statements) {
+            this.validateStatement(statement, item.name.name);
+          }
+          break;
+      }
+    }
   }
 
   /**
    * Validate timer syntax
    */
-  private validateTimerSyntax(name: string, value: unknown): void {
-    if (typeof value === 'string') {
-      const timerMatch = value.match(
-        /^(\d+(?:\.\d+)?)(?:,(\d+(?:\.\d+)?))?(?:,(\d+(?:\.\d+)?))?(?:,(\w+))?$/
+  private validateTimer(name: string, value: VariableValueNode): void {
+    if (value.kind !== 'timerValue') {
+      this.addError(
+        `Invalid timer syntax for '${name}': ${printExpression(value as ExpressionNode)}. Expected: delay[,min,max][,event]`,
+        value.range.start.line,
+        value.range.start.column,
+        'script'
       );
-      if (!timerMatch) {
+      return;
+    }
+
+    for (const part of [value.delay, value.min, value.max]) {
+      if (part && part.kind !== 'number') {
         this.addError(
-          `Invalid timer syntax for '${name}': ${value}. Expected: delay[,min,max][,event]`,
-          0,
-          0,
+          `Invalid timer syntax for '${name}': ${printExpression(part)} is not a number. Expected: delay[,min,max][,event]`,
+          part.range.start.line,
+          part.range.start.column,
           'script'
         );
-      } else {
-        const [, , min, max, eventName] = timerMatch;
-
-        // Validate timer values
-        if (min && max && parseFloat(min) > parseFloat(max)) {
-          this.addWarning(
-            `Timer '${name}' has min (${min}) greater than max (${max})`,
-            0,
-            0,
-            'script'
-          );
-        }
+      }
+    }
 
-        // Check if event exists (will be validated in second pass)
-        if (eventName) {
-          // Store for later validation
-          this.eventNames.add(eventName);
-        }
+    // Validate timer values
+    if (value.min?.kind === 'number' && value.max?.kind === 'number') {
+      if (value.min.value > value.max.value) {
+        this.addWarning(
+          `Timer '${name}' has min (${value.min.raw}) greater than max (${value.max.raw})`,
+          value.min.range.start.line,
+          value.min.range.start.column,
+          'script'
+        );
       }
     }
+
+    if (value.event && !this.definedEvents.has(value.event.name)) {
+      this.addWarning(
+        `Timer references undefined event: ${value.event.name}`,
+        value.event.range.start.line,
+        value.event.range.start.column,
+        'script'
+      );
+    }
   }
 
   /**
-   * Validate all events
+   * Validate an if()/when() trigger, its condition and the events it calls
    */
-  private validateEvents(script: ScriptSection): void {
-    const definedEvents = new Set<string>();
-
-    for (const event of script.events) {
-      // Check for duplicate event names
-      if (definedEvents.has(event.name)) {
-        this.addWarning(`Duplicate event name: ${event.name}`, 0, 0, 'script');
-      }
-      definedEvents.add(event.name);
+  private validateTrigger(trigger: TriggerNode): void {
+    const owner = getBranchEvent(trigger.trueBranch)?.name || trigger.occurrence.value;
 
-      // Validate event condition
-      if (event.condition) {
-        this.validateCondition(event.condition, event.name);
+    if (trigger.event.kind === 'triggerEvent') {
+      const name = trigger.event.name;
+      if (!(name.name in TRIGGER_TYPES)) {
+        this.addWarning(
+          `Unknown trigger '${name.name}'`,
+          name.range.start.line,
+          name.range.start.column,
+          'script'
+        );
       }
+    } else {
+      this.validateExpression(trigger.event, owner);
+    }
 
-      // Validate commands
-      for (const command of event.commands) {
-        this.validateCommand(command, event.name);
-      }
+    if (trigger.condition) {
+      this.validateExpression(trigger.condition, owner);
     }
+    this.validateBranch(trigger.trueBranch, owner);
+    this.validateBranch(trigger.falseBranch, owner);
+  }
 
-    // Check for referenced but undefined events
-    for (const eventName of this.eventNames) {
-      if (!definedEvents.has(eventName)) {
-        this.addWarning(`Timer references undefined event: ${eventName}`, 0, 0, 'script');
-      }
+  private validateBranch(branch: BranchNode | undefined, owner: string): void {
+    for (const statement of branch?.statements || []) {
+      this.validateStatement(statement, owner);
     }
   }
 
   /**
-   * Validate a condition expression
+   * Validate a statement of an event chain or branch
    */
-  private validateCondition(condition: string, eventName: string): void {
-    // Extract all variable/macro references
-    const refs = condition.match(/\b[a-zA-Z_]\w*(?:\.\w+)?/g) || [];
-
-    for (const ref of refs) {
-      // Skip operators and keywords
-      if (['and', 'or', 'not', 'true', 'false', 'AND', 'OR', 'NOT'].includes(ref)) {
-        continue;
-      }
-
-      // Check if it's a defined variable
-      if (this.definedVariables.has(ref)) {
-        continue;
-      }
+  private validateStatement(statement: ScriptStatementNode, owner: string): void {
+    switch (statement.kind) {
+      case 'command':
+        this.validateCommand(statement, owner);
+        break;
 
-      // Check if it's a valid macro
-      if (SCRIPT_MACROS[ref as keyof typeof SCRIPT_MACROS]) {
-        continue;
-      }
+      case 'assignment':
+        this.validateAssignment(statement, owner);
+        break;
 
-      // Check for timer macros (TimerName.remaining, TimerName.expired)
-      const timerMatch = ref.match(/^(\w+)\.(remaining|expired)$/);
-      if (timerMatch) {
-        const [, timerName] = timerMatch;
-        if (this.definedTimers.has(timerName)) {
-          continue; // Valid timer macro
-        } else {
+      case 'eventCall': {
+        const name = statement.name.name;
+        if (name !== 'return' && !this.definedEvents.has(name)) {
           this.addWarning(
-            `Condition in '${eventName}' references undefined timer: ${timerName}`,
-            0,
-            0,
+            `Event '${owner}' calls undefined event chain: ${name}`,
+            statement.name.range.start.line,
+            statement.name.range.start.column,
             'script'
           );
-          continue;
         }
+        break;
       }
 
-      // Check for building/creature/vehicle counts
-      const entityMatch = ref.match(/^(buildings|creatures|vehicles)\.(\w+)$/);
-      if (entityMatch) {
-        const [, category, entityType] = entityMatch;
-        let validTypes: readonly string[] = [];
-
-        switch (category) {
-          case 'buildings':
-            validTypes = BUILDING_TYPES;
-            break;
-          case 'creatures':
-            validTypes = CREATURE_TYPES;
-            break;
-          case 'vehicles':
-            validTypes = VEHICLE_TYPES;
-            break;
-        }
+      case 'conditional':
+        this.validateExpression(statement.condition, owner);
+        this.validateBranch(statement.trueBranch, owner);
+        this.validateBranch(statement.falseBranch, owner);
+        break;
+    }
+  }
 
-        if (validTypes.includes(entityType)) {
-          continue; // Valid entity reference
-        } else {
+  /**
+   * Validate the references in a condition or value expression
+   */
+  private validateExpression(expression: ExpressionNode, eventName: string): void {
+    switch (expression.kind) {
+      case 'identifier':
+        this.validateReference(expression, eventName);
+        break;
+      case 'member':
+        this.validateMember(expression, eventName);
+        break;
+      case 'call': {
+        const callee = expression.callee;
+        const isArray = this.definedVariables.get(callee.name) === 'intarray';
+        if (!isArray && !(callee.name in SCRIPT_MACROS) && !(callee.name in TRIGGER_TYPES)) {
           this.addWarning(
-            `Unknown ${category} type '${entityType}' in event '${eventName}'`,
-            0,
-            0,
+            `Event '${eventName}' references undefined variable or macro: ${callee.name}`,
+            callee.range.start.line,
+            callee.range.start.column,
             'script'
           );
-          continue;
         }
+        expression.arguments.forEach(arg => this.validateExpression(arg, eventName));
+        break;
       }
+      case 'unary':
+        this.validateExpression(expression.argument, eventName);
+        break;
+      case 'binary':
+        this.validateExpression(expression.left, eventName);
+        this.validateExpression(expression.right, eventName);
+        break;
+    }
+  }
 
-      // Unknown reference
-      this.addWarning(
-        `Event '${eventName}' references undefined variable or macro: ${ref}`,
-        0,
-        0,
-        'script'
-      );
+  private validateReference(identifier: IdentifierNode, eventName: string): void {
+    const name = identifier.name;
+    if (
+      this.definedVariables.has(name) ||
+      name in SCRIPT_MACROS ||
+      name in TRIGGER_TYPES ||
+      this.definedEvents.has(name)
+    ) {
+      return;
     }
+
+    this.addWarning(
+      `Event '${eventName}' references undefined variable or macro: ${name}`,
+      identifier.range.start.line,
+      identifier.range.start.column,
+      'script'
+    );
   }
 
   /**
-   * Validate a single command
+   * Validate 'object.property' references
    */
-  private validateCommand(
-    command: { command: string; parameters: string[] },
-    eventName: string
-  ): void {
-    const cmdName = command.command.toLowerCase();
+  private validateMember(member: MemberExpressionNode, eventName: string): void {
+    const ref = printExpression(member);
+    if (ref in SCRIPT_MACROS || member.object.kind !== 'identifier') {
+      return;
+    }
 
-    // Check for variable assignment (varName:value)
-    if (command.command.includes(':') && !SCRIPT_COMMANDS[cmdName]) {
-      const parts = command.command.split(':');
-      if (parts.length === 2) {
-        const [varName, value] = parts;
+    const objectName = member.object.name;
+    const property = member.property.name;
+    const position = member.range.start;
 
-        // Check if variable is defined
-        if (!this.definedVariables.has(varName.trim())) {
-          this.addWarning(
-            `Assignment to undefined variable '${varName}' in event '${eventName}'`,
-            0,
-            0,
-            'script'
-          );
-        }
+    // Check for timer macros (TimerName.remaining, TimerName.expired)
+    if (property === 'remaining' || property === 'expired') {
+      if (!this.definedTimers.has(objectName)) {
+        this.addWarning(
+          `Condition in '${eventName}' references undefined timer: ${objectName}`,
+          position.line,
+          position.column,
+          'script'
+        );
+      }
+      return;
+    }
 
-        // Validate math operations
-        if (
-          value.includes('+') ||
-          value.includes('-') ||
-          value.includes('*') ||
-          value.includes('//')
-        ) {
-          this.validateMathExpression(value, eventName);
-        }
+    // Check for building/creature/vehicle counts
+    if (objectName === 'buildings' || objectName === 'creatures' || objectName === 'vehicles') {
+      let validTypes: readonly string[] = [];
+
+      switch (objectName) {
+        case 'buildings':
+          validTypes = BUILDING_TYPES;
+          break;
+        case 'creatures':
+          validTypes = CREATURE_TYPES;
+          break;
+        case 'vehicles':
+          validTypes = VEHICLE_TYPES;
+          break;
+      }
 
-        return;
+      if (!validTypes.includes(property)) {
+        this.addWarning(
+          `Unknown ${objectName} type '${property}' in event '${eventName}'`,
+          position.line,
+          position.column,
+          'script'
+        );
       }
+      return;
     }
 
+    // Properties of miner, vehicle, creature and building variables
+    const type = this.definedVariables.get(objectName);
+    if (type && OBJECT_VARIABLE_TYPES.includes(type)) {
+      return;
+    }
+
+    // Unknown reference
+    this.addWarning(
+      `Event '${eventName}' references undefined variable or macro: ${ref}`,
+      position.line,
+      position.column,
+      'script'
+    );
+  }
+
+  /**
+   * Validate a variable assignment
+   */
+  private validateAssignment(assignment: AssignmentNode, eventName: string): void {
+    const target = assignment.target.kind === 'call' ? assignment.target.callee : assignment.target;
+
+    // Check if variable is defined
+    if (!this.definedVariables.has(target.name) && !WRITABLE_MACROS.includes(target.name)) {
+      this.addWarning(
+        `Assignment to undefined variable '${target.name}' in event '${eventName}'`,
+        target.range.start.line,
+        target.range.start.column,
+        'script'
+      );
+    }
+
+    if (assignment.target.kind === 'call') {
+      assignment.target.arguments.forEach(arg => this.validateExpression(arg, eventName));
+    }
+    this.validateExpression(assignment.value, eventName);
+  }
+
+  /**
+   * Validate a single command
+   */
+  private validateCommand(command: ScriptCommandNode, eventName: string): void {
+    const cmdName = command.command.name.toLowerCase();
+    const position = command.range.start;
+
     // Check if command exists
     const cmdDef = SCRIPT_COMMANDS[cmdName];
     if (!cmdDef) {
       this.addWarning(
-        `Unknown script command '${command.command}' in event '${eventName}'`,
-        0,
-        0,
+        `Unknown script command '${command.command.name}' in event '${eventName}'`,
+        position.line,
+        position.column,
         'script'
       );
       return;
     }
 
     // Validate parameter count
-    const paramCount = command.parameters.length;
+    const paramCount = command.arguments.length;
     if (paramCount < cmdDef.params.min) {
       this.addError(
         `'${cmdName}' requires at least ${cmdDef.params.min} parameter(s), got ${paramCount}`,
-        0,
-        0,
+        position.line,
+        position.column,
         'script'
       );
       return;
@@ -297,27 +416,36 @@ export class EnhancedScriptValidator {
     if (cmdDef.params.max !== undefined && paramCount > cmdDef.params.max) {
       this.addError(
         `'${cmdName}' accepts at most ${cmdDef.params.max} parameter(s), got ${paramCount}`,
-        0,
-        0,
+        position.line,
+        position.column,
         'script'
       );
       return;
     }
 
     // Validate specific command parameters
-    this.validateCommandParameters(cmdName, command.parameters, eventName);
+    this.validateCommandParameters(cmdName, command.arguments.map(printExpression), position);
   }
 
   /**
    * Validate parameters for specific commands
    */
-  private validateCommandParameters(cmdName: string, params: string[], _eventName: string): void {
+  private validateCommandParameters(
+    cmdName: string,
+    params: string[],
+    position: SourcePosition
+  ): void {
     switch (cmdName) {
       case 'wait':
       case 'truewait':
       case 'speed':
         if (params.length > 0 && isNaN(Number(params[0]))) {
-          this.addError(`'${cmdName}' requires a numeric parameter`, 0, 0, 'script');
+          this.addError(
+            `'${cmdName}' requires a numeric parameter`,
+            position.line,
+            position.column,
+            'script'
+          );
         }
         break;
 
@@ -326,19 +454,39 @@ export class EnhancedScriptValidator {
           const [row, col, dir, creature, radius] = params;
 
           if (isNaN(Number(row)) || isNaN(Number(col))) {
-            this.addError(`'emerge' requires numeric row,col coordinates`, 0, 0, 'script');
+            this.addError(
+              `'emerge' requires numeric row,col coordinates`,
+              position.line,
+              position.column,
+              'script'
+            );
           }
 
           if (!['N', 'S', 'E', 'W', 'A'].includes(dir.toUpperCase())) {
-            this.addError(`'emerge' direction must be N/S/E/W/A, got '${dir}'`, 0, 0, 'script');
+            this.addError(
+              `'emerge' direction must be N/S/E/W/A, got '${dir}'`,
+              position.line,
+              position.column,
+              'script'
+            );
           }
 
           if (!CREATURE_TYPES.includes(creature as (typeof CREATURE_TYPES)[number])) {
-            this.addWarning(`Unknown creature type '${creature}'`, 0, 0, 'script');
+            this.addWarning(
+              `Unknown creature type '${creature}'`,
+              position.line,
+              position.column,
+              'script'
+            );
           }
 
           if (isNaN(Number(radius))) {
-            this.addError(`'emerge' radius must be numeric`, 0, 0, 'script');
+            this.addError(
+              `'emerge' radius must be numeric`,
+              position.line,
+              position.column,
+              'script'
+            );
           }
         }
         break;
@@ -352,21 +500,36 @@ export class EnhancedScriptValidator {
         if (params.length >= 2) {
           const [row, col] = params;
           if (isNaN(Number(row)) || isNaN(Number(col))) {
-            this.addError(`'${cmdName}' requires numeric row,col coordinates`, 0, 0, 'script');
+            this.addError(
+              `'${cmdName}' requires numeric row,col coordinates`,
+              position.line,
+              position.column,
+              'script'
+            );
           }
         }
 
         if (cmdName === 'place' && params.length >= 3) {
           const tileId = Number(params[2]);
           if (isNaN(tileId) || tileId < 0 || tileId > 255) {
-            this.addError(`'place' tile ID must be between 0-255`, 0, 0, 'script');
+            this.addError(
+              `'place' tile ID must be between 0-255`,
+              position.line,
+              position.column,
+              'script'
+            );
           }
         }
 
         if (cmdName === 'placerubble' && params.length >= 3) {
           const height = Number(params[2]);
           if (isNaN(height) || height < 1 || height > 4) {
-            this.addError(`'placerubble' height must be between 1-4`, 0, 0, 'script');
+            this.addError(
+              `'placerubble' height must be between 1-4`,
+              position.line,
+              position.column,
+              'script'
+            );
           }
         }
         break;
@@ -379,7 +542,12 @@ export class EnhancedScriptValidator {
         if (cmdName !== 'hidearrow' && cmdName !== 'removearrow' && params.length >= 2) {
           const [row, col] = params;
           if (isNaN(Number(row)) || isNaN(Number(col))) {
-            this.addError(`'${cmdName}' requires numeric row,col coordinates`, 0, 0, 'script');
+            this.addError(
+              `'${cmdName}' requires numeric row,col coordinates`,
+              position.line,
+              position.column,
+              'script'
+            );
           }
         }
 
@@ -391,7 +559,12 @@ export class EnhancedScriptValidator {
           !this.definedArrows.has(arrowParam) &&
           !this.definedVariables.has(arrowParam)
         ) {
-          this.addWarning(`Arrow variable '${arrowParam}' not defined`, 0, 0, 'script');
+          this.addWarning(
+            `Arrow variable '${arrowParam}' not defined`,
+            position.line,
+            position.column,
+            'script'
+          );
         }
         break;
       }
@@ -399,7 +572,12 @@ export class EnhancedScriptValidator {
       case 'starttimer':
       case 'stoptimer':
         if (params.length > 0 && !this.definedTimers.has(params[0])) {
-          this.addWarning(`Timer '${params[0]}' not defined`, 0, 0, 'script');
+          this.addWarning(
+            `Timer '${params[0]}' not defined`,
+            position.line,
+            position.column,
+            'script'
+          );
         }
         break;
 
@@ -409,7 +587,12 @@ export class EnhancedScriptValidator {
         if (params.length > 0 && !this.definedVariables.has(params[0])) {
           // Check if it's a literal string (common pattern)
           if (!params[0].match(/^[A-Za-z]\w*$/)) {
-            this.addWarning(`Message variable '${params[0]}' not defined`, 0, 0, 'script');
+            this.addWarning(
+              `Message variable '${params[0]}' not defined`,
+              position.line,
+              position.column,
+              'script'
+            );
           }
         }
         break;
@@ -428,37 +611,25 @@ export class EnhancedScriptValidator {
             ...VEHICLE_TYPES,
           ];
           if (!validTargets.includes(params[0])) {
-            this.addWarning(`Unknown ${cmdName} target '${params[0]}'`, 0, 0, 'script');
+            this.addWarning(
+              `Unknown ${cmdName} target '${params[0]}'`,
+              position.line,
+              position.column,
+              'script'
+            );
           }
         }
         break;
     }
   }
 
-  /**
-   * Validate math expressions
-   */
-  private validateMathExpression(expr: string, eventName: string): void {
-    // Extract variable references from math expressions
-    const vars = expr.match(/\b[a-zA-Z_]\w*\b/g) || [];
-
-    for (const varName of vars) {
-      if (!this.definedVariables.has(varName) && isNaN(Number(varName))) {
-        this.addWarning(
-          `Math expression in '${eventName}' references undefined variable: ${varName}`,
-          0,
-          0,
-          'script'
-        );
-      }
-    }
-  }
-
   /**
    * Detect advanced script patterns
    */
-  private detectAdvancedPatterns(script: ScriptSection): void {
-    const scriptContent = this.reconstructScriptContent(script);
+  private detectAdvancedPatterns(script: ScriptNode): void {
+    const { content: scriptContent, sourceLines } = this.reconstructScriptContent(script);
+    // Detectors report 1-based lines of the reconstructed content
+    const toSourceLine = (line: number): number => sourceLines[line - 1] ?? script.range.start.line;
 
     // Detect mutex patterns
     const mutexDetector = new MutexDetector();
@@ -468,7 +639,7 @@ export class EnhancedScriptValidator {
       const patternType = pattern.type.replace(/_/g, ' ');
       this.addWarning(
         `Detected ${patternType} pattern with variable '${pattern.variableName}' - ensure proper synchronization`,
-        pattern.line,
+        toSourceLine(pattern.line),
         0,
         'script'
       );
@@ -476,7 +647,7 @@ export class EnhancedScriptValidator {
       if (pattern.type === 'global_cooldown' && pattern.relatedEvents.length > 3) {
         this.addWarning(
           `Variable '${pattern.variableName}' is used as cooldown for ${pattern.relatedEvents.length} events - consider separate cooldowns`,
-          pattern.line,
+          toSourceLine(pattern.line),
           0,
           'script'
         );
@@ -490,7 +661,7 @@ export class EnhancedScriptValidator {
     stateMachines.forEach(machine => {
       this.addWarning(
         `Detected state machine with variable '${machine.variableName}' (${machine.states.size} states, ${machine.transitions.length} transitions)`,
-        0,
+        script.range.start.line,
         0,
         'script'
       );
@@ -503,7 +674,7 @@ export class EnhancedScriptValidator {
         if (!reachableStates.has(state) && state !== machine.initialState) {
           this.addError(
             `State '${name}' (${state}) in machine '${machine.variableName}' is unreachable`,
-            0,
+            script.range.start.line,
             0,
             'script'
           );
@@ -517,7 +688,7 @@ export class EnhancedScriptValidator {
           // Assuming 0 is often a terminal state
           this.addWarning(
             `State '${name}' (${state}) in machine '${machine.variableName}' has no outgoing transitions`,
-            0,
+            script.range.start.line,
             0,
             'script'
           );
@@ -533,7 +704,7 @@ export class EnhancedScriptValidator {
       if (flow.balance < 0) {
         this.addWarning(
           `Resource '${resource}' has negative balance (${flow.balance}) - sources: ${flow.sources.length}, sinks: ${flow.sinks.length}`,
-          0,
+          script.range.start.line,
           0,
           'script'
         );
@@ -542,7 +713,7 @@ export class EnhancedScriptValidator {
       if (resource === 'crystals' && flow.sinks.length > 0 && flow.sources.length === 0) {
         this.addError(
           `Crystals required for objectives but no crystal sources found in script`,
-          0,
+          script.range.start.line,
           0,
           'script'
         );
@@ -556,17 +727,22 @@ export class EnhancedScriptValidator {
     if (metrics.estimatedLoad === 'critical') {
       this.addError(
         `Script has critical performance load - Events: ${metrics.eventCount}, Complexity: ${metrics.conditionComplexity}, Timers: ${metrics.timerCount}, Spawners: ${metrics.spawnerCount}`,
-        0,
+        script.range.start.line,
         0,
         'script'
       );
     } else if (metrics.estimatedLoad === 'high') {
-      this.addWarning(`Script has high performance load - consider optimization`, 0, 0, 'script');
+      this.addWarning(
+        `Script has high performance load - consider optimization`,
+        script.range.start.line,
+        0,
+        'script'
+      );
     }
 
     const recommendations = performanceAnalyzer.getRecommendations(metrics);
     recommendations.forEach(rec => {
-      this.addWarning(rec, 0, 0, 'script');
+      this.addWarning(rec, script.range.start.line, 0, 'script');
     });
 
     // Detect circular dependencies
@@ -576,7 +752,7 @@ export class EnhancedScriptValidator {
     circularDeps.forEach(dep => {
       this.addError(
         `Circular dependency detected: ${dep.events.join(' → ')}`,
-        dep.line,
+        toSourceLine(dep.line),
         0,
         'script'
       );
@@ -591,37 +767,41 @@ export class EnhancedScriptValidator {
       const message = `Potential deadlock between events [${deadlock.events.join(', ')}] on resources [${deadlock.sharedResources.join(', ')}]`;
 
       if (severity === 'error') {
-        this.addError(message, deadlock.line, 0, 'script');
+        this.addError(message, toSourceLine(deadlock.line), 0, 'script');
       } else {
-        this.addWarning(message, deadlock.line, 0, 'script');
+        this.addWarning(message, toSourceLine(deadlock.line), 0, 'script');
       }
     });
   }
 
   /**
-   * Reconstruct script content from parsed structure
+   * Reconstruct script content from the syntax tree, remembering the source
+   * line each reconstructed line came from
    */
-  private reconstructScriptContent(script: ScriptSection): string {
+  private reconstructScriptContent(script: ScriptNode): { content: string; sourceLines: number[] } {
     const lines: string[] = [];
+    const sourceLines: number[] = [];
 
-    // Add variables
-    script.variables.forEach((value, name) => {
-      lines.push(`${name}=${value}`);
-    });
-
-    // Add events
-    script.events.forEach(event => {
-      if (event.condition) {
-        lines.push(`when(${event.condition})[${event.name}]`);
+    for (const item of script.items) {
+      if (item.kind === 'comment') {
+        continue;
       }
-      lines.push(`${event.name}::`);
-      event.commands.forEach(cmd => {
-        const params = cmd.parameters ? `:${cmd.parameters.join(',')}` : '';
-        lines.push(`${cmd.command}${params};`);
-      });
-    });
+      if (item.kind === 'eventChain') {
+        lines.push(`${item.name.name}::`);
+        sourceLines.push(item.name.range.start.line);
+        for (const statement of item.statements) {
+          if (statement.kind !== 'comment') {
+            lines.push(`${printStatement(statement)};`);
+            sourceLines.push(statement.range.start.line);
+          }
+        }
+      } else {
+        lines.push(...printScriptItem(item));
+        sourceLines.push(item.range.start.line);
+      }
+    }
 
-    return lines.join('\n');
+    return { content: lines.join('\n'), sourceLines };
   }
 
   private addError(message: string, line: number, column: number, section: string): void {
@@ -0,0 +1,85 @@
+import { BuildingType, DatFile, Entity, Objective } from '../types/datFileTypes';
+import { MapAccessibilityValidator } from './mapAccessibilityValidator';
+
+describe('MapAccessibilityValidator', () => {
+  const at = (type: string, row: number, col: number): Entity => ({
+    type,
+    coordinates: {
+      translation: { x: col * 300 + 150, y: row * 300 + 150, z: 0 },
+      rotation: { p: 0, y: 0, r: 0 },
+      scale: { x: 1, y: 1, z: 1 },
+    },
+  });
+
+  function createLevel(objectives: Objective[], buildings: Entity[]): DatFile {
+    return {
+      info: { rowcount: 3, colcount: 5, oxygen: 10 },
+      tiles: [
+        [1, 1, 1, 26, 42],
+        [1, 1, 1, 1, 1],
+        [38, 38, 38, 38, 38],
+      ],
+      height: [],
+      buildings,
+      miners: [at('Pilot', 0, 1)],
+      objectives,
+    };
+  }
+
+  describe('resource and air estimates', () => {
+    it('should report missing resources as errors and running out of air as a warning', () => {
+      const result = new MapAccessibilityValidator().validate(
+        createLevel(
+          [
+            { type: 'resources', crystals: 3, ore: 0, studs: 0 },
+            { type: 'building', building: BuildingType.PowerStation },
+          ],
+          [at(BuildingType.ToolStore, 0, 0)]
+        )
+      );
+
+      expect(result.errors.map(error => error.message)).toContain(
+        'Build Power Station: 20 ore needed, 0 available'
+      );
+      expect(result.warnings.map(warning => warning.message)).toContain(
+        'Air runs out after about 0:10, but the objectives need about 0:51'
+      );
+      expect(result.errors.some(error => error.message.startsWith('Air runs out'))).toBe(false);
+    });
+
+    it('should warn rather than fail when only vehicles can reach a seam', () => {
+      const level = createLevel(
+        [{ type: 'resources', crystals: 3, ore: 0, studs: 0 }],
+        [at(BuildingType.ToolStore, 0, 0)]
+      );
+      level.tiles = [
+        [1, 1, 11, 1, 42],
+        [1, 1, 11, 1, 1],
+        [38, 38, 38, 38, 38],
+      ];
+
+      const result = new MapAccessibilityValidator().validate(level);
+
+      expect(result.errors.some(error => error.message.startsWith('Collect 3 crystals'))).toBe(
+        false
+      );
+      expect(result.warnings.map(warning => warning.message)).toContain(
+        "Collect 3 crystals: 3 crystals needed, 0 available; more lies out of the miners' reach, where vehicles may get to it"
+      );
+    });
+
+    it('should report a missing Tool Store once', () => {
+      const result = new MapAccessibilityValidator().validate(
+        createLevel([{ type: 'resources', crystals: 3, ore: 0, studs: 0 }], [])
+      );
+
+      const diagnostics = [...result.errors, ...result.warnings];
+      expect(diagnostics.filter(diagnostic => /Tool Store/.test(diagnostic.message))).toEqual([
+        expect.objectContaining({
+          message: 'No Tool Store found - map cannot be played',
+          severity: 'error',
+        }),
+      ]);
+    });
+  });
+});
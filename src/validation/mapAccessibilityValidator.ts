@@ -3,6 +3,7 @@
  * Checks for unreachable objectives, spawn point accessibility, and impossible scenarios
  */
 
+import { EconomyEstimator } from '../statistics/economyEstimator';
 import { DatFile, Entity, Objective, ValidationError } from '../types/datFileTypes';
 
 export interface AccessibilityResult {
@@ -27,6 +28,7 @@ export interface ObjectiveLocation {
 }
 
 export class MapAccessibilityValidator {
+  private datFile!: DatFile;
   private tiles: number[][] = [];
   private buildings: Entity[] = [];
   private objectives: Objective[] = [];
@@ -37,6 +39,7 @@ export class MapAccessibilityValidator {
    * Validate map accessibility
    */
   public validate(datFile: DatFile): AccessibilityResult {
+    this.datFile = datFile;
     this.tiles = datFile.tiles;
     this.buildings = datFile.buildings || [];
     this.objectives = datFile.objectives || [];
@@ -187,7 +190,8 @@ export class MapAccessibilityValidator {
 
     // Check 8: Impossible scenario detection
     const impossibleScenarios = this.detectImpossibleScenarios();
-    errors.push(...impossibleScenarios);
+    errors.push(...impossibleScenarios.filter(scenario => scenario.severity === 'error'));
+    warnings.push(...impossibleScenarios.filter(scenario => scenario.severity === 'warning'));
 
     // Calculate analysis metrics
     const analysis = this.calculateAccessibilityMetrics(reachabilityMap, criticalPaths);
@@ -573,16 +577,8 @@ export class MapAccessibilityValidator {
       }
     }
 
-    // Scenario 3: Not enough resources for objectives
-    const resourceAnalysis = this.analyzeResourceAvailability();
-    if (!resourceAnalysis.sufficient) {
-      errors.push({
-        message: resourceAnalysis.message,
-        severity: 'error',
-        line: 0,
-        column: 0,
-      });
-    }
+    // Scenario 3: Not enough resources or air for objectives
+    errors.push(...this.analyzeResourceAvailability());
 
     return errors;
   }
@@ -951,51 +947,23 @@ export class MapAccessibilityValidator {
     });
   }
 
-  private analyzeResourceAvailability(): { sufficient: boolean; message: string } {
-    const objectives = this.objectives;
-    let requiredCrystals = 0;
-    let requiredOre = 0;
-
-    for (const obj of objectives) {
-      if (obj.type === 'resources') {
-        const resObj = obj as any;
-        requiredCrystals += resObj.crystals || 0;
-        requiredOre += resObj.ore || 0;
-      }
-    }
-
-    // Count available resources
-    let availableCrystals = 0;
-    let availableOre = 0;
-
-    for (let row = 0; row < this.rowCount; row++) {
-      for (let col = 0; col < this.colCount; col++) {
-        const tileId = this.tiles[row][col];
-        if ((tileId >= 42 && tileId <= 45) || (tileId >= 92 && tileId <= 95)) {
-          availableCrystals++;
-        } else if ((tileId >= 46 && tileId <= 49) || (tileId >= 96 && tileId <= 99)) {
-          availableOre++;
-        }
-      }
-    }
-
-    if (requiredCrystals > availableCrystals) {
-      return {
-        sufficient: false,
-        message: `Map has only ${availableCrystals} crystals but objectives require ${requiredCrystals}`,
-      };
-    }
-
-    if (requiredOre > availableOre * 3) {
-      // Each ore seam typically yields 3 ore
-      return {
-        sufficient: false,
-        message: `Map has only ${availableOre} ore seams (${
-          availableOre * 3
-        } ore) but objectives require ${requiredOre}`,
-      };
-    }
-
-    return { sufficient: true, message: 'Resources sufficient for objectives' };
+  /**
+   * Objectives the miners cannot complete with the resources and air on the
+   * map. Findings that rest on estimated timings or on which unit can reach a
+   * resource are warnings, and a missing Tool Store is already reported on
+   * its own.
+   */
+  private analyzeResourceAvailability(): ValidationError[] {
+    return new EconomyEstimator(this.datFile)
+      .estimate()
+      .issues.filter(issue => issue.kind !== 'toolStore')
+      .map(
+        (issue): ValidationError => ({
+          message: issue.message,
+          severity: issue.kind === 'resources' ? 'error' : 'warning',
+          line: 0,
+          column: 0,
+        })
+      );
   }
 }
@@ -154,6 +154,31 @@ tiles{
       );
     });
 
+    it('should report seams that can only be reached by drilling', async () => {
+      mockDocument = {
+        getText: () => `info{
+rowcount:3
+colcount:3
+}
+tiles{
+101,1,1,
+40,34,40,
+40,26,40,
+}`,
+        languageId: 'manicminers',
+      } as any;
+
+      const validator = new MapValidator(mockDocument);
+      const results = await validator.validate();
+
+      expect(results.warnings).toContainEqual(
+        expect.objectContaining({
+          message: 'Crystal seam at [2, 1] is reachable only by drilling 1 tile of hard rock',
+        })
+      );
+      expect(results.warnings.map(w => w.message).join('\n')).not.toContain('unreachable');
+    });
+
     it('should count resources correctly', async () => {
       mockDocument = {
         getText: () => `info{
@@ -1,6 +1,14 @@
-import * as vscode from 'vscode';
+import type { DiagnosticSeverity, TextDocument } from 'vscode';
+import { describeDrilledTiles, getMovementProfile } from '../heatmap/movementProfiles';
+import { PathfindingAnalyzer } from '../heatmap/pathfindingAnalyzer';
 import { DatFileParser } from '../parser/datFileParser';
 
+// vscode.DiagnosticSeverity values, so the validator also runs outside VS Code
+const Severity = {
+  Error: 0 as DiagnosticSeverity,
+  Warning: 1 as DiagnosticSeverity,
+};
+
 export interface ValidationResult {
   isValid: boolean;
   errors: ValidationError[];
@@ -14,7 +22,7 @@ export interface ValidationError {
   line?: number;
   column?: number;
   section?: string;
-  severity: vscode.DiagnosticSeverity;
+  severity: DiagnosticSeverity;
 }
 
 export interface ValidationWarning {
@@ -23,7 +31,7 @@ export interface ValidationWarning {
   line?: number;
   column?: number;
   section?: string;
-  severity: vscode.DiagnosticSeverity;
+  severity: DiagnosticSeverity;
 }
 
 export interface ValidationInfo {
@@ -39,7 +47,7 @@ export class MapValidator {
   private rowCount: number = 0;
   private colCount: number = 0;
 
-  constructor(document: vscode.TextDocument) {
+  constructor(document: Pick<TextDocument, 'getText'>) {
     this.parser = new DatFileParser(document.getText());
     this.parseTiles();
   }
@@ -118,7 +126,7 @@ export class MapValidator {
       errors.push({
         type: 'error',
         message: 'No tiles section found',
-        severity: vscode.DiagnosticSeverity.Error,
+        severity: Severity.Error,
       });
       return;
     }
@@ -128,7 +136,7 @@ export class MapValidator {
       warnings.push({
         type: 'warning',
         message: `Row count mismatch: expected ${this.rowCount}, found ${this.tiles.length}`,
-        severity: vscode.DiagnosticSeverity.Warning,
+        severity: Severity.Warning,
       });
     }
 
@@ -138,7 +146,7 @@ export class MapValidator {
       warnings.push({
         type: 'warning',
         message: 'Inconsistent column counts across rows',
-        severity: vscode.DiagnosticSeverity.Warning,
+        severity: Severity.Warning,
       });
     }
 
@@ -149,7 +157,7 @@ export class MapValidator {
           warnings.push({
             type: 'warning',
             message: `Row ${i} has ${this.tiles[i].length} columns, expected ${this.colCount}`,
-            severity: vscode.DiagnosticSeverity.Warning,
+            severity: Severity.Warning,
           });
         }
       }
@@ -168,7 +176,7 @@ export class MapValidator {
             message: `Invalid tile ID ${tileId} at [${row}, ${col}]`,
             line: row,
             column: col,
-            severity: vscode.DiagnosticSeverity.Error,
+            severity: Severity.Error,
           });
         }
 
@@ -179,7 +187,7 @@ export class MapValidator {
             message: `Deprecated tile ID ${tileId} at [${row}, ${col}]`,
             line: row,
             column: col,
-            severity: vscode.DiagnosticSeverity.Warning,
+            severity: Severity.Warning,
           });
         }
       }
@@ -206,29 +214,54 @@ export class MapValidator {
       warnings.push({
         type: 'warning',
         message: 'No Tool Store (starting position) found on map',
-        severity: vscode.DiagnosticSeverity.Warning,
+        severity: Severity.Warning,
       });
       return { errors, warnings, info };
     }
 
-    // Check pathfinding from start to resources
-    const unreachableCrystals = this.findUnreachablePositions(startPositions, crystalPositions);
-    const unreachableOres = this.findUnreachablePositions(startPositions, orePositions);
+    // Check pathfinding from start to resources, first on foot and then
+    // with a drill for seams walled in by rock
+    const walking = this.createPathfinder('miner');
+    const drilling = this.createPathfinder('drillingMiner');
+    const walkingCosts = walking.generateAccessibilityHeatMap(startPositions).grid;
+    const drillingCosts = drilling.generateAccessibilityHeatMap(startPositions).grid;
+
+    const resources = [
+      { name: 'crystal seam', positions: crystalPositions },
+      { name: 'ore seam', positions: orePositions },
+    ];
+    for (const { name, positions } of resources) {
+      const unreachable: Array<{ row: number; col: number }> = [];
+
+      for (const target of positions) {
+        if (this.findReachableNeighbor(target, walkingCosts)) {
+          continue;
+        }
 
-    if (unreachableCrystals.length > 0) {
-      warnings.push({
-        type: 'warning',
-        message: `${unreachableCrystals.length} crystal seam(s) are unreachable from starting position`,
-        severity: vscode.DiagnosticSeverity.Warning,
-      });
-    }
+        const entry = this.findReachableNeighbor(target, drillingCosts);
+        const route = entry && drilling.findPathFrom(startPositions, entry);
+        if (!route) {
+          unreachable.push(target);
+          continue;
+        }
 
-    if (unreachableOres.length > 0) {
-      warnings.push({
-        type: 'warning',
-        message: `${unreachableOres.length} ore seam(s) are unreachable from starting position`,
-        severity: vscode.DiagnosticSeverity.Warning,
-      });
+        const drilled = describeDrilledTiles(
+          route.path.map(node => this.tiles[node.row][node.col])
+        );
+        warnings.push({
+          type: 'warning',
+          message: `${name.charAt(0).toUpperCase()}${name.slice(1)} at [${target.row}, ${target.col}] is reachable only by drilling ${drilled}`,
+          severity: Severity.Warning,
+        });
+      }
+
+      if (unreachable.length > 0) {
+        warnings.push({
+          type: 'warning',
+          message: `${unreachable.length} ${name}(s) are unreachable from starting position`,
+          severity: Severity.Warning,
+        });
+      }
     }
 
     // Check for isolated areas
@@ -272,7 +305,7 @@ export class MapValidator {
               message: `Resource at [${row}, ${col}] is mostly surrounded by reinforced walls`,
               line: row,
               column: col,
-              severity: vscode.DiagnosticSeverity.Warning,
+              severity: Severity.Warning,
             });
           }
         }
@@ -315,7 +348,7 @@ export class MapValidator {
               message: `Building at edge of map [${row}, ${col}] may cause issues`,
               line: row,
               column: col,
-              severity: vscode.DiagnosticSeverity.Warning,
+              severity: Severity.Warning,
             });
           }
         }
@@ -334,7 +367,7 @@ export class MapValidator {
       warnings.push({
         type: 'warning',
         message: 'No objectives section found',
-        severity: vscode.DiagnosticSeverity.Warning,
+        severity: Severity.Warning,
       });
       return { errors, warnings };
     }
@@ -346,7 +379,7 @@ export class MapValidator {
       warnings.push({
         type: 'warning',
         message: 'Objectives section is empty',
-        severity: vscode.DiagnosticSeverity.Warning,
+        severity: Severity.Warning,
       });
     }
 
@@ -365,7 +398,7 @@ export class MapValidator {
                 type: 'error',
                 message: `Objective requires ${amount} crystals but map only has ${crystalCount}`,
                 line: index,
-                severity: vscode.DiagnosticSeverity.Error,
+                severity: Severity.Error,
               });
             }
           }
@@ -392,63 +425,27 @@ export class MapValidator {
     return positions;
   }
 
-  private findUnreachablePositions(
-    starts: Array<{ row: number; col: number }>,
-    targets: Array<{ row: number; col: number }>
-  ): Array<{ row: number; col: number }> {
-    const unreachable: Array<{ row: number; col: number }> = [];
-
-    for (const target of targets) {
-      let reachable = false;
-
-      for (const start of starts) {
-        if (this.hasPath(start, target)) {
-          reachable = true;
-          break;
-        }
-      }
-
-      if (!reachable) {
-        unreachable.push(target);
-      }
-    }
-
-    return unreachable;
+  private createPathfinder(profileId: string): PathfindingAnalyzer {
+    const analyzer = new PathfindingAnalyzer(getMovementProfile(profileId));
+    analyzer.loadTiles(this.tiles);
+    return analyzer;
   }
 
-  private hasPath(start: { row: number; col: number }, end: { row: number; col: number }): boolean {
-    // Simple BFS pathfinding
-    const visited = new Set<string>();
-    const queue = [start];
-    const walkableTiles = [1, 4, 8, 13, 51, 54, 58, 63]; // Ground and reinforced ground tiles
-
-    while (queue.length > 0) {
-      const current = queue.shift()!;
-      const key = `${current.row},${current.col}`;
-
-      if (visited.has(key)) {
-        continue;
-      }
-
-      visited.add(key);
-
-      if (current.row === end.row && current.col === end.col) {
-        return true;
-      }
-
-      const neighbors = this.getNeighbors(current.row, current.col);
-      for (const neighbor of neighbors) {
-        const tile = this.tiles[neighbor.row]?.[neighbor.col];
-        if (
-          tile &&
-          (walkableTiles.includes(tile) || (neighbor.row === end.row && neighbor.col === end.col))
-        ) {
-          queue.push(neighbor);
-        }
+  /**
+   * Cheapest neighbour of a tile that the costs grid marks as reachable
+   */
+  private findReachableNeighbor(
+    target: { row: number; col: number },
+    costs: number[][]
+  ): { row: number; col: number } | undefined {
+    let best: { row: number; col: number } | undefined;
+    for (const neighbor of this.getNeighbors(target.row, target.col)) {
+      const cost = costs[neighbor.row]?.[neighbor.col] ?? -1;
+      if (cost >= 0 && (!best || cost < costs[best.row][best.col])) {
+        best = neighbor;
       }
     }
-
-    return false;
+    return best;
   }
 
   private findIsolatedAreas(): Array<{
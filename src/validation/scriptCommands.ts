@@ -454,9 +454,13 @@ export const SCRIPT_MACROS = {
   studs: { type: 'number', description: 'Current building stud count' },
   air: { type: 'number', description: 'Current oxygen level' },
 
+  clock: { type: 'number', description: 'Same as time' },
+
   // Units
   miners: { type: 'number', description: 'Total Rock Raiders count' },
   vehicles: { type: 'number', description: 'Total vehicles count' },
+  monsters: { type: 'number', description: 'Number of monsters' },
+  hostiles: { type: 'number', description: 'Number of hostile units' },
   buildings: {
     type: 'object',
     description: 'Building counts by type (e.g., buildings.BuildingToolStore_C)',
@@ -499,6 +503,13 @@ export const SCRIPT_MACROS = {
   'vehicles.VehicleLargeMobileUnit_C': { type: 'number', description: 'Chrome Crusher count' },
   'vehicles.VehicleTunnelTransport_C': { type: 'number', description: 'Cargo Carrier count' },
 
+  // Map
+  discovered: { type: 'number', description: 'Percentage of the map discovered' },
+  erosionscale: { type: 'number', description: 'Erosion time multiplier' },
+  get: { type: 'number', description: 'Tile ID at get(row)(col)' },
+  random: { type: 'number', description: 'Random number from random(min)(max)' },
+  foundbuilding: { type: 'boolean', description: 'True once foundbuilding[row,col] is found' },
+
   // Pilot
   pilot: { type: 'object', description: 'Pilot macros' },
   'pilot.death': { type: 'trigger', description: 'Trigger when Rock Raider dies' },
@@ -523,6 +534,13 @@ export const TRIGGER_TYPES = {
   sonicblaster: 'Triggers when sonic blaster used at tile',
   enter: 'Triggers when unit enters tile',
   exit: 'Triggers when unit exits tile',
+  laserdamage: 'Triggers when a laser damages a wall',
+  click: 'Triggers when a tile or object is clicked',
+  hover: 'Triggers while the mouse is over a tile',
+  hoverenter: 'Triggers when the mouse moves onto a tile',
+  hoverleave: 'Triggers when the mouse leaves a tile',
+  built: 'Triggers when a building is built',
+  new: 'Triggers when a unit or creature appears',
 
   // Discovery
   discovertile: 'Triggers when tile is discovered',
@@ -575,3 +593,318 @@ export const VEHICLE_TYPES = [
   'VehicleLargeMobileUnit_C',
   'VehicleTunnelTransport_C',
 ] as const;
+
+/**
+ * Words the game reserves for its own keywords, events, triggers, macros and
+ * collections, from docs/game-reference/scripting/reserved-words.md. They are
+ * matched without regard to case and cannot name variables or event chains.
+ */
+export const RESERVED_WORDS: readonly string[] = [
+  // Variable Types
+  'bool',
+  'float',
+  'int',
+  'intarray',
+  'string',
+  // Object Types
+  'arrow',
+  'building',
+  'creature',
+  'miner',
+  'timer',
+  'vehicle',
+  // Control Keywords
+  'if',
+  'when',
+  'true',
+  'false',
+  // Direction Constants
+  'N',
+  'S',
+  'E',
+  'W',
+  'A',
+  // Colors (Arrow)
+  'black',
+  'blue',
+  'darkgreen',
+  'green',
+  'red',
+  'white',
+  'yellow',
+  // Events (Alphabetical)
+  'addrandomspawn',
+  'callfunction',
+  'change',
+  'destroyall',
+  'disable',
+  'discovertile',
+  'drill',
+  'drive',
+  'emerge',
+  'emergebl',
+  'enable',
+  'enter',
+  'findbuilding',
+  'generatelandslide',
+  'heal',
+  'hidearrow',
+  'highlight',
+  'highlightarrow',
+  'hover',
+  'kill',
+  'landslide',
+  'laser',
+  'laserhit',
+  'lose',
+  'msg',
+  'pan',
+  'pause',
+  'place',
+  'qmsg',
+  'quitloop',
+  'reinforce',
+  'removearrow',
+  'reset',
+  'resetspeed',
+  'resources',
+  'resume',
+  'save',
+  'savebuilding',
+  'savecreature',
+  'savevehicle',
+  'shake',
+  'showarrow',
+  'sound',
+  'spawncap',
+  'spawnwave',
+  'speed',
+  'startrandomspawn',
+  'starttimer',
+  'stoprandomspawn',
+  'stoptimer',
+  'truewait',
+  'trulyplace',
+  'undiscover',
+  'unpause',
+  'variable',
+  'wait',
+  'walk',
+  'win',
+  // Triggers
+  'built',
+  'click',
+  'dead',
+  'driven',
+  'hurt',
+  'init',
+  'levelup',
+  'new',
+  'poweroff',
+  'poweron',
+  'tick',
+  'time',
+  'upgrade',
+  'upgraded',
+  // Macros - Resources
+  'air',
+  'crystals',
+  'ore',
+  'studs',
+  // Macros - Counts
+  'buildings',
+  'creatures',
+  'hostiles',
+  'miners',
+  'monsters',
+  'vehicles',
+  // Macros - Time
+  'clock',
+  // Macros - Tile IDs
+  'building_path',
+  'crystal_seam',
+  'dirt',
+  'hard_rock',
+  'lava',
+  'loose_rock',
+  'ore_seam',
+  'progress_path',
+  'slug_hole',
+  'solid_rock',
+  'water',
+  // Macros - Special
+  'erosionscale',
+  'get',
+  'random',
+  'lastbuilding',
+  'lastcreature',
+  'lastminer',
+  'lastvehicle',
+  'ConstructedBuilding',
+  // Data Fields
+  'col',
+  'column',
+  'driver',
+  'driverid',
+  'eaten',
+  'health',
+  'hp',
+  'stamina',
+  'id',
+  'ispowered',
+  'power',
+  'powered',
+  'level',
+  'row',
+  'tile',
+  'tileid',
+  'X',
+  'Y',
+  'Z',
+  // Building Collections
+  'Barrier_C',
+  'BuildingCanteen_C',
+  'Canteen_C',
+  'canteen',
+  'BuildingDocks_C',
+  'Docks_C',
+  'docks',
+  'BuildingElectricFence_C',
+  'ElectricFence_C',
+  'electricfence',
+  'BuildingGeologicalCenter_C',
+  'GeologicalCenter_C',
+  'geologicalcenter',
+  'BuildingMiningLaser_C',
+  'MiningLaser_C',
+  'mininglaser',
+  'BuildingOreRefinery_C',
+  'OreRefinery_C',
+  'orerefinery',
+  'BuildingPowerPath_C',
+  'BuildingPowerStation_C',
+  'PowerStation_C',
+  'powerstation',
+  'BuildingSuperTeleport_C',
+  'SuperTeleport_C',
+  'superteleport',
+  'BuildingSupportStation_C',
+  'SupportStation_C',
+  'supportstation',
+  'BuildingTeleportPad_C',
+  'TeleportPad_C',
+  'teleportpad',
+  'BuildingToolStore_C',
+  'Toolstore_C',
+  'toolstore',
+  'BuildingUpgradeStation_C',
+  'UpgradeStation_C',
+  'upgradestation',
+  // Vehicle Collections
+  'VehicleCargoCarrier_C',
+  'CargoCarrier_C',
+  'cargocarrier',
+  'VehicleChromeCrusher_C',
+  'ChromeCrusher_C',
+  'chromecrusher',
+  'VehicleGraniteGrinder_C',
+  'GraniteGrinder_C',
+  'granitegrinder',
+  'VehicleHoverScout_C',
+  'HoverScout_C',
+  'hoverscout',
+  'VehicleLMLC_C',
+  'LMLC_C',
+  'LMLC',
+  'VehicleLoaderDozer_C',
+  'LoaderDozer_C',
+  'loaderdozer',
+  'VehicleRapidRider_C',
+  'RapidRider_C',
+  'rapidrider',
+  'VehicleSmallDigger_C',
+  'SmallDigger_C',
+  'smalldigger',
+  'VehicleSmallTransportTruck_C',
+  'SmallTransportTruck_C',
+  'smalltransporttruck',
+  'VehicleSMLC_C',
+  'SMLC_C',
+  'SMLC',
+  'VehicleTunnelScout_C',
+  'TunnelScout_C',
+  'tunnelscout',
+  'VehicleTunnelTransport_C',
+  'TunnelTransport_C',
+  'tunneltransport',
+  // Creature Collections
+  'CreatureBat_C',
+  'Bat_C',
+  'Bat',
+  'CreatureIceMonster_C',
+  'IceMonster_C',
+  'IceMonster',
+  'CreatureLavaMonster_C',
+  'LavaMonster_C',
+  'LavaMonster',
+  'CreatureRockMonster_C',
+  'RockMonster_C',
+  'RockMonster',
+  'CreatureSlimySlug_C',
+  'SlimySlug_C',
+  'SlimySlug',
+  'slugs',
+  'CreatureSmallSpider_C',
+  'SmallSpider_C',
+  'SmallSpider',
+  // Environmental Collections
+  'Crystal_C',
+  'Dynamite_C',
+  'EventErosion_C',
+  'EventLandslide_C',
+  'NavModifierLava_C',
+  'NavModifierPowerPath_C',
+  'NavModifierRubble_C',
+  'NavModifierWater_C',
+  'Ore_C',
+  'RechargeSeamGoal_C',
+  'Stud_C',
+  // Special Parameters
+  'light',
+  'lights',
+];
+
+// Prefixes of the names the visual blocks generate for their own timers and events
+export const BLOCK_RESERVED_PREFIXES: readonly string[] = [
+  'CreatureEmergeEvent',
+  'FleeTo',
+  'PlaceEvent',
+  'RandomSpawnSetup',
+  'ScriptBlockTimerTrigger',
+  'StartRandomSpawn',
+  'StopRandomSpawn',
+  'TimerTrigger',
+];
+
+export function isReservedWord(name: string): boolean {
+  const lower = name.toLowerCase();
+  return RESERVED_WORDS.some(word => word.toLowerCase() === lower);
+}
+
+/**
+ * Why a name cannot be used for a script variable or event chain, or
+ * undefined when it can
+ */
+export function checkScriptIdentifier(name: string): string | undefined {
+  if (!/^[A-Za-z_]\w*$/.test(name)) {
+    return `'${name}' is not a valid name. Use letters, digits and underscores, starting with a letter`;
+  }
+  if (isReservedWord(name)) {
+    return `'${name}' is a reserved word`;
+  }
+  const prefix = BLOCK_RESERVED_PREFIXES.find(reserved => name.startsWith(reserved));
+  if (prefix) {
+    return `Names starting with '${prefix}' are reserved for visual blocks`;
+  }
+  return undefined;
+}
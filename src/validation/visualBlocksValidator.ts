@@ -1,54 +1,71 @@
-import { ValidationError } from '../types/datFileTypes';
 import {
-  VisualBlocksParser,
-  VisualBlock,
+  BlocksSection,
   BlockWire,
-  TRIGGER_BLOCKS,
-  EVENT_BLOCKS,
-} from '../parser/visualBlocksParser';
+  InfoSection,
+  ValidationError,
+  VisualBlock,
+} from '../types/datFileTypes';
+import { TRIGGER_BLOCKS, EVENT_BLOCKS } from '../parser/visualBlocksParser';
 
 export class VisualBlocksValidator {
   private errors: ValidationError[] = [];
   private warnings: ValidationError[] = [];
 
   /**
-   * Validate visual blocks content
+   * Validate a parsed block graph, checking block positions against the map
+   * size when the info section is given
    */
-  public validate(blocksContent: string, startLine: number = 0): ValidationError[] {
+  public validate(
+    blocksSection: BlocksSection,
+    info?: Pick<InfoSection, 'rowcount' | 'colcount'>
+  ): ValidationError[] {
     this.errors = [];
     this.warnings = [];
 
-    const parser = new VisualBlocksParser(blocksContent, startLine);
-    const blocksSection = parser.parse();
-    const parserErrors = parser.getErrors();
-
-    // Add parser errors
-    for (const error of parserErrors) {
-      this.addError(error, 0, 0, 'blocks');
-    }
-
-    // Run validation
-    const validationErrors = parser.validate();
-    for (const error of validationErrors) {
-      this.addWarning(error, 0, 0, 'blocks');
-    }
-
-    // Additional validations
-    this.validateBlockLocations(blocksSection.blocks);
+    this.validateBlockIds(blocksSection.blocks);
+    this.validateBlockLocations(blocksSection.blocks, info);
     this.validateWireConnections(blocksSection.wires, blocksSection.blocks);
     this.validateBlockParameters(blocksSection.blocks);
 
     return [...this.errors, ...this.warnings];
   }
 
+  /**
+   * Validate block IDs are unique
+   */
+  private validateBlockIds(blocks: VisualBlock[]): void {
+    const blockIds = new Set<number>();
+    for (const block of blocks) {
+      if (blockIds.has(block.id)) {
+        this.addError(`Duplicate block ID ${block.id}`, block.line || 0, 0, 'blocks');
+      }
+      blockIds.add(block.id);
+    }
+  }
+
   /**
    * Validate block locations
    */
-  private validateBlockLocations(blocks: VisualBlock[]): void {
+  private validateBlockLocations(
+    blocks: VisualBlock[],
+    info?: Pick<InfoSection, 'rowcount' | 'colcount'>
+  ): void {
     // Check for blocks at same location
     const locations = new Map<string, VisualBlock[]>();
 
     for (const block of blocks) {
+      if (
+        info &&
+        (block.row < 0 || block.row >= info.rowcount || block.col < 0 || block.col >= info.colcount)
+      ) {
+        this.addError(
+          `Block ${block.id} at ${block.row},${block.col} is outside the map`,
+          block.line || 0,
+          0,
+          'blocks'
+        );
+      }
+
       const key = `${block.row},${block.col}`;
       if (!locations.has(key)) {
         locations.set(key, []);
@@ -81,7 +98,9 @@ export class VisualBlocksValidator {
       const toBlock = blockMap.get(wire.to);
 
       if (!fromBlock || !toBlock) {
-        continue; // Already reported by parser
+        const missing = fromBlock ? wire.to : wire.from;
+        this.addError(`Wire references unknown block ${missing}`, wire.line || 0, 0, 'blocks');
+        continue;
       }
 
       // Validate wire types
@@ -100,6 +119,35 @@ export class VisualBlocksValidator {
       }
     }
 
+    // Event blocks need a wire to run at all
+    for (const block of blocks) {
+      const connected = wires.some(w => w.from === block.id || w.to === block.id);
+      if (block.type === 'event' && !connected) {
+        this.addWarning(
+          `Event block ${block.id} (${block.name}) has no connections`,
+          block.line || 0,
+          0,
+          'blocks'
+        );
+      }
+    }
+
+    // Random wires pick one of several targets
+    const randomTargets = new Map<number, BlockWire[]>();
+    for (const wire of wires.filter(w => w.type === 'random')) {
+      randomTargets.set(wire.from, [...(randomTargets.get(wire.from) || []), wire]);
+    }
+    for (const [source, targets] of randomTargets) {
+      if (targets.length < 2) {
+        this.addWarning(
+          `Block ${source} has a random wire but only ${targets.length} target - random wires work best with multiple targets`,
+          targets[0].line || 0,
+          0,
+          'blocks'
+        );
+      }
+    }
+
     // Check for circular dependencies (simple check)
     for (const block of blocks) {
       const visited = new Set<number>();
@@ -156,7 +204,7 @@ export class VisualBlocksValidator {
       const blockDef = blockDefs[block.name as keyof typeof blockDefs];
 
       if (!blockDef) {
-        continue; // Already reported by parser
+        continue; // Unknown block types are dropped by the parser
       }
 
       // Validate specific parameters based on block type
@@ -0,0 +1,174 @@
+import { diffDatText } from './datDiff';
+
+describe('diffDatText', () => {
+  const coordinates = (x: number, y: number, yaw = 0) =>
+    `Translation: X=${x}.000 Y=${y}.000 Z=0.000 Rotation: P=0.000000 Y=${yaw}.000000 R=0.000000 Scale X=1.000 Y=1.000 Z=1.000`;
+
+  const level = `info{
+rowcount:3
+colcount:3
+biome:rock
+}
+tiles{
+1,1,1,
+1,26,1,
+1,1,1,
+}
+height{
+0,0,0,
+0,0,0,
+0,0,0,
+}
+resources{
+crystals:
+0,0,0,
+0,0,0,
+0,0,0,
+}
+objectives{
+resources: 10,0,0
+building:BuildingPowerStation_C
+}
+buildings{
+BuildingToolStore_C
+${coordinates(450, 450)}
+}
+creatures{
+CreatureBat_C,${coordinates(150, 150)},ID=1
+CreatureSmallSpider_C,${coordinates(750, 150)}
+CreatureSmallSpider_C,${coordinates(750, 750)}
+}
+script{
+int Count=0
+Start::
+msg:Hello;
+
+when(init)[Start]
+}
+briefing{
+Welcome
+Good luck
+}
+`;
+
+  it('should find no changes between identical levels', () => {
+    expect(diffDatText(level, level)).toEqual({ changes: [], changedCells: [], statistics: {} });
+  });
+
+  it('should report info keys by name', () => {
+    const changed = level.replace('biome:rock', 'biome:ice\nlevelname:Cave');
+
+    expect(diffDatText(level, changed).changes).toEqual([
+      {
+        section: 'info',
+        kind: 'modified',
+        description: 'biome: rock → ice',
+        oldLine: 3,
+        newLine: 3,
+      },
+      { section: 'info', kind: 'added', description: 'levelname set to Cave', newLine: 4 },
+    ]);
+  });
+
+  it('should report grid changes per row with the changed cells', () => {
+    const changed = level
+      .replace('1,26,1,', '1,26,26,')
+      .replace('0,0,0,\n0,0,0,\n0,0,0,\n}\nresources', '0,5,0,\n0,0,0,\n0,0,0,\n}\nresources')
+      .replace('crystals:\n0,0,0,', 'crystals:\n0,2,0,');
+
+    const diff = diffDatText(level, changed);
+
+    expect(
+      diff.changes.map(change => [change.section, change.description, change.newLine])
+    ).toEqual([
+      ['tiles', 'Row 1: 1 tile changed (col 2: 1 → 26)', 7],
+      ['height', 'Row 0: 1 height changed (col 1: +5)', 11],
+      ['resources.crystals', 'Row 0: crystals +2 (col 1: +2)', 17],
+    ]);
+    expect(diff.changedCells).toEqual([
+      { row: 1, col: 2, layer: 'tiles' },
+      { row: 0, col: 1, layer: 'height' },
+      { row: 0, col: 1, layer: 'crystals' },
+    ]);
+  });
+
+  it('should match entities by ID and by type and position', () => {
+    const changed = level
+      .replace(coordinates(450, 450), coordinates(750, 450))
+      .replace(`${coordinates(150, 150)},ID=1`, `${coordinates(150, 150, 90)},ID=1,Essential=true`)
+      .replace(
+        `CreatureSmallSpider_C,${coordinates(750, 750)}\n`,
+        `CreatureSmallSpider_C,${coordinates(750, 760)}\nCreatureSlimySlug_C,${coordinates(150, 750)}\n`
+      )
+      .replace(`CreatureSmallSpider_C,${coordinates(750, 150)}\n`, '');
+
+    const descriptions = diffDatText(level, changed).changes.map(change => [
+      change.kind,
+      change.description,
+    ]);
+
+    expect(descriptions).toEqual([
+      ['moved', 'BuildingToolStore_C moved from (1.5, 1.5) to (1.5, 2.5)'],
+      ['modified', 'CreatureBat_C (ID 1) turned from 0° to 90°, Essential=true'],
+      ['moved', 'CreatureSmallSpider_C moved from (2.5, 2.5) to (2.53, 2.5)'],
+      ['added', 'CreatureSlimySlug_C added at (2.5, 0.5)'],
+      ['removed', 'CreatureSmallSpider_C removed from (0.5, 2.5)'],
+    ]);
+  });
+
+  it('should pair an edited objective of the same type', () => {
+    const changed = level
+      .replace('resources: 10,0,0', 'resources: 20,0,0')
+      .replace('building:BuildingPowerStation_C', 'findminer:1');
+
+    expect(diffDatText(level, changed).changes.map(change => change.description)).toEqual([
+      'Objective changed: resources: 10,0,0 → resources: 20,0,0',
+      'Objective added: findminer:1',
+      'Objective removed: building:BuildingPowerStation_C',
+    ]);
+  });
+
+  it('should match script variables, events and triggers by name', () => {
+    const changed = level
+      .replace('int Count=0', 'int Count=3\nbool Done=false')
+      .replace('msg:Hello;', 'msg:Bye;')
+      .replace('when(init)[Start]', 'when(time>60)[Start]');
+
+    expect(
+      diffDatText(level, changed).changes.map(change => [change.kind, change.description])
+    ).toEqual([
+      ['modified', 'Variable Count changed: int 0 → int 3'],
+      ['added', 'Variable Done added'],
+      ['modified', 'Event Start changed'],
+      ['added', 'Trigger when(time>60) added'],
+      ['removed', 'Trigger when(init) removed'],
+    ]);
+  });
+
+  it('should compare text sections line by line', () => {
+    const changed = level.replace('Welcome\nGood luck', 'Welcome, miner\nGood luck\nHave fun');
+
+    expect(diffDatText(level, changed).changes).toEqual([
+      {
+        section: 'briefing',
+        kind: 'modified',
+        description: 'Welcome → Welcome, miner',
+        oldLine: 42,
+        newLine: 42,
+      },
+      { section: 'briefing', kind: 'added', description: 'Have fun', newLine: 44 },
+    ]);
+  });
+
+  it('should report sections added and removed', () => {
+    const changed = level.replace(/briefing\{[^}]*\}\n/, '') + 'briefingsuccess{\nWell done\n}\n';
+
+    const diff = diffDatText(level, changed);
+
+    expect(diff.changes.map(change => [change.kind, change.description])).toEqual([
+      ['added', 'Section briefingsuccess added'],
+      ['removed', 'Section briefing removed'],
+    ]);
+    expect(diff.statistics).toEqual({ briefingsuccess: 1, briefing: 1 });
+  });
+});
@@ -0,0 +1,668 @@
+import { DatCstParser } from '../parser/datCstParser';
+import { TILE_WORLD_SIZE } from '../mapEditor/entityLayer';
+import {
+  EntityNode,
+  GridRowNode,
+  InfoEntryNode,
+  ObjectiveNode,
+  SectionItemNode,
+  SectionNode,
+  SourceRange,
+} from '../types/datCstTypes';
+import { Entity } from '../types/datFileTypes';
+import { EventChainNode, ScriptVariableNode, TriggerNode } from '../types/scriptAstTypes';
+
+export type DatChangeKind = 'added' | 'removed' | 'modified' | 'moved';
+
+export interface DatChange {
+  section: string;
+  kind: DatChangeKind;
+  description: string;
+  // Zero-based line of the change in the old and new text, where it has one
+  oldLine?: number;
+  newLine?: number;
+}
+
+export type DiffLayer = 'tiles' | 'height' | 'crystals' | 'ore';
+
+export interface ChangedCell {
+  row: number;
+  col: number;
+  layer: DiffLayer;
+}
+
+export interface DatDiff {
+  changes: DatChange[];
+  // Grid cells that differ, for highlighting map renders
+  changedCells: ChangedCell[];
+  // Number of changes in each section
+  statistics: Record<string, number>;
+}
+
+// Entities closer than this many world units are in the same place
+const MOVE_TOLERANCE = 1;
+
+// Cell changes listed in a row's description before the rest are elided
+const MAX_CELL_DETAILS = 4;
+
+const ENTITY_SECTIONS = ['buildings', 'vehicles', 'creatures', 'miners'];
+
+/**
+ * Compare two versions of a level section by section. Grids are compared
+ * cell by cell, entities are matched by ID or by type and position,
+ * objectives and script items by what they are rather than where they sit,
+ * and everything else line by line.
+ */
+export function diffDatText(oldText: string, newText: string): DatDiff {
+  const context = new DiffContext(oldText, newText);
+  const oldSections = sectionsByName(context.oldParser.getDocument().sections);
+  const newSections = sectionsByName(context.newParser.getDocument().sections);
+
+  for (const [name, newSection] of newSections) {
+    const oldSection = oldSections.get(name);
+    if (!oldSection) {
+      context.add({
+        section: name,
+        kind: 'added',
+        description: `Section ${name} added`,
+        newLine: newSection.range.start.line,
+      });
+    } else {
+      diffSection(context, name, oldSection, newSection);
+    }
+  }
+  for (const [name, oldSection] of oldSections) {
+    if (!newSections.has(name)) {
+      context.add({
+        section: name,
+        kind: 'removed',
+        description: `Section ${name} removed`,
+        oldLine: oldSection.range.start.line,
+      });
+    }
+  }
+
+  return context.result();
+}
+
+class DiffContext {
+  public readonly oldParser: DatCstParser;
+  public readonly newParser: DatCstParser;
+  public readonly oldLines: string[];
+  public readonly newLines: string[];
+  private changes: DatChange[] = [];
+  private changedCells: ChangedCell[] = [];
+
+  constructor(oldText: string, newText: string) {
+    this.oldParser = new DatCstParser(oldText);
+    this.newParser = new DatCstParser(newText);
+    this.oldLines = oldText.split(/\r?\n/);
+    this.newLines = newText.split(/\r?\n/);
+  }
+
+  public add(change: DatChange): void {
+    this.changes.push(change);
+  }
+
+  public addCell(cell: ChangedCell): void {
+    this.changedCells.push(cell);
+  }
+
+  public oldText(range: SourceRange): string {
+    return sourceText(this.oldLines, range);
+  }
+
+  public newText(range: SourceRange): string {
+    return sourceText(this.newLines, range);
+  }
+
+  public result(): DatDiff {
+    const statistics: Record<string, number> = {};
+    for (const change of this.changes) {
+      statistics[change.section] = (statistics[change.section] || 0) + 1;
+    }
+    return { changes: this.changes, changedCells: this.changedCells, statistics };
+  }
+}
+
+function diffSection(
+  context: DiffContext,
+  name: string,
+  oldSection: SectionNode,
+  newSection: SectionNode
+): void {
+  if (ENTITY_SECTIONS.includes(name)) {
+    diffEntities(context, name, itemsOf(oldSection, 'entity'), itemsOf(newSection, 'entity'));
+    return;
+  }
+
+  switch (name) {
+    case 'info':
+      diffInfo(context, itemsOf(oldSection, 'infoEntry'), itemsOf(newSection, 'infoEntry'));
+      break;
+    case 'tiles':
+    case 'height':
+      diffGrid(context, name, name, itemsOf(oldSection, 'gridRow'), itemsOf(newSection, 'gridRow'));
+      break;
+    case 'resources':
+      for (const type of ['crystals', 'ore'] as const) {
+        const oldGrid = itemsOf(oldSection, 'resourceGrid').find(g => g.name.value === type);
+        const newGrid = itemsOf(newSection, 'resourceGrid').find(g => g.name.value === type);
+        diffGrid(context, `resources.${type}`, type, oldGrid?.rows || [], newGrid?.rows || []);
+      }
+      break;
+    case 'objectives':
+      diffObjectives(context, itemsOf(oldSection, 'objective'), itemsOf(newSection, 'objective'));
+      break;
+    case 'script':
+      diffScript(context, oldSection.items, newSection.items);
+      break;
+    default:
+      diffLines(context, name, oldSection, newSection);
+  }
+}
+
+function diffInfo(context: DiffContext, oldEntries: InfoEntryNode[], newEntries: InfoEntryNode[]) {
+  const oldByKey = new Map(oldEntries.map(entry => [entry.key.value, entry]));
+  const newKeys = new Set(newEntries.map(entry => entry.key.value));
+
+  for (const entry of newEntries) {
+    const key = entry.key.value;
+    const old = oldByKey.get(key);
+    if (!old) {
+      context.add({
+        section: 'info',
+        kind: 'added',
+        description: `${key} set to ${entry.value.value}`,
+        newLine: entry.range.start.line,
+      });
+    } else if (old.value.value !== entry.value.value) {
+      context.add({
+        section: 'info',
+        kind: 'modified',
+        description: `${key}: ${old.value.value} → ${entry.value.value}`,
+        oldLine: old.range.start.line,
+        newLine: entry.range.start.line,
+      });
+    }
+  }
+  for (const entry of oldEntries) {
+    if (!newKeys.has(entry.key.value)) {
+      context.add({
+        section: 'info',
+        kind: 'removed',
+        description: `${entry.key.value} removed (was ${entry.value.value})`,
+        oldLine: entry.range.start.line,
+      });
+    }
+  }
+}
+
+/**
+ * One change per grid row, listing the cells that differ. Tiles show old
+ * and new IDs, heights and resources show how much they went up or down.
+ */
+function diffGrid(
+  context: DiffContext,
+  section: string,
+  layer: DiffLayer,
+  oldRows: GridRowNode[],
+  newRows: GridRowNode[]
+) {
+  const noun = layer === 'tiles' ? 'tiles' : layer === 'height' ? 'heights' : layer;
+
+  for (let row = 0; row < Math.max(oldRows.length, newRows.length); row++) {
+    const oldRow = oldRows[row];
+    const newRow = newRows[row];
+    if (!oldRow || !newRow) {
+      context.add({
+        section,
+        kind: oldRow ? 'removed' : 'added',
+        description: `Row ${row} ${oldRow ? 'removed' : 'added'}`,
+        oldLine: oldRow?.range.start.line,
+        newLine: newRow?.range.start.line,
+      });
+      continue;
+    }
+
+    const details: string[] = [];
+    let count = 0;
+    let total = 0;
+    for (let col = 0; col < Math.max(oldRow.cells.length, newRow.cells.length); col++) {
+      const oldValue = oldRow.cells[col]?.value;
+      const newValue = newRow.cells[col]?.value;
+      if (oldValue === newValue) {
+        continue;
+      }
+
+      context.addCell({ row, col, layer });
+      count++;
+      if (oldValue !== undefined && newValue !== undefined) {
+        total += newValue - oldValue;
+      }
+      if (details.length < MAX_CELL_DETAILS) {
+        details.push(describeCell(layer, col, oldValue, newValue));
+      } else if (details.length === MAX_CELL_DETAILS) {
+        details.push('…');
+      }
+    }
+
+    if (count > 0) {
+      const summary =
+        layer === 'crystals' || layer === 'ore'
+          ? `${layer} ${total >= 0 ? '+' : ''}${total}`
+          : `${count} ${count === 1 ? noun.replace(/s$/, '') : noun} changed`;
+      context.add({
+        section,
+        kind: 'modified',
+        description: `Row ${row}: ${summary} (${details.join(', ')})`,
+        oldLine: oldRow.range.start.line,
+        newLine: newRow.range.start.line,
+      });
+    }
+  }
+}
+
+function describeCell(
+  layer: DiffLayer,
+  col: number,
+  oldValue: number | undefined,
+  newValue: number | undefined
+): string {
+  if (oldValue === undefined) {
+    return `col ${col}: added ${newValue}`;
+  }
+  if (newValue === undefined) {
+    return `col ${col}: removed ${oldValue}`;
+  }
+  if (layer === 'tiles') {
+    return `col ${col}: ${oldValue} → ${newValue}`;
+  }
+  const delta = newValue - oldValue;
+  return `col ${col}: ${delta > 0 ? '+' : ''}${delta}`;
+}
+
+/**
+ * Entities are matched by their ID first, then by type, pairing each
+ * remaining entity with the nearest one of the same type
+ */
+function diffEntities(
+  context: DiffContext,
+  section: string,
+  oldNodes: EntityNode[],
+  newNodes: EntityNode[]
+) {
+  const oldEntities = oldNodes.filter(node => node.entity);
+  const newEntities = newNodes.filter(node => node.entity);
+  const pairs: [EntityNode, EntityNode][] = [];
+  const unmatchedOld = new Set(oldEntities);
+  const unmatchedNew = new Set(newEntities);
+
+  for (const newNode of newEntities) {
+    const key = entityKey(newNode.entity!);
+    const oldNode = key
+      ? Array.from(unmatchedOld).find(node => entityKey(node.entity!) === key)
+      : undefined;
+    if (oldNode) {
+      pairs.push([oldNode, newNode]);
+      unmatchedOld.delete(oldNode);
+      unmatchedNew.delete(newNode);
+    }
+  }
+
+  const candidates: { oldNode: EntityNode; newNode: EntityNode; distance: number }[] = [];
+  for (const oldNode of unmatchedOld) {
+    for (const newNode of unmatchedNew) {
+      if (oldNode.entity!.type === newNode.entity!.type) {
+        candidates.push({ oldNode, newNode, distance: distance(oldNode.entity!, newNode.entity!) });
+      }
+    }
+  }
+  candidates.sort((a, b) => a.distance - b.distance);
+  for (const { oldNode, newNode } of candidates) {
+    if (unmatchedOld.has(oldNode) && unmatchedNew.has(newNode)) {
+      pairs.push([oldNode, newNode]);
+      unmatchedOld.delete(oldNode);
+      unmatchedNew.delete(newNode);
+    }
+  }
+
+  for (const [oldNode, newNode] of pairs) {
+    const oldEntity = oldNode.entity!;
+    const newEntity = newNode.entity!;
+    const moved = distance(oldEntity, newEntity) > MOVE_TOLERANCE;
+    const edits = describeEntityEdits(oldEntity, newEntity);
+    if (!moved && edits.length === 0) {
+      continue;
+    }
+
+    const parts = moved
+      ? [`moved from ${tilePosition(oldEntity)} to ${tilePosition(newEntity)}`, ...edits]
+      : edits;
+    context.add({
+      section,
+      kind: moved ? 'moved' : 'modified',
+      description: `${entityName(newEntity)} ${parts.join(', ')}`,
+      oldLine: oldNode.range.start.line,
+      newLine: newNode.range.start.line,
+    });
+  }
+  for (const node of unmatchedNew) {
+    context.add({
+      section,
+      kind: 'added',
+      description: `${entityName(node.entity!)} added at ${tilePosition(node.entity!)}`,
+      newLine: node.range.start.line,
+    });
+  }
+  for (const node of unmatchedOld) {
+    context.add({
+      section,
+      kind: 'removed',
+      description: `${entityName(node.entity!)} removed from ${tilePosition(node.entity!)}`,
+      oldLine: node.range.start.line,
+    });
+  }
+}
+
+// Miners are written as 'ID=n'; other entities may carry an ID property
+export function entityKey(entity: Entity): string | undefined {
+  if (/^ID=/.test(entity.type)) {
+    return entity.type;
+  }
+  const id = entity.properties?.ID;
+  return id === undefined ? undefined : `${entity.type}#${id}`;
+}
+
+export function entityName(entity: Entity): string {
+  if (/^ID=/.test(entity.type)) {
+    return `Miner ${entity.type.slice(3)}`;
+  }
+  const id = entity.properties?.ID;
+  return id === undefined ? entity.type : `${entity.type} (ID ${id})`;
+}
+
+function describeEntityEdits(oldEntity: Entity, newEntity: Entity): string[] {
+  const edits: string[] = [];
+  const oldYaw = oldEntity.coordinates.rotation.y;
+  const newYaw = newEntity.coordinates.rotation.y;
+  if (Math.abs(oldYaw - newYaw) > 0.01) {
+    edits.push(`turned from ${round(oldYaw)}° to ${round(newYaw)}°`);
+  }
+
+  const oldProperties = oldEntity.properties || {};
+  const newProperties = newEntity.properties || {};
+  for (const key of new Set([...Object.keys(oldProperties), ...Object.keys(newProperties)])) {
+    if (oldProperties[key] !== newProperties[key]) {
+      edits.push(key in newProperties ? `${key}=${newProperties[key]}` : `${key} removed`);
+    }
+  }
+
+  const oldFlags = (oldEntity.flags || []).join(',');
+  const newFlags = (newEntity.flags || []).join(',');
+  if (oldFlags !== newFlags) {
+    edits.push(`flags ${oldFlags || 'none'} → ${newFlags || 'none'}`);
+  }
+  return edits;
+}
+
+function distance(a: Entity, b: Entity): number {
+  const from = a.coordinates.translation;
+  const to = b.coordinates.translation;
+  return Math.hypot(from.x - to.x, from.y - to.y, from.z - to.z);
+}
+
+// Position in tiles, row then column, as the rest of the diff reports cells
+function tilePosition(entity: Entity): string {
+  const { x, y } = entity.coordinates.translation;
+  return `(${round(y / TILE_WORLD_SIZE)}, ${round(x / TILE_WORLD_SIZE)})`;
+}
+
+/**
+ * Objectives are compared by their text. A removed and an added objective
+ * of the same type count as one edited objective.
+ */
+function diffObjectives(
+  context: DiffContext,
+  oldNodes: ObjectiveNode[],
+  newNodes: ObjectiveNode[]
+) {
+  const text = (node: ObjectiveNode, lines: string[]) => sourceText(lines, node.range).trim();
+  const oldTexts = new Set(oldNodes.map(node => text(node, context.oldLines)));
+  const newTexts = new Set(newNodes.map(node => text(node, context.newLines)));
+  const removed = oldNodes.filter(node => !newTexts.has(text(node, context.oldLines)));
+  const added = newNodes.filter(node => !oldTexts.has(text(node, context.newLines)));
+
+  for (const newNode of added) {
+    const index = removed.findIndex(
+      oldNode => oldNode.objectiveType.value === newNode.objectiveType.value
+    );
+    if (index === -1) {
+      context.add({
+        section: 'objectives',
+        kind: 'added',
+        description: `Objective added: ${text(newNode, context.newLines)}`,
+        newLine: newNode.range.start.line,
+      });
+      continue;
+    }
+
+    const [oldNode] = removed.splice(index, 1);
+    context.add({
+      section: 'objectives',
+      kind: 'modified',
+      description: `Objective changed: ${text(oldNode, context.oldLines)} → ${text(newNode, context.newLines)}`,
+      oldLine: oldNode.range.start.line,
+      newLine: newNode.range.start.line,
+    });
+  }
+  for (const oldNode of removed) {
+    context.add({
+      section: 'objectives',
+      kind: 'removed',
+      description: `Objective removed: ${text(oldNode, context.oldLines)}`,
+      oldLine: oldNode.range.start.line,
+    });
+  }
+}
+
+/**
+ * Variables and event chains are matched by name, triggers by what sets
+ * them off
+ */
+function diffScript(
+  context: DiffContext,
+  oldItems: SectionItemNode[],
+  newItems: SectionItemNode[]
+) {
+  const describe = {
+    variable: (node: ScriptVariableNode) => `Variable ${node.name.name}`,
+    eventChain: (node: EventChainNode) => `Event ${node.name.name}`,
+    trigger: (node: TriggerNode, lines: string[]) =>
+      `Trigger ${node.occurrence.value}(${sourceText(lines, node.event.range)})`,
+  };
+  const keyOf = (node: SectionItemNode, lines: string[]): string | undefined => {
+    switch (node.kind) {
+      case 'variable':
+        return describe.variable(node);
+      case 'eventChain':
+        return describe.eventChain(node);
+      case 'trigger':
+        return describe.trigger(node, lines);
+      default:
+        return undefined;
+    }
+  };
+  const index = (items: SectionItemNode[], lines: string[]) => {
+    const byKey = new Map<string, SectionItemNode>();
+    for (const item of items) {
+      const key = keyOf(item, lines);
+      // Repeated triggers keep their first occurrence
+      if (key && !byKey.has(key)) {
+        byKey.set(key, item);
+      }
+    }
+    return byKey;
+  };
+
+  const oldByKey = index(oldItems, context.oldLines);
+  const newByKey = index(newItems, context.newLines);
+  for (const [key, newItem] of newByKey) {
+    const oldItem = oldByKey.get(key);
+    if (!oldItem) {
+      context.add({
+        section: 'script',
+        kind: 'added',
+        description: `${key} added`,
+        newLine: newItem.range.start.line,
+      });
+    } else if (
+      normalizeScript(context.oldText(oldItem.range)) !==
+      normalizeScript(context.newText(newItem.range))
+    ) {
+      const detail =
+        newItem.kind === 'variable' && oldItem.kind === 'variable'
+          ? `: ${variableValue(context.oldText(oldItem.range))} → ${variableValue(context.newText(newItem.range))}`
+          : '';
+      context.add({
+        section: 'script',
+        kind: 'modified',
+        description: `${key} changed${detail}`,
+        oldLine: oldItem.range.start.line,
+        newLine: newItem.range.start.line,
+      });
+    }
+  }
+  for (const [key, oldItem] of oldByKey) {
+    if (!newByKey.has(key)) {
+      context.add({
+        section: 'script',
+        kind: 'removed',
+        description: `${key} removed`,
+        oldLine: oldItem.range.start.line,
+      });
+    }
+  }
+}
+
+// Declaration without the name, such as 'int=5'
+function variableValue(text: string): string {
+  const [declaration, ...value] = text.trim().split('=');
+  const type = declaration.trim().split(/\s+/)[0];
+  return value.length > 0 ? `${type} ${value.join('=').trim()}` : type;
+}
+
+function normalizeScript(text: string): string {
+  return text
+    .split(/\r?\n/)
+    .map(line => line.trim())
+    .filter(Boolean)
+    .join('\n');
+}
+
+/**
+ * Line by line comparison of the section body using the longest common
+ * subsequence, pairing a removed line with the added line that replaces it
+ */
+function diffLines(
+  context: DiffContext,
+  section: string,
+  oldSection: SectionNode,
+  newSection: SectionNode
+) {
+  const bodyLines = (node: SectionNode, lines: string[]) => {
+    const body: { text: string; line: number }[] = [];
+    for (let line = node.range.start.line + 1; line < node.range.end.line; line++) {
+      const text = lines[line]?.trim();
+      if (text && text !== '}') {
+        body.push({ text, line });
+      }
+    }
+    return body;
+  };
+  const oldBody = bodyLines(oldSection, context.oldLines);
+  const newBody = bodyLines(newSection, context.newLines);
+
+  const lengths = Array.from({ length: oldBody.length + 1 }, () =>
+    new Array<number>(newBody.length + 1).fill(0)
+  );
+  for (let i = oldBody.length - 1; i >= 0; i--) {
+    for (let j = newBody.length - 1; j >= 0; j--) {
+      lengths[i][j] =
+        oldBody[i].text === newBody[j].text
+          ? lengths[i + 1][j + 1] + 1
+          : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  let i = 0;
+  let j = 0;
+  const removed: typeof oldBody = [];
+  const added: typeof newBody = [];
+  const flush = () => {
+    const paired = Math.min(removed.length, added.length);
+    for (let k = 0; k < paired; k++) {
+      context.add({
+        section,
+        kind: 'modified',
+        description: `${removed[k].text} → ${added[k].text}`,
+        oldLine: removed[k].line,
+        newLine: added[k].line,
+      });
+    }
+    for (const line of removed.slice(paired)) {
+      context.add({ section, kind: 'removed', description: line.text, oldLine: line.line });
+    }
+    for (const line of added.slice(paired)) {
+      context.add({ section, kind: 'added', description: line.text, newLine: line.line });
+    }
+    removed.length = 0;
+    added.length = 0;
+  };
+
+  while (i < oldBody.length || j < newBody.length) {
+    if (i < oldBody.length && j < newBody.length && oldBody[i].text === newBody[j].text) {
+      flush();
+      i++;
+      j++;
+    } else if (
+      j >= newBody.length ||
+      (i < oldBody.length && lengths[i + 1][j] >= lengths[i][j + 1])
+    ) {
+      removed.push(oldBody[i++]);
+    } else {
+      added.push(newBody[j++]);
+    }
+  }
+  flush();
+}
+
+function sectionsByName(sections: SectionNode[]): Map<string, SectionNode> {
+  // A repeated section is read from its last occurrence, as the parser does
+  return new Map(sections.map(section => [section.name.value, section]));
+}
+
+function itemsOf<K extends SectionItemNode['kind']>(
+  section: SectionNode,
+  kind: K
+): Extract<SectionItemNode, { kind: K }>[] {
+  return section.items.filter(
+    (item): item is Extract<SectionItemNode, { kind: K }> => item.kind === kind
+  );
+}
+
+function sourceText(lines: string[], range: SourceRange): string {
+  if (range.start.line === range.end.line) {
+    return (lines[range.start.line] || '').slice(range.start.column, range.end.column);
+  }
+  const text = [(lines[range.start.line] || '').slice(range.start.column)];
+  for (let line = range.start.line + 1; line < range.end.line; line++) {
+    text.push(lines[line] || '');
+  }
+  text.push((lines[range.end.line] || '').slice(0, range.end.column));
+  return text.join('\n');
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
@@ -0,0 +1,148 @@
+import { mergeDatText } from './datMerge';
+
+describe('mergeDatText', () => {
+  const coordinates = (x: number, y: number) =>
+    `Translation: X=${x}.000 Y=${y}.000 Z=0.000 Rotation: P=0.000000 Y=0.000000 R=0.000000 Scale X=1.000 Y=1.000 Z=1.000`;
+
+  const base = `info{
+rowcount:3
+colcount:3
+biome:rock
+}
+tiles{
+1,1,1,
+1,26,1,
+1,1,1,
+}
+height{
+0,0,0,
+0,0,0,
+0,0,0,
+}
+objectives{
+resources: 10,0,0
+}
+creatures{
+CreatureBat_C,${coordinates(150, 150)},ID=1
+CreatureSmallSpider_C,${coordinates(750, 150)}
+}
+script{
+int Count=0
+Start::
+msg:Hello;
+
+when(init)[Start]
+}
+briefing{
+Welcome
+}
+`;
+
+  it('should take the changes of both sides when they do not overlap', () => {
+    const ours = base.replace('1,26,1,', '1,26,26,').replace('int Count=0', 'int Count=2');
+    const theirs = base
+      .replace('biome:rock', 'biome:ice')
+      .replace('0,0,0,\n0,0,0,\n0,0,0,\n}\nobjectives', '0,0,0,\n0,0,0,\n5,0,0,\n}\nobjectives')
+      .replace('1,1,1,\n}\nheight', '26,1,1,\n}\nheight')
+      .replace('Start::\nmsg:Hello;', 'Start::\nmsg:Hello;\n\nEnd::\nwin:;');
+
+    const result = mergeDatText(base, ours, theirs);
+
+    expect(result.conflicts).toEqual([]);
+    expect(result.text).toContain('biome:ice');
+    expect(result.text).toContain('tiles{\n1,1,1,\n1,26,26,\n26,1,1,\n}');
+    expect(result.text).toContain('5,0,0,\n}');
+    expect(result.text).toContain('int Count=2');
+    expect(result.text).toContain('End::\nwin:;');
+  });
+
+  it('should report cells changed differently on both sides', () => {
+    const ours = base.replace('1,26,1,', '1,38,1,');
+    const theirs = base.replace('1,26,1,', '1,42,1,');
+
+    const result = mergeDatText(base, ours, theirs);
+
+    expect(result.conflicts).toEqual([
+      {
+        id: 'tiles:1,1',
+        section: 'tiles',
+        description: 'tiles at 1,1 was changed on both sides',
+        base: '26',
+        ours: '38',
+        theirs: '42',
+        row: 1,
+        col: 1,
+      },
+    ]);
+    expect(result.text).toContain('1,38,1,');
+    expect(mergeDatText(base, ours, theirs, { 'tiles:1,1': 'theirs' }).text).toContain('1,42,1,');
+  });
+
+  it('should not report the same change made on both sides', () => {
+    const changed = base.replace('1,26,1,', '1,38,1,').replace('Welcome', 'Hello there');
+
+    expect(mergeDatText(base, changed, changed)).toEqual({ text: changed, conflicts: [] });
+  });
+
+  it('should merge entities by ID and by type and position', () => {
+    const ours = base.replace(`${coordinates(150, 150)},ID=1`, `${coordinates(450, 150)},ID=1`);
+    const theirs = base
+      .replace(
+        `CreatureSmallSpider_C,${coordinates(750, 150)}`,
+        `CreatureSmallSpider_C,${coordinates(750, 450)}`
+      )
+      .replace('}\nscript', `CreatureSlimySlug_C,${coordinates(150, 750)}\n}\nscript`);
+
+    const result = mergeDatText(base, ours, theirs);
+
+    expect(result.conflicts).toEqual([]);
+    expect(result.text).toContain(`CreatureBat_C\n${coordinates(450, 150)}\nID=1`);
+    expect(result.text).toContain(`CreatureSmallSpider_C\n${coordinates(750, 450)}`);
+    expect(result.text).toContain(`CreatureSlimySlug_C\n${coordinates(150, 750)}`);
+  });
+
+  it('should report an entity changed on one side and removed on the other', () => {
+    const ours = base.replace(`${coordinates(150, 150)},ID=1`, `${coordinates(450, 150)},ID=1`);
+    const theirs = base.replace(`CreatureBat_C,${coordinates(150, 150)},ID=1\n`, '');
+
+    const result = mergeDatText(base, ours, theirs);
+
+    expect(result.conflicts.map(conflict => [conflict.id, conflict.description])).toEqual([
+      [
+        'creatures:CreatureBat_C#1',
+        'CreatureBat_C (ID 1) was changed on one side and removed on the other',
+      ],
+    ]);
+    expect(result.text).toContain('CreatureBat_C');
+    expect(
+      mergeDatText(base, ours, theirs, { 'creatures:CreatureBat_C#1': 'theirs' }).text
+    ).not.toContain('CreatureBat_C');
+  });
+
+  it('should merge objectives and script items by name', () => {
+    const ours = base
+      .replace('resources: 10,0,0', 'resources: 20,0,0')
+      .replace('msg:Hello;', 'msg:Bye;');
+    const theirs = base
+      .replace('resources: 10,0,0', 'resources: 10,0,0\nfindminer:1')
+      .replace('msg:Hello;', 'msg:Welcome;');
+
+    const result = mergeDatText(base, ours, theirs);
+
+    expect(result.text).toContain('resources: 20,0,0\nfindminer:1');
+    expect(result.conflicts.map(conflict => [conflict.id, conflict.ours, conflict.theirs])).toEqual(
+      [['script:event:Start', 'Start::\nmsg:Bye;', 'Start::\nmsg:Welcome;']]
+    );
+  });
+
+  it('should report info keys and text sections changed on both sides', () => {
+    const ours = base.replace('biome:rock', 'biome:ice').replace('Welcome', 'Hi');
+    const theirs = base.replace('biome:rock', 'biome:lava').replace('Welcome', 'Hey');
+
+    const result = mergeDatText(base, ours, theirs, { briefing: 'theirs' });
+
+    expect(result.conflicts.map(conflict => conflict.id)).toEqual(['info:biome', 'briefing']);
+    expect(result.text).toContain('biome:ice');
+    expect(result.text).toContain('briefing{\nHey\n}');
+  });
+});
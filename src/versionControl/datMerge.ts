@@ -0,0 +1,533 @@
+import { DatFileParser } from '../parser/datFileParser';
+import { DatFileWriter } from '../parser/datFileWriter';
+import { printScriptItem } from '../parser/scriptPrinter';
+import { printBlockWire, printVisualBlock } from '../parser/visualBlocksParser';
+import { BlockWire, DatFile, Entity, Objective, VisualBlock } from '../types/datFileTypes';
+import { ScriptItemNode } from '../types/scriptAstTypes';
+import { entityKey, entityName } from './datDiff';
+
+export type MergeSide = 'base' | 'ours' | 'theirs';
+
+export interface MergeConflict {
+  // Stable across merges of the same three texts, used to pick a resolution
+  id: string;
+  section: string;
+  description: string;
+  // How each side left the conflicting item; undefined when it has none
+  base?: string;
+  ours?: string;
+  theirs?: string;
+  // Grid cell of tiles, height and resource conflicts
+  row?: number;
+  col?: number;
+}
+
+export interface DatMergeResult {
+  // Merged level, with every conflict resolved as chosen or to ours
+  text: string;
+  conflicts: MergeConflict[];
+}
+
+type Resolutions = Record<string, MergeSide>;
+
+const ENTITY_SECTIONS = ['buildings', 'vehicles', 'creatures', 'miners'] as const;
+
+const GRID_SECTIONS = ['tiles', 'height'] as const;
+
+const WHOLE_SECTIONS = [
+  'comments',
+  'briefing',
+  'briefingsuccess',
+  'briefingfailure',
+  'landslidefrequency',
+  'lavaspread',
+] as const;
+
+/**
+ * Three-way merge of a level. Grids merge cell by cell, entities by ID
+ * (or by type and nearest position when they have none), objectives, script
+ * items and blocks by what they are, and info by key. Only changes both
+ * sides made differently to the same thing are conflicts. The result keeps
+ * the formatting of ours wherever ours is kept.
+ */
+export function mergeDatText(
+  baseText: string,
+  oursText: string,
+  theirsText: string,
+  resolutions: Resolutions = {}
+): DatMergeResult {
+  const oursParser = new DatFileParser(oursText);
+  const base = new DatFileParser(baseText).parsePartial();
+  const ours = oursParser.parsePartial();
+  const theirs = new DatFileParser(theirsText).parsePartial();
+
+  const merger = new Merger(resolutions);
+  const merged: Partial<DatFile> = { ...ours };
+
+  merged.info = merger.mergeInfo(base.info, ours.info, theirs.info);
+  for (const name of GRID_SECTIONS) {
+    merged[name] = merger.mergeSection(name, base[name], ours[name], theirs[name], (b, o, t) =>
+      merger.mergeGrid(name, name, b || [], o, t)
+    );
+  }
+  merged.resources = merger.mergeSection(
+    'resources',
+    base.resources,
+    ours.resources,
+    theirs.resources,
+    (b, o, t) => {
+      const result: NonNullable<DatFile['resources']> = {};
+      for (const type of ['crystals', 'ore'] as const) {
+        const grid = merger.mergeSection(
+          `resources.${type}`,
+          b?.[type],
+          o[type],
+          t[type],
+          (bg, og, tg) => merger.mergeGrid(`resources.${type}`, type, bg || [], og, tg)
+        );
+        if (grid) {
+          result[type] = grid;
+        }
+      }
+      return result;
+    }
+  );
+  for (const name of ENTITY_SECTIONS) {
+    merged[name] = merger.mergeSection(name, base[name], ours[name], theirs[name], (b, o, t) =>
+      merger.mergeEntities(name, b || [], o, t)
+    );
+  }
+  merged.objectives = merger.mergeSection(
+    'objectives',
+    base.objectives,
+    ours.objectives,
+    theirs.objectives,
+    (b, o, t) =>
+      merger.mergeKeyed(
+        'objectives',
+        b || [],
+        o,
+        t,
+        objectiveKey,
+        writeObjective,
+        () => 'Objective'
+      )
+  );
+  merged.script = merger.mergeSection(
+    'script',
+    base.script,
+    ours.script,
+    theirs.script,
+    (b, o, t) => ({
+      ...o,
+      items: merger.mergeKeyed(
+        'script',
+        b?.items || [],
+        o.items,
+        t.items,
+        scriptItemKey,
+        item => printScriptItem(item).join('\n'),
+        scriptItemName
+      ),
+    })
+  );
+  merged.blocks = merger.mergeSection(
+    'blocks',
+    base.blocks,
+    ours.blocks,
+    theirs.blocks,
+    (b, o, t) => ({
+      blocks: merger.mergeKeyed<VisualBlock>(
+        'blocks',
+        b?.blocks || [],
+        o.blocks,
+        t.blocks,
+        block => `block:${block.id}`,
+        printVisualBlock,
+        block => `Block ${block.id}`
+      ),
+      wires: merger.mergeKeyed<BlockWire>(
+        'blocks',
+        b?.wires || [],
+        o.wires,
+        t.wires,
+        wire => `wire:${wire.from}-${wire.to}`,
+        printBlockWire,
+        wire => `Wire ${wire.from} to ${wire.to}`
+      ),
+    })
+  );
+  for (const name of WHOLE_SECTIONS) {
+    // Conflicting edits of these take one side whole
+    (merged as Record<string, unknown>)[name] = merger.mergeSection(
+      name,
+      base[name],
+      ours[name],
+      theirs[name]
+    );
+  }
+
+  const text = new DatFileWriter({ source: oursParser }).write(merged);
+  return { text, conflicts: merger.conflicts };
+}
+
+class Merger {
+  public readonly conflicts: MergeConflict[] = [];
+
+  constructor(private resolutions: Resolutions) {}
+
+  /**
+   * Merge a whole section. A side that left the section alone takes the
+   * other side's version; when both changed it the parts are merged, or the
+   * section conflicts as a whole if there is no way to merge its parts.
+   */
+  public mergeSection<T>(
+    section: string,
+    base: T | undefined,
+    ours: T | undefined,
+    theirs: T | undefined,
+    mergeParts?: (base: T | undefined, ours: T, theirs: T) => T
+  ): T | undefined {
+    const quick = quickMerge(base, ours, theirs, value => JSON.stringify(value));
+    if (quick.merged) {
+      return quick.value;
+    }
+    if (ours !== undefined && theirs !== undefined && mergeParts) {
+      return mergeParts(base, ours, theirs);
+    }
+
+    return this.conflict(
+      {
+        id: section,
+        section,
+        description: `Section ${section} was changed on both sides`,
+        ...this.describeSides(base, ours, theirs, value => JSON.stringify(value, null, 2)),
+      },
+      { base, ours, theirs }
+    );
+  }
+
+  public mergeInfo(
+    base: DatFile['info'] | undefined,
+    ours: DatFile['info'] | undefined,
+    theirs: DatFile['info'] | undefined
+  ): DatFile['info'] {
+    const flatten = (info: DatFile['info'] | undefined) => {
+      const values: Record<string, unknown> = {};
+      for (const [key, value] of Object.entries(info || {})) {
+        if (key === 'extras') {
+          for (const [extra, text] of Object.entries(value as Record<string, string>)) {
+            values[`extras.${extra}`] = text;
+          }
+        } else {
+          values[key] = value;
+        }
+      }
+      return values;
+    };
+    const baseValues = flatten(base);
+    const oursValues = flatten(ours);
+    const theirsValues = flatten(theirs);
+
+    const merged: Record<string, unknown> = {};
+    const extras: Record<string, string> = {};
+    for (const key of new Set([...Object.keys(oursValues), ...Object.keys(theirsValues)])) {
+      const show = (value: unknown) =>
+        typeof value === 'object' ? JSON.stringify(value) : String(value);
+      const quick = quickMerge(baseValues[key], oursValues[key], theirsValues[key], value =>
+        JSON.stringify(value)
+      );
+      const value = quick.merged
+        ? quick.value
+        : this.conflict(
+            {
+              id: `info:${key}`,
+              section: 'info',
+              description: `${key.replace(/^extras\./, '')} was changed on both sides`,
+              ...this.describeSides(baseValues[key], oursValues[key], theirsValues[key], show),
+            },
+            { base: baseValues[key], ours: oursValues[key], theirs: theirsValues[key] }
+          );
+      if (value === undefined) {
+        continue;
+      }
+      if (key.startsWith('extras.')) {
+        extras[key.slice('extras.'.length)] = value as string;
+      } else {
+        merged[key] = value;
+      }
+    }
+    if (Object.keys(extras).length > 0) {
+      merged.extras = extras;
+    }
+    return merged as unknown as DatFile['info'];
+  }
+
+  /**
+   * Merge grids cell by cell. Grids resized on one side take that side's
+   * size, and keep the other side's changes to cells both sizes share.
+   */
+  public mergeGrid(
+    section: string,
+    label: string,
+    base: number[][],
+    ours: number[][],
+    theirs: number[][]
+  ): number[][] {
+    const sameSize = (a: number[][], b: number[][]) =>
+      a.length === b.length && a.every((row, index) => row.length === b[index]?.length);
+    const shape = sameSize(ours, base) ? theirs : ours;
+    if (!sameSize(ours, base) && !sameSize(theirs, base) && !sameSize(ours, theirs)) {
+      return (
+        this.conflict(
+          {
+            id: section,
+            section,
+            description: `${label} was resized differently on both sides (${gridSize(ours)} and ${gridSize(theirs)})`,
+            base: gridSize(base),
+            ours: gridSize(ours),
+            theirs: gridSize(theirs),
+          },
+          { base, ours, theirs }
+        ) ?? ours
+      );
+    }
+
+    return shape.map((row, r) =>
+      row.map((_, c) => {
+        const quick = quickMerge(base[r]?.[c], ours[r]?.[c], theirs[r]?.[c], String);
+        if (quick.merged && quick.value !== undefined) {
+          return quick.value;
+        }
+        if (quick.merged) {
+          // Only the side that set the shape has the cell
+          return shape[r][c];
+        }
+        return (
+          this.conflict(
+            {
+              id: `${section}:${r},${c}`,
+              section,
+              description: `${label} at ${r},${c} was changed on both sides`,
+              ...this.describeSides(base[r]?.[c], ours[r]?.[c], theirs[r]?.[c], String),
+              row: r,
+              col: c,
+            },
+            { base: base[r]?.[c], ours: ours[r]?.[c], theirs: theirs[r]?.[c] }
+          ) ?? shape[r][c]
+        );
+      })
+    );
+  }
+
+  /**
+   * Entities with an ID keep it across versions. Others are matched to the
+   * base entity of the same type nearest to them.
+   */
+  public mergeEntities(
+    section: string,
+    base: Entity[],
+    ours: Entity[],
+    theirs: Entity[]
+  ): Entity[] {
+    const baseKeys = base.map((entity, index) => entityKey(entity) ?? `${entity.type}@${index}`);
+    const keys = new Map<Entity, string>(base.map((entity, index) => [entity, baseKeys[index]]));
+    for (const [side, entities] of [
+      ['ours', ours],
+      ['theirs', theirs],
+    ] as const) {
+      const unmatchedBase = base.filter(entity => !entityKey(entity));
+      entities.forEach((entity, index) => {
+        const key = entityKey(entity);
+        if (key) {
+          keys.set(entity, key);
+          return;
+        }
+        const nearest = unmatchedBase
+          .filter(candidate => candidate.type === entity.type)
+          .sort((a, b) => distance(a, entity) - distance(b, entity))[0];
+        if (nearest) {
+          unmatchedBase.splice(unmatchedBase.indexOf(nearest), 1);
+          keys.set(entity, keys.get(nearest)!);
+        } else {
+          keys.set(entity, `${entity.type}+${side}${index}`);
+        }
+      });
+    }
+
+    return this.mergeKeyed(
+      section,
+      base,
+      ours,
+      theirs,
+      entity => keys.get(entity)!,
+      entity => JSON.stringify(entity),
+      entityName
+    );
+  }
+
+  /**
+   * Merge lists whose items are known by a key, following the order of
+   * ours. Items only theirs added go after the item they follow in theirs.
+   */
+  public mergeKeyed<T>(
+    section: string,
+    base: T[],
+    ours: T[],
+    theirs: T[],
+    keyOf: (item: T) => string,
+    print: (item: T) => string,
+    nameOf: (item: T) => string
+  ): T[] {
+    const baseByKey = new Map(base.map(item => [keyOf(item), item]));
+    const oursByKey = new Map(ours.map(item => [keyOf(item), item]));
+    const theirsByKey = new Map(theirs.map(item => [keyOf(item), item]));
+    const merge = (key: string): T | undefined => {
+      const b = baseByKey.get(key);
+      const o = oursByKey.get(key);
+      const t = theirsByKey.get(key);
+      const quick = quickMerge(b, o, t, print);
+      if (quick.merged) {
+        return quick.value;
+      }
+      const name = nameOf((o ?? t ?? b)!);
+      return this.conflict(
+        {
+          id: `${section}:${key}`,
+          section,
+          description:
+            o === undefined || t === undefined
+              ? `${name} was changed on one side and removed on the other`
+              : `${name} was changed on both sides`,
+          ...this.describeSides(b, o, t, print),
+        },
+        { base: b, ours: o, theirs: t }
+      );
+    };
+
+    const merged: { key: string; item: T }[] = [];
+    for (const item of ours) {
+      const key = keyOf(item);
+      const value = merge(key);
+      if (value !== undefined) {
+        merged.push({ key, item: value });
+      }
+    }
+
+    let previous: string | undefined;
+    for (const item of theirs) {
+      const key = keyOf(item);
+      if (!oursByKey.has(key)) {
+        const value = merge(key);
+        if (value !== undefined) {
+          const index = previous ? merged.findIndex(entry => entry.key === previous) : -1;
+          merged.splice(index + 1, 0, { key, item: value });
+        }
+      }
+      if (merged.some(entry => entry.key === key)) {
+        previous = key;
+      }
+    }
+
+    return merged.map(entry => entry.item);
+  }
+
+  private conflict<T>(
+    conflict: MergeConflict,
+    sides: Record<MergeSide, T | undefined>
+  ): T | undefined {
+    this.conflicts.push(conflict);
+    return sides[this.resolutions[conflict.id] || 'ours'];
+  }
+
+  private describeSides<T>(
+    base: T | undefined,
+    ours: T | undefined,
+    theirs: T | undefined,
+    print: (value: T) => string
+  ): Pick<MergeConflict, MergeSide> {
+    return {
+      base: base === undefined ? undefined : print(base),
+      ours: ours === undefined ? undefined : print(ours),
+      theirs: theirs === undefined ? undefined : print(theirs),
+    };
+  }
+}
+
+/**
+ * Merge a value changed on at most one side, or the same way on both
+ */
+function quickMerge<T>(
+  base: T | undefined,
+  ours: T | undefined,
+  theirs: T | undefined,
+  print: (value: T) => string
+): { merged: boolean; value?: T } {
+  const text = (value: T | undefined) => (value === undefined ? undefined : print(value));
+  if (text(ours) === text(base)) {
+    return { merged: true, value: theirs };
+  }
+  if (text(theirs) === text(base) || text(theirs) === text(ours)) {
+    return { merged: true, value: ours };
+  }
+  return { merged: false };
+}
+
+// Objectives are known by what they ask for, so a changed target is an edit
+function objectiveKey(objective: Objective): string {
+  switch (objective.type) {
+    case 'resources':
+      return 'resources';
+    case 'building':
+      return `building:${objective.building}`;
+    case 'discovertile':
+      return `discovertile:${objective.x},${objective.y}`;
+    case 'variable':
+      return `variable:${objective.condition}`;
+    case 'findminer':
+      return `findminer:${objective.minerID}`;
+    case 'findbuilding':
+      return `findbuilding:${objective.x},${objective.y}`;
+  }
+}
+
+function writeObjective(objective: Objective): string {
+  return new DatFileWriter().writeSection('objectives', [objective]).split(/\r?\n/)[1];
+}
+
+function scriptItemKey(item: ScriptItemNode): string {
+  switch (item.kind) {
+    case 'variable':
+      return `variable:${item.name.name}`;
+    case 'eventChain':
+      return `event:${item.name.name}`;
+    case 'trigger':
+      // A trigger is known by what sets it off
+      return `trigger:${printScriptItem({ ...item, trueBranch: undefined, falseBranch: undefined, condition: undefined }).join('')}`;
+    case 'comment':
+      return `comment:${item.text}`;
+  }
+}
+
+function scriptItemName(item: ScriptItemNode): string {
+  switch (item.kind) {
+    case 'variable':
+      return `Variable ${item.name.name}`;
+    case 'eventChain':
+      return `Event ${item.name.name}`;
+    case 'trigger':
+      return `Trigger ${printScriptItem({ ...item, trueBranch: undefined, falseBranch: undefined, condition: undefined }).join('')}`;
+    case 'comment':
+      return `Comment ${item.text}`;
+  }
+}
+
+function distance(a: Entity, b: Entity): number {
+  const from = a.coordinates.translation;
+  const to = b.coordinates.translation;
+  return Math.hypot(from.x - to.x, from.y - to.y, from.z - to.z);
+}
+
+function gridSize(grid: number[][]): string {
+  return `${grid.length}x${grid[0]?.length ?? 0}`;
+}
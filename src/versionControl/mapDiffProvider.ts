@@ -1,14 +1,23 @@
 import * as vscode from 'vscode';
-import { MapDiff, MapVersion } from './mapVersionControl';
+import { MapVersion } from './mapVersionControl';
+import { DatDiff, diffDatText } from './datDiff';
+import { DatCstParser } from '../parser/datCstParser';
+import { getRgbaString, getTileColor } from '../mapPreview/colorMap';
+
+type DiffSide = 'from' | 'to';
 
 export class MapDiffProvider {
   private _view?: vscode.WebviewView;
+  private current?: {
+    document: vscode.TextDocument;
+    from: MapVersion;
+    to: MapVersion;
+    diff: DatDiff;
+  };
+  // Read-only copies of stored versions opened to show a change
+  private versionDocuments = new Map<string, vscode.TextDocument>();
 
-  constructor(
-    private readonly _extensionUri: vscode.Uri,
-    private getMapVersion: (hash: string) => MapVersion | undefined,
-    private getMapDiff: (from: string, to: string) => MapDiff | null
-  ) {}
+  constructor(private readonly _extensionUri: vscode.Uri) {}
 
   public resolveWebviewView(
     webviewView: vscode.WebviewView,
@@ -23,34 +32,91 @@ export class MapDiffProvider {
     };
 
     webviewView.webview.html = this._getHtmlForWebview(webviewView.webview);
+
+    webviewView.webview.onDidReceiveMessage(async message => {
+      if (message.type === 'revealLine') {
+        await this.revealLine(message.side, message.line);
+      }
+    });
   }
 
-  public showDiff(fromHash: string, toHash: string) {
+  /**
+   * Compare two versions of a document section by section
+   */
+  public showDiff(fromVersion: MapVersion, toVersion: MapVersion, document: vscode.TextDocument) {
     if (!this._view) {
       return;
     }
 
-    const diff = this.getMapDiff(fromHash, toHash);
-    const fromVersion = this.getMapVersion(fromHash);
-    const toVersion = this.getMapVersion(toHash);
-
-    if (diff && fromVersion && toVersion) {
-      this._view.webview.postMessage({
-        type: 'showDiff',
-        diff,
-        fromVersion: {
-          hash: fromVersion.hash,
-          date: fromVersion.date.toISOString(),
-          message: fromVersion.message,
-          author: fromVersion.author,
-        },
-        toVersion: {
-          hash: toVersion.hash,
-          date: toVersion.date.toISOString(),
-          message: toVersion.message,
-          author: toVersion.author,
-        },
+    const diff = diffDatText(fromVersion.content, toVersion.content);
+    this.current = { document, from: fromVersion, to: toVersion, diff };
+
+    const tileIds = new Set([...(fromVersion.tiles || []), ...(toVersion.tiles || [])].flat());
+    const tileColors: Record<number, string> = {};
+    for (const tileId of tileIds) {
+      tileColors[tileId] = getRgbaString(getTileColor(tileId));
+    }
+
+    this._view.webview.postMessage({
+      type: 'showDiff',
+      diff,
+      fromVersion: this.describeVersion(fromVersion),
+      toVersion: this.describeVersion(toVersion),
+      fromTiles: fromVersion.tiles || [],
+      toTiles: toVersion.tiles || [],
+      fromRowLines: getTileRowLines(fromVersion.content),
+      toRowLines: getTileRowLines(toVersion.content),
+      tileColors,
+    });
+  }
+
+  private describeVersion(version: MapVersion) {
+    return {
+      hash: version.hash,
+      date: version.date.toISOString(),
+      message: version.message,
+      author: version.author,
+      branch: version.branch,
+    };
+  }
+
+  /**
+   * Show a line of one side of the diff. The side that matches the open
+   * document is shown there; a stored version opens as a read-only copy.
+   */
+  private async revealLine(side: DiffSide, line: number) {
+    if (!this.current) {
+      return;
+    }
+
+    try {
+      const version = side === 'from' ? this.current.from : this.current.to;
+      let document = this.current.document;
+      if (document.isClosed || document.getText() !== version.content) {
+        const opened = this.versionDocuments.get(version.hash);
+        document =
+          opened && !opened.isClosed
+            ? opened
+            : await vscode.workspace.openTextDocument({
+                language: 'manicminers',
+                content: version.content,
+              });
+        this.versionDocuments.set(version.hash, document);
+      }
+
+      const editor = await vscode.window.showTextDocument(document, {
+        viewColumn: vscode.ViewColumn.One,
+        preserveFocus: false,
       });
+      const position = new vscode.Position(line, 0);
+      editor.selection = new vscode.Selection(position, position);
+      editor.revealRange(
+        new vscode.Range(position, position),
+        vscode.TextEditorRevealType.InCenterIfOutsideViewport
+      );
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      vscode.window.showErrorMessage(`Failed to show change: ${errorMessage}`);
     }
   }
 
@@ -82,6 +148,21 @@ export class MapDiffProvider {
                 </div>
             </div>
         </div>
+        <div class="diff-maps">
+            <div class="diff-map">
+                <h3>From</h3>
+                <canvas id="fromMap" title="Click a tile to show its row"></canvas>
+            </div>
+            <div class="diff-map">
+                <h3>To</h3>
+                <canvas id="toMap" title="Click a tile to show its row"></canvas>
+            </div>
+            <div class="diff-legend">
+                <span class="legend-item tiles">Tiles</span>
+                <span class="legend-item height">Height</span>
+                <span class="legend-item resources">Resources</span>
+            </div>
+        </div>
         <div class="diff-statistics">
             <h3>Changes Summary</h3>
             <div class="stats"></div>
@@ -93,83 +174,146 @@ export class MapDiffProvider {
     </div>
     <script>
         const vscode = acquireVsCodeApi();
-        
+        const LAYER_COLORS = { tiles: '#ffd700', height: '#00bcd4', crystals: '#e040fb', ore: '#e040fb' };
+        let current;
+
         window.addEventListener('message', event => {
             const message = event.data;
             switch (message.type) {
                 case 'showDiff':
-                    displayDiff(message.diff, message.fromVersion, message.toVersion);
+                    current = message;
+                    displayDiff(message);
                     break;
             }
         });
 
-        function displayDiff(diff, fromVersion, toVersion) {
-            // Display version info
-            document.querySelector('.from-version .version-details').innerHTML = \`
-                <p><strong>Hash:</strong> \${fromVersion.hash}</p>
-                <p><strong>Date:</strong> \${new Date(fromVersion.date).toLocaleString()}</p>
-                <p><strong>Message:</strong> \${fromVersion.message}</p>
-                \${fromVersion.author ? \`<p><strong>Author:</strong> \${fromVersion.author}</p>\` : ''}
-            \`;
+        function escapeHtml(text) {
+            const div = document.createElement('div');
+            div.textContent = text == null ? '' : String(text);
+            return div.innerHTML;
+        }
 
-            document.querySelector('.to-version .version-details').innerHTML = \`
-                <p><strong>Hash:</strong> \${toVersion.hash}</p>
-                <p><strong>Date:</strong> \${new Date(toVersion.date).toLocaleString()}</p>
-                <p><strong>Message:</strong> \${toVersion.message}</p>
-                \${toVersion.author ? \`<p><strong>Author:</strong> \${toVersion.author}</p>\` : ''}
+        function describeVersion(version) {
+            return \`
+                <p><strong>Hash:</strong> \${escapeHtml(version.hash.substring(0, 8))}</p>
+                <p><strong>Date:</strong> \${new Date(version.date).toLocaleString()}</p>
+                <p><strong>Message:</strong> \${escapeHtml(version.message)}</p>
+                \${version.branch ? \`<p><strong>Branch:</strong> \${escapeHtml(version.branch)}</p>\` : ''}
+                \${version.author ? \`<p><strong>Author:</strong> \${escapeHtml(version.author)}</p>\` : ''}
             \`;
+        }
 
-            // Display statistics
+        function displayDiff(message) {
+            const { diff } = message;
+            document.querySelector('.from-version .version-details').innerHTML = describeVersion(message.fromVersion);
+            document.querySelector('.to-version .version-details').innerHTML = describeVersion(message.toVersion);
+
+            drawMap('fromMap', message.fromTiles, diff.changedCells, message.tileColors);
+            drawMap('toMap', message.toTiles, diff.changedCells, message.tileColors);
+
+            // Changes per section
+            const sections = Object.keys(diff.statistics);
             document.querySelector('.stats').innerHTML = \`
                 <div class="stat-item">
                     <span class="stat-label">Total Changes:</span>
-                    <span class="stat-value">\${diff.statistics.totalChanges}</span>
-                </div>
-                <div class="stat-item added">
-                    <span class="stat-label">Tiles Added:</span>
-                    <span class="stat-value">\${diff.statistics.tilesAdded}</span>
-                </div>
-                <div class="stat-item removed">
-                    <span class="stat-label">Tiles Removed:</span>
-                    <span class="stat-value">\${diff.statistics.tilesRemoved}</span>
-                </div>
-                <div class="stat-item modified">
-                    <span class="stat-label">Tiles Modified:</span>
-                    <span class="stat-value">\${diff.statistics.tilesModified}</span>
+                    <span class="stat-value">\${diff.changes.length}</span>
                 </div>
+                \${sections.map(section => \`
+                <div class="stat-item">
+                    <span class="stat-label">\${escapeHtml(section)}:</span>
+                    <span class="stat-value">\${diff.statistics[section]}</span>
+                </div>\`).join('')}
             \`;
 
-            // Display detailed changes
+            if (diff.changes.length === 0) {
+                document.querySelector('.changes-list').innerHTML = '<p>The versions are the same</p>';
+                return;
+            }
+
+            // Detailed changes, grouped by section
             let changesHtml = '';
-            
-            if (diff.added.length > 0) {
-                changesHtml += '<div class="change-group added"><h4>Added Tiles</h4><ul>';
-                diff.added.forEach(change => {
-                    changesHtml += \`<li>Position (\${change.row}, \${change.col}): Tile \${change.tile}</li>\`;
+            for (const section of sections) {
+                changesHtml += \`<div class="change-group"><h4>\${escapeHtml(section)}</h4><ul>\`;
+                diff.changes.forEach((change, index) => {
+                    if (change.section !== section) {
+                        return;
+                    }
+                    changesHtml += \`<li class="change \${change.kind}" data-index="\${index}">
+                        <span class="change-kind">\${change.kind}</span>
+                        <span class="change-description">\${escapeHtml(change.description)}</span>
+                        \${change.oldLine !== undefined ? \`<a class="change-link" data-side="from" data-line="\${change.oldLine}">from:\${change.oldLine + 1}</a>\` : ''}
+                        \${change.newLine !== undefined ? \`<a class="change-link" data-side="to" data-line="\${change.newLine}">to:\${change.newLine + 1}</a>\` : ''}
+                    </li>\`;
                 });
                 changesHtml += '</ul></div>';
             }
+            document.querySelector('.changes-list').innerHTML = changesHtml;
+        }
 
-            if (diff.removed.length > 0) {
-                changesHtml += '<div class="change-group removed"><h4>Removed Tiles</h4><ul>';
-                diff.removed.forEach(change => {
-                    changesHtml += \`<li>Position (\${change.row}, \${change.col}): Tile \${change.tile}</li>\`;
-                });
-                changesHtml += '</ul></div>';
+        function drawMap(canvasId, tiles, changedCells, tileColors) {
+            const canvas = document.getElementById(canvasId);
+            const rows = tiles.length;
+            const cols = rows > 0 ? Math.max(...tiles.map(row => row.length)) : 0;
+            const cellSize = Math.max(2, Math.floor(220 / Math.max(rows, cols, 1)));
+            canvas.width = cols * cellSize;
+            canvas.height = rows * cellSize;
+            canvas.dataset.cellSize = cellSize;
+
+            const ctx = canvas.getContext('2d');
+            for (let row = 0; row < rows; row++) {
+                for (let col = 0; col < tiles[row].length; col++) {
+                    ctx.fillStyle = tileColors[tiles[row][col]] || '#808080';
+                    ctx.fillRect(col * cellSize, row * cellSize, cellSize, cellSize);
+                }
             }
 
-            if (diff.modified.length > 0) {
-                changesHtml += '<div class="change-group modified"><h4>Modified Tiles</h4><ul>';
-                diff.modified.forEach(change => {
-                    changesHtml += \`<li>Position (\${change.row}, \${change.col}): \${change.oldTile} → \${change.newTile}</li>\`;
-                });
-                changesHtml += '</ul></div>';
+            ctx.lineWidth = Math.max(1, Math.floor(cellSize / 6));
+            for (const cell of changedCells) {
+                if (cell.row < rows && cell.col < cols) {
+                    ctx.strokeStyle = LAYER_COLORS[cell.layer];
+                    ctx.strokeRect(cell.col * cellSize + 0.5, cell.row * cellSize + 0.5, cellSize - 1, cellSize - 1);
+                }
             }
+        }
 
-            document.querySelector('.changes-list').innerHTML = changesHtml;
+        document.querySelector('.changes-list').addEventListener('click', event => {
+            const link = event.target.closest('.change-link');
+            const item = event.target.closest('.change');
+            if (link) {
+                vscode.postMessage({ type: 'revealLine', side: link.dataset.side, line: Number(link.dataset.line) });
+            } else if (item && current) {
+                // Removed changes only exist on the from side
+                const change = current.diff.changes[Number(item.dataset.index)];
+                const side = change.newLine !== undefined ? 'to' : 'from';
+                const line = side === 'to' ? change.newLine : change.oldLine;
+                if (line !== undefined) {
+                    vscode.postMessage({ type: 'revealLine', side, line });
+                }
+            }
+        });
+
+        for (const side of ['from', 'to']) {
+            document.getElementById(side + 'Map').addEventListener('click', event => {
+                if (!current) {
+                    return;
+                }
+                const canvas = event.currentTarget;
+                const rect = canvas.getBoundingClientRect();
+                const row = Math.floor((event.clientY - rect.top) / Number(canvas.dataset.cellSize));
+                const line = current[side + 'RowLines'][row];
+                if (line !== undefined) {
+                    vscode.postMessage({ type: 'revealLine', side, line });
+                }
+            });
         }
     </script>
 </body>
 </html>`;
   }
 }
+
+// Document line of each tiles row
+function getTileRowLines(content: string): number[] {
+  const tiles = new DatCstParser(content).getSection('tiles');
+  return (tiles?.items || []).map(item => item.range.start.line);
+}
@@ -2,6 +2,13 @@ import { describe, expect, it, beforeEach, jest } from '@jest/globals';
 import * as vscode from 'vscode';
 import { MapVersionControl } from './mapVersionControl';
 
+// Files written through workspace.fs, by path
+const files = new Map<string, Uint8Array>();
+
+function fileUri(path: string) {
+  return { scheme: 'file', path, toString: () => `file://${path}` };
+}
+
 // Mock vscode
 jest.mock('vscode', () => ({
   ExtensionContext: jest.fn(),
@@ -13,6 +20,35 @@ jest.mock('vscode', () => ({
   })),
   workspace: {
     applyEdit: jest.fn(() => Promise.resolve(true)),
+    getWorkspaceFolder: jest.fn((uri: { path: string }) =>
+      uri.path.startsWith('/workspace/') ? { uri: fileUri('/workspace') } : undefined
+    ),
+    fs: {
+      readFile: jest.fn(async (uri: { path: string }) => {
+        const data = files.get(uri.path);
+        if (!data) {
+          throw new Error('FileNotFound');
+        }
+        return data;
+      }),
+      writeFile: jest.fn(async (uri: { path: string }, data: Uint8Array) => {
+        files.set(uri.path, data);
+      }),
+      createDirectory: jest.fn(() => Promise.resolve()),
+    },
+  },
+  Uri: {
+    joinPath: jest.fn((base: { path: string }, ...segments: string[]) => {
+      const parts: string[] = [];
+      for (const segment of [base.path, ...segments].join('/').split('/')) {
+        if (segment === '..') {
+          parts.pop();
+        } else if (segment) {
+          parts.push(segment);
+        }
+      }
+      return fileUri('/' + parts.join('/'));
+    }),
   },
   Range: jest.fn().mockImplementation((start, end) => ({ start, end })),
 }));
@@ -25,6 +61,7 @@ describe('MapVersionControl', () => {
   beforeEach(() => {
     // Reset mocks
     jest.clearAllMocks();
+    files.clear();
 
     // Create mock context
     mockContext = {
@@ -45,7 +82,7 @@ tiles{
 1,1,1,1,1
 }
       `),
-      uri: { toString: () => 'test.dat' },
+      uri: fileUri('/workspace/levels/test.dat'),
       positionAt: jest.fn().mockImplementation(offset => ({ line: 0, character: offset })),
     };
 
@@ -153,8 +190,8 @@ tiles{
   });
 
   describe('getVersions', () => {
-    it('should return empty array when no versions', () => {
-      const versions = versionControl.getVersions();
+    it('should return empty array when no versions', async () => {
+      const versions = await versionControl.getVersions(mockDocument);
       expect(versions).toEqual([]);
     });
 
@@ -177,7 +214,7 @@ tiles{
 
       await versionControl.createVersion(mockDocument, 'Version 2');
 
-      const versions = versionControl.getVersions();
+      const versions = await versionControl.getVersions(mockDocument);
 
       expect(versions).toHaveLength(2);
       expect(versions[0].message).toBe('Version 2'); // Most recent first
@@ -200,10 +237,14 @@ tiles{
       expect(vscode.WorkspaceEdit).toHaveBeenCalled();
       expect(vscode.workspace.applyEdit).toHaveBeenCalled();
 
-      // Check that replace was called on the WorkspaceEdit instance
+      // The whole document is replaced with the stored one
       const workspaceEditInstance = (vscode.WorkspaceEdit as jest.MockedFunction<any>).mock
         .results[0].value;
-      expect(workspaceEditInstance.replace).toHaveBeenCalled();
+      expect(workspaceEditInstance.replace).toHaveBeenCalledWith(
+        mockDocument.uri,
+        expect.anything(),
+        mockDocument.getText()
+      );
     });
 
     it('should return false for non-existent version', async () => {
@@ -212,37 +253,215 @@ tiles{
     });
   });
 
+  describe('branches and tags', () => {
+    it('should create new versions on the current branch', async () => {
+      const first = await versionControl.createVersion(mockDocument, 'Base');
+      await versionControl.createBranch(mockDocument, 'harder');
+      mockDocument.getText.mockReturnValue('tiles{\n1,1\n}\n');
+      const second = await versionControl.createVersion(mockDocument, 'Harder');
+
+      expect(versionControl.getVersion(second)).toEqual(
+        expect.objectContaining({ branch: 'harder', parent: first })
+      );
+      expect(await versionControl.getBranches(mockDocument)).toEqual([
+        { name: 'main', head: first, current: false },
+        { name: 'harder', head: second, current: true },
+      ]);
+      await expect(versionControl.createBranch(mockDocument, 'harder')).rejects.toThrow(
+        "Branch 'harder' already exists"
+      );
+    });
+
+    it('should restore the head of a branch when switching to it', async () => {
+      const original = mockDocument.getText();
+      await versionControl.createVersion(mockDocument, 'Base');
+      await versionControl.createBranch(mockDocument, 'harder');
+      mockDocument.getText.mockReturnValue('tiles{\n1,1\n}\n');
+      await versionControl.createVersion(mockDocument, 'Harder');
+      jest.clearAllMocks();
+
+      expect(await versionControl.switchBranch(mockDocument, 'main')).toBe(true);
+
+      const workspaceEditInstance = (vscode.WorkspaceEdit as jest.MockedFunction<any>).mock
+        .results[0].value;
+      expect(workspaceEditInstance.replace).toHaveBeenCalledWith(
+        mockDocument.uri,
+        expect.anything(),
+        original
+      );
+      expect(await versionControl.switchBranch(mockDocument, 'missing')).toBe(false);
+    });
+
+    it('should move a tag to the version it is given to', async () => {
+      const first = await versionControl.createVersion(mockDocument, 'First');
+      mockDocument.getText.mockReturnValue('tiles{\n1,1\n}\n');
+      const second = await versionControl.createVersion(mockDocument, 'Second');
+
+      await versionControl.tagVersion(mockDocument, first, 'release');
+      await versionControl.tagVersion(mockDocument, second, 'release');
+
+      expect(versionControl.getVersion(first)?.tags).toEqual([]);
+      expect(versionControl.getVersion(second)?.tags).toEqual(['release']);
+    });
+  });
+
+  describe('pruneVersions', () => {
+    it('should keep recent, tagged and head versions and relink parents', async () => {
+      const hashes: string[] = [];
+      for (let i = 0; i < 5; i++) {
+        mockDocument.getText.mockReturnValue(`tiles{\n${i},1\n}\n`);
+        hashes.push(await versionControl.createVersion(mockDocument, `Version ${i}`));
+        await new Promise(resolve => setTimeout(resolve, 2));
+      }
+      await versionControl.tagVersion(mockDocument, hashes[0], 'first');
+
+      const removed = await versionControl.pruneVersions(mockDocument, 2);
+
+      expect(removed).toBe(2);
+      const remaining = (await versionControl.getVersions(mockDocument)).map(v => v.hash);
+      expect(remaining).toEqual([hashes[4], hashes[3], hashes[0]]);
+      expect(versionControl.getVersion(hashes[3])?.parent).toBe(hashes[0]);
+    });
+
+    it('should ignore heads that name missing versions', async () => {
+      const hash = await versionControl.createVersion(mockDocument, 'Kept');
+      files.set(
+        '/workspace/.manicminers/history/levels/test.dat.json',
+        Buffer.from(
+          JSON.stringify({
+            ...JSON.parse(
+              Buffer.from(
+                files.get('/workspace/.manicminers/history/levels/test.dat.json')!
+              ).toString('utf8')
+            ),
+            currentVersion: 'missing',
+            branches: { main: hash, merged: 'gone' },
+          })
+        )
+      );
+      const newVersionControl = new MapVersionControl(mockContext);
+
+      expect(await newVersionControl.pruneVersions(mockDocument, 0)).toBe(0);
+      expect((await newVersionControl.getVersions(mockDocument)).map(v => v.hash)).toEqual([hash]);
+    });
+  });
+
   describe('persistence', () => {
-    it('should save version history', async () => {
+    it('should save each document to its own file in the workspace', async () => {
       await versionControl.createVersion(mockDocument, 'Test');
 
-      expect(mockContext.globalState.update).toHaveBeenCalledWith(
-        'mapVersionHistory',
-        expect.any(String)
+      const stored = JSON.parse(
+        Buffer.from(files.get('/workspace/.manicminers/history/levels/test.dat.json')!).toString()
       );
+      expect(stored.document).toBe('levels/test.dat');
+      expect(stored.versions[0].content).toBe(mockDocument.getText());
+      expect(mockContext.globalState.update).not.toHaveBeenCalled();
     });
 
-    it('should load version history on creation', () => {
-      const storedData = {
-        versions: [
-          {
-            hash: 'abc123',
-            date: new Date().toISOString(),
-            message: 'Stored version',
-            tiles: [[1, 2, 3]],
-          },
-        ],
-        currentVersion: 'abc123',
-      };
+    it('should keep versions of different documents apart', async () => {
+      await versionControl.createVersion(mockDocument, 'Test');
+      const otherDocument = { ...mockDocument, uri: fileUri('/workspace/levels/other.dat') };
 
-      mockContext.globalState.get.mockReturnValue(JSON.stringify(storedData));
+      expect(await versionControl.getVersions(otherDocument)).toEqual([]);
+    });
+
+    it('should load saved history in a new session', async () => {
+      const hash = await versionControl.createVersion(mockDocument, 'Stored version');
 
       const newVersionControl = new MapVersionControl(mockContext);
-      const versions = newVersionControl.getVersions();
+      const versions = await newVersionControl.getVersions(mockDocument);
 
       expect(versions).toHaveLength(1);
       expect(versions[0].message).toBe('Stored version');
-      expect(newVersionControl.getCurrentVersion()).toBe('abc123');
+      expect(versions[0].tiles).toHaveLength(5);
+      expect(await newVersionControl.getCurrentVersion(mockDocument)).toBe(hash);
+    });
+
+    it('should keep history of documents outside a workspace in global state', async () => {
+      mockDocument.uri = fileUri('/tmp/loose.dat');
+
+      await versionControl.createVersion(mockDocument, 'Test');
+
+      expect(mockContext.globalState.update).toHaveBeenCalledWith('mapVersionHistories', {
+        'file:///tmp/loose.dat': expect.objectContaining({ document: 'file:///tmp/loose.dat' }),
+      });
+    });
+  });
+
+  describe('legacy history', () => {
+    const grid = (size: number, tile: number) =>
+      Array.from({ length: size }, () => Array(size).fill(tile));
+
+    beforeEach(() => {
+      const state = new Map<string, unknown>([
+        [
+          'mapVersionHistory',
+          JSON.stringify({
+            versions: [
+              {
+                hash: 'b',
+                date: '2024-02-01T00:00:00.000Z',
+                message: 'Second',
+                tiles: grid(5, 38),
+              },
+              { hash: 'a', date: '2024-01-01T00:00:00.000Z', message: 'First', tiles: grid(5, 1) },
+              { hash: 'c', date: '2024-03-01T00:00:00.000Z', message: 'Small', tiles: grid(3, 1) },
+            ],
+            currentVersion: 'b',
+          }),
+        ],
+      ]);
+      mockContext.globalState.get = jest.fn((key: string) => state.get(key));
+      mockContext.globalState.update = jest.fn(async (key: string, value: unknown) => {
+        state.set(key, value);
+      });
+    });
+
+    it('should move versions of the same size into a document without history', async () => {
+      const versions = await versionControl.getVersions(mockDocument);
+
+      expect(versions.map(version => version.message)).toEqual(['Second', 'First']);
+      expect(versions[0].parent).toBe(versions[1].hash);
+      expect(versions[0].content).toContain('tiles{\n38,38,38,38,38,\n');
+      expect(versions[1].tiles).toEqual(grid(5, 1));
+      expect(await versionControl.getCurrentVersion(mockDocument)).toBe(versions[0].hash);
+      expect(files.has('/workspace/.manicminers/history/levels/test.dat.json')).toBe(true);
+
+      const remaining = mockContext.globalState.get('mapVersionHistory');
+      expect(
+        JSON.parse(remaining).versions.map((version: { hash: string }) => version.hash)
+      ).toEqual(['c']);
+    });
+
+    it('should clear the legacy history once every version has moved', async () => {
+      await versionControl.getVersions(mockDocument);
+      const smallDocument = {
+        ...mockDocument,
+        uri: fileUri('/workspace/levels/small.dat'),
+        getText: () => 'tiles{\n1,1,1,\n1,1,1,\n1,1,1,\n}\n',
+      };
+
+      const versions = await versionControl.getVersions(smallDocument);
+
+      expect(versions.map(version => version.message)).toEqual(['Small']);
+      expect(mockContext.globalState.get('mapVersionHistory')).toBeUndefined();
+    });
+
+    it('should leave documents that already have history alone', async () => {
+      files.set(
+        '/workspace/.manicminers/history/levels/test.dat.json',
+        Buffer.from(
+          JSON.stringify({
+            document: 'levels/test.dat',
+            currentBranch: 'main',
+            branches: { main: null },
+            versions: [],
+          })
+        )
+      );
+
+      expect(await versionControl.getVersions(mockDocument)).toEqual([]);
+      expect(mockContext.globalState.get('mapVersionHistory')).toBeDefined();
     });
   });
 });
@@ -1,14 +1,30 @@
+import { createHash } from 'crypto';
 import * as vscode from 'vscode';
 import { DatFileParser } from '../parser/datFileParser';
+import { DatFileWriter } from '../parser/datFileWriter';
+import { DatFile } from '../types/datFileTypes';
+import { LegacyVersion, StoredHistory, VersionHistoryStore } from './versionHistoryStore';
 
 export interface MapVersion {
   hash: string;
   date: Date;
   message: string;
   author?: string;
+  branch: string;
+  // Version this one was created on top of
+  parent?: string;
+  tags: string[];
+  // The whole document as it was when the version was created
+  content: string;
   tiles?: number[][];
 }
 
+export interface VersionBranch {
+  name: string;
+  head?: string;
+  current: boolean;
+}
+
 export interface MapDiff {
   added: { row: number; col: number; tile: number }[];
   removed: { row: number; col: number; tile: number }[];
@@ -21,39 +37,60 @@ export interface MapDiff {
   };
 }
 
+export const DEFAULT_BRANCH = 'main';
+
+interface DocumentHistory {
+  key: string;
+  versions: Map<string, MapVersion>;
+  branches: Map<string, string | undefined>;
+  currentBranch: string;
+  currentVersion?: string;
+}
+
+/**
+ * Version history of each map document. Versions are snapshots of the
+ * whole document that form a tree: each points at the version it was
+ * created on top of and belongs to a named branch.
+ */
 export class MapVersionControl {
-  private versions: Map<string, MapVersion> = new Map();
-  private currentVersion?: string;
+  private histories = new Map<string, DocumentHistory>();
+  private store: VersionHistoryStore;
 
-  constructor(private context: vscode.ExtensionContext) {
-    this.loadVersionHistory();
+  constructor(context: vscode.ExtensionContext) {
+    this.store = new VersionHistoryStore(context);
   }
 
   /**
    * Create a new version from current document
    */
   public async createVersion(document: vscode.TextDocument, message: string): Promise<string> {
-    const parser = new DatFileParser(document.getText());
-    const tilesSection = parser.getSection('tiles');
+    const content = document.getText();
+    const tilesSection = new DatFileParser(content).getSection('tiles');
 
     if (!tilesSection) {
       throw new Error('No tiles section found in document');
     }
 
-    const tiles = this.parseTiles(tilesSection.content);
-    const hash = this.generateHash(tiles);
-
-    const version: MapVersion = {
-      hash,
-      date: new Date(),
-      message,
-      author: await this.getGitAuthor(),
-      tiles,
-    };
-
-    this.versions.set(hash, version);
-    this.currentVersion = hash;
-    await this.saveVersionHistory();
+    const history = await this.getHistory(document);
+    const parent = history.currentVersion;
+    const hash = this.generateHash(`${parent ?? ''}\n${history.currentBranch}\n${content}`);
+
+    if (!history.versions.has(hash)) {
+      history.versions.set(hash, {
+        hash,
+        date: new Date(),
+        message,
+        author: await this.getGitAuthor(),
+        branch: history.currentBranch,
+        parent,
+        tags: [],
+        content,
+        tiles: this.parseTiles(tilesSection.content),
+      });
+    }
+    history.branches.set(history.currentBranch, hash);
+    history.currentVersion = hash;
+    await this.saveHistory(document.uri, history);
 
     return hash;
   }
@@ -62,10 +99,17 @@ export class MapVersionControl {
    * Get diff between two versions
    */
   public getDiff(fromHash: string, toHash: string): MapDiff | null {
-    const fromVersion = this.versions.get(fromHash);
-    const toVersion = this.versions.get(toHash);
+    const fromVersion = this.getVersion(fromHash);
+    const toVersion = this.getVersion(toHash);
+
+    return fromVersion && toVersion ? this.diffVersions(fromVersion, toVersion) : null;
+  }
 
-    if (!fromVersion?.tiles || !toVersion?.tiles) {
+  /**
+   * Get diff between two versions, which need not be stored
+   */
+  public diffVersions(fromVersion: MapVersion, toVersion: MapVersion): MapDiff | null {
+    if (!fromVersion.tiles || !toVersion.tiles) {
       return null;
     }
 
@@ -113,75 +157,208 @@ export class MapVersionControl {
   }
 
   /**
-   * Get all versions
+   * Get all versions of a document, newest first
    */
-  public getVersions(): MapVersion[] {
-    return Array.from(this.versions.values()).sort((a, b) => b.date.getTime() - a.date.getTime());
+  public async getVersions(document: vscode.TextDocument): Promise<MapVersion[]> {
+    const history = await this.getHistory(document);
+    return Array.from(history.versions.values()).sort(
+      (a, b) => b.date.getTime() - a.date.getTime()
+    );
   }
 
   /**
-   * Get a specific version
+   * Get a specific version of any document whose history has been loaded
    */
   public getVersion(hash: string): MapVersion | undefined {
-    return this.versions.get(hash);
+    for (const history of this.histories.values()) {
+      const version = history.versions.get(hash);
+      if (version) {
+        return version;
+      }
+    }
+    return undefined;
   }
 
   /**
-   * Restore a version to the document
+   * Version of the document as it is now, which is not stored
+   */
+  public snapshot(document: vscode.TextDocument, message: string): MapVersion {
+    const content = document.getText();
+    const tilesSection = new DatFileParser(content).getSection('tiles');
+    return {
+      hash: this.generateHash(content),
+      date: new Date(),
+      message,
+      branch: '',
+      tags: [],
+      content,
+      tiles: tilesSection ? this.parseTiles(tilesSection.content) : undefined,
+    };
+  }
+
+  /**
+   * Restore a version to the document. New versions are created on top of
+   * the restored one, so restoring an older version and saving starts a
+   * new line of history.
    */
   public async restoreVersion(document: vscode.TextDocument, hash: string): Promise<boolean> {
-    const version = this.versions.get(hash);
-    if (!version?.tiles) {
+    const history = await this.getHistory(document);
+    const version = history.versions.get(hash);
+    if (!version) {
       return false;
     }
 
-    const parser = new DatFileParser(document.getText());
-    const tilesSection = parser.getSection('tiles');
+    const success = await this.replaceDocument(document, version.content);
+    if (success) {
+      history.currentVersion = hash;
+      await this.saveHistory(document.uri, history);
+    }
+
+    return success;
+  }
 
-    if (!tilesSection) {
-      return false;
+  /**
+   * Get current version hash
+   */
+  public async getCurrentVersion(document: vscode.TextDocument): Promise<string | undefined> {
+    return (await this.getHistory(document)).currentVersion;
+  }
+
+  /**
+   * Get the branches of a document's history
+   */
+  public async getBranches(document: vscode.TextDocument): Promise<VersionBranch[]> {
+    const history = await this.getHistory(document);
+    return Array.from(history.branches.entries()).map(([name, head]) => ({
+      name,
+      head,
+      current: name === history.currentBranch,
+    }));
+  }
+
+  /**
+   * Start a branch at the current version. Versions created afterwards go
+   * on the new branch.
+   */
+  public async createBranch(document: vscode.TextDocument, name: string): Promise<void> {
+    const history = await this.getHistory(document);
+    if (history.branches.has(name)) {
+      throw new Error(`Branch '${name}' already exists`);
     }
 
-    // Convert tiles back to string format
-    const tilesString = this.tilesToString(version.tiles);
+    history.branches.set(name, history.currentVersion);
+    history.currentBranch = name;
+    await this.saveHistory(document.uri, history);
+  }
 
-    // Replace tiles section
-    const edit = new vscode.WorkspaceEdit();
-    // Find the position of tiles section in the document
-    const lines = document.getText().split('\n');
-    let startOffset = 0;
-    let endOffset = 0;
-    let currentOffset = 0;
-
-    for (let i = 0; i < lines.length; i++) {
-      if (i === tilesSection.startLine - 1) {
-        startOffset = currentOffset;
-      }
-      if (i === tilesSection.endLine) {
-        endOffset = currentOffset;
-        break;
-      }
-      currentOffset += lines[i].length + 1; // +1 for newline
+  /**
+   * Switch to a branch, replacing the document with the branch's latest version
+   */
+  public async switchBranch(document: vscode.TextDocument, name: string): Promise<boolean> {
+    const history = await this.getHistory(document);
+    if (!history.branches.has(name)) {
+      return false;
     }
 
-    const startPos = document.positionAt(startOffset);
-    const endPos = document.positionAt(endOffset);
+    const head = history.branches.get(name);
+    const version = head ? history.versions.get(head) : undefined;
+    if (version && !(await this.replaceDocument(document, version.content))) {
+      return false;
+    }
 
-    edit.replace(document.uri, new vscode.Range(startPos, endPos), `tiles{\n${tilesString}\n}`);
+    history.currentBranch = name;
+    history.currentVersion = head;
+    await this.saveHistory(document.uri, history);
+    return true;
+  }
 
-    const success = await vscode.workspace.applyEdit(edit);
-    if (success) {
-      this.currentVersion = hash;
+  /**
+   * Tag a version. A tag names one version, so it moves off any version that had it.
+   */
+  public async tagVersion(
+    document: vscode.TextDocument,
+    hash: string,
+    tag: string
+  ): Promise<boolean> {
+    const history = await this.getHistory(document);
+    const version = history.versions.get(hash);
+    if (!version) {
+      return false;
     }
 
-    return success;
+    for (const other of history.versions.values()) {
+      other.tags = other.tags.filter(t => t !== tag);
+    }
+    version.tags.push(tag);
+    await this.saveHistory(document.uri, history);
+    return true;
   }
 
   /**
-   * Get current version hash
+   * Remove old versions, keeping the newest `keepPerBranch` of each branch
+   * along with tagged versions, branch heads and the current version.
+   * Returns the number of versions removed.
    */
-  public getCurrentVersion(): string | undefined {
-    return this.currentVersion;
+  public async pruneVersions(
+    document: vscode.TextDocument,
+    keepPerBranch: number
+  ): Promise<number> {
+    const history = await this.getHistory(document);
+    const keep = new Set<string>();
+    const byBranch = new Map<string, MapVersion[]>();
+
+    for (const version of history.versions.values()) {
+      byBranch.set(version.branch, [...(byBranch.get(version.branch) || []), version]);
+      if (version.tags.length > 0) {
+        keep.add(version.hash);
+      }
+    }
+    for (const versions of byBranch.values()) {
+      versions
+        .sort((a, b) => b.date.getTime() - a.date.getTime())
+        .slice(0, keepPerBranch)
+        .forEach(version => keep.add(version.hash));
+    }
+    // Heads and the current version come from a file users can edit or merge,
+    // so they may name versions that are no longer there
+    for (const head of [...history.branches.values(), history.currentVersion]) {
+      if (head && history.versions.has(head)) {
+        keep.add(head);
+      }
+    }
+
+    // Point kept versions past the removed ones to their nearest kept ancestor
+    for (const version of history.versions.values()) {
+      if (!keep.has(version.hash)) {
+        continue;
+      }
+      let parent = version.parent;
+      while (parent && !keep.has(parent)) {
+        parent = history.versions.get(parent)?.parent;
+      }
+      version.parent = parent;
+    }
+
+    const removed = history.versions.size - keep.size;
+    for (const hash of Array.from(history.versions.keys())) {
+      if (!keep.has(hash)) {
+        history.versions.delete(hash);
+      }
+    }
+    if (removed > 0) {
+      await this.saveHistory(document.uri, history);
+    }
+    return removed;
+  }
+
+  private async replaceDocument(document: vscode.TextDocument, content: string): Promise<boolean> {
+    const edit = new vscode.WorkspaceEdit();
+    edit.replace(
+      document.uri,
+      new vscode.Range(document.positionAt(0), document.positionAt(document.getText().length)),
+      content
+    );
+    return vscode.workspace.applyEdit(edit);
   }
 
   /**
@@ -211,26 +388,10 @@ export class MapVersionControl {
   }
 
   /**
-   * Convert tiles array to string format
-   */
-  private tilesToString(tiles: number[][]): string {
-    return tiles.map(row => row.join(',')).join('\n');
-  }
-
-  /**
-   * Generate hash for tiles
+   * Generate hash for a version
    */
-  private generateHash(tiles: number[][]): string {
-    const content = JSON.stringify(tiles);
-    let hash = 0;
-
-    for (let i = 0; i < content.length; i++) {
-      const char = content.charCodeAt(i);
-      hash = (hash << 5) - hash + char;
-      hash = hash & hash; // Convert to 32bit integer
-    }
-
-    return Math.abs(hash).toString(16);
+  private generateHash(content: string): string {
+    return createHash('sha1').update(content).digest('hex');
   }
 
   /**
@@ -254,37 +415,128 @@ export class MapVersionControl {
   }
 
   /**
-   * Load version history from storage
+   * Load a document's version history from storage the first time it is needed
    */
-  private async loadVersionHistory(): Promise<void> {
-    const stored = this.context.globalState.get<string>('mapVersionHistory');
-    if (stored) {
-      try {
-        const data = JSON.parse(stored);
-        this.versions = new Map(
-          data.versions.map(
-            (v: MapVersion) => [v.hash, { ...v, date: new Date(v.date) }] as [string, MapVersion]
-          )
-        );
-        this.currentVersion = data.currentVersion;
-      } catch {
-        // Ignore parse errors
-      }
+  private async getHistory(document: vscode.TextDocument): Promise<DocumentHistory> {
+    const uri = document.uri;
+    const cached = this.histories.get(uri.toString());
+    if (cached) {
+      return cached;
     }
+
+    const stored = await this.store.load(uri);
+    const history: DocumentHistory = {
+      key: this.store.getDocumentKey(uri),
+      versions: new Map(),
+      branches: new Map([[DEFAULT_BRANCH, undefined]]),
+      currentBranch: stored?.currentBranch || DEFAULT_BRANCH,
+      currentVersion: stored?.currentVersion,
+    };
+    for (const version of stored?.versions || []) {
+      const tilesSection = new DatFileParser(version.content).getSection('tiles');
+      history.versions.set(version.hash, {
+        ...version,
+        date: new Date(version.date),
+        tags: version.tags || [],
+        tiles: tilesSection ? this.parseTiles(tilesSection.content) : undefined,
+      });
+    }
+    for (const [name, head] of Object.entries(stored?.branches || {})) {
+      history.branches.set(name, head ?? undefined);
+    }
+
+    this.histories.set(uri.toString(), history);
+    if (!stored) {
+      await this.importLegacyVersions(document, history);
+    }
+    return history;
   }
 
   /**
-   * Save version history to storage
+   * Move versions saved by earlier releases into a document without history
+   * of its own. Those versions were kept in one list for every document and
+   * only hold tiles, so a document takes the ones whose grid is its size, and
+   * each becomes the document with that version's tiles.
    */
-  private async saveVersionHistory(): Promise<void> {
-    const data = {
-      versions: Array.from(this.versions.entries()).map(([_hash, version]) => ({
-        ...version,
-        date: version.date.toISOString(),
-      })),
-      currentVersion: this.currentVersion,
+  private async importLegacyVersions(
+    document: vscode.TextDocument,
+    history: DocumentHistory
+  ): Promise<void> {
+    const legacy = this.store.loadLegacyVersions();
+    if (legacy.length === 0) {
+      return;
+    }
+
+    const content = document.getText();
+    const parser = new DatFileParser(content);
+    let datFile: Partial<DatFile>;
+    try {
+      datFile = parser.parsePartial();
+    } catch {
+      // Try again once the document parses
+      return;
+    }
+    const rows = datFile.tiles?.length;
+    const cols = datFile.tiles?.[0]?.length;
+    const matches = (version: LegacyVersion) =>
+      version.tiles?.length === rows && version.tiles?.[0]?.length === cols;
+    const imported = legacy
+      .filter(matches)
+      .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+    if (imported.length === 0) {
+      return;
+    }
+
+    const writer = new DatFileWriter({ source: parser });
+    let parent: string | undefined;
+    for (const version of imported) {
+      const versionContent = writer.write({ ...datFile, tiles: version.tiles });
+      const hash = this.generateHash(`${parent ?? ''}\n${DEFAULT_BRANCH}\n${versionContent}`);
+      history.versions.set(hash, {
+        hash,
+        date: new Date(version.date),
+        message: version.message,
+        author: version.author,
+        branch: DEFAULT_BRANCH,
+        parent,
+        tags: [],
+        content: versionContent,
+        tiles: version.tiles,
+      });
+      parent = hash;
+    }
+    history.branches.set(DEFAULT_BRANCH, parent);
+    history.currentVersion = parent;
+
+    await this.saveHistory(document.uri, history);
+    await this.store.saveLegacyVersions(legacy.filter(version => !matches(version)));
+  }
+
+  /**
+   * Save a document's version history to storage
+   */
+  private async saveHistory(uri: vscode.Uri, history: DocumentHistory): Promise<void> {
+    const data: StoredHistory = {
+      document: history.key,
+      currentBranch: history.currentBranch,
+      currentVersion: history.currentVersion,
+      branches: Object.fromEntries(
+        Array.from(history.branches.entries()).map(([name, head]) => [name, head ?? null])
+      ),
+      versions: Array.from(history.versions.values())
+        .sort((a, b) => a.date.getTime() - b.date.getTime())
+        .map(version => ({
+          hash: version.hash,
+          parent: version.parent,
+          branch: version.branch,
+          date: version.date.toISOString(),
+          message: version.message,
+          author: version.author,
+          tags: version.tags.length > 0 ? version.tags : undefined,
+          content: version.content,
+        })),
     };
 
-    await this.context.globalState.update('mapVersionHistory', JSON.stringify(data));
+    await this.store.save(uri, data);
   }
 }
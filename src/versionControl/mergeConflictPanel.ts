@@ -0,0 +1,259 @@
+import * as vscode from 'vscode';
+import { DatMergeResult, MergeSide, mergeDatText } from './datMerge';
+import { DatFileParser } from '../parser/datFileParser';
+import { getRgbaString, getTileColor } from '../mapPreview/colorMap';
+
+export interface MergeVersions {
+  base: string;
+  ours: string;
+  theirs: string;
+}
+
+/**
+ * Side by side renders of the base, ours, theirs and merged level, with a
+ * choice of side for each conflict. Applying writes the merged level into
+ * the document.
+ */
+export class MergeConflictPanel {
+  public static readonly viewType = 'manicMiners.mergeConflicts';
+
+  private resolutions: Record<string, MergeSide> = {};
+  private result: DatMergeResult;
+
+  public static show(
+    extensionUri: vscode.Uri,
+    document: vscode.TextDocument,
+    versions: MergeVersions
+  ): MergeConflictPanel {
+    const panel = vscode.window.createWebviewPanel(
+      MergeConflictPanel.viewType,
+      `Merge: ${document.fileName.split(/[\\/]/).pop()}`,
+      vscode.ViewColumn.Two,
+      {
+        enableScripts: true,
+        localResourceRoots: [extensionUri],
+      }
+    );
+    return new MergeConflictPanel(panel, extensionUri, document, versions);
+  }
+
+  private constructor(
+    private readonly panel: vscode.WebviewPanel,
+    extensionUri: vscode.Uri,
+    private readonly document: vscode.TextDocument,
+    private readonly versions: MergeVersions
+  ) {
+    this.result = mergeDatText(versions.base, versions.ours, versions.theirs);
+    panel.webview.html = this.getHtmlForWebview(panel.webview, extensionUri);
+    panel.webview.onDidReceiveMessage(async message => {
+      switch (message.type) {
+        case 'ready':
+          this.update();
+          break;
+        case 'resolve':
+          this.resolutions[message.id] = message.side;
+          this.update();
+          break;
+        case 'resolveAll':
+          for (const conflict of this.result.conflicts) {
+            this.resolutions[conflict.id] = message.side;
+          }
+          this.update();
+          break;
+        case 'apply':
+          await this.apply();
+          break;
+      }
+    });
+  }
+
+  private update() {
+    this.result = mergeDatText(
+      this.versions.base,
+      this.versions.ours,
+      this.versions.theirs,
+      this.resolutions
+    );
+
+    const tiles = {
+      base: getTiles(this.versions.base),
+      ours: getTiles(this.versions.ours),
+      theirs: getTiles(this.versions.theirs),
+      merged: getTiles(this.result.text),
+    };
+    const tileColors: Record<number, string> = {};
+    for (const tileId of new Set(Object.values(tiles).flat(2))) {
+      tileColors[tileId] = getRgbaString(getTileColor(tileId));
+    }
+
+    this.panel.webview.postMessage({
+      type: 'showMerge',
+      conflicts: this.result.conflicts,
+      resolutions: this.resolutions,
+      tiles,
+      tileColors,
+    });
+  }
+
+  private async apply() {
+    try {
+      const edit = new vscode.WorkspaceEdit();
+      const fullRange = new vscode.Range(
+        this.document.positionAt(0),
+        this.document.positionAt(this.document.getText().length)
+      );
+      edit.replace(this.document.uri, fullRange, this.result.text);
+      await vscode.workspace.applyEdit(edit);
+
+      this.panel.dispose();
+      vscode.window.showInformationMessage(
+        'Merged level written. Save it and stage it with git to mark the conflict resolved.'
+      );
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      vscode.window.showErrorMessage(`Failed to apply merge: ${errorMessage}`);
+    }
+  }
+
+  private getHtmlForWebview(webview: vscode.Webview, extensionUri: vscode.Uri) {
+    const styleUri = webview.asWebviewUri(
+      vscode.Uri.joinPath(extensionUri, 'media', 'mergeConflicts.css')
+    );
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <link href="${styleUri}" rel="stylesheet">
+    <title>Merge Conflicts</title>
+</head>
+<body>
+    <div id="merge-container">
+        <div class="merge-header">
+            <h2>Level Merge</h2>
+            <div class="merge-summary"></div>
+            <div class="merge-actions">
+                <button data-all="ours">Take All Ours</button>
+                <button data-all="theirs">Take All Theirs</button>
+                <button id="apply" class="primary">Apply Merge</button>
+            </div>
+        </div>
+        <div class="merge-maps">
+            <div class="merge-map"><h3>Base</h3><canvas id="baseMap"></canvas></div>
+            <div class="merge-map"><h3>Ours</h3><canvas id="oursMap"></canvas></div>
+            <div class="merge-map"><h3>Theirs</h3><canvas id="theirsMap"></canvas></div>
+            <div class="merge-map"><h3>Merged</h3><canvas id="mergedMap"></canvas></div>
+        </div>
+        <div class="conflict-list"></div>
+    </div>
+    <script>
+        const vscode = acquireVsCodeApi();
+        const SIDES = ['base', 'ours', 'theirs'];
+        let current;
+        let selected;
+
+        window.addEventListener('message', event => {
+            const message = event.data;
+            switch (message.type) {
+                case 'showMerge':
+                    current = message;
+                    displayMerge();
+                    break;
+            }
+        });
+
+        function escapeHtml(text) {
+            const div = document.createElement('div');
+            div.textContent = text == null ? '' : String(text);
+            return div.innerHTML;
+        }
+
+        function displayMerge() {
+            const { conflicts, resolutions } = current;
+            document.querySelector('.merge-summary').textContent = conflicts.length === 0
+                ? 'Both sides merged without conflicts'
+                : conflicts.length + ' conflict(s). Unresolved conflicts keep ours.';
+
+            for (const side of ['base', 'ours', 'theirs', 'merged']) {
+                drawMap(side + 'Map', current.tiles[side]);
+            }
+
+            document.querySelector('.conflict-list').innerHTML = conflicts.map(conflict => {
+                const chosen = resolutions[conflict.id] || 'ours';
+                return \`<div class="conflict \${conflict.id === selected ? 'selected' : ''}" data-id="\${escapeHtml(conflict.id)}">
+                    <div class="conflict-title">
+                        <span class="conflict-section">\${escapeHtml(conflict.section)}</span>
+                        \${escapeHtml(conflict.description)}
+                    </div>
+                    <div class="conflict-sides">
+                        \${SIDES.map(side => \`
+                        <label class="conflict-side \${chosen === side ? 'chosen' : ''}">
+                            <input type="radio" name="\${escapeHtml(conflict.id)}" value="\${side}" \${chosen === side ? 'checked' : ''}>
+                            <span class="side-name">\${side}</span>
+                            <pre>\${conflict[side] === undefined ? '<em>(none)</em>' : escapeHtml(conflict[side])}</pre>
+                        </label>\`).join('')}
+                    </div>
+                </div>\`;
+            }).join('');
+        }
+
+        function drawMap(canvasId, tiles) {
+            const canvas = document.getElementById(canvasId);
+            const rows = tiles.length;
+            const cols = rows > 0 ? Math.max(...tiles.map(row => row.length)) : 0;
+            const cellSize = Math.max(2, Math.floor(200 / Math.max(rows, cols, 1)));
+            canvas.width = cols * cellSize;
+            canvas.height = rows * cellSize;
+
+            const ctx = canvas.getContext('2d');
+            for (let row = 0; row < rows; row++) {
+                for (let col = 0; col < tiles[row].length; col++) {
+                    ctx.fillStyle = current.tileColors[tiles[row][col]] || '#808080';
+                    ctx.fillRect(col * cellSize, row * cellSize, cellSize, cellSize);
+                }
+            }
+
+            // Conflicting cells, with the selected one drawn over the rest
+            ctx.lineWidth = Math.max(1, Math.floor(cellSize / 6));
+            const cells = current.conflicts.filter(conflict => conflict.row !== undefined);
+            cells.sort((a, b) => (a.id === selected) - (b.id === selected));
+            for (const conflict of cells) {
+                ctx.strokeStyle = conflict.id === selected ? '#ffffff' : '#ff5252';
+                ctx.strokeRect(conflict.col * cellSize + 0.5, conflict.row * cellSize + 0.5, cellSize - 1, cellSize - 1);
+            }
+        }
+
+        document.querySelector('.conflict-list').addEventListener('change', event => {
+            if (event.target.matches('input[type="radio"]')) {
+                vscode.postMessage({ type: 'resolve', id: event.target.name, side: event.target.value });
+            }
+        });
+
+        document.querySelector('.conflict-list').addEventListener('click', event => {
+            const item = event.target.closest('.conflict');
+            if (item && current && item.dataset.id !== selected) {
+                selected = item.dataset.id;
+                displayMerge();
+            }
+        });
+
+        for (const button of document.querySelectorAll('[data-all]')) {
+            button.addEventListener('click', () => vscode.postMessage({ type: 'resolveAll', side: button.dataset.all }));
+        }
+        document.getElementById('apply').addEventListener('click', () => vscode.postMessage({ type: 'apply' }));
+
+        vscode.postMessage({ type: 'ready' });
+    </script>
+</body>
+</html>`;
+  }
+}
+
+function getTiles(text: string): number[][] {
+  try {
+    return new DatFileParser(text).parsePartial().tiles || [];
+  } catch {
+    return [];
+  }
+}
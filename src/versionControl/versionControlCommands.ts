@@ -1,6 +1,12 @@
 import * as vscode from 'vscode';
+import * as path from 'path';
+import { execFile } from 'child_process';
+import { promisify } from 'util';
 import { MapVersionControl, MapVersion } from './mapVersionControl';
 import { MapDiffProvider } from './mapDiffProvider';
+import { MergeConflictPanel, MergeVersions } from './mergeConflictPanel';
+
+const execFileAsync = promisify(execFile);
 
 export function registerVersionControlCommands(
   context: vscode.ExtensionContext,
@@ -10,9 +16,8 @@ export function registerVersionControlCommands(
   // Create version command
   context.subscriptions.push(
     vscode.commands.registerCommand('manicMiners.createVersion', async () => {
-      const editor = vscode.window.activeTextEditor;
-      if (!editor || editor.document.languageId !== 'manicminers') {
-        vscode.window.showErrorMessage('Please open a Manic Miners DAT file');
+      const document = getActiveMapDocument();
+      if (!document) {
         return;
       }
 
@@ -32,8 +37,8 @@ export function registerVersionControlCommands(
       }
 
       try {
-        const hash = await versionControl.createVersion(editor.document, message);
-        vscode.window.showInformationMessage(`Version created: ${hash}`);
+        const hash = await versionControl.createVersion(document, message);
+        vscode.window.showInformationMessage(`Version created: ${hash.substring(0, 8)}`);
       } catch (error) {
         vscode.window.showErrorMessage(`Failed to create version: ${error}`);
       }
@@ -43,21 +48,12 @@ export function registerVersionControlCommands(
   // Show version history command
   context.subscriptions.push(
     vscode.commands.registerCommand('manicMiners.showVersionHistory', async () => {
-      const versions = versionControl.getVersions();
-
-      if (versions.length === 0) {
-        vscode.window.showInformationMessage('No version history found');
+      const document = getActiveMapDocument();
+      if (!document) {
         return;
       }
 
-      const items = versions.map(v => ({
-        label: v.message,
-        description: `${v.hash.substring(0, 8)} - ${v.date.toLocaleString()}`,
-        detail: v.author ? `Author: ${v.author}` : undefined,
-        version: v,
-      }));
-
-      const selected = await vscode.window.showQuickPick(items, {
+      const selected = await pickVersion(document, {
         placeHolder: 'Select a version to view or restore',
         title: 'Map Version History',
       });
@@ -68,6 +64,7 @@ export function registerVersionControlCommands(
             { label: '$(eye) View Changes', value: 'view' },
             { label: '$(history) Restore This Version', value: 'restore' },
             { label: '$(diff) Compare with Current', value: 'compare' },
+            { label: '$(tag) Tag This Version', value: 'tag' },
           ],
           {
             placeHolder: 'What would you like to do with this version?',
@@ -77,13 +74,16 @@ export function registerVersionControlCommands(
         if (action) {
           switch (action.value) {
             case 'restore':
-              await restoreVersion(selected.version.hash);
+              await restoreVersion(document, selected.hash);
               break;
             case 'compare':
-              await compareWithCurrent(selected.version.hash);
+              compareWithCurrent(document, selected);
               break;
             case 'view':
-              await viewVersion(selected.version);
+              await viewVersion(document, selected);
+              break;
+            case 'tag':
+              await tagVersion(document, selected);
               break;
           }
         }
@@ -94,18 +94,21 @@ export function registerVersionControlCommands(
   // Compare versions command
   context.subscriptions.push(
     vscode.commands.registerCommand('manicMiners.compareVersions', async () => {
-      const versions = versionControl.getVersions();
+      const document = getActiveMapDocument();
+      if (!document) {
+        return;
+      }
 
+      const versions = await loadVersions(document);
+      if (!versions) {
+        return;
+      }
       if (versions.length < 2) {
         vscode.window.showInformationMessage('Need at least 2 versions to compare');
         return;
       }
 
-      const items = versions.map(v => ({
-        label: v.message,
-        description: `${v.hash.substring(0, 8)} - ${v.date.toLocaleString()}`,
-        version: v,
-      }));
+      const items = versions.map(toQuickPickItem);
 
       const fromVersion = await vscode.window.showQuickPick(items, {
         placeHolder: 'Select the FROM version',
@@ -129,19 +132,186 @@ export function registerVersionControlCommands(
       }
 
       // Show diff in panel
-      diffProvider.showDiff(fromVersion.version.hash, toVersion.version.hash);
+      diffProvider.showDiff(fromVersion.version, toVersion.version, document);
       vscode.commands.executeCommand('manicMiners.mapDiff.focus');
     })
   );
 
-  // Restore version function
-  async function restoreVersion(hash: string) {
-    const editor = vscode.window.activeTextEditor;
-    if (!editor || editor.document.languageId !== 'manicminers') {
-      vscode.window.showErrorMessage('Please open a Manic Miners DAT file');
-      return;
+  // Create branch command
+  context.subscriptions.push(
+    vscode.commands.registerCommand('manicMiners.createVersionBranch', async () => {
+      const document = getActiveMapDocument();
+      if (!document) {
+        return;
+      }
+
+      const name = await vscode.window.showInputBox({
+        prompt: 'Enter a name for the new branch. It starts at the current version.',
+        placeHolder: 'e.g., harder-variant',
+        validateInput: value =>
+          /^[\w.-]+$/.test(value) ? null : 'Use letters, numbers, dots, dashes and underscores',
+      });
+
+      if (!name) {
+        return;
+      }
+
+      try {
+        await versionControl.createBranch(document, name);
+        vscode.window.showInformationMessage(`Switched to new branch '${name}'`);
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        vscode.window.showErrorMessage(`Failed to create branch: ${errorMessage}`);
+      }
+    })
+  );
+
+  // Switch branch command
+  context.subscriptions.push(
+    vscode.commands.registerCommand('manicMiners.switchVersionBranch', async () => {
+      const document = getActiveMapDocument();
+      if (!document) {
+        return;
+      }
+
+      try {
+        const branches = await versionControl.getBranches(document);
+        const selected = await vscode.window.showQuickPick(
+          branches.map(branch => ({
+            label: `${branch.current ? '$(check) ' : ''}${branch.name}`,
+            description: branch.head ? branch.head.substring(0, 8) : 'No versions yet',
+            branch,
+          })),
+          { placeHolder: 'Select a branch to switch to', title: 'Map Version Branches' }
+        );
+
+        if (!selected || selected.branch.current) {
+          return;
+        }
+
+        const confirm = await vscode.window.showWarningMessage(
+          `Switch to branch '${selected.branch.name}'? The map will be replaced with its latest version and unsaved changes will be lost.`,
+          'Switch',
+          'Cancel'
+        );
+
+        if (confirm === 'Switch') {
+          const success = await versionControl.switchBranch(document, selected.branch.name);
+          if (success) {
+            vscode.window.showInformationMessage(`Switched to branch '${selected.branch.name}'`);
+          } else {
+            vscode.window.showErrorMessage('Failed to switch branch');
+          }
+        }
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        vscode.window.showErrorMessage(`Failed to switch branch: ${errorMessage}`);
+      }
+    })
+  );
+
+  // Tag version command
+  context.subscriptions.push(
+    vscode.commands.registerCommand('manicMiners.tagVersion', async () => {
+      const document = getActiveMapDocument();
+      if (!document) {
+        return;
+      }
+
+      const selected = await pickVersion(document, {
+        placeHolder: 'Select a version to tag',
+        title: 'Tag Map Version',
+      });
+
+      if (selected) {
+        await tagVersion(document, selected);
+      }
+    })
+  );
+
+  // Prune history command
+  context.subscriptions.push(
+    vscode.commands.registerCommand('manicMiners.pruneVersionHistory', async () => {
+      const document = getActiveMapDocument();
+      if (!document) {
+        return;
+      }
+
+      const keep = await vscode.window.showInputBox({
+        prompt:
+          'How many recent versions should each branch keep? Tagged versions and branch heads are always kept.',
+        value: '20',
+        validateInput: value =>
+          /^\d+$/.test(value.trim()) ? null : 'Enter a whole number of 0 or more',
+      });
+
+      if (keep === undefined) {
+        return;
+      }
+
+      try {
+        const removed = await versionControl.pruneVersions(document, parseInt(keep.trim(), 10));
+        vscode.window.showInformationMessage(
+          removed === 0 ? 'No versions to prune' : `Pruned ${removed} old versions`
+        );
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        vscode.window.showErrorMessage(`Failed to prune version history: ${errorMessage}`);
+      }
+    })
+  );
+
+  // Resolve merge conflicts command
+  context.subscriptions.push(
+    vscode.commands.registerCommand('manicMiners.resolveMergeConflicts', async () => {
+      const document = getActiveMapDocument();
+      if (!document) {
+        return;
+      }
+
+      try {
+        const versions =
+          (await readGitMergeVersions(document)) ?? (await pickMergeVersions(document));
+        if (versions) {
+          MergeConflictPanel.show(context.extensionUri, document, versions);
+        }
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        vscode.window.showErrorMessage(`Failed to load merge conflicts: ${errorMessage}`);
+      }
+    })
+  );
+
+  // Versions of a document, or undefined after reporting why they could not be loaded
+  async function loadVersions(document: vscode.TextDocument): Promise<MapVersion[] | undefined> {
+    try {
+      return await versionControl.getVersions(document);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      vscode.window.showErrorMessage(`Failed to load version history: ${errorMessage}`);
+      return undefined;
     }
+  }
 
+  async function pickVersion(
+    document: vscode.TextDocument,
+    options: vscode.QuickPickOptions
+  ): Promise<MapVersion | undefined> {
+    const versions = await loadVersions(document);
+    if (!versions) {
+      return undefined;
+    }
+    if (versions.length === 0) {
+      vscode.window.showInformationMessage('No version history found');
+      return undefined;
+    }
+
+    const selected = await vscode.window.showQuickPick(versions.map(toQuickPickItem), options);
+    return selected?.version;
+  }
+
+  // Restore version function
+  async function restoreVersion(document: vscode.TextDocument, hash: string) {
     const confirm = await vscode.window.showWarningMessage(
       'Are you sure you want to restore this version? Current changes will be lost.',
       'Yes, Restore',
@@ -149,7 +319,7 @@ export function registerVersionControlCommands(
     );
 
     if (confirm === 'Yes, Restore') {
-      const success = await versionControl.restoreVersion(editor.document, hash);
+      const success = await versionControl.restoreVersion(document, hash);
       if (success) {
         vscode.window.showInformationMessage('Version restored successfully');
       } else {
@@ -159,22 +329,37 @@ export function registerVersionControlCommands(
   }
 
   // Compare with current function
-  async function compareWithCurrent(hash: string) {
-    const editor = vscode.window.activeTextEditor;
-    if (!editor || editor.document.languageId !== 'manicminers') {
-      vscode.window.showErrorMessage('Please open a Manic Miners DAT file');
+  function compareWithCurrent(document: vscode.TextDocument, version: MapVersion) {
+    // The current state is compared without being saved as a version
+    diffProvider.showDiff(
+      version,
+      versionControl.snapshot(document, 'Current (unsaved)'),
+      document
+    );
+    vscode.commands.executeCommand('manicMiners.mapDiff.focus');
+  }
+
+  async function tagVersion(document: vscode.TextDocument, version: MapVersion) {
+    const tag = await vscode.window.showInputBox({
+      prompt: 'Enter a tag for this version',
+      placeHolder: 'e.g., v1.0 or playtest-2',
+      validateInput: value =>
+        /^[\w.-]+$/.test(value) ? null : 'Use letters, numbers, dots, dashes and underscores',
+    });
+
+    if (!tag) {
       return;
     }
 
-    // Create a temporary version for current state
-    const currentHash = await versionControl.createVersion(editor.document, 'Current (unsaved)');
-
-    diffProvider.showDiff(hash, currentHash);
-    vscode.commands.executeCommand('manicMiners.mapDiff.focus');
+    if (await versionControl.tagVersion(document, version.hash, tag)) {
+      vscode.window.showInformationMessage(`Tagged ${version.hash.substring(0, 8)} as '${tag}'`);
+    } else {
+      vscode.window.showErrorMessage('Failed to tag version');
+    }
   }
 
   // View version details
-  async function viewVersion(version: MapVersion) {
+  async function viewVersion(document: vscode.TextDocument, version: MapVersion) {
     const panel = vscode.window.createWebviewPanel(
       'mapVersionDetails',
       `Version: ${version.message}`,
@@ -182,7 +367,10 @@ export function registerVersionControlCommands(
       {}
     );
 
-    const diff = versionControl.getDiff(versionControl.getCurrentVersion() || '', version.hash);
+    const diff = versionControl.getDiff(
+      (await versionControl.getCurrentVersion(document)) || '',
+      version.hash
+    );
 
     panel.webview.html = `
 <!DOCTYPE html>
@@ -223,6 +411,8 @@ export function registerVersionControlCommands(
         <p><strong>Message:</strong> ${version.message}</p>
         <p><strong>Hash:</strong> ${version.hash}</p>
         <p><strong>Date:</strong> ${version.date.toLocaleString()}</p>
+        <p><strong>Branch:</strong> ${version.branch}</p>
+        ${version.tags.length > 0 ? `<p><strong>Tags:</strong> ${version.tags.join(', ')}</p>` : ''}
         ${version.author ? `<p><strong>Author:</strong> ${version.author}</p>` : ''}
     </div>
     
@@ -248,6 +438,78 @@ export function registerVersionControlCommands(
   }
 }
 
+/**
+ * The base, ours and theirs versions git keeps in the index for a file with
+ * merge conflicts, or undefined when the file is not being merged.
+ */
+async function readGitMergeVersions(
+  document: vscode.TextDocument
+): Promise<MergeVersions | undefined> {
+  if (document.isUntitled) {
+    return undefined;
+  }
+
+  const cwd = path.dirname(document.uri.fsPath);
+  const file = `./${path.basename(document.uri.fsPath)}`;
+  const show = async (stage: number) =>
+    (
+      await execFileAsync('git', ['show', `:${stage}:${file}`], {
+        cwd,
+        maxBuffer: 64 * 1024 * 1024,
+      })
+    ).stdout;
+  try {
+    const [base, ours, theirs] = await Promise.all([show(1), show(2), show(3)]);
+    return { base, ours, theirs };
+  } catch {
+    return undefined;
+  }
+}
+
+// Outside a git merge, the open document is ours and the other two are picked
+async function pickMergeVersions(
+  document: vscode.TextDocument
+): Promise<MergeVersions | undefined> {
+  const pick = async (title: string) => {
+    const [uri] =
+      (await vscode.window.showOpenDialog({
+        title,
+        canSelectMany: false,
+        filters: { 'Manic Miners Levels': ['dat'] },
+      })) || [];
+    return uri ? Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf8') : undefined;
+  };
+
+  const base = await pick('Select the common base version of the level');
+  const theirs = base === undefined ? undefined : await pick('Select the version to merge in');
+  if (base === undefined || theirs === undefined) {
+    return undefined;
+  }
+  return { base, ours: document.getText(), theirs };
+}
+
+function getActiveMapDocument(): vscode.TextDocument | undefined {
+  const editor = vscode.window.activeTextEditor;
+  if (!editor || editor.document.languageId !== 'manicminers') {
+    vscode.window.showErrorMessage('Please open a Manic Miners DAT file');
+    return undefined;
+  }
+  return editor.document;
+}
+
+function toQuickPickItem(version: MapVersion) {
+  const tags = version.tags.map(tag => `$(tag) ${tag}`).join(' ');
+  return {
+    label: version.message,
+    description:
+      `${version.hash.substring(0, 8)} - ${version.date.toLocaleString()} ${tags}`.trim(),
+    detail: [`Branch: ${version.branch}`, version.author && `Author: ${version.author}`]
+      .filter(Boolean)
+      .join(' - '),
+    version,
+  };
+}
+
 function generateMapPreview(tiles: number[][]): string {
   let html = '<table>';
 
@@ -0,0 +1,136 @@
+import * as vscode from 'vscode';
+
+export interface StoredVersion {
+  hash: string;
+  parent?: string;
+  branch: string;
+  date: string;
+  message: string;
+  author?: string;
+  tags?: string[];
+  content: string;
+}
+
+export interface StoredHistory {
+  // Document path relative to its workspace folder, or its URI outside a workspace
+  document: string;
+  currentBranch: string;
+  currentVersion?: string;
+  branches: Record<string, string | null>;
+  versions: StoredVersion[];
+}
+
+// Versions saved by earlier releases: tiles only, all documents in one list
+export interface LegacyVersion {
+  hash: string;
+  date: string;
+  message: string;
+  author?: string;
+  tiles?: number[][];
+}
+
+export const HISTORY_FOLDER = ['.manicminers', 'history'];
+
+// Documents outside a workspace keep their history in the extension's global state
+const GLOBAL_HISTORY_KEY = 'mapVersionHistories';
+// Earlier releases kept one history for every document under this key
+const LEGACY_HISTORY_KEY = 'mapVersionHistory';
+
+/**
+ * Reads and writes the version history of each document. Inside a workspace
+ * the history of `levels/cave.dat` lives in `.manicminers/history/levels/cave.dat.json`
+ * so it can be committed and shared with the level.
+ */
+export class VersionHistoryStore {
+  constructor(private context: vscode.ExtensionContext) {}
+
+  public async load(uri: vscode.Uri): Promise<StoredHistory | undefined> {
+    const historyUri = this.getHistoryUri(uri);
+    if (!historyUri) {
+      return this.getGlobalHistories()[uri.toString()];
+    }
+
+    let data: Uint8Array;
+    try {
+      data = await vscode.workspace.fs.readFile(historyUri);
+    } catch {
+      // No history yet
+      return undefined;
+    }
+
+    try {
+      return JSON.parse(Buffer.from(data).toString('utf8')) as StoredHistory;
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      throw new Error(`Version history ${historyUri.path} could not be read: ${errorMessage}`);
+    }
+  }
+
+  public async save(uri: vscode.Uri, history: StoredHistory): Promise<void> {
+    const historyUri = this.getHistoryUri(uri);
+    if (!historyUri) {
+      await this.context.globalState.update(GLOBAL_HISTORY_KEY, {
+        ...this.getGlobalHistories(),
+        [uri.toString()]: history,
+      });
+      return;
+    }
+
+    await vscode.workspace.fs.createDirectory(vscode.Uri.joinPath(historyUri, '..'));
+    await vscode.workspace.fs.writeFile(
+      historyUri,
+      Buffer.from(JSON.stringify(history, null, 2) + '\n')
+    );
+  }
+
+  /**
+   * Where a document's history is stored, or undefined when the document is
+   * not a file inside a workspace folder
+   */
+  public getHistoryUri(uri: vscode.Uri): vscode.Uri | undefined {
+    const folder = uri.scheme === 'file' ? vscode.workspace.getWorkspaceFolder(uri) : undefined;
+    if (!folder) {
+      return undefined;
+    }
+    return vscode.Uri.joinPath(folder.uri, ...HISTORY_FOLDER, `${this.getDocumentKey(uri)}.json`);
+  }
+
+  public getDocumentKey(uri: vscode.Uri): string {
+    const folder = uri.scheme === 'file' ? vscode.workspace.getWorkspaceFolder(uri) : undefined;
+    if (!folder) {
+      return uri.toString();
+    }
+    return uri.path.slice(folder.uri.path.replace(/\/$/, '').length + 1);
+  }
+
+  /**
+   * Versions left over from earlier releases that have not been moved into a
+   * document's history yet
+   */
+  public loadLegacyVersions(): LegacyVersion[] {
+    const stored = this.context.globalState.get<string>(LEGACY_HISTORY_KEY);
+    if (!stored) {
+      return [];
+    }
+    try {
+      const versions = JSON.parse(stored).versions;
+      return Array.isArray(versions) ? versions : [];
+    } catch {
+      return [];
+    }
+  }
+
+  /**
+   * Keep the legacy versions not moved yet; the key is cleared once none are left
+   */
+  public async saveLegacyVersions(versions: LegacyVersion[]): Promise<void> {
+    await this.context.globalState.update(
+      LEGACY_HISTORY_KEY,
+      versions.length > 0 ? JSON.stringify({ versions }) : undefined
+    );
+  }
+
+  private getGlobalHistories(): Record<string, StoredHistory> {
+    return this.context.globalState.get<Record<string, StoredHistory>>(GLOBAL_HISTORY_KEY) || {};
+  }
+}
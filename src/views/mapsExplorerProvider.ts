@@ -1,6 +1,11 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
 import * as fs from 'fs';
+import { renderMapPng } from '../mapRenderer/mapRenderer';
+import { DatCstParser } from '../parser/datCstParser';
+
+// Longest side of the map thumbnails shown when hovering a map
+const THUMBNAIL_SIZE = 160;
 
 export class MapsExplorerProvider implements vscode.TreeDataProvider<MapItem> {
   private _onDidChangeTreeData: vscode.EventEmitter<MapItem | undefined | null | void> =
@@ -21,6 +26,29 @@ export class MapsExplorerProvider implements vscode.TreeDataProvider<MapItem> {
     return element;
   }
 
+  /**
+   * Fill in a map's tooltip with a thumbnail of the level when it is hovered
+   */
+  resolveTreeItem(item: vscode.TreeItem, element: MapItem): vscode.TreeItem {
+    if (element.itemType !== 'map') {
+      return item;
+    }
+
+    const tooltip = new vscode.MarkdownString();
+    try {
+      const datFile = new DatCstParser(fs.readFileSync(element.path, 'utf8')).toDatFile();
+      const png = renderMapPng(datFile, { maxSize: THUMBNAIL_SIZE, entities: true });
+      tooltip.appendMarkdown(
+        `![${datFile.info?.levelname || element.label}](data:image/png;base64,${png.toString('base64')})\n\n`
+      );
+    } catch {
+      // Unreadable or tileless levels just show their path
+    }
+    tooltip.appendText(element.path);
+    item.tooltip = tooltip;
+    return item;
+  }
+
   getChildren(element?: MapItem): Thenable<MapItem[]> {
     if (!element) {
       // Root level items
@@ -228,7 +256,10 @@ class MapItem extends vscode.TreeItem {
   ) {
     super(label, collapsibleState);
 
-    this.tooltip = this.path || this.label;
+    // Map tooltips are filled in with a thumbnail by resolveTreeItem
+    if (itemType !== 'map') {
+      this.tooltip = this.path || this.label;
+    }
 
     // Set icon based on type
     switch (itemType) {